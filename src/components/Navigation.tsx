@@ -1,5 +1,5 @@
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Users, Heart, Box, Activity, Home } from 'lucide-react';
+import { Users, Heart, Box, Activity, Home, FolderOpen } from 'lucide-react';
 
 // Navigation configuration with structured routes
 const navConfig = [
@@ -38,6 +38,13 @@ const navConfig = [
     icon: Activity,
     isActive: (path: string) => path.startsWith('/datalab'),
   },
+  { 
+    id: 'local', 
+    path: '/local', 
+    name: 'Local Recordings', 
+    icon: FolderOpen,
+    isActive: (path: string) => path.startsWith('/local'),
+  },
 ];
 
 function Navigation() {
@@ -4,10 +4,12 @@
  * A dashboard for clinic-level stats.
  */
 
-import { useState, useMemo, useEffect } from 'react';
+import { useMemo, useEffect } from 'react';
 import { useClinicAnalytics } from '@/hooks/api/clinic/useClinicAnalytics';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { logger } from '@/lib/logger';
+import { decodeSort, encodeSort, TABLE_URL_PARAMS } from '@/lib/utils/tableUrlState';
+import type { TableUrlSort } from '@/lib/utils/tableUrlState';
 import {
   TrendingUp,
   Activity,
@@ -27,10 +29,38 @@ import type {
   ClinicQualityBreakdown
 } from '@/types/domain/clinic';
 
+const NO_SORT: TableUrlSort = { key: null, direction: 'asc' };
+
+// The view lives in the URL so it survives a reload and can be sent as a link
+const URL_PARAMS = {
+  search: TABLE_URL_PARAMS.quickFilter,
+  clinicId: 'clinic',
+  statusSort: TABLE_URL_PARAMS.sort,
+  qualitySort: 'qsort'
+};
+
+/** Clicking the sorted column flips its direction; another column starts ascending */
+function nextSort(sort: TableUrlSort, key: string): TableUrlSort {
+  return sort.key === key
+    ? { key, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+    : { key, direction: 'asc' };
+}
+
 export default function ClinicLab() {
-  const [clinicId, setClinicId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const clinicId = searchParams.get(URL_PARAMS.clinicId) || null;
   const navigate = useNavigate();
 
+  // Typing replaces the current history entry; anything else adds one for back/forward
+  const setParam = (name: string, value: string | null, replace = false) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      if (value) next.set(name, value);
+      else next.delete(name);
+      return next;
+    }, { replace });
+  };
+
   const {
     data: analytics,
     isLoading: loading,
@@ -54,14 +84,16 @@ export default function ClinicLab() {
     });
   }, [clinicId, loading, error, analytics]);
 
-  // State for sorting the tables
-  const [statusSortKey, setStatusSortKey] = useState<keyof ClinicStatusBreakdown | null>(null);
-  const [statusSortDir, setStatusSortDir] = useState<'asc' | 'desc'>('asc');
-  const [qualitySortKey, setQualitySortKey] = useState<keyof ClinicQualityBreakdown | null>(null);
-  const [qualitySortDir, setQualitySortDir] = useState<'asc' | 'desc'>('asc');
+  // Sorting the tables
+  const statusSort = decodeSort(searchParams.get(URL_PARAMS.statusSort), NO_SORT);
+  const statusSortKey = statusSort.key as keyof ClinicStatusBreakdown | null;
+  const statusSortDir = statusSort.direction;
+  const qualitySort = decodeSort(searchParams.get(URL_PARAMS.qualitySort), NO_SORT);
+  const qualitySortKey = qualitySort.key as keyof ClinicQualityBreakdown | null;
+  const qualitySortDir = qualitySort.direction;
 
-  // Filter state
-  const [filterValue, setFilterValue] = useState('');
+  // Filter
+  const filterValue = searchParams.get(URL_PARAMS.search) ?? '';
 
   // Memoized sorted and filtered data
   const sortedStatusData = useMemo(() => {
@@ -120,22 +152,12 @@ export default function ClinicLab() {
 
   // Handle sorting for status table
   const handleStatusSort = (key: keyof ClinicStatusBreakdown) => {
-    if (statusSortKey === key) {
-      setStatusSortDir(prev => (prev === 'asc' ? 'desc' : 'asc'));
-    } else {
-      setStatusSortKey(key);
-      setStatusSortDir('asc');
-    }
+    setParam(URL_PARAMS.statusSort, encodeSort(nextSort(statusSort, key)));
   };
 
   // Handle sorting for quality table
   const handleQualitySort = (key: keyof ClinicQualityBreakdown) => {
-    if (qualitySortKey === key) {
-      setQualitySortDir(prev => (prev === 'asc' ? 'desc' : 'asc'));
-    } else {
-      setQualitySortKey(key);
-      setQualitySortDir('asc');
-    }
+    setParam(URL_PARAMS.qualitySort, encodeSort(nextSort(qualitySort, key)));
   };
 
   // Navigate to clinic detail view
@@ -175,7 +197,7 @@ export default function ClinicLab() {
               type="text"
               placeholder="Search clinics..."
               value={filterValue}
-              onChange={(e) => setFilterValue(e.target.value)}
+              onChange={(e) => setParam(URL_PARAMS.search, e.target.value, true)}
               className="bg-white/5 border border-white/10 rounded-lg pl-9 pr-4 py-2 text-sm text-white w-full focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-transparent placeholder:text-gray-500 transition-all"
             />
           </div>
@@ -186,7 +208,7 @@ export default function ClinicLab() {
               type="text"
               placeholder="Clinic ID (optional)"
               value={clinicId || ''}
-              onChange={(e) => setClinicId(e.target.value || null)}
+              onChange={(e) => setParam(URL_PARAMS.clinicId, e.target.value, true)}
               className="bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-sm text-white w-full focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-transparent placeholder:text-gray-500 transition-all"
             />
           </div>
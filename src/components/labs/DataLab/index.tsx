@@ -1,7 +1,13 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { Database, Download, Heart, Clock, Calendar, User, Building2, Activity, Search } from 'lucide-react';
 import { DataGrid, type Column } from '../../shared/DataGrid';
+import { SavedFilters } from '../../shared/SavedFilters';
 import { useStudiesWithTimes } from '@/hooks/api/study/useStudyHooks';
+import {
+    STUDIES_WITH_TIMES_FILTER_COLUMNS,
+    STUDIES_WITH_TIMES_FILTER_FIELDS
+} from '@/hooks/api/study/useStudiesWithTimes';
+import { useUrlDataGrid } from '@/hooks';
 import type { StudiesWithTimesRow, StudyListRow } from '@/types/domain/study';
 import { formatDate, formatDuration, formatPercentage } from '@/lib/utils/formatters';
 import { supabase } from '@/types/supabase';
@@ -17,24 +23,42 @@ type DataGridColumn = Column<StudiesWithTimesRow> | {
     render: (value: unknown, row: StudiesWithTimesRow) => React.ReactNode;
 };
 
+// Filtering, sorting and paging all run in the database
+const SERVER_GRID = {
+    fields: STUDIES_WITH_TIMES_FILTER_FIELDS,
+    columns: STUDIES_WITH_TIMES_FILTER_COLUMNS
+};
+
+const SAVED_FILTERS = { lab: 'data', ...SERVER_GRID } as const;
+
+const PAGE_SIZE_OPTIONS = [10, 25, 50] as const;
+
 export default function DataLab() {
     const navigate = useNavigate();
-    const [page, setPage] = useState(0);
-    const [pageSize, setPageSize] = useState(25);
-    const [search, setSearch] = useState('');
-    
-    // Use our new robust hook with proper error handling and pagination
+    const {
+        page,
+        pageSize,
+        sortConfig,
+        filterConfig,
+        onPageChange,
+        onPageSizeChange,
+        onSortChange,
+        onFilterChange,
+        onFilterError,
+        serverQuery,
+        serverFilterError,
+        columns: visibleColumns,
+        setColumns
+    } = useUrlDataGrid<StudiesWithTimesRow>({ server: SERVER_GRID, pageSizes: PAGE_SIZE_OPTIONS });
+    const search = filterConfig.quickFilter ?? '';
+
     const { 
         data: studies, 
         totalCount,
         loading, 
         error,
         hasMore 
-    } = useStudiesWithTimes({
-        page,
-        pageSize,
-        search: search.length > 2 ? search : undefined, // Only search with 3+ chars
-    });
+    } = useStudiesWithTimes({ query: serverQuery });
 
     // Define columns for the data grid
     const columns: Column<StudiesWithTimesRow>[] = [
@@ -127,6 +151,7 @@ export default function DataLab() {
             key: 'study_start',
             header: 'Start Time',
             sortable: true,
+            filterType: 'datetime',
             render: (value: unknown) => (
                 <div className="flex items-center gap-2">
                     <Calendar className="h-4 w-4 text-gray-400" />
@@ -138,6 +163,7 @@ export default function DataLab() {
             key: 'study_completed',
             header: 'End Time',
             sortable: true,
+            filterType: 'datetime',
             render: (value: unknown) => (
                 <div className="flex items-center gap-2">
                     <Calendar className="h-4 w-4 text-gray-400" />
@@ -149,6 +175,7 @@ export default function DataLab() {
             key: 'duration_so_far',
             header: 'Duration',
             sortable: true,
+            filterType: 'number',
             render: (value: unknown) => (
                 <div className="flex items-center gap-2">
                     <Clock className="h-4 w-4 text-gray-400" />
@@ -160,6 +187,7 @@ export default function DataLab() {
             key: 'quality_fraction',
             header: 'Quality',
             sortable: true,
+            filterType: 'number',
             render: (value: unknown, row: StudiesWithTimesRow) => {
                 const quality = value as number;
                 const percentage = quality !== null ? `${Math.round(quality * 100)}%` : 'N/A';
@@ -181,12 +209,14 @@ export default function DataLab() {
             key: 'earliest_ecg_data',
             header: 'First Data',
             sortable: true,
+            filterType: 'datetime',
             render: (value: unknown) => value ? new Date(value as string).toLocaleString() : 'N/A'
         },
         {
             key: 'latest_ecg_data',
             header: 'Last Data',
             sortable: true,
+            filterType: 'datetime',
             render: (value: unknown) => value ? new Date(value as string).toLocaleString() : 'N/A'
         },
         {
@@ -218,8 +248,7 @@ export default function DataLab() {
 
     // Handle search input
     const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        setSearch(e.target.value);
-        setPage(0); // Reset to first page when search changes
+        onFilterChange({ quickFilter: e.target.value });
     };
 
     // Handle data export
@@ -311,12 +340,12 @@ export default function DataLab() {
                     {/* Page Size Selector */}
                     <select
                         value={pageSize}
-                        onChange={(e) => setPageSize(Number(e.target.value))}
+                        onChange={(e) => onPageSizeChange(Number(e.target.value))}
                         className="px-4 py-2 bg-white/5 border border-white/10 rounded text-white"
                     >
-                        <option value="10">10 per page</option>
-                        <option value="25">25 per page</option>
-                        <option value="50">50 per page</option>
+                        {PAGE_SIZE_OPTIONS.map(size => (
+                            <option key={size} value={size}>{size} per page</option>
+                        ))}
                     </select>
 
                     {/* Export Button */}
@@ -356,6 +385,12 @@ export default function DataLab() {
                 </div>
             </div>
 
+            <SavedFilters
+                {...SAVED_FILTERS}
+                currentExpression={filterConfig.expression ?? ''}
+                onSelectFilter={(filter) => onFilterChange({ expression: filter.expression })}
+            />
+
             {/* Data Grid */}
             {error ? (
                 <div className="p-4 bg-red-900/30 border border-red-700 rounded-lg text-red-400">
@@ -369,11 +404,22 @@ export default function DataLab() {
                     loading={loading}
                     page={page}
                     pageSize={pageSize}
-                    onPageChange={setPage}
+                    onPageChange={onPageChange}
                     totalCount={totalCount}
                     hasMore={hasMore}
                     paginationMode="server"
+                    filterMode="server"
+                    sortMode="server"
+                    onSort={onSortChange}
+                    onFilterChange={onFilterChange}
+                    onFilterError={onFilterError}
                     quickFilter={search}
+                    filterExpression={filterConfig.expression ?? ''}
+                    filterFields={STUDIES_WITH_TIMES_FILTER_FIELDS}
+                    filterError={serverFilterError}
+                    sort={sortConfig}
+                    visibleColumns={visibleColumns}
+                    onVisibleColumnsChange={setColumns}
                 />
             )}
             
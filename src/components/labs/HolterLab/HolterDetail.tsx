@@ -12,8 +12,14 @@ import { supabase } from '@/types/supabase';
 import MainECGViewer from '@/components/shared/ecg/MainECGViewer';
 import { HolterHeader } from './components/HolterHeader';
 import HourlyHistogram from './components/HourlyHistogram';
+import { ArrhythmiaEventList } from './components/ArrhythmiaEventList';
+import { MeasurementList } from './components/MeasurementList';
+import { AnnotationList } from './components/AnnotationList';
+import { StripBookmarkList } from './components/StripBookmarkList';
+import type { ArrhythmiaEvent } from '@/lib/ecg/arrhythmia';
 import { CalendarSelector } from '@/components/shared/CalendarSelector/index';
 import { useStudyDetails } from '@/hooks/api/study/useStudyDetails';
+import { useEcgDataSource } from '@/context/EcgDataSourceContext';
 import { useSupabaseClient } from '@supabase/auth-helpers-react';
 import { useToast } from '../../../components/ui/use-toast';
 
@@ -55,6 +61,7 @@ interface EnhancedStudyDetails extends StudyDetails {
   end_timestamp: string;
   earliest_time: string;
   latest_time: string;
+  study_type?: string | null;
 }
 
 interface RPCStudyDetailsResponse {
@@ -76,10 +83,6 @@ interface RPCStudyDiagnosticsResponse {
   bad_hours: number;
 }
 
-interface RPCPodDaysResponse {
-  day_value: string;
-}
-
 // Helper function to determine study status
 function getStudyStatus(study: any): StudyStatus {
   // Determine status based on timestamps
@@ -88,6 +91,9 @@ function getStudyStatus(study: any): StudyStatus {
   return now > endTime ? 'completed' : 'active';
 }
 
+// Context shown either side of an event, measurement or annotation when it is opened
+const EVENT_PADDING_MS = 5000;
+
 export default function HolterDetail() {
   const { studyId } = useParams();
   const navigate = useNavigate();
@@ -95,7 +101,10 @@ export default function HolterDetail() {
   const [hourSelected, setHourSelected] = useState<number | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [ecgViewerOpen, setECGViewerOpen] = useState(false);
+  // Explicit viewer range (e.g. an arrhythmia event); overrides the selected hour
+  const [viewerRange, setViewerRange] = useState<{ start: string; end: string } | null>(null);
   const supabase = useSupabaseClient();
+  const ecgSource = useEcgDataSource();
   const { toast } = useToast();
 
   // Use the useStudyDetails hook instead of direct RPC call
@@ -103,21 +112,13 @@ export default function HolterDetail() {
 
   // Get pod days 
   const { data: podDays, isLoading: podDaysLoading, error: podDaysError } = useQuery({
-    queryKey: ['pod-days', studyData?.pod_id],
+    queryKey: ['holter-pod-days', ecgSource.id, studyData?.pod_id],
     enabled: !!studyData?.pod_id,
     queryFn: async () => {
       if (!studyData?.pod_id) throw new Error('No pod_id available');
 
-      const { data, error } = await supabase.rpc('get_pod_days', {
-        p_pod_id: studyData.pod_id
-      });
-
-      if (error) {
-        console.error('Error fetching pod days', error);
-        throw error;
-      }
-
-      return (data as RPCPodDaysResponse[]).map(day => day.day_value);
+      const days = await ecgSource.getDays(studyData.pod_id);
+      return days.map(day => day.toISOString().slice(0, 10));
     }
   });
   
@@ -185,11 +186,34 @@ export default function HolterDetail() {
 
   function handleHourSelect(hr: number) {
     setHourSelected(hr);
+    setViewerRange(null);
     if (enhancedStudyDetails?.auto_open_ecg) {
       setECGViewerOpen(true);
     }
   }
 
+  function handleEventSelect(event: ArrhythmiaEvent) {
+    setViewerRange({
+      start: new Date(event.start - EVENT_PADDING_MS).toISOString(),
+      end: new Date(event.end + EVENT_PADDING_MS).toISOString()
+    });
+    setECGViewerOpen(true);
+  }
+
+  function handleRangeSelect(start: number, end: number) {
+    setViewerRange({
+      start: new Date(start - EVENT_PADDING_MS).toISOString(),
+      end: new Date(end + EVENT_PADDING_MS).toISOString()
+    });
+    setECGViewerOpen(true);
+  }
+
+  // Bookmarked strips open exactly as saved, without padding
+  function handleStripSelect(start: number, end: number) {
+    setViewerRange({ start: new Date(start).toISOString(), end: new Date(end).toISOString() });
+    setECGViewerOpen(true);
+  }
+
   if (!studyId) {
     return <div className="text-red-400">No studyId param</div>;
   }
@@ -241,18 +265,54 @@ export default function HolterDetail() {
         )}
       </div>
 
+      {selectedDate && (
+        <ArrhythmiaEventList
+          podId={enhancedStudyDetails.pod_id}
+          date={selectedDate}
+          studyType={enhancedStudyDetails.study_type}
+          onSelectEvent={handleEventSelect}
+        />
+      )}
+
+      <AnnotationList studyId={studyId} onSelectAnnotation={handleRangeSelect} />
+
+      <StripBookmarkList
+        studyId={studyId}
+        podId={enhancedStudyDetails.pod_id}
+        subjectId={studyData?.user_id}
+        onSelectBookmark={handleStripSelect}
+      />
+
+      <MeasurementList studyId={studyId} onSelectMeasurement={handleRangeSelect} />
+
       {selectedDate && hourSelected !== null && (
         <button
-          onClick={() => setECGViewerOpen(true)}
+          onClick={() => {
+            setViewerRange(null);
+            setECGViewerOpen(true);
+          }}
           className="px-4 py-2 bg-blue-500/20 text-blue-300 rounded hover:bg-blue-500/30"
         >
           View ECG for {selectedDate.toDateString()} {hourSelected}:00
         </button>
       )}
 
-      {ecgViewerOpen && enhancedStudyDetails && selectedDate && hourSelected !== null && (
+      {ecgViewerOpen && enhancedStudyDetails && viewerRange && (
+        <MainECGViewer
+          podId={enhancedStudyDetails.pod_id}
+          studyId={studyId}
+          subjectId={studyData?.user_id}
+          timeStart={viewerRange.start}
+          timeEnd={viewerRange.end}
+          onClose={() => setECGViewerOpen(false)}
+        />
+      )}
+
+      {ecgViewerOpen && enhancedStudyDetails && !viewerRange && selectedDate && hourSelected !== null && (
         <MainECGViewer
           podId={enhancedStudyDetails.pod_id}
+          studyId={studyId}
+          subjectId={studyData?.user_id}
           timeStart={new Date(
             new Date(selectedDate.getTime()).setHours(hourSelected, 0, 0)
           ).toISOString()}
@@ -0,0 +1,207 @@
+/**
+ * AnnotationList.tsx
+ * Reviewer annotations on this study, in time order, filterable by label,
+ * lead and note/author text. Clicking a row hands the annotated range to
+ * the parent, which opens MainECGViewer there. Authors can delete their
+ * own annotations (the database enforces this too).
+ *
+ * Usage:
+ *   <AnnotationList
+ *     studyId="..."
+ *     onSelectAnnotation={(start, end)=>{...}}
+ *   />
+ */
+import { useMemo, useState } from 'react';
+import { Search, Tag, Trash2 } from 'lucide-react';
+import { useDeleteAnnotation, useStudyAnnotations } from '@/hooks/api/study/useStudyAnnotations';
+import { useAuth } from '@/hooks/api/core/useAuth';
+import {
+  DEFAULT_ANNOTATION_TAXONOMY,
+  EMPTY_ANNOTATION_FILTER,
+  filterAnnotations,
+  findAnnotationLabel
+} from '@/lib/ecg/annotations';
+import type { AnnotationFilter, AnnotationTaxonomy } from '@/lib/ecg/annotations';
+import type { ECGChannel } from '@/lib/ecg/beatDetection';
+
+interface AnnotationListProps {
+  studyId: string;
+  taxonomy?: AnnotationTaxonomy;
+  /** Epoch milliseconds of the annotated range */
+  onSelectAnnotation?: (start: number, end: number) => void;
+}
+
+const LEAD_NAMES: Record<ECGChannel, string> = { 1: 'Lead I', 2: 'Lead II', 3: 'Lead III' };
+
+function formatDuration(ms: number): string {
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
+
+export function AnnotationList({
+  studyId,
+  taxonomy = DEFAULT_ANNOTATION_TAXONOMY,
+  onSelectAnnotation
+}: AnnotationListProps) {
+  const { annotations, isLoading, error } = useStudyAnnotations(studyId);
+  const deleteAnnotation = useDeleteAnnotation();
+  const { user } = useAuth();
+  const [filter, setFilter] = useState<AnnotationFilter>(EMPTY_ANNOTATION_FILTER);
+
+  const visible = useMemo(() => filterAnnotations(annotations, filter), [annotations, filter]);
+
+  // Counts per label, before filtering, for the chips
+  const labelCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    annotations.forEach(a => {
+      counts[a.label] = (counts[a.label] ?? 0) + 1;
+    });
+    return counts;
+  }, [annotations]);
+
+  const toggleLabel = (id: string) => {
+    setFilter(current => ({
+      ...current,
+      labels: current.labels.includes(id) ? current.labels.filter(l => l !== id) : [...current.labels, id]
+    }));
+  };
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium flex items-center gap-2">
+          <Tag className="h-5 w-5 text-blue-400" />
+          Annotations
+        </h2>
+        <span className="text-xs text-gray-400">
+          {visible.length === annotations.length ? annotations.length : `${visible.length} of ${annotations.length}`}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {taxonomy.map(label => {
+          const active = filter.labels.includes(label.id);
+          return (
+            <button
+              key={label.id}
+              onClick={() => toggleLabel(label.id)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-xs transition-colors ${
+                active ? 'bg-white/20 text-white' : 'bg-white/5 text-gray-400 hover:bg-white/10'
+              }`}
+              aria-pressed={active}
+            >
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: label.color }} />
+              {label.name}
+              {labelCounts[label.id] ? <span className="text-gray-500">{labelCounts[label.id]}</span> : null}
+            </button>
+          );
+        })}
+        <select
+          value={filter.channel ?? ''}
+          onChange={(e) => setFilter(current => ({
+            ...current,
+            channel: e.target.value ? (Number(e.target.value) as ECGChannel) : null
+          }))}
+          className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-300"
+          aria-label="Filter by lead"
+        >
+          <option value="">Any lead</option>
+          {([1, 2, 3] as const).map(c => <option key={c} value={c}>{LEAD_NAMES[c]}</option>)}
+        </select>
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-gray-500" />
+          <input
+            value={filter.search}
+            onChange={(e) => setFilter(current => ({ ...current, search: e.target.value }))}
+            placeholder="Search notes or author"
+            className="bg-white/5 border border-white/10 rounded-lg pl-6 pr-2 py-1 text-xs text-gray-300 placeholder-gray-500"
+          />
+        </div>
+      </div>
+
+      {isLoading && <div className="text-sm text-gray-400">Loading annotations…</div>}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {!isLoading && !error && annotations.length === 0 && (
+        <div className="text-sm text-gray-400">
+          No annotations yet. Turn on Annotate in the ECG viewer and drag across a lead to label a range.
+        </div>
+      )}
+
+      {visible.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-white/10">
+            <thead>
+              <tr className="bg-white/5">
+                {['Start', 'Label', 'Duration', 'Lead', 'Note', 'Author', ''].map(label => (
+                  <th key={label} className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {visible.map(a => {
+                const label = findAnnotationLabel(a.label, taxonomy);
+                const start = Date.parse(a.start_time);
+                const end = Date.parse(a.end_time);
+                return (
+                  <tr
+                    key={a.id}
+                    className="hover:bg-white/5 transition cursor-pointer"
+                    onClick={() => onSelectAnnotation?.(start, end)}
+                  >
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                      {new Date(start).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm">
+                      <span className="inline-flex items-center gap-1.5 text-gray-200">
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: label.color }} />
+                        {label.name}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">{formatDuration(end - start)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                      {a.channel ? LEAD_NAMES[a.channel as ECGChannel] : 'All'}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-400">{a.note ?? ''}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-500" title={`Updated ${new Date(a.updated_at).toLocaleString()}`}>
+                      {a.author_email ?? '—'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {user && a.created_by === user.id && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteAnnotation.mutate({ id: a.id, studyId });
+                          }}
+                          className="p-1 rounded hover:bg-white/10 text-gray-400 hover:text-red-400"
+                          aria-label="Delete annotation"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {annotations.length > 0 && visible.length === 0 && (
+        <div className="text-sm text-gray-400">No annotations match these filters.</div>
+      )}
+    </div>
+  );
+}
+
+export default AnnotationList;
@@ -0,0 +1,216 @@
+/**
+ * ArrhythmiaEventList.tsx
+ * Scans the selected study day for pauses, brady/tachy runs and suspected
+ * AF, and lists the events in a sortable table. Clicking a row hands the
+ * event to the parent, which opens MainECGViewer at that range.
+ *
+ * Usage:
+ *   <ArrhythmiaEventList
+ *     podId="..."
+ *     date={someDate}
+ *     studyType="holter"
+ *     onSelectEvent={(event)=>{...}}
+ *   />
+ */
+import { useMemo, useState } from 'react';
+import { AlertTriangle, HeartPulse } from 'lucide-react';
+import { useArrhythmiaEvents } from '@/hooks/api/ecg/useArrhythmiaEvents';
+import type { ArrhythmiaEvent, ArrhythmiaEventType } from '@/lib/ecg/arrhythmia';
+
+interface ArrhythmiaEventListProps {
+  podId: string;
+  date: Date;
+  studyType?: string | null;
+  onSelectEvent?: (event: ArrhythmiaEvent) => void;
+}
+
+type SortKey = 'start' | 'type' | 'duration' | 'channel' | 'confidence';
+
+const EVENT_LABELS: Record<ArrhythmiaEventType, string> = {
+  pause: 'Pause',
+  bradycardia: 'Bradycardia',
+  tachycardia: 'Tachycardia',
+  atrial_fibrillation: 'Suspected AF'
+};
+
+const EVENT_COLORS: Record<ArrhythmiaEventType, string> = {
+  pause: 'bg-red-500/20 text-red-300',
+  bradycardia: 'bg-blue-500/20 text-blue-300',
+  tachycardia: 'bg-amber-500/20 text-amber-300',
+  atrial_fibrillation: 'bg-purple-500/20 text-purple-300'
+};
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'start', label: 'Start' },
+  { key: 'type', label: 'Type' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'channel', label: 'Lead' },
+  { key: 'confidence', label: 'Confidence' }
+];
+
+function sortValue(event: ArrhythmiaEvent, key: SortKey): number | string {
+  switch (key) {
+    case 'start':
+      return event.start;
+    case 'type':
+      return EVENT_LABELS[event.type];
+    case 'duration':
+      return event.end - event.start;
+    case 'channel':
+      return event.channel ?? 0;
+    case 'confidence':
+      return event.confidence;
+  }
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
+
+export function ArrhythmiaEventList({ podId, date, studyType, onSelectEvent }: ArrhythmiaEventListProps) {
+  const dayStart = new Date(new Date(date.getTime()).setHours(0, 0, 0, 0));
+  const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+  const timeStart = dayStart.toISOString();
+  const timeEnd = dayEnd.toISOString();
+
+  // A day scan fetches 24 hourly windows, so only run it on request
+  const [requestedDay, setRequestedDay] = useState<string | null>(null);
+  const dayKey = `${podId}:${timeStart}`;
+  const enabled = requestedDay === dayKey;
+
+  const [sortKey, setSortKey] = useState<SortKey>('start');
+  const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
+
+  const { events, thresholds, isLoading, error } = useArrhythmiaEvents({
+    pod_id: podId,
+    time_start: timeStart,
+    time_end: timeEnd,
+    studyType,
+    enabled
+  });
+
+  const sortedEvents = useMemo(() => {
+    return [...events].sort((a, b) => {
+      const va = sortValue(a, sortKey);
+      const vb = sortValue(b, sortKey);
+      const cmp = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+      return sortDir === 'asc' ? cmp : -cmp;
+    });
+  }, [events, sortKey, sortDir]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDir(sortDir === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDir('asc');
+    }
+  };
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium flex items-center gap-2">
+            <HeartPulse className="h-5 w-5 text-blue-400" />
+            Arrhythmia Events
+          </h2>
+          <p className="text-xs text-gray-400 mt-1">
+            {studyType ? `${studyType} profile` : 'Default profile'}: pause &gt; {(thresholds.pauseMs / 1000).toFixed(1)} s,
+            brady &lt; {thresholds.bradycardiaBpm} bpm, tachy &gt; {thresholds.tachycardiaBpm} bpm
+          </p>
+        </div>
+        {!enabled && (
+          <button
+            onClick={() => setRequestedDay(dayKey)}
+            className="px-3 py-1.5 bg-blue-500 hover:bg-blue-600 rounded-lg text-sm text-white font-medium transition-colors"
+          >
+            Scan {date.toLocaleDateString()}
+          </button>
+        )}
+      </div>
+
+      {enabled && isLoading && (
+        <div className="flex items-center gap-3 text-sm text-gray-400">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-400" />
+          Scanning {date.toDateString()} hour by hour…
+        </div>
+      )}
+
+      {enabled && error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {enabled && !isLoading && !error && sortedEvents.length === 0 && (
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <AlertTriangle className="h-4 w-4" />
+          No events detected on this day.
+        </div>
+      )}
+
+      {sortedEvents.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-white/10">
+            <thead>
+              <tr className="bg-white/5">
+                {COLUMNS.map(col => (
+                  <th
+                    key={col.key}
+                    className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-white/10 transition"
+                    onClick={() => handleSort(col.key)}
+                  >
+                    <div className="flex items-center gap-1">
+                      {col.label}
+                      {sortKey === col.key && (
+                        <span className="text-blue-400">
+                          {sortDir === 'asc' ? '▲' : '▼'}
+                        </span>
+                      )}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {sortedEvents.map(event => (
+                <tr
+                  key={event.id}
+                  className="hover:bg-white/5 transition cursor-pointer"
+                  onClick={() => onSelectEvent?.(event)}
+                >
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                    {new Date(event.start).toLocaleTimeString()}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${EVENT_COLORS[event.type]}`}>
+                      {EVENT_LABELS[event.type]}
+                    </span>
+                    {event.meanHeartRate !== null && event.type !== 'pause' && (
+                      <span className="ml-2 text-xs text-gray-400">{event.meanHeartRate.toFixed(0)} bpm</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                    {formatDuration(event.end - event.start)}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                    {event.channel ? `Lead ${['I', 'II', 'III'][event.channel - 1]}` : '—'}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                    {(event.confidence * 100).toFixed(0)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ArrhythmiaEventList;
@@ -0,0 +1,126 @@
+/**
+ * MeasurementList.tsx
+ * Caliper measurements saved on this study (RR, PR, QRS, QT, amplitudes),
+ * in time order. Clicking a row hands the measurement's time range
+ * to the parent, which opens MainECGViewer there; the list can be
+ * exported as CSV.
+ *
+ * Usage:
+ *   <MeasurementList
+ *     studyId="..."
+ *     onSelectMeasurement={(start, end)=>{...}}
+ *   />
+ */
+import { Download, Ruler, Trash2 } from 'lucide-react';
+import { useDeleteMeasurement, useStudyMeasurements } from '@/hooks/api/study/useStudyMeasurements';
+import { formatMeasurement, formatMeasurementsCsv } from '@/lib/ecg/calipers';
+import type { CaliperKind, MeasurementLabel } from '@/lib/ecg/calipers';
+import { downloadBlob } from '@/lib/utils/download';
+
+interface MeasurementListProps {
+  studyId: string;
+  /** Epoch milliseconds of the measured interval */
+  onSelectMeasurement?: (start: number, end: number) => void;
+}
+
+export function MeasurementList({ studyId, onSelectMeasurement }: MeasurementListProps) {
+  const { measurements, isLoading, error } = useStudyMeasurements(studyId);
+  const deleteMeasurement = useDeleteMeasurement();
+
+  const handleExport = () => {
+    const csv = formatMeasurementsCsv(measurements, {
+      study_id: studyId,
+      exported_at: new Date().toISOString()
+    });
+    downloadBlob(csv, `measurements_${studyId}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium flex items-center gap-2">
+          <Ruler className="h-5 w-5 text-amber-400" />
+          Measurements
+        </h2>
+        <button
+          onClick={handleExport}
+          disabled={!measurements.length}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm text-gray-200 font-medium transition-colors disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" />
+          Export CSV
+        </button>
+      </div>
+
+      {isLoading && <div className="text-sm text-gray-400">Loading measurements…</div>}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {!isLoading && !error && measurements.length === 0 && (
+        <div className="text-sm text-gray-400">
+          No measurements yet. Turn on Calipers in the ECG viewer to measure intervals and save them here.
+        </div>
+      )}
+
+      {measurements.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-white/10">
+            <thead>
+              <tr className="bg-white/5">
+                {['Time', 'Measurement', 'Lead', 'Note', ''].map(label => (
+                  <th key={label} className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {measurements.map(m => (
+                <tr
+                  key={m.id}
+                  className="hover:bg-white/5 transition cursor-pointer"
+                  onClick={() => onSelectMeasurement?.(Date.parse(m.start_time), Date.parse(m.end_time))}
+                >
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                    {new Date(m.start_time).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-amber-200">
+                    {formatMeasurement({
+                      kind: m.kind as CaliperKind,
+                      label: m.label as MeasurementLabel,
+                      durationMs: m.duration_ms ?? 0,
+                      amplitudeMv: m.amplitude_mv ?? 0,
+                      rateBpm: m.rate_bpm
+                    })}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                    Lead {['I', 'II', 'III'][m.channel - 1]}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-400">{m.note ?? ''}</td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteMeasurement.mutate({ id: m.id, studyId });
+                      }}
+                      className="p-1 rounded hover:bg-white/10 text-gray-400 hover:text-red-400"
+                      aria-label="Delete measurement"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MeasurementList;
@@ -1,17 +1,20 @@
 import React from 'react';
-import { AlertTriangle } from 'lucide-react';
-import type { QuickFilterId } from '../../../../hooks/api/study/useHolterFilters';
+import { AlertTriangle, Pin } from 'lucide-react';
 
 export interface QuickFilter {
-  id: 'all' | 'recent' | 'low-quality' | 'high-quality';
+  /** A built-in quick filter id, or the id of a pinned saved filter */
+  id: string;
   label: string;
   description: string;
+  pinned?: boolean;
+  /** Why a pinned filter can't be applied; the chip is shown disabled */
+  error?: string;
 }
 
 interface QuickFiltersProps {
   filters: QuickFilter[];
-  activeFilter: QuickFilter['id'];
-  onFilterChange: (id: QuickFilter['id']) => void;
+  activeFilter: string;
+  onFilterChange: (id: string) => void;
   className?: string;
 }
 
@@ -27,18 +30,24 @@ export function QuickFilters({
         <button
           key={filter.id}
           onClick={() => onFilterChange(filter.id)}
+          disabled={Boolean(filter.error)}
           className={`
-            px-4 py-2 rounded-lg text-sm font-medium transition-colors
+            flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium transition-colors
             ${activeFilter === filter.id
               ? 'bg-blue-500/20 text-blue-300'
-              : 'bg-white/5 text-gray-300 hover:bg-white/10'
+              : filter.error
+                ? 'bg-white/5 text-gray-500 cursor-not-allowed'
+                : 'bg-white/5 text-gray-300 hover:bg-white/10'
             }
           `}
-          title={filter.description}
+          title={filter.error ?? filter.description}
         >
+          {filter.error
+            ? <AlertTriangle className="h-3.5 w-3.5 text-yellow-400" />
+            : filter.pinned && <Pin className="h-3.5 w-3.5" />}
           {filter.label}
         </button>
       ))}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,201 @@
+/**
+ * StripBookmarkList.tsx
+ * ECG strips bookmarked on this study from the viewer, in time order.
+ * Checked strips are exported together as one HL7 aECG document with the
+ * study's annotations. Clicking a row hands the strip's range to the
+ * parent, which opens MainECGViewer there. Authors can delete their own
+ * bookmarks (the database enforces this too).
+ *
+ * Usage:
+ *   <StripBookmarkList
+ *     studyId="..."
+ *     podId="..."
+ *     subjectId="..."
+ *     onSelectBookmark={(start, end)=>{...}}
+ *   />
+ */
+import { useMemo, useState } from 'react';
+import { Bookmark, FileCode, Trash2, X } from 'lucide-react';
+import { useDeleteStripBookmark, useStripBookmarks } from '@/hooks/api/study/useStripBookmarks';
+import { useStudyAnnotations } from '@/hooks/api/study/useStudyAnnotations';
+import { useAECGExport } from '@/hooks/api/ecg/useAECGExport';
+import { useAuth } from '@/hooks/api/core/useAuth';
+import type { ECGChannel } from '@/lib/ecg/beatDetection';
+
+interface StripBookmarkListProps {
+  studyId: string;
+  podId: string;
+  /** Trial subject written to the aECG document */
+  subjectId?: string | null;
+  /** Epoch milliseconds of the bookmarked strip */
+  onSelectBookmark?: (start: number, end: number) => void;
+}
+
+const LEAD_NAMES: Record<ECGChannel, string> = { 1: 'I', 2: 'II', 3: 'III' };
+
+function formatDuration(ms: number): string {
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
+
+export function StripBookmarkList({ studyId, podId, subjectId, onSelectBookmark }: StripBookmarkListProps) {
+  const { bookmarks, isLoading, error } = useStripBookmarks(studyId);
+  const { annotations } = useStudyAnnotations(studyId);
+  const deleteBookmark = useDeleteStripBookmark();
+  const aecgExport = useAECGExport();
+  const { user } = useAuth();
+  // Unchecked ids rather than checked ones, so new bookmarks start checked
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const selected = useMemo(() => bookmarks.filter(b => !excluded.has(b.id)), [bookmarks, excluded]);
+
+  const toggle = (id: string) => {
+    setExcluded(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setStatus(null);
+    try {
+      const summary = await aecgExport.exportStrips({
+        podId,
+        studyId,
+        subjectId,
+        strips: selected.map(b => ({
+          timeStart: b.start_time,
+          timeEnd: b.end_time,
+          channels: b.channels as ECGChannel[]
+        })),
+        annotations,
+        filename: `aecg_${studyId}`
+      });
+      if (summary) {
+        const notes = summary.warnings.length ? ` (${summary.warnings.join('; ')})` : '';
+        setStatus({ type: 'success', message: `Exported ${summary.filename}${notes}` });
+      }
+    } catch (err) {
+      setStatus({ type: 'error', message: `aECG export failed: ${err instanceof Error ? err.message : 'Unknown error'}` });
+    }
+  };
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium flex items-center gap-2">
+          <Bookmark className="h-5 w-5 text-cyan-400" />
+          Bookmarked Strips
+        </h2>
+        {aecgExport.isExporting ? (
+          <button
+            onClick={aecgExport.cancel}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm text-gray-200 font-medium transition-colors"
+          >
+            <X className="h-4 w-4" />
+            Cancel aECG ({Math.round(aecgExport.progress * 100)}%)
+          </button>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={!selected.length}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm text-gray-200 font-medium transition-colors disabled:opacity-50"
+            title="Export the checked strips as one HL7 aECG document with study annotations"
+          >
+            <FileCode className="h-4 w-4" />
+            Export aECG ({selected.length})
+          </button>
+        )}
+      </div>
+
+      {status && (
+        <div className={`text-sm ${status.type === 'error' ? 'text-red-400' : 'text-emerald-400'}`} role={status.type === 'error' ? 'alert' : 'status'}>
+          {status.message}
+        </div>
+      )}
+
+      {isLoading && <div className="text-sm text-gray-400">Loading bookmarks…</div>}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {!isLoading && !error && bookmarks.length === 0 && (
+        <div className="text-sm text-gray-400">
+          No bookmarked strips yet. Open Strip in the ECG viewer to bookmark the current window.
+        </div>
+      )}
+
+      {bookmarks.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-white/10">
+            <thead>
+              <tr className="bg-white/5">
+                {['', 'Start', 'Duration', 'Leads', 'Label', 'Author', ''].map((label, i) => (
+                  <th key={i} className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {bookmarks.map(b => {
+                const start = Date.parse(b.start_time);
+                const end = Date.parse(b.end_time);
+                return (
+                  <tr
+                    key={b.id}
+                    className="hover:bg-white/5 transition cursor-pointer"
+                    onClick={() => onSelectBookmark?.(start, end)}
+                  >
+                    <td className="px-4 py-2" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={!excluded.has(b.id)}
+                        onChange={() => toggle(b.id)}
+                        className="rounded text-blue-500 focus:ring-blue-500"
+                        aria-label="Include in aECG export"
+                      />
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                      {new Date(start).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">{formatDuration(end - start)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                      {b.channels.map(c => LEAD_NAMES[c as ECGChannel]).join(', ')}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-400">{b.label ?? ''}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-500">{b.author_email ?? '—'}</td>
+                    <td className="px-4 py-2 text-right">
+                      {user && b.created_by === user.id && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteBookmark.mutate({ id: b.id, studyId });
+                          }}
+                          className="p-1 rounded hover:bg-white/10 text-gray-400 hover:text-red-400"
+                          aria-label="Delete bookmark"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StripBookmarkList;
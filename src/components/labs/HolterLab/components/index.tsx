@@ -4,4 +4,7 @@ export * from './HourlyHistogram';
 export * from './MinuteSlider';
 export * from './StatusPill';
 export * from './HolterHeader';
-export * from './SavedFilters';
\ No newline at end of file
+export * from './ArrhythmiaEventList';
+export * from './MeasurementList';
+export * from './AnnotationList';
+export * from './StripBookmarkList';
@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useCallback, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import {
     Heart,
@@ -9,15 +9,17 @@ import {
     Star,
     MoreHorizontal,
 } from 'lucide-react'
-import { useHolterFilters } from '../../../hooks/api/study/useHolterFilters';
+import { HOLTER_FILTER_COLUMNS, HOLTER_FILTER_FIELDS, HOLTER_FILTER_PLACEHOLDER, HOLTER_PAGE_SIZES, useHolterFilters } from '../../../hooks/api/study/useHolterFilters';
 import { useHolterStudies } from '@/hooks/api/study/useHolterStudies';
 import { DataGrid, type Column } from '@/components/shared/DataGrid';
 import { QuickFilters, type QuickFilter } from './components/QuickFilters';
 import { AdvancedFilter } from '@/components/shared/AdvancedFilter';
-import { useDataGrid } from '@/hooks';
+import { SavedFilters } from '@/components/shared/SavedFilters';
+import { useSavedFilters } from '@/hooks';
 import type { HolterStudy } from '@/types/domain/holter';
-import { logger } from '@/lib/logger';
 import type { FilterConfig } from '@/types/filter';
+import { describeFilterError } from '@/lib/filter';
+import type { SavedFilter } from '@/types/filter';
 
 const QUICK_FILTERS: QuickFilter[] = [
     { id: 'all', label: 'All', description: 'Show all studies' },
@@ -26,18 +28,16 @@ const QUICK_FILTERS: QuickFilter[] = [
     { id: 'high-quality', label: 'High Quality', description: 'Quality > 80%' }
 ] as const;
 
-const PAGE_SIZE_OPTIONS = [10, 25, 50, 100] as const
-
-// Token suggestions for the advanced filter
-const TOKEN_SUGGESTIONS = [
-    'daysRemaining',
-    'qualityFraction',
-    'totalHours',
-    'interruptions',
-    'qualityVariance'
-] as const
+// Saved filters are checked against what the server can run, too
+const SAVED_FILTERS = {
+    lab: 'holter',
+    fields: HOLTER_FILTER_FIELDS,
+    columns: HOLTER_FILTER_COLUMNS
+} as const;
 
 export default function HolterLab() {
+    const { filters: savedFilters } = useSavedFilters(SAVED_FILTERS);
+
     const {
         page,
         pageSize,
@@ -48,41 +48,40 @@ export default function HolterLab() {
         onSortChange,
         onFilterChange,
         onFilterError,
-        resetFilters
-    } = useDataGrid<HolterStudy>();
-
-    const {
+        serverQuery,
+        columns: visibleColumns,
+        setColumns,
         quickFilter,
         advancedFilter,
+        advancedFilterError,
+        fullExpression,
         setQuickFilter,
-        setAdvancedFilter,
-        filterStudies
-    } = useHolterFilters();
+        setAdvancedFilter
+    } = useHolterFilters(savedFilters);
+
+    // Pinned saved filters follow the built-in chips
+    const quickFilters = useMemo(() => [
+        ...QUICK_FILTERS,
+        ...savedFilters.filter(filter => filter.pinned).map((filter): QuickFilter => ({
+            id: filter.id,
+            label: filter.name,
+            description: filter.description ?? filter.expression,
+            pinned: true,
+            error: filter.error ? `Out of date: ${describeFilterError(filter.error)}` : undefined
+        }))
+    ], [savedFilters]);
+
+    const handleSavedFilterSelect = useCallback(
+        (filter: SavedFilter) => setQuickFilter(filter.id),
+        [setQuickFilter]
+    );
 
     const {
         studies,
         isLoading,
         error: fetchError,
         totalCount
-    } = useHolterStudies();
-
-    const filteredStudies = useMemo(() => {
-        try {
-            logger.info('Filtering studies...');
-            const filtered = filterStudies(studies);
-            logger.info(`Filtered to ${filtered.length} studies`);
-            return filtered;
-        } catch (err) {
-            const errorObj = err instanceof Error ? {
-                message: err.message,
-                name: err.name,
-                stack: err.stack
-            } : { message: String(err) };
-            
-            logger.error('Error filtering studies:', errorObj);
-            return [];
-        }
-    }, [studies, filterStudies]);
+    } = useHolterStudies(serverQuery);
 
     // Format error message
     const errorMessage = fetchError ? 
@@ -119,7 +118,8 @@ export default function HolterLab() {
         {
             key: 'status',
             header: 'Status',
-            sortable: true,
+            // Computed in the browser, so the database cannot sort on it
+            sortable: false,
             render: (value) => (
                 <span className={`
                     px-2 py-1 rounded-full text-xs font-medium
@@ -136,23 +136,10 @@ export default function HolterLab() {
 
     // Define advanced filter config
     const advancedFilterConfig: FilterConfig<HolterStudy> = {
-        fields: [
-            { key: 'daysRemaining', type: 'number', description: 'Days left in study' },
-            { key: 'qualityFraction', type: 'number', description: 'Quality as fraction 0-1' },
-            { key: 'totalHours', type: 'number', description: 'Total recorded hours' },
-            { key: 'interruptions', type: 'number', description: 'Number of recording gaps' },
-            { key: 'qualityVariance', type: 'number', description: 'Variability of quality' }
-        ],
-        parseExpression: (expr) => {
-            try {
-                // Simple implementation - would need proper parsing in production
-                return expr ? { field: expr.split(' ')[0], operator: '>' as any, value: parseFloat(expr.split(' ')[2]) } : null;
-            } catch {
-                return null;
-            }
-        },
-        placeholder: 'e.g. qualityFraction > 0.8 && daysRemaining < 5',
-        example: 'qualityFraction > 0.8 && daysRemaining < 5'
+        fields: HOLTER_FILTER_FIELDS,
+        placeholder: `e.g. ${HOLTER_FILTER_PLACEHOLDER}`,
+        example: 'qualityFraction > 0.8 AND daysRemaining < 5',
+        presets: savedFilters.filter(filter => !filter.error)
     };
 
     if (isLoading) {
@@ -193,7 +180,7 @@ export default function HolterLab() {
                         onChange={(e) => onPageSizeChange(Number(e.target.value))}
                         className="px-4 py-2 bg-white/5 border border-white/10 rounded text-white"
                     >
-                        {PAGE_SIZE_OPTIONS.map(size => (
+                        {HOLTER_PAGE_SIZES.map(size => (
                             <option key={size} value={size}>{size} per page</option>
                         ))}
                     </select>
@@ -209,7 +196,7 @@ export default function HolterLab() {
 
             {/* Quick Filters */}
             <QuickFilters
-                filters={QUICK_FILTERS}
+                filters={quickFilters}
                 activeFilter={quickFilter}
                 onFilterChange={setQuickFilter}
             />
@@ -217,13 +204,25 @@ export default function HolterLab() {
             {/* Advanced Filter */}
             <AdvancedFilter
                 config={advancedFilterConfig}
-                onFilterChange={(expr) => setAdvancedFilter(expr ? String(expr.value) : '')}
+                defaultValue={advancedFilter}
+                value={advancedFilter}
+                onFilterChange={(expression) => setAdvancedFilter(expression)}
                 className="mt-4"
             />
+            {advancedFilterError && (
+                <p className="text-xs text-red-400">{describeFilterError(advancedFilterError)}</p>
+            )}
+
+            <SavedFilters
+                {...SAVED_FILTERS}
+                currentExpression={fullExpression}
+                activeFilterId={quickFilter}
+                onSelectFilter={handleSavedFilterSelect}
+            />
 
             {/* Data Grid */}
             <DataGrid
-                data={filteredStudies}
+                data={studies}
                 columns={columns}
                 loading={isLoading}
                 error={errorMessage}
@@ -232,12 +231,17 @@ export default function HolterLab() {
                 totalCount={totalCount}
                 hasMore={(totalCount ?? 0) > page * pageSize}
                 onPageChange={onPageChange}
+                paginationMode="server"
+                filterMode="server"
+                sortMode="server"
                 onSort={onSortChange}
                 onFilterChange={onFilterChange}
                 onFilterError={onFilterError}
-                filterExpression={filterConfig.expression}
                 quickFilter={filterConfig.quickFilter}
+                sort={sortConfig}
                 defaultSortKey={sortConfig.key === null ? undefined : sortConfig.key}
+                visibleColumns={visibleColumns}
+                onVisibleColumnsChange={setColumns}
             />
         </div>
     )
@@ -2,9 +2,11 @@ import React, { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { DataGrid, type Column } from '../../shared/DataGrid';
-import { useDataGrid } from '@/hooks';
+import { useUrlDataGrid } from '@/hooks';
+import { applyServerQuery } from '@/lib/filter';
 import { supabase } from '@/types/supabase';
 import type { Database } from '@/types/database.types';
+import type { FilterField } from '@/types/filter';
 import { logger } from '@/lib/logger';
 
 type PodRow = Database['public']['Tables']['pod']['Row'];
@@ -23,6 +25,21 @@ function formatDuration(minutes: number): string {
     return `${remainingMinutes}m`;
 }
 
+/** Fields the filter expression can use; each is a column of the same name */
+const POD_FILTER_FIELDS: FilterField[] = [
+    { key: 'id', type: 'uuid', description: 'Pod ID' },
+    { key: 'assigned_study_id', type: 'uuid', description: 'Assigned study' },
+    { key: 'assigned_user_id', type: 'uuid', description: 'Assigned user' },
+    { key: 'status', type: 'string', description: 'Pod status' },
+    { key: 'time_since_first_use', type: 'number', description: 'Minutes since first use' }
+];
+
+// Filtering, sorting and paging all run in the database
+const SERVER_GRID = {
+    fields: POD_FILTER_FIELDS,
+    columns: Object.fromEntries(POD_FILTER_FIELDS.map(field => [field.key, field.key]))
+};
+
 export default function PodLab() {
     const {
         page,
@@ -30,37 +47,24 @@ export default function PodLab() {
         sortConfig,
         filterConfig,
         onPageChange,
-        onPageSizeChange,
         onSortChange,
         onFilterChange,
-        onFilterError
-    } = useDataGrid<PodRow>();
+        onFilterError,
+        serverQuery,
+        serverFilterError,
+        columns: visibleColumns,
+        setColumns
+    } = useUrlDataGrid<PodRow>({ server: SERVER_GRID });
     const navigate = useNavigate();
 
     const { data, isLoading, error } = useQuery<{ data: PodRow[], count: number }>({
-        queryKey: ['pods', page, pageSize, sortConfig.key, sortConfig.direction, filterConfig.quickFilter],
+        queryKey: ['pods', serverQuery],
         queryFn: async () => {
             try {
-                const query = supabase
-                    .from('pod')
-                    .select('*', { count: 'exact' });
-
-                // Apply search filter if any
-                if (filterConfig.quickFilter?.length) {
-                    query.or(`id.ilike.%${filterConfig.quickFilter}%,status.ilike.%${filterConfig.quickFilter}%`);
-                }
-
-                // Apply sorting if specified
-                if (sortConfig.key) {
-                    query.order(sortConfig.key, { ascending: sortConfig.direction === 'asc' });
-                }
-
-                // Apply pagination
-                const from = page * pageSize;
-                const to = from + pageSize - 1;
-                query.range(from, to);
-
-                const { data, error: queryError, count } = await query;
+                const { data, error: queryError, count } = await applyServerQuery(
+                    supabase.from('pod').select('*', { count: 'exact' }),
+                    serverQuery!
+                );
 
                 if (queryError) throw queryError;
                 return { data: data || [], count: count || 0 };
@@ -68,7 +72,8 @@ export default function PodLab() {
                 logger.error('Failed to fetch pods', { error: err });
                 throw err;
             }
-        }
+        },
+        enabled: !!serverQuery
     });
 
     const columns = useMemo<Column<PodRow>[]>(() => [
@@ -113,6 +118,7 @@ export default function PodLab() {
             key: 'time_since_first_use',
             header: 'Time Since First Use',
             sortable: true,
+            filterType: 'number',
             render: (value: unknown) => {
                 if (!value) return 'Never used';
                 const minutes = value as number;
@@ -135,19 +141,24 @@ export default function PodLab() {
                 hasMore={(data?.count ?? 0) > page * pageSize}
                 totalCount={data?.count ?? 0}
                 
-                // Use client-side operations
-                paginationMode="client"
-                filterMode="client"
-                sortMode="client"
+                // Filtering, sorting and paging run in the database
+                paginationMode="server"
+                filterMode="server"
+                sortMode="server"
                 
                 // Callbacks
                 onSort={onSortChange}
                 onFilterChange={onFilterChange}
                 onFilterError={onFilterError}
+                onVisibleColumnsChange={setColumns}
                 
                 // Current state
                 quickFilter={filterConfig.quickFilter}
-                filterExpression={filterConfig.expression}
+                filterExpression={filterConfig.expression ?? ''}
+                filterFields={POD_FILTER_FIELDS}
+                filterError={serverFilterError}
+                sort={sortConfig}
+                visibleColumns={visibleColumns}
             />
         </div>
     );
@@ -1,20 +1,30 @@
 /**
  * Advanced filter component with expression-based filtering
  */
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Filter, Save, Star, MoreHorizontal, X } from 'lucide-react';
+import { FilterEditor } from '@/components/shared/FilterEditor';
 import { useAdvancedFilter } from '@/hooks/api/filters/useAdvancedFilter';
-import type { FilterConfig, FilterExpression } from '@/types/filter';
+import { describeFilterError } from '@/lib/filter';
+import type { FilterError, FilterNode } from '@/lib/filter';
+import type { FilterConfig } from '@/types/filter';
 
 export interface AdvancedFilterProps<T> {
   config: FilterConfig<T>;
-  onFilterChange: (expression: FilterExpression | null) => void;
-  onFilterError?: (error: string | null) => void;
+  /** The expression to start from, e.g. one restored from the URL */
+  defaultValue?: string;
+  /** The applied expression, when the parent can change it, e.g. on back/forward */
+  value?: string;
+  /** Called with each valid expression ('' when cleared) and its parsed form */
+  onFilterChange: (expression: string, ast: FilterNode | null) => void;
+  onFilterError?: (error: FilterError | null) => void;
   className?: string;
 }
 
-export function AdvancedFilter<T>({
+export function AdvancedFilter<T extends object>({
   config,
+  defaultValue = '',
+  value,
   onFilterChange,
   onFilterError,
   className = ''
@@ -26,41 +36,36 @@ export function AdvancedFilter<T>({
 
   const {
     expression,
+    ast,
     error,
-    setExpression,
-    setError
-  } = useAdvancedFilter(config);
-
-  const handleExpressionChange = useCallback((value: string) => {
-    setExpression(value);
-    if (!error) {
-      onFilterChange(expression);
-      onFilterError?.(null);
-    } else {
-      onFilterChange(null);
-      onFilterError?.(error);
-    }
-  }, [expression, error, onFilterChange, onFilterError, setExpression]);
+    setExpression
+  } = useAdvancedFilter(config, '', undefined, defaultValue);
+
+  // Read by the effects below without re-running them when the parent passes new callbacks
+  const latest = useRef({ expression, onFilterChange, onFilterError });
+  latest.current = { expression, onFilterChange, onFilterError };
+
+  // Follow the parent; the value it was just given comes back unchanged and is skipped
+  useEffect(() => {
+    if (value !== undefined && value !== latest.current.expression) setExpression(value);
+  }, [value, setExpression]);
+
+  // Only valid expressions reach the parent; while one is being fixed the last valid one stays applied
+  useEffect(() => {
+    if (!error) latest.current.onFilterChange(expression, ast);
+    latest.current.onFilterError?.(error);
+  }, [expression, ast, error]);
 
   const handlePresetSelect = useCallback((preset: { id: string; name: string; expression: string }) => {
     setExpression(preset.expression);
-    if (!error) {
-      onFilterChange(expression);
-      onFilterError?.(null);
-    } else {
-      onFilterError?.(error);
-    }
-  }, [expression, error, onFilterChange, onFilterError, setExpression]);
+  }, [setExpression]);
 
   const handleClear = useCallback(() => {
     setExpression('');
-    onFilterChange(null);
-    setError(null);
-    onFilterError?.(null);
-  }, [onFilterChange, setExpression, setError, onFilterError]);
+  }, [setExpression]);
 
-  const availableFieldsDisplay = config.fields.map(field => 
-    `${field.key}: ${field.description}`
+  const availableFieldsDisplay = config.fields.map(field =>
+    `${field.key} (${field.type}): ${field.description}`
   ).join('\n');
 
   return (
@@ -89,15 +94,20 @@ export function AdvancedFilter<T>({
             <label className="block text-xs font-medium text-gray-400">
               Filter Expression
             </label>
-            <textarea
-              value={expression?.toString() || ''}
-              onChange={(e) => handleExpressionChange(e.target.value)}
-              className="w-full h-24 px-3 py-2 text-sm bg-gray-700 text-white rounded-md focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            <FilterEditor
+              value={expression}
+              onChange={setExpression}
+              fields={config.fields}
+              savedFilters={config.presets}
+              error={error}
               placeholder={config.placeholder}
             />
             {error && (
-              <p className="text-xs text-red-400">{error}</p>
+              <p className="text-xs text-red-400">{describeFilterError(error)}</p>
             )}
+            <p className="text-xs text-gray-500">
+              AND, OR, NOT, ( ), IN [...], BETWEEN a AND b, IS NULL, contains; dates like 2026-05-01 or now-7d
+            </p>
           </div>
 
           {config.presets && config.presets.length > 0 && (
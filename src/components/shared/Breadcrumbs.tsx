@@ -16,6 +16,7 @@ const routeLabels: BreadcrumbMapping = {
   '/holter': { label: 'Holter Lab', parent: '/' },
   '/pod': { label: 'Pod Inventory', parent: '/' },
   '/datalab': { label: 'Data Lab', parent: '/' },
+  '/local': { label: 'Local Recordings', parent: '/' },
 };
 
 /**
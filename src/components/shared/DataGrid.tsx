@@ -1,5 +1,9 @@
-import React, { useState, useMemo } from 'react';
-import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Filter, X } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Columns, Filter, X } from 'lucide-react';
+import { FilterEditor } from '@/components/shared/FilterEditor';
+import { applyFilter, compileFilter, describeFilterError } from '@/lib/filter';
+import type { FilterError } from '@/lib/filter';
+import type { FilterField } from '@/types/filter';
 
 
 export interface Column<T> {
@@ -55,6 +59,26 @@ export interface FilterConfig {
   columnFilters?: ColumnFilter[];
 }
 
+/** Expression fields implied by the columns' filter types; display-only columns are left out */
+export function filterFieldsFromColumns<T>(columns: Column<T>[]): FilterField[] {
+  return columns.flatMap((column): FilterField[] => {
+    if (!column.filterType && !column.sortable && !column.filterable) return [];
+    const type = column.filterType === 'number' ? 'number'
+      : column.filterType === 'boolean' ? 'boolean'
+      : column.filterType === 'date' || column.filterType === 'datetime' ? 'date'
+      : column.filterType === 'array' ? null
+      : 'string';
+    if (!type) return [];
+    const values = column.filterOptions?.flatMap(option => typeof option.value === 'string' ? [option.value] : []);
+    return [{
+      key: String(column.key),
+      type,
+      description: column.header,
+      ...(type === 'string' && values?.length ? { values } : {})
+    }];
+  });
+}
+
 export type PaginationMode = 'client' | 'server';
 export type FilterMode = 'client' | 'server';
 export type SortMode = 'client' | 'server';
@@ -72,10 +96,22 @@ export interface DataGridProps<T> {
   
   // Sorting
   defaultSortKey?: keyof T;
+  /** The current sort when the parent keeps it, e.g. in the URL; the grid follows it */
+  sort?: SortConfig<T>;
   onSort?: (config: SortConfig<T>) => void;
+
+  // Columns
+  /** Keys of the columns to show, in order; all columns when omitted or null */
+  visibleColumns?: string[] | null;
+  /** Shows a column picker that reports the chosen columns (null for the default set) */
+  onVisibleColumnsChange?: (keys: string[] | null) => void;
   
   // Filtering
   filterExpression?: string;
+  /** Fields the expression may use; derived from the columns when omitted */
+  filterFields?: FilterField[];
+  /** An error found outside the grid, e.g. an expression the server can't run */
+  filterError?: FilterError | null;
   quickFilter?: string;
   onFilterChange?: (config: FilterConfig) => void;
   onFilterError?: (error: Error) => void;
@@ -92,6 +128,75 @@ export interface DataGridProps<T> {
   error?: string | null;
 }
 
+/** Which columns to show and in what order; shown columns first, then the hidden ones */
+function ColumnPicker<T>({ columns, shown, onChange }: {
+  columns: Column<T>[];
+  shown: Column<T>[];
+  onChange: (keys: string[] | null) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const shownKeys = shown.map(column => String(column.key));
+  const hidden = columns.filter(column => !shownKeys.includes(String(column.key)));
+
+  const toggle = (key: string) => {
+    const next = shownKeys.includes(key) ? shownKeys.filter(k => k !== key) : [...shownKeys, key];
+    if (next.length > 0) onChange(next);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...shownKeys];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 bg-white/5 border border-white/10 rounded text-sm text-gray-300 hover:text-white whitespace-nowrap"
+      >
+        <Columns className="h-4 w-4" />
+        Columns
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-64 bg-gray-800 rounded-lg shadow-lg p-2 space-y-1">
+          {[...shown, ...hidden].map(column => {
+            const key = String(column.key);
+            const index = shownKeys.indexOf(key);
+            return (
+              <div key={key} className="flex items-center gap-2 px-2 py-1 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={index !== -1}
+                  onChange={() => toggle(key)}
+                  className="rounded"
+                />
+                <span className="flex-grow truncate">{column.header}</span>
+                {index !== -1 && (
+                  <>
+                    <button onClick={() => move(index, -1)} disabled={index === 0} className="disabled:opacity-30" title="Move left">
+                      <ChevronUp className="h-3 w-3" />
+                    </button>
+                    <button onClick={() => move(index, 1)} disabled={index === shownKeys.length - 1} className="disabled:opacity-30" title="Move right">
+                      <ChevronDown className="h-3 w-3" />
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+          <button
+            onClick={() => onChange(null)}
+            className="w-full px-2 py-1 text-left text-xs text-blue-400 hover:text-blue-300"
+          >
+            Reset columns
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function DataGrid<T extends Record<string, any>>({
   // Data & Display
   data,
@@ -105,10 +210,17 @@ export function DataGrid<T extends Record<string, any>>({
   
   // Sorting
   defaultSortKey,
+  sort,
   onSort,
+
+  // Columns
+  visibleColumns,
+  onVisibleColumnsChange,
   
   // Filtering
   filterExpression,
+  filterFields,
+  filterError,
   quickFilter,
   onFilterChange,
   onFilterError,
@@ -125,7 +237,7 @@ export function DataGrid<T extends Record<string, any>>({
   error
 }: DataGridProps<T>) {
   // Internal state for client-side operations
-  const [sortConfig, setSortConfig] = useState<SortConfig<T>>({
+  const [sortConfig, setSortConfig] = useState<SortConfig<T>>(sort ?? {
     key: defaultSortKey || null,
     direction: 'asc',
   });
@@ -135,6 +247,57 @@ export function DataGrid<T extends Record<string, any>>({
     quickFilter
   });
 
+  // Follow the parent when it sets the expression, e.g. to a saved filter
+  useEffect(() => {
+    if (filterExpression === undefined) return;
+    setInternalFilter(current =>
+      current.expression === filterExpression ? current : { ...current, expression: filterExpression }
+    );
+  }, [filterExpression]);
+
+  useEffect(() => {
+    if (quickFilter === undefined) return;
+    setInternalFilter(current =>
+      current.quickFilter === quickFilter ? current : { ...current, quickFilter }
+    );
+  }, [quickFilter]);
+
+  // Follow a controlled sort by value; parents often pass a new object each render
+  const sortKey = sort?.key;
+  const sortDirection = sort?.direction;
+  useEffect(() => {
+    if (sortKey === undefined || sortDirection === undefined) return;
+    setSortConfig(current =>
+      current.key === sortKey && current.direction === sortDirection ? current : { key: sortKey, direction: sortDirection }
+    );
+  }, [sortKey, sortDirection]);
+
+  const shownColumns = useMemo(() => visibleColumns
+    ? visibleColumns.flatMap(key => columns.filter(column => String(column.key) === key))
+    : columns,
+  [columns, visibleColumns]);
+
+  const expressionFields = useMemo(
+    () => filterFields ?? filterFieldsFromColumns(columns),
+    [filterFields, columns]
+  );
+
+  // An invalid expression filters nothing; its error is shown under the input
+  const compiledExpression = useMemo(
+    () => compileFilter(internalFilter.expression ?? '', expressionFields),
+    [internalFilter.expression, expressionFields]
+  );
+
+  const expressionFilterError = compiledExpression.error ?? filterError ?? null;
+  const expressionError = expressionFilterError ? describeFilterError(expressionFilterError) : null;
+  // Reported once per distinct message, not on every render that rebuilds the error
+  const latestFilterError = useRef({ error: expressionFilterError, onFilterError });
+  latestFilterError.current = { error: expressionFilterError, onFilterError };
+  useEffect(() => {
+    const { error } = latestFilterError.current;
+    if (error) latestFilterError.current.onFilterError?.(error);
+  }, [expressionError]);
+
   // Add state for column filters
   const [columnFilters, setColumnFilters] = useState<ColumnFilter[]>([]);
   const [activeFilterColumn, setActiveFilterColumn] = useState<string | null>(null);
@@ -153,26 +316,28 @@ export function DataGrid<T extends Record<string, any>>({
   };
 
   // Handle filtering
+  // Without its own expression input the grid leaves the parent's expression alone
+  const emitFilterChange = (config: FilterConfig) => {
+    const { expression: _expression, ...rest } = config;
+    onFilterChange?.(filterExpression === undefined ? rest : config);
+  };
+
   const handleFilterChange = (newFilter: Partial<FilterConfig>) => {
     const updatedFilter = { ...internalFilter, ...newFilter };
     setInternalFilter(updatedFilter);
-    if (filterMode === 'server' && onFilterChange) {
-      onFilterChange(updatedFilter);
+    if (filterMode === 'server') {
+      emitFilterChange(updatedFilter);
     }
   };
 
+  // Column filters only run in the browser; a server-filtered grid uses its expression instead
+  const columnFiltering = filterMode === 'client';
+
   // Handle column filter change
   const handleColumnFilterChange = (field: string, condition: FilterCondition) => {
     const newFilters = columnFilters.filter(f => f.field !== field);
     newFilters.push({ field, condition });
     setColumnFilters(newFilters);
-    
-    if (filterMode === 'server' && onFilterChange) {
-      onFilterChange({
-        ...internalFilter,
-        columnFilters: newFilters
-      });
-    }
   };
 
   // Process data for client-side operations
@@ -189,16 +354,7 @@ export function DataGrid<T extends Record<string, any>>({
         );
       }
 
-      if (internalFilter.expression) {
-        try {
-          // This is where we'd use the expression parser
-          // TODO: Implement expression parsing for client-side filtering
-        } catch (err) {
-          if (onFilterError && err instanceof Error) {
-            onFilterError(err);
-          }
-        }
-      }
+      result = applyFilter(result, compiledExpression.ast, { fields: expressionFields });
 
       // Apply column filters
       if (columnFilters.length > 0) {
@@ -259,7 +415,7 @@ export function DataGrid<T extends Record<string, any>>({
     }
 
     return result;
-  }, [data, sortConfig, internalFilter, columnFilters, sortMode, filterMode, paginationMode, page, pageSize]);
+  }, [data, sortConfig, internalFilter, compiledExpression, expressionFields, columnFilters, sortMode, filterMode, paginationMode, page, pageSize]);
 
   // Loading state
   if (loading) {
@@ -526,7 +682,7 @@ export function DataGrid<T extends Record<string, any>>({
     const content = (
       <div className="flex items-center justify-between gap-2 relative">
         <span>{column.header}</span>
-        {column.filterable && (
+        {columnFiltering && column.filterable && (
           <div
             onClick={(e) => {
               e.stopPropagation(); // Prevent triggering sort when clicking filter
@@ -552,7 +708,7 @@ export function DataGrid<T extends Record<string, any>>({
         )}
         
         {/* Render filter UI when active */}
-        {column.filterable && activeFilterColumn === String(column.key) && (
+        {columnFiltering && column.filterable && activeFilterColumn === String(column.key) && (
           <FilterUI
             column={column}
             onFilterChange={(filter) => {
@@ -590,18 +746,25 @@ export function DataGrid<T extends Record<string, any>>({
           placeholder="Quick filter..."
           className="px-4 py-2 bg-white/5 border border-white/10 rounded text-white w-full"
         />
+        {onVisibleColumnsChange && (
+          <ColumnPicker columns={columns} shown={shownColumns} onChange={onVisibleColumnsChange} />
+        )}
       </div>
 
       {/* Advanced Filter Input */}
       {filterExpression !== undefined && (
-        <div className="flex items-center gap-4">
-          <input
-            type="text"
+        <div className="space-y-1">
+          <FilterEditor
             value={internalFilter.expression || ''}
-            onChange={(e) => handleFilterChange({ expression: e.target.value })}
+            onChange={(expression) => handleFilterChange({ expression })}
+            fields={expressionFields}
+            error={expressionFilterError}
             placeholder="Advanced filter expression..."
-            className="px-4 py-2 bg-white/5 border border-white/10 rounded text-white w-full font-mono text-sm"
+            singleLine
           />
+          {expressionError && (
+            <p className="text-xs text-red-400">{expressionError}</p>
+          )}
         </div>
       )}
 
@@ -631,7 +794,7 @@ export function DataGrid<T extends Record<string, any>>({
           <table className="w-full">
             <thead>
               <tr className="border-b border-white/10">
-                {columns.map((column) => (
+                {shownColumns.map((column) => (
                   <th
                     key={column.key as string}
                     className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase"
@@ -644,7 +807,7 @@ export function DataGrid<T extends Record<string, any>>({
             <tbody className="divide-y divide-white/10">
               {processedData.map((item, index) => (
                 <tr key={index} className="hover:bg-white/5 transition-all duration-200 ease-in-out">
-                  {columns.map((column) => (
+                  {shownColumns.map((column) => (
                     <td key={column.key as string} className="px-6 py-4 whitespace-nowrap text-sm text-white">
                       {column.render 
                         ? column.render(item[column.key], item)
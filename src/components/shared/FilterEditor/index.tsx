@@ -0,0 +1,241 @@
+/**
+ * Filter expression editor: syntax highlighting, an underline under the
+ * exact span of the current error, and context-aware suggestions for
+ * fields, operators, values and saved filters.
+ *
+ * Keys: ArrowUp / ArrowDown move through suggestions, Enter or Tab accepts,
+ * Escape closes the list and Ctrl+Space opens it again.
+ */
+import React, { useCallback, useEffect, useId, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { applyCompletion, completeFilter, highlightFilter } from '@/lib/filter';
+import type { Completion, CompletionKind, FilterError, HighlightKind } from '@/lib/filter';
+import type { FilterField, FilterPreset } from '@/types/filter';
+
+export interface FilterEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  fields: FilterField[];
+  /** Offered by name where a condition can start */
+  savedFilters?: FilterPreset[];
+  /** Underlined in place; the message itself is shown by the parent */
+  error?: FilterError | null;
+  placeholder?: string;
+  /** A one-line input, as in a toolbar; Enter never adds a newline */
+  singleLine?: boolean;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<HighlightKind, string> = {
+  field: 'text-sky-300',
+  unknownField: 'text-orange-300',
+  function: 'text-purple-300',
+  keyword: 'text-pink-400 font-semibold',
+  operator: 'text-yellow-300',
+  punctuation: 'text-gray-400',
+  string: 'text-green-300',
+  number: 'text-amber-300',
+  date: 'text-teal-300',
+  text: 'text-white',
+  invalid: 'text-red-400'
+};
+
+const KIND_LABELS: Record<CompletionKind, string> = {
+  field: 'field',
+  operator: 'op',
+  keyword: 'kw',
+  value: 'value',
+  function: 'fn',
+  savedFilter: 'saved'
+};
+
+// The textarea and the highlight layer under it must lay text out identically
+const TEXT_LAYOUT = 'px-3 py-2 text-sm font-mono leading-5 whitespace-pre-wrap break-words';
+
+export function FilterEditor({
+  value,
+  onChange,
+  fields,
+  savedFilters,
+  error = null,
+  placeholder,
+  singleLine = false,
+  className = ''
+}: FilterEditorProps) {
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const layerRef = useRef<HTMLPreElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const pendingCursor = useRef<number | null>(null);
+  const listId = useId();
+
+  const [cursor, setCursor] = useState(value.length);
+  const [isOpen, setIsOpen] = useState(false);
+  const [active, setActive] = useState(0);
+
+  const segments = useMemo(() => highlightFilter(value, fields, error), [value, fields, error]);
+
+  const completion = useMemo(() => completeFilter(value, Math.min(cursor, value.length), {
+    fields,
+    savedFilters: savedFilters?.map(saved => ({
+      name: saved.name,
+      expression: saved.expression,
+      description: saved.description
+    }))
+  }), [value, cursor, fields, savedFilters]);
+
+  const showList = isOpen && completion.items.length > 0;
+
+  // Put the caret after an accepted suggestion once the new value has rendered
+  useLayoutEffect(() => {
+    if (pendingCursor.current === null || !inputRef.current) return;
+    inputRef.current.setSelectionRange(pendingCursor.current, pendingCursor.current);
+    pendingCursor.current = null;
+  }, [value]);
+
+  useEffect(() => {
+    const item = listRef.current?.children[active] as HTMLElement | undefined;
+    item?.scrollIntoView?.({ block: 'nearest' });
+  }, [active]);
+
+  const syncCursor = useCallback(() => {
+    const input = inputRef.current;
+    if (input) setCursor(input.selectionStart ?? input.value.length);
+  }, []);
+
+  const accept = useCallback((item: Completion) => {
+    const next = applyCompletion(value, completion, item);
+    pendingCursor.current = next.cursor;
+    setCursor(next.cursor);
+    setActive(0);
+    setIsOpen(true);
+    onChange(next.source);
+  }, [value, completion, onChange]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      syncCursor();
+      setIsOpen(true);
+      return;
+    }
+    if (showList) {
+      const count = completion.items.length;
+      switch (e.key) {
+        case 'ArrowDown':
+          e.preventDefault();
+          setActive(index => (index + 1) % count);
+          return;
+        case 'ArrowUp':
+          e.preventDefault();
+          setActive(index => (index - 1 + count) % count);
+          return;
+        case 'Enter':
+        case 'Tab':
+          e.preventDefault();
+          accept(completion.items[Math.min(active, count - 1)]);
+          return;
+        case 'Escape':
+          e.preventDefault();
+          setIsOpen(false);
+          return;
+      }
+    }
+    if (singleLine && e.key === 'Enter') e.preventDefault();
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const next = singleLine ? e.target.value.replace(/\n/g, ' ') : e.target.value;
+    setCursor(e.target.selectionStart ?? next.length);
+    setActive(0);
+    setIsOpen(true);
+    onChange(next);
+  };
+
+  const handleScroll = () => {
+    if (!layerRef.current || !inputRef.current) return;
+    layerRef.current.scrollTop = inputRef.current.scrollTop;
+    layerRef.current.scrollLeft = inputRef.current.scrollLeft;
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <pre
+        ref={layerRef}
+        aria-hidden="true"
+        className={`absolute inset-0 m-0 overflow-hidden border border-transparent pointer-events-none ${TEXT_LAYOUT}`}
+      >
+        {segments.map(segment => segment.text === '' ? (
+          <span key={`marker-${segment.start}`} className="relative">
+            <span className="absolute left-0 -bottom-0.5 w-2 border-b-2 border-red-500" title={error?.message} />
+          </span>
+        ) : (
+          <span
+            key={`${segment.start}-${segment.kind}`}
+            className={`${TOKEN_CLASSES[segment.kind]} ${
+              segment.error ? 'underline decoration-wavy decoration-red-500 underline-offset-4' : ''
+            }`}
+          >
+            {segment.text}
+          </span>
+        ))}
+        {' '}
+      </pre>
+      <textarea
+        ref={inputRef}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onKeyUp={syncCursor}
+        onClick={syncCursor}
+        onScroll={handleScroll}
+        onBlur={() => setIsOpen(false)}
+        rows={singleLine ? 1 : 4}
+        spellCheck={false}
+        autoComplete="off"
+        placeholder={placeholder}
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-invalid={error ? true : undefined}
+        aria-activedescendant={showList ? `${listId}-${active}` : undefined}
+        title={error?.message}
+        className={`relative block w-full resize-none bg-white/5 border rounded-md text-transparent caret-white placeholder:text-gray-500 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+          error ? 'border-red-500/50' : 'border-white/10'
+        } ${singleLine ? 'overflow-hidden' : ''} ${TEXT_LAYOUT}`}
+      />
+      {showList && (
+        <ul
+          ref={listRef}
+          id={listId}
+          role="listbox"
+          className="absolute z-50 left-0 right-0 mt-1 max-h-60 overflow-y-auto bg-gray-800 border border-white/10 rounded-md shadow-lg py-1"
+        >
+          {completion.items.map((item, index) => (
+            <li
+              key={`${item.kind}-${item.label}`}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === active}
+              onMouseDown={(e) => {
+                // Keep focus in the editor
+                e.preventDefault();
+                accept(item);
+              }}
+              onMouseEnter={() => setActive(index)}
+              className={`flex items-baseline gap-2 px-3 py-1.5 text-sm cursor-pointer ${
+                index === active ? 'bg-blue-500/30 text-white' : 'text-gray-300'
+              }`}
+            >
+              <span className="w-10 shrink-0 text-[10px] uppercase text-gray-500">{KIND_LABELS[item.kind]}</span>
+              <span className="font-mono">{item.label}</span>
+              {item.detail && <span className="text-xs text-gray-500">{item.detail}</span>}
+              {item.description && (
+                <span className="ml-auto truncate text-xs text-gray-400">{item.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
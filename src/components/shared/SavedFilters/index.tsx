@@ -0,0 +1,310 @@
+/**
+ * Saved filters for one lab: the user's own and those shared with their
+ * clinics or the organization. A filter that no longer fits the lab's
+ * fields is flagged with the reason and can't be applied until its owner
+ * updates it. Owners can overwrite a filter with the current expression,
+ * which records a new version, and restore earlier versions; anyone can pin
+ * a filter as a quick filter chip.
+ *
+ * Usage:
+ *   <SavedFilters
+ *     lab="holter"
+ *     fields={HOLTER_FILTER_FIELDS}
+ *     currentExpression={expression}
+ *     onSelectFilter={filter => ...}
+ *   />
+ */
+import { useState } from 'react';
+import { AlertTriangle, Building2, Globe, History, Lock, Pin, PinOff, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { describeFilterError } from '@/lib/filter';
+import type { FilterColumnMap } from '@/lib/filter';
+import { useAuth } from '@/hooks/api/core/useAuth';
+import {
+  useDeleteSavedFilter,
+  useFilterShareClinics,
+  usePinSavedFilter,
+  useSavedFilters,
+  useSavedFilterVersions,
+  useSaveFilter
+} from '@/hooks/api/filters/useSavedFilters';
+import type { FilterField, FilterLab, SavedFilter, SavedFilterScope } from '@/types/filter';
+
+export interface SavedFiltersProps {
+  lab: FilterLab;
+  fields: FilterField[];
+  /** Passed on to the check of each filter when the lab filters in the database */
+  columns?: FilterColumnMap;
+  /** What "Save" stores; empty disables saving */
+  currentExpression: string;
+  activeFilterId?: string | null;
+  onSelectFilter: (filter: SavedFilter) => void;
+  className?: string;
+}
+
+const SCOPES: { id: SavedFilterScope; label: string; icon: typeof Lock }[] = [
+  { id: 'private', label: 'Only me', icon: Lock },
+  { id: 'clinic', label: 'My clinic', icon: Building2 },
+  { id: 'organization', label: 'Everyone', icon: Globe }
+];
+
+function VersionHistory({ filter, canRestore }: { filter: SavedFilter; canRestore: boolean }) {
+  const { versions, isLoading } = useSavedFilterVersions(filter.id);
+  const saveFilter = useSaveFilter();
+
+  const restore = (version: (typeof versions)[number]) => {
+    saveFilter.mutate(
+      {
+        id: filter.id,
+        lab: filter.lab,
+        name: version.name,
+        expression: version.expression,
+        description: version.description,
+        scope: filter.scope,
+        clinicId: filter.clinicId
+      },
+      {
+        onSuccess: () => toast.success(`Restored version ${version.version} of ${filter.name}.`),
+        onError: () => toast.error('Failed to restore filter version.')
+      }
+    );
+  };
+
+  if (isLoading) return <p className="px-2 py-1 text-xs text-gray-500">Loading history…</p>;
+
+  return (
+    <ol className="ml-6 mt-1 space-y-1 border-l border-white/10 pl-3">
+      {versions.map(version => (
+        <li key={version.version} className="text-xs text-gray-400">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-gray-300">v{version.version}</span>
+            <span>{new Date(version.createdAt).toLocaleString()}</span>
+            {version.editorEmail && <span className="truncate">{version.editorEmail}</span>}
+            {canRestore && version.version !== filter.version && (
+              <button
+                onClick={() => restore(version)}
+                disabled={saveFilter.isPending}
+                className="ml-auto text-blue-400 hover:text-blue-300 disabled:opacity-50"
+              >
+                Restore
+              </button>
+            )}
+          </div>
+          <code className="block truncate font-mono text-gray-500" title={version.expression}>{version.expression}</code>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function SavedFilters({
+  lab,
+  fields,
+  columns,
+  currentExpression,
+  activeFilterId = null,
+  onSelectFilter,
+  className = ''
+}: SavedFiltersProps) {
+  const { filters, isLoading, error } = useSavedFilters({ lab, fields, columns });
+  const clinics = useFilterShareClinics();
+  const saveFilter = useSaveFilter();
+  const deleteFilter = useDeleteSavedFilter();
+  const pinFilter = usePinSavedFilter();
+  const { user } = useAuth();
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [scope, setScope] = useState<SavedFilterScope>('private');
+  const [clinicId, setClinicId] = useState('');
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  const busy = saveFilter.isPending || deleteFilter.isPending || pinFilter.isPending;
+  const canSave = Boolean(name.trim() && currentExpression.trim() && user && (scope !== 'clinic' || clinicId));
+
+  const handleSave = () => {
+    if (!canSave) return;
+    saveFilter.mutate(
+      { lab, name, expression: currentExpression, description, scope, clinicId },
+      {
+        onSuccess: () => {
+          toast.success('Filter saved successfully.');
+          setName('');
+          setDescription('');
+        },
+        onError: () => toast.error('Failed to save filter.')
+      }
+    );
+  };
+
+  const handleUpdate = (filter: SavedFilter) => {
+    saveFilter.mutate(
+      { ...filter, expression: currentExpression },
+      {
+        onSuccess: () => toast.success(`Updated ${filter.name} to version ${filter.version + 1}.`),
+        onError: () => toast.error('Failed to update filter.')
+      }
+    );
+  };
+
+  const handleDelete = (filter: SavedFilter) => {
+    deleteFilter.mutate(
+      { id: filter.id, lab },
+      { onError: () => toast.error('Failed to delete filter.') }
+    );
+  };
+
+  const handlePin = (filter: SavedFilter) => {
+    pinFilter.mutate(
+      { id: filter.id, lab, pinned: !filter.pinned },
+      { onError: () => toast.error('Failed to change pinned filters.') }
+    );
+  };
+
+  return (
+    <div className={`rounded-lg border border-white/10 bg-white/5 p-3 ${className}`}>
+      <h3 className="mb-2 text-sm font-medium text-white">Saved Filters</h3>
+
+      <div className="mb-3 max-h-64 overflow-y-auto">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading…</p>
+        ) : error ? (
+          <p className="text-sm text-red-400">Failed to load saved filters.</p>
+        ) : filters.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved filters</p>
+        ) : (
+          <ul className="space-y-1">
+            {filters.map(filter => {
+              const isOwner = filter.ownerId === user?.id;
+              const ScopeIcon = SCOPES.find(option => option.id === filter.scope)?.icon ?? Lock;
+              return (
+                <li key={filter.id}>
+                  <div
+                    className={`flex items-center gap-2 rounded px-2 py-1 ${
+                      filter.id === activeFilterId ? 'bg-blue-500/20' : 'hover:bg-white/5'
+                    }`}
+                  >
+                    <ScopeIcon className="h-3.5 w-3.5 shrink-0 text-gray-500" aria-label={filter.scope} />
+                    <button
+                      onClick={() => onSelectFilter(filter)}
+                      disabled={filter.error !== null}
+                      className="min-w-0 flex-grow text-left disabled:cursor-not-allowed"
+                      title={filter.expression}
+                    >
+                      <span className={`block truncate text-sm ${filter.error ? 'text-gray-500' : 'text-gray-200 hover:text-blue-300'}`}>
+                        {filter.name}
+                        <span className="ml-2 text-xs text-gray-500">v{filter.version}</span>
+                      </span>
+                      {filter.description && (
+                        <span className="block truncate text-xs text-gray-400">{filter.description}</span>
+                      )}
+                      {!isOwner && filter.ownerEmail && (
+                        <span className="block truncate text-xs text-gray-500">by {filter.ownerEmail}</span>
+                      )}
+                    </button>
+                    {filter.error && (
+                      <span title={describeFilterError(filter.error)}>
+                        <AlertTriangle className="h-4 w-4 text-yellow-400" aria-label="Out of date" />
+                      </span>
+                    )}
+                    <button
+                      onClick={() => handlePin(filter)}
+                      disabled={busy}
+                      className="p-1 text-gray-400 hover:text-white"
+                      title={filter.pinned ? 'Unpin from quick filters' : 'Pin to quick filters'}
+                    >
+                      {filter.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                    </button>
+                    <button
+                      onClick={() => setHistoryFor(current => current === filter.id ? null : filter.id)}
+                      className="p-1 text-gray-400 hover:text-white"
+                      title="Version history"
+                    >
+                      <History size={14} />
+                    </button>
+                    {isOwner && (
+                      <>
+                        <button
+                          onClick={() => handleUpdate(filter)}
+                          disabled={busy || !currentExpression.trim() || currentExpression.trim() === filter.expression}
+                          className="p-1 text-gray-400 hover:text-white disabled:opacity-40"
+                          title="Replace with the current expression"
+                        >
+                          <RefreshCw size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(filter)}
+                          disabled={busy}
+                          className="p-1 text-red-400 hover:text-red-300"
+                          title="Delete filter"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  {filter.error && (
+                    <p className="ml-6 px-2 text-xs text-yellow-400/80">{describeFilterError(filter.error)}</p>
+                  )}
+                  {historyFor === filter.id && <VersionHistory filter={filter} canRestore={isOwner} />}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name your filter"
+            className="flex-grow rounded border border-white/10 bg-white/5 px-2 py-1 text-sm text-white"
+            disabled={busy}
+          />
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as SavedFilterScope)}
+            className="rounded border border-white/10 bg-white/5 px-2 py-1 text-sm text-white"
+            disabled={busy}
+          >
+            {SCOPES.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          {scope === 'clinic' && (
+            <select
+              value={clinicId}
+              onChange={(e) => setClinicId(e.target.value)}
+              className="rounded border border-white/10 bg-white/5 px-2 py-1 text-sm text-white"
+              disabled={busy}
+            >
+              <option value="">Clinic…</option>
+              {clinics.map(clinic => (
+                <option key={clinic.id} value={clinic.id}>{clinic.name}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={handleSave}
+            className="rounded bg-blue-500 p-1 text-white hover:bg-blue-600 disabled:opacity-50"
+            disabled={busy || !canSave}
+            title="Save current filter"
+          >
+            <Plus size={16} />
+          </button>
+        </div>
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className="w-full rounded border border-white/10 bg-white/5 px-2 py-1 text-sm text-white"
+          disabled={busy}
+        />
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,9 @@
  *  • Fully adjustable Y-range (expand/compress/auto-fit).
  *  • Keyboard navigation and ARIA tags for accessibility.
  *  • Synchronized multi-channel support.
+ *  • Clinical paper mode (mm grid, fixed mm/s and mm/mV, calibration pulse).
+ *  • Electronic time/amplitude calipers with march-out.
+ *  • Annotation overlays, and brushing a range to annotate it.
  *  • Polished design, minimalistic UI, and smooth user interactions.
  *
  * Usage:
@@ -20,8 +23,19 @@
  */
 
 import React from 'react';
-import { ZoomIn, ZoomOut, Crop, EyeOff, Move, Link } from 'lucide-react';
+import { ZoomIn, ZoomOut, Crop, EyeOff, Move, Link, Save, X, Repeat } from 'lucide-react';
 import { useAdvancedECG } from '@/hooks/api/ecg/useAdvancedECG';
+import { useECGCalipers } from '@/hooks/api/ecg/useECGCalipers';
+import { useECGBrush } from '@/hooks/api/ecg/useECGBrush';
+import { ECGCaliperOverlay } from './ECGCaliperOverlay';
+import { ECGAnnotationOverlay } from './ECGAnnotationOverlay';
+import { DEFAULT_ANNOTATION_TAXONOMY, annotationAppliesTo } from '@/lib/ecg/annotations';
+import type { AnnotationDraft, AnnotationTaxonomy } from '@/lib/ecg/annotations';
+import type { ECGAnnotationRow } from '@/types/domain/ecg';
+import { MEASUREMENT_LABELS, formatMeasurement } from '@/lib/ecg/calipers';
+import type { CaliperMeasurement, MeasurementLabel } from '@/lib/ecg/calipers';
+import type { ECGFilterSettings } from '@/lib/ecg/filters';
+import type { PaperSettings } from '@/lib/ecg/paper';
 
 interface AdvancedECGPlotProps {
   pod_id: string;
@@ -41,6 +55,21 @@ interface AdvancedECGPlotProps {
   onScaleChange?: (scale: number) => void;
   onTranslateChange?: (translate: number) => void;
   syncEnabled?: boolean;
+  // Sample indices of detected R-peaks to mark on the trace
+  beatIndices?: number[];
+  // Display filter chain; the raw trace is drawn when omitted
+  filter?: ECGFilterSettings;
+  // Clinical paper speed/gain; free scaling when omitted
+  paper?: PaperSettings;
+  // Caliper mode replaces panning with measuring
+  caliperMode?: boolean;
+  onSaveMeasurement?: (measurement: CaliperMeasurement) => void;
+  // Saved annotations drawn over the trace (only those on this lead or all leads)
+  annotations?: ECGAnnotationRow[];
+  annotationTaxonomy?: AnnotationTaxonomy;
+  // Annotate mode replaces panning with brushing a range to label
+  annotateMode?: boolean;
+  onCreateAnnotation?: (draft: AnnotationDraft) => void;
 }
 
 export function AdvancedECGPlot({
@@ -60,7 +89,16 @@ export function AdvancedECGPlot({
   sharedTranslateX,
   onScaleChange,
   onTranslateChange,
-  syncEnabled = false
+  syncEnabled = false,
+  beatIndices,
+  filter,
+  paper,
+  caliperMode = false,
+  onSaveMeasurement,
+  annotations,
+  annotationTaxonomy = DEFAULT_ANNOTATION_TAXONOMY,
+  annotateMode = false,
+  onCreateAnnotation
 }: AdvancedECGPlotProps) {
   const {
     canvasRef,
@@ -83,6 +121,9 @@ export function AdvancedECGPlot({
     zoomOutRange,
     fitYRange,
     toggleColorBlindMode,
+    paperMode,
+    pixelRatio,
+    buffer,
     isLoading,
     error
   } = useAdvancedECG({
@@ -100,9 +141,46 @@ export function AdvancedECGPlot({
     sharedTranslateX,
     onScaleChange,
     onTranslateChange,
-    syncEnabled
+    syncEnabled,
+    beatIndices,
+    filter,
+    paper
   });
 
+  const geometry = { width, height, scaleX, translateX, yMin, yMax };
+  const calipers = useECGCalipers({ buffer, channel, geometry, unitsPerMv: paper?.unitsPerMv });
+  const brush = useECGBrush(buffer, geometry);
+  const isBrushing = annotateMode && !caliperMode;
+
+  const leadAnnotations = React.useMemo(
+    () => (annotations ?? []).filter(a => annotationAppliesTo(a, channel)),
+    [annotations, channel]
+  );
+
+  // Label form for the brushed range
+  const [draftLabel, setDraftLabel] = React.useState(annotationTaxonomy[0]?.id ?? '');
+  const [draftAllLeads, setDraftAllLeads] = React.useState(false);
+  const [draftNote, setDraftNote] = React.useState('');
+  const { selection, clear: clearBrush } = brush;
+
+  const handleSaveAnnotation = () => {
+    if (!selection || !onCreateAnnotation || !draftLabel) return;
+    onCreateAnnotation({
+      channel: draftAllLeads ? null : channel,
+      label: draftLabel,
+      startTime: selection.startTime,
+      endTime: selection.endTime,
+      note: draftNote
+    });
+    setDraftNote('');
+    clearBrush();
+  };
+
+  // Leaving annotate mode drops an unsaved range
+  React.useEffect(() => {
+    if (!isBrushing) clearBrush();
+  }, [isBrushing, clearBrush]);
+
   // Auto-fit Y-range when data loads successfully
   React.useEffect(() => {
     if (!isLoading && !error) {
@@ -151,36 +229,50 @@ export function AdvancedECGPlot({
           <div className="text-xs text-gray-400 px-1.5 py-0.5 bg-white/5 rounded">
             Quality: <span className="text-gray-300">98%</span>
           </div>
+
+          {filter && (
+            <div className="text-xs text-emerald-300 px-1.5 py-0.5 bg-emerald-500/10 rounded" title="Display filters applied">
+              Filtered
+            </div>
+          )}
+
+          {paperMode && paper && (
+            <div className="text-xs text-rose-300 px-1.5 py-0.5 bg-rose-500/10 rounded" title="Clinical paper speed and gain">
+              {paper.speed} mm/s · {paper.gain} mm/mV
+            </div>
+          )}
         </div>
         
         {/* Compact controls */}
         <div className="flex items-center space-x-1">
-          <div className="flex items-center bg-gray-800/80 rounded-md p-0.5">
-            <button
-              onClick={zoomOutRange}
-              className="p-1 hover:bg-white/10 rounded-sm text-gray-300"
-              title="Expand Y-range"
-              aria-label="Expand Y-range"
-            >
-              <ZoomOut className="h-3 w-3"/>
-            </button>
-            <button
-              onClick={zoomInRange}
-              className="p-1 hover:bg-white/10 rounded-sm text-gray-300"
-              title="Compress Y-range"
-              aria-label="Compress Y-range"
-            >
-              <ZoomIn className="h-3 w-3"/>
-            </button>
-            <button
-              onClick={fitYRange}
-              className="p-1 hover:bg-white/10 rounded-sm text-gray-300"
-              title="Fit Y-range to data"
-              aria-label="Fit Y-range to data"
-            >
-              <Crop className="h-3 w-3"/>
-            </button>
-          </div>
+          {!paperMode && (
+            <div className="flex items-center bg-gray-800/80 rounded-md p-0.5">
+              <button
+                onClick={zoomOutRange}
+                className="p-1 hover:bg-white/10 rounded-sm text-gray-300"
+                title="Expand Y-range"
+                aria-label="Expand Y-range"
+              >
+                <ZoomOut className="h-3 w-3"/>
+              </button>
+              <button
+                onClick={zoomInRange}
+                className="p-1 hover:bg-white/10 rounded-sm text-gray-300"
+                title="Compress Y-range"
+                aria-label="Compress Y-range"
+              >
+                <ZoomIn className="h-3 w-3"/>
+              </button>
+              <button
+                onClick={fitYRange}
+                className="p-1 hover:bg-white/10 rounded-sm text-gray-300"
+                title="Fit Y-range to data"
+                aria-label="Fit Y-range to data"
+              >
+                <Crop className="h-3 w-3"/>
+              </button>
+            </div>
+          )}
           
           <button
             onClick={toggleColorBlindMode}
@@ -222,19 +314,45 @@ export function AdvancedECGPlot({
         >
           <canvas
             ref={canvasRef}
-            width={width}
-            height={height}
+            width={Math.round(width * pixelRatio)}
+            height={Math.round(height * pixelRatio)}
+            style={{ width, height }}
             onWheel={handleWheel}
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
-            className="w-full h-auto touch-none"
+            className="block touch-none"
             tabIndex={0}
             aria-label={isColorBlindMode ? 'ECG wave (color-blind mode)' : 'ECG wave chart'}
           />
           
+          {(leadAnnotations.length > 0 || isBrushing) && (
+            <ECGAnnotationOverlay
+              annotations={leadAnnotations}
+              taxonomy={annotationTaxonomy}
+              times={brush.times}
+              geometry={geometry}
+              interactive={isBrushing}
+              selection={isBrushing ? selection : null}
+              onPointerDown={brush.handlePointerDown}
+              onPointerMove={brush.handlePointerMove}
+              onPointerUp={brush.handlePointerUp}
+            />
+          )}
+
+          {caliperMode && (
+            <ECGCaliperOverlay
+              calipers={calipers.calipers}
+              values={calipers.values}
+              geometry={geometry}
+              onPointerDown={calipers.handlePointerDown}
+              onPointerMove={calipers.handlePointerMove}
+              onPointerUp={calipers.handlePointerUp}
+            />
+          )}
+
           {/* Enhanced tooltip */}
-          {showTooltip && tooltipText && (
+          {!caliperMode && !isBrushing && showTooltip && tooltipText && (
             <div
               className="absolute px-2 py-1.5 bg-black/90 text-white text-xs rounded-md pointer-events-none transition-opacity backdrop-blur-sm border border-white/10 shadow-xl"
               style={{ left: tooltipX + 8, top: tooltipY + 8 }}
@@ -247,9 +365,125 @@ export function AdvancedECGPlot({
           {/* Pan/zoom instruction overlay - fades out after use */}
           <div className="absolute bottom-2 right-2 bg-black/40 backdrop-blur-sm text-xs text-gray-300 px-2 py-1 rounded-md flex items-center opacity-50">
             <Move className="h-3 w-3 mr-1 text-gray-400" />
-            <span>Pan: drag | Zoom: scroll</span>
+            <span>
+              {caliperMode ? 'Measure: drag on trace' : isBrushing ? 'Annotate: drag across a range' : paperMode ? 'Pan: drag' : 'Pan: drag | Zoom: scroll'}
+            </span>
           </div>
         </div>
+
+        {caliperMode && (
+          <div className="flex flex-wrap items-center gap-2 px-2 pt-2 text-xs text-gray-300">
+            <div className="flex items-center bg-gray-800/80 rounded-md p-0.5" role="group" aria-label="New caliper type">
+              {(['time', 'amplitude'] as const).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => calipers.setNextKind(kind)}
+                  className={`px-2 py-0.5 rounded-sm ${
+                    calipers.nextKind === kind ? 'bg-amber-500/30 text-amber-200' : 'hover:bg-white/10'
+                  }`}
+                  aria-pressed={calipers.nextKind === kind}
+                >
+                  {kind === 'time' ? 'Time' : 'Amplitude'}
+                </button>
+              ))}
+            </div>
+
+            {calipers.calipers.map(caliper => (
+              <div key={caliper.id} className="flex items-center gap-1 bg-amber-500/10 text-amber-200 rounded-md px-1.5 py-0.5">
+                <select
+                  value={caliper.label}
+                  onChange={(e) => calipers.setLabel(caliper.id, e.target.value as MeasurementLabel)}
+                  className="bg-transparent outline-none"
+                  aria-label="Measurement label"
+                >
+                  {MEASUREMENT_LABELS.map(l => <option key={l} value={l} className="bg-gray-800">{l}</option>)}
+                </select>
+                <span>{caliper.measurement ? formatMeasurement(caliper.measurement) : '—'}</span>
+                {caliper.kind === 'time' && (
+                  <button
+                    onClick={() => calipers.toggleMarchOut(caliper.id)}
+                    className={`p-0.5 rounded-sm ${caliper.marchOut ? 'bg-amber-500/30' : 'hover:bg-white/10'}`}
+                    title="March out this interval across the strip"
+                    aria-pressed={caliper.marchOut}
+                  >
+                    <Repeat className="h-3 w-3" />
+                  </button>
+                )}
+                {onSaveMeasurement && caliper.measurement && (
+                  <button
+                    onClick={() => {
+                      if (caliper.measurement) onSaveMeasurement(caliper.measurement);
+                      calipers.remove(caliper.id);
+                    }}
+                    className="p-0.5 rounded-sm hover:bg-white/10"
+                    title="Save measurement to the study"
+                    aria-label="Save measurement"
+                  >
+                    <Save className="h-3 w-3" />
+                  </button>
+                )}
+                <button
+                  onClick={() => calipers.remove(caliper.id)}
+                  className="p-0.5 rounded-sm hover:bg-white/10"
+                  aria-label="Remove caliper"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+
+            {calipers.calipers.length > 0 && (
+              <button onClick={calipers.clear} className="px-2 py-0.5 rounded-md hover:bg-white/10 text-gray-400">
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
+        {isBrushing && selection && onCreateAnnotation && (
+          <div className="flex flex-wrap items-center gap-2 px-2 pt-2 text-xs text-gray-300">
+            <span className="text-blue-300">
+              {new Date(selection.startTime).toLocaleTimeString()} – {new Date(selection.endTime).toLocaleTimeString()}
+            </span>
+            <select
+              value={draftLabel}
+              onChange={(e) => setDraftLabel(e.target.value)}
+              className="bg-gray-800 border border-gray-700 rounded-md px-1.5 py-0.5 outline-none"
+              aria-label="Annotation label"
+            >
+              {annotationTaxonomy.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={draftAllLeads}
+                onChange={(e) => setDraftAllLeads(e.target.checked)}
+              />
+              All leads
+            </label>
+            <input
+              value={draftNote}
+              onChange={(e) => setDraftNote(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveAnnotation();
+                if (e.key === 'Escape') clearBrush();
+              }}
+              placeholder="Note (optional)"
+              className="flex-1 min-w-[10rem] bg-gray-800 border border-gray-700 rounded-md px-2 py-0.5 outline-none focus:border-blue-500"
+              aria-label="Annotation note"
+            />
+            <button
+              onClick={handleSaveAnnotation}
+              className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-blue-500/20 text-blue-200 hover:bg-blue-500/30"
+            >
+              <Save className="h-3 w-3" />
+              Save
+            </button>
+            <button onClick={clearBrush} className="p-0.5 rounded-sm hover:bg-white/10" aria-label="Discard selection">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,96 @@
+/**
+ * ECGAnnotationOverlay.tsx
+ *
+ * SVG layer over an AdvancedECGPlot canvas showing saved annotations as
+ * tinted bands with their label. While annotating, the layer captures the
+ * pointer so a new range can be brushed; otherwise it ignores the pointer
+ * and panning works underneath.
+ */
+
+import type { PointerEventHandler } from 'react';
+import { annotationSpanX, findAnnotationLabel } from '@/lib/ecg/annotations';
+import type { AnnotationTaxonomy } from '@/lib/ecg/annotations';
+import { indexToX } from '@/lib/ecg/calipers';
+import type { CaliperGeometry } from '@/lib/ecg/calipers';
+import type { ECGAnnotationRow } from '@/types/domain/ecg';
+import type { BrushSelection } from '@/hooks/api/ecg/useECGBrush';
+
+interface ECGAnnotationOverlayProps {
+  annotations: ECGAnnotationRow[];
+  taxonomy?: AnnotationTaxonomy;
+  times: ArrayLike<number>;
+  geometry: CaliperGeometry;
+  /** Capture the pointer for brushing */
+  interactive: boolean;
+  selection: BrushSelection | null;
+  onPointerDown?: PointerEventHandler<SVGSVGElement>;
+  onPointerMove?: PointerEventHandler<SVGSVGElement>;
+  onPointerUp?: PointerEventHandler<SVGSVGElement>;
+}
+
+const BRUSH_COLOR = '#60a5fa';
+
+export function ECGAnnotationOverlay({
+  annotations,
+  taxonomy,
+  times,
+  geometry,
+  interactive,
+  selection,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp
+}: ECGAnnotationOverlayProps) {
+  const { width, height } = geometry;
+
+  return (
+    <svg
+      className={`absolute inset-0 ${interactive ? 'cursor-col-resize touch-none' : 'pointer-events-none'}`}
+      width={width}
+      height={height}
+      onPointerDown={interactive ? onPointerDown : undefined}
+      onPointerMove={interactive ? onPointerMove : undefined}
+      onPointerUp={interactive ? onPointerUp : undefined}
+      role={interactive ? 'application' : undefined}
+      aria-label={interactive ? 'Annotation layer; drag across the trace to select a range' : undefined}
+    >
+      {annotations.map(annotation => {
+        const span = annotationSpanX(Date.parse(annotation.start_time), Date.parse(annotation.end_time), times, geometry);
+        if (!span) return null;
+        const x = Math.max(0, Math.min(span.x1, span.x2));
+        const right = Math.min(width, Math.max(span.x1, span.x2));
+        if (right <= x) return null;
+        const label = findAnnotationLabel(annotation.label, taxonomy);
+        return (
+          <g key={annotation.id}>
+            <title>{annotation.note ? `${label.name}: ${annotation.note}` : label.name}</title>
+            {/* At least a hairline, so very short annotations stay visible */}
+            <rect x={x} y={0} width={Math.max(1, right - x)} height={height} fill={label.color} opacity={0.15} />
+            <line x1={x} x2={x} y1={0} y2={height} stroke={label.color} strokeWidth={1} opacity={0.6} />
+            <text x={x + 3} y={height - 6} fill={label.color} fontSize={10}>
+              {label.name}
+            </text>
+          </g>
+        );
+      })}
+
+      {selection && (
+        <rect
+          x={indexToX(selection.startIndex, times.length, geometry)}
+          y={0}
+          width={Math.max(
+            1,
+            indexToX(selection.endIndex, times.length, geometry) - indexToX(selection.startIndex, times.length, geometry)
+          )}
+          height={height}
+          fill={BRUSH_COLOR}
+          opacity={0.2}
+          stroke={BRUSH_COLOR}
+          strokeDasharray="4 2"
+        />
+      )}
+    </svg>
+  );
+}
+
+export default ECGAnnotationOverlay;
@@ -0,0 +1,108 @@
+/**
+ * ECGCaliperOverlay.tsx
+ *
+ * SVG layer drawn over an AdvancedECGPlot canvas while caliper mode is
+ * on. It captures the pointer (so panning is suspended) and draws each
+ * caliper with its ms / mV readout; marched-out RR intervals are drawn as
+ * dashed ticks across the strip.
+ */
+
+import type { PointerEventHandler } from 'react';
+import { formatMeasurement, indexToX, marchOutIndices, valueToY } from '@/lib/ecg/calipers';
+import type { CaliperGeometry } from '@/lib/ecg/calipers';
+import type { CaliperWithMeasurement } from '@/hooks/api/ecg/useECGCalipers';
+
+interface ECGCaliperOverlayProps {
+  calipers: CaliperWithMeasurement[];
+  values: ArrayLike<number>;
+  geometry: CaliperGeometry;
+  onPointerDown: PointerEventHandler<SVGSVGElement>;
+  onPointerMove: PointerEventHandler<SVGSVGElement>;
+  onPointerUp: PointerEventHandler<SVGSVGElement>;
+}
+
+const CALIPER_COLOR = '#fbbf24';
+const LABEL_Y = 14;
+
+export function ECGCaliperOverlay({
+  calipers,
+  values,
+  geometry,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp
+}: ECGCaliperOverlayProps) {
+  const { width, height } = geometry;
+  const count = values.length;
+  const xAt = (index: number) => indexToX(index, count, geometry);
+
+  return (
+    <svg
+      className="absolute inset-0 cursor-crosshair touch-none"
+      width={width}
+      height={height}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      role="application"
+      aria-label="Caliper layer; drag on the trace to measure"
+    >
+      {calipers.map(caliper => {
+        const x1 = xAt(caliper.startIndex);
+        const x2 = xAt(caliper.endIndex);
+        const label = caliper.measurement ? formatMeasurement(caliper.measurement) : '';
+
+        if (caliper.kind === 'amplitude') {
+          const y1 = valueToY(values[caliper.startIndex], geometry);
+          const y2 = valueToY(values[caliper.endIndex], geometry);
+          const left = Math.min(x1, x2) - 12;
+          const right = Math.max(x1, x2) + 12;
+          return (
+            <g key={caliper.id} stroke={CALIPER_COLOR} strokeWidth={1}>
+              <line x1={left} x2={right} y1={y1} y2={y1} />
+              <line x1={left} x2={right} y1={y2} y2={y2} />
+              <line x1={x2} x2={x2} y1={y1} y2={y2} strokeDasharray="3 2" />
+              <text
+                x={right + 4}
+                y={(y1 + y2) / 2 + 4}
+                fill={CALIPER_COLOR}
+                stroke="none"
+                fontSize={11}
+              >
+                {label}
+              </text>
+            </g>
+          );
+        }
+
+        const marches = caliper.marchOut
+          ? marchOutIndices(caliper.startIndex, caliper.endIndex, count)
+          : [];
+        return (
+          <g key={caliper.id} stroke={CALIPER_COLOR} strokeWidth={1}>
+            {marches.map(index => {
+              const x = xAt(index);
+              if (x < 0 || x > width) return null;
+              return <line key={index} x1={x} x2={x} y1={LABEL_Y + 4} y2={height} strokeDasharray="4 4" opacity={0.6} />;
+            })}
+            <line x1={x1} x2={x1} y1={LABEL_Y + 4} y2={height} />
+            <line x1={x2} x2={x2} y1={LABEL_Y + 4} y2={height} />
+            <line x1={x1} x2={x2} y1={LABEL_Y + 8} y2={LABEL_Y + 8} />
+            <text
+              x={(x1 + x2) / 2}
+              y={LABEL_Y}
+              fill={CALIPER_COLOR}
+              stroke="none"
+              fontSize={11}
+              textAnchor="middle"
+            >
+              {label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default ECGCaliperOverlay;
@@ -0,0 +1,139 @@
+/**
+ * ECGFilterControls.tsx
+ *
+ * Toolbar row for the display filter chain in MainECGViewer: per-channel
+ * on/off toggles plus the shared high-pass, notch, low-pass and moving
+ * median settings.
+ */
+
+import type { ECGFilterSettings, ChannelFilterToggles, PowerlineFrequency } from '@/lib/ecg/filters';
+import type { ECGChannel } from '@/lib/ecg/beatDetection';
+
+interface ECGFilterControlsProps {
+  settings: ECGFilterSettings;
+  channels: ChannelFilterToggles;
+  onSettingsChange: (settings: ECGFilterSettings) => void;
+  onChannelsChange: (channels: ChannelFilterToggles) => void;
+}
+
+const CHANNEL_LABELS: Record<ECGChannel, string> = {
+  1: 'Lead I',
+  2: 'Lead II',
+  3: 'Lead III'
+};
+
+const HIGH_PASS_OPTIONS = [0.05, 0.5, 1];
+const LOW_PASS_OPTIONS = [25, 35, 40, 100];
+const MEDIAN_OPTIONS = [20, 40, 80];
+
+const selectClass = 'px-2 py-1 bg-gray-700 rounded-md text-xs text-white border border-gray-600 focus:border-blue-500 outline-none';
+
+export function ECGFilterControls({
+  settings,
+  channels,
+  onSettingsChange,
+  onChannelsChange
+}: ECGFilterControlsProps) {
+  const update = <K extends keyof ECGFilterSettings>(key: K, value: Partial<ECGFilterSettings[K]>) => {
+    onSettingsChange({ ...settings, [key]: { ...settings[key], ...value } });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 bg-white/5 rounded-lg px-3 py-2 text-xs text-gray-300" role="toolbar" aria-label="ECG display filters">
+      {/* Per-channel toggles */}
+      <div className="flex items-center gap-1">
+        <span className="text-gray-400 mr-1">Filter</span>
+        {([1, 2, 3] as ECGChannel[]).map(channel => (
+          <button
+            key={channel}
+            onClick={() => onChannelsChange({ ...channels, [channel]: !channels[channel] })}
+            className={`px-2 py-1 rounded-md font-medium transition-colors ${
+              channels[channel]
+                ? 'bg-emerald-500/20 text-emerald-300'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+            aria-pressed={channels[channel]}
+          >
+            {CHANNEL_LABELS[channel]}
+          </button>
+        ))}
+      </div>
+
+      {/* High-pass (baseline wander) */}
+      <label className="flex items-center gap-1.5">
+        <input
+          type="checkbox"
+          checked={settings.highPass.enabled}
+          onChange={(e) => update('highPass', { enabled: e.target.checked })}
+          className="rounded text-blue-500 focus:ring-blue-500"
+        />
+        <span>High-pass</span>
+        <select
+          value={settings.highPass.cutoffHz}
+          onChange={(e) => update('highPass', { cutoffHz: Number(e.target.value) })}
+          disabled={!settings.highPass.enabled}
+          className={selectClass}
+        >
+          {HIGH_PASS_OPTIONS.map(hz => <option key={hz} value={hz}>{hz} Hz</option>)}
+        </select>
+      </label>
+
+      {/* Powerline notch */}
+      <label className="flex items-center gap-1.5">
+        <span>Notch</span>
+        <select
+          value={settings.notch.enabled ? settings.notch.frequencyHz : 'off'}
+          onChange={(e) => {
+            const value = e.target.value;
+            update('notch', value === 'off'
+              ? { enabled: false }
+              : { enabled: true, frequencyHz: Number(value) as PowerlineFrequency });
+          }}
+          className={selectClass}
+        >
+          <option value="off">Off</option>
+          <option value={50}>50 Hz</option>
+          <option value={60}>60 Hz</option>
+        </select>
+      </label>
+
+      {/* Low-pass (muscle noise) */}
+      <label className="flex items-center gap-1.5">
+        <input
+          type="checkbox"
+          checked={settings.lowPass.enabled}
+          onChange={(e) => update('lowPass', { enabled: e.target.checked })}
+          className="rounded text-blue-500 focus:ring-blue-500"
+        />
+        <span>Low-pass</span>
+        <select
+          value={settings.lowPass.cutoffHz}
+          onChange={(e) => update('lowPass', { cutoffHz: Number(e.target.value) })}
+          disabled={!settings.lowPass.enabled}
+          className={selectClass}
+        >
+          {LOW_PASS_OPTIONS.map(hz => <option key={hz} value={hz}>{hz} Hz</option>)}
+        </select>
+      </label>
+
+      {/* Moving median */}
+      <label className="flex items-center gap-1.5">
+        <input
+          type="checkbox"
+          checked={settings.movingMedian.enabled}
+          onChange={(e) => update('movingMedian', { enabled: e.target.checked })}
+          className="rounded text-blue-500 focus:ring-blue-500"
+        />
+        <span>Median</span>
+        <select
+          value={settings.movingMedian.windowMs}
+          onChange={(e) => update('movingMedian', { windowMs: Number(e.target.value) })}
+          disabled={!settings.movingMedian.enabled}
+          className={selectClass}
+        >
+          {MEDIAN_OPTIONS.map(ms => <option key={ms} value={ms}>{ms} ms</option>)}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+/**
+ * ECGOverviewStrip.tsx
+ *
+ * Continuous single-lead strip over a whole recording day, fed by
+ * level-of-detail tiles (useECGTiles):
+ *  • Drag to pan, wheel to zoom around the cursor, from seconds to 24 h.
+ *  • Only the tiles under the viewport are fetched; resolution follows zoom.
+ *  • "Open in leads" hands the current viewport to the detailed plots.
+ *
+ * Usage:
+ *   <ECGOverviewStrip
+ *     podId="..."
+ *     dayStart={startMs}
+ *     dayEnd={endMs}
+ *     initialStart={windowStartMs}
+ *     initialEnd={windowEndMs}
+ *     onSelectWindow={(start, end)=>{...}}
+ *   />
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Crosshair } from 'lucide-react';
+import { useECGTiles } from '@/hooks/api/ecg/useECGTiles';
+import { isSampleUsable } from '@/lib/ecg/beatDetection';
+import type { ECGChannel } from '@/lib/ecg/beatDetection';
+
+interface ECGOverviewStripProps {
+  podId: string;
+  /** Navigable bounds, epoch milliseconds */
+  dayStart: number;
+  dayEnd: number;
+  initialStart: number;
+  initialEnd: number;
+  channel?: ECGChannel;
+  width?: number;
+  height?: number;
+  /** Longest window the detailed plots will load */
+  maxSelectMs?: number;
+  onSelectWindow?: (start: number, end: number) => void;
+}
+
+const MIN_VIEW_MS = 5 * 1000;
+
+function formatSpan(ms: number): string {
+  if (ms < 60 * 1000) return `${Math.round(ms / 1000)} s`;
+  if (ms < 60 * 60 * 1000) return `${Math.round(ms / 60000)} min`;
+  return `${(ms / 3600000).toFixed(1)} h`;
+}
+
+export function ECGOverviewStrip({
+  podId,
+  dayStart,
+  dayEnd,
+  initialStart,
+  initialEnd,
+  channel = 2,
+  width = 800,
+  height = 100,
+  maxSelectMs = 60 * 60 * 1000,
+  onSelectWindow
+}: ECGOverviewStripProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; start: number; end: number } | null>(null);
+  const [view, setView] = useState({ start: initialStart, end: initialEnd });
+
+  useEffect(() => {
+    setView({ start: initialStart, end: initialEnd });
+  }, [initialStart, initialEnd]);
+
+  const { samples, level, visibleTiles, loadedTiles, isLoading, error } = useECGTiles({
+    pod_id: podId,
+    view_start: view.start,
+    view_end: view.end,
+    pixelWidth: width
+  });
+
+  // Keep the viewport inside the day and within zoom limits
+  const clampView = useCallback((start: number, end: number) => {
+    const span = Math.min(dayEnd - dayStart, Math.max(MIN_VIEW_MS, end - start));
+    const clampedStart = Math.min(dayEnd - span, Math.max(dayStart, start));
+    return { start: clampedStart, end: clampedStart + span };
+  }, [dayStart, dayEnd]);
+
+  const zoom = useCallback((factor: number, anchor = 0.5) => {
+    setView(current => {
+      const span = current.end - current.start;
+      const pivot = current.start + span * anchor;
+      const next = span * factor;
+      return clampView(pivot - next * anchor, pivot + next * (1 - anchor));
+    });
+  }, [clampView]);
+
+  // Draw the trace by time so partially loaded tiles land in the right place
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    if (!samples.length) return;
+
+    const values = samples.map(s => s.channels[channel - 1]);
+    let lo = Infinity;
+    let hi = -Infinity;
+    values.forEach(v => {
+      if (v < lo) lo = v;
+      if (v > hi) hi = v;
+    });
+    const range = hi - lo || 1;
+    const span = view.end - view.start;
+
+    ctx.strokeStyle = '#60a5fa';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    let penDown = false;
+    samples.forEach((sample, i) => {
+      // Lift the pen over lead-off / low quality stretches
+      if (!isSampleUsable(sample, channel)) {
+        penDown = false;
+        return;
+      }
+      const x = ((Date.parse(sample.time) - view.start) / span) * width;
+      const y = height - 4 - ((values[i] - lo) / range) * (height - 8);
+      if (penDown) {
+        ctx.lineTo(x, y);
+      } else {
+        ctx.moveTo(x, y);
+        penDown = true;
+      }
+    });
+    ctx.stroke();
+  }, [samples, view, channel, width, height]);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    dragRef.current = { x: e.clientX, start: view.start, end: view.end };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const msPerPx = (drag.end - drag.start) / width;
+    const shift = (drag.x - e.clientX) * msPerPx;
+    setView(clampView(drag.start + shift, drag.end + shift));
+  };
+
+  const handleMouseUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const anchor = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    zoom(e.deltaY > 0 ? 1.25 : 0.8, anchor);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const span = view.end - view.start;
+    if (e.key === 'ArrowLeft') setView(clampView(view.start - span * 0.25, view.end - span * 0.25));
+    if (e.key === 'ArrowRight') setView(clampView(view.start + span * 0.25, view.end + span * 0.25));
+    if (e.key === '+' || e.key === '=') zoom(0.8);
+    if (e.key === '-') zoom(1.25);
+  };
+
+  const canSelect = view.end - view.start <= maxSelectMs;
+
+  return (
+    <div className="bg-gray-900/60 border border-gray-700/50 rounded-lg p-2 space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <div className="flex items-center gap-3">
+          <span className="text-gray-300 font-medium">Day overview</span>
+          <span>
+            {new Date(view.start).toLocaleTimeString()} – {new Date(view.end).toLocaleTimeString()} ({formatSpan(view.end - view.start)})
+          </span>
+          <span title="Resolution level and tiles loaded for the viewport">
+            {level.id} · {loadedTiles}/{visibleTiles} tiles
+          </span>
+          {isLoading && <span className="animate-pulse text-blue-300">loading…</span>}
+          {error && <span className="text-red-400">{error}</span>}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => zoom(0.5)}
+            className="p-1 rounded hover:bg-white/10"
+            title="Zoom in"
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => zoom(2)}
+            className="p-1 rounded hover:bg-white/10"
+            title="Zoom out"
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </button>
+          {onSelectWindow && (
+            <button
+              onClick={() => onSelectWindow(view.start, view.end)}
+              disabled={!canSelect}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 disabled:opacity-40"
+              title={canSelect ? 'Show this window in the lead plots' : `Zoom in to ${formatSpan(maxSelectMs)} or less to open in the lead plots`}
+            >
+              <Crosshair className="h-3.5 w-3.5" />
+              Open in leads
+            </button>
+          )}
+        </div>
+      </div>
+      <canvas
+        ref={canvasRef}
+        style={{ width, height }}
+        className="block cursor-grab active:cursor-grabbing"
+        tabIndex={0}
+        role="img"
+        aria-label="ECG day overview; drag to pan, scroll to zoom, arrow keys to move"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+        onWheel={handleWheel}
+        onKeyDown={handleKeyDown}
+      />
+    </div>
+  );
+}
+
+export default ECGOverviewStrip;
@@ -0,0 +1,141 @@
+/**
+ * ECGPaperControls.tsx
+ *
+ * Toolbar row for clinical paper mode in MainECGViewer: on/off, paper
+ * speed, gain, and the screen calibration step that makes millimetres on
+ * the grid physical millimetres. Settings are the user's saved viewer
+ * preferences.
+ */
+
+import { useState } from 'react';
+import { Ruler } from 'lucide-react';
+import { useViewerPreferences } from '@/hooks/api/store/viewerPreferences';
+import {
+  PAPER_SPEEDS,
+  PAPER_GAINS,
+  CALIBRATION_CARD_MM,
+  DEFAULT_PX_PER_MM,
+  pxPerMmFromReference
+} from '@/lib/ecg/paper';
+import type { PaperGain, PaperSpeed } from '@/lib/ecg/paper';
+
+const selectClass = 'px-2 py-1 bg-gray-700 rounded-md text-xs text-white border border-gray-600 focus:border-blue-500 outline-none';
+
+export function ECGPaperControls() {
+  const {
+    paperMode,
+    paperSpeed,
+    paperGain,
+    pxPerMm,
+    setPaperMode,
+    setPaperSpeed,
+    setPaperGain,
+    setPxPerMm
+  } = useViewerPreferences();
+  const [calibrating, setCalibrating] = useState(false);
+  const [cardPx, setCardPx] = useState(() => Math.round((pxPerMm ?? DEFAULT_PX_PER_MM) * CALIBRATION_CARD_MM));
+
+  const startCalibration = () => {
+    setCardPx(Math.round((pxPerMm ?? DEFAULT_PX_PER_MM) * CALIBRATION_CARD_MM));
+    setCalibrating(true);
+  };
+
+  const saveCalibration = () => {
+    setPxPerMm(pxPerMmFromReference(cardPx));
+    setCalibrating(false);
+  };
+
+  return (
+    <div className="bg-white/5 rounded-lg px-3 py-2 text-xs text-gray-300 space-y-2" role="toolbar" aria-label="ECG paper settings">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={paperMode}
+            onChange={(e) => setPaperMode(e.target.checked)}
+            className="rounded text-blue-500 focus:ring-blue-500"
+          />
+          <span>Clinical paper</span>
+        </label>
+
+        <label className="flex items-center gap-1.5">
+          <span>Speed</span>
+          <select
+            value={paperSpeed}
+            onChange={(e) => setPaperSpeed(Number(e.target.value) as PaperSpeed)}
+            disabled={!paperMode}
+            className={selectClass}
+          >
+            {PAPER_SPEEDS.map(speed => <option key={speed} value={speed}>{speed} mm/s</option>)}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-1.5">
+          <span>Gain</span>
+          <select
+            value={paperGain}
+            onChange={(e) => setPaperGain(Number(e.target.value) as PaperGain)}
+            disabled={!paperMode}
+            className={selectClass}
+          >
+            {PAPER_GAINS.map(gain => <option key={gain} value={gain}>{gain} mm/mV</option>)}
+          </select>
+        </label>
+
+        <button
+          onClick={() => (calibrating ? setCalibrating(false) : startCalibration())}
+          className={`flex items-center gap-1 px-2 py-1 rounded-md font-medium transition-colors ${
+            pxPerMm ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-amber-500/20 text-amber-300'
+          }`}
+          title={pxPerMm
+            ? `Calibrated: ${pxPerMm.toFixed(2)} px/mm`
+            : 'Not calibrated; millimetres assume a 96 dpi screen'}
+          aria-expanded={calibrating}
+        >
+          <Ruler className="h-3.5 w-3.5" />
+          {pxPerMm ? 'Recalibrate' : 'Calibrate screen'}
+        </button>
+      </div>
+
+      {calibrating && (
+        <div className="space-y-2 border-t border-white/10 pt-2">
+          <p className="text-gray-400">
+            Hold a bank card ({CALIBRATION_CARD_MM} mm wide) against the screen and adjust the bar until it matches the width of the card.
+          </p>
+          <div
+            className="h-6 bg-blue-500/40 border border-blue-400 rounded-sm"
+            style={{ width: cardPx }}
+            aria-hidden="true"
+          />
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={150}
+              max={900}
+              value={cardPx}
+              onChange={(e) => setCardPx(Number(e.target.value))}
+              className="w-64"
+              aria-label="Calibration bar width"
+            />
+            <span className="text-gray-400">{pxPerMmFromReference(cardPx).toFixed(2)} px/mm</span>
+            <button
+              onClick={saveCalibration}
+              className="px-2 py-1 rounded-md bg-blue-500 hover:bg-blue-600 text-white font-medium"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => {
+                setPxPerMm(null);
+                setCalibrating(false);
+              }}
+              className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300"
+            >
+              Reset to default
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
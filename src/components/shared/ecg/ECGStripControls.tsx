@@ -0,0 +1,141 @@
+/**
+ * ECGStripControls.tsx
+ *
+ * Toolbar row in MainECGViewer for the current window as a strip: pick
+ * the leads, export it as HL7 aECG XML with the study's annotations, or
+ * bookmark it on the study so it can be exported with other strips from
+ * the Holter detail page.
+ */
+
+import { useState } from 'react';
+import { Bookmark, FileCode, X } from 'lucide-react';
+import { useAECGExport } from '@/hooks/api/ecg/useAECGExport';
+import { useStudyAnnotations } from '@/hooks/api/study/useStudyAnnotations';
+import { useCreateStripBookmark } from '@/hooks/api/study/useStripBookmarks';
+import type { ECGChannel } from '@/lib/ecg/beatDetection';
+
+const LEADS: Array<{ channel: ECGChannel; label: string }> = [
+  { channel: 1, label: 'Lead I' },
+  { channel: 2, label: 'Lead II' },
+  { channel: 3, label: 'Lead III' }
+];
+
+const buttonClass = 'flex items-center gap-1.5 px-2.5 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-xs text-gray-200 font-medium transition-colors disabled:opacity-50';
+
+interface ECGStripControlsProps {
+  podId: string;
+  studyId?: string;
+  /** Trial subject written to the aECG document */
+  subjectId?: string | null;
+  timeStart: string;
+  timeEnd: string;
+}
+
+export function ECGStripControls({ podId, studyId, subjectId, timeStart, timeEnd }: ECGStripControlsProps) {
+  const [channels, setChannels] = useState<ECGChannel[]>([1, 2, 3]);
+  const [label, setLabel] = useState('');
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const aecgExport = useAECGExport();
+  const { annotations } = useStudyAnnotations(studyId);
+  const createBookmark = useCreateStripBookmark();
+
+  const toggleChannel = (channel: ECGChannel) => {
+    setChannels(prev => (prev.includes(channel) ? prev.filter(c => c !== channel) : [...prev, channel]));
+  };
+
+  const handleExport = async () => {
+    if (!studyId) return;
+    setStatus(null);
+    try {
+      const summary = await aecgExport.exportStrips({
+        podId,
+        studyId,
+        subjectId,
+        strips: [{ timeStart, timeEnd, channels }],
+        annotations,
+        filename: `aecg_${podId}_${new Date(timeStart).toISOString().slice(0, 19).replace(/:/g, '-')}`
+      });
+      if (summary) {
+        const notes = summary.warnings.length ? ` (${summary.warnings.join('; ')})` : '';
+        setStatus({ type: 'success', message: `Exported ${summary.filename}${notes}` });
+      }
+    } catch (err) {
+      setStatus({ type: 'error', message: `aECG export failed: ${err instanceof Error ? err.message : 'Unknown error'}` });
+    }
+  };
+
+  const handleBookmark = () => {
+    if (!studyId) return;
+    setStatus(null);
+    createBookmark.mutate(
+      { studyId, podId, startTime: timeStart, endTime: timeEnd, channels, label },
+      {
+        onSuccess: () => {
+          setLabel('');
+          setStatus({ type: 'success', message: 'Strip bookmarked' });
+        },
+        onError: (err) => setStatus({ type: 'error', message: `Bookmark not saved: ${err.message}` })
+      }
+    );
+  };
+
+  return (
+    <div className="bg-white/5 rounded-lg px-3 py-2 text-xs text-gray-300 space-y-2" role="toolbar" aria-label="ECG strip export">
+      <div className="flex flex-wrap items-center gap-4">
+        <span className="text-gray-400">Strip leads</span>
+        {LEADS.map(({ channel, label: leadLabel }) => (
+          <label key={channel} className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={channels.includes(channel)}
+              onChange={() => toggleChannel(channel)}
+              className="rounded text-blue-500 focus:ring-blue-500"
+            />
+            <span>{leadLabel}</span>
+          </label>
+        ))}
+
+        {aecgExport.isExporting ? (
+          <button onClick={aecgExport.cancel} className={buttonClass} title="Cancel export">
+            <X className="h-3.5 w-3.5" />
+            Cancel aECG ({Math.round(aecgExport.progress * 100)}%)
+          </button>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={!studyId || !channels.length}
+            className={buttonClass}
+            title={studyId ? 'Export this window as HL7 aECG XML with study annotations (not conformance-tested)' : 'aECG export needs a study'}
+          >
+            <FileCode className="h-3.5 w-3.5" />
+            Export aECG
+          </button>
+        )}
+
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Bookmark label (optional)"
+          aria-label="Bookmark label"
+          className="px-2 py-1 bg-gray-700 rounded-md text-xs text-white border border-gray-600 focus:border-blue-500 outline-none"
+        />
+        <button
+          onClick={handleBookmark}
+          disabled={!studyId || !channels.length || createBookmark.isPending}
+          className={buttonClass}
+          title={studyId ? 'Bookmark this window and leads on the study' : 'Bookmarks need a study'}
+        >
+          <Bookmark className="h-3.5 w-3.5" />
+          Bookmark strip
+        </button>
+      </div>
+
+      {status && (
+        <div className={status.type === 'error' ? 'text-red-400' : 'text-emerald-400'} role={status.type === 'error' ? 'alert' : 'status'}>
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
-import { supabase } from '@/types/supabase';
+import { useEcgDataSource } from '@/context/EcgDataSourceContext';
 
 export const ECGTestComponent: React.FC = () => {
+  const source = useEcgDataSource();
   const [result, setResult] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -20,26 +21,18 @@ export const ECGTestComponent: React.FC = () => {
         factor: 4
       };
 
-      console.log('Calling edge function with data:', testData);
+      console.log(`Reading from the ${source.id} data source with:`, testData);
 
-      const response = await supabase.functions.invoke('downsample-ecg', {
-        body: testData
-      });
+      const samples = await source.getRange(testData);
 
-      if (response.error) {
-        setError(`Edge function error: ${response.error.message || JSON.stringify(response.error)}`);
+      if (samples.length === 0) {
+        setError('No samples returned for the test window');
         return;
       }
 
-      // Check if the response data is valid
-      if (!response.data) {
-        setError('No data returned from edge function');
-        return;
-      }
-
-      setResult(JSON.stringify(response, null, 2));
+      setResult(JSON.stringify({ source: source.id, count: samples.length, first: samples[0], last: samples[samples.length - 1] }, null, 2));
     } catch (err) {
-      console.error('Error testing edge function:', err);
+      console.error('Error testing data source:', err);
       setError(`Error: ${err instanceof Error ? err.message : String(err)}`);
     } finally {
       setLoading(false);
@@ -48,7 +41,7 @@ export const ECGTestComponent: React.FC = () => {
 
   return (
     <div className="p-4 bg-gray-900 text-white rounded-xl">
-      <h2 className="text-lg font-medium mb-4">ECG Edge Function Test</h2>
+      <h2 className="text-lg font-medium mb-4">ECG Data Source Test</h2>
       
       <button
         onClick={testEdgeFunction}
@@ -57,7 +50,7 @@ export const ECGTestComponent: React.FC = () => {
           loading ? 'bg-blue-500/50 cursor-not-allowed' : 'bg-blue-500 hover:bg-blue-600'
         }`}
       >
-        {loading ? 'Testing...' : 'Test Edge Function'}
+        {loading ? 'Testing...' : 'Test Data Source'}
       </button>
       
       {error && (
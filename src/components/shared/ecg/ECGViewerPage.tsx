@@ -8,18 +8,24 @@
  * - Quick presets for common time ranges
  */
 
-import React, { useEffect, useCallback, useState } from 'react'
+import React, { useEffect, useCallback, useRef, useState } from 'react'
 import { useParams } from 'react-router-dom'
-import { Search, Calendar, Clock, FastForward, Rewind, Download } from 'lucide-react'
+import { Search, Calendar, Clock, FastForward, Rewind, Download, FileDown, X } from 'lucide-react'
 import { useStudyContext } from '@/context/StudyContext'
 import { useTimeRange } from '@/context/TimeRangeContext'
 import { CalendarSelector } from '@/components/shared/CalendarSelector/index'
 import { EcgAggregatorView } from './EcgAggregatorView'
 import MainECGViewer from './MainECGViewer'
+import { HRVPanel } from './HRVPanel'
 import { usePodDays } from '@/hooks/api/pod/usePodDays'
 import { useStudyDetails } from '@/hooks/api/study/useStudyDetails'
 import { useLatestECGTimestamp } from '@/hooks/api/ecg/useLatestECGTimestamp'
-import { supabase } from '@/types/supabase'
+import { useECGExport } from '@/hooks/api/ecg/useECGExport'
+import type { ECGExportFormat } from '@/hooks/api/ecg/useECGExport'
+import { useStudyAnnotations } from '@/hooks/api/study/useStudyAnnotations'
+import { useEcgDataSource } from '@/context/EcgDataSourceContext'
+import { streamChunkSeconds } from '@/lib/ecg/dataSource/stream'
+import { sampleAt } from '@/lib/ecg/sampleBuffer'
 import type { Database } from '@/types'
 import { logger } from '@/lib/logger'
 
@@ -31,6 +37,20 @@ const TIME_PRESETS = [
     { minutes: 60, label: '1 hour' }
 ]
 
+// Spans offered for file export; long spans are fetched in chunks
+type ExportSpan = 'range' | '6h' | 'day'
+
+const EXPORT_SPANS: Array<{ value: ExportSpan; label: string }> = [
+    { value: 'range', label: 'Selected range' },
+    { value: '6h', label: '6 hours from range start' },
+    { value: 'day', label: 'Whole selected day' }
+]
+
+const EXPORT_FORMAT_LABELS: Record<ECGExportFormat, string> = {
+    edf: 'EDF+',
+    wfdb: 'WFDB'
+}
+
 type PodDay = Database['public']['Functions']['get_pod_days']['Returns'][0]
 
 export default function ECGViewerPage() {
@@ -53,7 +73,9 @@ export default function ECGViewerPage() {
     const [viewerOpen, setViewerOpen] = React.useState(false)
     const [isDownloading, setIsDownloading] = useState(false)
     const [downloadProgress, setDownloadProgress] = useState(0)
+    const downloadAbortRef = useRef<AbortController | null>(null)
     const [downsampleFactor, setDownsampleFactor] = useState(4) // Default to 4 (80Hz)
+    const ecgSource = useEcgDataSource()
     const [selectedChannels, setSelectedChannels] = useState({
         channel1: true,
         channel2: true,
@@ -70,6 +92,12 @@ export default function ECGViewerPage() {
         return study?.study_id ? `ECG_${study.study_id}` : 'ECG_data';
     });
 
+    // File export (EDF+ or WFDB) of the selected range, a few hours or the whole day
+    const ecgExport = useECGExport()
+    const [exportSpan, setExportSpan] = useState<ExportSpan>('range')
+    const [exportingFormat, setExportingFormat] = useState<ECGExportFormat>('edf')
+    const { annotations: studyAnnotations } = useStudyAnnotations(study?.study_id)
+
     // Load available days for the selected pod
     const { data: podDays, isLoading: daysLoading } = usePodDays(study?.pod_id || '')
 
@@ -171,70 +199,21 @@ export default function ECGViewerPage() {
         }));
     };
 
-    interface ECGSample {
-        time: string;
-        downsampled_channel_1: number;
-        downsampled_channel_2: number;
-        downsampled_channel_3: number;
-        lead_on_p_1: boolean;
-        lead_on_p_2: boolean;
-        lead_on_p_3: boolean;
-        lead_on_n_1: boolean;
-        lead_on_n_2: boolean;
-        lead_on_n_3: boolean;
-        quality_1: boolean;
-        quality_2: boolean;
-        quality_3: boolean;
-    }
-    
-    // Interface for parallel array response from downsample_ecg
-    interface ParallelECGData {
-        timestamps: string[];
-        channel_1: number[];
-        channel_2: number[];
-        channel_3: number[];
-        lead_on_p_1: boolean[];
-        lead_on_p_2: boolean[];
-        lead_on_p_3: boolean[];
-        lead_on_n_1: boolean[];
-        lead_on_n_2: boolean[];
-        lead_on_n_3: boolean[];
-        quality_1: boolean[];
-        quality_2: boolean[];
-        quality_3: boolean[];
-    }
+    // A download in flight belongs to the range it was started for
+    useEffect(() => () => downloadAbortRef.current?.abort(), [timeRange])
+
+    const cancelDownload = () => downloadAbortRef.current?.abort();
 
     const downloadECG = async () => {
         if (!timeRange || !study?.pod_id) return;
+
+        const controller = new AbortController();
+        downloadAbortRef.current = controller;
         
         try {
             setIsDownloading(true);
             setDownloadProgress(0);
             
-            const { data, error } = await supabase.rpc('downsample_ecg', {
-                p_pod_id: study.pod_id,
-                p_time_start: timeRange.start,
-                p_time_end: timeRange.end,
-                p_factor: downsampleFactor
-                // No chunk_minutes parameter for downsample_ecg
-            });
-            
-            if (error) throw error;
-            
-            if (!data) {
-                throw new Error('No ECG data available for the selected time range');
-            }
-            
-            // Process parallel array data structure 
-            const parallelData = data as unknown as ParallelECGData;
-            
-            if (!parallelData.timestamps || !Array.isArray(parallelData.timestamps) || parallelData.timestamps.length === 0) {
-                throw new Error('No ECG timestamps available for the selected time range');
-            }
-            
-            const totalSamples = parallelData.timestamps.length;
-            const updateFrequency = Math.max(1, Math.floor(totalSamples / 20)); // Update progress ~20 times
-            
             // Convert to CSV
             // Build header based on selected channels
             const headerParts: string[] = ['timestamp'];
@@ -252,42 +231,43 @@ export default function ECGViewerPage() {
             
             const header = headerParts.join(',');
             
-            // Build rows based on selected channels and parallel arrays
+            // Build rows chunk by chunk as the range streams in
             const rows: string[] = [];
             
-            for (let i = 0; i < totalSamples; i++) {
-                const rowParts: (string | number | boolean)[] = [parallelData.timestamps[i]];
-                
-                if (selectedChannels.channel1) rowParts.push(parallelData.channel_1[i]);
-                if (selectedChannels.channel2) rowParts.push(parallelData.channel_2[i]);
-                if (selectedChannels.channel3) rowParts.push(parallelData.channel_3[i]);
-                
-                if (selectedChannels.leadStatus) {
-                    rowParts.push(
-                        parallelData.lead_on_p_1[i],
-                        parallelData.lead_on_p_2[i],
-                        parallelData.lead_on_p_3[i],
-                        parallelData.lead_on_n_1[i],
-                        parallelData.lead_on_n_2[i],
-                        parallelData.lead_on_n_3[i]
-                    );
-                }
-                
-                if (selectedChannels.quality) {
-                    rowParts.push(
-                        parallelData.quality_1[i],
-                        parallelData.quality_2[i],
-                        parallelData.quality_3[i]
-                    );
-                }
-                
-                rows.push(rowParts.join(','));
-                
-                // Update progress periodically
-                if (i % updateFrequency === 0 || i === totalSamples - 1) {
-                    const progress = Math.round(((i + 1) / totalSamples) * 100);
-                    setDownloadProgress(progress);
-                }
+            await ecgSource.streamRange(
+                {
+                    pod_id: study.pod_id,
+                    time_start: timeRange.start,
+                    time_end: timeRange.end,
+                    factor: downsampleFactor,
+                    chunk_seconds: streamChunkSeconds(timeRange.start, timeRange.end)
+                },
+                chunk => {
+                    for (let i = 0; i < chunk.buffer.length; i++) {
+                        const sample = sampleAt(chunk.buffer, i);
+                        const rowParts: (string | number | boolean)[] = [sample.time];
+                        
+                        if (selectedChannels.channel1) rowParts.push(sample.channels[0]);
+                        if (selectedChannels.channel2) rowParts.push(sample.channels[1]);
+                        if (selectedChannels.channel3) rowParts.push(sample.channels[2]);
+                        
+                        if (selectedChannels.leadStatus) {
+                            rowParts.push(...sample.lead_on_p, ...sample.lead_on_n);
+                        }
+                        
+                        if (selectedChannels.quality) {
+                            rowParts.push(...sample.quality);
+                        }
+                        
+                        rows.push(rowParts.join(','));
+                    }
+                    setDownloadProgress(Math.round(((chunk.index + 1) / chunk.total) * 100));
+                },
+                controller.signal
+            );
+            
+            if (rows.length === 0) {
+                throw new Error('No ECG data available for the selected time range');
             }
             
             const csv = [header, ...rows].join('\n');
@@ -305,15 +285,56 @@ export default function ECGViewerPage() {
             
             showNotification('success', `ECG data successfully downloaded as ${filename}.csv`);
         } catch (err) {
+            if (controller.signal.aborted) {
+                logger.info('[ECGViewerPage] Download cancelled', { podId: study?.pod_id });
+                return;
+            }
             console.error('Error downloading ECG data:', err);
             console.error('Study pod_id:', study?.pod_id);
             showNotification('error', `Failed to download ECG data: ${err instanceof Error ? err.message : 'Unknown error'}`);
         } finally {
+            if (downloadAbortRef.current === controller) downloadAbortRef.current = null;
             setIsDownloading(false);
             setDownloadProgress(0);
         }
     };
 
+    const exportRangeFor = (span: ExportSpan): { start: string; end: string } | null => {
+        if (!timeRange) return null
+        if (span === 'range') return timeRange
+        if (span === '6h') {
+            const start = new Date(timeRange.start)
+            return { start: start.toISOString(), end: new Date(start.getTime() + 6 * 60 * 60 * 1000).toISOString() }
+        }
+        const dayStart = new Date(selectedDay)
+        dayStart.setHours(0, 0, 0, 0)
+        return { start: dayStart.toISOString(), end: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000).toISOString() }
+    }
+
+    const exportFile = async (format: ECGExportFormat) => {
+        const range = exportRangeFor(exportSpan)
+        if (!range || !study?.pod_id) return
+        setExportingFormat(format)
+        try {
+            const summary = await ecgExport.exportRange({
+                format,
+                podId: study.pod_id,
+                studyId: study.study_id,
+                timeStart: range.start,
+                timeEnd: range.end,
+                factor: downsampleFactor,
+                filename,
+                annotations: studyAnnotations
+            })
+            if (summary) {
+                const notes = summary.warnings.length ? ` (${summary.warnings.join('; ')})` : ''
+                showNotification('success', `Exported ${summary.filename}${notes}`)
+            }
+        } catch (err) {
+            showNotification('error', `${EXPORT_FORMAT_LABELS[format]} export failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+        }
+    }
+
     if (studyLoading || daysLoading || timestampLoading) {
         return (
             <div className="min-h-screen bg-gray-900 text-white p-4 md:p-6 flex items-center justify-center">
@@ -584,35 +605,83 @@ export default function ECGViewerPage() {
                                             </div>
                                         </div>
 
-                                        <button
-                                            onClick={downloadECG}
-                                            disabled={isDownloading}
-                                            className={`w-full px-4 py-2 ${
-                                                isDownloading
-                                                    ? 'bg-blue-400 cursor-wait'
-                                                    : 'bg-blue-500 hover:bg-blue-600 active:bg-blue-700'
-                                            } rounded-lg text-white font-medium transition-colors relative overflow-hidden`}
-                                        >
-                                            {isDownloading && (
-                                                <div 
-                                                    className="absolute left-0 top-0 bottom-0 bg-blue-600 transition-all" 
+                                        {isDownloading ? (
+                                            <button
+                                                onClick={cancelDownload}
+                                                className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-medium transition-colors relative overflow-hidden"
+                                                title="Cancel download"
+                                            >
+                                                <div
+                                                    className="absolute left-0 top-0 bottom-0 bg-blue-600/50 transition-all"
                                                     style={{ width: `${downloadProgress}%` }}
                                                 />
-                                            )}
-                                            <span className="relative z-10 flex items-center justify-center gap-2">
-                                                {isDownloading ? (
-                                                    <>
-                                                        <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full" />
-                                                        Downloading... {downloadProgress}%
-                                                    </>
-                                                ) : (
-                                                    <>
-                                                        <Download className="h-4 w-4" />
-                                                        Download ECG
-                                                    </>
-                                                )}
-                                            </span>
-                                        </button>
+                                                <span className="relative z-10 flex items-center justify-center gap-2">
+                                                    <X className="h-4 w-4" />
+                                                    Cancel download ({downloadProgress}%)
+                                                </span>
+                                            </button>
+                                        ) : (
+                                            <button
+                                                onClick={downloadECG}
+                                                className="w-full px-4 py-2 bg-blue-500 hover:bg-blue-600 active:bg-blue-700 rounded-lg text-white font-medium transition-colors flex items-center justify-center gap-2"
+                                            >
+                                                <Download className="h-4 w-4" />
+                                                Download ECG
+                                            </button>
+                                        )}
+
+                                        <div className="flex flex-col gap-1">
+                                            <label htmlFor="export-span" className="text-xs text-gray-400">
+                                                Export span
+                                            </label>
+                                            <select
+                                                id="export-span"
+                                                value={exportSpan}
+                                                onChange={(e) => setExportSpan(e.target.value as ExportSpan)}
+                                                disabled={ecgExport.isExporting}
+                                                className="px-3 py-2 bg-gray-700 rounded-lg text-white border border-gray-600 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+                                            >
+                                                {EXPORT_SPANS.map(span => (
+                                                    <option key={span.value} value={span.value}>{span.label}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+
+                                        {ecgExport.isExporting ? (
+                                            <button
+                                                onClick={ecgExport.cancel}
+                                                className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-medium transition-colors relative overflow-hidden"
+                                                title="Cancel export"
+                                            >
+                                                <div
+                                                    className="absolute left-0 top-0 bottom-0 bg-blue-600/50 transition-all"
+                                                    style={{ width: `${Math.round(ecgExport.progress * 100)}%` }}
+                                                />
+                                                <span className="relative z-10 flex items-center justify-center gap-2">
+                                                    <X className="h-4 w-4" />
+                                                    Cancel {EXPORT_FORMAT_LABELS[exportingFormat]} ({Math.round(ecgExport.progress * 100)}%)
+                                                </span>
+                                            </button>
+                                        ) : (
+                                            <div className="flex gap-2">
+                                                <button
+                                                    onClick={() => exportFile('edf')}
+                                                    className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-medium transition-colors flex items-center justify-center gap-2"
+                                                    title="Export the three leads with lead-off and quality annotations as EDF+"
+                                                >
+                                                    <FileDown className="h-4 w-4" />
+                                                    Export EDF+
+                                                </button>
+                                                <button
+                                                    onClick={() => exportFile('wfdb')}
+                                                    className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white font-medium transition-colors flex items-center justify-center gap-2"
+                                                    title="Export a WFDB record (.hea/.dat/.atr) with detected beats and study annotations as a zip"
+                                                >
+                                                    <FileDown className="h-4 w-4" />
+                                                    Export WFDB
+                                                </button>
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             )}
@@ -620,6 +689,16 @@ export default function ECGViewerPage() {
                     </div>
                 </div>
 
+                {/* HRV for the range selected above; follows every change to it */}
+                {timeRange && study.pod_id && (
+                    <HRVPanel
+                        podId={study.pod_id}
+                        timeStart={timeRange.start}
+                        timeEnd={timeRange.end}
+                        factor={downsampleFactor}
+                    />
+                )}
+
                 {/* Aggregator View */}
                 {selectedDay && selectedHour !== null && study.pod_id && (
                     <EcgAggregatorView
@@ -640,6 +719,7 @@ export default function ECGViewerPage() {
             {viewerOpen && timeRange && study.pod_id && (
                 <MainECGViewer
                     podId={study.pod_id}
+                    studyId={studyId}
                     timeStart={timeRange.start}
                     timeEnd={timeRange.end}
                     onClose={() => setViewerOpen(false)}
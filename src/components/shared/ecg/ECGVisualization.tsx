@@ -115,6 +115,8 @@ export const ECGVisualization: React.FC<ECGVisualizationProps> = ({
     {
       downsamplingFactor: calculatedFactor,
       maxPoints,
+      // Pick decimate / lttb / minmax / peak_preserving from the canvas width
+      pixelWidth: width,
       onError: (err) => {
         if (onError) onError(err);
       },
@@ -0,0 +1,239 @@
+/**
+ * HRVPanel.tsx
+ *
+ * Heart rate variability for the selected time window:
+ *  • Time domain: SDNN, RMSSD, pNN50, mean HR.
+ *  • Frequency domain: LF, HF, LF/HF from a Lomb-Scargle spectrum.
+ *  • RR tachogram and Poincaré plot (SD1/SD2).
+ *  • CSV export of the metrics and RR series.
+ *
+ * Intervals that overlap lead-off or quality=false samples are excluded
+ * by the beat detector before any metric is computed.
+ */
+
+import { useMemo, useState } from 'react';
+import { Activity, AlertTriangle, Download, HeartPulse } from 'lucide-react';
+import { useHRV } from '@/hooks/api/ecg/useHRV';
+import { formatHRVCsv } from '@/lib/ecg/hrv';
+import type { HRVResult, RRInterval, PoincareResult } from '@/lib/ecg/hrv';
+import { downloadBlob } from '@/lib/utils/download';
+
+interface HRVPanelProps {
+  podId: string;
+  timeStart: string;
+  timeEnd: string;
+  factor?: number;
+}
+
+export function HRVPanel({ podId, timeStart, timeEnd, factor = 4 }: HRVPanelProps) {
+  // Analysis fetches the whole window, so only run it on request
+  const [requestedRange, setRequestedRange] = useState<string | null>(null);
+  const rangeKey = `${podId}:${timeStart}:${timeEnd}`;
+  const enabled = requestedRange === rangeKey;
+
+  const { hrv, beatDetection, isLoading, error } = useHRV({
+    pod_id: podId,
+    time_start: timeStart,
+    time_end: timeEnd,
+    factor,
+    enabled
+  });
+
+  const handleExport = () => {
+    if (!hrv) return;
+    const csv = formatHRVCsv(hrv, {
+      pod_id: podId,
+      time_start: timeStart,
+      time_end: timeEnd,
+      detection_channel: beatDetection.channel
+    });
+    downloadBlob(csv, `hrv_${podId}_${new Date(timeStart).toISOString().slice(0, 19).replace(/:/g, '-')}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium flex items-center gap-2">
+          <HeartPulse className="h-5 w-5 text-blue-400" />
+          Heart Rate Variability
+        </h2>
+        <div className="flex items-center gap-2">
+          {!enabled && (
+            <button
+              onClick={() => setRequestedRange(rangeKey)}
+              className="px-3 py-1.5 bg-blue-500 hover:bg-blue-600 rounded-lg text-sm text-white font-medium transition-colors"
+            >
+              Analyze window
+            </button>
+          )}
+          {hrv && (
+            <button
+              onClick={handleExport}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-sm text-gray-200 transition-colors"
+              title="Download HRV metrics and RR intervals as CSV"
+            >
+              <Download className="h-4 w-4" />
+              Export HRV
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!enabled && (
+        <p className="text-sm text-gray-400">
+          Computes SDNN, RMSSD, pNN50 and LF/HF for {new Date(timeStart).toLocaleTimeString()} – {new Date(timeEnd).toLocaleTimeString()}.
+        </p>
+      )}
+
+      {enabled && isLoading && (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400" />
+        </div>
+      )}
+
+      {enabled && error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {enabled && !isLoading && !error && !hrv?.timeDomain && (
+        <div className="flex items-center gap-2 text-sm text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          Not enough clean beats in this window for HRV analysis.
+        </div>
+      )}
+
+      {enabled && hrv?.timeDomain && (
+        <HRVResults hrv={hrv} />
+      )}
+    </div>
+  );
+}
+
+function HRVResults({ hrv }: { hrv: HRVResult }) {
+  const td = hrv.timeDomain!;
+  const fd = hrv.frequencyDomain;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <Metric label="Mean HR" value={td.meanHR.toFixed(0)} unit="bpm" />
+        <Metric label="SDNN" value={td.sdnn.toFixed(1)} unit="ms" />
+        <Metric label="RMSSD" value={td.rmssd.toFixed(1)} unit="ms" />
+        <Metric label="pNN50" value={td.pnn50.toFixed(1)} unit="%" />
+        <Metric label="LF" value={fd ? fd.lf.toFixed(0) : '—'} unit="ms²" />
+        <Metric label="HF" value={fd ? fd.hf.toFixed(0) : '—'} unit="ms²" />
+        <Metric label="LF/HF" value={fd?.lfHfRatio != null ? fd.lfHfRatio.toFixed(2) : '—'} />
+        <Metric label="SD1 / SD2" value={hrv.poincare ? `${hrv.poincare.sd1.toFixed(0)} / ${hrv.poincare.sd2.toFixed(0)}` : '—'} unit="ms" />
+      </div>
+
+      <div className="text-xs text-gray-400 flex flex-wrap gap-4">
+        <span className="flex items-center gap-1">
+          <Activity className="h-3 w-3" />
+          {hrv.intervals.length} intervals analyzed
+        </span>
+        {hrv.excludedCount > 0 && (
+          <span className="text-amber-400">
+            {hrv.excludedCount} excluded (lead-off / low quality)
+          </span>
+        )}
+        {!fd && <span>Frequency domain needs at least 2 minutes of clean data</span>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <h3 className="text-sm text-gray-400 mb-2">RR Tachogram</h3>
+          <Tachogram intervals={hrv.intervals} />
+        </div>
+        <div>
+          <h3 className="text-sm text-gray-400 mb-2">Poincaré Plot</h3>
+          {hrv.poincare ? (
+            <PoincarePlot poincare={hrv.poincare} />
+          ) : (
+            <div className="text-xs text-gray-500">Not enough consecutive intervals</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Metric({ label, value, unit }: { label: string; value: string; unit?: string }) {
+  return (
+    <div className="bg-black/20 rounded-lg p-2">
+      <div className="text-xs text-gray-400">{label}</div>
+      <div className="text-lg font-semibold text-white">
+        {value}
+        {unit && <span className="ml-1 text-xs font-normal text-gray-400">{unit}</span>}
+      </div>
+    </div>
+  );
+}
+
+const PLOT_SIZE = { width: 360, height: 180 };
+
+function Tachogram({ intervals }: { intervals: RRInterval[] }) {
+  const { width, height } = PLOT_SIZE;
+  const padding = 24;
+
+  const { path, minRR, maxRR } = useMemo(() => {
+    const rr = intervals.map(i => i.rrMs);
+    const lo = Math.floor(Math.min(...rr) / 50) * 50;
+    const hi = Math.ceil(Math.max(...rr) / 50) * 50;
+    const t0 = intervals[0].time;
+    const span = Math.max(1, intervals[intervals.length - 1].time - t0);
+    const range = Math.max(1, hi - lo);
+
+    // Break the line wherever an interval was excluded
+    const d = intervals.map(i => {
+      const x = padding + ((i.time - t0) / span) * (width - 2 * padding);
+      const y = height - padding - ((i.rrMs - lo) / range) * (height - 2 * padding);
+      return `${i.followsPrevious ? 'L' : 'M'} ${x.toFixed(1)} ${y.toFixed(1)}`;
+    }).join(' ');
+
+    return { path: d, minRR: lo, maxRR: hi };
+  }, [intervals, width, height]);
+
+  return (
+    <svg width={width} height={height} className="bg-black/20 rounded-lg" role="img" aria-label="RR tachogram">
+      <path d={path} stroke="#60a5fa" strokeWidth={1.5} fill="none" />
+      <text x={4} y={padding} className="fill-gray-400 text-[10px]">{maxRR} ms</text>
+      <text x={4} y={height - padding} className="fill-gray-400 text-[10px]">{minRR} ms</text>
+    </svg>
+  );
+}
+
+function PoincarePlot({ poincare }: { poincare: PoincareResult }) {
+  const { height } = PLOT_SIZE;
+  const size = height;
+  const padding = 24;
+
+  const { lo, hi } = useMemo(() => {
+    const all = poincare.points.flatMap(p => [p.x, p.y]);
+    return {
+      lo: Math.floor(Math.min(...all) / 50) * 50,
+      hi: Math.ceil(Math.max(...all) / 50) * 50
+    };
+  }, [poincare.points]);
+
+  const scale = (v: number) => padding + ((v - lo) / Math.max(1, hi - lo)) * (size - 2 * padding);
+
+  return (
+    <svg width={size} height={size} className="bg-black/20 rounded-lg" role="img" aria-label="Poincaré plot">
+      {/* Identity line */}
+      <line
+        x1={scale(lo)} y1={size - scale(lo)}
+        x2={scale(hi)} y2={size - scale(hi)}
+        stroke="rgba(255,255,255,0.2)" strokeDasharray="4 4"
+      />
+      {poincare.points.map((p, i) => (
+        <circle key={i} cx={scale(p.x)} cy={size - scale(p.y)} r={1.5} fill="#a78bfa" fillOpacity={0.6} />
+      ))}
+      <text x={padding} y={size - 6} className="fill-gray-400 text-[10px]">RRn</text>
+      <text x={4} y={padding - 8} className="fill-gray-400 text-[10px]">RRn+1</text>
+    </svg>
+  );
+}
+
+export default HRVPanel;
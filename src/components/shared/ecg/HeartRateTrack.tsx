@@ -0,0 +1,90 @@
+/**
+ * HeartRateTrack.tsx
+ *
+ * Beat-by-beat instantaneous heart rate trace for the ECG viewer.
+ * Drawn with SVG, positioned on the same time axis as the ECG plots.
+ * The line is broken wherever a beat has no RR interval (lead-off or
+ * poor-quality gaps), so we never interpolate across untrusted data.
+ */
+
+import { useMemo } from 'react';
+import type { DetectedBeat } from '@/lib/ecg/beatDetection';
+
+interface HeartRateTrackProps {
+  beats: DetectedBeat[];
+  timeStart: string;
+  timeEnd: string;
+  width?: number;
+  height?: number;
+  color?: string;
+}
+
+export function HeartRateTrack({
+  beats,
+  timeStart,
+  timeEnd,
+  width = 800,
+  height = 80,
+  color = '#f87171'
+}: HeartRateTrackProps) {
+  const padding = 8;
+  const startMs = new Date(timeStart).getTime();
+  const endMs = new Date(timeEnd).getTime();
+
+  const rated = useMemo(
+    () => beats.filter((b): b is DetectedBeat & { heartRate: number } => b.heartRate !== null),
+    [beats]
+  );
+
+  // Round the y-range out to 10 bpm so the axis labels stay readable
+  const minY = rated.length ? Math.floor(Math.min(...rated.map(b => b.heartRate)) / 10) * 10 : 40;
+  const maxY = rated.length ? Math.ceil(Math.max(...rated.map(b => b.heartRate)) / 10) * 10 : 120;
+
+  const path = useMemo(() => {
+    const span = Math.max(1, endMs - startMs);
+    const range = Math.max(1, maxY - minY);
+    let d = '';
+    let penDown = false;
+    beats.forEach(beat => {
+      if (beat.heartRate === null) {
+        penDown = false;
+        return;
+      }
+      const x = ((beat.time - startMs) / span) * (width - 2 * padding) + padding;
+      const y = height - padding - ((beat.heartRate - minY) / range) * (height - 2 * padding);
+      d += `${penDown ? 'L' : 'M'} ${x.toFixed(1)} ${y.toFixed(1)} `;
+      penDown = true;
+    });
+    return d.trim();
+  }, [beats, startMs, endMs, minY, maxY, width, height]);
+
+  if (!rated.length) {
+    return (
+      <div
+        style={{ width, height }}
+        className="flex items-center justify-center bg-white/5 border border-white/10 rounded-lg text-xs text-gray-400"
+      >
+        No heart rate available for this window
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="relative bg-gray-900/60 border border-gray-700/50 rounded-lg"
+      style={{ width, height }}
+      role="img"
+      aria-label="Instantaneous heart rate trace"
+    >
+      <svg width={width} height={height}>
+        <path d={path} stroke={color} strokeWidth={1.5} fill="none" />
+      </svg>
+      <div className="absolute top-1 left-2 text-xs font-medium text-gray-300">
+        {maxY} bpm
+      </div>
+      <div className="absolute bottom-1 left-2 text-xs text-gray-500">
+        {minY} bpm
+      </div>
+    </div>
+  );
+}
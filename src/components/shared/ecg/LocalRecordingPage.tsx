@@ -0,0 +1,261 @@
+/**
+ * LocalRecordingPage.tsx
+ *
+ * Review session for ECG files from other vendors (ISHNE 1.0 Holter
+ * files). Files are parsed in the browser and kept in memory as local
+ * recordings; the viewer runs under the memory data source, so
+ * MainECGViewer reads them through the same ECGSample shape as pod data.
+ * Nothing is uploaded, and recordings are gone on reload.
+ */
+
+import { useState } from 'react';
+import { AlertTriangle, FileUp, FolderOpen, Trash2 } from 'lucide-react';
+import MainECGViewer from './MainECGViewer';
+import { EcgDataSourceProvider } from '@/context/EcgDataSourceContext';
+import { createMemoryDataSource } from '@/lib/ecg/dataSource/memory';
+import { ISHNEParseError, parseISHNE } from '@/lib/ecg/formats/ishne';
+import { addLocalRecording, listLocalRecordings, removeLocalRecording } from '@/lib/ecg/localRecordings';
+import type { LocalRecording } from '@/lib/ecg/localRecordings';
+import { logger } from '@/lib/logger';
+
+const memorySource = createMemoryDataSource();
+
+const WINDOW_SPANS = [
+  { seconds: 10, label: '10 s' },
+  { seconds: 60, label: '1 min' },
+  { seconds: 300, label: '5 min' },
+  { seconds: 900, label: '15 min' }
+];
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours ? `${hours}h ${minutes}m` : `${minutes}m ${seconds}s`;
+}
+
+// datetime-local wants local wall-clock time without a zone
+function toLocalInput(ms: number): string {
+  const d = new Date(ms - new Date(ms).getTimezoneOffset() * 60000);
+  return d.toISOString().slice(0, 19);
+}
+
+export default function LocalRecordingPage() {
+  const [recordings, setRecordings] = useState<LocalRecording[]>(() => listLocalRecordings());
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(() => listLocalRecordings()[0]?.id ?? null);
+  const [windowStart, setWindowStart] = useState<number | null>(null);
+  const [spanSeconds, setSpanSeconds] = useState(10);
+  const [viewer, setViewer] = useState<{ id: string; start: string; end: string } | null>(null);
+
+  const selected = recordings.find(r => r.id === selectedId) ?? null;
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      const recording = parseISHNE(await file.arrayBuffer());
+      if (recording.header.sampleCount === 0) {
+        throw new ISHNEParseError('The file has no ECG samples');
+      }
+      const local = addLocalRecording(file.name, recording);
+      logger.info('[LocalRecordingPage] Opened local recording', {
+        name: file.name,
+        leads: recording.leads.length,
+        samplingRate: recording.header.samplingRate,
+        samples: recording.header.sampleCount
+      });
+      setRecordings(listLocalRecordings());
+      setSelectedId(local.id);
+      setWindowStart(local.startTime);
+    } catch (err) {
+      setError(err instanceof ISHNEParseError ? err.message : `Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    removeLocalRecording(id);
+    const remaining = listLocalRecordings();
+    setRecordings(remaining);
+    if (selectedId === id) {
+      setSelectedId(remaining[0]?.id ?? null);
+      setWindowStart(remaining[0]?.startTime ?? null);
+    }
+    if (viewer?.id === id) setViewer(null);
+  };
+
+  const openViewer = () => {
+    if (!selected) return;
+    const start = Math.min(
+      Math.max(windowStart ?? selected.startTime, selected.startTime),
+      Math.max(selected.startTime, selected.endTime - spanSeconds * 1000)
+    );
+    setViewer({
+      id: selected.id,
+      start: new Date(start).toISOString(),
+      end: new Date(Math.min(selected.endTime, start + spanSeconds * 1000)).toISOString()
+    });
+  };
+
+  return (
+    <div className="space-y-6 text-white">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <FolderOpen className="h-6 w-6 text-blue-400" />
+            Local Recordings
+          </h1>
+          <p className="text-sm text-gray-400">
+            Open ISHNE Holter files from disk to review them next to pod data. Files stay in this browser and are not uploaded.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-lg text-white font-medium cursor-pointer transition-colors">
+          <FileUp className="h-4 w-4" />
+          {isLoading ? 'Reading…' : 'Open ISHNE file'}
+          <input
+            type="file"
+            accept=".ecg,.ishne,.ish"
+            className="hidden"
+            disabled={isLoading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-sm text-red-300" role="alert">
+          {error}
+        </div>
+      )}
+
+      {recordings.length === 0 && !error && (
+        <div className="bg-white/5 rounded-xl p-6 text-sm text-gray-400">
+          No local recordings open.
+        </div>
+      )}
+
+      {recordings.length > 0 && (
+        <div className="bg-white/5 rounded-xl p-4 overflow-x-auto">
+          <table className="min-w-full divide-y divide-white/10">
+            <thead>
+              <tr className="bg-white/5">
+                {['File', 'Subject', 'Recorder', 'Start', 'Duration', 'Rate', 'Leads', ''].map(label => (
+                  <th key={label} className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {recordings.map(r => {
+                const { header, leads, channelLeads, crcValid } = r.recording;
+                return (
+                  <tr
+                    key={r.id}
+                    onClick={() => {
+                      setSelectedId(r.id);
+                      setWindowStart(r.startTime);
+                    }}
+                    className={`cursor-pointer transition ${r.id === selectedId ? 'bg-blue-500/10' : 'hover:bg-white/5'}`}
+                  >
+                    <td className="px-4 py-2 text-sm text-gray-200">
+                      <span className="flex items-center gap-1.5">
+                        {r.name}
+                        {!crcValid && (
+                          <span title="Header checksum does not match; the file may be damaged">
+                            <AlertTriangle className="h-4 w-4 text-amber-400" />
+                          </span>
+                        )}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-300">{header.subjectId || '—'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-300">{header.recorder || '—'}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">
+                      {header.startTime ? new Date(r.startTime).toLocaleString() : 'Not recorded'}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">{formatDuration(r.endTime - r.startTime)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">{header.samplingRate} Hz</td>
+                    <td className="px-4 py-2 text-sm text-gray-300" title={`File leads: ${leads.map(l => l.name).join(', ')}`}>
+                      {channelLeads.map((lead, c) => `Ch${c + 1}: ${lead === null ? '—' : leads[lead].name}`).join(' · ')}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRemove(r.id);
+                        }}
+                        className="p-1 rounded hover:bg-white/10 text-gray-400 hover:text-red-400"
+                        aria-label="Close recording"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-white/5 rounded-xl p-4 flex flex-wrap items-end gap-4">
+          <div className="flex flex-col gap-1">
+            <label htmlFor="local-window-start" className="text-xs text-gray-400">Window start</label>
+            <input
+              id="local-window-start"
+              type="datetime-local"
+              step={1}
+              min={toLocalInput(selected.startTime)}
+              max={toLocalInput(selected.endTime)}
+              value={toLocalInput(windowStart ?? selected.startTime)}
+              onChange={(e) => {
+                const ms = new Date(e.target.value).getTime();
+                if (!Number.isNaN(ms)) setWindowStart(ms);
+              }}
+              className="px-3 py-2 bg-gray-700 rounded-lg text-white border border-gray-600 focus:border-blue-500 outline-none"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="local-window-span" className="text-xs text-gray-400">Window</label>
+            <select
+              id="local-window-span"
+              value={spanSeconds}
+              onChange={(e) => setSpanSeconds(Number(e.target.value))}
+              className="px-3 py-2 bg-gray-700 rounded-lg text-white border border-gray-600 focus:border-blue-500 outline-none"
+            >
+              {WINDOW_SPANS.map(span => (
+                <option key={span.seconds} value={span.seconds}>{span.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={openViewer}
+            className="px-4 py-2 bg-blue-500/20 text-blue-300 rounded-lg hover:bg-blue-500/30"
+          >
+            View ECG
+          </button>
+        </div>
+      )}
+
+      {viewer && (
+        <EcgDataSourceProvider source={memorySource}>
+          <MainECGViewer
+            podId={viewer.id}
+            timeStart={viewer.start}
+            timeEnd={viewer.end}
+            onClose={() => setViewer(null)}
+          />
+        </EcgDataSourceProvider>
+      )}
+    </div>
+  );
+}
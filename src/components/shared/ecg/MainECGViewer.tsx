@@ -8,13 +8,44 @@
 import React, { useEffect, useRef, useMemo, useState } from 'react'
 import { 
     X, AlertTriangle, Heart, Activity, Zap, 
-    Download, Link, Link2Off, Maximize, Minimize 
+    Download, Link, Link2Off, Maximize, Minimize, SlidersHorizontal, Grid3x3, Ruler, Tag, FileCode 
 } from 'lucide-react'
-import { useECG, useECGDiagnostics } from '@/hooks/api/ecg'
+import { useECG, useECGDiagnostics, useBeatDetection } from '@/hooks/api/ecg'
+import { useStudyMeasurements, useSaveMeasurement } from '@/hooks/api/study/useStudyMeasurements'
+import { formatMeasurementsCsv } from '@/lib/ecg/calipers'
+import type { CaliperMeasurement } from '@/lib/ecg/calipers'
+import { useStudyAnnotations, useCreateAnnotation } from '@/hooks/api/study/useStudyAnnotations'
+import type { AnnotationDraft } from '@/lib/ecg/annotations'
 import { AdvancedECGPlot } from './AdvancedECGPlot'
+import { HeartRateTrack } from './HeartRateTrack'
+import { ECGFilterControls } from './ECGFilterControls'
+import { ECGOverviewStrip } from './ECGOverviewStrip'
+import { ECGPaperControls } from './ECGPaperControls'
+import { ECGStripControls } from './ECGStripControls'
+import { useViewerPreferences } from '@/hooks/api/store/viewerPreferences'
+import { DEFAULT_PX_PER_MM } from '@/lib/ecg/paper'
+import type { PaperSettings } from '@/lib/ecg/paper'
+import { computeHRV, formatHRVCsv } from '@/lib/ecg/hrv'
+import { estimateSamplingRate } from '@/lib/ecg/beatDetection'
+import {
+    filterSamples, describeFilterSettings,
+    DEFAULT_FILTER_SETTINGS, NO_CHANNELS_FILTERED
+} from '@/lib/ecg/filters'
+import type { ECGFilterSettings, ChannelFilterToggles } from '@/lib/ecg/filters'
+import { downloadBlob } from '@/lib/utils/download'
+
+const LEAD_LABELS: Record<1 | 2 | 3, string> = {
+    1: 'Lead I',
+    2: 'Lead II',
+    3: 'Lead III'
+};
 
 interface MainECGViewerProps {
     podId: string;
+    /** Study the window belongs to; measurements and annotations are saved against it */
+    studyId?: string;
+    /** Trial subject written to aECG exports */
+    subjectId?: string | null;
     timeStart: string;
     timeEnd: string;
     onClose: () => void;
@@ -22,11 +53,30 @@ interface MainECGViewerProps {
 
 export default function MainECGViewer({
     podId,
-    timeStart,
-    timeEnd,
+    studyId,
+    subjectId,
+    timeStart: initialTimeStart,
+    timeEnd: initialTimeEnd,
     onClose
 }: MainECGViewerProps) {
     const scrollRef = useRef<HTMLDivElement>(null);
+
+    // Window shown in the lead plots; the overview strip can move it
+    const [viewWindow, setViewWindow] = useState({ start: initialTimeStart, end: initialTimeEnd });
+    useEffect(() => {
+        setViewWindow({ start: initialTimeStart, end: initialTimeEnd });
+    }, [initialTimeStart, initialTimeEnd]);
+    const timeStart = viewWindow.start;
+    const timeEnd = viewWindow.end;
+
+    // The overview strip navigates the whole day(s) around the initial window
+    const dayBounds = useMemo(() => {
+        const start = new Date(initialTimeStart);
+        start.setHours(0, 0, 0, 0);
+        const end = new Date(initialTimeEnd);
+        end.setHours(24, 0, 0, 0);
+        return { start: start.getTime(), end: end.getTime() };
+    }, [initialTimeStart, initialTimeEnd]);
     const [showDiagnostics, setShowDiagnostics] = useState(true);
     
     // Shared state for synchronized plots
@@ -34,12 +84,55 @@ export default function MainECGViewer({
     const [sharedScaleX, setSharedScaleX] = useState(1);
     const [sharedTranslateX, setSharedTranslateX] = useState(0);
     const [colorBlindMode, setColorBlindMode] = useState(false);
+
+    // Display filter chain, shared settings with per-channel toggles
+    const [showFilters, setShowFilters] = useState(false);
+    const [filterSettings, setFilterSettings] = useState<ECGFilterSettings>(DEFAULT_FILTER_SETTINGS);
+    const [filteredChannels, setFilteredChannels] = useState<ChannelFilterToggles>(NO_CHANNELS_FILTERED);
+
+    // Calipers; measurements are saved to the study when there is one
+    const [caliperMode, setCaliperMode] = useState(false);
+    const { measurements } = useStudyMeasurements(studyId);
+    const saveMeasurement = useSaveMeasurement();
+    const handleSaveMeasurement = studyId
+        ? (measurement: CaliperMeasurement) => {
+            saveMeasurement.mutate({ studyId, podId, measurement });
+        }
+        : undefined;
+
+    // Annotations are drawn over the leads; brushing a range adds one
+    const [annotateMode, setAnnotateMode] = useState(false);
+    const { annotations } = useStudyAnnotations(studyId);
+    const createAnnotation = useCreateAnnotation();
+    const handleCreateAnnotation = studyId
+        ? (draft: AnnotationDraft) => {
+            createAnnotation.mutate({ studyId, podId, ...draft });
+        }
+        : undefined;
+
+    // Clinical paper mode comes from the saved viewer preferences
+    const [showPaper, setShowPaper] = useState(false);
+
+    // aECG export and strip bookmarks for the current window
+    const [showStrip, setShowStrip] = useState(false);
+    const { paperMode, paperSpeed, paperGain, pxPerMm } = useViewerPreferences();
+    const paper = useMemo<PaperSettings | undefined>(() => (
+        paperMode
+            ? { speed: paperSpeed, gain: paperGain, pxPerMm: pxPerMm ?? DEFAULT_PX_PER_MM }
+            : undefined
+    ), [paperMode, paperSpeed, paperGain, pxPerMm]);
     
     // Load ECG data
+    // Chunks are drawn as they stream in; a new range cancels the old stream
     const {
         samples,
         isLoading: dataLoading,
-        error: dataError
+        error: dataError,
+        isStreaming,
+        isCancelled,
+        progress: streamProgress,
+        cancel: cancelStream,
+        refetch: resumeStream
     } = useECG({
         pod_id: podId,
         time_start: timeStart,
@@ -58,7 +151,10 @@ export default function MainECGViewer({
         time_end: timeEnd
     });
 
-    // Function to download ECG data as CSV
+    // Detect R-peaks on the best usable channel
+    const beatDetection = useBeatDetection(samples);
+
+    // Function to download ECG data as CSV (filtered channels as displayed)
     const handleDownloadECG = () => {
         if (!samples || samples.length === 0) {
             console.error('No ECG data available for download');
@@ -66,11 +162,23 @@ export default function MainECGViewer({
         }
         
         try {
+            const samplingRate = estimateSamplingRate(samples);
+            const exportSamples = filterSamples(samples, samplingRate, filterSettings, filteredChannels);
+
+            // Metadata lines so the export can be reproduced
+            const metadata = {
+                pod_id: podId,
+                time_start: timeStart,
+                time_end: timeEnd,
+                ...describeFilterSettings(filterSettings, filteredChannels, samplingRate, samples.length)
+            };
+            const csvMeta = Object.entries(metadata).map(([key, value]) => `# ${key},${value}`).join('\n') + '\n';
+
             // Create CSV header
             const csvHeader = 'Time,Channel1,Channel2,Channel3,LeadOnP1,LeadOnP2,LeadOnP3,LeadOnN1,LeadOnN2,LeadOnN3,Quality1,Quality2,Quality3\n';
             
             // Convert samples to CSV rows
-            const csvRows = samples.map(sample => {
+            const csvRows = exportSamples.map(sample => {
                 return [
                     sample.time,
                     sample.channels[0],
@@ -88,26 +196,53 @@ export default function MainECGViewer({
                 ].join(',');
             }).join('\n');
             
-            // Combine header and rows
-            const csvContent = `data:text/csv;charset=utf-8,${csvHeader}${csvRows}`;
-            
-            // Create download link
-            const encodedUri = encodeURI(csvContent);
-            const link = document.createElement('a');
-            link.setAttribute('href', encodedUri);
-            link.setAttribute('download', `ecg_${podId}_${new Date(timeStart).toISOString().slice(0,19).replace(/:/g,'-')}.csv`);
-            document.body.appendChild(link);
-            
-            // Trigger download
-            link.click();
-            
-            // Clean up
-            document.body.removeChild(link);
+            // Blob rather than a data: URI, which would cut the file at the first '#'
+            downloadBlob(
+                `${csvMeta}${csvHeader}${csvRows}`,
+                `ecg_${podId}_${new Date(timeStart).toISOString().slice(0,19).replace(/:/g,'-')}.csv`,
+                'text/csv'
+            );
         } catch (error) {
             console.error('Error downloading ECG data:', error);
         }
     };
 
+    // Saved caliper measurements inside the window, downloaded as their own CSV
+    const windowMeasurements = useMemo(() => {
+        const windowStart = Date.parse(timeStart);
+        const windowEnd = Date.parse(timeEnd);
+        return measurements.filter(m => Date.parse(m.start_time) >= windowStart && Date.parse(m.end_time) <= windowEnd);
+    }, [measurements, timeStart, timeEnd]);
+
+    const handleDownloadMeasurements = () => {
+        if (!windowMeasurements.length) return;
+        const csv = formatMeasurementsCsv(windowMeasurements, {
+            pod_id: podId,
+            study_id: studyId ?? null,
+            time_start: timeStart,
+            time_end: timeEnd
+        });
+        downloadBlob(csv, `measurements_${podId}_${new Date(timeStart).toISOString().slice(0,19).replace(/:/g,'-')}.csv`, 'text/csv');
+    };
+
+    // HRV over the beats detected in this window
+    const hrv = useMemo(
+        () => (beatDetection.beats.length ? computeHRV(beatDetection.beats) : null),
+        [beatDetection.beats]
+    );
+
+    // Download HRV metrics and RR intervals alongside the raw CSV
+    const handleDownloadHRV = () => {
+        if (!hrv) return;
+        const csv = formatHRVCsv(hrv, {
+            pod_id: podId,
+            time_start: timeStart,
+            time_end: timeEnd,
+            detection_channel: beatDetection.channel
+        });
+        downloadBlob(csv, `hrv_${podId}_${new Date(timeStart).toISOString().slice(0,19).replace(/:/g,'-')}.csv`, 'text/csv');
+    };
+
     // Calculate quality metrics
     const qualityMetrics = useMemo(() => {
         if (!samples.length) return null;
@@ -240,6 +375,33 @@ export default function MainECGViewer({
                                 </div>
                             </div>
                         )}
+                        <div className="flex flex-wrap items-center gap-4 text-sm">
+                            {beatDetection.heartRate ? (
+                                <div className="text-gray-400 flex items-center gap-1" title="Min / mean / max instantaneous heart rate">
+                                    <Heart className="h-4 w-4 text-red-400" />
+                                    HR: {Math.round(beatDetection.heartRate.min)} / {Math.round(beatDetection.heartRate.mean)} / {Math.round(beatDetection.heartRate.max)} bpm
+                                </div>
+                            ) : (
+                                <div className="text-gray-500 flex items-center gap-1">
+                                    <Heart className="h-4 w-4" />
+                                    HR: not available
+                                </div>
+                            )}
+                            {beatDetection.channel ? (
+                                <div
+                                    className={`flex items-center gap-1 ${beatDetection.fellBack ? 'text-amber-400' : 'text-gray-400'}`}
+                                    title={beatDetection.fellBack ? 'Preferred lead unusable (lead-off or poor quality), fell back to another lead' : undefined}
+                                >
+                                    {beatDetection.fellBack && <AlertTriangle className="h-4 w-4" />}
+                                    Beats on {LEAD_LABELS[beatDetection.channel]} ({beatDetection.beats.length})
+                                </div>
+                            ) : (
+                                <div className="text-amber-400 flex items-center gap-1">
+                                    <AlertTriangle className="h-4 w-4" />
+                                    No lead usable for beat detection
+                                </div>
+                            )}
+                        </div>
                     </div>
                     <div className="flex items-center gap-2">
                         <button
@@ -254,6 +416,88 @@ export default function MainECGViewer({
                             {syncEnabled ? <Link className="h-4 w-4" /> : <Link2Off className="h-4 w-4" />}
                             {syncEnabled ? 'Synced' : 'Unsynced'}
                         </button>
+                        <button
+                            onClick={() => setShowFilters(prev => !prev)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-medium transition-colors ${
+                                showFilters || Object.values(filteredChannels).some(Boolean)
+                                    ? 'bg-emerald-500/20 text-emerald-300' 
+                                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            }`}
+                            title={showFilters ? "Hide filter settings" : "Show filter settings"}
+                            aria-expanded={showFilters}
+                        >
+                            <SlidersHorizontal className="h-4 w-4" />
+                            Filters
+                        </button>
+                        <button
+                            onClick={() => {
+                                setCaliperMode(prev => !prev);
+                                setAnnotateMode(false);
+                            }}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-medium transition-colors ${
+                                caliperMode 
+                                    ? 'bg-amber-500/20 text-amber-300' 
+                                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            }`}
+                            title={caliperMode ? "Back to pan and zoom" : "Measure intervals and amplitudes"}
+                            aria-pressed={caliperMode}
+                        >
+                            <Ruler className="h-4 w-4" />
+                            Calipers
+                        </button>
+                        {saveMeasurement.isError && (
+                            <span className="text-xs text-red-400" role="alert">Measurement not saved</span>
+                        )}
+                        <button
+                            onClick={() => {
+                                setAnnotateMode(prev => !prev);
+                                setCaliperMode(false);
+                            }}
+                            disabled={!studyId}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-medium transition-colors disabled:opacity-50 ${
+                                annotateMode 
+                                    ? 'bg-blue-500/20 text-blue-300' 
+                                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            }`}
+                            title={
+                                !studyId
+                                    ? "Annotations need a study"
+                                    : annotateMode ? "Back to pan and zoom" : "Drag across a lead to annotate a range"
+                            }
+                            aria-pressed={annotateMode}
+                        >
+                            <Tag className="h-4 w-4" />
+                            Annotate
+                        </button>
+                        {createAnnotation.isError && (
+                            <span className="text-xs text-red-400" role="alert">Annotation not saved</span>
+                        )}
+                        <button
+                            onClick={() => setShowPaper(prev => !prev)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-medium transition-colors ${
+                                showPaper || paperMode
+                                    ? 'bg-rose-500/20 text-rose-300' 
+                                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            }`}
+                            title={showPaper ? "Hide paper settings" : "Show paper settings"}
+                            aria-expanded={showPaper}
+                        >
+                            <Grid3x3 className="h-4 w-4" />
+                            Paper
+                        </button>
+                        <button
+                            onClick={() => setShowStrip(prev => !prev)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-medium transition-colors ${
+                                showStrip 
+                                    ? 'bg-cyan-500/20 text-cyan-300' 
+                                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            }`}
+                            title={showStrip ? "Hide strip export" : "Export or bookmark this window as a strip"}
+                            aria-expanded={showStrip}
+                        >
+                            <FileCode className="h-4 w-4" />
+                            Strip
+                        </button>
                         <button
                             onClick={toggleDiagnostics}
                             className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-medium transition-colors ${
@@ -276,6 +520,26 @@ export default function MainECGViewer({
                             <Download className="h-4 w-4" />
                             Download
                         </button>
+                        <button
+                            onClick={handleDownloadHRV}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 
+                                     rounded-lg text-gray-200 font-medium transition-colors disabled:opacity-50"
+                            disabled={!hrv?.timeDomain}
+                            title="Download HRV metrics and RR intervals as CSV"
+                        >
+                            <Download className="h-4 w-4" />
+                            HRV
+                        </button>
+                        <button
+                            onClick={handleDownloadMeasurements}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 
+                                     rounded-lg text-gray-200 font-medium transition-colors disabled:opacity-50"
+                            disabled={!windowMeasurements.length}
+                            title="Download the caliper measurements in this window as CSV"
+                        >
+                            <Download className="h-4 w-4" />
+                            Measurements
+                        </button>
                         <button 
                             onClick={onClose} 
                             className="p-1.5 hover:bg-white/10 rounded-lg transition-colors"
@@ -286,15 +550,93 @@ export default function MainECGViewer({
                     </div>
                 </div>
 
+                {showFilters && (
+                    <div className="mb-4">
+                        <ECGFilterControls
+                            settings={filterSettings}
+                            channels={filteredChannels}
+                            onSettingsChange={setFilterSettings}
+                            onChannelsChange={setFilteredChannels}
+                        />
+                    </div>
+                )}
+
+                {showPaper && (
+                    <div className="mb-4">
+                        <ECGPaperControls />
+                    </div>
+                )}
+
+                {showStrip && (
+                    <div className="mb-4">
+                        <ECGStripControls
+                            podId={podId}
+                            studyId={studyId}
+                            subjectId={subjectId}
+                            timeStart={timeStart}
+                            timeEnd={timeEnd}
+                        />
+                    </div>
+                )}
+
+                {(isStreaming || isCancelled) && (
+                    <div className="mb-4 flex items-center gap-3 text-sm" role="status">
+                        <div className="flex-1 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full transition-all ${isCancelled ? 'bg-amber-400' : 'bg-blue-400'}`}
+                                style={{ width: `${streamProgress.total ? (streamProgress.loaded / streamProgress.total) * 100 : 0}%` }}
+                            />
+                        </div>
+                        <span className={isCancelled ? 'text-amber-400' : 'text-gray-400'}>
+                            {isCancelled ? 'Stopped at' : 'Loading'} chunk {streamProgress.loaded} of {streamProgress.total}
+                        </span>
+                        {isCancelled ? (
+                            <button
+                                onClick={() => resumeStream()}
+                                className="px-2 py-1 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+                            >
+                                Load rest
+                            </button>
+                        ) : (
+                            <button
+                                onClick={cancelStream}
+                                className="px-2 py-1 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                    </div>
+                )}
+
                 {/* Main content */}
                 <div className="flex flex-col lg:flex-row gap-6">
                     {/* ECG Plots */}
                     <div className="flex-1 space-y-6">
+                        <ECGOverviewStrip
+                            podId={podId}
+                            dayStart={dayBounds.start}
+                            dayEnd={dayBounds.end}
+                            initialStart={Date.parse(timeStart)}
+                            initialEnd={Date.parse(timeEnd)}
+                            width={800}
+                            onSelectWindow={(start, end) => setViewWindow({
+                                start: new Date(start).toISOString(),
+                                end: new Date(end).toISOString()
+                            })}
+                        />
+                        <HeartRateTrack
+                            beats={beatDetection.beats}
+                            timeStart={timeStart}
+                            timeEnd={timeEnd}
+                            width={800}
+                            height={80}
+                        />
                         <AdvancedECGPlot
                             pod_id={podId}
                             time_start={timeStart}
                             time_end={timeEnd}
                             channel={1}
+                            filter={filteredChannels[1] ? filterSettings : undefined}
                             label="Lead I"
                             width={800}
                             height={200}
@@ -305,12 +647,20 @@ export default function MainECGViewer({
                             onScaleChange={setSharedScaleX}
                             onTranslateChange={setSharedTranslateX}
                             syncEnabled={syncEnabled}
+                            beatIndices={beatDetection.beatIndices}
+                            paper={paper}
+                            caliperMode={caliperMode}
+                            onSaveMeasurement={handleSaveMeasurement}
+                            annotations={annotations}
+                            annotateMode={annotateMode}
+                            onCreateAnnotation={handleCreateAnnotation}
                         />
                         <AdvancedECGPlot
                             pod_id={podId}
                             time_start={timeStart}
                             time_end={timeEnd}
                             channel={2}
+                            filter={filteredChannels[2] ? filterSettings : undefined}
                             label="Lead II"
                             width={800}
                             height={200}
@@ -321,12 +671,20 @@ export default function MainECGViewer({
                             onScaleChange={setSharedScaleX}
                             onTranslateChange={setSharedTranslateX}
                             syncEnabled={syncEnabled}
+                            beatIndices={beatDetection.beatIndices}
+                            paper={paper}
+                            caliperMode={caliperMode}
+                            onSaveMeasurement={handleSaveMeasurement}
+                            annotations={annotations}
+                            annotateMode={annotateMode}
+                            onCreateAnnotation={handleCreateAnnotation}
                         />
                         <AdvancedECGPlot
                             pod_id={podId}
                             time_start={timeStart}
                             time_end={timeEnd}
                             channel={3}
+                            filter={filteredChannels[3] ? filterSettings : undefined}
                             label="Lead III"
                             width={800}
                             height={200}
@@ -337,6 +695,13 @@ export default function MainECGViewer({
                             onScaleChange={setSharedScaleX}
                             onTranslateChange={setSharedTranslateX}
                             syncEnabled={syncEnabled}
+                            beatIndices={beatDetection.beatIndices}
+                            paper={paper}
+                            caliperMode={caliperMode}
+                            onSaveMeasurement={handleSaveMeasurement}
+                            annotations={annotations}
+                            annotateMode={annotateMode}
+                            onCreateAnnotation={handleCreateAnnotation}
                         />
                     </div>
 
@@ -0,0 +1,150 @@
+/**
+ * ECGRendererBenchmark.tsx
+ *
+ * Dev-only page comparing frame times of the WebGL and Canvas2D ECG
+ * renderers on synthetic traces of increasing length. Each backend gets
+ * its own canvas because a canvas can only hold one context type.
+ */
+import { useRef, useState } from 'react';
+import { Play } from 'lucide-react';
+import {
+  benchmarkRenderer,
+  createCanvas2DRenderer,
+  createWebGLRenderer,
+  makeSyntheticTrace
+} from '@/lib/ecg/renderers';
+import type { ECGRendererKind, FrameTimeStats } from '@/lib/ecg/renderers';
+
+const WIDTH = 800;
+const HEIGHT = 250;
+const SAMPLE_COUNTS = [8_000, 80_000, 320_000, 1_152_000];
+
+interface BenchmarkRow {
+  kind: ECGRendererKind;
+  samples: number;
+  stats: FrameTimeStats | null;
+}
+
+function formatMs(ms: number): string {
+  return ms.toFixed(2);
+}
+
+export default function ECGRendererBenchmark() {
+  const webglCanvasRef = useRef<HTMLCanvasElement>(null);
+  const canvas2dCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [frames, setFrames] = useState(120);
+  const [rows, setRows] = useState<BenchmarkRow[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const run = async () => {
+    const webglCanvas = webglCanvasRef.current;
+    const canvas2dCanvas = canvas2dCanvasRef.current;
+    if (!webglCanvas || !canvas2dCanvas) return;
+
+    setRunning(true);
+    setRows([]);
+    const webgl = createWebGLRenderer(webglCanvas);
+    const canvas2d = createCanvas2DRenderer(canvas2dCanvas);
+    const gl = webglCanvas.getContext('webgl');
+    const ctx = canvas2dCanvas.getContext('2d');
+
+    for (const samples of SAMPLE_COUNTS) {
+      const trace = makeSyntheticTrace(samples);
+      // Yield so each result paints before the next (blocking) run
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const webglStats = webgl
+        ? benchmarkRenderer(webgl, trace, { frames, width: WIDTH, height: HEIGHT, afterFrame: () => gl?.finish() })
+        : null;
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const canvas2dStats = canvas2d
+        ? benchmarkRenderer(canvas2d, trace, {
+            frames,
+            width: WIDTH,
+            height: HEIGHT,
+            // Reading a pixel forces the 2D context to flush
+            afterFrame: () => ctx?.getImageData(0, 0, 1, 1)
+          })
+        : null;
+      setRows(current => [
+        ...current,
+        { kind: 'webgl', samples, stats: webglStats },
+        { kind: 'canvas2d', samples, stats: canvas2dStats }
+      ]);
+    }
+
+    webgl?.dispose();
+    canvas2d?.dispose();
+    setRunning(false);
+  };
+
+  return (
+    <div className="p-4 space-y-4 text-gray-200">
+      <div className="flex items-center gap-3">
+        <h1 className="text-lg font-semibold">ECG renderer benchmark</h1>
+        <label className="text-sm text-gray-400 flex items-center gap-2">
+          Frames
+          <input
+            type="number"
+            min={10}
+            max={1000}
+            value={frames}
+            onChange={e => setFrames(Math.max(10, Number(e.target.value) || 10))}
+            className="w-20 bg-white/10 rounded px-2 py-1"
+          />
+        </label>
+        <button
+          onClick={run}
+          disabled={running}
+          className="flex items-center gap-1 px-3 py-1.5 rounded bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 disabled:opacity-40"
+        >
+          <Play className="h-4 w-4" />
+          {running ? 'Running…' : 'Run'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <div className="text-xs text-gray-400 mb-1">WebGL</div>
+          <canvas ref={webglCanvasRef} width={WIDTH} height={HEIGHT} className="bg-gray-900 rounded w-full" />
+        </div>
+        <div>
+          <div className="text-xs text-gray-400 mb-1">Canvas2D</div>
+          <canvas ref={canvas2dCanvasRef} width={WIDTH} height={HEIGHT} className="bg-gray-900 rounded w-full" />
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="text-gray-400 text-left">
+          <tr>
+            <th className="py-1">Backend</th>
+            <th>Samples</th>
+            <th>Mean (ms)</th>
+            <th>p50 (ms)</th>
+            <th>p95 (ms)</th>
+            <th>Max (ms)</th>
+            <th>FPS</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={`${row.kind}-${row.samples}`} className="border-t border-white/10">
+              <td className="py-1">{row.kind}</td>
+              <td>{row.samples.toLocaleString()}</td>
+              {row.stats ? (
+                <>
+                  <td>{formatMs(row.stats.meanMs)}</td>
+                  <td>{formatMs(row.stats.p50Ms)}</td>
+                  <td>{formatMs(row.stats.p95Ms)}</td>
+                  <td>{formatMs(row.stats.maxMs)}</td>
+                  <td>{row.stats.fps.toFixed(0)}</td>
+                </>
+              ) : (
+                <td colSpan={5} className="text-gray-500">unavailable in this browser</td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * EcgDataSourceContext.tsx
+ *
+ * Supplies the EcgDataSource that ECG hooks read from. The app root
+ * provides the default (Supabase, or synthetic in offline development);
+ * a page can wrap part of its tree in another provider, e.g. the local
+ * recording page serving files from memory.
+ */
+import React, { createContext, useContext } from 'react';
+import { createDefaultDataSource } from '@/lib/ecg/dataSource';
+import type { EcgDataSource } from '@/lib/ecg/dataSource';
+
+const defaultSource = createDefaultDataSource();
+
+const EcgDataSourceContext = createContext<EcgDataSource>(defaultSource);
+
+interface EcgDataSourceProviderProps {
+    source?: EcgDataSource;
+    children: React.ReactNode;
+}
+
+export function EcgDataSourceProvider({ source = defaultSource, children }: EcgDataSourceProviderProps) {
+    return (
+        <EcgDataSourceContext.Provider value={source}>
+            {children}
+        </EcgDataSourceContext.Provider>
+    );
+}
+
+export function useEcgDataSource(): EcgDataSource {
+    return useContext(EcgDataSourceContext);
+}
@@ -8,6 +8,11 @@ export * from './useECG';
 export * from './useECGAggregates';
 
 export { useAdvancedECG } from './useAdvancedECG';
+export { useBeatDetection } from './useBeatDetection';
+export { useHRV } from './useHRV';
+export { useArrhythmiaEvents } from './useArrhythmiaEvents';
+export { useECGTiles } from './useECGTiles';
+export { useECGCalipers } from './useECGCalipers';
 export { useECGAggregatorView } from './useECGAggregatorView';
 export { useECGTimeline } from './useECGTimeline';
 
@@ -15,3 +20,8 @@ export type { TimeInterval } from '@/types/domain/ecg';
 export type { UseECGAggregatorViewParams, UseECGAggregatorViewResult } from './useECGAggregatorView';
 export type { UseECGCanvasParams, UseECGCanvasResult } from './useECGCanvas';
 export type { UseECGTimelineParams, UseECGTimelineResult } from './useECGTimeline';
+export type { UseBeatDetectionResult } from './useBeatDetection';
+export type { UseHRVResult } from './useHRV';
+export type { UseArrhythmiaEventsResult } from './useArrhythmiaEvents';
+export type { UseECGTilesResult } from './useECGTiles';
+export type { UseECGCalipersResult, CaliperWithMeasurement } from './useECGCalipers';
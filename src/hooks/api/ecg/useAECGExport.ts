@@ -0,0 +1,140 @@
+/**
+ * FILE: src/hooks/api/ecg/useAECGExport.ts
+ *
+ * Exports ECG strips (time range plus leads) as one HL7 aECG XML document
+ * for trial sponsors. Each strip is fetched through forEachECGChunk, then
+ * all strips are serialized with the study's annotations. Progress covers
+ * the strips fetched so far and an export can be cancelled between windows.
+ */
+import { useCallback, useRef, useState } from 'react';
+import { logger } from '@/lib/logger';
+import { RAW_SAMPLE_RATE } from '@/lib/ecg/downsampling';
+import type { ECGChannel } from '@/lib/ecg/beatDetection';
+import { serializeAECG } from '@/lib/ecg/formats/aecg';
+import type { AECGStrip } from '@/lib/ecg/formats/aecg';
+import { downloadBlob } from '@/lib/utils/download';
+import type { ECGAnnotationRow } from '@/types/domain/ecg';
+import { useEcgDataSource } from '@/context/EcgDataSourceContext';
+import { forEachECGChunk } from './useECG';
+import type { ECGSample } from './useECG';
+import type { ECGExportSummary } from './useECGExport';
+
+export interface AECGStripRequest {
+  timeStart: string;
+  timeEnd: string;
+  channels: ECGChannel[];
+}
+
+export interface AECGExportRequest {
+  podId: string;
+  studyId: string;
+  subjectId?: string | null;
+  strips: AECGStripRequest[];
+  annotations?: ECGAnnotationRow[];
+  /** Decimation factor; the waveforms' sampling rate is 320 / factor */
+  factor?: number;
+  /** File name without extension */
+  filename: string;
+}
+
+export interface UseAECGExportResult {
+  exportStrips: (request: AECGExportRequest) => Promise<ECGExportSummary | null>;
+  cancel: () => void;
+  isExporting: boolean;
+  /** 0..1 of the strips fetched so far */
+  progress: number;
+  error: string | null;
+}
+
+const STRIP_CHUNK_MS = 10 * 60 * 1000;
+
+export function useAECGExport(): UseAECGExportResult {
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const source = useEcgDataSource();
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const exportStrips = useCallback(async ({
+    podId,
+    studyId,
+    subjectId,
+    strips,
+    annotations = [],
+    factor = 1,
+    filename
+  }: AECGExportRequest): Promise<ECGExportSummary | null> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsExporting(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      logger.info('[useAECGExport] Exporting strips', { podId, studyId, strips: strips.length, factor });
+
+      const loaded: AECGStrip[] = [];
+      for (const [index, strip] of strips.entries()) {
+        const samples: ECGSample[] = [];
+        await forEachECGChunk(
+          source,
+          { pod_id: podId, time_start: strip.timeStart, time_end: strip.timeEnd, factor, chunkMs: STRIP_CHUNK_MS },
+          chunk => chunk.forEach(sample => samples.push(sample)),
+          {
+            signal: controller.signal,
+            onProgress: fraction => setProgress((index + fraction) / strips.length)
+          }
+        );
+        loaded.push({
+          start: Date.parse(strip.timeStart),
+          end: Date.parse(strip.timeEnd),
+          channels: strip.channels,
+          samples
+        });
+      }
+
+      const result = serializeAECG({
+        documentId: crypto.randomUUID(),
+        studyId,
+        podId,
+        subjectId,
+        samplingRate: RAW_SAMPLE_RATE / factor,
+        strips: loaded,
+        annotations
+      });
+
+      const warnings: string[] = [];
+      if (result.emptyStrips > 0) {
+        warnings.push(`${result.emptyStrips} strip(s) had no data and were left out`);
+      }
+      if (result.splitStrips > 0) {
+        warnings.push(`${result.splitStrips} strip(s) had gaps and were split into several series`);
+      }
+
+      const file = `${filename}.xml`;
+      const blob = new Blob([result.xml], { type: 'application/xml' });
+      downloadBlob(blob, file, 'application/xml');
+      return { filename: file, bytes: blob.size, warnings };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        logger.info('[useAECGExport] Export cancelled', { podId });
+        return null;
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error('[useAECGExport] Export failed', { podId, error: message });
+      setError(message);
+      throw err;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsExporting(false);
+    }
+  }, [source]);
+
+  return { exportStrips, cancel, isExporting, progress, error };
+}
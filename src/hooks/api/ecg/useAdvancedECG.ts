@@ -1,6 +1,10 @@
-import { useECG } from './useECG';
+import { useMemo } from 'react';
+import { useECGBuffer } from './useECG';
 import { useECGCanvas } from './useECGCanvas';
-import type { ECGData } from '@/types/domain/ecg';
+import { applyFilterChain } from '@/lib/ecg/filters';
+import type { ECGFilterSettings } from '@/lib/ecg/filters';
+import { sampleBufferRate, withChannelValues } from '@/lib/ecg/sampleBuffer';
+import type { PaperSettings } from '@/lib/ecg/paper';
 
 interface UseAdvancedECGParams {
     pod_id: string;
@@ -19,6 +23,12 @@ interface UseAdvancedECGParams {
     onScaleChange?: (scale: number) => void;
     onTranslateChange?: (translate: number) => void;
     syncEnabled?: boolean;
+    // Sample indices of detected R-peaks
+    beatIndices?: number[];
+    // Display filter chain for this channel; raw trace when omitted
+    filter?: ECGFilterSettings;
+    // Clinical paper speed/gain; free scaling when omitted
+    paper?: PaperSettings;
 }
 
 export function useAdvancedECG({
@@ -37,43 +47,39 @@ export function useAdvancedECG({
     sharedTranslateX,
     onScaleChange,
     onTranslateChange,
-    syncEnabled = false
+    syncEnabled = false,
+    beatIndices,
+    filter,
+    paper
 }: UseAdvancedECGParams) {
-    // Fetch ECG data using the new hook
+    // Fetch the window as columns; the plot never needs per-sample objects.
+    // The canvas width picks the downsample method, unless a filter or beat
+    // marks need evenly spaced samples.
+    const evenlySpaced = Boolean(filter) || Boolean(beatIndices?.length);
     const {
-        samples,
-        chunks,
+        buffer,
         isLoading,
         error,
         refetch
-    } = useECG({
+    } = useECGBuffer({
         pod_id,
         time_start,
         time_end,
         factor,
-        enabled: true
+        enabled: true,
+        pixelWidth: evenlySpaced ? undefined : width
     });
 
-    // Transform samples to ECGData format
-    const ecgData: ECGData[] = samples.map(sample => ({
-        sample_time: sample.time,
-        downsampled_channel_1: sample.channels[0],
-        downsampled_channel_2: sample.channels[1],
-        downsampled_channel_3: sample.channels[2],
-        lead_on_p_1: sample.lead_on_p[0],
-        lead_on_p_2: sample.lead_on_p[1],
-        lead_on_p_3: sample.lead_on_p[2],
-        lead_on_n_1: sample.lead_on_n[0],
-        lead_on_n_2: sample.lead_on_n[1],
-        lead_on_n_3: sample.lead_on_n[2],
-        quality_1: sample.quality[0],
-        quality_2: sample.quality[1],
-        quality_3: sample.quality[2]
-    }));
+    // Apply the display filter chain to the plotted channel only
+    const displayBuffer = useMemo(() => {
+        if (!filter || !buffer.length) return buffer;
+        const values = applyFilterChain(Array.from(buffer.channels[channel - 1]), sampleBufferRate(buffer), filter);
+        return withChannelValues(buffer, channel, Float32Array.from(values));
+    }, [buffer, filter, channel]);
 
     // Use canvas hook for rendering
     const canvasProps = useECGCanvas({
-        data: ecgData,
+        buffer: displayBuffer,
         channel,
         width,
         height,
@@ -85,15 +91,16 @@ export function useAdvancedECG({
         sharedTranslateX,
         onScaleChange,
         onTranslateChange,
-        syncEnabled
+        syncEnabled,
+        beatIndices,
+        paper
     });
 
     return {
         ...canvasProps,
-        data: ecgData,
+        buffer: displayBuffer,
         isLoading,
         error,
-        refetch,
-        chunks
+        refetch
     };
 }
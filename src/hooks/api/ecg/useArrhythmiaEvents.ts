@@ -0,0 +1,81 @@
+/**
+ * FILE: src/hooks/api/ecg/useArrhythmiaEvents.ts
+ *
+ * Arrhythmia events over a long range (typically a study day). The range is
+ * walked one chunk at a time by scanArrhythmias — fetch, detect beats, drop
+ * the samples — so a full day never sits in memory. Chunks overlap, so a
+ * pause or run that straddles a boundary is still found.
+ */
+import { useQuery } from '@tanstack/react-query';
+import { logger } from '@/lib/logger';
+import { scanArrhythmias, thresholdsForStudyType } from '@/lib/ecg/arrhythmia';
+import type { ArrhythmiaEvent, ArrhythmiaThresholds } from '@/lib/ecg/arrhythmia';
+import { useEcgDataSource } from '@/context/EcgDataSourceContext';
+
+interface UseArrhythmiaEventsParams {
+  pod_id: string;
+  time_start: string;
+  time_end: string;
+  /** study.study_type, selects the threshold profile */
+  studyType?: string | null;
+  factor?: number;
+  chunkMs?: number;
+  enabled?: boolean;
+}
+
+export interface UseArrhythmiaEventsResult {
+  events: ArrhythmiaEvent[];
+  thresholds: ArrhythmiaThresholds;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+const DEFAULT_CHUNK_MS = 60 * 60 * 1000;
+
+export function useArrhythmiaEvents({
+  pod_id,
+  time_start,
+  time_end,
+  studyType,
+  factor = 4,
+  chunkMs = DEFAULT_CHUNK_MS,
+  enabled = true
+}: UseArrhythmiaEventsParams): UseArrhythmiaEventsResult {
+  const source = useEcgDataSource();
+  const thresholds = thresholdsForStudyType(studyType);
+
+  const { data, status, error, refetch } = useQuery({
+    queryKey: ['arrhythmia-events', source.id, pod_id, time_start, time_end, factor, thresholds],
+    queryFn: async ({ signal }) => {
+      logger.info('[useArrhythmiaEvents] Scanning range', { pod_id, time_start, time_end, studyType });
+
+      return scanArrhythmias(
+        (chunkStart, chunkEnd) => source.getRange(
+          {
+            pod_id,
+            time_start: new Date(chunkStart).toISOString(),
+            time_end: new Date(chunkEnd).toISOString(),
+            factor
+          },
+          signal
+        ),
+        Date.parse(time_start),
+        Date.parse(time_end),
+        chunkMs,
+        thresholds
+      );
+    },
+    enabled: enabled && Boolean(pod_id && time_start && time_end),
+    gcTime: 30 * 60 * 1000,
+    staleTime: Infinity // Stored samples don't change once uploaded
+  });
+
+  return {
+    events: data ?? [],
+    thresholds,
+    isLoading: enabled && status === 'pending',
+    error: error instanceof Error ? error.message : null,
+    refetch
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * FILE: src/hooks/api/ecg/useBeatDetection.ts
+ *
+ * Memoized R-peak detection over the samples returned by useECG.
+ */
+import { useMemo } from 'react';
+import { detectBeats } from '@/lib/ecg/beatDetection';
+import type { BeatDetectionOptions, BeatDetectionResult } from '@/lib/ecg/beatDetection';
+import type { ECGSample } from './useECG';
+
+export interface UseBeatDetectionResult extends BeatDetectionResult {
+  /** Sample indices of detected R-peaks, for drawing markers */
+  beatIndices: number[];
+}
+
+export function useBeatDetection(
+  samples: ECGSample[],
+  options: BeatDetectionOptions = {}
+): UseBeatDetectionResult {
+  const { preferredChannel, minUsableFraction, samplingRate, refractoryMs } = options;
+
+  return useMemo(() => {
+    const result = detectBeats(samples, {
+      preferredChannel,
+      minUsableFraction,
+      samplingRate,
+      refractoryMs
+    });
+    return {
+      ...result,
+      beatIndices: result.beats.map(b => b.index)
+    };
+  }, [samples, preferredChannel, minUsableFraction, samplingRate, refractoryMs]);
+}
@@ -1,13 +1,20 @@
 /**
  * FILE: src/hooks/api/ecg/useECG.ts
  * 
- * Hook for efficient ECG data loading from the downsample-ecg edge function.
- * Integrates with React Query for caching and handles the parallel array format
- * returned by the downsample_ecg function.
+ * Hook for efficient ECG data loading from the active EcgDataSource
+ * (downsample-ecg edge function in production, see lib/ecg/dataSource).
+ * Integrates with React Query for caching.
  */
-import { useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { isCancelledError, useQuery, useQueryClient } from '@tanstack/react-query';
 import { logger } from '@/lib/logger';
-import type { ECGData } from '@/types/domain/ecg';
+import { chooseDownsampleMethod } from '@/lib/ecg/downsampling';
+import type { DownsampleMethod } from '@/lib/ecg/downsampling';
+import { useEcgDataSource } from '@/context/EcgDataSourceContext';
+import { streamChunkSeconds } from '@/lib/ecg/dataSource/stream';
+import type { EcgDataSource } from '@/lib/ecg/dataSource';
+import { concatSampleBuffers, EMPTY_SAMPLE_BUFFER, sampleBufferToSamples } from '@/lib/ecg/sampleBuffer';
+import type { ECGSampleBuffer } from '@/lib/ecg/sampleBuffer';
 
 // Define the sample structure expected by the application
 export interface ECGSample {
@@ -51,6 +58,15 @@ export interface ECGDiagnosticChunk {
   };
 }
 
+/** A window as loaded so far; complete once chunksLoaded reaches chunksTotal */
+export interface ECGWindowData {
+  buffer: ECGSampleBuffer;
+  chunksLoaded: number;
+  chunksTotal: number;
+}
+
+const isComplete = (data?: ECGWindowData) => !!data && data.chunksLoaded >= data.chunksTotal;
+
 // Parameters for the hook
 interface UseECGDataParams {
   pod_id: string;
@@ -58,137 +74,162 @@ interface UseECGDataParams {
   time_end: string;
   factor?: number;
   enabled?: boolean;
+  /**
+   * Width of the target canvas in CSS pixels. When set, the downsample
+   * method and point budget are picked from it (see chooseDownsampleMethod).
+   * Leave unset for analyses that need evenly spaced samples.
+   */
+  pixelWidth?: number;
+  /** Explicit method; overrides the pixelWidth choice */
+  method?: DownsampleMethod;
+  max_points?: number;
 }
 
-// Interface matching the parallel arrays returned by downsample_ecg
-interface ParallelArrayECGData {
-  timestamps: string[];
-  channel_1: number[];
-  channel_2: number[];
-  channel_3: number[];
-  lead_on_p_1: boolean[];
-  lead_on_p_2: boolean[];
-  lead_on_p_3: boolean[];
-  lead_on_n_1: boolean[];
-  lead_on_n_2: boolean[];
-  lead_on_n_3: boolean[];
-  quality_1: boolean[];
-  quality_2: boolean[];
-  quality_3: boolean[];
+/**
+ * Walk a long range in consecutive windows, handing each window's samples
+ * to onChunk before the next is fetched, so a multi-hour export never
+ * holds the whole range as ECGSample objects. The windows come from the
+ * source's stream, so onProgress advances per chunk received.
+ */
+export async function forEachECGChunk(
+  source: EcgDataSource,
+  {
+    pod_id,
+    time_start,
+    time_end,
+    factor = 4,
+    chunkMs = 10 * 60 * 1000
+  }: { pod_id: string; time_start: string; time_end: string; factor?: number; chunkMs?: number },
+  onChunk: (samples: ECGSample[]) => void,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (fraction: number) => void } = {}
+): Promise<void> {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+  await source.streamRange(
+    { pod_id, time_start, time_end, factor, chunk_seconds: chunkMs / 1000 },
+    chunk => {
+      onChunk(sampleBufferToSamples(chunk.buffer));
+      onProgress?.((chunk.index + 1) / chunk.total);
+    },
+    signal
+  );
 }
 
 /**
- * Hook for loading ECG data directly from the downsample-ecg edge function
- * Returns data in the same format as the previous useChunkedECG for backward compatibility
+ * Hook for loading a window as an ECGSampleBuffer, the columnar form the
+ * canvas draws from. The Supabase source fetches it in the binary wire
+ * format, so no per-sample objects are created on the way.
+ *
+ * The window is streamed in chunks (see lib/ecg/dataSource/stream) and
+ * each chunk is written to the query cache as it arrives, so every plot
+ * sharing the query draws the part loaded so far. React Query aborts the
+ * stream when the last observer moves to another window and drops the
+ * partial data; cancel() stops it but keeps what has been drawn.
  */
-export function useECG({
+export function useECGBuffer({
   pod_id,
   time_start,
   time_end,
   factor = 4,
-  enabled = true
+  enabled = true,
+  pixelWidth,
+  method,
+  max_points
 }: UseECGDataParams) {
-  const queryKey = ['ecg-data', pod_id, time_start, time_end, factor];
+  const source = useEcgDataSource();
+  const queryClient = useQueryClient();
+  // Pixel buckets keep the key stable while a canvas is resized by a few px
+  const bucketedWidth = pixelWidth ? Math.ceil(pixelWidth / 100) * 100 : undefined;
+  const downsample = method
+    ? { method, max_points }
+    : bucketedWidth && time_start && time_end
+      ? chooseDownsampleMethod({ time_start, time_end, factor, pixelWidth: bucketedWidth })
+      : { method: undefined, max_points: undefined };
+
+  const queryKey = ['ecg-data', source.id, pod_id, time_start, time_end, factor, downsample.method, downsample.max_points];
 
   const {
     data,
     status,
+    fetchStatus,
     error,
     refetch
   } = useQuery({
     queryKey,
-    queryFn: async () => {
-      logger.info("[useECG] Fetching ECG data from edge function", {
-        pod_id, time_start, time_end, factor
+    queryFn: async ({ signal }): Promise<ECGWindowData> => {
+      const chunk_seconds = streamChunkSeconds(time_start, time_end);
+      logger.info("[useECG] Fetching ECG data", {
+        source: source.id, pod_id, time_start, time_end, factor, chunk_seconds, ...downsample
       });
 
+      // A refetch of a complete window keeps showing it until the new copy is in
+      const progressive = !isComplete(queryClient.getQueryData<ECGWindowData>(queryKey));
+      const buffers: ECGSampleBuffer[] = [];
+      let loaded: ECGWindowData = { buffer: EMPTY_SAMPLE_BUFFER, chunksLoaded: 0, chunksTotal: 1 };
       try {
-        // Call the downsample-ecg edge function directly
-        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/downsample-ecg`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-            'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
-            'x-client-info': 'ecg-lab-app',
-            'x-application-name': 'ecg-lab'
+        await source.streamRange(
+          { pod_id, time_start, time_end, factor, ...downsample, chunk_seconds },
+          chunk => {
+            buffers[chunk.index] = chunk.buffer;
+            loaded = { buffer: concatSampleBuffers(buffers), chunksLoaded: chunk.index + 1, chunksTotal: chunk.total };
+            if (progressive) queryClient.setQueryData<ECGWindowData>(queryKey, loaded);
           },
-          body: JSON.stringify({
-            pod_id,
-            time_start,
-            time_end,
-            factor
-          })
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => null);
-          throw new Error(errorData?.error || `Edge function returned status ${response.status}`);
-        }
-
-        const parallelData = await response.json() as ParallelArrayECGData;
-
-        // Transform the parallel arrays into our expected ECGSample format
-        const transformedSamples: ECGSample[] = [];
-        
-        if (parallelData.timestamps && Array.isArray(parallelData.timestamps)) {
-          for (let i = 0; i < parallelData.timestamps.length; i++) {
-            transformedSamples.push({
-              time: parallelData.timestamps[i],
-              channels: [
-                parallelData.channel_1?.[i] ?? 0,
-                parallelData.channel_2?.[i] ?? 0,
-                parallelData.channel_3?.[i] ?? 0
-              ],
-              lead_on_p: [
-                parallelData.lead_on_p_1?.[i] ?? false,
-                parallelData.lead_on_p_2?.[i] ?? false,
-                parallelData.lead_on_p_3?.[i] ?? false
-              ],
-              lead_on_n: [
-                parallelData.lead_on_n_1?.[i] ?? false,
-                parallelData.lead_on_n_2?.[i] ?? false,
-                parallelData.lead_on_n_3?.[i] ?? false
-              ],
-              quality: [
-                parallelData.quality_1?.[i] ?? false,
-                parallelData.quality_2?.[i] ?? false,
-                parallelData.quality_3?.[i] ?? false
-              ]
-            });
-          }
-        }
-        
-        // For backward compatibility, we'll create a single chunk with all samples
-        const chunk: ECGChunk = {
-          chunk_start: time_start,
-          chunk_end: time_end,
-          samples: transformedSamples
-        };
-        
-        return [chunk];
+          signal
+        );
       } catch (err) {
         logger.error("[useECG] Error fetching ECG data", { error: err });
         throw err;
       }
+      return { ...loaded, chunksLoaded: loaded.chunksTotal };
     },
     enabled: enabled && Boolean(pod_id && time_start && time_end),
     gcTime: 30 * 60 * 1000, // Keep in cache for 30 minutes
-    staleTime: 5 * 60 * 1000 // Consider data fresh for 5 minutes
+    // Consider complete windows fresh for 5 minutes; a cancelled one is reloaded on next use
+    staleTime: query => (isComplete(query.state.data) ? 5 * 60 * 1000 : 0)
   });
 
+  const isCancelled = isCancelledError(error);
+
   return {
-    samples: data?.[0]?.samples ?? [],
-    chunks: data || [],
+    buffer: data?.buffer ?? EMPTY_SAMPLE_BUFFER,
     isLoading: status === 'pending',
-    error: error instanceof Error ? error.message : null as any,
-    refetch
+    /** Chunks still arriving after the first was drawn */
+    isStreaming: fetchStatus === 'fetching' && !!data && !isComplete(data),
+    isCancelled,
+    progress: { loaded: data?.chunksLoaded ?? 0, total: data?.chunksTotal ?? 0 },
+    error: error instanceof Error && !isCancelled ? error.message : null as any,
+    refetch,
+    /** Stop streaming the window, keeping the chunks already drawn */
+    cancel: () => queryClient.cancelQueries({ queryKey, exact: true }, { revert: false })
+  };
+}
+
+/**
+ * Hook for loading ECG data from the active data source
+ * Returns data in the same format as the previous useChunkedECG for backward compatibility
+ */
+export function useECG(params: UseECGDataParams) {
+  const { buffer, ...state } = useECGBuffer(params);
+  const { time_start, time_end } = params;
+
+  // Objects for the analyses; converted once per buffer and shared
+  const samples = useMemo(() => sampleBufferToSamples(buffer), [buffer]);
+  // For backward compatibility, a single chunk with all samples
+  const chunks = useMemo<ECGChunk[]>(
+    () => (buffer === EMPTY_SAMPLE_BUFFER ? [] : [{ chunk_start: time_start, chunk_end: time_end, samples }]),
+    [buffer, samples, time_start, time_end]
+  );
+
+  return {
+    samples,
+    buffer,
+    chunks,
+    ...state
   };
 }
 
 /**
  * Hook for loading ECG diagnostics with React Query.
- * Uses the get_ecg_diagnostics RPC function.
+ * Uses the active data source (get-ecg-diagnostics edge function in production).
  */
 export function useECGDiagnostics({
   pod_id,
@@ -196,51 +237,29 @@ export function useECGDiagnostics({
   time_end,
   enabled = true
 }: Omit<UseECGDataParams, 'factor'>) {
-  const queryKey = ['ecg-diagnostics', pod_id, time_start, time_end];
+  const source = useEcgDataSource();
+  const queryKey = ['ecg-diagnostics', source.id, pod_id, time_start, time_end];
 
   const {
     data,
     status,
-    error,
-    refetch
+    error
   } = useQuery<ECGDiagnosticChunk[], Error>({
     queryKey,
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       logger.info("[useECGDiagnostics] Fetching diagnostics", {
-        pod_id, time_start, time_end
+        source: source.id, pod_id, time_start, time_end
       });
 
       try {
-        // Call the downsample-ecg edge function to get diagnostics
-        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/get-ecg-diagnostics`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-            'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
-            'x-client-info': 'ecg-lab-app',
-            'x-application-name': 'ecg-lab'
-          },
-          body: JSON.stringify({
-            pod_id,
-            time_start,
-            time_end
-          })
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => null);
-          throw new Error(errorData?.error || `Edge function returned status ${response.status}`);
-        }
-
-        const diagnosticsData = await response.json();
+        const metrics = await source.getDiagnostics({ pod_id, time_start, time_end }, signal);
         return [
           {
             chunk_start: time_start,
             chunk_end: time_end,
-            metrics: diagnosticsData
+            metrics
           }
-        ] as ECGDiagnosticChunk[];
+        ];
       } catch (err) {
         logger.error("[useECGDiagnostics] Error fetching diagnostics", { error: err });
         throw err;
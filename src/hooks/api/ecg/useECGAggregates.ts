@@ -1,17 +1,9 @@
 import { useQuery } from '@tanstack/react-query'
-import { useRPC } from '@/hooks/api/core';
+import { useEcgDataSource } from '@/context/EcgDataSourceContext'
 
 import { logger } from '@/lib/logger'
 import type { AggregatedLeadData, ECGAggregateFilter } from '@/types/domain/ecg'
 
-// Types from the database schema
-interface AggregateLeadsArgs {
-    p_pod_id: string
-    p_time_start: string
-    p_time_end: string
-    p_bucket_seconds: number
-}
-
 // Domain types
 export interface UseECGAggregatesProps {
     podId: string | null
@@ -31,6 +23,7 @@ interface AggregateResponse {
  * useECGAggregates
  * - Enhanced version that combines all ECG aggregation functionality
  * - Uses react-query for better caching and state management
+ * - Reads through the active EcgDataSource, so demo and local files have aggregates too
  * - Supports filtering and quality thresholds
  * - Returns both data and total count
  */
@@ -42,39 +35,31 @@ export function useECGAggregates({
     filter,
     enabled = true
 }: UseECGAggregatesProps) {
-    const { callRPC } = useRPC();
+    const source = useEcgDataSource();
     
     return useQuery<AggregateResponse>({
-        queryKey: ['ecg-aggregates', podId, startTime, endTime, bucketSize, filter],
+        queryKey: ['ecg-aggregates', source.id, podId, startTime, endTime, bucketSize, filter],
         queryFn: async () => {
             if (!podId) return { data: [], count: 0 }
 
             logger.debug('Fetching ECG aggregates', {
                 podId,
                 timeRange: [startTime, endTime],
-                bucketSize
+                bucketSize,
+                source: source.id
             })
 
-            const params: AggregateLeadsArgs = {
-                p_pod_id: podId,
-                p_time_start: startTime,
-                p_time_end: endTime,
-                p_bucket_seconds: bucketSize
-            }
-
             try {
-                const data = await callRPC('aggregate_leads', params, {
-                    component: 'useECGAggregates',
-                    context: { podId, timeRange: [startTime, endTime] }
+                const data = await source.getAggregates({
+                    pod_id: podId,
+                    time_start: startTime,
+                    time_end: endTime,
+                    bucket_seconds: bucketSize
                 });
 
-                if (!Array.isArray(data)) {
-                    throw new Error('aggregate_leads did not return an array');
-                }
-
                 // Store the total count before filtering
                 const totalCount = data.length;
-                let filteredData = data as AggregatedLeadData[]
+                let filteredData = data
                 
                 // Apply filters if needed
                 if (filter) {
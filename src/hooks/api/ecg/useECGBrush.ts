@@ -0,0 +1,95 @@
+/**
+ * FILE: src/hooks/api/ecg/useECGBrush.ts
+ *
+ * Horizontal brush over a plotted trace, used to pick the time range of a
+ * new annotation. Dragging sets the range; the range is kept after the
+ * pointer is released until it is cleared, so a label can be chosen.
+ * Ends snap to samples, and the brush is cleared when the data changes.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { PointerEventHandler } from 'react';
+import type { ECGSampleBuffer } from '@/lib/ecg/sampleBuffer';
+import { xToIndex } from '@/lib/ecg/calipers';
+import type { CaliperGeometry } from '@/lib/ecg/calipers';
+
+export interface BrushSelection {
+  startIndex: number;
+  endIndex: number;
+  /** ISO times of the earlier and later end */
+  startTime: string;
+  endTime: string;
+}
+
+export interface UseECGBrushResult {
+  selection: BrushSelection | null;
+  /** Epoch-ms sample times of the trace */
+  times: ArrayLike<number>;
+  isDragging: boolean;
+  clear: () => void;
+  handlePointerDown: PointerEventHandler<Element>;
+  handlePointerMove: PointerEventHandler<Element>;
+  handlePointerUp: PointerEventHandler<Element>;
+}
+
+export function useECGBrush(buffer: ECGSampleBuffer, geometry: CaliperGeometry): UseECGBrushResult {
+  const [range, setRange] = useState<{ anchor: number; head: number } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const draggingRef = useRef(false);
+
+  const times = buffer.times;
+
+  useEffect(() => {
+    setRange(null);
+    draggingRef.current = false;
+    setIsDragging(false);
+  }, [buffer]);
+
+  const localX = (e: React.PointerEvent<Element>) => e.clientX - e.currentTarget.getBoundingClientRect().left;
+
+  const handlePointerDown: PointerEventHandler<Element> = useCallback((e) => {
+    if (!buffer.length) return;
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    const index = xToIndex(localX(e), buffer.length, geometry);
+    setRange({ anchor: index, head: index });
+    draggingRef.current = true;
+    setIsDragging(true);
+  }, [buffer.length, geometry]);
+
+  const handlePointerMove: PointerEventHandler<Element> = useCallback((e) => {
+    if (!draggingRef.current) return;
+    const index = xToIndex(localX(e), buffer.length, geometry);
+    setRange(current => (current && current.head !== index ? { ...current, head: index } : current));
+  }, [buffer.length, geometry]);
+
+  const handlePointerUp: PointerEventHandler<Element> = useCallback((e) => {
+    e.currentTarget.releasePointerCapture?.(e.pointerId);
+    draggingRef.current = false;
+    setIsDragging(false);
+    // A click without a drag selects nothing
+    setRange(current => (current && current.anchor !== current.head ? current : null));
+  }, []);
+
+  const clear = useCallback(() => setRange(null), []);
+
+  const selection = useMemo<BrushSelection | null>(() => {
+    if (!range || range.anchor === range.head || !times.length) return null;
+    const startIndex = Math.min(range.anchor, range.head);
+    const endIndex = Math.max(range.anchor, range.head);
+    return {
+      startIndex,
+      endIndex,
+      startTime: new Date(times[startIndex]).toISOString(),
+      endTime: new Date(times[endIndex]).toISOString()
+    };
+  }, [range, times]);
+
+  return {
+    selection,
+    times,
+    isDragging,
+    clear,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp
+  };
+}
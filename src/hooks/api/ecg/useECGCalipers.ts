@@ -0,0 +1,161 @@
+/**
+ * FILE: src/hooks/api/ecg/useECGCalipers.ts
+ *
+ * Caliper state and pointer handling for one plotted channel. Pressing on
+ * the trace starts a caliper and dragging sets its other end; pressing
+ * near an existing end picks that end up again. Ends snap to samples.
+ * Calipers are cleared when the plotted data changes, since their
+ * indices refer to the old samples.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { PointerEventHandler } from 'react';
+import type { ECGSampleBuffer } from '@/lib/ecg/sampleBuffer';
+import type { ECGChannel } from '@/lib/ecg/beatDetection';
+import {
+  defaultLabel,
+  indexToX,
+  measureCaliper,
+  xToIndex
+} from '@/lib/ecg/calipers';
+import type {
+  Caliper,
+  CaliperGeometry,
+  CaliperKind,
+  CaliperMeasurement,
+  MeasurementLabel
+} from '@/lib/ecg/calipers';
+import { ECG_UNITS_PER_MV } from '@/lib/ecg/paper';
+
+interface UseECGCalipersParams {
+  buffer: ECGSampleBuffer;
+  channel: ECGChannel;
+  geometry: CaliperGeometry;
+  unitsPerMv?: number;
+}
+
+export interface CaliperWithMeasurement extends Caliper {
+  measurement: CaliperMeasurement | null;
+}
+
+export interface UseECGCalipersResult {
+  calipers: CaliperWithMeasurement[];
+  /** Trace values of the channel, for drawing amplitude calipers */
+  values: ArrayLike<number>;
+  nextKind: CaliperKind;
+  setNextKind: (kind: CaliperKind) => void;
+  setLabel: (id: string, label: MeasurementLabel) => void;
+  toggleMarchOut: (id: string) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+  handlePointerDown: PointerEventHandler<Element>;
+  handlePointerMove: PointerEventHandler<Element>;
+  handlePointerUp: PointerEventHandler<Element>;
+}
+
+// Pressing within this many CSS pixels of a caliper end grabs it
+const HANDLE_TOLERANCE_PX = 6;
+
+let nextCaliperId = 0;
+
+export function useECGCalipers({
+  buffer,
+  channel,
+  geometry,
+  unitsPerMv = ECG_UNITS_PER_MV
+}: UseECGCalipersParams): UseECGCalipersResult {
+  const [calipers, setCalipers] = useState<Caliper[]>([]);
+  const [nextKind, setNextKind] = useState<CaliperKind>('time');
+  const dragRef = useRef<{ id: string; end: 'startIndex' | 'endIndex' } | null>(null);
+
+  const times = buffer.times;
+  const values = buffer.channels[channel - 1];
+
+  useEffect(() => {
+    setCalipers([]);
+    dragRef.current = null;
+  }, [buffer]);
+
+  const localX = (e: React.PointerEvent<Element>) => e.clientX - e.currentTarget.getBoundingClientRect().left;
+
+  const handlePointerDown: PointerEventHandler<Element> = useCallback((e) => {
+    if (!buffer.length) return;
+    const x = localX(e);
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+
+    // Grab the closest existing end if the press is on one
+    let grabbed: { id: string; end: 'startIndex' | 'endIndex' } | null = null;
+    let closest = HANDLE_TOLERANCE_PX;
+    for (const c of calipers) {
+      for (const end of ['startIndex', 'endIndex'] as const) {
+        const distance = Math.abs(indexToX(c[end], buffer.length, geometry) - x);
+        if (distance <= closest) {
+          grabbed = { id: c.id, end };
+          closest = distance;
+        }
+      }
+    }
+    if (grabbed) {
+      dragRef.current = grabbed;
+      return;
+    }
+
+    const index = xToIndex(x, buffer.length, geometry);
+    const caliper: Caliper = {
+      id: `caliper-${++nextCaliperId}`,
+      kind: nextKind,
+      label: defaultLabel(nextKind),
+      startIndex: index,
+      endIndex: index,
+      marchOut: false
+    };
+    setCalipers(current => [...current, caliper]);
+    dragRef.current = { id: caliper.id, end: 'endIndex' };
+  }, [calipers, buffer.length, geometry, nextKind]);
+
+  const handlePointerMove: PointerEventHandler<Element> = useCallback((e) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const index = xToIndex(localX(e), buffer.length, geometry);
+    setCalipers(current => current.map(c => (c.id === drag.id && c[drag.end] !== index ? { ...c, [drag.end]: index } : c)));
+  }, [buffer.length, geometry]);
+
+  const handlePointerUp: PointerEventHandler<Element> = useCallback((e) => {
+    e.currentTarget.releasePointerCapture?.(e.pointerId);
+    dragRef.current = null;
+    // A click without a drag leaves a zero-width caliper; drop it
+    setCalipers(current => current.filter(c => c.startIndex !== c.endIndex));
+  }, []);
+
+  const setLabel = useCallback((id: string, label: MeasurementLabel) => {
+    setCalipers(current => current.map(c => (c.id === id ? { ...c, label } : c)));
+  }, []);
+
+  const toggleMarchOut = useCallback((id: string) => {
+    setCalipers(current => current.map(c => (c.id === id ? { ...c, marchOut: !c.marchOut } : c)));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setCalipers(current => current.filter(c => c.id !== id));
+  }, []);
+
+  const clear = useCallback(() => setCalipers([]), []);
+
+  const measured = useMemo(
+    () => calipers.map(c => ({ ...c, measurement: measureCaliper(c, channel, times, values, unitsPerMv) })),
+    [calipers, channel, times, values, unitsPerMv]
+  );
+
+  return {
+    calipers: measured,
+    values,
+    nextKind,
+    setNextKind,
+    setLabel,
+    toggleMarchOut,
+    remove,
+    clear,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp
+  };
+}
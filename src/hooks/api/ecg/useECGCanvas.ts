@@ -1,9 +1,14 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import type { ECGData } from '../../../types/domain/ecg';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import type { WheelEventHandler, MouseEventHandler } from 'react';
+import { buildECGTrace, createECGRenderer } from '@/lib/ecg/renderers';
+import type { ECGRenderer, ECGRendererKind, ECGRendererPreference } from '@/lib/ecg/renderers';
+import { ECG_UNITS_PER_MV, paperLayout, paperScaleX } from '@/lib/ecg/paper';
+import type { PaperSettings } from '@/lib/ecg/paper';
+import type { ECGSampleBuffer } from '@/lib/ecg/sampleBuffer';
 
 export interface UseECGCanvasParams {
-  data: ECGData[];
+  /** Samples to plot, as columns; the trace is read from it without copying rows */
+  buffer: ECGSampleBuffer;
   channel: 1 | 2 | 3;
   width: number;
   height: number;
@@ -16,10 +21,17 @@ export interface UseECGCanvasParams {
   onScaleChange?: (scale: number) => void;
   onTranslateChange?: (translate: number) => void;
   syncEnabled?: boolean;
+  // Sample indices of detected R-peaks to mark on the trace
+  beatIndices?: number[];
+  // Drawing backend; 'auto' uses WebGL when available, else Canvas2D
+  renderer?: ECGRendererPreference;
+  // Clinical paper mode: fixed speed and gain on the mm grid
+  paper?: PaperSettings;
 }
 
 export interface UseECGCanvasResult {
-  canvasRef: React.RefObject<HTMLCanvasElement>;
+  // Callback ref, so the renderer and listeners attach when the canvas mounts
+  canvasRef: React.RefCallback<HTMLCanvasElement>;
   scaleX: number;
   translateX: number;
   yMin: number;
@@ -39,10 +51,14 @@ export interface UseECGCanvasResult {
   zoomOutRange: () => void;
   fitYRange: () => void;
   toggleColorBlindMode: () => void;
+  rendererKind: ECGRendererKind | null;
+  paperMode: boolean;
+  // Device pixels per CSS pixel; size the canvas backing store with it
+  pixelRatio: number;
 }
 
 export function useECGCanvas({
-  data,
+  buffer,
   channel,
   width,
   height,
@@ -54,16 +70,45 @@ export function useECGCanvas({
   sharedTranslateX,
   onScaleChange,
   onTranslateChange,
-  syncEnabled = false
+  syncEnabled = false,
+  beatIndices,
+  renderer: rendererPreference = 'auto',
+  paper
 }: UseECGCanvasParams): UseECGCanvasResult {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [canvas, canvasRef] = useState<HTMLCanvasElement | null>(null);
+  const rendererRef = useRef<ECGRenderer | null>(null);
+  const [rendererKind, setRendererKind] = useState<ECGRendererKind | null>(null);
 
   // Horizontal zoom/pan - use shared state if provided
   const [localScaleX, setLocalScaleX] = useState(1);
   const [localTranslateX, setLocalTranslateX] = useState(0);
   
+  // Paper mode fixes time and amplitude scales from speed, gain and the
+  // screen calibration; only panning stays interactive
+  const paperSpeed = paper?.speed;
+  const paperGain = paper?.gain;
+  const pxPerMm = paper?.pxPerMm;
+  const unitsPerMv = paper?.unitsPerMv;
+  const layout = useMemo(() => (
+    paperSpeed && paperGain && pxPerMm
+      ? paperLayout(width, height, { speed: paperSpeed, gain: paperGain, pxPerMm, unitsPerMv })
+      : null
+  ), [paperSpeed, paperGain, pxPerMm, unitsPerMv, width, height]);
+
+  // Seconds covered by the trace, including the last sample period
+  const durationSec = useMemo(() => {
+    if (buffer.length < 2) return 0;
+    const span = (buffer.times[buffer.length - 1] - buffer.times[0]) / 1000;
+    return (span * buffer.length) / (buffer.length - 1);
+  }, [buffer]);
+
+  const paperMode = layout !== null;
+  const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+
   // Use shared values if sync is enabled, otherwise use local state
-  const scaleX = syncEnabled && sharedScaleX !== undefined ? sharedScaleX : localScaleX;
+  const scaleX = layout
+    ? paperScaleX(durationSec, width, layout.pxPerSecond)
+    : syncEnabled && sharedScaleX !== undefined ? sharedScaleX : localScaleX;
   const translateX = syncEnabled && sharedTranslateX !== undefined ? sharedTranslateX : localTranslateX;
   
   // Wrapper functions to update both local and shared state
@@ -86,8 +131,10 @@ export function useECGCanvas({
   const [panStartX, setPanStartX] = useState(0);
 
   // Y-range management
-  const [yMin, setYMin] = useState(defaultYMin);
-  const [yMax, setYMax] = useState(defaultYMax);
+  const [freeYMin, setYMin] = useState(defaultYMin);
+  const [freeYMax, setYMax] = useState(defaultYMax);
+  const yMin = layout ? layout.yMin : freeYMin;
+  const yMax = layout ? layout.yMax : freeYMax;
 
   // Tooltip
   const [showTooltip, setShowTooltip] = useState(false);
@@ -105,19 +152,21 @@ export function useECGCanvas({
   const handleWheel: WheelEventHandler<HTMLCanvasElement> = useCallback((e) => {
     // Fix preventDefault issue by not using it in a passive event handler
     // Instead, we'll set up a non-passive event listener in useEffect
+    if (paperMode) return;
     const direction = e.deltaY < 0 ? 1.1 : 0.9;
     setScaleX((prev) => {
       const next = prev * direction;
       return Math.max(0.5, Math.min(10, next));
     });
-  }, [setScaleX]);
+  }, [setScaleX, paperMode]);
   
   // Set up non-passive wheel event listener to properly handle preventDefault
   useEffect(() => {
-    const canvas = canvasRef.current;
     if (!canvas) return;
     
     const handleWheelEvent = (e: WheelEvent) => {
+      // Paper speed fixes the time scale; let the page scroll instead
+      if (paperMode) return;
       e.preventDefault();
       const direction = e.deltaY < 0 ? 1.1 : 0.9;
       setScaleX((prev) => {
@@ -132,7 +181,7 @@ export function useECGCanvas({
     return () => {
       canvas.removeEventListener('wheel', handleWheelEvent);
     };
-  }, [setScaleX]);
+  }, [canvas, setScaleX, paperMode]);
 
   // Mouse handlers for panning - with performance optimizations
   const handleMouseDown: MouseEventHandler<HTMLCanvasElement> = useCallback((e) => {
@@ -144,30 +193,25 @@ export function useECGCanvas({
   const handleMouseMove: MouseEventHandler<HTMLCanvasElement> = useCallback((e) => {
     if (!panning) {
       // Handle tooltip display when not panning
-      const canvas = canvasRef.current;
       if (canvas) {
         const rect = canvas.getBoundingClientRect();
         const x = e.clientX - rect.left;
         const y = e.clientY - rect.top;
         
-        // Find the closest data point
-        if (data.length > 0) {
-          const canvasWidth = canvas.width;
+        // Find the closest data point under the current zoom and pan
+        if (buffer.length > 0) {
           const dataIndex = Math.min(
-            Math.floor((x / canvasWidth) * data.length),
-            data.length - 1
+            Math.floor(((x - translateX) / (width * scaleX)) * buffer.length),
+            buffer.length - 1
           );
           
           if (dataIndex >= 0) {
-            const point = data[dataIndex];
-            let value = 0;
-            
-            if (channel === 1) value = point.downsampled_channel_1;
-            else if (channel === 2) value = point.downsampled_channel_2;
-            else value = point.downsampled_channel_3;
-            
-            const time = new Date(point.sample_time).toLocaleTimeString();
-            setTooltipText(`Time: ${time}, Value: ${value.toFixed(2)}`);
+            const value = buffer.channels[channel - 1][dataIndex];
+            const time = new Date(buffer.times[dataIndex]).toLocaleTimeString();
+            const amplitude = paperMode
+              ? `${(value / (paper?.unitsPerMv ?? ECG_UNITS_PER_MV)).toFixed(2)} mV`
+              : value.toFixed(2);
+            setTooltipText(`Time: ${time}, Value: ${amplitude}`);
             setTooltipX(x);
             setTooltipY(y);
             setShowTooltip(true);
@@ -183,7 +227,7 @@ export function useECGCanvas({
       setTranslateX((prev) => prev + dx);
       setPanStartX(e.clientX);
     });
-  }, [panning, panStartX, data, channel, setTranslateX]);
+  }, [canvas, panning, panStartX, buffer, channel, setTranslateX, translateX, width, scaleX, paperMode, paper?.unitsPerMv]);
 
   const handleMouseUp: MouseEventHandler<HTMLCanvasElement> = useCallback(() => {
     setPanning(false);
@@ -206,22 +250,17 @@ export function useECGCanvas({
   }, []);
 
   const fitYRange = useCallback(() => {
-    if (!data.length) return;
+    if (!buffer.length || paperMode) return;
     
     let minVal = Infinity;
     let maxVal = -Infinity;
+    const values = buffer.channels[channel - 1];
     
     // Performance optimization: only check every nth point for large datasets
-    const step = data.length > 5000 ? Math.floor(data.length / 5000) : 1;
+    const step = buffer.length > 5000 ? Math.floor(buffer.length / 5000) : 1;
     
-    for (let i = 0; i < data.length; i += step) {
-      const pt = data[i];
-      let v = 0;
-      
-      if (channel === 1) v = pt.downsampled_channel_1;
-      else if (channel === 2) v = pt.downsampled_channel_2;
-      else v = pt.downsampled_channel_3;
-      
+    for (let i = 0; i < buffer.length; i += step) {
+      const v = values[i];
       if (v < minVal) minVal = v;
       if (v > maxVal) maxVal = v;
     }
@@ -231,14 +270,12 @@ export function useECGCanvas({
     const pad = (maxVal - minVal) * 0.1;
     setYMin(minVal - pad);
     setYMax(maxVal + pad);
-  }, [data, channel]);
+  }, [buffer, channel, paperMode]);
 
-  // Update Y range when channel changes
+  // Update Y range when the channel or data changes; a no-op while empty
   useEffect(() => {
-    if (data.length > 0) {
-      fitYRange();
-    }
-  }, [channel, fitYRange]);
+    fitYRange();
+  }, [fitYRange]);
 
   const toggleColorBlindMode = useCallback(() => {
     setIsColorBlindMode(prev => !prev);
@@ -246,7 +283,6 @@ export function useECGCanvas({
 
   // Add keyboard navigation support
   useEffect(() => {
-    const canvas = canvasRef.current;
     if (!canvas) return;
     
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -278,11 +314,10 @@ export function useECGCanvas({
     return () => {
       canvas.removeEventListener('keydown', handleKeyDown);
     };
-  }, [zoomInRange, zoomOutRange, fitYRange, toggleColorBlindMode, setTranslateX]);
+  }, [canvas, zoomInRange, zoomOutRange, fitYRange, toggleColorBlindMode, setTranslateX]);
   
   // Set up non-passive touch event listeners
   useEffect(() => {
-    const canvas = canvasRef.current;
     if (!canvas) return;
     
     const handleTouchStart = (e: TouchEvent) => {
@@ -326,100 +361,48 @@ export function useECGCanvas({
       canvas.removeEventListener('touchmove', handleTouchMove);
       canvas.removeEventListener('touchend', handleTouchEnd);
     };
-  }, [panning, panStartX, setTranslateX]);
+  }, [canvas, panning, panStartX, setTranslateX]);
+
+  // Flatten the plotted channel once per data change; renderers upload it
+  const trace = useMemo(() => buildECGTrace(buffer, channel), [buffer, channel]);
 
-  // This effect handles the actual drawing of the ECG line on the canvas
+  // (Re)create the renderer when the canvas element or preference changes;
+  // the canvas mounts only after loading finishes
   useEffect(() => {
-    const canvas = canvasRef.current;
     if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    // Clear canvas
-    ctx.clearRect(0, 0, width, height);
-    
-    // Draw grid (optional background)
-    drawGrid(ctx, width, height);
-    
-    // Skip if no data
-    if (!data || data.length === 0) return;
-    
-    // Log data for debugging
-    if (data.length > 0) {
-      console.log("ECG data length:", data.length);
-      // Check first few data points
-      const samplePoints = data.slice(0, 5);
-      console.log("Sample ECG points:", samplePoints.map(p => ({
-        time: p.sample_time,
-        ch1: p.downsampled_channel_1,
-        ch2: p.downsampled_channel_2,
-        ch3: p.downsampled_channel_3
-      })));
-      
-      // Calculate min/max for debugging
-      let minVal = Infinity, maxVal = -Infinity;
-      const channelKey = `downsampled_channel_${channel}` as keyof ECGData;
-      data.forEach(d => {
-        const val = Number(d[channelKey]) || 0;
-        if (val < minVal) minVal = val;
-        if (val > maxVal) maxVal = val;
-      });
-      console.log(`Min/Max channel ${channel}:`, minVal, maxVal);
-    }
-    
-    // Begin drawing the path
-    ctx.beginPath();
-    ctx.strokeStyle = waveColor;
-    ctx.lineWidth = 1.5;
-    
-    // Draw each data point
-    data.forEach((point, index) => {
-      // Calculate x position (with scaling and translation)
-      const x = (index / data.length) * width * scaleX + translateX;
-      
-      // Get value for selected channel
-      let value = 0;
-      if (channel === 1) value = point.downsampled_channel_1;
-      else if (channel === 2) value = point.downsampled_channel_2;
-      else if (channel === 3) value = point.downsampled_channel_3;
-      
-      // Calculate y position (inverted, since canvas 0 is top)
-      const y = height - ((value - yMin) / (yMax - yMin)) * height;
-      
-      if (index === 0) {
-        ctx.moveTo(x, y);
-      } else {
-        ctx.lineTo(x, y);
-      }
+    const renderer = createECGRenderer(canvas, rendererPreference);
+    rendererRef.current = renderer;
+    setRendererKind(renderer?.kind ?? null);
+    return () => {
+      renderer?.dispose();
+      rendererRef.current = null;
+    };
+  }, [canvas, rendererPreference]);
+
+  useEffect(() => {
+    rendererRef.current?.setTrace(trace);
+  }, [trace, rendererKind]);
+
+  // Pan, zoom and Y-range only re-render; the trace stays uploaded
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    renderer.render({
+      width,
+      height,
+      scaleX,
+      translateX,
+      yMin,
+      yMax,
+      waveColor,
+      beatIndices,
+      beatColor: isColorBlindMode ? 'rgba(230,159,0,0.9)' : 'rgba(248,113,113,0.9)',
+      pixelRatio,
+      // Vertical grid lines travel with the trace when panning
+      paperGrid: layout ? { ...layout.grid, originX: translateX } : undefined,
+      calibrationPulse: layout?.pulse
     });
-    
-    ctx.stroke();
-  }, [data, width, height, scaleX, translateX, yMin, yMax, channel, waveColor]);
-  
-  // Helper function to draw background grid
-  function drawGrid(ctx: CanvasRenderingContext2D, width: number, height: number) {
-    // Draw faint grid
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
-    ctx.lineWidth = 0.5;
-    
-    // Vertical grid lines
-    const gridSpacing = 50;
-    for (let x = 0; x < width; x += gridSpacing) {
-      ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, height);
-      ctx.stroke();
-    }
-    
-    // Horizontal grid lines
-    for (let y = 0; y < height; y += gridSpacing) {
-      ctx.beginPath();
-      ctx.moveTo(0, y);
-      ctx.lineTo(width, y);
-      ctx.stroke();
-    }
-  }
+  }, [trace, rendererKind, width, height, scaleX, translateX, yMin, yMax, waveColor, beatIndices, isColorBlindMode, pixelRatio, layout]);
 
   return {
     canvasRef,
@@ -441,6 +424,9 @@ export function useECGCanvas({
     zoomInRange,
     zoomOutRange,
     fitYRange,
-    toggleColorBlindMode
+    toggleColorBlindMode,
+    rendererKind,
+    paperMode,
+    pixelRatio
   };
 }
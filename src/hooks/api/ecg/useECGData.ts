@@ -1,8 +1,10 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { supabase } from '@/types/supabase';
+import { useEcgDataSource } from '@/context/EcgDataSourceContext';
 import { logger } from '@/lib/logger';
 import { ECGData } from '../../../types/domain/ecg';
 import { trackECGQuery } from '../diagnostics/useECGQueryTracker';
+import { chooseDownsampleMethod } from '@/lib/ecg/downsampling';
+import type { DownsampleMethod } from '@/lib/ecg/downsampling';
 
 export interface ECGQueryOptions {
   /**
@@ -23,6 +25,19 @@ export interface ECGQueryOptions {
    * automatically adjusted.
    */
   maxPoints?: number;
+
+  /**
+   * Width of the target canvas in pixels. When set, the downsample method
+   * (decimate, lttb, minmax or peak_preserving) and point budget are picked
+   * from it so long windows keep their QRS morphology. maxPoints still caps
+   * the budget.
+   */
+  pixelWidth?: number;
+
+  /**
+   * Explicit downsample method. Overrides the pixelWidth choice.
+   */
+  method?: DownsampleMethod;
   
   /**
    * Callback when the query fails
@@ -66,12 +81,12 @@ const dataCache = new Map<CacheKey, {
 const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
 
 // Get cache key from query parameters
-const getCacheKey = (podId: string, timeStart: string, timeEnd: string, factor: number) => {
-  return `${podId}:${timeStart}:${timeEnd}:${factor}`;
+const getCacheKey = (sourceId: string, podId: string, timeStart: string, timeEnd: string, factor: number, method = 'decimate', maxPoints = 0) => {
+  return `${sourceId}:${podId}:${timeStart}:${timeEnd}:${factor}:${method}:${maxPoints}`;
 };
 
 /**
- * Hook to fetch ECG data from Supabase edge function
+ * Hook to fetch ECG data from the active ECG data source
  * @param podId The ID of the pod
  * @param timeStart ISO timestamp for the start time
  * @param timeEnd ISO timestamp for the end time
@@ -87,11 +102,29 @@ export function useECGData(
   const {
     enabled = true,
     downsamplingFactor = 1,
-    maxPoints = 2000,
+    maxPoints: requestedMaxPoints = 2000,
+    pixelWidth,
+    method: requestedMethod,
     onError,
     onSuccess
   } = options;
 
+  // Resolve the method and budget from the canvas width when one is given
+  const { method, max_points: maxPoints } = useMemo(() => {
+    if (requestedMethod) return { method: requestedMethod, max_points: requestedMaxPoints };
+    if (pixelWidth && timeStart && timeEnd) {
+      return chooseDownsampleMethod({
+        time_start: timeStart,
+        time_end: timeEnd,
+        factor: downsamplingFactor,
+        pixelWidth,
+        maxPoints: requestedMaxPoints
+      });
+    }
+    return { method: undefined, max_points: requestedMaxPoints };
+  }, [requestedMethod, requestedMaxPoints, pixelWidth, timeStart, timeEnd, downsamplingFactor]);
+
+  const source = useEcgDataSource();
   const [data, setData] = useState<ECGData[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
@@ -118,7 +151,7 @@ export function useECGData(
 
     // Check cache first if not forcing a refresh
     if (!force) {
-      const cacheKey = getCacheKey(podId, timeStart, timeEnd, downsamplingFactor);
+      const cacheKey = getCacheKey(source.id, podId, timeStart, timeEnd, downsamplingFactor, method, maxPoints);
       const cachedData = dataCache.get(cacheKey);
       
       if (cachedData && (Date.now() - cachedData.timestamp) < cachedData.ttl) {
@@ -156,65 +189,36 @@ export function useECGData(
     const startTimestamp = Date.now();
     
     try {
-      // Call the edge function
-      const response = await supabase.functions.invoke('downsample-ecg', {
-        body: {
+      const samples = await source.getRange(
+        {
           pod_id: podId,
           time_start: timeStart,
           time_end: timeEnd,
           factor: downsamplingFactor,
-          max_points: maxPoints
-        }
-      });
+          max_points: maxPoints,
+          method
+        },
+        abortControllerRef.current.signal
+      );
       
       // Calculate query duration
       const duration = Date.now() - startTimestamp;
       
-      // Handle errors from the edge function
-      if (response.error) {
-        const errorMessage = getErrorMessage(response.error);
-        setError(errorMessage);
-        setLoading(false);
-        
-        // Track failed query
-        trackECGQuery({
-          podId,
-          startTime: timeStart,
-          endTime: timeEnd,
-          points: 0,
-          duration,
-          timestamp: Date.now(),
-          status: 'error',
-          error: errorMessage
-        });
-        
-        if (onError) onError(errorMessage);
-        return [];
-      }
-      
-      // Process data
-      const ecgData = response.data as ECGData[];
-      
-      if (!ecgData || !Array.isArray(ecgData)) {
-        const errorMessage = "Invalid response format from edge function";
-        setError(errorMessage);
-        setLoading(false);
-        
-        // Track failed query
-        trackECGQuery({
-          podId,
-          startTime: timeStart,
-          endTime: timeEnd,
-          points: 0,
-          duration,
-          timestamp: Date.now(),
-          status: 'error',
-          error: errorMessage
-        });
-        
-        if (onError) onError(errorMessage);
-        return [];
-      }
+      const ecgData: ECGData[] = samples.map(sample => ({
+        sample_time: sample.time,
+        downsampled_channel_1: sample.channels[0],
+        downsampled_channel_2: sample.channels[1],
+        downsampled_channel_3: sample.channels[2],
+        lead_on_p_1: sample.lead_on_p[0],
+        lead_on_p_2: sample.lead_on_p[1],
+        lead_on_p_3: sample.lead_on_p[2],
+        lead_on_n_1: sample.lead_on_n[0],
+        lead_on_n_2: sample.lead_on_n[1],
+        lead_on_n_3: sample.lead_on_n[2],
+        quality_1: sample.quality[0],
+        quality_2: sample.quality[1],
+        quality_3: sample.quality[2]
+      }));
       
       // Update state with the fetched data
       setData(ecgData);
@@ -238,7 +242,7 @@ export function useECGData(
       });
       
       // Update cache
-      const cacheKey = getCacheKey(podId, timeStart, timeEnd, downsamplingFactor);
+      const cacheKey = getCacheKey(source.id, podId, timeStart, timeEnd, downsamplingFactor, method, maxPoints);
       dataCache.set(cacheKey, {
         data: ecgData,
         timestamp: Date.now(),
@@ -271,7 +275,7 @@ export function useECGData(
       setLoading(false);
       return [];
     }
-  }, [podId, timeStart, timeEnd, downsamplingFactor, maxPoints, isValidInput, onError, onSuccess]);
+  }, [source, podId, timeStart, timeEnd, downsamplingFactor, maxPoints, method, isValidInput, onError, onSuccess]);
   
   useEffect(() => {
     // Don't fetch if not enabled
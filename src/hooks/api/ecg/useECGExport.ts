@@ -0,0 +1,205 @@
+/**
+ * FILE: src/hooks/api/ecg/useECGExport.ts
+ *
+ * Exports a time range of one pod to a file for downstream analysis tools.
+ * The range is fetched in windows through forEachECGChunk and each window
+ * is handed to the format's writer before the next is fetched; progress is
+ * reported per window and an export can be cancelled between windows.
+ *
+ * WFDB exports also run beat detection per window and write the beats,
+ * labelled with the study's annotations, to an .atr file; the .hea, .dat
+ * and .atr files are downloaded together as a zip.
+ */
+import { useCallback, useRef, useState } from 'react';
+import { logger } from '@/lib/logger';
+import { RAW_SAMPLE_RATE } from '@/lib/ecg/downsampling';
+import { detectBeats } from '@/lib/ecg/beatDetection';
+import type { ECGChannel } from '@/lib/ecg/beatDetection';
+import { createEDFWriter } from '@/lib/ecg/formats/edf';
+import { createWFDBWriter, wfdbAnnotationsFor } from '@/lib/ecg/formats/wfdb';
+import type { WFDBFormat } from '@/lib/ecg/formats/wfdb';
+import { downloadBlob } from '@/lib/utils/download';
+import { createZip } from '@/lib/utils/zip';
+import type { ECGAnnotationRow } from '@/types/domain/ecg';
+import { useEcgDataSource } from '@/context/EcgDataSourceContext';
+import { forEachECGChunk } from './useECG';
+import type { ECGSample } from './useECG';
+
+export type ECGExportFormat = 'edf' | 'wfdb';
+
+export interface ECGExportRequest {
+  format: ECGExportFormat;
+  podId: string;
+  studyId?: string | null;
+  timeStart: string;
+  timeEnd: string;
+  /** Decimation factor; the file's sampling rate is 320 / factor */
+  factor?: number;
+  /** File name without extension; also the WFDB record name */
+  filename: string;
+  /** WFDB signal format; defaults to 212 */
+  wfdbFormat?: WFDBFormat;
+  /** Reviewer annotations written to the WFDB .atr file */
+  annotations?: ECGAnnotationRow[];
+}
+
+export interface ECGExportSummary {
+  filename: string;
+  bytes: number;
+  /** Human-readable notes on what was adjusted while writing */
+  warnings: string[];
+}
+
+export interface UseECGExportResult {
+  exportRange: (request: ECGExportRequest) => Promise<ECGExportSummary | null>;
+  cancel: () => void;
+  isExporting: boolean;
+  /** 0..1 of the range fetched so far */
+  progress: number;
+  error: string | null;
+}
+
+const EXPORT_CHUNK_MS = 10 * 60 * 1000;
+
+type FetchChunks = (onChunk: (samples: ECGSample[]) => void) => Promise<void>;
+
+interface WriteOptions {
+  podId: string;
+  studyId?: string | null;
+  samplingRate: number;
+  filename: string;
+}
+
+async function exportEDF(fetchChunks: FetchChunks, { podId, studyId, samplingRate, filename }: WriteOptions): Promise<ECGExportSummary> {
+  const writer = createEDFWriter({ podId, studyId, samplingRate });
+  await fetchChunks(samples => writer.addSamples(samples));
+  const result = writer.finish();
+
+  if (result.recordCount === 0) {
+    throw new Error('No ECG data in the selected range');
+  }
+
+  const warnings: string[] = [];
+  if (result.clippedSamples > 0) {
+    warnings.push(`${result.clippedSamples} samples were outside ±10 mV and clipped`);
+  }
+  if (result.discontinuous) {
+    warnings.push('Recording has gaps; written as discontinuous EDF+');
+  }
+
+  const file = `${filename}.edf`;
+  const blob = new Blob(result.parts, { type: 'application/octet-stream' });
+  downloadBlob(blob, file, 'application/octet-stream');
+  return { filename: file, bytes: blob.size, warnings };
+}
+
+async function exportWFDB(
+  fetchChunks: FetchChunks,
+  { podId, studyId, samplingRate, filename, wfdbFormat, annotations }: WriteOptions & {
+    wfdbFormat: WFDBFormat;
+    annotations: ECGAnnotationRow[];
+  }
+): Promise<ECGExportSummary> {
+  const writer = createWFDBWriter({ recordName: filename, samplingRate, format: wfdbFormat, podId, studyId });
+  const beats: Array<{ time: number; channel: ECGChannel | null }> = [];
+
+  await fetchChunks(samples => {
+    writer.addSamples(samples);
+    const detection = detectBeats(samples, { samplingRate });
+    const last = beats[beats.length - 1]?.time ?? -Infinity;
+    // Windows share their boundary sample, so skip beats already seen
+    detection.beats
+      .filter(beat => beat.time > last)
+      .forEach(beat => beats.push({ time: beat.time, channel: detection.channel }));
+  });
+
+  wfdbAnnotationsFor(beats, annotations).forEach(a =>
+    writer.addAnnotation(a.timeMs, a.code, { channel: a.channel, aux: a.aux })
+  );
+  const result = writer.finish();
+
+  if (result.sampleCount === 0) {
+    throw new Error('No ECG data in the selected range');
+  }
+
+  const warnings: string[] = [];
+  if (result.clippedSamples > 0) {
+    warnings.push(`${result.clippedSamples} samples were outside the format ${wfdbFormat} range and clipped`);
+  }
+  if (result.gapSamples > 0) {
+    warnings.push(`${result.gapSamples} missing samples were written as invalid`);
+  }
+
+  const encoder = new TextEncoder();
+  const modified = new Date();
+  const files = [
+    { name: `${result.recordName}.hea`, data: encoder.encode(result.header), modified },
+    { name: `${result.recordName}.dat`, data: result.dat, modified },
+    ...(result.atr ? [{ name: `${result.recordName}.atr`, data: result.atr, modified }] : [])
+  ];
+
+  const file = `${filename}.zip`;
+  const blob = new Blob(createZip(files), { type: 'application/zip' });
+  downloadBlob(blob, file, 'application/zip');
+  return { filename: file, bytes: blob.size, warnings };
+}
+
+export function useECGExport(): UseECGExportResult {
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const source = useEcgDataSource();
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const exportRange = useCallback(async ({
+    format,
+    podId,
+    studyId,
+    timeStart,
+    timeEnd,
+    factor = 4,
+    filename,
+    wfdbFormat = 212,
+    annotations = []
+  }: ECGExportRequest): Promise<ECGExportSummary | null> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsExporting(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      logger.info('[useECGExport] Exporting range', { format, podId, timeStart, timeEnd, factor });
+
+      const range = { pod_id: podId, time_start: timeStart, time_end: timeEnd, factor, chunkMs: EXPORT_CHUNK_MS };
+      const fetchChunks = (onChunk: (samples: ECGSample[]) => void) =>
+        forEachECGChunk(source, range, onChunk, { signal: controller.signal, onProgress: setProgress });
+      const samplingRate = RAW_SAMPLE_RATE / factor;
+
+      if (format === 'wfdb') {
+        return await exportWFDB(fetchChunks, { podId, studyId, samplingRate, filename, wfdbFormat, annotations });
+      }
+      return await exportEDF(fetchChunks, { podId, studyId, samplingRate, filename });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        logger.info('[useECGExport] Export cancelled', { podId });
+        return null;
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error('[useECGExport] Export failed', { podId, error: message });
+      setError(message);
+      throw err;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsExporting(false);
+    }
+  }, [source]);
+
+  return { exportRange, cancel, isExporting, progress, error };
+}
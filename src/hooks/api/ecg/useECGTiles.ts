@@ -0,0 +1,140 @@
+/**
+ * FILE: src/hooks/api/ecg/useECGTiles.ts
+ *
+ * Viewport-driven ECG loading from level-of-detail tiles (see
+ * lib/ecg/tiles). Only the tiles the viewport overlaps, plus one either
+ * side for smooth panning, are requested. Tiles live in the React Query
+ * cache and complete tiles of persistent sources are also persisted to
+ * IndexedDB, so revisiting a part of the day doesn't go back to the edge
+ * function.
+ */
+import { useCallback, useMemo, useRef } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import type { UseQueryResult } from '@tanstack/react-query';
+import { logger } from '@/lib/logger';
+import {
+  isTileComplete,
+  mergeTileSamples,
+  selectTileLevel,
+  tilesForRange
+} from '@/lib/ecg/tiles';
+import type { TileLevel, TileRef } from '@/lib/ecg/tiles';
+import type { EcgDataSource } from '@/lib/ecg/dataSource';
+import { useEcgDataSource } from '@/context/EcgDataSourceContext';
+import { createIndexedDBCache } from '@/lib/utils/indexedDBCache';
+import type { ECGSample } from './useECG';
+
+interface UseECGTilesParams {
+  pod_id: string;
+  /** Epoch milliseconds */
+  view_start: number;
+  view_end: number;
+  /** Width of the canvas the viewport is drawn on */
+  pixelWidth: number;
+  /** Extra tiles requested either side of the viewport */
+  prefetchMargin?: number;
+  enabled?: boolean;
+}
+
+export interface UseECGTilesResult {
+  /** Samples inside the viewport, possibly from the previous level while loading */
+  samples: ECGSample[];
+  level: TileLevel;
+  visibleTiles: number;
+  loadedTiles: number;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const tileCache = createIndexedDBCache<ECGSample[]>('ecg-lab-tiles', 'tiles', { maxEntries: 2000 });
+
+function tileCacheKey(pod_id: string, tile: TileRef): string {
+  return `${pod_id}:${tile.level.id}:${tile.index}`;
+}
+
+async function loadTile(source: EcgDataSource, pod_id: string, tile: TileRef, signal?: AbortSignal): Promise<ECGSample[]> {
+  const key = tileCacheKey(pod_id, tile);
+  // Memory and synthetic sources are cheap to re-read and must not be persisted
+  const complete = isTileComplete(tile) && source.persistent;
+
+  if (complete) {
+    const cached = await tileCache.get(key);
+    if (cached) return cached;
+  }
+
+  const { level } = tile;
+  const samples = await source.getRange(
+    {
+      pod_id,
+      time_start: new Date(tile.start).toISOString(),
+      time_end: new Date(tile.end).toISOString(),
+      factor: level.factor,
+      ...(level.method === 'decimate' ? {} : { method: level.method, max_points: level.pointsPerTile })
+    },
+    signal
+  );
+
+  if (complete) {
+    tileCache.set(key, samples).catch(err => {
+      logger.warn('[useECGTiles] Failed to persist tile', { key, error: err });
+    });
+  }
+  return samples;
+}
+
+export function useECGTiles({
+  pod_id,
+  view_start,
+  view_end,
+  pixelWidth,
+  prefetchMargin = 1,
+  enabled = true
+}: UseECGTilesParams): UseECGTilesResult {
+  const source = useEcgDataSource();
+  const level = selectTileLevel(view_end - view_start, pixelWidth);
+  const tiles = tilesForRange(level, view_start, view_end, prefetchMargin);
+
+  // The margin tiles sit at either end of the list; only the middle is shown.
+  // The combined result is structurally shared, so `visible` keeps its
+  // identity until a visible tile's data or error changes.
+  const combine = useCallback((results: UseQueryResult<ECGSample[]>[]) => {
+    const shown = results.slice(prefetchMargin, results.length - prefetchMargin);
+    const failed = shown.find(r => r.error);
+    return {
+      visible: shown.map(r => r.data),
+      error: failed?.error instanceof Error ? failed.error.message : null
+    };
+  }, [prefetchMargin]);
+
+  const { visible, error } = useQueries({
+    queries: tiles.map(tile => ({
+      queryKey: ['ecg-tile', source.id, pod_id, level.id, tile.index],
+      queryFn: ({ signal }: { signal: AbortSignal }) => loadTile(source, pod_id, tile, signal),
+      enabled: enabled && Boolean(pod_id),
+      staleTime: isTileComplete(tile) ? Infinity : 60 * 1000,
+      gcTime: 30 * 60 * 1000
+    })),
+    combine
+  });
+
+  const loadedTiles = visible.filter(data => data !== undefined).length;
+  const allLoaded = loadedTiles === visible.length;
+
+  // Keep showing the previous level until every visible tile has arrived
+  const previous = useRef<ECGSample[]>([]);
+  const samples = useMemo(() => {
+    if (!allLoaded) return previous.current;
+    const merged = mergeTileSamples(visible.map(data => data ?? []), view_start, view_end);
+    previous.current = merged;
+    return merged;
+  }, [allLoaded, visible, view_start, view_end]);
+
+  return {
+    samples,
+    level,
+    visibleTiles: visible.length,
+    loadedTiles,
+    isLoading: enabled && !allLoaded,
+    error
+  };
+}
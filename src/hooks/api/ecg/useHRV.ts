@@ -0,0 +1,58 @@
+/**
+ * FILE: src/hooks/api/ecg/useHRV.ts
+ *
+ * Heart rate variability for a time window: loads samples through useECG,
+ * detects beats and runs the HRV analysis. Shares the useECG query cache
+ * with MainECGViewer, so opening the viewer on the same window is free.
+ */
+import { useMemo } from 'react';
+import { computeHRV } from '@/lib/ecg/hrv';
+import type { HRVResult } from '@/lib/ecg/hrv';
+import { useECG } from './useECG';
+import { useBeatDetection } from './useBeatDetection';
+import type { UseBeatDetectionResult } from './useBeatDetection';
+
+interface UseHRVParams {
+  pod_id: string;
+  time_start: string;
+  time_end: string;
+  factor?: number;
+  enabled?: boolean;
+}
+
+export interface UseHRVResult {
+  hrv: HRVResult | null;
+  beatDetection: UseBeatDetectionResult;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useHRV({
+  pod_id,
+  time_start,
+  time_end,
+  factor = 4,
+  enabled = true
+}: UseHRVParams): UseHRVResult {
+  const { samples, isLoading, error } = useECG({
+    pod_id,
+    time_start,
+    time_end,
+    factor,
+    enabled
+  });
+
+  const beatDetection = useBeatDetection(samples);
+
+  const hrv = useMemo(
+    () => (beatDetection.beats.length ? computeHRV(beatDetection.beats) : null),
+    [beatDetection.beats]
+  );
+
+  return {
+    hrv,
+    beatDetection,
+    isLoading: enabled && isLoading,
+    error
+  };
+}
@@ -2,3 +2,5 @@ export * from './useDebounce';
 export * from './useDataGrid';
 export * from './useAdvancedFilter';
 
+export * from './useSavedFilters';
+export * from './useUrlDataGrid';
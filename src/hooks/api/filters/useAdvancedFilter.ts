@@ -1,58 +1,46 @@
 /**
  * Hook for advanced filtering functionality
  */
-import { useState, useCallback } from 'react';
-import { validateExpression, evaluateExpression } from '@/lib/utils/ExpressionParser';
-import type { FilterExpression, FilterConfig, FilterState } from '@/types/filter';
+import { useState, useCallback, useMemo } from 'react';
+import { applyFilter as applyFilterExpression, compileFilter } from '@/lib/filter';
+import type { FilterNode } from '@/lib/filter';
+import type { FilterConfig, FilterState } from '@/types/filter';
 
-const STORAGE_KEY = 'filterPresets';
-
-export function useAdvancedFilter<T>(
+export function useAdvancedFilter<T extends object>(
   config: FilterConfig<T>,
   defaultQuickFilter = '',
-  filterFn?: (items: T[], filter: string, expression: FilterExpression | null) => T[]
+  filterFn?: (items: T[], filter: string, ast: FilterNode | null) => T[],
+  defaultExpression = ''
 ): FilterState<T> {
   const [quickFilter, setQuickFilter] = useState(defaultQuickFilter);
-  const [expression, setExpressionValue] = useState<FilterExpression | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [expression, setExpression] = useState(defaultExpression);
 
-  const setExpression = useCallback((value: string) => {
-    try {
-      const parsedExpression = value ? validateExpression(value, config.fields) : null;
-      setExpressionValue(parsedExpression);
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Invalid expression');
-      setExpressionValue(null);
-    }
-  }, [config.fields]);
+  // Parsed and checked on every edit; an invalid expression filters nothing and reports why
+  const { ast, error } = useMemo(() => compileFilter(expression, config.fields), [expression, config.fields]);
 
   const applyFilter = useCallback((items: T[]): T[] => {
     if (filterFn) {
-      return filterFn(items, quickFilter, expression);
+      return filterFn(items, quickFilter, ast);
     }
 
-    // Default filtering behavior if no filterFn provided
-    return items.filter(item => {
-      // Quick filter implementation
-      const matchesQuickFilter = !quickFilter || Object.values(item as Record<string, unknown>).some(
+    // Quick filter implementation
+    const matchingQuickFilter = !quickFilter ? items : items.filter(item =>
+      Object.values(item as Record<string, unknown>).some(
         value => String(value).toLowerCase().includes(quickFilter.toLowerCase())
-      );
-
-      // Advanced filter implementation
-      const matchesExpression = !expression || evaluateExpression(item, expression);
+      )
+    );
 
-      return matchesQuickFilter && matchesExpression;
-    });
-  }, [quickFilter, expression, filterFn]);
+    // Advanced filter implementation
+    return applyFilterExpression(matchingQuickFilter, ast, { fields: config.fields });
+  }, [quickFilter, ast, filterFn, config.fields]);
 
   return {
     quickFilter,
     expression,
+    ast,
     error,
     setQuickFilter,
     setExpression,
-    setError,
     applyFilter
   };
-} 
\ No newline at end of file
+}
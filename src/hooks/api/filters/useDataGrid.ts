@@ -1,13 +1,28 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import type { SortConfig, FilterConfig, FilterCondition, ColumnFilter } from '@/components/shared/DataGrid';
+import { compileServerQuery, serverFilterError as findServerFilterError } from '@/lib/filter';
+import type { FilterColumnMap, ServerQuery } from '@/lib/filter';
+import type { FilterField } from '@/types/filter';
+import { useDebounce } from './useDebounce';
 
-interface UseDataGridConfig<T> {
+/** Server mode: where the expression's fields live in the database */
+export interface ServerGridConfig {
+  fields: FilterField[];
+  /** Field -> column; also the whitelist of what can be filtered and sorted on */
+  columns: FilterColumnMap;
+}
+
+export interface UseDataGridConfig<T> {
   defaultPage?: number;
   defaultPageSize?: number;
   defaultSort?: SortConfig<T>;
   defaultFilter?: FilterConfig;
   onStateChange?: (state: UseDataGridState<T>) => void;
   maxFilterHistory?: number;
+  /** Compile the state to a ServerQuery; pass a stable (module-level) object */
+  server?: ServerGridConfig;
+  /** Server mode: applied together with the user's expression, e.g. a quick filter chip's */
+  baseExpression?: string;
 }
 
 export interface UseDataGridState<T> {
@@ -28,7 +43,9 @@ export function useDataGrid<T>({
   defaultSort = { key: null, direction: 'asc' },
   defaultFilter = { quickFilter: '', expression: '', columnFilters: [] },
   onStateChange,
-  maxFilterHistory = 10
+  maxFilterHistory = 10,
+  server,
+  baseExpression = ''
 }: UseDataGridConfig<T> = {}) {
   // State
   const [page, setPage] = useState(defaultPage);
@@ -99,7 +116,13 @@ export function useDataGrid<T>({
   }, [historyIndex, maxFilterHistory]);
 
   // Enhanced filter change handler
-  const handleFilterChange = useCallback((newFilterConfig: FilterConfig) => {
+  // Keys left out of the update keep their current value
+  const handleFilterChange = useCallback((update: FilterConfig) => {
+    const newFilterConfig = { ...filterConfig, ...update };
+    // Nothing changed: keep the page, e.g. when a remounted input reports its value again
+    const keys = Object.keys(update) as (keyof FilterConfig)[];
+    if (keys.every(key => newFilterConfig[key] === filterConfig[key])) return;
+
     // Validate column filters
     if (newFilterConfig.columnFilters) {
       for (const filter of newFilterConfig.columnFilters) {
@@ -121,7 +144,7 @@ export function useDataGrid<T>({
       sortConfig,
       filterConfig: newFilterConfig
     });
-  }, [pageSize, sortConfig, onStateChange, validateColumnFilter, addToHistory]);
+  }, [filterConfig, pageSize, sortConfig, onStateChange, validateColumnFilter, addToHistory]);
 
   // History navigation
   const canUndo = historyIndex > 0;
@@ -191,10 +214,49 @@ export function useDataGrid<T>({
     });
   }, [page, pageSize, filterConfig, onStateChange]);
 
+  // Puts back a whole state, e.g. one read from the URL on back/forward; not reported to onStateChange
+  const restoreState = useCallback((state: UseDataGridState<T>) => {
+    setPage(state.page);
+    setPageSize(state.pageSize);
+    setSortConfig(state.sortConfig);
+    setFilterConfig(state.filterConfig);
+  }, []);
+
   const handleFilterError = useCallback((error: Error) => {
     console.error('Filter Error:', error);
   }, []);
 
+  // Server mode: typing is debounced, and while an expression is being fixed the last valid one stays applied
+  const typedExpression = useDebounce(filterConfig.expression ?? '', 300);
+  const typedQuickFilter = useDebounce(filterConfig.quickFilter ?? '', 300);
+  const [appliedExpression, setAppliedExpression] = useState(defaultFilter.expression ?? '');
+
+  const serverFilterError = useMemo(
+    () => server ? findServerFilterError(typedExpression, server.fields, server.columns) : null,
+    [server, typedExpression]
+  );
+
+  useEffect(() => {
+    if (!serverFilterError) setAppliedExpression(typedExpression);
+  }, [serverFilterError, typedExpression]);
+
+  const serverQuery = useMemo<ServerQuery | null>(() => server
+    ? compileServerQuery({
+      expression: [baseExpression, appliedExpression]
+        .map(expression => expression.trim())
+        .filter(Boolean)
+        .map(expression => `(${expression})`)
+        .join(' AND '),
+      quickFilter: typedQuickFilter,
+      sort: { key: sortConfig.key === null ? null : String(sortConfig.key), direction: sortConfig.direction },
+      page,
+      pageSize,
+      fields: server.fields,
+      columns: server.columns
+    }).query
+    : null,
+  [server, baseExpression, appliedExpression, typedQuickFilter, sortConfig, page, pageSize]);
+
   return {
     // State
     page,
@@ -208,6 +270,11 @@ export function useDataGrid<T>({
     onSortChange: handleSortChange,
     onFilterChange: handleFilterChange,
     onFilterError: handleFilterError,
+    restoreState,
+
+    // Server mode
+    serverQuery,
+    serverFilterError,
 
     // Filter history
     canUndo,
@@ -0,0 +1,224 @@
+/**
+ * FILE: src/hooks/api/filters/useSavedFilters.ts
+ *
+ * Saved filter expressions for one lab (saved_filters table): the user's
+ * own, their clinics' and the organization's, as row-level security
+ * allows. Each is checked against the lab's fields when loaded, so a
+ * filter written before a field was renamed or retyped is flagged rather
+ * than applied. The database keeps every edit in saved_filter_versions;
+ * pins (saved_filter_pins) are per user.
+ */
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/types/supabase';
+import { logger } from '@/lib/logger';
+import { compileFilter, serverFilterError } from '@/lib/filter';
+import type { FilterColumnMap } from '@/lib/filter';
+import type { Database } from '@/types/database.types';
+import type {
+  FilterField,
+  FilterLab,
+  SavedFilter,
+  SavedFilterScope,
+  SavedFilterVersion
+} from '@/types/filter';
+
+type SavedFilterRow = Database['public']['Tables']['saved_filters']['Row'];
+
+export interface UseSavedFiltersOptions {
+  lab: FilterLab;
+  fields: FilterField[];
+  /** For a lab that filters in the database: filters the server can't run are flagged too */
+  columns?: FilterColumnMap;
+}
+
+export interface SaveFilterParams {
+  /** Updates this filter, recording a new version; inserts when omitted */
+  id?: string;
+  lab: FilterLab;
+  name: string;
+  expression: string;
+  description?: string;
+  scope: SavedFilterScope;
+  clinicId?: string | null;
+}
+
+export const savedFiltersKey = (lab: FilterLab) => ['saved-filters', lab];
+export const savedFilterVersionsKey = (id: string | null | undefined) => ['saved-filter-versions', id];
+
+/** A saved_filters row as the labs use it, validated against the lab's fields */
+export function toSavedFilter(
+  row: SavedFilterRow,
+  pinned: boolean,
+  fields: FilterField[],
+  columns?: FilterColumnMap
+): SavedFilter {
+  const error = columns
+    ? serverFilterError(row.filter_expression, fields, columns)
+    : compileFilter(row.filter_expression, fields).error;
+  return {
+    id: row.id,
+    name: row.name,
+    expression: row.filter_expression,
+    description: row.description ?? undefined,
+    lab: row.lab as FilterLab,
+    scope: row.scope as SavedFilterScope,
+    clinicId: row.clinic_id,
+    ownerId: row.user_id,
+    ownerEmail: row.owner_email,
+    version: row.version,
+    updatedAt: row.updated_at,
+    pinned,
+    error
+  };
+}
+
+export function useSavedFilters({ lab, fields, columns }: UseSavedFiltersOptions) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: savedFiltersKey(lab),
+    queryFn: async () => {
+      const [filters, pins] = await Promise.all([
+        supabase.from('saved_filters').select('*').eq('lab', lab).order('name', { ascending: true }),
+        supabase.from('saved_filter_pins').select('filter_id')
+      ]);
+      const failure = filters.error ?? pins.error;
+      if (failure) {
+        logger.error('[useSavedFilters] Failed to load saved filters', { lab, error: failure.message });
+        throw failure;
+      }
+      return { rows: filters.data ?? [], pinned: new Set((pins.data ?? []).map(pin => pin.filter_id)) };
+    },
+    staleTime: 60 * 1000
+  });
+
+  // Validated here rather than in the query so a change of fields re-checks cached rows
+  const filters = useMemo(
+    () => (data?.rows ?? []).map(row => toSavedFilter(row, data?.pinned.has(row.id) ?? false, fields, columns)),
+    [data, fields, columns]
+  );
+
+  return {
+    filters,
+    isLoading,
+    error: error instanceof Error ? error.message : error ? String(error) : null
+  };
+}
+
+export function useSavedFilterVersions(id?: string | null) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: savedFilterVersionsKey(id),
+    queryFn: async (): Promise<SavedFilterVersion[]> => {
+      const { data, error } = await supabase
+        .from('saved_filter_versions')
+        .select('*')
+        .eq('filter_id', id as string)
+        .order('version', { ascending: false });
+
+      if (error) {
+        logger.error('[useSavedFilterVersions] Failed to load versions', { id, error: error.message });
+        throw error;
+      }
+      return (data ?? []).map(row => ({
+        version: row.version,
+        name: row.name,
+        expression: row.filter_expression,
+        description: row.description ?? undefined,
+        editorEmail: row.editor_email,
+        createdAt: row.created_at
+      }));
+    },
+    enabled: Boolean(id)
+  });
+
+  return {
+    versions: data ?? [],
+    isLoading,
+    error: error instanceof Error ? error.message : error ? String(error) : null
+  };
+}
+
+/** Clinics the user belongs to, which they can share filters with */
+export function useFilterShareClinics() {
+  const { data } = useQuery({
+    queryKey: ['filter-share-clinics'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('clinic_memberships')
+        .select('clinic_id, clinics(name)');
+
+      if (error) {
+        logger.error('[useFilterShareClinics] Failed to load memberships', { error: error.message });
+        throw error;
+      }
+      return (data ?? []).map(row => ({ id: row.clinic_id, name: row.clinics?.name ?? row.clinic_id }));
+    },
+    staleTime: 5 * 60 * 1000
+  });
+  return data ?? [];
+}
+
+export function useSaveFilter() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, lab, name, expression, description, scope, clinicId }: SaveFilterParams) => {
+      const values = {
+        lab,
+        name: name.trim(),
+        filter_expression: expression.trim(),
+        description: description?.trim() ? description.trim() : null,
+        scope,
+        clinic_id: scope === 'clinic' ? clinicId ?? null : null
+      };
+      const { data, error } = id
+        ? await supabase.from('saved_filters').update(values).eq('id', id).select().single()
+        : await supabase.from('saved_filters').insert(values).select().single();
+
+      if (error) {
+        logger.error('[useSaveFilter] Save failed', { id, lab, error: error.message });
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (data, { lab }) => {
+      queryClient.invalidateQueries({ queryKey: savedFiltersKey(lab) });
+      queryClient.invalidateQueries({ queryKey: savedFilterVersionsKey(data.id) });
+    }
+  });
+}
+
+export function useDeleteSavedFilter() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; lab: FilterLab }) => {
+      const { error } = await supabase.from('saved_filters').delete().eq('id', id);
+      if (error) {
+        logger.error('[useDeleteSavedFilter] Delete failed', { id, error: error.message });
+        throw error;
+      }
+    },
+    onSuccess: (_, { lab }) => {
+      queryClient.invalidateQueries({ queryKey: savedFiltersKey(lab) });
+    }
+  });
+}
+
+export function usePinSavedFilter() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, pinned }: { id: string; lab: FilterLab; pinned: boolean }) => {
+      const { error } = pinned
+        ? await supabase.from('saved_filter_pins').insert({ filter_id: id })
+        : await supabase.from('saved_filter_pins').delete().eq('filter_id', id);
+      if (error) {
+        logger.error('[usePinSavedFilter] Pin change failed', { id, pinned, error: error.message });
+        throw error;
+      }
+    },
+    onSuccess: (_, { lab }) => {
+      queryClient.invalidateQueries({ queryKey: savedFiltersKey(lab) });
+    }
+  });
+}
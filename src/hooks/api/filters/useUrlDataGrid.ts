@@ -0,0 +1,156 @@
+/**
+ * FILE: src/hooks/api/filters/useUrlDataGrid.ts
+ *
+ * useDataGrid with its state mirrored in the URL (see
+ * src/lib/utils/tableUrlState.ts): page, page size, sort, quick filter,
+ * expression, visible and ordered columns, and any lab-specific extras.
+ * The URL is read once for the initial state; after that each change is
+ * written back. Typing replaces the current history entry once it settles;
+ * anything else adds one, so back and forward step through views. A URL
+ * change the hook didn't make (back/forward, a pasted link) is restored
+ * into the grid.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { isTypingChange, readTableUrlState, writeTableUrlState } from '@/lib/utils/tableUrlState';
+import type { TableUrlState } from '@/lib/utils/tableUrlState';
+import { useDataGrid } from './useDataGrid';
+import type { UseDataGridConfig, UseDataGridState } from './useDataGrid';
+
+export interface UseUrlDataGridConfig<T> extends Omit<UseDataGridConfig<T>, 'onStateChange'> {
+  /** Lab-specific params and their defaults; pass a stable (module-level) object */
+  extras?: Record<string, string>;
+  /** Page sizes the lab offers; any other size in the URL is ignored */
+  pageSizes?: readonly number[];
+  /** Server mode: the expression the extras stand for, applied as the baseExpression */
+  extrasExpression?: (extras: Record<string, string>) => string;
+}
+
+const NO_EXTRAS: Record<string, string> = {};
+
+// Matches useDataGrid's debounce of typed filters
+const TYPING_DELAY_MS = 300;
+
+function toUrlState<T>(grid: UseDataGridState<T>, columns: string[] | null, extras: Record<string, string>): TableUrlState {
+  return {
+    page: grid.page,
+    pageSize: grid.pageSize,
+    sort: { key: grid.sortConfig.key === null ? null : String(grid.sortConfig.key), direction: grid.sortConfig.direction },
+    quickFilter: grid.filterConfig.quickFilter ?? '',
+    expression: grid.filterConfig.expression ?? '',
+    columns,
+    extras
+  };
+}
+
+function toGridState<T>(state: TableUrlState): UseDataGridState<T> {
+  return {
+    page: state.page,
+    pageSize: state.pageSize,
+    sortConfig: { key: state.sort.key as keyof T | null, direction: state.sort.direction },
+    filterConfig: { quickFilter: state.quickFilter, expression: state.expression, columnFilters: [] }
+  };
+}
+
+export function useUrlDataGrid<T>({
+  extras: extraDefaults = NO_EXTRAS,
+  pageSizes,
+  extrasExpression,
+  ...config
+}: UseUrlDataGridConfig<T> = {}) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The view with nothing in the URL; only the first render's config counts
+  const [defaults] = useState<TableUrlState>(() => toUrlState<T>({
+    page: config.defaultPage ?? 1,
+    pageSize: config.defaultPageSize ?? 25,
+    sortConfig: config.defaultSort ?? { key: null, direction: 'asc' },
+    filterConfig: config.defaultFilter ?? {}
+  }, null, extraDefaults));
+  const [initial] = useState(() => readTableUrlState(searchParams, defaults, pageSizes));
+
+  const [columns, setColumnsState] = useState(initial.columns);
+  const [extras, setExtrasState] = useState(initial.extras);
+
+  const current = useRef(initial);
+  const lastSearch = useRef(searchParams.toString());
+  const pendingWrite = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancelPendingWrite = useCallback(() => {
+    if (pendingWrite.current !== null) clearTimeout(pendingWrite.current);
+    pendingWrite.current = null;
+  }, []);
+
+  const commit = useCallback((next: TableUrlState) => {
+    const previous = current.current;
+    current.current = next;
+    cancelPendingWrite();
+
+    const write = (replace: boolean) => {
+      const params = writeTableUrlState(latest.current.searchParams, next, defaults);
+      if (params.toString() === lastSearch.current) return;
+      lastSearch.current = params.toString();
+      latest.current.setSearchParams(params, { replace });
+    };
+    if (isTypingChange(previous, next)) {
+      pendingWrite.current = setTimeout(() => {
+        pendingWrite.current = null;
+        write(true);
+      }, TYPING_DELAY_MS);
+    } else {
+      write(false);
+    }
+  }, [defaults, cancelPendingWrite]);
+
+  const grid = useDataGrid<T>({
+    ...config,
+    defaultPage: initial.page,
+    defaultPageSize: initial.pageSize,
+    defaultSort: toGridState<T>(initial).sortConfig,
+    defaultFilter: toGridState<T>(initial).filterConfig,
+    baseExpression: extrasExpression ? extrasExpression(extras) : config.baseExpression,
+    onStateChange: state => commit(toUrlState(state, current.current.columns, current.current.extras))
+  });
+  const { restoreState, onPageChange } = grid;
+
+  // The latest values for commit and the URL effect, which run after render
+  const latest = useRef({ searchParams, setSearchParams, pageSizes, restoreState });
+  latest.current = { searchParams, setSearchParams, pageSizes, restoreState };
+
+  // Back/forward or a new link: bring the grid to what the URL says
+  const search = searchParams.toString();
+  useEffect(() => {
+    if (search === lastSearch.current) return;
+    lastSearch.current = search;
+    cancelPendingWrite();
+    const next = readTableUrlState(new URLSearchParams(search), defaults, latest.current.pageSizes);
+    current.current = next;
+    latest.current.restoreState(toGridState<T>(next));
+    setColumnsState(next.columns);
+    setExtrasState(next.extras);
+  }, [search, defaults, cancelPendingWrite]);
+
+  useEffect(() => cancelPendingWrite, [cancelPendingWrite]);
+
+  const setColumns = useCallback((next: string[] | null) => {
+    setColumnsState(next);
+    commit({ ...current.current, columns: next });
+  }, [commit]);
+
+  // Like a filter change, a new extra goes back to the first page
+  const setExtras = useCallback((update: Record<string, string>) => {
+    const next = { ...current.current.extras, ...update };
+    setExtrasState(next);
+    // Written through onStateChange, which picks the new extras up from here
+    current.current = { ...current.current, extras: next };
+    onPageChange(1);
+  }, [onPageChange]);
+
+  return {
+    ...grid,
+    columns,
+    setColumns,
+    extras,
+    setExtras
+  };
+}
@@ -1,61 +1,28 @@
 import { useQuery } from '@tanstack/react-query';
 import { logger } from '@/lib/logger';
-import { useRPC } from '@/hooks/api/core';
-
-interface PodDayResponse {
-    day_value: string;
-}
+import { useEcgDataSource } from '@/context/EcgDataSourceContext';
 
 export function usePodDays(podId: string | null) {
-    const { callRPC } = useRPC();
+    const source = useEcgDataSource();
     
     return useQuery<Date[]>({
-        queryKey: ['pod-days', podId],
+        queryKey: ['pod-days', source.id, podId],
         queryFn: async () => {
             if (!podId) {
                 logger.debug('Pod ID is null, skipping pod days fetch');
                 return [];
             }
 
-            logger.debug('Fetching pod days', { podId });
+            logger.debug('Fetching pod days', { podId, source: source.id });
 
             try {
-                const data = await callRPC(
-                    'get_pod_days',
-                    { p_pod_id: podId },
-                    { 
-                        component: 'usePodDays', 
-                        context: { podId }
-                    }
-                );
-
-                if (!data) {
-                    logger.warn('get_pod_days returned null/undefined', { podId });
-                    return []; 
-                }
-
-                if (!Array.isArray(data)) {
-                    logger.warn('get_pod_days did not return an array', { podId, dataType: typeof data });
-                    return [];
-                }
+                const days = await source.getDays(podId);
 
-                if (data.length === 0) {
+                if (days.length === 0) {
                     logger.info('No recording days found for pod', { podId });
-                    return [];
                 }
 
-                // Convert string dates to Date objects
-                return (data as PodDayResponse[])
-                    .map(row => {
-                        try {
-                            return new Date(row.day_value);
-                        } catch (e) {
-                            logger.warn('Failed to parse date', { value: row.day_value, error: e });
-                            return null;
-                        }
-                    })
-                    .filter((date): date is Date => date !== null)
-                    .sort((a, b) => a.getTime() - b.getTime());
+                return days;
             } catch (error) {
                 // Enhanced error logging
                 logger.error('Failed to fetch pod days', { 
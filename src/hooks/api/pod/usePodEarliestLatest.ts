@@ -1,15 +1,11 @@
 // src/hooks/usePodEarliestLatest.ts
 import { useQuery } from '@tanstack/react-query';
-import { useRPC } from '@/hooks/api/core';
+import { useEcgDataSource } from '@/context/EcgDataSourceContext';
 import { logger } from '@/lib/logger';
 
-interface PodTimeRow {
-  earliest_time: string | null;
-  latest_time: string | null;
-}
-
 /**
- * Queries get_pod_earliest_latest(p_pod_id) from Supabase
+ * First and last sample time of a pod from the active ECG data source
+ * (get_pod_earliest_latest in Supabase).
  * Uses React Query for data fetching and caching
  */
 export function usePodEarliestLatest(podId: string | null): {
@@ -19,7 +15,7 @@ export function usePodEarliestLatest(podId: string | null): {
   error: string | null;
   refetch: () => void;
 } {
-  const { callRPC } = useRPC();
+  const source = useEcgDataSource();
   
   const { 
     data, 
@@ -27,7 +23,7 @@ export function usePodEarliestLatest(podId: string | null): {
     error: queryError,
     refetch
   } = useQuery({
-    queryKey: ['pod-earliest-latest', podId],
+    queryKey: ['pod-earliest-latest', source.id, podId],
     queryFn: async () => {
       if (!podId) {
         return { earliest_time: null, latest_time: null };
@@ -36,22 +32,7 @@ export function usePodEarliestLatest(podId: string | null): {
       logger.debug('Fetching earliest/latest times for pod', { podId });
       
       try {
-        const data = await callRPC('get_pod_earliest_latest', {
-          p_pod_id: podId
-        }, {
-          component: 'usePodEarliestLatest',
-          context: { podId }
-        });
-        
-        if (!data || !Array.isArray(data) || data.length === 0) {
-          return { earliest_time: null, latest_time: null };
-        }
-        
-        const row = data[0] as PodTimeRow;
-        return {
-          earliest_time: row.earliest_time ? new Date(row.earliest_time) : null,
-          latest_time: row.latest_time ? new Date(row.latest_time) : null
-        };
+        return await source.getEarliestLatest(podId);
       } catch (error) {
         logger.error('Failed to fetch pod times', { error, podId });
         throw error instanceof Error ? error : new Error(String(error));
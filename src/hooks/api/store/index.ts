@@ -1,2 +1,3 @@
 export { useHolterFilter } from './useHolterFilter';
-export { useTableStore } from './tableStore'; 
\ No newline at end of file
+export { useTableStore } from './tableStore';
+export { useViewerPreferences } from './viewerPreferences';
@@ -0,0 +1,61 @@
+/**
+ * ECG viewer preferences, persisted per browser in localStorage
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { PAPER_GAINS, PAPER_SPEEDS } from '@/lib/ecg/paper';
+import type { PaperGain, PaperSpeed } from '@/lib/ecg/paper';
+
+interface ViewerPreferencesState {
+  /** Draw on the clinical paper grid at a fixed speed and gain */
+  paperMode: boolean;
+  paperSpeed: PaperSpeed;
+  paperGain: PaperGain;
+  /** Calibrated CSS pixels per mm for this screen; null until calibrated */
+  pxPerMm: number | null;
+  setPaperMode: (enabled: boolean) => void;
+  setPaperSpeed: (speed: PaperSpeed) => void;
+  setPaperGain: (gain: PaperGain) => void;
+  setPxPerMm: (pxPerMm: number | null) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  paperMode: false,
+  paperSpeed: 25 as PaperSpeed,
+  paperGain: 10 as PaperGain,
+  pxPerMm: null
+};
+
+export const useViewerPreferences = create<ViewerPreferencesState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      setPaperMode: (enabled) => set({ paperMode: enabled }),
+
+      setPaperSpeed: (speed) => set({ paperSpeed: speed }),
+
+      setPaperGain: (gain) => set({ paperGain: gain }),
+
+      setPxPerMm: (pxPerMm) => set({ pxPerMm: pxPerMm && pxPerMm > 0 ? pxPerMm : null }),
+
+      reset: () => set(initialState)
+    }),
+    {
+      name: 'ecg-lab-viewer-preferences',
+      version: 1,
+      // Drop values a stale or hand-edited entry may carry
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<ViewerPreferencesState>;
+        return {
+          ...current,
+          paperMode: typeof saved.paperMode === 'boolean' ? saved.paperMode : current.paperMode,
+          paperSpeed: PAPER_SPEEDS.includes(saved.paperSpeed as PaperSpeed) ? saved.paperSpeed as PaperSpeed : current.paperSpeed,
+          paperGain: PAPER_GAINS.includes(saved.paperGain as PaperGain) ? saved.paperGain as PaperGain : current.paperGain,
+          pxPerMm: typeof saved.pxPerMm === 'number' && saved.pxPerMm > 0 ? saved.pxPerMm : null
+        };
+      }
+    }
+  )
+);
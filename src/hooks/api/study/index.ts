@@ -7,3 +7,32 @@ export { useStudiesWithTimes } from './useStudiesWithTimes';
 export { useStudyAnalytics } from './useStudyAnalytics';
 export type { UseStudyAnalyticsResult, StudyAnalytics } from './useStudyAnalytics'; 
 export * from './useHolterFilters';
+
+export {
+  useStudyAnnotations,
+  useCreateAnnotation,
+  useUpdateAnnotation,
+  useDeleteAnnotation,
+  studyAnnotationsKey
+} from './useStudyAnnotations';
+export type {
+  UseStudyAnnotationsResult,
+  CreateAnnotationParams,
+  UpdateAnnotationParams
+} from './useStudyAnnotations';
+
+export {
+  useStripBookmarks,
+  useCreateStripBookmark,
+  useDeleteStripBookmark,
+  stripBookmarksKey
+} from './useStripBookmarks';
+export type { UseStripBookmarksResult, CreateStripBookmarkParams } from './useStripBookmarks';
+
+export {
+  useStudyMeasurements,
+  useSaveMeasurement,
+  useDeleteMeasurement,
+  studyMeasurementsKey
+} from './useStudyMeasurements';
+export type { UseStudyMeasurementsResult, SaveMeasurementParams } from './useStudyMeasurements';
@@ -1,88 +1,130 @@
-import { useCallback, useState } from 'react';
+import { useCallback } from 'react';
+import { useUrlDataGrid } from '@/hooks/api/filters/useUrlDataGrid';
 import type { HolterStudy } from '@/types/domain/holter';
-import { logger } from '@/lib/logger';
-import { parseExpression, evaluateJsepExpression } from '@/lib/utils/ExpressionParser';
-
-type QuickFilterId = 'all' | 'recent' | 'low-quality' | 'high-quality';
-
-export function useHolterFilters() {
-    const [quickFilter, setQuickFilter] = useState<QuickFilterId>('all');
-    const [advancedFilter, setAdvancedFilter] = useState<string>('');
-
-    const filterStudies = useCallback((studies: HolterStudy[]): HolterStudy[] => {
-        try {
-            let filtered = [...studies];
-
-            // Apply quick filters
-            switch (quickFilter) {
-                case 'recent': {
-                    const sevenDaysAgo = new Date();
-                    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-                    filtered = filtered.filter(study => 
-                        new Date(study.created_at) >= sevenDaysAgo
-                    );
-                    break;
-                }
-                case 'low-quality':
-                    filtered = filtered.filter(study => 
-                        study.qualityFraction < 0.8
-                    );
-                    break;
-                case 'high-quality':
-                    filtered = filtered.filter(study => 
-                        study.qualityFraction >= 0.8
-                    );
-                    break;
-                case 'all':
-                default:
-                    // No filtering needed
-                    break;
-            }
-
-            // Apply advanced filter if present
-            if (advancedFilter.trim()) {
-                filtered = filtered.filter(study => {
-                    try {
-                        // Create a safe evaluation context with only the necessary properties
-                        const context = {
-                            daysRemaining: study.daysRemaining,
-                            qualityFraction: study.qualityFraction,
-                            totalHours: study.totalHours,
-                            interruptions: study.interruptions,
-                            qualityVariance: study.qualityVariance
-                        };
-                        
-                        // Parse the expression using the safer ExpressionParser
-                        const parsedExpression = parseExpression(advancedFilter);
-                        
-                        // Evaluate the expression safely with the provided context
-                        const result = evaluateJsepExpression(parsedExpression, context);
-                        
-                        return Boolean(result);
-                    } catch (err) {
-                        logger.warn('Failed to evaluate advanced filter', { 
-                            filter: advancedFilter,
-                            error: err instanceof Error ? err.message : String(err)
-                        });
-                        return true; // Include study if filter evaluation fails
-                    }
-                });
-            }
-
-            return filtered;
-        } catch (err) {
-            logger.error('Error in filterStudies', { 
-                error: err instanceof Error ? err.message : String(err)
-            });
-            return studies; // Return unfiltered studies on error
-        }
-    }, [quickFilter, advancedFilter]);
+import type { FilterField, SavedFilter } from '@/types/filter';
+import type { FilterColumnMap } from '@/lib/filter';
+
+export type QuickFilterId = 'all' | 'recent' | 'low-quality' | 'high-quality';
+
+/** Fields the Holter advanced filter can use */
+export const HOLTER_FILTER_FIELDS: FilterField[] = [
+    { key: 'daysRemaining', type: 'number', description: 'Days left in study' },
+    { key: 'qualityFraction', type: 'number', description: 'Quality as fraction 0-1' },
+    { key: 'totalHours', type: 'number', description: 'Total recorded hours' },
+    { key: 'study_id', type: 'uuid', description: 'Study ID' },
+    { key: 'pod_id', type: 'uuid', description: 'Pod ID' },
+    { key: 'clinic_name', type: 'string', description: 'Clinic name' },
+    { key: 'created_at', type: 'date', description: 'When the study was created' },
+    { key: 'start_timestamp', type: 'date', description: 'Study start' },
+    { key: 'end_timestamp', type: 'date', description: 'Study end' }
+];
+
+/**
+ * Where each field lives in get_studies_with_pod_times. Status and the
+ * other values computed in the browser are not fields, since the database
+ * cannot filter or sort on them.
+ */
+export const HOLTER_FILTER_COLUMNS: FilterColumnMap = {
+    daysRemaining: 'expected_days_remaining',
+    qualityFraction: 'quality_fraction',
+    totalHours: { column: 'aggregated_total_minutes', scale: 60 },
+    study_id: 'study_id',
+    pod_id: 'pod_id',
+    clinic_name: 'clinic_name',
+    created_at: 'created_at',
+    start_timestamp: 'study_start',
+    end_timestamp: 'study_completed'
+};
+
+/** Shown in the empty filter input; must compile server-side */
+export const HOLTER_FILTER_PLACEHOLDER = "qualityFraction > 0.8 AND (daysRemaining < 5 OR clinic_name contains 'north')";
+
+/** Each quick filter as an expression in the filter language */
+export const QUICK_FILTER_EXPRESSIONS: Record<QuickFilterId, string> = {
+    'all': '',
+    'recent': 'created_at >= now-7d',
+    'low-quality': 'qualityFraction < 0.8',
+    'high-quality': 'qualityFraction >= 0.8'
+};
+
+function isBuiltInQuickFilter(id: string): id is QuickFilterId {
+    return Object.hasOwn(QUICK_FILTER_EXPRESSIONS, id);
+}
+
+/** The chip as read from the URL when it names a built-in or saved filter, otherwise 'all' */
+export function knownQuickFilter(chip: string, savedFilters: SavedFilter[] = []): string {
+    return isBuiltInQuickFilter(chip) || savedFilters.some(filter => filter.id === chip) ? chip : 'all';
+}
+
+/**
+ * The expression behind a quick filter chip: a built-in one, or a saved
+ * filter pinned as a chip. A saved filter that is gone or no longer valid
+ * filters nothing.
+ */
+export function quickFilterExpression(quickFilter: string, savedFilters: SavedFilter[] = []): string {
+    if (isBuiltInQuickFilter(quickFilter)) return QUICK_FILTER_EXPRESSIONS[quickFilter];
+    const saved = savedFilters.find(filter => filter.id === quickFilter);
+    return saved && !saved.error ? saved.expression : '';
+}
+
+/** The quick filter's expression and the advanced expression as one expression */
+export function holterFilterExpression(quickExpression: string, advancedFilter: string): string {
+    return [quickExpression.trim(), advancedFilter.trim()]
+        .filter(Boolean)
+        .map(expression => `(${expression})`)
+        .join(' AND ');
+}
+
+/** Filtering, sorting and paging all run in the database */
+const HOLTER_SERVER_GRID = {
+    fields: HOLTER_FILTER_FIELDS,
+    columns: HOLTER_FILTER_COLUMNS
+};
+
+/** The quick filter chip's URL param, next to the grid's own */
+const HOLTER_URL_EXTRAS = { chip: 'all' };
+
+export const HOLTER_PAGE_SIZES = [10, 25, 50, 100] as const;
+
+/**
+ * HolterLab's table, quick filter and advanced filter, all kept in the URL
+ * so a view survives a reload and can be sent as a link. The quick filter
+ * is a built-in chip or one of savedFilters and is applied together with
+ * the advanced expression, which the grid runs in the database.
+ */
+export function useHolterFilters(savedFilters: SavedFilter[] = []) {
+    const extrasExpression = useCallback(
+        (extras: Record<string, string>) => quickFilterExpression(knownQuickFilter(extras.chip, savedFilters), savedFilters),
+        [savedFilters]
+    );
+
+    const grid = useUrlDataGrid<HolterStudy>({
+        server: HOLTER_SERVER_GRID,
+        extras: HOLTER_URL_EXTRAS,
+        pageSizes: HOLTER_PAGE_SIZES,
+        extrasExpression
+    });
+    const { extras, filterConfig, serverFilterError, setExtras, onFilterChange } = grid;
+
+    const quickFilter = knownQuickFilter(extras.chip, savedFilters);
+    const advancedFilter = filterConfig.expression ?? '';
+
+    const setQuickFilter = useCallback((id: string) => setExtras({ chip: id }), [setExtras]);
+
+    const setAdvancedFilter = useCallback(
+        (expression: string) => onFilterChange({ expression }),
+        [onFilterChange]
+    );
 
     return {
+        ...grid,
         quickFilter,
         advancedFilter,
+        // Checked on its own so the error's column points into what was typed
+        advancedFilterError: serverFilterError,
+        /** Everything the user set up, for saving as a filter */
+        fullExpression: holterFilterExpression(quickFilterExpression(quickFilter, savedFilters), advancedFilter),
         setQuickFilter,
-        setAdvancedFilter,
-        filterStudies
+        setAdvancedFilter
     };
-} 
\ No newline at end of file
+}
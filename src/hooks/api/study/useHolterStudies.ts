@@ -1,49 +1,10 @@
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/types/supabase'
 import { logger } from '@/lib/logger';
+import type { ServerQuery } from '@/lib/filter';
 import type { HolterStudy } from '@/types/domain/holter';
-import { toHolterStudy, calculateHolterStatus } from '@/types/domain/holter';
-import { useHolterFilters } from '@/hooks/api/study/useHolterFilters';
+import { toHolterStudy } from '@/types/domain/holter';
 import type { StudiesWithTimesRow } from '@/types/domain/study';
-
-/**
- * Direct API call to bypass the type mismatch in Supabase client
- * 
- * This is a workaround for the error:
- * "Returned type timestamp with time zone does not match expected type timestamp without time zone in column 15"
- */
-async function fetchStudiesWithPodTimes(): Promise<StudiesWithTimesRow[]> {
-  try {
-    // Get current session
-    const { data: { session } } = await supabase.auth.getSession();
-    const accessToken = session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY;
-    
-    // Make direct API call to avoid type mismatch
-    const response = await fetch(
-      `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/rpc/get_studies_with_pod_times`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${accessToken}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API error: ${response.status} - ${errorText}`);
-    }
-
-    return await response.json();
-  } catch (error) {
-    logger.error('Error fetching studies with pod times', {
-      error: error instanceof Error ? error.message : String(error),
-    });
-    throw error;
-  }
-}
+import { fetchStudiesPage } from './useStudiesWithTimes';
 
 interface UseHolterStudiesResult {
     studies: HolterStudy[];
@@ -52,28 +13,37 @@ interface UseHolterStudiesResult {
     totalCount: number;
 }
 
-export function useHolterStudies() {
-    const { quickFilter, advancedFilter, filterStudies } = useHolterFilters();
-
-    const query = useQuery<HolterStudy[], Error>({
-        queryKey: ['holter-studies', quickFilter, advancedFilter],
+/**
+ * One page of Holter studies; filtering, sorting and paging run in the
+ * database (see HOLTER_FILTER_COLUMNS for how fields map onto columns)
+ */
+export function useHolterStudies(serverQuery: ServerQuery | null): UseHolterStudiesResult {
+    const query = useQuery<{ studies: HolterStudy[]; count: number }, Error>({
+        queryKey: ['holter-studies', serverQuery],
         queryFn: async () => {
             try {
-                // Use the direct API call function instead of Supabase client
-                const data = await fetchStudiesWithPodTimes();
-
-                if (!data) {
-                    return [];
-                }
+                const { rows, count } = await fetchStudiesPage(serverQuery!);
 
                 // Transform raw data to HolterStudy type
-                const studies = data.map((row: StudiesWithTimesRow) => toHolterStudy({
-                    ...row,
+                const studies = rows.map((row: StudiesWithTimesRow) => toHolterStudy({
+                    study_id: row.study_id,
+                    clinic_id: row.clinic_id,
+                    pod_id: row.pod_id,
+                    user_id: row.user_id,
+                    study_type: row.study_type,
+                    start_timestamp: row.study_start,
+                    end_timestamp: row.study_completed,
+                    expected_end_timestamp: row.expected_end,
+                    duration: row.expected_duration,
+                    aggregated_quality_minutes: row.aggregated_quality_minutes,
+                    aggregated_total_minutes: row.aggregated_total_minutes,
+                    created_at: row.created_at,
+                    created_by: row.created_by,
+                    updated_at: row.updated_at,
                     clinic_name: row.clinic_name ?? ''
                 }));
 
-                return filterStudies(studies);
-
+                return { studies, count };
             } catch (error) {
                 const err = error instanceof Error ? error : new Error('Unknown error fetching holter studies');
                 logger.error('Error in useHolterStudies:', { 
@@ -84,14 +54,16 @@ export function useHolterStudies() {
                 throw err;
             }
         },
+        enabled: !!serverQuery,
+        placeholderData: previous => previous,
         staleTime: 30 * 1000, // 30 seconds
         gcTime: 5 * 60 * 1000, // 5 minutes
     });
 
     return {
-        studies: query.data || [],
+        studies: query.data?.studies || [],
         isLoading: query.isLoading,
         error: query.error,
-        totalCount: query.data?.length || 0
+        totalCount: query.data?.count || 0
     };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,104 @@
+/**
+ * FILE: src/hooks/api/study/useStripBookmarks.ts
+ *
+ * Bookmarked ECG strips on a study (ecg_strip_bookmarks table): a time
+ * range plus the leads to include, collected from the viewer and exported
+ * together from the Holter detail page. Reads are per study, ordered by
+ * time; adding and deleting invalidate that study's list.
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from './supabase';
+import { logger } from '@/lib/logger';
+import type { ECGChannel } from '@/lib/ecg/beatDetection';
+import type { ECGStripBookmarkRow } from '@/types/domain/ecg';
+
+export interface UseStripBookmarksResult {
+  bookmarks: ECGStripBookmarkRow[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface CreateStripBookmarkParams {
+  studyId: string;
+  podId: string;
+  startTime: string;
+  endTime: string;
+  channels: ECGChannel[];
+  label?: string;
+}
+
+export const stripBookmarksKey = (studyId: string | null | undefined) => ['strip-bookmarks', studyId];
+
+export function useStripBookmarks(studyId?: string | null): UseStripBookmarksResult {
+  const { data, isLoading, error } = useQuery({
+    queryKey: stripBookmarksKey(studyId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ecg_strip_bookmarks')
+        .select('*')
+        .eq('study_id', studyId as string)
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        logger.error('[useStripBookmarks] Failed to load bookmarks', { studyId, error: error.message });
+        throw error;
+      }
+      return data ?? [];
+    },
+    enabled: Boolean(studyId),
+    staleTime: 30 * 1000
+  });
+
+  return {
+    bookmarks: data ?? [],
+    isLoading,
+    error: error instanceof Error ? error.message : error ? String(error) : null
+  };
+}
+
+export function useCreateStripBookmark() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ studyId, podId, startTime, endTime, channels, label }: CreateStripBookmarkParams) => {
+      const { data, error } = await supabase
+        .from('ecg_strip_bookmarks')
+        .insert({
+          study_id: studyId,
+          pod_id: podId,
+          start_time: startTime,
+          end_time: endTime,
+          channels: [...channels].sort((a, b) => a - b),
+          label: label?.trim() ? label.trim() : null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('[useCreateStripBookmark] Insert failed', { studyId, error: error.message });
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (_, { studyId }) => {
+      queryClient.invalidateQueries({ queryKey: stripBookmarksKey(studyId) });
+    }
+  });
+}
+
+export function useDeleteStripBookmark() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; studyId: string }) => {
+      const { error } = await supabase.from('ecg_strip_bookmarks').delete().eq('id', id);
+      if (error) {
+        logger.error('[useDeleteStripBookmark] Delete failed', { id, error: error.message });
+        throw error;
+      }
+    },
+    onSuccess: (_, { studyId }) => {
+      queryClient.invalidateQueries({ queryKey: stripBookmarksKey(studyId) });
+    }
+  });
+}
@@ -4,6 +4,31 @@ import type { StudiesWithTimesRow } from '@/types/domain/study';
 import { QueryResponse, QueryMetadata } from '@/types/utils';
 import { SupabaseError } from '../core/errors';
 import { logger } from '@/lib/logger';
+import { serverQueryParams } from '@/lib/filter';
+import type { FilterColumnMap, ServerQuery } from '@/lib/filter';
+import type { FilterField } from '@/types/filter';
+
+/** Fields of get_studies_with_pod_times rows, filterable in the database */
+export const STUDIES_WITH_TIMES_FILTER_FIELDS: FilterField[] = [
+    { key: 'study_id', type: 'uuid', description: 'Study ID' },
+    { key: 'clinic_name', type: 'string', description: 'Clinic name' },
+    { key: 'pod_id', type: 'uuid', description: 'Pod ID' },
+    { key: 'user_id', type: 'uuid', description: 'Patient user ID' },
+    { key: 'study_type', type: 'string', description: 'Study type' },
+    { key: 'study_status', type: 'string', description: 'Study status' },
+    { key: 'study_start', type: 'date', description: 'Study start' },
+    { key: 'study_completed', type: 'date', description: 'Study end' },
+    { key: 'duration_so_far', type: 'number', description: 'Duration so far' },
+    { key: 'quality_fraction', type: 'number', description: 'Quality as fraction 0-1' },
+    { key: 'expected_days_remaining', type: 'number', description: 'Days left in study' },
+    { key: 'earliest_ecg_data', type: 'date', description: 'First ECG data' },
+    { key: 'latest_ecg_data', type: 'date', description: 'Last ECG data' }
+];
+
+/** Every field is a column of the RPC's result set */
+export const STUDIES_WITH_TIMES_FILTER_COLUMNS: FilterColumnMap = Object.fromEntries(
+    STUDIES_WITH_TIMES_FILTER_FIELDS.map(field => [field.key, field.key])
+);
 
 /**
  * Direct API call to bypass the type mismatch in Supabase client
@@ -50,6 +75,41 @@ async function fetchStudiesWithPodTimes(): Promise<StudiesWithTimesRow[]> {
   }
 }
 
+/**
+ * One page of get_studies_with_pod_times with filtering, sorting and the
+ * range applied by PostgREST, plus the total number of matching rows
+ */
+export async function fetchStudiesPage(query: ServerQuery): Promise<{ rows: StudiesWithTimesRow[]; count: number }> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+    'Prefer': 'count=exact',
+  };
+  if (session?.access_token) {
+    headers['Authorization'] = `Bearer ${session.access_token}`;
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/rpc/get_studies_with_pod_times?${serverQueryParams(query)}`,
+    {
+      method: 'POST',
+      headers,
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`API error: ${response.status} - ${errorText}`);
+  }
+
+  // Content-Range: 0-24/1234
+  const rows: StudiesWithTimesRow[] = await response.json();
+  const total = Number(response.headers.get('content-range')?.split('/')[1]);
+  return { rows, count: Number.isFinite(total) ? total : rows.length };
+}
+
 // Utility function for sorting studies that handles mixed data types
 export function applySorting<T extends Record<string, any>>(
     data: T[],
@@ -98,6 +158,8 @@ interface FilterOptions {
     pageSize?: number;
     sortBy?: keyof StudiesWithTimesRow;
     sortDirection?: 'asc' | 'desc';
+    /** Server mode: filter, sort and page in the database; the options above are ignored */
+    query?: ServerQuery | null;
 }
 
 interface UseStudiesWithTimesResult {
@@ -117,12 +179,33 @@ export function useStudiesWithTimes({
     page = 0, 
     pageSize = 25,
     sortBy = 'study_id',
-    sortDirection = 'asc'
+    sortDirection = 'asc',
+    query: serverQuery
 }: FilterOptions): UseStudiesWithTimesResult {
     const queryKey = ['studiesWithTimes', { search, page, pageSize, sortBy, sortDirection }];
 
+    const serverPage = useQuery<{ rows: StudiesWithTimesRow[]; count: number }, Error>({
+        queryKey: ['studiesWithTimes', 'server', serverQuery],
+        queryFn: async () => {
+            try {
+                return await fetchStudiesPage(serverQuery!);
+            } catch (err) {
+                logger.error('Error fetching studies page:', {
+                    message: err instanceof Error ? err.message : String(err),
+                    query: serverQuery
+                });
+                throw err;
+            }
+        },
+        enabled: !!serverQuery,
+        placeholderData: previous => previous,
+        staleTime: 5000,
+        refetchOnWindowFocus: false
+    });
+
     const query = useQuery<StudiesWithTimesRow[], Error>({
         queryKey,
+        enabled: !serverQuery,
         queryFn: async () => {
             try {
                 // Use direct API call instead of supabase.rpc to bypass type mismatch
@@ -165,6 +248,17 @@ export function useStudiesWithTimes({
         refetchOnWindowFocus: false
     });
 
+    if (serverQuery) {
+        const count = serverPage.data?.count ?? 0;
+        return {
+            data: serverPage.data?.rows ?? [],
+            totalCount: count,
+            loading: serverPage.isLoading,
+            error: serverPage.error,
+            hasMore: count > serverQuery.to + 1
+        };
+    }
+
     // Apply client-side pagination manually
     const startIndex = page * pageSize;
     const endIndex = startIndex + pageSize;
@@ -0,0 +1,135 @@
+/**
+ * FILE: src/hooks/api/study/useStudyAnnotations.ts
+ *
+ * Reviewer annotations on a study's ECG (ecg_annotations table). Reads are
+ * per study, ordered by time; creating, editing and deleting invalidate
+ * that study's list. Author and timestamps are filled in by the database.
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from './supabase';
+import { logger } from '@/lib/logger';
+import type { ECGAnnotationRow } from '@/types/domain/ecg';
+import type { AnnotationDraft } from '@/lib/ecg/annotations';
+
+export interface UseStudyAnnotationsResult {
+  annotations: ECGAnnotationRow[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface CreateAnnotationParams extends Omit<AnnotationDraft, 'note'> {
+  studyId: string;
+  podId: string;
+  note?: string;
+}
+
+export interface UpdateAnnotationParams {
+  id: string;
+  studyId: string;
+  label?: string;
+  note?: string | null;
+}
+
+export const studyAnnotationsKey = (studyId: string | null | undefined) => ['study-annotations', studyId];
+
+export function useStudyAnnotations(studyId?: string | null): UseStudyAnnotationsResult {
+  const { data, isLoading, error } = useQuery({
+    queryKey: studyAnnotationsKey(studyId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ecg_annotations')
+        .select('*')
+        .eq('study_id', studyId as string)
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        logger.error('[useStudyAnnotations] Failed to load annotations', { studyId, error: error.message });
+        throw error;
+      }
+      return data ?? [];
+    },
+    enabled: Boolean(studyId),
+    staleTime: 30 * 1000
+  });
+
+  return {
+    annotations: data ?? [],
+    isLoading,
+    error: error instanceof Error ? error.message : error ? String(error) : null
+  };
+}
+
+export function useCreateAnnotation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ studyId, podId, channel, label, startTime, endTime, note }: CreateAnnotationParams) => {
+      const { data, error } = await supabase
+        .from('ecg_annotations')
+        .insert({
+          study_id: studyId,
+          pod_id: podId,
+          channel,
+          label,
+          start_time: startTime,
+          end_time: endTime,
+          note: note?.trim() ? note.trim() : null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('[useCreateAnnotation] Insert failed', { studyId, error: error.message });
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (_, { studyId }) => {
+      queryClient.invalidateQueries({ queryKey: studyAnnotationsKey(studyId) });
+    }
+  });
+}
+
+export function useUpdateAnnotation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, label, note }: UpdateAnnotationParams) => {
+      const { data, error } = await supabase
+        .from('ecg_annotations')
+        .update({
+          ...(label !== undefined && { label }),
+          ...(note !== undefined && { note: note?.trim() ? note.trim() : null })
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('[useUpdateAnnotation] Update failed', { id, error: error.message });
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (_, { studyId }) => {
+      queryClient.invalidateQueries({ queryKey: studyAnnotationsKey(studyId) });
+    }
+  });
+}
+
+export function useDeleteAnnotation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; studyId: string }) => {
+      const { error } = await supabase.from('ecg_annotations').delete().eq('id', id);
+      if (error) {
+        logger.error('[useDeleteAnnotation] Delete failed', { id, error: error.message });
+        throw error;
+      }
+    },
+    onSuccess: (_, { studyId }) => {
+      queryClient.invalidateQueries({ queryKey: studyAnnotationsKey(studyId) });
+    }
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * FILE: src/hooks/api/study/useStudyMeasurements.ts
+ *
+ * Caliper measurements saved against a study (ecg_measurements table).
+ * Reads are per study, ordered by time; saving and deleting invalidate
+ * that study's list.
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from './supabase';
+import { logger } from '@/lib/logger';
+import type { ECGMeasurementRow } from '@/types/domain/ecg';
+import type { CaliperMeasurement } from '@/lib/ecg/calipers';
+
+export interface UseStudyMeasurementsResult {
+  measurements: ECGMeasurementRow[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface SaveMeasurementParams {
+  studyId: string;
+  podId: string;
+  measurement: CaliperMeasurement;
+  note?: string;
+}
+
+export const studyMeasurementsKey = (studyId: string | null | undefined) => ['study-measurements', studyId];
+
+export function useStudyMeasurements(studyId?: string | null): UseStudyMeasurementsResult {
+  const { data, isLoading, error } = useQuery({
+    queryKey: studyMeasurementsKey(studyId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ecg_measurements')
+        .select('*')
+        .eq('study_id', studyId as string)
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        logger.error('[useStudyMeasurements] Failed to load measurements', { studyId, error: error.message });
+        throw error;
+      }
+      return data ?? [];
+    },
+    enabled: Boolean(studyId),
+    staleTime: 30 * 1000
+  });
+
+  return {
+    measurements: data ?? [],
+    isLoading,
+    error: error instanceof Error ? error.message : error ? String(error) : null
+  };
+}
+
+export function useSaveMeasurement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ studyId, podId, measurement, note }: SaveMeasurementParams) => {
+      const { data, error } = await supabase
+        .from('ecg_measurements')
+        .insert({
+          study_id: studyId,
+          pod_id: podId,
+          channel: measurement.channel,
+          kind: measurement.kind,
+          label: measurement.label,
+          start_time: measurement.startTime,
+          end_time: measurement.endTime,
+          duration_ms: measurement.durationMs,
+          amplitude_mv: measurement.amplitudeMv,
+          rate_bpm: measurement.rateBpm,
+          note: note ?? null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('[useSaveMeasurement] Insert failed', { studyId, error: error.message });
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (_, { studyId }) => {
+      queryClient.invalidateQueries({ queryKey: studyMeasurementsKey(studyId) });
+    }
+  });
+}
+
+export function useDeleteMeasurement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; studyId: string }) => {
+      const { error } = await supabase.from('ecg_measurements').delete().eq('id', id);
+      if (error) {
+        logger.error('[useDeleteMeasurement] Delete failed', { id, error: error.message });
+        throw error;
+      }
+    },
+    onSuccess: (_, { studyId }) => {
+      queryClient.invalidateQueries({ queryKey: studyMeasurementsKey(studyId) });
+    }
+  });
+}
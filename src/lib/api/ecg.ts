@@ -2,7 +2,9 @@
  * Domain-specific wrappers for ECG operations
  * Includes runtime validation and type safety
  */
+import { useMutation } from '@tanstack/react-query'
 import { useSupabaseQuery, useSupabaseRPC } from '@/hooks/api/core/useSupabase'
+import { useEcgDataSource } from '@/context/EcgDataSourceContext'
 import { toECGData } from '@/types/domain/ecg'
 import type { ECGData, ECGSampleRow, ECGQueryOptions, AggregatedLeadData } from '@/types/domain/ecg'
 import { isECGData } from '@/types/domain/ecg'
@@ -13,12 +15,15 @@ import { logger } from '@/lib/logger'
  */
 export function useECGData(options: ECGQueryOptions) {
   const { podId, timeStart, timeEnd, maxPoints } = options
+  const source = useEcgDataSource()
 
-  return useSupabaseRPC('downsample_ecg', {
-    p_pod_id: podId,
-    p_time_start: timeStart,
-    p_time_end: timeEnd,
-    p_factor: maxPoints || 1000,
+  return useMutation({
+    mutationFn: () => source.getRange({
+      pod_id: podId,
+      time_start: timeStart,
+      time_end: timeEnd,
+      max_points: maxPoints || 1000,
+    }),
   })
 }
 
@@ -43,8 +48,10 @@ export function useAggregatedLeadData(
  * Hook for getting pod data availability
  */
 export function usePodDays(podId: string) {
-  return useSupabaseRPC('get_pod_days', {
-    p_pod_id: podId,
+  const source = useEcgDataSource()
+
+  return useMutation({
+    mutationFn: () => source.getDays(podId),
   })
 }
 
@@ -52,8 +59,10 @@ export function usePodDays(podId: string) {
  * Hook for getting pod earliest/latest timestamps
  */
 export function usePodTimeRange(podId: string) {
-  return useSupabaseRPC('get_pod_earliest_latest', {
-    p_pod_id: podId,
+  const source = useEcgDataSource()
+
+  return useMutation({
+    mutationFn: () => source.getEarliestLatest(podId),
   })
 }
 
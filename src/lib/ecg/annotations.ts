@@ -0,0 +1,124 @@
+/**
+ * FILE: src/lib/ecg/annotations.ts
+ *
+ * Reviewer annotations on ECG strips: the label taxonomy, placement of an
+ * annotation's time range on a plotted trace, and list filtering.
+ *
+ * Labels are stored as plain ids, so the taxonomy is configuration rather
+ * than schema. An id that is no longer in the taxonomy still resolves (to a
+ * neutral entry named after the id), so old annotations keep rendering.
+ */
+import type { ECGChannel } from './beatDetection';
+import type { CaliperGeometry } from './calipers';
+import type { ECGAnnotationRow } from '@/types/domain/ecg';
+
+export interface AnnotationLabel {
+  id: string;
+  name: string;
+  /** Overlay and chip colour */
+  color: string;
+}
+
+export type AnnotationTaxonomy = readonly AnnotationLabel[];
+
+export const DEFAULT_ANNOTATION_TAXONOMY: AnnotationTaxonomy = [
+  { id: 'artifact', name: 'Artifact', color: '#94a3b8' },
+  { id: 'pvc', name: 'PVC', color: '#f87171' },
+  { id: 'pac', name: 'PAC', color: '#fb923c' },
+  { id: 'af', name: 'AF', color: '#c084fc' },
+  { id: 'pause', name: 'Pause', color: '#38bdf8' },
+  { id: 'noise', name: 'Noise', color: '#a3a3a3' },
+  { id: 'patient_event', name: 'Patient event', color: '#34d399' }
+];
+
+/** A brushed range with its label, before it is saved to a study */
+export interface AnnotationDraft {
+  /** Null when the annotation covers all leads */
+  channel: ECGChannel | null;
+  label: string;
+  startTime: string;
+  endTime: string;
+  note: string;
+}
+
+const UNKNOWN_LABEL_COLOR = '#9ca3af';
+
+export function findAnnotationLabel(
+  id: string,
+  taxonomy: AnnotationTaxonomy = DEFAULT_ANNOTATION_TAXONOMY
+): AnnotationLabel {
+  return taxonomy.find(l => l.id === id) ?? { id, name: id, color: UNKNOWN_LABEL_COLOR };
+}
+
+/**
+ * Fractional sample index of an epoch-ms time on a trace with ascending
+ * sample times, clamped to the trace.
+ */
+export function timeToIndex(times: ArrayLike<number>, t: number): number {
+  const n = times.length;
+  if (n === 0) return 0;
+  if (t <= times[0]) return 0;
+  if (t >= times[n - 1]) return n - 1;
+
+  let lo = 0;
+  let hi = n - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= t) lo = mid;
+    else hi = mid;
+  }
+  const span = times[hi] - times[lo];
+  return span > 0 ? lo + (t - times[lo]) / span : lo;
+}
+
+/**
+ * Pixel span of an annotation on a plotted trace, or null when the
+ * annotation does not overlap the trace. Uses the same x mapping as the
+ * renderers and calipers.
+ */
+export function annotationSpanX(
+  start: number,
+  end: number,
+  times: ArrayLike<number>,
+  geometry: CaliperGeometry
+): { x1: number; x2: number } | null {
+  const n = times.length;
+  if (n === 0 || end < times[0] || start > times[n - 1]) return null;
+  const toX = (index: number) => (index / n) * geometry.width * geometry.scaleX + geometry.translateX;
+  return {
+    x1: toX(timeToIndex(times, start)),
+    x2: toX(timeToIndex(times, end))
+  };
+}
+
+/** Whether an annotation applies to a plotted lead; null channel means all leads */
+export function annotationAppliesTo(annotation: Pick<ECGAnnotationRow, 'channel'>, channel: ECGChannel): boolean {
+  return annotation.channel === null || annotation.channel === channel;
+}
+
+export interface AnnotationFilter {
+  /** Label ids to keep; all labels when empty */
+  labels: string[];
+  /** Lead to keep (all-lead annotations always match); any lead when null */
+  channel: ECGChannel | null;
+  /** Case-insensitive match on the note and author */
+  search: string;
+}
+
+export const EMPTY_ANNOTATION_FILTER: AnnotationFilter = { labels: [], channel: null, search: '' };
+
+export function filterAnnotations<T extends Pick<ECGAnnotationRow, 'label' | 'channel' | 'note' | 'author_email'>>(
+  annotations: T[],
+  filter: AnnotationFilter
+): T[] {
+  const search = filter.search.trim().toLowerCase();
+  return annotations.filter(a => {
+    if (filter.labels.length && !filter.labels.includes(a.label)) return false;
+    if (filter.channel !== null && !annotationAppliesTo(a, filter.channel)) return false;
+    if (search) {
+      const haystack = `${a.note ?? ''} ${a.author_email ?? ''}`.toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    return true;
+  });
+}
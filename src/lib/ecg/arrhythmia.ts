@@ -0,0 +1,322 @@
+/**
+ * FILE: src/lib/ecg/arrhythmia.ts
+ *
+ * Rule-based arrhythmia event detection over beat sequences from
+ * detectBeats: pauses, bradycardia / tachycardia runs and suspected atrial
+ * fibrillation.
+ *
+ * All rules work on RR intervals between trusted beats only (see
+ * extractRRIntervals), so lead-off gaps are never reported as pauses and
+ * runs never span a gap. AF is flagged on sliding windows whose RR
+ * histogram entropy and normalized RMSSD are both high — an irregularly
+ * irregular rhythm — and windows are merged into events of a minimum
+ * duration. scanArrhythmias runs the rules over a long range chunk by
+ * chunk.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import { detectBeats } from './beatDetection';
+import type { DetectedBeat, ECGChannel } from './beatDetection';
+import { extractRRIntervals } from './hrv';
+import type { RRInterval } from './hrv';
+
+export type ArrhythmiaEventType = 'pause' | 'bradycardia' | 'tachycardia' | 'atrial_fibrillation';
+
+export interface ArrhythmiaEvent {
+  id: string;
+  type: ArrhythmiaEventType;
+  /** Epoch milliseconds */
+  start: number;
+  end: number;
+  channel: ECGChannel | null;
+  /** 0..1, how far past the rule thresholds the evidence is */
+  confidence: number;
+  beatCount: number;
+  minHeartRate: number | null;
+  maxHeartRate: number | null;
+  meanHeartRate: number | null;
+}
+
+export interface ArrhythmiaThresholds {
+  /** RR interval above which a pause is reported */
+  pauseMs: number;
+  bradycardiaBpm: number;
+  tachycardiaBpm: number;
+  /** Minimum consecutive beats for a brady/tachy run */
+  minRunBeats: number;
+  /** RR intervals per AF analysis window */
+  afWindowBeats: number;
+  /** Histogram bin width for RR entropy */
+  afEntropyBinMs: number;
+  /** Normalized Shannon entropy (0..1) above which RR is irregular */
+  afEntropyThreshold: number;
+  /** RMSSD / mean RR above which RR is irregular */
+  afRmssdThreshold: number;
+  /** Shortest AF episode that is reported */
+  afMinDurationMs: number;
+}
+
+export const DEFAULT_ARRHYTHMIA_THRESHOLDS: ArrhythmiaThresholds = {
+  pauseMs: 2500,
+  bradycardiaBpm: 50,
+  tachycardiaBpm: 120,
+  minRunBeats: 4,
+  afWindowBeats: 32,
+  afEntropyBinMs: 40,
+  afEntropyThreshold: 0.55,
+  afRmssdThreshold: 0.1,
+  afMinDurationMs: 30000
+};
+
+/**
+ * Per-study-type overrides. Keys are matched against study.study_type,
+ * case-insensitively with spaces and dashes normalized to underscores.
+ */
+export const STUDY_TYPE_THRESHOLDS: Record<string, Partial<ArrhythmiaThresholds>> = {
+  holter: {},
+  extended_holter: { pauseMs: 3000 },
+  event_monitor: { pauseMs: 3000, tachycardiaBpm: 140 },
+  pediatric: { pauseMs: 1800, bradycardiaBpm: 60, tachycardiaBpm: 180 }
+};
+
+export function thresholdsForStudyType(
+  studyType?: string | null,
+  overrides: Partial<ArrhythmiaThresholds> = {}
+): ArrhythmiaThresholds {
+  const key = (studyType ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return {
+    ...DEFAULT_ARRHYTHMIA_THRESHOLDS,
+    ...(STUDY_TYPE_THRESHOLDS[key] ?? {}),
+    ...overrides
+  };
+}
+
+/**
+ * Detect pauses, rate runs and suspected AF in a beat sequence.
+ */
+export function detectArrhythmias(
+  beats: DetectedBeat[],
+  channel: ECGChannel | null,
+  thresholds: ArrhythmiaThresholds = DEFAULT_ARRHYTHMIA_THRESHOLDS
+): ArrhythmiaEvent[] {
+  const { intervals } = extractRRIntervals(beats);
+  if (!intervals.length) return [];
+
+  const events = [
+    ...detectPauses(intervals, channel, thresholds),
+    ...detectRateRuns(intervals, channel, thresholds, 'bradycardia'),
+    ...detectRateRuns(intervals, channel, thresholds, 'tachycardia'),
+    ...detectAtrialFibrillation(intervals, channel, thresholds)
+  ];
+
+  return events.sort((a, b) => a.start - b.start);
+}
+
+/** Fetches the samples in [start, end), epoch milliseconds */
+export type ArrhythmiaSampleFetcher = (start: number, end: number) => Promise<ECGSample[]>;
+
+/**
+ * Lead-in fetched before each chunk. An RR interval into a chunk's first
+ * beat is measured only when the beat before it falls in the lead-in, so
+ * this bounds the longest pause found across a chunk boundary.
+ */
+export const ARRHYTHMIA_CHUNK_OVERLAP_MS = 60 * 1000;
+
+/**
+ * Detect events over a long range one chunk of samples at a time, so a
+ * whole day never sits in memory. Each chunk is fetched with a lead-in of
+ * overlapMs and beats are detected over both; only the chunk's own beats
+ * are kept, so every RR interval — including the ones that straddle a
+ * boundary — is measured once. The rules then run over the joined beat
+ * sequence, split only where the detection channel changes.
+ */
+export async function scanArrhythmias(
+  fetchSamples: ArrhythmiaSampleFetcher,
+  start: number,
+  end: number,
+  chunkMs: number,
+  thresholds: ArrhythmiaThresholds = DEFAULT_ARRHYTHMIA_THRESHOLDS,
+  overlapMs = ARRHYTHMIA_CHUNK_OVERLAP_MS
+): Promise<ArrhythmiaEvent[]> {
+  const events: ArrhythmiaEvent[] = [];
+  let segment: { channel: ECGChannel; beats: DetectedBeat[] } | null = null;
+
+  for (let chunkStart = start; chunkStart < end; chunkStart += chunkMs) {
+    const chunkEnd = Math.min(end, chunkStart + chunkMs);
+    const samples = await fetchSamples(Math.max(start, chunkStart - overlapMs), chunkEnd);
+    const { beats, channel } = detectBeats(samples);
+    if (channel === null) continue;
+
+    const own = beats.filter(beat => beat.time >= chunkStart && beat.time < chunkEnd);
+    if (segment && segment.channel !== channel) {
+      events.push(...detectArrhythmias(segment.beats, segment.channel, thresholds));
+      // The last beat stays as the anchor the next segment's first interval is counted from
+      segment = { channel, beats: segment.beats.slice(-1) };
+    }
+    segment ??= { channel, beats: [] };
+    segment.beats.push(...own);
+  }
+  if (segment) events.push(...detectArrhythmias(segment.beats, segment.channel, thresholds));
+
+  return events.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Shannon entropy of the RR histogram, normalized by the maximum possible
+ * entropy for the number of intervals (every interval in its own bin).
+ */
+export function rrEntropy(rr: number[], binMs: number): number {
+  if (rr.length < 2) return 0;
+  const counts = new Map<number, number>();
+  rr.forEach(v => {
+    const bin = Math.floor(v / binMs);
+    counts.set(bin, (counts.get(bin) ?? 0) + 1);
+  });
+  let entropy = 0;
+  counts.forEach(count => {
+    const p = count / rr.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy / Math.log2(rr.length);
+}
+
+function detectPauses(
+  intervals: RRInterval[],
+  channel: ECGChannel | null,
+  thresholds: ArrhythmiaThresholds
+): ArrhythmiaEvent[] {
+  return intervals
+    .filter(i => i.rrMs > thresholds.pauseMs)
+    .map(i => {
+      const hr = 60000 / i.rrMs;
+      return {
+        id: `pause-${i.time}`,
+        type: 'pause' as const,
+        start: i.time - i.rrMs,
+        end: i.time,
+        channel,
+        // Both bounding beats were detected on clean signal, so a long
+        // interval is strong evidence; confidence grows with the overshoot
+        confidence: clamp(0.7 + 0.3 * ((i.rrMs - thresholds.pauseMs) / thresholds.pauseMs)),
+        beatCount: 2,
+        minHeartRate: hr,
+        maxHeartRate: hr,
+        meanHeartRate: hr
+      };
+    });
+}
+
+function detectRateRuns(
+  intervals: RRInterval[],
+  channel: ECGChannel | null,
+  thresholds: ArrhythmiaThresholds,
+  type: 'bradycardia' | 'tachycardia'
+): ArrhythmiaEvent[] {
+  const limit = type === 'bradycardia' ? thresholds.bradycardiaBpm : thresholds.tachycardiaBpm;
+  const inRun = (hr: number) => (type === 'bradycardia' ? hr < limit : hr > limit);
+  const events: ArrhythmiaEvent[] = [];
+
+  let run: RRInterval[] = [];
+  const flush = () => {
+    // A run of n intervals spans n + 1 beats
+    if (run.length + 1 >= thresholds.minRunBeats) {
+      const rates = run.map(i => 60000 / i.rrMs);
+      const mean = rates.reduce((sum, hr) => sum + hr, 0) / rates.length;
+      const overshoot = Math.abs(mean - limit) / limit;
+      const lengthScore = Math.min(1, (run.length + 1) / (2 * thresholds.minRunBeats));
+      events.push({
+        id: `${type}-${run[0].time}`,
+        type,
+        start: run[0].time - run[0].rrMs,
+        end: run[run.length - 1].time,
+        channel,
+        confidence: clamp(0.5 + 0.25 * lengthScore + 0.25 * clamp(overshoot * 2.5)),
+        beatCount: run.length + 1,
+        minHeartRate: Math.min(...rates),
+        maxHeartRate: Math.max(...rates),
+        meanHeartRate: mean
+      });
+    }
+    run = [];
+  };
+
+  intervals.forEach(interval => {
+    if (!interval.followsPrevious) flush();
+    if (inRun(60000 / interval.rrMs)) {
+      run.push(interval);
+    } else {
+      flush();
+    }
+  });
+  flush();
+
+  return events;
+}
+
+function detectAtrialFibrillation(
+  intervals: RRInterval[],
+  channel: ECGChannel | null,
+  thresholds: ArrhythmiaThresholds
+): ArrhythmiaEvent[] {
+  const size = thresholds.afWindowBeats;
+  const step = Math.max(1, Math.floor(size / 4));
+  const flagged: Array<{ first: number; last: number; confidence: number }> = [];
+
+  for (let start = 0; start + size <= intervals.length; start += step) {
+    const window = intervals.slice(start, start + size);
+    // Windows must be contiguous clean signal
+    if (window.slice(1).some(i => !i.followsPrevious)) continue;
+
+    const rr = window.map(i => i.rrMs);
+    const meanRR = rr.reduce((sum, v) => sum + v, 0) / rr.length;
+    let sumSq = 0;
+    for (let k = 1; k < rr.length; k++) sumSq += (rr[k] - rr[k - 1]) ** 2;
+    const nRmssd = Math.sqrt(sumSq / (rr.length - 1)) / meanRR;
+    const entropy = rrEntropy(rr, thresholds.afEntropyBinMs);
+
+    if (entropy > thresholds.afEntropyThreshold && nRmssd > thresholds.afRmssdThreshold) {
+      const entropyMargin = (entropy - thresholds.afEntropyThreshold) / (1 - thresholds.afEntropyThreshold);
+      const rmssdMargin = (nRmssd - thresholds.afRmssdThreshold) / thresholds.afRmssdThreshold;
+      flagged.push({
+        first: start,
+        last: start + size - 1,
+        confidence: clamp(0.5 + 0.25 * clamp(entropyMargin) + 0.25 * clamp(rmssdMargin))
+      });
+    }
+  }
+
+  // Merge overlapping windows into episodes
+  const episodes: Array<{ first: number; last: number; confidence: number; windows: number }> = [];
+  flagged.forEach(w => {
+    const current = episodes[episodes.length - 1];
+    if (current && w.first <= current.last + 1) {
+      current.last = Math.max(current.last, w.last);
+      current.confidence += w.confidence;
+      current.windows++;
+    } else {
+      episodes.push({ ...w, windows: 1 });
+    }
+  });
+
+  return episodes
+    .map(episode => {
+      const span = intervals.slice(episode.first, episode.last + 1);
+      const rates = span.map(i => 60000 / i.rrMs);
+      return {
+        id: `atrial_fibrillation-${span[0].time}`,
+        type: 'atrial_fibrillation' as const,
+        start: span[0].time - span[0].rrMs,
+        end: span[span.length - 1].time,
+        channel,
+        confidence: episode.confidence / episode.windows,
+        beatCount: span.length + 1,
+        minHeartRate: Math.min(...rates),
+        maxHeartRate: Math.max(...rates),
+        meanHeartRate: rates.reduce((sum, hr) => sum + hr, 0) / rates.length
+      };
+    })
+    .filter(event => event.end - event.start >= thresholds.afMinDurationMs);
+}
+
+function clamp(value: number, min = 0, max = 1): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,337 @@
+/**
+ * FILE: src/lib/ecg/beatDetection.ts
+ *
+ * Pan-Tompkins style QRS / R-peak detector that runs over the ECGSample
+ * arrays returned by the downsample-ecg edge function.
+ *
+ * Pipeline: band-pass (5-15 Hz, zero-phase) → derivative → squaring →
+ * moving-window integration → adaptive dual thresholds with search-back.
+ * The R-peak is then located on the band-passed trace around each accepted
+ * integration peak.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import { designBiquad, filtfilt } from './filters';
+
+export type ECGChannel = 1 | 2 | 3;
+
+export interface BeatDetectionOptions {
+  /** Channel to detect on when it is usable. Defaults to Lead II. */
+  preferredChannel?: ECGChannel;
+  /** Minimum fraction of usable samples for a channel to be considered. */
+  minUsableFraction?: number;
+  /** Override the sampling rate instead of deriving it from timestamps. */
+  samplingRate?: number;
+  /** Refractory period after a beat, in milliseconds. */
+  refractoryMs?: number;
+}
+
+export interface DetectedBeat {
+  /** Index into the source sample array */
+  index: number;
+  /** Epoch milliseconds */
+  time: number;
+  /** Raw channel value at the R-peak */
+  amplitude: number;
+  /** Interval to the previous beat, null after a gap or for the first beat */
+  rrMs: number | null;
+  /** Instantaneous heart rate in bpm, derived from rrMs */
+  heartRate: number | null;
+}
+
+export interface HeartRateStats {
+  min: number;
+  mean: number;
+  max: number;
+}
+
+export interface ChannelUsability {
+  channel: ECGChannel;
+  usableFraction: number;
+}
+
+export interface BeatDetectionResult {
+  /** Channel the detector ran on, null when no channel was usable */
+  channel: ECGChannel | null;
+  /** True when the preferred channel was rejected and another one used */
+  fellBack: boolean;
+  channelUsability: ChannelUsability[];
+  samplingRate: number;
+  beats: DetectedBeat[];
+  heartRate: HeartRateStats | null;
+}
+
+const CHANNELS: ECGChannel[] = [1, 2, 3];
+const DEFAULT_MIN_USABLE_FRACTION = 0.6;
+const DEFAULT_REFRACTORY_MS = 200;
+const INTEGRATION_WINDOW_MS = 150;
+const MIN_RR_MS = 200;
+
+/**
+ * A sample is usable on a channel when both electrodes are on and the
+ * device flagged the sample as good quality.
+ */
+export function isSampleUsable(sample: ECGSample, channel: ECGChannel): boolean {
+  const i = channel - 1;
+  return sample.lead_on_p[i] && sample.lead_on_n[i] && sample.quality[i];
+}
+
+/**
+ * Derive the sampling rate from the first and last timestamps.
+ */
+export function estimateSamplingRate(samples: ECGSample[]): number {
+  if (samples.length < 2) return 0;
+  const first = Date.parse(samples[0].time);
+  const last = Date.parse(samples[samples.length - 1].time);
+  const spanMs = last - first;
+  if (!Number.isFinite(spanMs) || spanMs <= 0) return 0;
+  return ((samples.length - 1) * 1000) / spanMs;
+}
+
+/**
+ * Rank channels by usability and pick the preferred one if it passes the
+ * threshold, otherwise the most usable channel that does.
+ */
+export function selectDetectionChannel(
+  samples: ECGSample[],
+  preferredChannel: ECGChannel = 2,
+  minUsableFraction = DEFAULT_MIN_USABLE_FRACTION
+): { channel: ECGChannel | null; fellBack: boolean; channelUsability: ChannelUsability[] } {
+  const channelUsability = CHANNELS.map(channel => {
+    if (!samples.length) return { channel, usableFraction: 0 };
+    let usable = 0;
+    for (const sample of samples) {
+      if (isSampleUsable(sample, channel)) usable++;
+    }
+    return { channel, usableFraction: usable / samples.length };
+  });
+
+  const preferred = channelUsability.find(c => c.channel === preferredChannel)!;
+  if (preferred.usableFraction >= minUsableFraction) {
+    return { channel: preferredChannel, fellBack: false, channelUsability };
+  }
+
+  const best = [...channelUsability]
+    .filter(c => c.usableFraction >= minUsableFraction)
+    .sort((a, b) => b.usableFraction - a.usableFraction)[0];
+
+  return {
+    channel: best ? best.channel : null,
+    fellBack: true,
+    channelUsability
+  };
+}
+
+/**
+ * Detect R-peaks and compute a beat-by-beat heart rate track.
+ */
+export function detectBeats(
+  samples: ECGSample[],
+  options: BeatDetectionOptions = {}
+): BeatDetectionResult {
+  const {
+    preferredChannel = 2,
+    minUsableFraction = DEFAULT_MIN_USABLE_FRACTION,
+    refractoryMs = DEFAULT_REFRACTORY_MS
+  } = options;
+
+  const samplingRate = options.samplingRate ?? estimateSamplingRate(samples);
+  const { channel, fellBack, channelUsability } = selectDetectionChannel(
+    samples,
+    preferredChannel,
+    minUsableFraction
+  );
+
+  const empty: BeatDetectionResult = {
+    channel,
+    fellBack,
+    channelUsability,
+    samplingRate,
+    beats: [],
+    heartRate: null
+  };
+
+  // Need at least a couple of seconds of data to seed the thresholds
+  if (channel === null || samplingRate <= 0 || samples.length < samplingRate * 2) {
+    return empty;
+  }
+
+  const raw = samples.map(s => s.channels[channel - 1]);
+  const usable = samples.map(s => isSampleUsable(s, channel));
+  const times = samples.map(s => Date.parse(s.time));
+
+  const filtered = bandPass(raw, samplingRate, 5, 15);
+  const integrated = movingWindowIntegrate(
+    square(derivative(filtered)),
+    Math.max(1, Math.round((INTEGRATION_WINDOW_MS / 1000) * samplingRate))
+  );
+
+  const refractory = Math.max(1, Math.round((refractoryMs / 1000) * samplingRate));
+  const peaks = thresholdPeaks(integrated, usable, samplingRate, refractory);
+
+  // Locate the R-peak on the band-passed trace near each integration peak
+  const searchRadius = Math.max(1, Math.round(0.1 * samplingRate));
+  const rPeaks: number[] = [];
+  for (const peak of peaks) {
+    let best = peak;
+    const lo = Math.max(0, peak - searchRadius);
+    const hi = Math.min(filtered.length - 1, peak + searchRadius);
+    for (let i = lo; i <= hi; i++) {
+      if (Math.abs(filtered[i]) > Math.abs(filtered[best])) best = i;
+    }
+    if (!usable[best]) continue;
+    if (rPeaks.length && best - rPeaks[rPeaks.length - 1] < refractory) continue;
+    rPeaks.push(best);
+  }
+
+  const beats: DetectedBeat[] = rPeaks.map((index, k) => {
+    let rrMs: number | null = null;
+    if (k > 0) {
+      const prev = rPeaks[k - 1];
+      // Don't report an interval across samples we can't trust
+      let contiguous = true;
+      for (let i = prev; i <= index; i++) {
+        if (!usable[i]) {
+          contiguous = false;
+          break;
+        }
+      }
+      const interval = times[index] - times[prev];
+      if (contiguous && interval >= MIN_RR_MS) rrMs = interval;
+    }
+    return {
+      index,
+      time: times[index],
+      amplitude: raw[index],
+      rrMs,
+      heartRate: rrMs ? 60000 / rrMs : null
+    };
+  });
+
+  return {
+    ...empty,
+    beats,
+    heartRate: summarizeHeartRate(beats)
+  };
+}
+
+/**
+ * Min/mean/max over the beats that have an instantaneous heart rate.
+ */
+export function summarizeHeartRate(beats: DetectedBeat[]): HeartRateStats | null {
+  const rates = beats
+    .map(b => b.heartRate)
+    .filter((hr): hr is number => hr !== null);
+  if (!rates.length) return null;
+
+  return {
+    min: Math.min(...rates),
+    mean: rates.reduce((sum, hr) => sum + hr, 0) / rates.length,
+    max: Math.max(...rates)
+  };
+}
+
+/**
+ * Adaptive dual-threshold peak classification on the integrated signal
+ * (signal/noise running estimates, with search-back for missed beats).
+ */
+function thresholdPeaks(
+  signal: number[],
+  usable: boolean[],
+  samplingRate: number,
+  refractory: number
+): number[] {
+  // Seed the running estimates from the first two seconds
+  const seedEnd = Math.min(signal.length, Math.round(samplingRate * 2));
+  let seedMax = 0;
+  let seedSum = 0;
+  for (let i = 0; i < seedEnd; i++) {
+    seedMax = Math.max(seedMax, signal[i]);
+    seedSum += signal[i];
+  }
+  let spki = seedMax * 0.25;
+  let npki = (seedSum / Math.max(1, seedEnd)) * 0.5;
+  let threshold = npki + 0.25 * (spki - npki);
+
+  const accepted: number[] = [];
+  const candidates: number[] = [];
+  let rrAverage = samplingRate; // assume 60 bpm until we know better
+
+  for (let i = 1; i < signal.length - 1; i++) {
+    if (!(signal[i] > signal[i - 1] && signal[i] >= signal[i + 1])) continue;
+    if (!usable[i]) continue;
+
+    const last = accepted[accepted.length - 1];
+    if (last !== undefined && i - last < refractory) {
+      // Keep the larger of two peaks inside the refractory period
+      if (signal[i] > signal[last]) {
+        accepted[accepted.length - 1] = i;
+      }
+      continue;
+    }
+
+    if (signal[i] > threshold) {
+      spki = 0.125 * signal[i] + 0.875 * spki;
+      accepted.push(i);
+    } else {
+      npki = 0.125 * signal[i] + 0.875 * npki;
+      candidates.push(i);
+
+      // Search back for a missed beat when the current interval runs long
+      if (last !== undefined && i - last > 1.66 * rrAverage) {
+        const missed = candidates
+          .filter(c => c > last + refractory && i - c >= refractory && signal[c] > threshold / 2)
+          .sort((a, b) => signal[b] - signal[a])[0];
+        if (missed !== undefined) {
+          spki = 0.25 * signal[missed] + 0.75 * spki;
+          accepted.push(missed);
+          accepted.sort((a, b) => a - b);
+        }
+      }
+    }
+    threshold = npki + 0.25 * (spki - npki);
+
+    if (accepted.length >= 2) {
+      const recent = accepted.slice(-9);
+      let total = 0;
+      for (let k = 1; k < recent.length; k++) total += recent[k] - recent[k - 1];
+      rrAverage = total / (recent.length - 1);
+    }
+  }
+
+  return accepted;
+}
+
+function bandPass(x: number[], fs: number, lowHz: number, highHz: number): number[] {
+  const nyquist = fs / 2;
+  const hp = Math.min(lowHz, nyquist * 0.8);
+  const lp = Math.min(highHz, nyquist * 0.9);
+  return filtfilt(filtfilt(x, designBiquad('highpass', hp, fs)), designBiquad('lowpass', lp, fs));
+}
+
+function derivative(x: number[]): number[] {
+  const n = x.length;
+  return x.map((_, i) => {
+    const xm2 = x[Math.max(0, i - 2)];
+    const xm1 = x[Math.max(0, i - 1)];
+    const xp1 = x[Math.min(n - 1, i + 1)];
+    const xp2 = x[Math.min(n - 1, i + 2)];
+    return (-xp2 + 8 * xp1 - 8 * xm1 + xm2) / 12;
+  });
+}
+
+function square(x: number[]): number[] {
+  return x.map(v => v * v);
+}
+
+// Centered moving average so the integration peak lines up with the QRS
+function movingWindowIntegrate(x: number[], window: number): number[] {
+  const half = Math.floor(window / 2);
+  const prefix = new Array<number>(x.length + 1);
+  prefix[0] = 0;
+  for (let i = 0; i < x.length; i++) prefix[i + 1] = prefix[i] + x[i];
+  return x.map((_, i) => {
+    const lo = Math.max(0, i - half);
+    const hi = Math.min(x.length, i + half + 1);
+    return (prefix[hi] - prefix[lo]) / (hi - lo);
+  });
+}
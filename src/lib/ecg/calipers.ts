@@ -0,0 +1,150 @@
+/**
+ * FILE: src/lib/ecg/calipers.ts
+ *
+ * Electronic calipers: geometry and measurement for time (interval) and
+ * amplitude calipers drawn over a plotted trace. Both caliper ends snap to
+ * samples, so a measurement is always between two recorded points.
+ */
+import type { ECGChannel } from './beatDetection';
+import { ECG_UNITS_PER_MV } from './paper';
+import type { ECGMeasurementRow } from '@/types/domain/ecg';
+
+export type CaliperKind = 'time' | 'amplitude';
+
+export const MEASUREMENT_LABELS = ['RR', 'PR', 'QRS', 'QT', 'amplitude', 'other'] as const;
+export type MeasurementLabel = typeof MEASUREMENT_LABELS[number];
+
+export interface Caliper {
+  id: string;
+  kind: CaliperKind;
+  label: MeasurementLabel;
+  startIndex: number;
+  endIndex: number;
+  /** Repeat the interval across the strip (time calipers only) */
+  marchOut: boolean;
+}
+
+export interface CaliperMeasurement {
+  kind: CaliperKind;
+  label: MeasurementLabel;
+  channel: ECGChannel;
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  amplitudeMv: number;
+  /** 60000 / duration, for RR intervals */
+  rateBpm: number | null;
+}
+
+/** Plot mapping shared with the renderers: x = (i / n) * width * scaleX + translateX */
+export interface CaliperGeometry {
+  width: number;
+  height: number;
+  scaleX: number;
+  translateX: number;
+  yMin: number;
+  yMax: number;
+}
+
+export function indexToX(index: number, count: number, g: CaliperGeometry): number {
+  return (index / Math.max(1, count)) * g.width * g.scaleX + g.translateX;
+}
+
+/**
+ * Nearest sample to a CSS x position, clamped to the trace.
+ */
+export function xToIndex(x: number, count: number, g: CaliperGeometry): number {
+  if (count <= 0) return 0;
+  const index = Math.round(((x - g.translateX) / (g.width * g.scaleX)) * count);
+  return Math.min(count - 1, Math.max(0, index));
+}
+
+export function valueToY(value: number, g: CaliperGeometry): number {
+  return g.height - ((value - g.yMin) / (g.yMax - g.yMin)) * g.height;
+}
+
+export function defaultLabel(kind: CaliperKind): MeasurementLabel {
+  return kind === 'time' ? 'RR' : 'amplitude';
+}
+
+/**
+ * Duration and amplitude between the two caliper ends. Ends may be in
+ * either order; the measurement is always forward in time.
+ */
+export function measureCaliper(
+  caliper: Caliper,
+  channel: ECGChannel,
+  times: ArrayLike<number>,
+  values: ArrayLike<number>,
+  unitsPerMv = ECG_UNITS_PER_MV
+): CaliperMeasurement | null {
+  const a = Math.min(caliper.startIndex, caliper.endIndex);
+  const b = Math.max(caliper.startIndex, caliper.endIndex);
+  if (a < 0 || b >= times.length || b >= values.length) return null;
+
+  const durationMs = times[b] - times[a];
+  // Amplitude keeps the direction the caliper was drawn in
+  const amplitudeMv = (values[caliper.endIndex] - values[caliper.startIndex]) / unitsPerMv;
+  return {
+    kind: caliper.kind,
+    label: caliper.label,
+    channel,
+    startTime: new Date(times[a]).toISOString(),
+    endTime: new Date(times[b]).toISOString(),
+    durationMs,
+    amplitudeMv,
+    rateBpm: caliper.kind === 'time' && caliper.label === 'RR' && durationMs > 0 ? 60000 / durationMs : null
+  };
+}
+
+/**
+ * Sample indices of a marched-out interval: the caliper's span repeated
+ * in both directions until it leaves the trace.
+ */
+export function marchOutIndices(startIndex: number, endIndex: number, count: number): number[] {
+  const step = Math.abs(endIndex - startIndex);
+  if (step === 0 || count <= 0) return [];
+  const origin = Math.min(startIndex, endIndex);
+  const indices: number[] = [];
+  for (let i = origin - step; i >= 0; i -= step) indices.unshift(i);
+  for (let i = origin; i < count; i += step) indices.push(i);
+  return indices;
+}
+
+export function formatMeasurement(m: Pick<CaliperMeasurement, 'kind' | 'label' | 'durationMs' | 'amplitudeMv' | 'rateBpm'>): string {
+  if (m.kind === 'amplitude') {
+    return `${m.label === 'amplitude' ? '' : `${m.label} `}${m.amplitudeMv.toFixed(2)} mV`;
+  }
+  const rate = m.rateBpm ? ` · ${Math.round(m.rateBpm)} bpm` : '';
+  return `${m.label} ${Math.round(m.durationMs)} ms${rate}`;
+}
+
+/**
+ * Saved measurements as CSV, with `# key,value` metadata lines first.
+ */
+export function formatMeasurementsCsv(
+  rows: ECGMeasurementRow[],
+  meta: Record<string, string | number | null> = {}
+): string {
+  const lines: string[] = [];
+  Object.entries(meta).forEach(([key, value]) => lines.push(`# ${key},${value ?? ''}`));
+  const num = (value: number | null, digits: number) => (value === null ? '' : value.toFixed(digits));
+  // Notes are free text; quote them and double embedded quotes
+  const text = (value: string | null) => (value ? `"${value.replace(/"/g, '""')}"` : '');
+
+  lines.push('label,kind,lead,start_time,end_time,duration_ms,amplitude_mv,rate_bpm,note');
+  rows.forEach(row => {
+    lines.push([
+      row.label,
+      row.kind,
+      row.channel,
+      row.start_time,
+      row.end_time,
+      num(row.duration_ms, 1),
+      num(row.amplitude_mv, 3),
+      num(row.rate_bpm, 1),
+      text(row.note)
+    ].join(','));
+  });
+  return lines.join('\n') + '\n';
+}
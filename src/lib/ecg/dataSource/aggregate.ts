@@ -0,0 +1,62 @@
+/**
+ * FILE: src/lib/ecg/dataSource/aggregate.ts
+ *
+ * Lead-on and quality percentages per time bucket, in the shape the
+ * aggregate_leads RPC returns, for the sources that read samples in the
+ * browser. Buckets start at multiples of the bucket size since the epoch,
+ * as time_bucket's do, and only buckets holding samples are returned.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import type { AggregatedLeadData } from '@/types/domain/ecg';
+import type { EcgAggregateRequest, EcgRangeRequest } from './types';
+
+// Percentages don't need every sample; a day of minute buckets keeps ~70 per bucket
+export const AGGREGATE_SOURCE_POINTS = 100000;
+
+/** The decimated read a window's aggregates are computed from */
+export function aggregateSourceRequest({ pod_id, time_start, time_end }: EcgAggregateRequest): EcgRangeRequest {
+  return { pod_id, time_start, time_end, factor: 1, max_points: AGGREGATE_SOURCE_POINTS };
+}
+
+interface Bucket {
+  start: number;
+  count: number;
+  // lead_on_p 1-3, lead_on_n 1-3, quality 1-3
+  on: number[];
+}
+
+export function aggregateSamples(samples: ECGSample[], bucketSeconds: number): AggregatedLeadData[] {
+  const bucketMs = bucketSeconds * 1000;
+  const buckets = new Map<number, Bucket>();
+
+  for (const sample of samples) {
+    const start = Math.floor(Date.parse(sample.time) / bucketMs) * bucketMs;
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = { start, count: 0, on: new Array(9).fill(0) };
+      buckets.set(start, bucket);
+    }
+    bucket.count++;
+    [...sample.lead_on_p, ...sample.lead_on_n, ...sample.quality].forEach((on, i) => {
+      if (on) bucket!.on[i]++;
+    });
+  }
+
+  return [...buckets.values()]
+    .sort((a, b) => a.start - b.start)
+    .map(({ start, count, on }) => {
+      const percent = (i: number) => (on[i] / count) * 100;
+      return {
+        time_bucket: new Date(start).toISOString(),
+        lead_on_p_1: percent(0),
+        lead_on_p_2: percent(1),
+        lead_on_p_3: percent(2),
+        lead_on_n_1: percent(3),
+        lead_on_n_2: percent(4),
+        lead_on_n_3: percent(5),
+        quality_1_percent: percent(6),
+        quality_2_percent: percent(7),
+        quality_3_percent: percent(8)
+      };
+    });
+}
@@ -0,0 +1,168 @@
+/**
+ * FILE: src/lib/ecg/dataSource/binary.ts
+ *
+ * The binary downsample-ecg payload, returned instead of JSON when the
+ * request's Accept header names ECG_BINARY_CONTENT_TYPE. The edge function
+ * has its own encoder (supabase/functions/downsample-ecg/binary.ts); the
+ * encoder here mirrors it for tests and local tooling.
+ *
+ * Layout, little-endian (typed-array views assume a little-endian host,
+ * which every browser and Deno target is):
+ *
+ *   0   4  magic "ECGB"
+ *   4   1  version (1)
+ *   5   1  flags: bit 0 TIMES (per-sample times follow the header),
+ *                 bit 1 FLOAT32 (channels are Float32, else Int16)
+ *   6   2  reserved
+ *   8   4  sample count n (uint32)
+ *  12   4  reserved
+ *  16   8  start time, epoch ms (float64)
+ *  24   8  sample interval, ms (float64); 0 with TIMES
+ *  32      [TIMES] n × float64 ms offsets from the start time
+ *          3 × n channel values, channel 1 first
+ *          9 × ceil(n / 8) bytes of packed flags: lead_on_p_1..3,
+ *          lead_on_n_1..3, quality_1..3; sample i is bit i % 8 of byte i >> 3
+ *
+ * Evenly spaced samples (decimate) need only the start time and interval;
+ * the bucketing methods pick irregular samples and carry their times.
+ * Every section starts on a multiple of its element size, so the arrays
+ * are read as views without copying.
+ */
+import { createSampleBuffer, SAMPLE_FLAG } from '../sampleBuffer';
+import type { ECGSampleBuffer } from '../sampleBuffer';
+
+export const ECG_BINARY_CONTENT_TYPE = 'application/vnd.ecg-lab.samples';
+export const ECG_BINARY_VERSION = 1;
+
+const MAGIC = 'ECGB';
+const HEADER_SIZE = 32;
+const FLAG_TIMES = 1;
+const FLAG_FLOAT32 = 2;
+// Flag planes in payload order, as SAMPLE_FLAG bits
+const FLAG_PLANES = [...SAMPLE_FLAG.leadOnP, ...SAMPLE_FLAG.leadOnN, ...SAMPLE_FLAG.quality];
+// Deviation from the even grid below which samples count as evenly spaced.
+// ISO timestamps carry whole milliseconds, so a 12.5 ms grid reads back as
+// 0, 12, 25, 37...; samples bucketing picks off the grid are at least one
+// pod interval (3.125 ms) out.
+const GRID_TOLERANCE_MS = 1;
+
+export class ECGBinaryFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ECGBinaryFormatError';
+  }
+}
+
+// Least-squares slope of time against index, so millisecond rounding of
+// the last sample does not skew the interval
+function evenInterval(times: Float64Array): number | null {
+  const n = times.length;
+  if (n < 2) return 0;
+  const meanIndex = (n - 1) / 2;
+  let meanTime = 0;
+  for (let k = 0; k < n; k++) meanTime += (times[k] - times[0]) / n;
+  let num = 0;
+  let den = 0;
+  for (let k = 0; k < n; k++) {
+    num += (k - meanIndex) * (times[k] - times[0] - meanTime);
+    den += (k - meanIndex) * (k - meanIndex);
+  }
+  const interval = num / den;
+  if (!(interval > 0)) return null;
+  for (let k = 1; k < n; k++) {
+    if (Math.abs(times[k] - (times[0] + k * interval)) >= GRID_TOLERANCE_MS) return null;
+  }
+  return interval;
+}
+
+function fitsInt16(values: Float32Array): boolean {
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (!Number.isInteger(v) || v < -32768 || v > 32767) return false;
+  }
+  return true;
+}
+
+export function encodeECGBinary(buffer: ECGSampleBuffer): ArrayBuffer {
+  const n = buffer.length;
+  const interval = evenInterval(buffer.times);
+  const withTimes = interval === null;
+  const float32 = !buffer.channels.every(fitsInt16);
+  const valueSize = float32 ? 4 : 2;
+  const planeSize = Math.ceil(n / 8);
+
+  const timesOffset = HEADER_SIZE;
+  const channelsOffset = timesOffset + (withTimes ? n * 8 : 0);
+  const flagsOffset = channelsOffset + 3 * n * valueSize;
+  const out = new ArrayBuffer(flagsOffset + FLAG_PLANES.length * planeSize);
+  const view = new DataView(out);
+
+  for (let i = 0; i < MAGIC.length; i++) view.setUint8(i, MAGIC.charCodeAt(i));
+  view.setUint8(4, ECG_BINARY_VERSION);
+  view.setUint8(5, (withTimes ? FLAG_TIMES : 0) | (float32 ? FLAG_FLOAT32 : 0));
+  view.setUint32(8, n, true);
+  const start = n ? buffer.times[0] : 0;
+  view.setFloat64(16, start, true);
+  view.setFloat64(24, interval ?? 0, true);
+
+  if (withTimes) {
+    const offsets = new Float64Array(out, timesOffset, n);
+    for (let i = 0; i < n; i++) offsets[i] = buffer.times[i] - start;
+  }
+  buffer.channels.forEach((values, c) => {
+    const at = channelsOffset + c * n * valueSize;
+    if (float32) new Float32Array(out, at, n).set(values);
+    else new Int16Array(out, at, n).set(values);
+  });
+  const bytes = new Uint8Array(out, flagsOffset);
+  FLAG_PLANES.forEach((mask, p) => {
+    for (let i = 0; i < n; i++) {
+      if (buffer.flags[i] & mask) bytes[p * planeSize + (i >> 3)] |= 1 << (i & 7);
+    }
+  });
+  return out;
+}
+
+export function decodeECGBinary(data: ArrayBuffer): ECGSampleBuffer {
+  if (data.byteLength < HEADER_SIZE) throw new ECGBinaryFormatError('Payload is shorter than the header');
+  const view = new DataView(data);
+  const magic = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (magic !== MAGIC) throw new ECGBinaryFormatError('Not an ECG binary payload');
+  const version = view.getUint8(4);
+  if (version !== ECG_BINARY_VERSION) throw new ECGBinaryFormatError(`Unsupported payload version ${version}`);
+
+  const flags = view.getUint8(5);
+  const n = view.getUint32(8, true);
+  const start = view.getFloat64(16, true);
+  const interval = view.getFloat64(24, true);
+  const withTimes = (flags & FLAG_TIMES) !== 0;
+  const valueSize = flags & FLAG_FLOAT32 ? 4 : 2;
+  const planeSize = Math.ceil(n / 8);
+
+  const timesOffset = HEADER_SIZE;
+  const channelsOffset = timesOffset + (withTimes ? n * 8 : 0);
+  const flagsOffset = channelsOffset + 3 * n * valueSize;
+  const expected = flagsOffset + FLAG_PLANES.length * planeSize;
+  if (data.byteLength < expected) {
+    throw new ECGBinaryFormatError(`Payload is truncated: ${data.byteLength} of ${expected} bytes`);
+  }
+
+  const buffer = createSampleBuffer(n);
+  if (withTimes) {
+    const offsets = new Float64Array(data, timesOffset, n);
+    for (let i = 0; i < n; i++) buffer.times[i] = start + offsets[i];
+  } else {
+    for (let i = 0; i < n; i++) buffer.times[i] = start + i * interval;
+  }
+  buffer.channels.forEach((values, c) => {
+    const at = channelsOffset + c * n * valueSize;
+    values.set(valueSize === 4 ? new Float32Array(data, at, n) : new Int16Array(data, at, n));
+  });
+  const bytes = new Uint8Array(data, flagsOffset);
+  FLAG_PLANES.forEach((mask, p) => {
+    for (let i = 0; i < n; i++) {
+      if (bytes[p * planeSize + (i >> 3)] & (1 << (i & 7))) buffer.flags[i] |= mask;
+    }
+  });
+  return buffer;
+}
@@ -0,0 +1,23 @@
+/**
+ * ECG data sources
+ * Supabase for production, memory for files opened from disk, synthetic
+ * for working offline. VITE_ECG_DATA_SOURCE=synthetic is demo mode: the
+ * generated signal, demo scenario included, becomes the app-wide default.
+ */
+import { createSupabaseDataSource } from './supabase';
+import { createSyntheticDataSource } from './synthetic';
+import type { EcgDataSource } from './types';
+
+export * from './types';
+export { createSupabaseDataSource, parallelArraysToSamples, parallelArraysToBuffer } from './supabase';
+export * from './binary';
+export * from './stream';
+export { createMemoryDataSource } from './memory';
+export { createSyntheticDataSource } from './synthetic';
+export type { SyntheticDataSourceOptions } from './synthetic';
+
+export function createDefaultDataSource(): EcgDataSource {
+  return import.meta.env.VITE_ECG_DATA_SOURCE === 'synthetic'
+    ? createSyntheticDataSource()
+    : createSupabaseDataSource();
+}
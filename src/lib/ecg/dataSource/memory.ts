@@ -0,0 +1,60 @@
+/**
+ * FILE: src/lib/ecg/dataSource/memory.ts
+ *
+ * Source for files opened from disk (see lib/ecg/localRecordings). The
+ * pod id is the local recording id; every read is served from memory and
+ * nothing is persisted, so the tile cache is skipped.
+ */
+import { getLocalRecording, localDiagnostics, readLocalSamples } from '../localRecordings';
+import { sampleBufferFromSamples } from '../sampleBuffer';
+import { aggregateSamples, aggregateSourceRequest } from './aggregate';
+import { streamWindows } from './stream';
+import type { EcgDataSource } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createMemoryDataSource(): EcgDataSource {
+  const getRangeBuffer: EcgDataSource['getRangeBuffer'] = async request =>
+    sampleBufferFromSamples(readLocalSamples(request));
+
+  return {
+    id: 'memory',
+    persistent: false,
+
+    async getRange(request) {
+      return readLocalSamples(request);
+    },
+
+    getRangeBuffer,
+
+    streamRange(request, onChunk, signal) {
+      return streamWindows(getRangeBuffer, request, onChunk, signal);
+    },
+
+    async getDays(podId) {
+      const local = getLocalRecording(podId);
+      if (!local) return [];
+      const days: Date[] = [];
+      for (let day = Math.floor(local.startTime / DAY_MS) * DAY_MS; day < local.endTime; day += DAY_MS) {
+        days.push(new Date(day));
+      }
+      return days;
+    },
+
+    async getEarliestLatest(podId) {
+      const local = getLocalRecording(podId);
+      return {
+        earliest_time: local ? new Date(local.startTime) : null,
+        latest_time: local ? new Date(local.endTime) : null
+      };
+    },
+
+    async getDiagnostics(request) {
+      return localDiagnostics(request);
+    },
+
+    async getAggregates(request) {
+      return aggregateSamples(readLocalSamples(aggregateSourceRequest(request)), request.bucket_seconds);
+    }
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * FILE: src/lib/ecg/dataSource/stream.ts
+ *
+ * Streamed delivery of a window in consecutive chunks. downsample-ecg
+ * answers a request carrying chunk_seconds with one of two streams,
+ * picked from the Accept header:
+ *
+ *   ECG_STREAM_CONTENT_TYPE  length-prefixed frames: uint32 chunk index,
+ *                            uint32 payload length (both little-endian),
+ *                            then the payload in the binary wire format
+ *                            (see ./binary)
+ *   NDJSON_CONTENT_TYPE      one JSON object per line: index, total,
+ *                            chunk_start, chunk_end and the parallel
+ *                            arrays under data
+ *
+ * An error after the stream has started arrives in-band: a frame with
+ * index STREAM_ERROR_INDEX whose payload is the JSON error body, or a
+ * line with an error field. Both readers throw it.
+ *
+ * Client and function split the window the same way (chunkWindows), so a
+ * binary frame needs only its index.
+ */
+import type { ECGSampleBuffer } from '../sampleBuffer';
+import type { EcgStreamChunk, EcgStreamRequest, EcgRangeRequest } from './types';
+
+export const ECG_STREAM_CONTENT_TYPE = 'application/vnd.ecg-lab.samples-stream';
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+export const STREAM_ERROR_INDEX = 0xffffffff;
+
+const FRAME_HEADER_SIZE = 8;
+// Chunks a window is split into when the caller leaves it to us
+const TARGET_CHUNKS = 8;
+const MIN_CHUNK_SECONDS = 30;
+// Longest chunk downsample-ecg accepts (its MAX_CHUNK_SECONDS)
+export const MAX_CHUNK_SECONDS = 3600;
+// Smallest per-chunk budget the function accepts
+const MIN_CHUNK_POINTS = 10;
+
+export interface EcgChunkWindow {
+  time_start: string;
+  time_end: string;
+}
+
+/**
+ * Chunk span for streaming a window: about TARGET_CHUNKS chunks, none
+ * shorter than MIN_CHUNK_SECONDS, so short windows arrive in one piece,
+ * and none longer than MAX_CHUNK_SECONDS, so windows over 8 hours arrive
+ * in more chunks.
+ */
+export function streamChunkSeconds(time_start: string, time_end: string): number {
+  const spanSeconds = (Date.parse(time_end) - Date.parse(time_start)) / 1000;
+  return Math.min(MAX_CHUNK_SECONDS, Math.max(MIN_CHUNK_SECONDS, Math.ceil(spanSeconds / TARGET_CHUNKS)));
+}
+
+/** Consecutive windows of chunk_seconds from time_start; the last one ends at time_end */
+export function chunkWindows(time_start: string, time_end: string, chunk_seconds: number): EcgChunkWindow[] {
+  const start = Date.parse(time_start);
+  const end = Date.parse(time_end);
+  const chunkMs = chunk_seconds * 1000;
+  const windows: EcgChunkWindow[] = [];
+  for (let from = start; from < end; from += chunkMs) {
+    windows.push({
+      time_start: new Date(from).toISOString(),
+      time_end: new Date(Math.min(end, from + chunkMs)).toISOString()
+    });
+  }
+  return windows;
+}
+
+/** A chunk's share of the window's point budget */
+export function chunkMaxPoints(request: EcgRangeRequest, window: EcgChunkWindow): number | undefined {
+  if (request.max_points === undefined) return undefined;
+  const share = (Date.parse(window.time_end) - Date.parse(window.time_start))
+    / (Date.parse(request.time_end) - Date.parse(request.time_start));
+  return Math.max(MIN_CHUNK_POINTS, Math.ceil(request.max_points * share));
+}
+
+function abortError(): DOMException {
+  return new DOMException('ECG stream cancelled', 'AbortError');
+}
+
+/**
+ * streamRange for sources without a streaming transport: each chunk is
+ * fetched with getRangeBuffer in turn.
+ */
+export async function streamWindows(
+  getRangeBuffer: (request: EcgRangeRequest, signal?: AbortSignal) => Promise<ECGSampleBuffer>,
+  request: EcgStreamRequest,
+  onChunk: (chunk: EcgStreamChunk) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const { chunk_seconds, ...range } = request;
+  const windows = chunkWindows(range.time_start, range.time_end, chunk_seconds);
+  for (let index = 0; index < windows.length; index++) {
+    if (signal?.aborted) throw abortError();
+    const window = windows[index];
+    const buffer = await getRangeBuffer(
+      { ...range, ...window, max_points: chunkMaxPoints(range, window) },
+      signal
+    );
+    if (signal?.aborted) throw abortError();
+    onChunk({ index, total: windows.length, chunk_start: window.time_start, chunk_end: window.time_end, buffer });
+  }
+}
+
+function streamError(body: unknown): Error {
+  const message = body && typeof body === 'object' && 'error' in body ? String(body.error) : 'ECG stream failed';
+  return new Error(message);
+}
+
+/** JSON values of an NDJSON body, one per non-empty line */
+export async function* readNDJSON<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  const parse = (line: string): T => {
+    const value = JSON.parse(line);
+    if (value && typeof value === 'object' && 'error' in value) throw streamError(value);
+    return value as T;
+  };
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = pending.indexOf('\n')) >= 0) {
+        const line = pending.slice(0, newline).trim();
+        pending = pending.slice(newline + 1);
+        if (line) yield parse(line);
+      }
+    }
+    const rest = (pending + decoder.decode()).trim();
+    if (rest) yield parse(rest);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export interface BinaryStreamFrame {
+  index: number;
+  /** Own buffer, so the binary decoder can view it at aligned offsets */
+  payload: ArrayBuffer;
+}
+
+/** Frames of a length-prefixed binary body, as they complete */
+export async function* readBinaryFrames(body: ReadableStream<Uint8Array>): AsyncGenerator<BinaryStreamFrame> {
+  const reader = body.getReader();
+  let pending = new Uint8Array(0);
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const joined = new Uint8Array(pending.length + value.length);
+      joined.set(pending);
+      joined.set(value, pending.length);
+      pending = joined;
+
+      while (pending.length >= FRAME_HEADER_SIZE) {
+        const view = new DataView(pending.buffer, pending.byteOffset, FRAME_HEADER_SIZE);
+        const index = view.getUint32(0, true);
+        const length = view.getUint32(4, true);
+        if (pending.length < FRAME_HEADER_SIZE + length) break;
+        const payload = pending.slice(FRAME_HEADER_SIZE, FRAME_HEADER_SIZE + length).buffer;
+        pending = pending.subarray(FRAME_HEADER_SIZE + length);
+        if (index === STREAM_ERROR_INDEX) {
+          throw streamError(JSON.parse(new TextDecoder().decode(payload)));
+        }
+        yield { index, payload };
+      }
+    }
+    if (pending.length > 0) throw new Error('ECG stream ended inside a frame');
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * FILE: src/lib/ecg/dataSource/supabase.ts
+ *
+ * The production source: ecg_sample rows behind the downsample-ecg and
+ * get-ecg-diagnostics edge functions, and the get_pod_days,
+ * get_pod_earliest_latest and aggregate_leads RPCs. The edge functions
+ * are called with fetch rather than supabase.functions.invoke so requests
+ * can be aborted.
+ *
+ * Samples are requested in the binary wire format (see ./binary) and
+ * decoded into an ECGSampleBuffer; a deployment still answering JSON is
+ * read through parallelArraysToBuffer instead. Streamed windows (see
+ * ./stream) prefer binary frames over NDJSON, and take the whole window
+ * as one chunk from a deployment that does not stream.
+ */
+import { supabase } from '@/types/supabase';
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import { createSampleBuffer, packSampleFlags, sampleBufferToSamples } from '../sampleBuffer';
+import type { ECGSampleBuffer } from '../sampleBuffer';
+import { decodeECGBinary, ECG_BINARY_CONTENT_TYPE } from './binary';
+import { chunkWindows, ECG_STREAM_CONTENT_TYPE, NDJSON_CONTENT_TYPE, readBinaryFrames, readNDJSON } from './stream';
+import type {
+  DownsampleECGResponse,
+  EcgDataSource,
+  ECGDiagnosticMetrics,
+  EcgRangeRequest,
+  EcgStreamChunk,
+  EcgStreamRequest
+} from './types';
+
+// The functions check the caller's clinic access, so they need the user's token, not the anon key
+async function accessToken(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY;
+}
+
+async function postEdgeFunction(name: string, body: object, signal?: AbortSignal, accept = 'application/json'): Promise<Response> {
+  const token = await accessToken();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': accept,
+      'Authorization': `Bearer ${token}`,
+      'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+      'x-client-info': 'ecg-lab-app',
+      'x-application-name': 'ecg-lab'
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.error || `Edge function returned status ${response.status}`);
+  }
+
+  return response;
+}
+
+async function invokeEdgeFunction<T>(name: string, body: object, signal?: AbortSignal): Promise<T> {
+  const response = await postEdgeFunction(name, body, signal);
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Transform the downsample_ecg parallel arrays into ECGSample objects
+ */
+export function parallelArraysToSamples(parallelData: DownsampleECGResponse): ECGSample[] {
+  const transformedSamples: ECGSample[] = [];
+
+  if (parallelData.timestamps && Array.isArray(parallelData.timestamps)) {
+    for (let i = 0; i < parallelData.timestamps.length; i++) {
+      transformedSamples.push({
+        time: parallelData.timestamps[i],
+        channels: [
+          parallelData.channel_1?.[i] ?? 0,
+          parallelData.channel_2?.[i] ?? 0,
+          parallelData.channel_3?.[i] ?? 0
+        ],
+        lead_on_p: [
+          parallelData.lead_on_p_1?.[i] ?? false,
+          parallelData.lead_on_p_2?.[i] ?? false,
+          parallelData.lead_on_p_3?.[i] ?? false
+        ],
+        lead_on_n: [
+          parallelData.lead_on_n_1?.[i] ?? false,
+          parallelData.lead_on_n_2?.[i] ?? false,
+          parallelData.lead_on_n_3?.[i] ?? false
+        ],
+        quality: [
+          parallelData.quality_1?.[i] ?? false,
+          parallelData.quality_2?.[i] ?? false,
+          parallelData.quality_3?.[i] ?? false
+        ]
+      });
+    }
+  }
+
+  return transformedSamples;
+}
+
+/**
+ * The downsample_ecg parallel arrays as a sample buffer
+ */
+export function parallelArraysToBuffer(parallelData: DownsampleECGResponse): ECGSampleBuffer {
+  const buffer = createSampleBuffer(parallelData.timestamps?.length ?? 0);
+  for (let i = 0; i < buffer.length; i++) {
+    buffer.times[i] = Date.parse(parallelData.timestamps[i]);
+    buffer.channels[0][i] = parallelData.channel_1?.[i] ?? 0;
+    buffer.channels[1][i] = parallelData.channel_2?.[i] ?? 0;
+    buffer.channels[2][i] = parallelData.channel_3?.[i] ?? 0;
+    buffer.flags[i] = packSampleFlags(
+      [parallelData.lead_on_p_1?.[i], parallelData.lead_on_p_2?.[i], parallelData.lead_on_p_3?.[i]].map(Boolean),
+      [parallelData.lead_on_n_1?.[i], parallelData.lead_on_n_2?.[i], parallelData.lead_on_n_3?.[i]].map(Boolean),
+      [parallelData.quality_1?.[i], parallelData.quality_2?.[i], parallelData.quality_3?.[i]].map(Boolean)
+    );
+  }
+  return buffer;
+}
+
+// Binary or JSON, whichever the deployment answered with
+async function readRangeBuffer(response: Response): Promise<ECGSampleBuffer> {
+  if (response.headers.get('Content-Type')?.startsWith(ECG_BINARY_CONTENT_TYPE)) {
+    return decodeECGBinary(await response.arrayBuffer());
+  }
+  return parallelArraysToBuffer(await response.json() as DownsampleECGResponse);
+}
+
+async function fetchRangeBuffer(
+  { pod_id, time_start, time_end, factor = 4, method, max_points }: EcgRangeRequest,
+  signal?: AbortSignal
+): Promise<ECGSampleBuffer> {
+  // method / max_points are omitted from the body when undefined
+  const response = await postEdgeFunction(
+    'downsample-ecg',
+    { pod_id, time_start, time_end, factor, method, max_points },
+    signal,
+    `${ECG_BINARY_CONTENT_TYPE}, application/json;q=0.5`
+  );
+  return readRangeBuffer(response);
+}
+
+interface NDJSONChunk {
+  index: number;
+  data: DownsampleECGResponse;
+}
+
+async function streamRange(
+  { pod_id, time_start, time_end, factor = 4, method, max_points, chunk_seconds }: EcgStreamRequest,
+  onChunk: (chunk: EcgStreamChunk) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await postEdgeFunction(
+    'downsample-ecg',
+    { pod_id, time_start, time_end, factor, method, max_points, chunk_seconds },
+    signal,
+    `${ECG_STREAM_CONTENT_TYPE}, ${NDJSON_CONTENT_TYPE};q=0.8, ${ECG_BINARY_CONTENT_TYPE};q=0.5, application/json;q=0.2`
+  );
+  const contentType = response.headers.get('Content-Type') ?? '';
+  const windows = chunkWindows(time_start, time_end, chunk_seconds);
+  const chunk = (index: number, buffer: ECGSampleBuffer): EcgStreamChunk => ({
+    index,
+    total: windows.length,
+    chunk_start: windows[index]?.time_start ?? time_start,
+    chunk_end: windows[index]?.time_end ?? time_end,
+    buffer
+  });
+
+  // A stream cut short (e.g. the function timed out) ends without an
+  // in-band error, so count what arrived
+  const received = new Set<number>();
+  if (response.body && contentType.startsWith(ECG_STREAM_CONTENT_TYPE)) {
+    for await (const frame of readBinaryFrames(response.body)) {
+      received.add(frame.index);
+      onChunk(chunk(frame.index, decodeECGBinary(frame.payload)));
+    }
+  } else if (response.body && contentType.startsWith(NDJSON_CONTENT_TYPE)) {
+    for await (const line of readNDJSON<NDJSONChunk>(response.body)) {
+      received.add(line.index);
+      onChunk(chunk(line.index, parallelArraysToBuffer(line.data)));
+    }
+  } else {
+    onChunk({ index: 0, total: 1, chunk_start: time_start, chunk_end: time_end, buffer: await readRangeBuffer(response) });
+    return;
+  }
+  if (received.size < windows.length) {
+    throw new Error(`ECG stream ended after ${received.size} of ${windows.length} chunks`);
+  }
+}
+
+export function createSupabaseDataSource(): EcgDataSource {
+  return {
+    id: 'supabase',
+    persistent: true,
+
+    async getRange(request, signal) {
+      return sampleBufferToSamples(await fetchRangeBuffer(request, signal));
+    },
+
+    getRangeBuffer: fetchRangeBuffer,
+    streamRange,
+
+    async getDays(podId) {
+      const { data, error } = await supabase.rpc('get_pod_days', { p_pod_id: podId });
+      if (error) throw new Error(error.message);
+      if (!Array.isArray(data)) return [];
+      return data
+        .map(row => new Date(row.day_value))
+        .filter(day => !Number.isNaN(day.getTime()))
+        .sort((a, b) => a.getTime() - b.getTime());
+    },
+
+    async getEarliestLatest(podId) {
+      const { data, error } = await supabase.rpc('get_pod_earliest_latest', { p_pod_id: podId });
+      if (error) throw new Error(error.message);
+      const row = Array.isArray(data) ? data[0] : undefined;
+      return {
+        earliest_time: row?.earliest_time ? new Date(row.earliest_time) : null,
+        latest_time: row?.latest_time ? new Date(row.latest_time) : null
+      };
+    },
+
+    getDiagnostics({ pod_id, time_start, time_end }, signal) {
+      return invokeEdgeFunction<ECGDiagnosticMetrics>('get-ecg-diagnostics', { pod_id, time_start, time_end }, signal);
+    },
+
+    async getAggregates({ pod_id, time_start, time_end, bucket_seconds }) {
+      const { data, error } = await supabase.rpc('aggregate_leads', {
+        p_pod_id: pod_id,
+        p_time_start: time_start,
+        p_time_end: time_end,
+        p_bucket_seconds: bucket_seconds
+      });
+      if (error) throw new Error(error.message);
+      return Array.isArray(data) ? data : [];
+    }
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * FILE: src/lib/ecg/dataSource/synthetic.ts
+ *
+ * Generated ECG (see lib/ecg/synthetic) for demo mode and for working
+ * without a database. Each pod id gets its own recording, seeded from the
+ * pod id, so pods look different but every read of a window returns the
+ * same samples. In demo mode each recording carries the demo scenario's
+ * arrhythmias, lead-off and noisy stretches.
+ *
+ * Only decimation is implemented; the bucketing methods fall back to
+ * decimation coarsened to max_points.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import { RAW_SAMPLE_RATE } from '../downsampling';
+import { sampleBufferFromSamples } from '../sampleBuffer';
+import { createSyntheticECG, demoScenario, hashSeed } from '../synthetic';
+import type { SyntheticECG, SyntheticECGOptions } from '../synthetic';
+import type { ECGChannel } from '../beatDetection';
+import { aggregateSamples, aggregateSourceRequest } from './aggregate';
+import { streamWindows } from './stream';
+import type { EcgDataSource, EcgRangeRequest } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SyntheticDataSourceOptions
+  extends Omit<SyntheticECGOptions, 'start' | 'durationMs' | 'arrhythmias' | 'leadOff' | 'dropouts'> {
+  /** First sample; defaults to midnight UTC two days ago */
+  start?: Date;
+  durationMs?: number;
+  /** Inject the demo scenario's events; off gives clean sinus rhythm */
+  demo?: boolean;
+}
+
+export function createSyntheticDataSource({
+  start = new Date(Math.floor(Date.now() / DAY_MS) * DAY_MS - 2 * DAY_MS),
+  durationMs = 2 * DAY_MS,
+  demo = true,
+  seed = 1,
+  ...signal
+}: SyntheticDataSourceOptions = {}): EcgDataSource {
+  const startMs = start.getTime();
+  const endMs = startMs + durationMs;
+  const scenario = demo ? demoScenario(startMs, durationMs) : {};
+  const recordings = new Map<string, SyntheticECG>();
+
+  const recordingFor = (podId: string) => {
+    let recording = recordings.get(podId);
+    if (!recording) {
+      recording = createSyntheticECG({
+        ...signal,
+        ...scenario,
+        start: startMs,
+        durationMs,
+        seed: (seed ^ hashSeed(podId)) >>> 0
+      });
+      recordings.set(podId, recording);
+    }
+    return recording;
+  };
+
+  // Sample indices [from, to) inside the recording for a window
+  const indexRange = (recording: SyntheticECG, time_start: string, time_end: string): [number, number] => {
+    const toIndex = (time: string) => Math.ceil(((Date.parse(time) - startMs) * recording.samplingRate) / 1000);
+    const from = Math.max(0, toIndex(time_start));
+    const to = Math.min(recording.sampleCount, toIndex(time_end));
+    return [from, Math.max(from, to)];
+  };
+
+  const getRange = async ({ pod_id, time_start, time_end, factor = 4, max_points }: EcgRangeRequest) => {
+    const recording = recordingFor(pod_id);
+    const [from, to] = indexRange(recording, time_start, time_end);
+    // factor is relative to the pod rate; match the output rate a pod would give
+    let step = Math.max(1, Math.round((recording.samplingRate * factor) / RAW_SAMPLE_RATE));
+    if (max_points) step = Math.max(step, Math.ceil((to - from) / max_points));
+    const samples: ECGSample[] = [];
+    // Align to the step so neighbouring windows share a grid
+    for (let i = Math.ceil(from / step) * step; i < to; i += step) samples.push(recording.sampleAt(i));
+    return samples;
+  };
+
+  const getRangeBuffer: EcgDataSource['getRangeBuffer'] = async request =>
+    sampleBufferFromSamples(await getRange(request));
+
+  return {
+    id: 'synthetic',
+    persistent: false,
+    getRange,
+    getRangeBuffer,
+
+    streamRange(request, onChunk, signal) {
+      return streamWindows(getRangeBuffer, request, onChunk, signal);
+    },
+
+    async getDays() {
+      const days: Date[] = [];
+      for (let day = Math.floor(startMs / DAY_MS) * DAY_MS; day < endMs; day += DAY_MS) days.push(new Date(day));
+      return days;
+    },
+
+    async getEarliestLatest() {
+      return { earliest_time: new Date(startMs), latest_time: new Date(endMs) };
+    },
+
+    async getDiagnostics({ pod_id, time_start, time_end }) {
+      const recording = recordingFor(pod_id);
+      const [from, to] = indexRange(recording, time_start, time_end);
+      const windowStart = startMs + (from * 1000) / recording.samplingRate;
+      const windowEnd = startMs + (to * 1000) / recording.samplingRate;
+      const perChannel = ([1, 2, 3] as ECGChannel[]).map(channel => recording.coverage(channel, windowStart, windowEnd));
+      const lost = recording.coverage(null, windowStart, windowEnd).leadOff;
+      const drops = (scenario.leadOff ?? []).filter(
+        iv => !iv.channels && iv.start >= windowStart && iv.start < windowEnd
+      ).length;
+
+      return {
+        signal_quality: {
+          noise_levels: {
+            channel_1: perChannel[0].dropout * 100,
+            channel_2: perChannel[1].dropout * 100,
+            channel_3: perChannel[2].dropout * 100
+          },
+          quality_scores: {
+            channel_1: Math.max(0, 1 - perChannel[0].leadOff - perChannel[0].dropout) * 100,
+            channel_2: Math.max(0, 1 - perChannel[1].leadOff - perChannel[1].dropout) * 100,
+            channel_3: Math.max(0, 1 - perChannel[2].leadOff - perChannel[2].dropout) * 100
+          }
+        },
+        connection_stats: {
+          total_samples: to - from,
+          missing_samples: Math.round(lost * (to - from)),
+          connection_drops: drops,
+          sampling_frequency: recording.samplingRate
+        }
+      };
+    },
+
+    async getAggregates(request) {
+      return aggregateSamples(await getRange(aggregateSourceRequest(request)), request.bucket_seconds);
+    }
+  };
+}
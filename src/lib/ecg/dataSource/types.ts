@@ -0,0 +1,96 @@
+/**
+ * FILE: src/lib/ecg/dataSource/types.ts
+ *
+ * The contract every ECG hook and component reads through. A source
+ * answers the five questions the viewer asks of a pod: samples for a
+ * window, the days it has data, its first and last sample, signal
+ * diagnostics for a window and lead-on / quality percentages per bucket. Which source is active comes from
+ * EcgDataSourceProvider (src/context/EcgDataSourceContext).
+ */
+import type { ECGDiagnosticChunk, ECGSample } from '@/hooks/api/ecg/useECG';
+import type { AggregatedLeadData } from '@/types/domain/ecg';
+import type { DownsampleMethod } from '../downsampling';
+import type { ECGSampleBuffer } from '../sampleBuffer';
+
+export interface EcgRangeRequest {
+  pod_id: string;
+  time_start: string;
+  time_end: string;
+  /** Decimation factor relative to the pod rate (320 Hz) */
+  factor?: number;
+  method?: DownsampleMethod;
+  max_points?: number;
+}
+
+export interface EcgStreamRequest extends EcgRangeRequest {
+  /** Span of each chunk; the last one may be shorter (see chunkWindows) */
+  chunk_seconds: number;
+}
+
+/** One consecutive piece of a streamed window */
+export interface EcgStreamChunk {
+  /** 0-based; chunks arrive in order */
+  index: number;
+  total: number;
+  chunk_start: string;
+  chunk_end: string;
+  buffer: ECGSampleBuffer;
+}
+
+/** JSON body of the downsample-ecg edge function: one array per column */
+export interface DownsampleECGResponse {
+  timestamps: string[];
+  channel_1: number[];
+  channel_2: number[];
+  channel_3: number[];
+  lead_on_p_1: boolean[];
+  lead_on_p_2: boolean[];
+  lead_on_p_3: boolean[];
+  lead_on_n_1: boolean[];
+  lead_on_n_2: boolean[];
+  lead_on_n_3: boolean[];
+  quality_1: boolean[];
+  quality_2: boolean[];
+  quality_3: boolean[];
+}
+
+export interface EcgAggregateRequest extends Pick<EcgRangeRequest, 'pod_id' | 'time_start' | 'time_end'> {
+  bucket_seconds: number;
+}
+
+export interface EcgTimeBounds {
+  earliest_time: Date | null;
+  latest_time: Date | null;
+}
+
+export type ECGDiagnosticMetrics = ECGDiagnosticChunk['metrics'];
+
+export interface EcgDataSource {
+  /** Short name; part of every query key so sources never share cache entries */
+  readonly id: string;
+  /** Whether complete tiles may be persisted to IndexedDB across sessions */
+  readonly persistent: boolean;
+  /** Samples for a window, downsampled the way the downsample-ecg edge function does */
+  getRange(request: EcgRangeRequest, signal?: AbortSignal): Promise<ECGSample[]>;
+  /** The same window as columns, for drawing without per-sample objects */
+  getRangeBuffer(request: EcgRangeRequest, signal?: AbortSignal): Promise<ECGSampleBuffer>;
+  /**
+   * The same window in chunks of request.chunk_seconds, each handed to
+   * onChunk as soon as it arrives. Resolves after the last chunk; rejects
+   * with an AbortError when the signal fires.
+   */
+  streamRange(
+    request: EcgStreamRequest,
+    onChunk: (chunk: EcgStreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<void>;
+  /** Days with data (midnight UTC of each day), in ascending order */
+  getDays(podId: string): Promise<Date[]>;
+  getEarliestLatest(podId: string): Promise<EcgTimeBounds>;
+  getDiagnostics(
+    request: Pick<EcgRangeRequest, 'pod_id' | 'time_start' | 'time_end'>,
+    signal?: AbortSignal
+  ): Promise<ECGDiagnosticMetrics>;
+  /** Lead-on and quality percentages per bucket, as the aggregate_leads RPC returns them */
+  getAggregates(request: EcgAggregateRequest): Promise<AggregatedLeadData[]>;
+}
@@ -0,0 +1,63 @@
+/**
+ * FILE: src/lib/ecg/downsampling.ts
+ *
+ * Picks a downsample-ecg method and point budget for a window from the
+ * width of the canvas it will be drawn on.
+ *
+ * Plain decimation keeps every Nth sample and drops narrow QRS peaks once
+ * many samples share a pixel. The choice therefore depends on how many
+ * decimated samples would land on each pixel column:
+ *   ≤ 1   → decimate (everything is visible anyway)
+ *   ≤ 4   → lttb (few samples per pixel, keep the visual shape)
+ *   ≤ 64  → minmax (many beats per pixel, keep the envelope)
+ *   above → peak_preserving (runs in the database, nothing large leaves it)
+ *
+ * Only decimate returns evenly spaced samples. Analyses that derive a
+ * sampling rate from timestamps (beat detection, HRV, filters) must not use
+ * a pixel-width request.
+ */
+
+export type DownsampleMethod = 'decimate' | 'minmax' | 'lttb' | 'peak_preserving';
+
+export interface DownsampleRequest {
+  method: DownsampleMethod;
+  max_points: number;
+}
+
+/** Pod sampling rate before decimation */
+export const RAW_SAMPLE_RATE = 320;
+/** Points requested per pixel column, one for each of min and max */
+export const POINTS_PER_PIXEL = 2;
+
+const LTTB_MAX_RATIO = 4;
+const MINMAX_MAX_RATIO = 64;
+const MIN_POINTS = 10;
+
+export function estimatePointCount(time_start: string, time_end: string, factor = 4): number {
+  const spanMs = Date.parse(time_end) - Date.parse(time_start);
+  if (!Number.isFinite(spanMs) || spanMs <= 0) return 0;
+  return Math.ceil(((spanMs / 1000) * RAW_SAMPLE_RATE) / Math.max(1, factor));
+}
+
+export function chooseDownsampleMethod({
+  time_start,
+  time_end,
+  factor = 4,
+  pixelWidth,
+  maxPoints = Infinity
+}: {
+  time_start: string;
+  time_end: string;
+  factor?: number;
+  pixelWidth: number;
+  /** Upper bound on the budget regardless of width */
+  maxPoints?: number;
+}): DownsampleRequest {
+  const max_points = Math.max(MIN_POINTS, Math.min(maxPoints, Math.round(pixelWidth * POINTS_PER_PIXEL)));
+  const ratio = estimatePointCount(time_start, time_end, factor) / max_points;
+
+  if (ratio <= 1) return { method: 'decimate', max_points };
+  if (ratio <= LTTB_MAX_RATIO) return { method: 'lttb', max_points };
+  if (ratio <= MINMAX_MAX_RATIO) return { method: 'minmax', max_points };
+  return { method: 'peak_preserving', max_points };
+}
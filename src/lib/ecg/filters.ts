@@ -0,0 +1,256 @@
+/**
+ * FILE: src/lib/ecg/filters.ts
+ *
+ * Composable display filters for ECG channel arrays.
+ *
+ * Every IIR stage is a second-order section run forward and backward
+ * (filtfilt), so the chain is zero-phase and QRS complexes are not shifted
+ * in time. Stages whose corner frequency is above Nyquist for the current
+ * sampling rate, or a high-pass on a record too short for it, are skipped
+ * rather than failing; the export metadata says which ones ran.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import type { ECGChannel } from './beatDetection';
+
+export type PowerlineFrequency = 50 | 60;
+
+export interface ECGFilterSettings {
+  /** Baseline wander removal */
+  highPass: { enabled: boolean; cutoffHz: number };
+  /** Powerline hum removal */
+  notch: { enabled: boolean; frequencyHz: PowerlineFrequency; q: number };
+  /** Muscle / high-frequency noise removal */
+  lowPass: { enabled: boolean; cutoffHz: number };
+  /** Spike / impulse noise removal */
+  movingMedian: { enabled: boolean; windowMs: number };
+}
+
+/** Which channels the filter chain is applied to */
+export type ChannelFilterToggles = Record<ECGChannel, boolean>;
+
+export const DEFAULT_FILTER_SETTINGS: ECGFilterSettings = {
+  highPass: { enabled: true, cutoffHz: 0.5 },
+  notch: { enabled: true, frequencyHz: 60, q: 30 },
+  lowPass: { enabled: true, cutoffHz: 40 },
+  movingMedian: { enabled: false, windowMs: 40 }
+};
+
+export const NO_CHANNELS_FILTERED: ChannelFilterToggles = { 1: false, 2: false, 3: false };
+
+export interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export type BiquadType = 'lowpass' | 'highpass' | 'notch';
+
+/**
+ * Second-order section from the RBJ audio-EQ cookbook.
+ * @param q - Quality factor; defaults to Butterworth for low/high-pass
+ */
+export function designBiquad(type: BiquadType, frequencyHz: number, fs: number, q = Math.SQRT1_2): BiquadCoefficients {
+  const w0 = (2 * Math.PI * frequencyHz) / fs;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const a0 = 1 + alpha;
+
+  let b0: number;
+  let b1: number;
+  let b2: number;
+  switch (type) {
+    case 'lowpass':
+      b0 = (1 - cos) / 2;
+      b1 = 1 - cos;
+      b2 = b0;
+      break;
+    case 'highpass':
+      b0 = (1 + cos) / 2;
+      b1 = -(1 + cos);
+      b2 = b0;
+      break;
+    case 'notch':
+      b0 = 1;
+      b1 = -2 * cos;
+      b2 = 1;
+      break;
+  }
+
+  return {
+    b0: b0 / a0,
+    b1: b1 / a0,
+    b2: b2 / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0
+  };
+}
+
+export function applyBiquad(x: number[], c: BiquadCoefficients): number[] {
+  const y = new Array<number>(x.length);
+  let x1 = x[0] ?? 0;
+  let x2 = x1;
+  // Start from steady state so the first sample doesn't ring
+  const dcGain = (c.b0 + c.b1 + c.b2) / (1 + c.a1 + c.a2);
+  let y1 = Number.isFinite(dcGain) ? x1 * dcGain : 0;
+  let y2 = y1;
+  for (let n = 0; n < x.length; n++) {
+    const out = c.b0 * x[n] + c.b1 * x1 + c.b2 * x2 - c.a1 * y1 - c.a2 * y2;
+    x2 = x1;
+    x1 = x[n];
+    y2 = y1;
+    y1 = out;
+    y[n] = out;
+  }
+  return y;
+}
+
+/**
+ * Forward-backward pass: zero phase, squared magnitude response.
+ */
+export function filtfilt(x: number[], c: BiquadCoefficients): number[] {
+  if (!x.length) return [];
+  const forward = applyBiquad(x, c);
+  return applyBiquad(forward.reverse(), c).reverse();
+}
+
+/**
+ * Where a tone ends up after sampling at fs. Decimated pod data is not
+ * anti-aliased, so 50/60 Hz hum folds down into the visible band.
+ */
+export function aliasedFrequency(frequencyHz: number, fs: number): number {
+  const folded = frequencyHz % fs;
+  return folded > fs / 2 ? fs - folded : folded;
+}
+
+/**
+ * Frequency the notch stage actually runs at, or null when it is skipped.
+ */
+export function effectiveNotchFrequency(settings: ECGFilterSettings, fs: number): number | null {
+  if (!settings.notch.enabled || fs <= 0) return null;
+  const f = aliasedFrequency(settings.notch.frequencyHz, fs);
+  // A tone folded onto DC or Nyquist can't be notched without wrecking the signal
+  return f > 0.5 && f < fs / 2 - 0.5 ? f : null;
+}
+
+// A zero-phase high-pass needs a couple of periods of its corner frequency to settle
+const MIN_HIGHPASS_PERIODS = 2;
+
+/**
+ * Why the high-pass stage is skipped for a record, or null when it runs.
+ */
+export function highPassSkipReason(settings: ECGFilterSettings, fs: number, sampleCount: number): string | null {
+  const { enabled, cutoffHz } = settings.highPass;
+  if (!enabled) return 'off';
+  if (fs <= 0 || cutoffHz <= 0 || cutoffHz >= fs / 2) return 'at or above Nyquist';
+  const minSeconds = MIN_HIGHPASS_PERIODS / cutoffHz;
+  if (sampleCount < minSeconds * fs) return `record shorter than ${minSeconds.toFixed(1)} s`;
+  return null;
+}
+
+export function movingMedian(x: number[], window: number): number[] {
+  const half = Math.floor(Math.max(1, window) / 2);
+  if (half === 0) return [...x];
+  return x.map((_, i) => {
+    const slice = x.slice(Math.max(0, i - half), Math.min(x.length, i + half + 1));
+    slice.sort((a, b) => a - b);
+    return slice[Math.floor(slice.length / 2)];
+  });
+}
+
+/**
+ * Run the enabled stages in order: median → high-pass → notch → low-pass.
+ */
+export function applyFilterChain(values: number[], fs: number, settings: ECGFilterSettings): number[] {
+  if (!values.length || fs <= 0) return values;
+  const nyquist = fs / 2;
+  let y = values;
+
+  if (settings.movingMedian.enabled) {
+    const window = Math.round((settings.movingMedian.windowMs / 1000) * fs) | 1;
+    y = movingMedian(y, window);
+  }
+
+  if (highPassSkipReason(settings, fs, values.length) === null) {
+    y = filtfilt(y, designBiquad('highpass', settings.highPass.cutoffHz, fs));
+  }
+
+  const notchHz = effectiveNotchFrequency(settings, fs);
+  if (notchHz !== null) {
+    y = filtfilt(y, designBiquad('notch', notchHz, fs, settings.notch.q));
+  }
+
+  if (settings.lowPass.enabled && settings.lowPass.cutoffHz > 0 && settings.lowPass.cutoffHz < nyquist * 0.95) {
+    y = filtfilt(y, designBiquad('lowpass', settings.lowPass.cutoffHz, fs));
+  }
+
+  return y;
+}
+
+/**
+ * Apply the filter chain to the selected channels of an ECGSample array.
+ * Unselected channels and all lead/quality flags pass through untouched.
+ */
+export function filterSamples(
+  samples: ECGSample[],
+  fs: number,
+  settings: ECGFilterSettings,
+  channels: ChannelFilterToggles
+): ECGSample[] {
+  const active = ([1, 2, 3] as ECGChannel[]).filter(c => channels[c]);
+  if (!active.length || !samples.length) return samples;
+
+  const filtered = new Map<ECGChannel, number[]>();
+  active.forEach(channel => {
+    filtered.set(channel, applyFilterChain(samples.map(s => s.channels[channel - 1]), fs, settings));
+  });
+
+  return samples.map((sample, i) => ({
+    ...sample,
+    channels: [
+      filtered.get(1)?.[i] ?? sample.channels[0],
+      filtered.get(2)?.[i] ?? sample.channels[1],
+      filtered.get(3)?.[i] ?? sample.channels[2]
+    ]
+  }));
+}
+
+/**
+ * Describe the filter state as key/value pairs for export metadata, so an
+ * exported file records exactly how its channels were processed.
+ */
+export function describeFilterSettings(
+  settings: ECGFilterSettings,
+  channels: ChannelFilterToggles,
+  fs: number,
+  sampleCount: number
+): Record<string, string> {
+  const active = ([1, 2, 3] as ECGChannel[]).filter(c => channels[c]);
+  const meta: Record<string, string> = {
+    filter_channels: active.length ? active.join(' ') : 'none',
+    filter_phase: 'zero (forward-backward biquad)',
+    sampling_rate_hz: fs.toFixed(3)
+  };
+  if (!active.length) return meta;
+
+  const highPassSkip = highPassSkipReason(settings, fs, sampleCount);
+  meta.filter_highpass_hz = !settings.highPass.enabled
+    ? 'off'
+    : highPassSkip === null
+      ? String(settings.highPass.cutoffHz)
+      : `${settings.highPass.cutoffHz} (skipped, ${highPassSkip})`;
+  const notchHz = effectiveNotchFrequency(settings, fs);
+  meta.filter_notch_hz = !settings.notch.enabled
+    ? 'off'
+    : notchHz === null
+      ? `${settings.notch.frequencyHz} (skipped, folds onto DC/Nyquist)`
+      : `${settings.notch.frequencyHz} (applied at ${notchHz.toFixed(2)}, Q=${settings.notch.q})`;
+  meta.filter_lowpass_hz = !settings.lowPass.enabled
+    ? 'off'
+    : settings.lowPass.cutoffHz < (fs / 2) * 0.95
+      ? String(settings.lowPass.cutoffHz)
+      : `${settings.lowPass.cutoffHz} (skipped, at or above Nyquist)`;
+  meta.filter_median_ms = settings.movingMedian.enabled ? String(settings.movingMedian.windowMs) : 'off';
+  return meta;
+}
@@ -0,0 +1,283 @@
+/**
+ * FILE: src/lib/ecg/formats/aecg.ts
+ *
+ * HL7 annotated ECG (aECG, HL7 v3) serializer for sponsor submissions.
+ * One AnnotatedECG document carries the study (clinical trial), subject
+ * and device (pod) metadata and one series per strip. Each series holds an
+ * absolute time sequence and one SLIST_PQ sequence per selected lead in µV,
+ * and the study annotations that overlap it as an annotation set.
+ *
+ * aECG sequences are uniformly sampled with no invalid-sample marker, so a
+ * strip with a gap in the data is written as one series per contiguous run.
+ * Annotation labels are the app's taxonomy ids in a local code system;
+ * leads use MDC codes.
+ *
+ * Study, subject and pod ids are extensions under fixed UUID roots, one
+ * per kind of id, so the same study has the same id in every document.
+ *
+ * The output is not conformance-tested: it has not been validated against
+ * the official HL7 aECG schema or a submission validator. The unit tests
+ * validate it with xmllint against a hand-written subset of the schema
+ * only.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import type { ECGAnnotationRow } from '@/types/domain/ecg';
+import { findAnnotationLabel } from '../annotations';
+import type { AnnotationTaxonomy } from '../annotations';
+import type { ECGChannel } from '../beatDetection';
+
+export const AECG_NAMESPACE = 'urn:hl7-org:v3';
+
+// HL7 code systems
+const MDC = '2.16.840.1.113883.6.24';
+const ACT_CODE = '2.16.840.1.113883.5.4';
+const CPT4 = '2.16.840.1.113883.6.12';
+
+// Roots of the app's own identifiers
+export const AECG_STUDY_ID_ROOT = 'aa41b363-60c8-42ad-ad1d-b0bff5572b2e';
+export const AECG_SUBJECT_ID_ROOT = 'e079bb81-c31e-4e7b-ace3-f7ae9d609aa5';
+export const AECG_POD_ID_ROOT = '08b4814c-1e53-4b6b-8251-4de9b7d5f620';
+
+export const AECG_LEAD_CODES: Record<ECGChannel, string> = {
+  1: 'MDC_ECG_LEAD_I',
+  2: 'MDC_ECG_LEAD_II',
+  3: 'MDC_ECG_LEAD_III'
+};
+
+/** Code system name for annotation labels, which are not MDC terms */
+export const AECG_LOCAL_LABEL_SYSTEM = 'ECG-Lab annotation label';
+
+export interface AECGStrip {
+  /** Strip range in epoch ms; samples outside it are dropped */
+  start: number;
+  end: number;
+  channels: ECGChannel[];
+  samples: ECGSample[];
+}
+
+type AnnotationSource = Pick<ECGAnnotationRow, 'id' | 'label' | 'start_time' | 'end_time' | 'channel' | 'note'>;
+
+export interface AECGDocumentOptions {
+  /** UUID of the document; series ids are derived from it */
+  documentId: string;
+  studyId: string;
+  podId: string;
+  /** Trial subject (patient) id; 'UNKNOWN' when not recorded */
+  subjectId?: string | null;
+  /** Samples per second of the strips */
+  samplingRate: number;
+  strips: AECGStrip[];
+  annotations?: AnnotationSource[];
+  taxonomy?: AnnotationTaxonomy;
+}
+
+export interface AECGResult {
+  xml: string;
+  seriesCount: number;
+  /** Strips written as more than one series because of gaps */
+  splitStrips: number;
+  /** Strips with no samples in range, left out */
+  emptyStrips: number;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * HL7 TS timestamp in UTC: YYYYMMDDHHMMSS.sss+0000
+ */
+export function formatHL7Time(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}`
+    + `${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}`
+    + `.${pad(d.getUTCMilliseconds(), 3)}+0000`;
+}
+
+type Attributes = Record<string, string | number | undefined>;
+
+const attrs = (attributes: Attributes) => Object.entries(attributes)
+  .filter(([, value]) => value !== undefined)
+  .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+  .join('');
+
+/** Element with child elements (or none) */
+function el(name: string, attributes: Attributes = {}, children: string[] = []): string {
+  if (!children.length) return `<${name}${attrs(attributes)}/>`;
+  return `<${name}${attrs(attributes)}>${children.join('')}</${name}>`;
+}
+
+function textEl(name: string, text: string, attributes: Attributes = {}): string {
+  return `<${name}${attrs(attributes)}>${escapeXml(text)}</${name}>`;
+}
+
+const interval = (name: string, start: number, end: number, attributes: Attributes = {}) =>
+  el(name, attributes, [el('low', { value: formatHL7Time(start) }), el('high', { value: formatHL7Time(end) })]);
+
+/**
+ * Split samples into runs on the sampling grid; a step of more than
+ * 1.5 periods starts a new run. Repeated timestamps are dropped.
+ */
+export function contiguousRuns(samples: ECGSample[], samplingRate: number): ECGSample[][] {
+  const periodMs = 1000 / samplingRate;
+  const runs: ECGSample[][] = [];
+  let previous = -Infinity;
+  samples.forEach(sample => {
+    const t = Date.parse(sample.time);
+    if (Number.isNaN(t) || t - previous < periodMs / 2) return;
+    if (t - previous > periodMs * 1.5 || !runs.length) runs.push([]);
+    runs[runs.length - 1].push(sample);
+    previous = t;
+  });
+  return runs;
+}
+
+function annotationXml(annotation: AnnotationSource, taxonomy?: AnnotationTaxonomy): string {
+  const label = findAnnotationLabel(annotation.label, taxonomy);
+  const boundaries = [
+    el('component', {}, [el('boundary', {}, [
+      el('code', { code: 'TIME_ABSOLUTE', codeSystem: MDC }),
+      interval('value', Date.parse(annotation.start_time), Date.parse(annotation.end_time), { 'xsi:type': 'IVL_TS' })
+    ])])
+  ];
+  if (annotation.channel) {
+    boundaries.push(el('component', {}, [el('boundary', {}, [
+      el('code', { code: AECG_LEAD_CODES[annotation.channel as ECGChannel], codeSystem: MDC, codeSystemName: 'MDC' })
+    ])]));
+  }
+
+  return el('component', {}, [el('annotation', {}, [
+    el('id', { root: annotation.id }),
+    el('code', { code: annotation.label, codeSystemName: AECG_LOCAL_LABEL_SYSTEM, displayName: label.name }),
+    ...(annotation.note ? [textEl('value', annotation.note, { 'xsi:type': 'ST' })] : []),
+    el('support', {}, [el('supportingROI', {}, [
+      // Partially specified: leads not named are covered too
+      el('code', { code: 'ROIPS', codeSystem: ACT_CODE }),
+      ...boundaries
+    ])])
+  ])]);
+}
+
+function seriesXml(
+  id: { root: string; extension: string },
+  run: ECGSample[],
+  channels: ECGChannel[],
+  samplingRate: number,
+  podId: string,
+  annotations: AnnotationSource[],
+  taxonomy?: AnnotationTaxonomy
+): string {
+  const start = Date.parse(run[0].time);
+  const end = Date.parse(run[run.length - 1].time) + 1000 / samplingRate;
+
+  const timeSequence = el('component', {}, [el('sequence', {}, [
+    el('code', { code: 'TIME_ABSOLUTE', codeSystem: MDC }),
+    el('value', { 'xsi:type': 'GLIST_TS' }, [
+      el('head', { value: formatHL7Time(start) }),
+      el('increment', { value: Number((1 / samplingRate).toPrecision(12)), unit: 's' })
+    ])
+  ])]);
+
+  const leadSequences = channels.map(channel => el('component', {}, [el('sequence', {}, [
+    el('code', { code: AECG_LEAD_CODES[channel], codeSystem: MDC, codeSystemName: 'MDC' }),
+    el('value', { 'xsi:type': 'SLIST_PQ' }, [
+      el('origin', { value: 0, unit: 'uV' }),
+      el('scale', { value: 1, unit: 'uV' }),
+      textEl('digits', run.map(s => Math.round(s.channels[channel - 1])).join(' '))
+    ])
+  ])]));
+
+  const overlapping = annotations.filter(a =>
+    Date.parse(a.start_time) < end && Date.parse(a.end_time) >= start
+  );
+
+  return el('component', {}, [el('series', {}, [
+    el('id', id),
+    el('code', { code: 'RHYTHM', codeSystem: ACT_CODE }),
+    interval('effectiveTime', start, end),
+    el('author', {}, [el('seriesAuthor', {}, [el('manufacturedSeriesDevice', {}, [
+      el('id', { root: AECG_POD_ID_ROOT, extension: podId }),
+      textEl('manufacturerModelName', 'ECG pod')
+    ])])]),
+    el('component', {}, [el('sequenceSet', {}, [timeSequence, ...leadSequences])]),
+    ...(overlapping.length
+      ? [el('subjectOf', {}, [el('annotationSet', {}, overlapping.map(a => annotationXml(a, taxonomy)))])]
+      : [])
+  ])]);
+}
+
+/**
+ * Serialize strips and annotations as an HL7 aECG document
+ */
+export function serializeAECG({
+  documentId,
+  studyId,
+  podId,
+  subjectId,
+  samplingRate,
+  strips,
+  annotations = [],
+  taxonomy
+}: AECGDocumentOptions): AECGResult {
+  if (!(samplingRate > 0)) throw new Error(`aECG needs a positive sampling rate, got ${samplingRate}`);
+
+  const series: string[] = [];
+  let splitStrips = 0;
+  let emptyStrips = 0;
+
+  strips.forEach((strip, s) => {
+    const inRange = strip.samples.filter(sample => {
+      const t = Date.parse(sample.time);
+      return t >= strip.start && t <= strip.end;
+    });
+    const runs = contiguousRuns(inRange, samplingRate);
+    if (!runs.length || !strip.channels.length) {
+      emptyStrips++;
+      return;
+    }
+    if (runs.length > 1) splitStrips++;
+    runs.forEach((run, r) => {
+      series.push(seriesXml(
+        { root: documentId, extension: `strip-${s + 1}.${r + 1}` },
+        run,
+        [...strip.channels].sort((a, b) => a - b),
+        samplingRate,
+        podId,
+        annotations,
+        taxonomy
+      ));
+    });
+  });
+
+  if (!series.length) throw new Error('No ECG data in the selected strips');
+
+  const allStarts = strips.map(s => s.start);
+  const allEnds = strips.map(s => s.end);
+
+  const xml = '<?xml version="1.0" encoding="UTF-8"?>\n' + el('AnnotatedECG', {
+    xmlns: AECG_NAMESPACE,
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    type: 'Observation'
+  }, [
+    el('id', { root: documentId }),
+    el('code', { code: '93000', codeSystem: CPT4, codeSystemName: 'CPT-4' }),
+    interval('effectiveTime', Math.min(...allStarts), Math.max(...allEnds)),
+    el('componentOf', {}, [el('timepointEvent', {}, [el('componentOf', {}, [el('subjectAssignment', {}, [
+      el('subject', {}, [el('trialSubject', {}, [
+        el('id', { root: AECG_SUBJECT_ID_ROOT, extension: subjectId || 'UNKNOWN' })
+      ])]),
+      el('componentOf', {}, [el('clinicalTrial', {}, [
+        el('id', { root: AECG_STUDY_ID_ROOT, extension: studyId })
+      ])])
+    ])])])]),
+    ...series
+  ]) + '\n';
+
+  return { xml, seriesCount: series.length, splitStrips, emptyStrips };
+}
@@ -0,0 +1,298 @@
+/**
+ * FILE: src/lib/ecg/formats/edf.ts
+ *
+ * EDF+ writer for the three ECG leads. Samples are fed in chunks, so a
+ * multi-hour range never has to be held as ECGSample objects; the writer
+ * keeps one Int16Array per one-second data record and serialises them
+ * when finished.
+ *
+ * Layout:
+ *   • Three ECG signals in µV with a fixed physical range (default ±10 mV)
+ *     mapped onto the full 16-bit digital range. Values outside the range
+ *     are clipped and counted.
+ *   • One "EDF Annotations" signal holding a timekeeping TAL per record,
+ *     lead-off and poor-quality runs, and any annotations added by the
+ *     caller. Its size is that of the fullest record.
+ *   • Short gaps (up to one record) are filled with 0 µV and annotated
+ *     "No data"; longer gaps start a new record at the next sample, which
+ *     makes the file EDF+D (discontinuous) instead of EDF+C.
+ *
+ * The patient field carries the study id as patient code and the
+ * recording field carries the pod id as equipment. Start date and time are
+ * UTC, since the recording site's time zone is not known here; the
+ * fraction of a second is in the first record's timekeeping TAL.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import { createSignalFlagTracker, describeSignalFlag } from './flags';
+import type { SignalFlagEvent } from './flags';
+
+export interface EDFWriterOptions {
+  podId: string;
+  studyId?: string | null;
+  /** Whole samples per second; each data record holds one second */
+  samplingRate: number;
+  /** Physical range of the ECG signals, in µV */
+  physicalMin?: number;
+  physicalMax?: number;
+}
+
+export interface EDFResult {
+  /** File contents, in order; pass to a Blob */
+  parts: Uint8Array[];
+  recordCount: number;
+  /** Samples outside the physical range, written as the range limit */
+  clippedSamples: number;
+  discontinuous: boolean;
+  /** Epoch milliseconds of the first sample, or null if none were added */
+  startTime: number | null;
+}
+
+export interface EDFWriter {
+  addSamples: (samples: ECGSample[]) => void;
+  /** Add a free-text annotation; times in epoch milliseconds */
+  addAnnotation: (onsetMs: number, durationMs: number | null, text: string) => void;
+  finish: () => EDFResult;
+}
+
+export const EDF_DIGITAL_MIN = -32768;
+export const EDF_DIGITAL_MAX = 32767;
+export const DEFAULT_EDF_PHYSICAL_RANGE_UV = 10000;
+
+const ECG_LABELS = ['ECG I', 'ECG II', 'ECG III'];
+const ANNOTATION_LABEL = 'EDF Annotations';
+const RECORD_MS = 1000;
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+interface EDFRecord {
+  onsetMs: number;
+  /** Signal-major: lead 1 samples, then lead 2, then lead 3 */
+  data: Int16Array;
+  filled: number;
+  tals: string[];
+}
+
+/** Seconds as EDF+ writes them: no exponent, no trailing zeros */
+export function formatEDFSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3).replace(/\.?0+$/, '');
+}
+
+/** Time-stamped annotation list entry, without the record's timekeeping TAL */
+export function formatTAL(onsetSec: string, durationSec: string | null, text: string): string {
+  // \x14, \x15 and \x00 are TAL delimiters and cannot appear in the text
+  const clean = Array.from(text, ch => (ch === '\x00' || ch === '\x14' || ch === '\x15' ? ' ' : ch)).join('');
+  return `+${onsetSec}${durationSec !== null ? `\x15${durationSec}` : ''}\x14${clean}\x14\x00`;
+}
+
+function headerField(value: string, width: number): string {
+  // EDF headers are printable ASCII only
+  return value.replace(/[^\x20-\x7e]/g, '_').slice(0, width).padEnd(width, ' ');
+}
+
+/** A number that fits an 8-character header field */
+function headerNumber(value: number): string {
+  let text = String(value);
+  for (let digits = 6; text.length > 8 && digits >= 0; digits--) {
+    text = value.toFixed(digits);
+  }
+  return text.slice(0, 8);
+}
+
+const isLittleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+function int16Bytes(data: Int16Array): Uint8Array {
+  if (isLittleEndian) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  const bytes = new Uint8Array(data.length * 2);
+  const view = new DataView(bytes.buffer);
+  data.forEach((v, i) => view.setInt16(i * 2, v, true));
+  return bytes;
+}
+
+function asciiBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0x7f;
+  return bytes;
+}
+
+export function createEDFWriter({
+  podId,
+  studyId,
+  samplingRate,
+  physicalMin = -DEFAULT_EDF_PHYSICAL_RANGE_UV,
+  physicalMax = DEFAULT_EDF_PHYSICAL_RANGE_UV
+}: EDFWriterOptions): EDFWriter {
+  if (!Number.isInteger(samplingRate) || samplingRate <= 0) {
+    throw new Error(`EDF needs a whole sampling rate per one-second record, got ${samplingRate}`);
+  }
+  if (!(physicalMax > physicalMin)) {
+    throw new Error('EDF physical maximum must be above the physical minimum');
+  }
+
+  const spr = samplingRate;
+  const periodMs = RECORD_MS / spr;
+  const gain = (EDF_DIGITAL_MAX - EDF_DIGITAL_MIN) / (physicalMax - physicalMin);
+  const toDigital = (value: number) =>
+    Math.round((value - physicalMin) * gain + EDF_DIGITAL_MIN);
+  const fillValue = Math.min(EDF_DIGITAL_MAX, Math.max(EDF_DIGITAL_MIN, toDigital(0)));
+
+  const records: EDFRecord[] = [];
+  const flags = createSignalFlagTracker();
+  let headerStartMs: number | null = null;
+  let firstSampleMs: number | null = null;
+  let lastMs: number | null = null;
+  let clippedSamples = 0;
+  let discontinuous = false;
+
+  const newRecord = (onsetMs: number): EDFRecord => {
+    const record = { onsetMs, data: new Int16Array(3 * spr), filled: 0, tals: [] };
+    records.push(record);
+    return record;
+  };
+  const current = () => records[records.length - 1];
+
+  const relative = (ms: number) => formatEDFSeconds(ms - (headerStartMs ?? ms));
+
+  // The record whose time span holds ms (the last one starting at or before it)
+  const recordAt = (ms: number): EDFRecord => {
+    let lo = 0;
+    let hi = records.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (records[mid].onsetMs <= ms) lo = mid;
+      else hi = mid - 1;
+    }
+    return records[lo];
+  };
+
+  const annotate = (onsetMs: number, durationMs: number | null, text: string) => {
+    if (!records.length) return;
+    const duration = durationMs !== null && durationMs > 0 ? formatEDFSeconds(durationMs) : null;
+    recordAt(onsetMs).tals.push(formatTAL(relative(onsetMs), duration, text));
+  };
+
+  const annotateFlags = (events: SignalFlagEvent[]) => {
+    events.forEach(e => annotate(e.start, e.end - e.start, describeSignalFlag(e)));
+  };
+
+  const writeDigital = (record: EDFRecord, values: [number, number, number] | null) => {
+    for (let c = 0; c < 3; c++) {
+      let digital = fillValue;
+      if (values) {
+        digital = toDigital(values[c]);
+        if (digital < EDF_DIGITAL_MIN || digital > EDF_DIGITAL_MAX || Number.isNaN(digital)) {
+          clippedSamples++;
+          digital = Number.isNaN(digital) ? fillValue : Math.min(EDF_DIGITAL_MAX, Math.max(EDF_DIGITAL_MIN, digital));
+        }
+      }
+      record.data[c * spr + record.filled] = digital;
+    }
+    record.filled++;
+  };
+
+  // Next free slot, opening a contiguous record when the current one is full
+  const slot = (): EDFRecord => {
+    const record = current();
+    return record.filled < spr ? record : newRecord(record.onsetMs + RECORD_MS);
+  };
+
+  const padCurrentRecord = () => {
+    const record = current();
+    if (!record || record.filled >= spr) return;
+    const missing = spr - record.filled;
+    annotate(record.onsetMs + record.filled * periodMs, missing * periodMs, 'No data');
+    while (record.filled < spr) writeDigital(record, null);
+  };
+
+  return {
+    addSamples(samples) {
+      for (const sample of samples) {
+        const t = Date.parse(sample.time);
+        if (Number.isNaN(t)) continue;
+
+        if (lastMs === null) {
+          headerStartMs = Math.floor(t / 1000) * 1000;
+          firstSampleMs = t;
+          newRecord(t);
+        } else {
+          const delta = t - lastMs;
+          // Overlapping chunk boundaries repeat samples
+          if (delta < periodMs / 2) continue;
+
+          const missing = Math.round(delta / periodMs) - 1;
+          if (missing > spr) {
+            padCurrentRecord();
+            discontinuous = true;
+            newRecord(t);
+          } else if (missing > 0) {
+            annotate(lastMs + periodMs, missing * periodMs, 'No data');
+            for (let i = 0; i < missing; i++) writeDigital(slot(), null);
+          }
+        }
+
+        writeDigital(slot(), sample.channels);
+        lastMs = t;
+        annotateFlags(flags.push(sample, t));
+      }
+    },
+
+    addAnnotation(onsetMs, durationMs, text) {
+      annotate(onsetMs, durationMs, text);
+    },
+
+    finish() {
+      if (lastMs !== null) annotateFlags(flags.flush(lastMs + periodMs));
+      padCurrentRecord();
+
+      const start = new Date(headerStartMs ?? 0);
+      // Annotation text is UTF-8; the timekeeping TAL comes first in every record
+      const encoder = new TextEncoder();
+      const annotationData = records.map(r => encoder.encode(`+${relative(r.onsetMs)}\x14\x14\x00${r.tals.join('')}`));
+      const annotationBytes = annotationData.reduce((max, bytes) => Math.max(max, bytes.length), 0);
+      // The annotation signal is counted in 2-byte samples
+      const annotationSamples = Math.max(1, Math.ceil(annotationBytes / 2));
+
+      const pad2 = (n: number) => String(n).padStart(2, '0');
+      const ns = 4;
+      const header = [
+        headerField('0', 8),
+        headerField(`${(studyId || 'X').replace(/ /g, '_')} X X X`, 80),
+        headerField(
+          `Startdate ${pad2(start.getUTCDate())}-${MONTHS[start.getUTCMonth()]}-${start.getUTCFullYear()} X X ${podId.replace(/ /g, '_')}`,
+          80
+        ),
+        headerField(`${pad2(start.getUTCDate())}.${pad2(start.getUTCMonth() + 1)}.${pad2(start.getUTCFullYear() % 100)}`, 8),
+        headerField(`${pad2(start.getUTCHours())}.${pad2(start.getUTCMinutes())}.${pad2(start.getUTCSeconds())}`, 8),
+        headerField(String(256 * (ns + 1)), 8),
+        headerField(discontinuous ? 'EDF+D' : 'EDF+C', 44),
+        headerField(String(records.length), 8),
+        headerField('1', 8),
+        headerField(String(ns), 4),
+        ...[...ECG_LABELS, ANNOTATION_LABEL].map(l => headerField(l, 16)),
+        ...['AgAgCl electrode', 'AgAgCl electrode', 'AgAgCl electrode', ''].map(t => headerField(t, 80)),
+        ...['uV', 'uV', 'uV', ''].map(d => headerField(d, 8)),
+        ...[physicalMin, physicalMin, physicalMin, -1].map(v => headerField(headerNumber(v), 8)),
+        ...[physicalMax, physicalMax, physicalMax, 1].map(v => headerField(headerNumber(v), 8)),
+        ...[EDF_DIGITAL_MIN, EDF_DIGITAL_MIN, EDF_DIGITAL_MIN, EDF_DIGITAL_MIN].map(v => headerField(String(v), 8)),
+        ...[EDF_DIGITAL_MAX, EDF_DIGITAL_MAX, EDF_DIGITAL_MAX, EDF_DIGITAL_MAX].map(v => headerField(String(v), 8)),
+        ...['', '', '', ''].map(p => headerField(p, 80)),
+        ...[spr, spr, spr, annotationSamples].map(n => headerField(String(n), 8)),
+        ...['', '', '', ''].map(r => headerField(r, 32))
+      ].join('');
+
+      const parts: Uint8Array[] = [asciiBytes(header)];
+      records.forEach((record, i) => {
+        parts.push(int16Bytes(record.data));
+        const annotations = new Uint8Array(annotationSamples * 2);
+        annotations.set(annotationData[i]);
+        parts.push(annotations);
+      });
+
+      return {
+        parts,
+        recordCount: records.length,
+        clippedSamples,
+        discontinuous,
+        startTime: firstSampleMs
+      };
+    }
+  };
+}
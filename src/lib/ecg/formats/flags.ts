@@ -0,0 +1,84 @@
+/**
+ * FILE: src/lib/ecg/formats/flags.ts
+ *
+ * Turns the per-sample lead-off and quality flags into timed events
+ * ("Lead II off" from t for d seconds), for file formats that carry them
+ * as annotations. Works sample by sample so long ranges can be fed in
+ * chunks; a run still open at the end is closed by flush().
+ *
+ * A lead counts as off when either electrode is off. Poor quality is only
+ * reported while the lead is on, so an off lead is not also reported as
+ * noisy.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import type { ECGChannel } from '../beatDetection';
+
+export type SignalFlagKind = 'lead_off' | 'poor_quality';
+
+export interface SignalFlagEvent {
+  kind: SignalFlagKind;
+  channel: ECGChannel;
+  /** Epoch milliseconds */
+  start: number;
+  end: number;
+}
+
+export interface SignalFlagTracker {
+  /** Feed the next sample; returns the runs it closed */
+  push: (sample: ECGSample, timeMs: number) => SignalFlagEvent[];
+  /** Close the runs still open at endMs */
+  flush: (endMs: number) => SignalFlagEvent[];
+}
+
+const LEAD_NAMES: Record<ECGChannel, string> = { 1: 'Lead I', 2: 'Lead II', 3: 'Lead III' };
+const CHANNELS: ECGChannel[] = [1, 2, 3];
+
+export function describeSignalFlag(event: Pick<SignalFlagEvent, 'kind' | 'channel'>): string {
+  return event.kind === 'lead_off'
+    ? `${LEAD_NAMES[event.channel]} off`
+    : `${LEAD_NAMES[event.channel]} poor quality`;
+}
+
+export function createSignalFlagTracker(): SignalFlagTracker {
+  // Start of the open run per channel and kind, or null
+  const open: Record<SignalFlagKind, Record<ECGChannel, number | null>> = {
+    lead_off: { 1: null, 2: null, 3: null },
+    poor_quality: { 1: null, 2: null, 3: null }
+  };
+
+  const update = (
+    kind: SignalFlagKind,
+    channel: ECGChannel,
+    active: boolean,
+    timeMs: number,
+    closed: SignalFlagEvent[]
+  ) => {
+    const start = open[kind][channel];
+    if (active && start === null) {
+      open[kind][channel] = timeMs;
+    } else if (!active && start !== null) {
+      closed.push({ kind, channel, start, end: timeMs });
+      open[kind][channel] = null;
+    }
+  };
+
+  return {
+    push(sample, timeMs) {
+      const closed: SignalFlagEvent[] = [];
+      CHANNELS.forEach(channel => {
+        const i = channel - 1;
+        const leadOff = !(sample.lead_on_p[i] && sample.lead_on_n[i]);
+        update('lead_off', channel, leadOff, timeMs, closed);
+        update('poor_quality', channel, !leadOff && !sample.quality[i], timeMs, closed);
+      });
+      return closed;
+    },
+    flush(endMs) {
+      const closed: SignalFlagEvent[] = [];
+      (['lead_off', 'poor_quality'] as const).forEach(kind => {
+        CHANNELS.forEach(channel => update(kind, channel, false, endMs, closed));
+      });
+      return closed;
+    }
+  };
+}
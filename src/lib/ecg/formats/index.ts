@@ -0,0 +1,10 @@
+/**
+ * ECG file formats
+ * Writers for exchange formats read by downstream analysis tools
+ */
+
+export * from './flags';
+export * from './edf';
+export * from './wfdb';
+export * from './aecg';
+export * from './ishne';
@@ -0,0 +1,256 @@
+/**
+ * FILE: src/lib/ecg/formats/ishne.ts
+ *
+ * ISHNE 1.0 Holter file reader, for reviewing recordings from other
+ * vendors next to our pods. The file is an 8-byte magic number, a CRC,
+ * a fixed 512-byte header, a variable-length text block and then int16
+ * little-endian samples interleaved by lead.
+ *
+ * Leads are mapped onto the three ECGSample channels: leads I, II and III
+ * by their lead spec when present, otherwise the first three leads in
+ * file order. Samples are scaled from the per-lead resolution (nV per
+ * unit) to µV. The ISHNE invalid value (-32768) and channels the file
+ * does not have are reported as lead-off, the way pods report them.
+ *
+ * The header holds date and time without a time zone; they are read as
+ * local time, which is how the recorder's clock would have been set.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+
+export class ISHNEParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ISHNEParseError';
+  }
+}
+
+export const ISHNE_MAGIC = 'ISHNE1.0';
+export const ISHNE_HEADER_OFFSET = 10;
+export const ISHNE_HEADER_SIZE = 512;
+/** Sample value marking missing data */
+export const ISHNE_INVALID_SAMPLE = -32768;
+
+/** Lead spec codes from the ISHNE 1.0 standard */
+export const ISHNE_LEAD_NAMES: Record<number, string> = {
+  [-9]: 'Absent',
+  0: 'Unknown',
+  1: 'Generic bipolar',
+  2: 'X bipolar',
+  3: 'Y bipolar',
+  4: 'Z bipolar',
+  5: 'I',
+  6: 'II',
+  7: 'III',
+  8: 'aVR',
+  9: 'aVL',
+  10: 'aVF',
+  11: 'V1',
+  12: 'V2',
+  13: 'V3',
+  14: 'V4',
+  15: 'V5',
+  16: 'V6',
+  17: 'ES',
+  18: 'AS',
+  19: 'AI'
+};
+
+const SEX_NAMES: Record<number, string> = { 0: 'Unknown', 1: 'Male', 2: 'Female' };
+
+export interface ISHNELead {
+  /** Lead spec code; see ISHNE_LEAD_NAMES */
+  spec: number;
+  name: string;
+  /** Lead quality code (0 unknown, 1 noise, 2 real signal lost, …) */
+  quality: number;
+  /** Amplitude resolution in nV per sample unit */
+  resolutionNv: number;
+}
+
+export interface ISHNEHeader {
+  fileVersion: number;
+  subjectId: string;
+  sex: string;
+  recorder: string;
+  /** Local-time recording start, epoch ms; null if the header date is invalid */
+  startTime: number | null;
+  samplingRate: number;
+  /** Samples per lead */
+  sampleCount: number;
+  pacemaker: number;
+  /** The variable-length text block, usually free-form notes */
+  variableBlock: string;
+}
+
+export interface ISHNERecording {
+  header: ISHNEHeader;
+  leads: ISHNELead[];
+  /** One array of raw sample units per lead */
+  data: Int16Array[];
+  /** Lead index feeding each ECGSample channel, or null when absent */
+  channelLeads: [number | null, number | null, number | null];
+  /** False when the stored header CRC does not match the header */
+  crcValid: boolean;
+}
+
+/**
+ * CRC-CCITT (polynomial 0x1021, initial 0xFFFF) as used for the ISHNE header
+ */
+export function crcCCITT(bytes: Uint8Array): number {
+  let crc = 0xffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+function readText(bytes: Uint8Array, offset: number, length: number): string {
+  const slice = bytes.subarray(offset, offset + length);
+  const end = slice.indexOf(0);
+  return new TextDecoder('latin1').decode(end === -1 ? slice : slice.subarray(0, end)).trim();
+}
+
+/**
+ * Pick the file leads that feed channels 1-3: I, II and III by lead spec
+ * when the file has them, otherwise the leads in file order.
+ */
+export function mapISHNELeads(leads: ISHNELead[]): [number | null, number | null, number | null] {
+  const bySpec = [5, 6, 7].map(spec => leads.findIndex(l => l.spec === spec));
+  if (bySpec.some(i => i !== -1)) {
+    const used = new Set(bySpec.filter(i => i !== -1));
+    const rest = leads.map((_, i) => i).filter(i => !used.has(i));
+    return bySpec.map(i => (i !== -1 ? i : rest.shift() ?? null)) as [number | null, number | null, number | null];
+  }
+  return [0, 1, 2].map(i => (i < leads.length ? i : null)) as [number | null, number | null, number | null];
+}
+
+export function parseISHNE(buffer: ArrayBuffer): ISHNERecording {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < ISHNE_HEADER_OFFSET + ISHNE_HEADER_SIZE) {
+    throw new ISHNEParseError('File is too short to be an ISHNE recording');
+  }
+  const magic = readText(bytes, 0, 8);
+  if (magic !== ISHNE_MAGIC) {
+    throw new ISHNEParseError(
+      magic.startsWith('ANN') ? 'This is an ISHNE annotation file; open the ECG file instead' : 'Not an ISHNE 1.0 file'
+    );
+  }
+
+  const view = new DataView(buffer);
+  const h = ISHNE_HEADER_OFFSET;
+  const int32 = (offset: number) => view.getInt32(h + offset, true);
+  const int16 = (offset: number) => view.getInt16(h + offset, true);
+
+  const variableLength = int32(0);
+  const sampleCount = int32(4);
+  const variableOffset = int32(8);
+  const ecgOffset = int32(12);
+  const nLeads = int16(146);
+  const samplingRate = int16(262);
+
+  if (nLeads < 1 || nLeads > 12) throw new ISHNEParseError(`Invalid lead count ${nLeads}`);
+  if (samplingRate <= 0) throw new ISHNEParseError(`Invalid sampling rate ${samplingRate}`);
+  if (sampleCount < 0 || variableLength < 0) throw new ISHNEParseError('Invalid header sizes');
+  if (ecgOffset < h + ISHNE_HEADER_SIZE || ecgOffset > bytes.length) {
+    throw new ISHNEParseError(`ECG data offset ${ecgOffset} is outside the file`);
+  }
+
+  const storedCrc = view.getUint16(8, true);
+  const crcEnd = Math.min(bytes.length, h + ISHNE_HEADER_SIZE + variableLength);
+  const crcValid = crcCCITT(bytes.subarray(h, crcEnd)) === storedCrc;
+
+  const leads: ISHNELead[] = Array.from({ length: nLeads }, (_, i) => {
+    const spec = int16(148 + i * 2);
+    return {
+      spec,
+      name: ISHNE_LEAD_NAMES[spec] ?? `Lead ${i + 1}`,
+      quality: int16(172 + i * 2),
+      resolutionNv: int16(196 + i * 2) || 1
+    };
+  });
+
+  const [day, month, year] = [int16(128), int16(130), int16(132)];
+  const [hour, minute, second] = [int16(140), int16(142), int16(144)];
+  const start = new Date(year, month - 1, day, hour, minute, second);
+  const startTime = year > 0 && month >= 1 && month <= 12 && day >= 1 && !Number.isNaN(start.getTime())
+    ? start.getTime()
+    : null;
+
+  // Trust the file length over a header that claims more samples than it holds
+  const available = Math.floor((bytes.length - ecgOffset) / (2 * nLeads));
+  const count = Math.min(sampleCount, available);
+  const data = leads.map(() => new Int16Array(count));
+  for (let i = 0; i < count; i++) {
+    for (let l = 0; l < nLeads; l++) {
+      data[l][i] = view.getInt16(ecgOffset + (i * nLeads + l) * 2, true);
+    }
+  }
+
+  return {
+    header: {
+      fileVersion: int16(16),
+      subjectId: readText(bytes, h + 98, 20),
+      sex: SEX_NAMES[int16(118)] ?? 'Unknown',
+      recorder: readText(bytes, h + 222, 40),
+      startTime,
+      samplingRate,
+      sampleCount: count,
+      pacemaker: int16(220),
+      variableBlock: variableLength > 0 && variableOffset + variableLength <= bytes.length
+        ? readText(bytes, variableOffset, variableLength)
+        : ''
+    },
+    leads,
+    data,
+    channelLeads: mapISHNELeads(leads),
+    crcValid
+  };
+}
+
+/**
+ * One ECGSample at a sample index of the recording
+ * @param startTime - Epoch ms of sample 0 (the header start, or a chosen one)
+ */
+export function ishneSampleAt(recording: ISHNERecording, startTime: number, index: number): ECGSample {
+  const { header, leads, data, channelLeads } = recording;
+  const channels: [number, number, number] = [0, 0, 0];
+  const on: [boolean, boolean, boolean] = [false, false, false];
+  channelLeads.forEach((lead, c) => {
+    if (lead === null) return;
+    const raw = data[lead][index];
+    if (raw === ISHNE_INVALID_SAMPLE) return;
+    channels[c] = (raw * leads[lead].resolutionNv) / 1000;
+    on[c] = true;
+  });
+  return {
+    time: new Date(startTime + (index * 1000) / header.samplingRate).toISOString(),
+    channels,
+    lead_on_p: [...on],
+    lead_on_n: [...on],
+    quality: [...on]
+  };
+}
+
+/**
+ * ECGSample rows for a sample-index range of the recording
+ * @param from - First sample index (inclusive)
+ * @param to - Last sample index (exclusive)
+ * @param step - Take every step-th sample
+ */
+export function ishneSamples(
+  recording: ISHNERecording,
+  startTime: number,
+  from: number,
+  to: number,
+  step = 1
+): ECGSample[] {
+  const samples: ECGSample[] = [];
+  const last = Math.min(recording.header.sampleCount, to);
+  for (let i = Math.max(0, from); i < last; i += Math.max(1, step)) {
+    samples.push(ishneSampleAt(recording, startTime, i));
+  }
+  return samples;
+}
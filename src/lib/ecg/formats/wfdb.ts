@@ -0,0 +1,505 @@
+/**
+ * FILE: src/lib/ecg/formats/wfdb.ts
+ *
+ * PhysioNet WFDB record writer (and the matching readers, used to check
+ * exports): a .hea header, a .dat signal file in format 212 or 16 and an
+ * optional MIT-format .atr annotation file.
+ *
+ * WFDB records are uniformly sampled, so each sample is placed by its
+ * timestamp on the record's sample grid. Missing samples are written as
+ * the format's invalid-sample value (WFDB tools show them as gaps) and
+ * repeated samples from overlapping chunks are dropped.
+ *
+ *   • Format 212: 12-bit, 200 adu/mV (the MIT-BIH convention), ±10 mV.
+ *   • Format 16: 16-bit little-endian, 1000 adu/mV (1 adu = 1 µV).
+ *
+ * Values beyond the format's range are clipped and counted. Base time and
+ * date are UTC; pod and study ids go in header comments.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import type { ECGAnnotationRow } from '@/types/domain/ecg';
+import { findAnnotationLabel } from '../annotations';
+import type { AnnotationTaxonomy } from '../annotations';
+import type { ECGChannel } from '../beatDetection';
+import { ECG_UNITS_PER_MV } from '../paper';
+
+export type WFDBFormat = 212 | 16;
+
+/** MIT annotation codes (ecgcodes.h) used by the export */
+export const WFDB_ANNOTATION_CODES = {
+  NORMAL: 1,
+  PVC: 5,
+  APC: 8,
+  NOISE: 14,
+  ARFCT: 16,
+  NOTE: 22,
+  RHYTHM: 28
+} as const;
+
+// Pseudo-annotation codes that modify or space out real annotations
+const SKIP = 59;
+const NUM = 60;
+const SUB = 61;
+const CHN = 62;
+const AUX = 63;
+const MAX_AUX_BYTES = 255;
+
+interface FormatSpec {
+  gain: number;
+  adcRes: number;
+  min: number;
+  max: number;
+  invalid: number;
+}
+
+const FORMAT_SPECS: Record<WFDBFormat, FormatSpec> = {
+  212: { gain: 200, adcRes: 12, min: -2047, max: 2047, invalid: -2048 },
+  16: { gain: 1000, adcRes: 16, min: -32767, max: 32767, invalid: -32768 }
+};
+
+const SIGNAL_NAMES = ['ECG I', 'ECG II', 'ECG III'];
+
+export interface WFDBAnnotation {
+  /** Sample number from the start of the record */
+  sample: number;
+  code: number;
+  /** Signal number (0-based); carried over from the previous annotation when omitted */
+  channel?: number;
+  aux?: string;
+}
+
+export interface WFDBWriterOptions {
+  /** Letters, digits and underscores; other characters are replaced */
+  recordName: string;
+  /** Samples per second */
+  samplingRate: number;
+  format?: WFDBFormat;
+  podId?: string;
+  studyId?: string | null;
+}
+
+export interface WFDBResult {
+  recordName: string;
+  header: string;
+  dat: Uint8Array;
+  /** Null when no annotations were added */
+  atr: Uint8Array | null;
+  sampleCount: number;
+  clippedSamples: number;
+  /** Samples written as invalid because no data was received for them */
+  gapSamples: number;
+}
+
+export interface WFDBWriter {
+  addSamples: (samples: ECGSample[]) => void;
+  /** Add an annotation at an epoch-ms time */
+  addAnnotation: (timeMs: number, code: number, options?: { channel?: number; aux?: string }) => void;
+  finish: () => WFDBResult;
+}
+
+export function wfdbRecordName(name: string): string {
+  const clean = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return clean || 'record';
+}
+
+/** A 16-bit checksum as WFDB prints it (signed) */
+function checksum16(values: ArrayLike<number>, count: number): number {
+  let sum = 0;
+  for (let i = 0; i < count; i++) sum = (sum + values[i]) & 0xffff;
+  return sum > 0x7fff ? sum - 0x10000 : sum;
+}
+
+export function encodeFormat212(interleaved: ArrayLike<number>, count = interleaved.length): Uint8Array {
+  const bytes = new Uint8Array(Math.floor(count / 2) * 3 + (count % 2 ? 2 : 0));
+  let o = 0;
+  for (let i = 0; i < count; i += 2) {
+    const a = interleaved[i] & 0xfff;
+    bytes[o++] = a & 0xff;
+    if (i + 1 < count) {
+      const b = interleaved[i + 1] & 0xfff;
+      bytes[o++] = ((b >> 4) & 0xf0) | (a >> 8);
+      bytes[o++] = b & 0xff;
+    } else {
+      // A trailing odd sample takes two bytes
+      bytes[o++] = a >> 8;
+    }
+  }
+  return bytes;
+}
+
+export function decodeFormat212(bytes: Uint8Array, count: number): Int16Array {
+  const out = new Int16Array(count);
+  const sign12 = (v: number) => (v & 0x800 ? v - 0x1000 : v);
+  let o = 0;
+  for (let i = 0; i < count; i += 2) {
+    const b0 = bytes[o++];
+    const b1 = bytes[o++];
+    out[i] = sign12(((b1 & 0x0f) << 8) | b0);
+    if (i + 1 < count) {
+      const b2 = bytes[o++];
+      out[i + 1] = sign12(((b1 & 0xf0) << 4) | b2);
+    }
+  }
+  return out;
+}
+
+export function encodeFormat16(interleaved: ArrayLike<number>, count = interleaved.length): Uint8Array {
+  const bytes = new Uint8Array(count * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < count; i++) view.setInt16(i * 2, interleaved[i], true);
+  return bytes;
+}
+
+export function decodeFormat16(bytes: Uint8Array, count: number): Int16Array {
+  const out = new Int16Array(count);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 0; i < count; i++) out[i] = view.getInt16(i * 2, true);
+  return out;
+}
+
+/**
+ * MIT annotation file: one 16-bit word per annotation (6-bit code, 10-bit
+ * sample delta), with SKIP for longer deltas and CHN / AUX modifiers.
+ */
+export function encodeWFDBAnnotations(annotations: WFDBAnnotation[]): Uint8Array {
+  const sorted = [...annotations].sort((a, b) => a.sample - b.sample);
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  const word = (w: number) => bytes.push(w & 0xff, (w >> 8) & 0xff);
+
+  let previous = 0;
+  let channel = 0;
+  sorted.forEach(a => {
+    let delta = a.sample - previous;
+    if (delta > 0x3ff) {
+      // Interval as a PDP-11 long: high word first, each word little-endian
+      word(SKIP << 10);
+      word((delta >>> 16) & 0xffff);
+      word(delta & 0xffff);
+      delta = 0;
+    }
+    word((a.code << 10) | delta);
+    if (a.channel !== undefined && a.channel !== channel) {
+      word((CHN << 10) | a.channel);
+      channel = a.channel;
+    }
+    if (a.aux) {
+      const aux = encoder.encode(a.aux).slice(0, MAX_AUX_BYTES);
+      word((AUX << 10) | aux.length);
+      aux.forEach(b => bytes.push(b));
+      if (aux.length % 2) bytes.push(0);
+    }
+    previous = a.sample;
+  });
+  word(0);
+  return new Uint8Array(bytes);
+}
+
+export function decodeWFDBAnnotations(bytes: Uint8Array): WFDBAnnotation[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const annotations: WFDBAnnotation[] = [];
+  let offset = 0;
+  let time = 0;
+  let channel = 0;
+
+  while (offset + 1 < bytes.length) {
+    const w = view.getUint16(offset, true);
+    offset += 2;
+    const code = w >> 10;
+    const data = w & 0x3ff;
+    if (code === 0 && data === 0) break;
+
+    const last = annotations[annotations.length - 1];
+    if (code === SKIP) {
+      time += (view.getUint16(offset, true) << 16) + view.getUint16(offset + 2, true);
+      offset += 4;
+    } else if (code === CHN) {
+      channel = data;
+      if (last) last.channel = data;
+    } else if (code === AUX) {
+      if (last) last.aux = decoder.decode(bytes.subarray(offset, offset + data));
+      offset += data + (data % 2);
+    } else if (code === NUM || code === SUB) {
+      // Not written by this exporter
+    } else {
+      time += data;
+      annotations.push({ sample: time, code, channel });
+    }
+  }
+  return annotations;
+}
+
+export interface WFDBSignalSpec {
+  file: string;
+  format: number;
+  gain: number;
+  baseline: number;
+  units: string;
+  adcRes: number;
+  adcZero: number;
+  initValue: number;
+  checksum: number;
+  blockSize: number;
+  description: string;
+}
+
+export interface WFDBHeader {
+  recordName: string;
+  signalCount: number;
+  samplingRate: number;
+  sampleCount: number;
+  baseTime: string;
+  baseDate: string;
+  signals: WFDBSignalSpec[];
+  comments: string[];
+}
+
+export function parseWFDBHeader(text: string): WFDBHeader {
+  const lines = text.split(/\r?\n/);
+  const comments = lines.filter(l => l.startsWith('#')).map(l => l.slice(1).trim());
+  const body = lines.filter(l => l.trim() && !l.startsWith('#'));
+  if (!body.length) throw new Error('WFDB header has no record line');
+
+  const [recordName, nsig, fs, nsamp, baseTime = '', baseDate = ''] = body[0].trim().split(/\s+/);
+  const signals = body.slice(1).map(line => {
+    const [file, format, gainField, adcRes, adcZero, initValue, check, blockSize, ...description] = line.trim().split(/\s+/);
+    const gainMatch = /^([\d.]+)(?:\((-?\d+)\))?(?:\/(\S+))?$/.exec(gainField ?? '');
+    return {
+      file,
+      format: Number(format),
+      gain: gainMatch ? Number(gainMatch[1]) : 200,
+      baseline: gainMatch?.[2] !== undefined ? Number(gainMatch[2]) : 0,
+      units: gainMatch?.[3] ?? 'mV',
+      adcRes: Number(adcRes),
+      adcZero: Number(adcZero),
+      initValue: Number(initValue),
+      checksum: Number(check),
+      blockSize: Number(blockSize),
+      description: description.join(' ')
+    };
+  });
+
+  return {
+    recordName,
+    signalCount: Number(nsig),
+    samplingRate: Number(fs),
+    sampleCount: Number(nsamp),
+    baseTime,
+    baseDate,
+    signals,
+    comments
+  };
+}
+
+/**
+ * Split a .dat file into one array of digital values per signal
+ */
+export function decodeWFDBSignals(bytes: Uint8Array, format: WFDBFormat, signalCount: number, sampleCount: number): Int16Array[] {
+  const total = signalCount * sampleCount;
+  const interleaved = format === 212 ? decodeFormat212(bytes, total) : decodeFormat16(bytes, total);
+  return Array.from({ length: signalCount }, (_, s) => {
+    const signal = new Int16Array(sampleCount);
+    for (let i = 0; i < sampleCount; i++) signal[i] = interleaved[i * signalCount + s];
+    return signal;
+  });
+}
+
+export function createWFDBWriter({
+  recordName,
+  samplingRate,
+  format = 212,
+  podId,
+  studyId
+}: WFDBWriterOptions): WFDBWriter {
+  if (!(samplingRate > 0)) throw new Error(`WFDB needs a positive sampling rate, got ${samplingRate}`);
+
+  const spec = FORMAT_SPECS[format];
+  const name = wfdbRecordName(recordName);
+  const periodMs = 1000 / samplingRate;
+  const toAdu = (value: number) => Math.round((value * spec.gain) / ECG_UNITS_PER_MV);
+
+  // Interleaved frames (lead 1, 2, 3 per sample), grown by doubling
+  let frames = new Int16Array(3 * 4096);
+  let count = 0;
+  let startMs: number | null = null;
+  let clippedSamples = 0;
+  let gapSamples = 0;
+  const pending: Array<{ timeMs: number; code: number; channel?: number; aux?: string }> = [];
+
+  const push = (values: [number, number, number] | null) => {
+    if ((count + 1) * 3 > frames.length) {
+      const grown = new Int16Array(frames.length * 2);
+      grown.set(frames);
+      frames = grown;
+    }
+    for (let c = 0; c < 3; c++) {
+      let adu = spec.invalid;
+      if (values) {
+        adu = toAdu(values[c]);
+        if (Number.isNaN(adu)) {
+          adu = spec.invalid;
+        } else if (adu < spec.min || adu > spec.max) {
+          clippedSamples++;
+          adu = Math.min(spec.max, Math.max(spec.min, adu));
+        }
+      }
+      frames[count * 3 + c] = adu;
+    }
+    count++;
+  };
+
+  return {
+    addSamples(samples) {
+      for (const sample of samples) {
+        const t = Date.parse(sample.time);
+        if (Number.isNaN(t)) continue;
+        if (startMs === null) startMs = t;
+
+        const index = Math.round((t - startMs) / periodMs);
+        // Overlapping chunk boundaries repeat samples
+        if (index < count) continue;
+        while (count < index) {
+          push(null);
+          gapSamples++;
+        }
+        push(sample.channels);
+      }
+    },
+
+    addAnnotation(timeMs, code, options = {}) {
+      pending.push({ timeMs, code, ...options });
+    },
+
+    finish() {
+      const start = new Date(startMs ?? 0);
+      const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+      const baseTime = `${pad(start.getUTCHours())}:${pad(start.getUTCMinutes())}:${pad(start.getUTCSeconds())}.${pad(start.getUTCMilliseconds(), 3)}`;
+      const baseDate = `${pad(start.getUTCDate())}/${pad(start.getUTCMonth() + 1)}/${start.getUTCFullYear()}`;
+
+      const signalLines = SIGNAL_NAMES.map((description, c) => {
+        const signal = new Int16Array(count);
+        for (let i = 0; i < count; i++) signal[i] = frames[i * 3 + c];
+        return [
+          `${name}.dat`,
+          format,
+          `${spec.gain}(0)/mV`,
+          spec.adcRes,
+          0,
+          count ? signal[0] : 0,
+          checksum16(signal, count),
+          0,
+          description
+        ].join(' ');
+      });
+
+      const comments = [
+        podId ? `pod_id ${podId}` : null,
+        studyId ? `study_id ${studyId}` : null,
+        'base time and date are UTC'
+      ].filter(Boolean).map(c => `# ${c}`);
+
+      const header = [
+        `${name} 3 ${samplingRate} ${count} ${baseTime} ${baseDate}`,
+        ...signalLines,
+        ...comments
+      ].join('\n') + '\n';
+
+      const dat = format === 212 ? encodeFormat212(frames, count * 3) : encodeFormat16(frames, count * 3);
+
+      const annotations = pending
+        .map(a => ({
+          sample: Math.max(0, Math.round((a.timeMs - (startMs ?? a.timeMs)) / periodMs)),
+          code: a.code,
+          channel: a.channel,
+          aux: a.aux
+        }))
+        .filter(a => a.sample < Math.max(1, count));
+
+      return {
+        recordName: name,
+        header,
+        dat,
+        atr: annotations.length ? encodeWFDBAnnotations(annotations) : null,
+        sampleCount: count,
+        clippedSamples,
+        gapSamples
+      };
+    }
+  };
+}
+
+type AnnotationSource = Pick<ECGAnnotationRow, 'label' | 'start_time' | 'end_time' | 'channel' | 'note'>;
+
+/** Taxonomy labels written as beat codes; detected beats in their range take the code */
+const BEAT_LABEL_CODES: Record<string, number> = {
+  pvc: WFDB_ANNOTATION_CODES.PVC,
+  pac: WFDB_ANNOTATION_CODES.APC
+};
+
+/** Taxonomy labels written as non-beat codes at the start of the range */
+const EVENT_LABEL_CODES: Record<string, number> = {
+  artifact: WFDB_ANNOTATION_CODES.ARFCT,
+  noise: WFDB_ANNOTATION_CODES.NOISE
+};
+
+/**
+ * Annotations for a WFDB .atr file from detected beats (with the lead
+ * they were detected on) and reviewer annotations. Beats are written as normal (N) unless a PVC or PAC
+ * annotation covers them; AF ranges become (AFIB … (N rhythm changes;
+ * other labels become notes carrying the label and reviewer note.
+ */
+export function wfdbAnnotationsFor(
+  beats: Array<{ time: number; channel: ECGChannel | null }>,
+  annotations: AnnotationSource[],
+  taxonomy?: AnnotationTaxonomy
+): Array<{ timeMs: number; code: number; channel: number; aux?: string }> {
+  const out: Array<{ timeMs: number; code: number; channel: number; aux?: string }> = [];
+  const beatCodes: number[] = beats.map(() => WFDB_ANNOTATION_CODES.NORMAL);
+  const channelOf = (channel: number | null) => (channel ? channel - 1 : 0);
+
+  annotations.forEach(a => {
+    const start = Date.parse(a.start_time);
+    const end = Date.parse(a.end_time);
+    const channel = channelOf(a.channel);
+
+    const beatCode = BEAT_LABEL_CODES[a.label];
+    if (beatCode !== undefined) {
+      let covered = false;
+      beats.forEach((beat, i) => {
+        if (beat.time >= start && beat.time <= end) {
+          beatCodes[i] = beatCode;
+          covered = true;
+        }
+      });
+      if (!covered) out.push({ timeMs: start, code: beatCode, channel });
+      return;
+    }
+
+    if (a.label === 'af') {
+      out.push({ timeMs: start, code: WFDB_ANNOTATION_CODES.RHYTHM, channel, aux: '(AFIB' });
+      out.push({ timeMs: end, code: WFDB_ANNOTATION_CODES.RHYTHM, channel, aux: '(N' });
+      return;
+    }
+
+    const eventCode = EVENT_LABEL_CODES[a.label];
+    if (eventCode !== undefined) {
+      out.push({ timeMs: start, code: eventCode, channel, aux: a.note ?? undefined });
+      return;
+    }
+
+    const name = findAnnotationLabel(a.label, taxonomy).name;
+    out.push({
+      timeMs: start,
+      code: WFDB_ANNOTATION_CODES.NOTE,
+      channel,
+      aux: a.note ? `${name}: ${a.note}` : name
+    });
+  });
+
+  beats.forEach((beat, i) => {
+    out.push({ timeMs: beat.time, code: beatCodes[i], channel: channelOf(beat.channel) });
+  });
+
+  return out.sort((a, b) => a.timeMs - b.timeMs);
+}
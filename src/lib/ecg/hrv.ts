@@ -0,0 +1,283 @@
+/**
+ * FILE: src/lib/ecg/hrv.ts
+ *
+ * Heart rate variability metrics over a beat sequence from detectBeats.
+ *
+ * Only intervals between two trusted beats are used: detectBeats already
+ * drops RR intervals that span lead-off or quality=false samples, and the
+ * successive-difference metrics additionally require both intervals to be
+ * adjacent. Frequency-domain metrics use a Lomb-Scargle periodogram so the
+ * unevenly spaced RR series does not need to be resampled.
+ */
+import type { DetectedBeat } from './beatDetection';
+
+export interface RRInterval {
+  /** Epoch milliseconds of the beat that closes the interval */
+  time: number;
+  rrMs: number;
+  /** False when the previous interval was excluded (gap before this one) */
+  followsPrevious: boolean;
+}
+
+export interface HRVTimeDomain {
+  meanRR: number;
+  meanHR: number;
+  sdnn: number;
+  rmssd: number;
+  nn50: number;
+  pnn50: number;
+}
+
+export interface HRVFrequencyDomain {
+  /** Band powers in ms² */
+  vlf: number;
+  lf: number;
+  hf: number;
+  lfHfRatio: number | null;
+  /** Normalized units, LF / (LF + HF) * 100 */
+  lfNu: number;
+  hfNu: number;
+  spectrum: Array<{ frequency: number; power: number }>;
+}
+
+export interface PoincareResult {
+  sd1: number;
+  sd2: number;
+  points: Array<{ x: number; y: number }>;
+}
+
+export interface HRVResult {
+  intervals: RRInterval[];
+  /** Number of beat-to-beat intervals dropped because of gaps */
+  excludedCount: number;
+  analyzedDurationMs: number;
+  timeDomain: HRVTimeDomain | null;
+  /** Null when the window is too short for a stable spectrum */
+  frequencyDomain: HRVFrequencyDomain | null;
+  poincare: PoincareResult | null;
+}
+
+export const HRV_BANDS = {
+  vlf: [0.0033, 0.04],
+  lf: [0.04, 0.15],
+  hf: [0.15, 0.4]
+} as const;
+
+/** Shortest span with a reported spectrum; LF needs a few full cycles at 0.04 Hz */
+export const MIN_SPECTRAL_DURATION_MS = 2 * 60 * 1000;
+const MIN_INTERVALS = 3;
+
+/**
+ * Collect usable RR intervals from a beat sequence.
+ */
+export function extractRRIntervals(beats: DetectedBeat[]): { intervals: RRInterval[]; excludedCount: number } {
+  const intervals: RRInterval[] = [];
+  let excludedCount = 0;
+  let previousValid = false;
+
+  beats.forEach((beat, i) => {
+    if (i === 0) return;
+    if (beat.rrMs === null) {
+      excludedCount++;
+      previousValid = false;
+      return;
+    }
+    intervals.push({ time: beat.time, rrMs: beat.rrMs, followsPrevious: previousValid });
+    previousValid = true;
+  });
+
+  return { intervals, excludedCount };
+}
+
+export function computeTimeDomain(intervals: RRInterval[]): HRVTimeDomain | null {
+  if (intervals.length < MIN_INTERVALS) return null;
+
+  const rr = intervals.map(i => i.rrMs);
+  const meanRR = mean(rr);
+  const sdnn = Math.sqrt(rr.reduce((sum, v) => sum + (v - meanRR) ** 2, 0) / (rr.length - 1));
+
+  const diffs = successiveDifferences(intervals);
+  const rmssd = diffs.length ? Math.sqrt(mean(diffs.map(d => d * d))) : 0;
+  const nn50 = diffs.filter(d => Math.abs(d) > 50).length;
+
+  return {
+    meanRR,
+    meanHR: 60000 / meanRR,
+    sdnn,
+    rmssd,
+    nn50,
+    pnn50: diffs.length ? (nn50 / diffs.length) * 100 : 0
+  };
+}
+
+export function computePoincare(intervals: RRInterval[]): PoincareResult | null {
+  const points: Array<{ x: number; y: number }> = [];
+  for (let i = 1; i < intervals.length; i++) {
+    if (!intervals[i].followsPrevious) continue;
+    points.push({ x: intervals[i - 1].rrMs, y: intervals[i].rrMs });
+  }
+  if (points.length < 2) return null;
+
+  // SD1/SD2 are the spreads perpendicular to and along the identity line
+  const across = points.map(p => (p.y - p.x) / Math.SQRT2);
+  const along = points.map(p => (p.y + p.x) / Math.SQRT2);
+
+  return {
+    sd1: standardDeviation(across),
+    sd2: standardDeviation(along),
+    points
+  };
+}
+
+/**
+ * Lomb-Scargle periodogram of the RR series, scaled to a one-sided PSD in
+ * ms²/Hz so band powers integrate to variance.
+ */
+export function lombScargle(
+  times: number[],
+  values: number[],
+  frequencies: number[]
+): number[] {
+  const n = values.length;
+  if (n < 2) return frequencies.map(() => 0);
+
+  const avg = mean(values);
+  const y = values.map(v => v - avg);
+  const spanSec = (times[n - 1] - times[0]) / 1000;
+  const dt = spanSec / (n - 1);
+  const t = times.map(ms => (ms - times[0]) / 1000);
+
+  return frequencies.map(f => {
+    const w = 2 * Math.PI * f;
+    let s2 = 0;
+    let c2 = 0;
+    for (let i = 0; i < n; i++) {
+      s2 += Math.sin(2 * w * t[i]);
+      c2 += Math.cos(2 * w * t[i]);
+    }
+    const tau = Math.atan2(s2, c2) / (2 * w);
+
+    let yc = 0;
+    let ys = 0;
+    let cc = 0;
+    let ss = 0;
+    for (let i = 0; i < n; i++) {
+      const c = Math.cos(w * (t[i] - tau));
+      const s = Math.sin(w * (t[i] - tau));
+      yc += y[i] * c;
+      ys += y[i] * s;
+      cc += c * c;
+      ss += s * s;
+    }
+    const periodogram = 0.5 * ((cc > 0 ? (yc * yc) / cc : 0) + (ss > 0 ? (ys * ys) / ss : 0));
+    return 2 * periodogram * dt;
+  });
+}
+
+export function computeFrequencyDomain(
+  intervals: RRInterval[],
+  frequencyStep = 0.001
+): HRVFrequencyDomain | null {
+  if (intervals.length < MIN_INTERVALS) return null;
+  const durationMs = intervals[intervals.length - 1].time - intervals[0].time;
+  if (durationMs < MIN_SPECTRAL_DURATION_MS) return null;
+
+  const frequencies: number[] = [];
+  for (let f = HRV_BANDS.vlf[0]; f <= HRV_BANDS.hf[1] + 1e-9; f += frequencyStep) {
+    frequencies.push(f);
+  }
+  const power = lombScargle(
+    intervals.map(i => i.time),
+    intervals.map(i => i.rrMs),
+    frequencies
+  );
+
+  const bandPower = ([lo, hi]: readonly [number, number]) =>
+    frequencies.reduce((sum, f, i) => (f >= lo && f < hi ? sum + power[i] * frequencyStep : sum), 0);
+
+  const vlf = bandPower(HRV_BANDS.vlf);
+  const lf = bandPower(HRV_BANDS.lf);
+  const hf = bandPower(HRV_BANDS.hf);
+  const total = lf + hf;
+
+  return {
+    vlf,
+    lf,
+    hf,
+    lfHfRatio: hf > 0 ? lf / hf : null,
+    lfNu: total > 0 ? (lf / total) * 100 : 0,
+    hfNu: total > 0 ? (hf / total) * 100 : 0,
+    spectrum: frequencies.map((frequency, i) => ({ frequency, power: power[i] }))
+  };
+}
+
+/**
+ * Full HRV analysis of a beat sequence.
+ */
+export function computeHRV(beats: DetectedBeat[]): HRVResult {
+  const { intervals, excludedCount } = extractRRIntervals(beats);
+
+  return {
+    intervals,
+    excludedCount,
+    analyzedDurationMs: intervals.reduce((sum, i) => sum + i.rrMs, 0),
+    timeDomain: computeTimeDomain(intervals),
+    frequencyDomain: computeFrequencyDomain(intervals),
+    poincare: computePoincare(intervals)
+  };
+}
+
+/**
+ * Serialize an HRV result as CSV: a metrics block followed by the RR series.
+ */
+export function formatHRVCsv(
+  result: HRVResult,
+  meta: Record<string, string | number | null> = {}
+): string {
+  const lines: string[] = [];
+  Object.entries(meta).forEach(([key, value]) => lines.push(`# ${key},${value ?? ''}`));
+
+  const td = result.timeDomain;
+  const fd = result.frequencyDomain;
+  const metric = (name: string, value: number | null | undefined, unit: string) =>
+    lines.push(`${name},${value === null || value === undefined ? '' : value.toFixed(3)},${unit}`);
+
+  lines.push('metric,value,unit');
+  metric('mean_rr', td?.meanRR, 'ms');
+  metric('mean_hr', td?.meanHR, 'bpm');
+  metric('sdnn', td?.sdnn, 'ms');
+  metric('rmssd', td?.rmssd, 'ms');
+  metric('nn50', td?.nn50, 'count');
+  metric('pnn50', td?.pnn50, '%');
+  metric('vlf', fd?.vlf, 'ms2');
+  metric('lf', fd?.lf, 'ms2');
+  metric('hf', fd?.hf, 'ms2');
+  metric('lf_hf', fd?.lfHfRatio, 'ratio');
+  metric('sd1', result.poincare?.sd1, 'ms');
+  metric('sd2', result.poincare?.sd2, 'ms');
+  metric('excluded_intervals', result.excludedCount, 'count');
+
+  lines.push('');
+  lines.push('beat_time,rr_ms');
+  result.intervals.forEach(i => lines.push(`${new Date(i.time).toISOString()},${i.rrMs}`));
+
+  return lines.join('\n');
+}
+
+function successiveDifferences(intervals: RRInterval[]): number[] {
+  const diffs: number[] = [];
+  for (let i = 1; i < intervals.length; i++) {
+    if (intervals[i].followsPrevious) diffs.push(intervals[i].rrMs - intervals[i - 1].rrMs);
+  }
+  return diffs;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+}
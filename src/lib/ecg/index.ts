@@ -0,0 +1,16 @@
+/**
+ * ECG signal-processing utilities
+ * Pure functions that operate on ECGSample arrays
+ */
+
+export * from './beatDetection';
+export * from './hrv';
+export * from './filters';
+export * from './arrhythmia';
+export * from './downsampling';
+export * from './tiles';
+export * from './paper';
+export * from './calipers';
+export * from './annotations';
+export * from './synthetic';
+export * from './sampleBuffer';
@@ -0,0 +1,203 @@
+/**
+ * Local recordings: ECG files opened from disk (ISHNE) and kept in memory
+ * for this browser session only. Each gets a pseudo pod id with the
+ * "local:" prefix and is served to the viewer hooks by the memory data
+ * source (lib/ecg/dataSource/memory) in the same ECGSample shape as pod
+ * data; nothing is uploaded or cached.
+ *
+ * Reads follow the downsample-ecg edge function: `factor` is relative to
+ * the pod rate (320 Hz), `max_points` coarsens decimation to the budget,
+ * and the bucketing methods (minmax, lttb, peak_preserving) all keep the
+ * per-bucket min and max of each channel.
+ */
+import type { ECGDiagnosticChunk, ECGSample } from '@/hooks/api/ecg/useECG';
+import { RAW_SAMPLE_RATE } from './downsampling';
+import type { DownsampleMethod } from './downsampling';
+import { ISHNE_INVALID_SAMPLE, ishneSampleAt } from './formats/ishne';
+import type { ISHNERecording } from './formats/ishne';
+
+export const LOCAL_RECORDING_PREFIX = 'local:';
+
+export interface LocalRecording {
+  /** Pseudo pod id, "local:<uuid>" */
+  id: string;
+  /** File name it was opened from */
+  name: string;
+  recording: ISHNERecording;
+  /** Epoch ms of the first and one past the last sample */
+  startTime: number;
+  endTime: number;
+}
+
+export interface LocalSampleRequest {
+  pod_id: string;
+  time_start: string;
+  time_end: string;
+  factor?: number;
+  method?: DownsampleMethod;
+  max_points?: number;
+}
+
+const recordings = new Map<string, LocalRecording>();
+
+export function isLocalRecordingId(podId: string | null | undefined): boolean {
+  return Boolean(podId?.startsWith(LOCAL_RECORDING_PREFIX));
+}
+
+/**
+ * Keep a parsed recording for this session
+ * @param startTime - Epoch ms of sample 0; defaults to the header start, or now when the header has none
+ */
+export function addLocalRecording(name: string, recording: ISHNERecording, startTime?: number): LocalRecording {
+  const start = startTime ?? recording.header.startTime ?? Date.now();
+  const local: LocalRecording = {
+    id: `${LOCAL_RECORDING_PREFIX}${crypto.randomUUID()}`,
+    name,
+    recording,
+    startTime: start,
+    endTime: start + (recording.header.sampleCount * 1000) / recording.header.samplingRate
+  };
+  recordings.set(local.id, local);
+  return local;
+}
+
+export function getLocalRecording(id: string): LocalRecording | undefined {
+  return recordings.get(id);
+}
+
+export function listLocalRecordings(): LocalRecording[] {
+  return [...recordings.values()];
+}
+
+export function removeLocalRecording(id: string): void {
+  recordings.delete(id);
+}
+
+function requireRecording(id: string): LocalRecording {
+  const local = recordings.get(id);
+  if (!local) throw new Error('Local recording is no longer loaded; open the file again');
+  return local;
+}
+
+/** Sample index range [from, to) covering a time range */
+function indexRange(local: LocalRecording, time_start: string, time_end: string): [number, number] {
+  const { samplingRate, sampleCount } = local.recording.header;
+  const from = Math.max(0, Math.ceil(((Date.parse(time_start) - local.startTime) * samplingRate) / 1000));
+  const to = Math.min(sampleCount, Math.ceil(((Date.parse(time_end) - local.startTime) * samplingRate) / 1000));
+  return [from, Math.max(from, to)];
+}
+
+/** Per bucket, the indices of each channel's min and max, in order */
+function minMaxIndices(local: LocalRecording, from: number, to: number, maxPoints: number): number[] {
+  const { data, channelLeads } = local.recording;
+  const n = to - from;
+  if (n <= maxPoints) return Array.from({ length: n }, (_, i) => from + i);
+
+  const series = channelLeads.filter((lead): lead is number => lead !== null).map(lead => data[lead]);
+  const buckets = Math.max(1, Math.floor(maxPoints / 6));
+  const bucketSize = n / buckets;
+  const indices: number[] = [];
+  for (let b = 0; b < buckets; b++) {
+    const lo = from + Math.floor(b * bucketSize);
+    const hi = Math.min(to, from + Math.floor((b + 1) * bucketSize));
+    const picked = new Set<number>();
+    for (const values of series) {
+      let min = lo;
+      let max = lo;
+      for (let i = lo + 1; i < hi; i++) {
+        if (values[i] === ISHNE_INVALID_SAMPLE) continue;
+        if (values[i] < values[min]) min = i;
+        if (values[i] > values[max]) max = i;
+      }
+      picked.add(min);
+      picked.add(max);
+    }
+    indices.push(...[...picked].sort((a, c) => a - c));
+  }
+  return indices;
+}
+
+/**
+ * ECGSample rows of a local recording, as the Supabase source returns them for pods
+ */
+export function readLocalSamples({
+  pod_id,
+  time_start,
+  time_end,
+  factor = 4,
+  method = 'decimate',
+  max_points
+}: LocalSampleRequest): ECGSample[] {
+  const local = requireRecording(pod_id);
+  const [from, to] = indexRange(local, time_start, time_end);
+
+  if (method !== 'decimate' && max_points) {
+    return minMaxIndices(local, from, to, max_points).map(i => ishneSampleAt(local.recording, local.startTime, i));
+  }
+
+  // factor is relative to the pod rate; match the output rate a pod would give
+  let step = Math.max(1, Math.round((local.recording.header.samplingRate * factor) / RAW_SAMPLE_RATE));
+  if (max_points) step = Math.max(step, Math.ceil((to - from) / max_points));
+
+  const samples: ECGSample[] = [];
+  for (let i = from; i < to; i += step) samples.push(ishneSampleAt(local.recording, local.startTime, i));
+  return samples;
+}
+
+/**
+ * Diagnostics for a local recording in the get-ecg-diagnostics shape.
+ * Quality is the share of valid samples per channel; noise is the share
+ * of samples at the int16 rails (saturated).
+ */
+export function localDiagnostics({ pod_id, time_start, time_end }: LocalSampleRequest): ECGDiagnosticChunk['metrics'] {
+  const local = requireRecording(pod_id);
+  const [from, to] = indexRange(local, time_start, time_end);
+  const { data, channelLeads, header } = local.recording;
+  const n = to - from;
+
+  const perChannel = channelLeads.map(lead => {
+    if (lead === null || n === 0) return { valid: 0, saturated: 0 };
+    let valid = 0;
+    let saturated = 0;
+    for (let i = from; i < to; i++) {
+      const v = data[lead][i];
+      if (v === ISHNE_INVALID_SAMPLE) continue;
+      valid++;
+      if (v === 32767 || v === -32767) saturated++;
+    }
+    return { valid, saturated };
+  });
+  const percent = (count: number) => (n ? (count / n) * 100 : 0);
+
+  // A run of invalid samples on every lead counts as one dropout
+  let drops = 0;
+  let missing = 0;
+  let inDrop = false;
+  for (let i = from; i < to; i++) {
+    const lost = channelLeads.every(lead => lead === null || data[lead][i] === ISHNE_INVALID_SAMPLE);
+    if (lost) missing++;
+    if (lost && !inDrop) drops++;
+    inDrop = lost;
+  }
+
+  return {
+    signal_quality: {
+      noise_levels: {
+        channel_1: percent(perChannel[0].saturated),
+        channel_2: percent(perChannel[1].saturated),
+        channel_3: percent(perChannel[2].saturated)
+      },
+      quality_scores: {
+        channel_1: percent(perChannel[0].valid),
+        channel_2: percent(perChannel[1].valid),
+        channel_3: percent(perChannel[2].valid)
+      }
+    },
+    connection_stats: {
+      total_samples: n,
+      missing_samples: missing,
+      connection_drops: drops,
+      sampling_frequency: header.samplingRate
+    }
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * FILE: src/lib/ecg/paper.ts
+ *
+ * Clinical ECG paper geometry: 1 mm minor / 5 mm major grid, paper speed
+ * in mm/s and gain in mm/mV. Physical millimetres are mapped to CSS pixels
+ * through a per-screen calibration (pxPerMm); grid lines are snapped to
+ * device pixels so they stay one pixel sharp at any devicePixelRatio.
+ */
+
+export const PAPER_SPEEDS = [12.5, 25, 50] as const;
+export const PAPER_GAINS = [5, 10, 20] as const;
+
+export type PaperSpeed = typeof PAPER_SPEEDS[number];
+export type PaperGain = typeof PAPER_GAINS[number];
+
+/** Raw sample units per millivolt; channel values are treated as microvolts */
+export const ECG_UNITS_PER_MV = 1000;
+
+/** CSS pixels per millimetre assumed by browsers (96 dpi) before calibration */
+export const DEFAULT_PX_PER_MM = 96 / 25.4;
+
+/** Width of an ID-1 card (credit card, driving licence), used to calibrate */
+export const CALIBRATION_CARD_MM = 85.6;
+
+/** Standard calibration pulse: 1 mV high, 200 ms wide */
+export const CALIBRATION_PULSE_MV = 1;
+export const CALIBRATION_PULSE_SEC = 0.2;
+
+const MINOR_MM = 1;
+const MAJOR_EVERY = 5;
+
+export interface PaperSettings {
+  speed: PaperSpeed;
+  gain: PaperGain;
+  /** CSS pixels per physical millimetre on this screen */
+  pxPerMm: number;
+  unitsPerMv?: number;
+}
+
+export interface PaperGridSpec {
+  /** Minor (1 mm) spacing in CSS pixels */
+  minorPx: number;
+  /** Grid phase: a major line passes through (originX, originY) */
+  originX: number;
+  originY: number;
+}
+
+export interface CalibrationPulseSpec {
+  /** Left edge and baseline, CSS pixels */
+  x: number;
+  baselineY: number;
+  widthPx: number;
+  heightPx: number;
+}
+
+export interface GridLines {
+  minor: number[];
+  major: number[];
+}
+
+export interface PaperLayout {
+  pxPerSecond: number;
+  pxPerMv: number;
+  /** Seconds of signal that fit across the plot */
+  visibleSeconds: number;
+  yMin: number;
+  yMax: number;
+  grid: PaperGridSpec;
+  pulse: CalibrationPulseSpec;
+}
+
+/**
+ * Calibrated CSS pixels per millimetre from an on-screen measurement of a
+ * reference object of known size.
+ */
+export function pxPerMmFromReference(measuredPx: number, referenceMm = CALIBRATION_CARD_MM): number {
+  return measuredPx / referenceMm;
+}
+
+/**
+ * Y-range, grid and calibration pulse for a plot of the given CSS size.
+ * The baseline (0 mV) sits on a major line through the vertical centre.
+ */
+export function paperLayout(width: number, height: number, settings: PaperSettings): PaperLayout {
+  const { speed, gain, pxPerMm, unitsPerMv = ECG_UNITS_PER_MV } = settings;
+  const pxPerSecond = speed * pxPerMm;
+  const pxPerMv = gain * pxPerMm;
+  const majorPx = MAJOR_EVERY * MINOR_MM * pxPerMm;
+
+  // Snap the baseline to a major line so 1 mV lands on the grid
+  const baselineY = Math.round(height / 2 / majorPx) * majorPx;
+  const halfAbove = baselineY / pxPerMv;
+  const halfBelow = (height - baselineY) / pxPerMv;
+
+  return {
+    pxPerSecond,
+    pxPerMv,
+    visibleSeconds: width / pxPerSecond,
+    yMin: -halfBelow * unitsPerMv,
+    yMax: halfAbove * unitsPerMv,
+    grid: { minorPx: MINOR_MM * pxPerMm, originX: 0, originY: baselineY },
+    pulse: {
+      x: 2 * pxPerMm,
+      baselineY,
+      widthPx: CALIBRATION_PULSE_SEC * pxPerSecond,
+      heightPx: CALIBRATION_PULSE_MV * pxPerMv
+    }
+  };
+}
+
+/**
+ * scaleX that draws a trace spanning `durationSec` at the paper speed, for
+ * the renderer mapping x = (i / n) * width * scaleX.
+ */
+export function paperScaleX(durationSec: number, width: number, pxPerSecond: number): number {
+  if (durationSec <= 0 || width <= 0) return 1;
+  return (durationSec * pxPerSecond) / width;
+}
+
+/**
+ * Grid line positions along one axis, in CSS pixels, snapped to the centre
+ * of a device pixel so a one-device-pixel line is never smeared over two.
+ */
+export function paperGridLines(extentPx: number, originPx: number, minorPx: number, pixelRatio = 1): GridLines {
+  const lines: GridLines = { minor: [], major: [] };
+  if (minorPx <= 0 || extentPx <= 0) return lines;
+
+  const first = Math.ceil(-originPx / minorPx);
+  const last = Math.floor((extentPx - originPx) / minorPx);
+  for (let k = first; k <= last; k++) {
+    const css = originPx + k * minorPx;
+    const snapped = (Math.floor(css * pixelRatio) + 0.5) / pixelRatio;
+    // Mathematical modulo so lines left of the origin keep their phase
+    const isMajor = ((k % MAJOR_EVERY) + MAJOR_EVERY) % MAJOR_EVERY === 0;
+    (isMajor ? lines.major : lines.minor).push(snapped);
+  }
+  return lines;
+}
+
+/**
+ * Outline of the calibration pulse as a polyline: a short baseline, the
+ * 1 mV step, and back down.
+ */
+export function calibrationPulsePath(pulse: CalibrationPulseSpec): Array<[number, number]> {
+  const lead = pulse.widthPx / 2;
+  const top = pulse.baselineY - pulse.heightPx;
+  const x0 = pulse.x;
+  const x1 = x0 + lead;
+  const x2 = x1 + pulse.widthPx;
+  return [
+    [x0, pulse.baselineY],
+    [x1, pulse.baselineY],
+    [x1, top],
+    [x2, top],
+    [x2, pulse.baselineY],
+    [x2 + lead, pulse.baselineY]
+  ];
+}
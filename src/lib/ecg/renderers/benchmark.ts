@@ -0,0 +1,96 @@
+/**
+ * FILE: src/lib/ecg/renderers/benchmark.ts
+ *
+ * Frame-time benchmark for ECG renderers on synthetic data. Each frame
+ * changes pan and zoom the way a reviewer dragging a plot would, then
+ * renders; the time to render (and, for WebGL, to flush the GPU) is
+ * recorded per frame.
+ */
+import { TRACE_FLAG } from './types';
+import type { ECGRenderer, ECGTrace, ECGViewState } from './types';
+
+export interface FrameTimeStats {
+  frames: number;
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+  /** Frames per second at the mean frame time */
+  fps: number;
+}
+
+export interface RendererBenchmarkOptions {
+  frames?: number;
+  width?: number;
+  height?: number;
+  /** Called after each frame so a flush (e.g. gl.finish) can be included */
+  afterFrame?: () => void;
+}
+
+/**
+ * Deterministic ECG-like trace: a sharp R wave every beat over a slow
+ * baseline, with periodic low-quality and lead-off stretches.
+ */
+export function makeSyntheticTrace(count: number, samplingRate = 320): ECGTrace {
+  const values = new Float32Array(count);
+  const flags = new Uint8Array(count);
+  const beat = Math.round(samplingRate * 0.8);
+  for (let i = 0; i < count; i++) {
+    const phase = (i % beat) / beat;
+    const r = Math.exp(-((phase - 0.3) ** 2) / 0.0004) * 40;
+    const t = Math.exp(-((phase - 0.6) ** 2) / 0.004) * 8;
+    values[i] = r + t + 5 * Math.sin((2 * Math.PI * i) / (samplingRate * 6));
+    const block = Math.floor(i / (samplingRate * 30)) % 10;
+    flags[i] = block === 7 ? TRACE_FLAG.lowQuality : block === 9 ? TRACE_FLAG.leadOff : TRACE_FLAG.good;
+  }
+  return { values, flags };
+}
+
+export function summarizeFrameTimes(times: number[]): FrameTimeStats {
+  if (!times.length) return { frames: 0, meanMs: 0, p50Ms: 0, p95Ms: 0, maxMs: 0, fps: 0 };
+  const sorted = [...times].sort((a, b) => a - b);
+  const pick = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  const meanMs = times.reduce((sum, t) => sum + t, 0) / times.length;
+  return {
+    frames: times.length,
+    meanMs,
+    p50Ms: pick(0.5),
+    p95Ms: pick(0.95),
+    maxMs: sorted[sorted.length - 1],
+    fps: meanMs > 0 ? 1000 / meanMs : Infinity
+  };
+}
+
+/**
+ * Render `frames` pan/zoom steps and return frame-time statistics.
+ */
+export function benchmarkRenderer(
+  renderer: ECGRenderer,
+  trace: ECGTrace,
+  { frames = 120, width = 800, height = 250, afterFrame }: RendererBenchmarkOptions = {}
+): FrameTimeStats {
+  renderer.setTrace(trace);
+  const beatIndices: number[] = [];
+  for (let i = Math.round(0.3 * 256); i < trace.values.length; i += 256) beatIndices.push(i);
+
+  const times: number[] = [];
+  for (let frame = 0; frame < frames; frame++) {
+    const scaleX = 1 + 4 * (0.5 - 0.5 * Math.cos((2 * Math.PI * frame) / frames));
+    const view: ECGViewState = {
+      width,
+      height,
+      scaleX,
+      translateX: -((frame / frames) * width * (scaleX - 1)),
+      yMin: -20,
+      yMax: 60,
+      waveColor: 'rgba(129,230,217,0.8)',
+      beatIndices,
+      beatColor: 'rgba(248,113,113,0.9)'
+    };
+    const start = performance.now();
+    renderer.render(view);
+    afterFrame?.();
+    times.push(performance.now() - start);
+  }
+  return summarizeFrameTimes(times);
+}
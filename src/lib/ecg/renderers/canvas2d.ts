@@ -0,0 +1,158 @@
+/**
+ * FILE: src/lib/ecg/renderers/canvas2d.ts
+ *
+ * Canvas2D backend: the original useECGCanvas drawing, restricted to the
+ * visible index range and with lead-off / low-quality shading.
+ */
+import { PAPER_GRID_COLORS, SHADING_COLORS, TRACE_FLAG } from './types';
+import type { ECGRenderer, ECGTrace, ECGViewState } from './types';
+import { flaggedRuns } from './trace';
+import { calibrationPulsePath, paperGridLines } from '../paper';
+import type { CalibrationPulseSpec, PaperGridSpec } from '../paper';
+
+const GRID_SPACING = 50;
+
+export function visibleIndexRange(count: number, view: Pick<ECGViewState, 'width' | 'scaleX' | 'translateX'>): [number, number] {
+  if (!count) return [0, 0];
+  const span = view.width * view.scaleX;
+  const first = Math.floor((-view.translateX / span) * count) - 1;
+  const last = Math.ceil(((view.width - view.translateX) / span) * count) + 1;
+  return [Math.max(0, first), Math.min(count, last)];
+}
+
+export function drawGrid(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
+  ctx.lineWidth = 0.5;
+  ctx.beginPath();
+  for (let x = 0; x < width; x += GRID_SPACING) {
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+  }
+  for (let y = 0; y < height; y += GRID_SPACING) {
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+  }
+  ctx.stroke();
+}
+
+export function drawPaperGrid(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  grid: PaperGridSpec,
+  pixelRatio: number
+) {
+  const xs = paperGridLines(width, grid.originX, grid.minorPx, pixelRatio);
+  const ys = paperGridLines(height, grid.originY, grid.minorPx, pixelRatio);
+  // One device pixel wide regardless of the CSS-to-device scale
+  ctx.lineWidth = 1 / pixelRatio;
+  (['minor', 'major'] as const).forEach(kind => {
+    ctx.strokeStyle = PAPER_GRID_COLORS[kind];
+    ctx.beginPath();
+    xs[kind].forEach(x => {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+    });
+    ys[kind].forEach(y => {
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+    });
+    ctx.stroke();
+  });
+}
+
+function drawCalibrationPulse(ctx: CanvasRenderingContext2D, pulse: CalibrationPulseSpec, color: string) {
+  const path = calibrationPulsePath(pulse);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  path.forEach(([x, y], i) => (i ? ctx.lineTo(x, y) : ctx.moveTo(x, y)));
+  ctx.stroke();
+}
+
+export function createCanvas2DRenderer(canvas: HTMLCanvasElement): ECGRenderer | null {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  let trace: ECGTrace = { values: new Float32Array(0), flags: new Uint8Array(0) };
+  let runs = flaggedRuns(trace.flags);
+
+  return {
+    kind: 'canvas2d',
+
+    setTrace(next) {
+      trace = next;
+      runs = flaggedRuns(next.flags);
+    },
+
+    render(view) {
+      const { width, height, scaleX, translateX, yMin, yMax } = view;
+      const n = trace.values.length;
+      const xAt = (i: number) => (i / n) * width * scaleX + translateX;
+      const yAt = (v: number) => height - ((v - yMin) / (yMax - yMin)) * height;
+
+      const pixelRatio = view.pixelRatio ?? 1;
+      ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      if (view.paperGrid) {
+        drawPaperGrid(ctx, width, height, view.paperGrid, pixelRatio);
+      } else {
+        drawGrid(ctx, width, height);
+      }
+      if (view.calibrationPulse) drawCalibrationPulse(ctx, view.calibrationPulse, view.waveColor);
+      if (!n) return;
+
+      // Shade lead-off and low-quality stretches behind the trace
+      runs.forEach(run => {
+        const x0 = Math.max(0, xAt(run.start));
+        const x1 = Math.min(width, xAt(run.end));
+        if (x1 <= x0) return;
+        ctx.fillStyle = run.flag === TRACE_FLAG.leadOff ? SHADING_COLORS.leadOff : SHADING_COLORS.lowQuality;
+        ctx.fillRect(x0, 0, x1 - x0, height);
+      });
+
+      const [first, last] = visibleIndexRange(n, view);
+      ctx.lineWidth = 1.5;
+      let color = '';
+      for (let i = first; i < last; i++) {
+        const next = trace.flags[i] === TRACE_FLAG.leadOff ? SHADING_COLORS.leadOffTrace : view.waveColor;
+        if (next !== color) {
+          // Close the current run and continue from the same point in the new colour
+          if (color) {
+            ctx.lineTo(xAt(i), yAt(trace.values[i]));
+            ctx.stroke();
+          }
+          color = next;
+          ctx.strokeStyle = color;
+          ctx.beginPath();
+          ctx.moveTo(xAt(i), yAt(trace.values[i]));
+          continue;
+        }
+        ctx.lineTo(xAt(i), yAt(trace.values[i]));
+      }
+      if (color) ctx.stroke();
+
+      // Mark detected beats with a small triangle above the R-peak
+      if (view.beatIndices?.length) {
+        ctx.fillStyle = view.beatColor;
+        view.beatIndices.forEach(index => {
+          if (index < 0 || index >= n) return;
+          const x = xAt(index);
+          if (x < 0 || x > width) return;
+          const y = Math.max(8, yAt(trace.values[index]) - 6);
+          ctx.beginPath();
+          ctx.moveTo(x - 4, y - 6);
+          ctx.lineTo(x + 4, y - 6);
+          ctx.lineTo(x, y);
+          ctx.closePath();
+          ctx.fill();
+        });
+      }
+    },
+
+    dispose() {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    }
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * ECG canvas renderers
+ * WebGL with a Canvas2D fallback, behind one ECGRenderer interface
+ */
+import { createCanvas2DRenderer } from './canvas2d';
+import { createWebGLRenderer, webglCompiles } from './webgl';
+import type { ECGRenderer, ECGRendererPreference } from './types';
+
+export * from './types';
+export * from './trace';
+export { createCanvas2DRenderer, visibleIndexRange } from './canvas2d';
+export { createWebGLRenderer, parseColor, webglCompiles } from './webgl';
+export * from './benchmark';
+
+let webglProbe: boolean | undefined;
+
+// Probed once per page on a scratch canvas
+function webglAvailable(): boolean {
+  if (webglProbe === undefined) {
+    webglProbe = typeof document !== 'undefined' && webglCompiles(document.createElement('canvas'));
+  }
+  return webglProbe;
+}
+
+/**
+ * Create a renderer for a canvas. A canvas can only ever hold one context
+ * type, so once WebGL has been acquired the fallback is not possible on
+ * the same element; 'auto' therefore first checks on a scratch canvas
+ * that WebGL exists and compiles the shaders, and uses Canvas2D when it
+ * doesn't. Pass `probe` to check on a given canvas instead of the cached
+ * page-wide result.
+ */
+export function createECGRenderer(
+  canvas: HTMLCanvasElement,
+  preference: ECGRendererPreference = 'auto',
+  probe?: HTMLCanvasElement
+): ECGRenderer | null {
+  if (preference === 'webgl') return createWebGLRenderer(canvas);
+  if (preference === 'auto' && (probe ? webglCompiles(probe) : webglAvailable())) {
+    const webgl = createWebGLRenderer(canvas);
+    if (webgl) return webgl;
+  }
+  return createCanvas2DRenderer(canvas);
+}
@@ -0,0 +1,36 @@
+/**
+ * FILE: src/lib/ecg/renderers/trace.ts
+ *
+ * Conversion from a sample buffer to the typed-array trace renderers draw.
+ * The channel's values are shared, not copied; only the flags are derived.
+ */
+import { hasQuality, isLeadOn } from '../sampleBuffer';
+import type { ECGSampleBuffer } from '../sampleBuffer';
+import { TRACE_FLAG } from './types';
+import type { ECGTrace } from './types';
+
+export function buildECGTrace(buffer: ECGSampleBuffer, channel: 1 | 2 | 3): ECGTrace {
+  const flags = new Uint8Array(buffer.length);
+  for (let i = 0; i < buffer.length; i++) {
+    flags[i] = !isLeadOn(buffer, i, channel)
+      ? TRACE_FLAG.leadOff
+      : hasQuality(buffer, i, channel) ? TRACE_FLAG.good : TRACE_FLAG.lowQuality;
+  }
+  return { values: buffer.channels[channel - 1], flags };
+}
+
+/**
+ * Contiguous runs of a non-good flag, as [startIndex, endIndex) pairs.
+ */
+export function flaggedRuns(flags: Uint8Array): Array<{ start: number; end: number; flag: number }> {
+  const runs: Array<{ start: number; end: number; flag: number }> = [];
+  let i = 0;
+  while (i < flags.length) {
+    const flag = flags[i];
+    let j = i + 1;
+    while (j < flags.length && flags[j] === flag) j++;
+    if (flag !== TRACE_FLAG.good) runs.push({ start: i, end: j, flag });
+    i = j;
+  }
+  return runs;
+}
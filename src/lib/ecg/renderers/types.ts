@@ -0,0 +1,68 @@
+/**
+ * FILE: src/lib/ecg/renderers/types.ts
+ *
+ * Contract between useECGCanvas and the drawing backends. The hook owns
+ * interaction state (zoom, pan, Y-range); a renderer only turns a trace
+ * plus a view into pixels.
+ */
+import type { CalibrationPulseSpec, PaperGridSpec } from '../paper';
+
+export type ECGRendererKind = 'webgl' | 'canvas2d';
+
+/** Renderer selection; 'auto' prefers WebGL and falls back to Canvas2D */
+export type ECGRendererPreference = ECGRendererKind | 'auto';
+
+/** Per-sample signal state, drawn as shading behind and on the trace */
+export const TRACE_FLAG = {
+  good: 0,
+  lowQuality: 1,
+  leadOff: 2
+} as const;
+
+/**
+ * One channel flattened into typed arrays, ready to upload to the GPU.
+ */
+export interface ECGTrace {
+  values: Float32Array;
+  flags: Uint8Array;
+}
+
+export interface ECGViewState {
+  /** CSS pixels */
+  width: number;
+  height: number;
+  /** Same mapping as before: x = (i / n) * width * scaleX + translateX */
+  scaleX: number;
+  translateX: number;
+  yMin: number;
+  yMax: number;
+  waveColor: string;
+  beatIndices?: number[];
+  beatColor: string;
+  /** Device pixels per CSS pixel; the canvas backing store is sized by it */
+  pixelRatio?: number;
+  /** Clinical paper grid; replaces the plain grid when set */
+  paperGrid?: PaperGridSpec;
+  calibrationPulse?: CalibrationPulseSpec;
+}
+
+export interface ECGRenderer {
+  readonly kind: ECGRendererKind;
+  /** Replace the trace; WebGL uploads new vertex buffers here */
+  setTrace(trace: ECGTrace): void;
+  render(view: ECGViewState): void;
+  dispose(): void;
+}
+
+/** Shading colours shared by both backends */
+export const SHADING_COLORS = {
+  lowQuality: 'rgba(245,158,11,0.12)',
+  leadOff: 'rgba(239,68,68,0.15)',
+  leadOffTrace: 'rgba(156,163,175,0.6)'
+};
+
+/** ECG paper grid colours, tuned for the dark plot background */
+export const PAPER_GRID_COLORS = {
+  minor: 'rgba(248,113,113,0.14)',
+  major: 'rgba(248,113,113,0.4)'
+};
@@ -0,0 +1,348 @@
+/**
+ * FILE: src/lib/ecg/renderers/webgl.ts
+ *
+ * WebGL backend. The trace is uploaded once per data change as vertex
+ * buffers (sample index, value, flag); pan, zoom and Y-range are shader
+ * uniforms, so interaction redraws without touching the data. Lead-off and
+ * low-quality shading is done in the fragment shader from the per-vertex
+ * flag. Grid and beat markers are small pixel-space overlays.
+ *
+ * A lost context is waited out: programs and buffers are rebuilt on
+ * webglcontextrestored and the last trace and view drawn again.
+ */
+import { PAPER_GRID_COLORS, SHADING_COLORS } from './types';
+import type { ECGRenderer, ECGTrace, ECGViewState } from './types';
+import { calibrationPulsePath, paperGridLines } from '../paper';
+
+const TRACE_VERTEX = `
+attribute float a_index;
+attribute float a_value;
+attribute float a_flag;
+uniform float u_count;
+uniform vec2 u_size;
+uniform float u_scaleX;
+uniform float u_translateX;
+uniform vec2 u_yRange;
+varying float v_flag;
+void main() {
+  float x = (a_index / u_count) * u_size.x * u_scaleX + u_translateX;
+  float y = (a_value - u_yRange.x) / (u_yRange.y - u_yRange.x);
+  gl_Position = vec4(x / u_size.x * 2.0 - 1.0, y * 2.0 - 1.0, 0.0, 1.0);
+  v_flag = a_flag;
+}`;
+
+const TRACE_FRAGMENT = `
+precision mediump float;
+uniform vec4 u_color;
+uniform vec4 u_leadOffColor;
+varying float v_flag;
+void main() {
+  gl_FragColor = v_flag > 1.5 ? u_leadOffColor : u_color;
+}`;
+
+// Full-height strip per sample; the fragment shader shades flagged samples
+const BAND_VERTEX = `
+attribute float a_index;
+attribute float a_side;
+attribute float a_flag;
+uniform float u_count;
+uniform vec2 u_size;
+uniform float u_scaleX;
+uniform float u_translateX;
+varying float v_flag;
+void main() {
+  float x = (a_index / u_count) * u_size.x * u_scaleX + u_translateX;
+  gl_Position = vec4(x / u_size.x * 2.0 - 1.0, a_side * 2.0 - 1.0, 0.0, 1.0);
+  v_flag = a_flag;
+}`;
+
+const BAND_FRAGMENT = `
+precision mediump float;
+uniform vec4 u_lowQualityColor;
+uniform vec4 u_leadOffColor;
+varying float v_flag;
+void main() {
+  if (v_flag < 0.5) discard;
+  gl_FragColor = v_flag > 1.5 ? u_leadOffColor : u_lowQualityColor;
+}`;
+
+const OVERLAY_VERTEX = `
+attribute vec2 a_position;
+uniform vec2 u_size;
+void main() {
+  gl_Position = vec4(a_position.x / u_size.x * 2.0 - 1.0, 1.0 - a_position.y / u_size.y * 2.0, 0.0, 1.0);
+}`;
+
+const OVERLAY_FRAGMENT = `
+precision mediump float;
+uniform vec4 u_color;
+void main() {
+  gl_FragColor = u_color;
+}`;
+
+const GRID_SPACING = 50;
+const GRID_COLOR: [number, number, number, number] = [1, 1, 1, 0.05];
+
+/**
+ * Parse rgba()/rgb()/#rrggbb into 0..1 RGBA components for uniforms.
+ */
+export function parseColor(color: string): [number, number, number, number] {
+  const rgba = color.match(/rgba?\(([^)]+)\)/);
+  if (rgba) {
+    const [r, g, b, a = '1'] = rgba[1].split(',').map(s => s.trim());
+    return [Number(r) / 255, Number(g) / 255, Number(b) / 255, Number(a)];
+  }
+  const hex = color.match(/^#([0-9a-f]{6})$/i);
+  if (hex) {
+    const v = parseInt(hex[1], 16);
+    return [((v >> 16) & 255) / 255, ((v >> 8) & 255) / 255, (v & 255) / 255, 1];
+  }
+  return [1, 1, 1, 1];
+}
+
+function compile(gl: WebGLRenderingContext, vertex: string, fragment: string): WebGLProgram | null {
+  const shader = (type: number, source: string) => {
+    const s = gl.createShader(type);
+    if (!s) return null;
+    gl.shaderSource(s, source);
+    gl.compileShader(s);
+    if (!gl.getShaderParameter(s, gl.COMPILE_STATUS)) {
+      gl.deleteShader(s);
+      return null;
+    }
+    return s;
+  };
+  const vs = shader(gl.VERTEX_SHADER, vertex);
+  const fs = shader(gl.FRAGMENT_SHADER, fragment);
+  const program = gl.createProgram();
+  if (!vs || !fs || !program) return null;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+}
+
+interface WebGLPrograms {
+  trace: WebGLProgram;
+  band: WebGLProgram;
+  overlay: WebGLProgram;
+}
+
+function compilePrograms(gl: WebGLRenderingContext): WebGLPrograms | null {
+  const trace = compile(gl, TRACE_VERTEX, TRACE_FRAGMENT);
+  const band = compile(gl, BAND_VERTEX, BAND_FRAGMENT);
+  const overlay = compile(gl, OVERLAY_VERTEX, OVERLAY_FRAGMENT);
+  if (trace && band && overlay) return { trace, band, overlay };
+  [trace, band, overlay].forEach(program => program && gl.deleteProgram(program));
+  return null;
+}
+
+function createBuffers(gl: WebGLRenderingContext) {
+  return {
+    index: gl.createBuffer(),
+    value: gl.createBuffer(),
+    flag: gl.createBuffer(),
+    bandIndex: gl.createBuffer(),
+    bandSide: gl.createBuffer(),
+    bandFlag: gl.createBuffer(),
+    overlay: gl.createBuffer()
+  };
+}
+
+function getWebGLContext(canvas: HTMLCanvasElement): WebGLRenderingContext | null {
+  return canvas.getContext('webgl', { antialias: true, premultipliedAlpha: false }) as WebGLRenderingContext | null;
+}
+
+/**
+ * Whether this browser's WebGL compiles and links the renderer's shaders,
+ * tried on a scratch canvas. A canvas that has handed out a WebGL context
+ * can no longer give a 2D one, so 'auto' asks here before touching the
+ * real canvas.
+ */
+export function webglCompiles(scratch: HTMLCanvasElement): boolean {
+  const gl = getWebGLContext(scratch);
+  if (!gl) return false;
+  const programs = compilePrograms(gl);
+  if (programs) Object.values(programs).forEach(program => gl.deleteProgram(program));
+  gl.getExtension('WEBGL_lose_context')?.loseContext();
+  return programs !== null;
+}
+
+export function createWebGLRenderer(canvas: HTMLCanvasElement): ECGRenderer | null {
+  const gl = getWebGLContext(canvas);
+  if (!gl) return null;
+
+  let programs = compilePrograms(gl);
+  if (!programs) return null;
+  let buffers = createBuffers(gl);
+
+  let count = 0;
+  let values: Float32Array = new Float32Array(0);
+  let lost = false;
+  let lastTrace: ECGTrace | null = null;
+  let lastView: ECGViewState | null = null;
+
+  const onLost = (e: Event) => {
+    // Without preventDefault the context is never restored
+    e.preventDefault();
+    lost = true;
+  };
+  const onRestored = () => {
+    programs = compilePrograms(gl);
+    if (!programs) return;
+    buffers = createBuffers(gl);
+    lost = false;
+    if (lastTrace) renderer.setTrace(lastTrace);
+    if (lastView) renderer.render(lastView);
+  };
+  canvas.addEventListener('webglcontextlost', onLost);
+  canvas.addEventListener('webglcontextrestored', onRestored);
+
+  const upload = (buffer: WebGLBuffer | null, data: ArrayBufferView) => {
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+  };
+
+  const bindAttribute = (program: WebGLProgram, name: string, buffer: WebGLBuffer | null, size: number, type: number) => {
+    const location = gl.getAttribLocation(program, name);
+    if (location < 0) return;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, type, false, 0, 0);
+  };
+
+  const setViewUniforms = (program: WebGLProgram, view: ECGViewState) => {
+    gl.uniform1f(gl.getUniformLocation(program, 'u_count'), Math.max(1, count));
+    gl.uniform2f(gl.getUniformLocation(program, 'u_size'), view.width, view.height);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_scaleX'), view.scaleX);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_translateX'), view.translateX);
+  };
+
+  const drawOverlay = (overlayProgram: WebGLProgram, vertices: Float32Array, mode: number, color: [number, number, number, number], view: ECGViewState) => {
+    if (!vertices.length) return;
+    gl.useProgram(overlayProgram);
+    upload(buffers.overlay, vertices);
+    bindAttribute(overlayProgram, 'a_position', buffers.overlay, 2, gl.FLOAT);
+    gl.uniform2f(gl.getUniformLocation(overlayProgram, 'u_size'), view.width, view.height);
+    gl.uniform4fv(gl.getUniformLocation(overlayProgram, 'u_color'), color);
+    gl.drawArrays(mode, 0, vertices.length / 2);
+  };
+
+  const renderer: ECGRenderer = {
+    kind: 'webgl',
+
+    setTrace(trace: ECGTrace) {
+      lastTrace = trace;
+      if (lost) return;
+      count = trace.values.length;
+      values = trace.values;
+
+      const index = new Float32Array(count);
+      for (let i = 0; i < count; i++) index[i] = i;
+      upload(buffers.index, index);
+      upload(buffers.value, trace.values);
+      upload(buffers.flag, trace.flags);
+
+      // Two vertices per sample (bottom, top) for the shading strip
+      const bandIndex = new Float32Array(count * 2);
+      const bandSide = new Float32Array(count * 2);
+      const bandFlag = new Uint8Array(count * 2);
+      for (let i = 0; i < count; i++) {
+        bandIndex[2 * i] = i;
+        bandIndex[2 * i + 1] = i;
+        bandSide[2 * i + 1] = 1;
+        bandFlag[2 * i] = trace.flags[i];
+        bandFlag[2 * i + 1] = trace.flags[i];
+      }
+      upload(buffers.bandIndex, bandIndex);
+      upload(buffers.bandSide, bandSide);
+      upload(buffers.bandFlag, bandFlag);
+    },
+
+    render(view: ECGViewState) {
+      lastView = view;
+      if (lost || !programs) return;
+      const { trace: traceProgram, band: bandProgram, overlay: overlayProgram } = programs;
+      gl.viewport(0, 0, canvas.width, canvas.height);
+      gl.clearColor(0, 0, 0, 0);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+      gl.enable(gl.BLEND);
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+
+      // Grid
+      if (view.paperGrid) {
+        const { paperGrid } = view;
+        const xs = paperGridLines(view.width, paperGrid.originX, paperGrid.minorPx, view.pixelRatio);
+        const ys = paperGridLines(view.height, paperGrid.originY, paperGrid.minorPx, view.pixelRatio);
+        (['minor', 'major'] as const).forEach(kind => {
+          const lines: number[] = [];
+          xs[kind].forEach(x => lines.push(x, 0, x, view.height));
+          ys[kind].forEach(y => lines.push(0, y, view.width, y));
+          drawOverlay(overlayProgram, new Float32Array(lines), gl.LINES, parseColor(PAPER_GRID_COLORS[kind]), view);
+        });
+      } else {
+        const grid: number[] = [];
+        for (let x = 0; x < view.width; x += GRID_SPACING) grid.push(x, 0, x, view.height);
+        for (let y = 0; y < view.height; y += GRID_SPACING) grid.push(0, y, view.width, y);
+        drawOverlay(overlayProgram, new Float32Array(grid), gl.LINES, GRID_COLOR, view);
+      }
+      if (view.calibrationPulse) {
+        const pulse = calibrationPulsePath(view.calibrationPulse).flat();
+        drawOverlay(overlayProgram, new Float32Array(pulse), gl.LINE_STRIP, parseColor(view.waveColor), view);
+      }
+
+      if (!count) return;
+
+      // Lead-off / low-quality shading
+      gl.useProgram(bandProgram);
+      bindAttribute(bandProgram, 'a_index', buffers.bandIndex, 1, gl.FLOAT);
+      bindAttribute(bandProgram, 'a_side', buffers.bandSide, 1, gl.FLOAT);
+      bindAttribute(bandProgram, 'a_flag', buffers.bandFlag, 1, gl.UNSIGNED_BYTE);
+      setViewUniforms(bandProgram, view);
+      gl.uniform4fv(gl.getUniformLocation(bandProgram, 'u_lowQualityColor'), parseColor(SHADING_COLORS.lowQuality));
+      gl.uniform4fv(gl.getUniformLocation(bandProgram, 'u_leadOffColor'), parseColor(SHADING_COLORS.leadOff));
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, count * 2);
+
+      // Trace
+      gl.useProgram(traceProgram);
+      bindAttribute(traceProgram, 'a_index', buffers.index, 1, gl.FLOAT);
+      bindAttribute(traceProgram, 'a_value', buffers.value, 1, gl.FLOAT);
+      bindAttribute(traceProgram, 'a_flag', buffers.flag, 1, gl.UNSIGNED_BYTE);
+      setViewUniforms(traceProgram, view);
+      gl.uniform2f(gl.getUniformLocation(traceProgram, 'u_yRange'), view.yMin, view.yMax);
+      gl.uniform4fv(gl.getUniformLocation(traceProgram, 'u_color'), parseColor(view.waveColor));
+      gl.uniform4fv(gl.getUniformLocation(traceProgram, 'u_leadOffColor'), parseColor(SHADING_COLORS.leadOffTrace));
+      gl.drawArrays(gl.LINE_STRIP, 0, count);
+
+      // Beat markers
+      if (view.beatIndices?.length) {
+        const triangles: number[] = [];
+        view.beatIndices.forEach(index => {
+          if (index < 0 || index >= count) return;
+          const x = (index / count) * view.width * view.scaleX + view.translateX;
+          if (x < 0 || x > view.width) return;
+          const yValue = view.height - ((values[index] - view.yMin) / (view.yMax - view.yMin)) * view.height;
+          const y = Math.max(8, yValue - 6);
+          triangles.push(x - 4, y - 6, x + 4, y - 6, x, y);
+        });
+        drawOverlay(overlayProgram, new Float32Array(triangles), gl.TRIANGLES, parseColor(view.beatColor), view);
+      }
+    },
+
+    dispose() {
+      canvas.removeEventListener('webglcontextlost', onLost);
+      canvas.removeEventListener('webglcontextrestored', onRestored);
+      Object.values(buffers).forEach(buffer => gl.deleteBuffer(buffer));
+      if (programs) Object.values(programs).forEach(program => gl.deleteProgram(program));
+      lastTrace = null;
+      lastView = null;
+    }
+  };
+  return renderer;
+}
@@ -0,0 +1,146 @@
+/**
+ * FILE: src/lib/ecg/sampleBuffer.ts
+ *
+ * Columnar ECG samples: one typed array per column instead of one object
+ * per sample. The binary downsample-ecg payload decodes straight into it
+ * and the canvas path (trace, calipers, brush) reads from it, so a long
+ * window is a handful of allocations rather than hundreds of thousands.
+ *
+ * Lead-on and quality flags are packed per sample into a Uint16Array, one
+ * bit each (SAMPLE_FLAG). Analyses written against ECGSample[] get the
+ * objects from sampleBufferToSamples, which converts once per buffer.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import type { ECGChannel } from './beatDetection';
+
+export interface ECGSampleBuffer {
+  length: number;
+  /** Epoch milliseconds, ascending */
+  times: Float64Array;
+  /** µV, channel 1 first */
+  channels: [Float32Array, Float32Array, Float32Array];
+  /** SAMPLE_FLAG bits per sample */
+  flags: Uint16Array;
+}
+
+/** Flag bits for channel index 0..2 */
+export const SAMPLE_FLAG = {
+  leadOnP: [1 << 0, 1 << 1, 1 << 2],
+  leadOnN: [1 << 3, 1 << 4, 1 << 5],
+  quality: [1 << 6, 1 << 7, 1 << 8]
+} as const;
+
+/** Every electrode on and every channel good */
+export const ALL_SAMPLE_FLAGS = (1 << 9) - 1;
+
+export function createSampleBuffer(length: number): ECGSampleBuffer {
+  return {
+    length,
+    times: new Float64Array(length),
+    channels: [new Float32Array(length), new Float32Array(length), new Float32Array(length)],
+    flags: new Uint16Array(length)
+  };
+}
+
+export const EMPTY_SAMPLE_BUFFER: ECGSampleBuffer = createSampleBuffer(0);
+
+export function packSampleFlags(
+  lead_on_p: readonly boolean[],
+  lead_on_n: readonly boolean[],
+  quality: readonly boolean[]
+): number {
+  let bits = 0;
+  for (let c = 0; c < 3; c++) {
+    if (lead_on_p[c]) bits |= SAMPLE_FLAG.leadOnP[c];
+    if (lead_on_n[c]) bits |= SAMPLE_FLAG.leadOnN[c];
+    if (quality[c]) bits |= SAMPLE_FLAG.quality[c];
+  }
+  return bits;
+}
+
+/** Both electrodes of the channel are on */
+export function isLeadOn(buffer: ECGSampleBuffer, index: number, channel: ECGChannel): boolean {
+  const bits = buffer.flags[index];
+  const c = channel - 1;
+  return (bits & SAMPLE_FLAG.leadOnP[c]) !== 0 && (bits & SAMPLE_FLAG.leadOnN[c]) !== 0;
+}
+
+export function hasQuality(buffer: ECGSampleBuffer, index: number, channel: ECGChannel): boolean {
+  return (buffer.flags[index] & SAMPLE_FLAG.quality[channel - 1]) !== 0;
+}
+
+export function sampleBufferFromSamples(samples: ECGSample[]): ECGSampleBuffer {
+  const buffer = createSampleBuffer(samples.length);
+  samples.forEach((sample, i) => {
+    buffer.times[i] = Date.parse(sample.time);
+    buffer.channels[0][i] = sample.channels[0];
+    buffer.channels[1][i] = sample.channels[1];
+    buffer.channels[2][i] = sample.channels[2];
+    buffer.flags[i] = packSampleFlags(sample.lead_on_p, sample.lead_on_n, sample.quality);
+  });
+  return buffer;
+}
+
+/** One sample as an object, e.g. for a tooltip */
+export function sampleAt(buffer: ECGSampleBuffer, index: number): ECGSample {
+  const bits = buffer.flags[index];
+  const bit = (mask: number) => (bits & mask) !== 0;
+  return {
+    time: new Date(buffer.times[index]).toISOString(),
+    channels: [buffer.channels[0][index], buffer.channels[1][index], buffer.channels[2][index]],
+    lead_on_p: [bit(SAMPLE_FLAG.leadOnP[0]), bit(SAMPLE_FLAG.leadOnP[1]), bit(SAMPLE_FLAG.leadOnP[2])],
+    lead_on_n: [bit(SAMPLE_FLAG.leadOnN[0]), bit(SAMPLE_FLAG.leadOnN[1]), bit(SAMPLE_FLAG.leadOnN[2])],
+    quality: [bit(SAMPLE_FLAG.quality[0]), bit(SAMPLE_FLAG.quality[1]), bit(SAMPLE_FLAG.quality[2])]
+  };
+}
+
+// Buffers are immutable once built, so the objects can be shared between callers
+const materialized = new WeakMap<ECGSampleBuffer, ECGSample[]>();
+
+export function sampleBufferToSamples(buffer: ECGSampleBuffer): ECGSample[] {
+  let samples = materialized.get(buffer);
+  if (!samples) {
+    samples = new Array<ECGSample>(buffer.length);
+    for (let i = 0; i < buffer.length; i++) samples[i] = sampleAt(buffer, i);
+    materialized.set(buffer, samples);
+  }
+  return samples;
+}
+
+/**
+ * A buffer sharing times and flags with the original but with one channel
+ * replaced, e.g. by its filtered values.
+ */
+export function withChannelValues(
+  buffer: ECGSampleBuffer,
+  channel: ECGChannel,
+  values: Float32Array
+): ECGSampleBuffer {
+  const channels = [...buffer.channels] as ECGSampleBuffer['channels'];
+  channels[channel - 1] = values;
+  return { ...buffer, channels };
+}
+
+/** Sampling rate from the first and last times, as estimateSamplingRate */
+export function sampleBufferRate(buffer: ECGSampleBuffer): number {
+  if (buffer.length < 2) return 0;
+  const spanMs = buffer.times[buffer.length - 1] - buffer.times[0];
+  if (!Number.isFinite(spanMs) || spanMs <= 0) return 0;
+  return ((buffer.length - 1) * 1000) / spanMs;
+}
+
+/** Consecutive buffers as one, e.g. the chunks of a streamed window so far */
+export function concatSampleBuffers(buffers: readonly ECGSampleBuffer[]): ECGSampleBuffer {
+  const parts = buffers.filter(part => part && part.length > 0);
+  if (parts.length === 0) return EMPTY_SAMPLE_BUFFER;
+  if (parts.length === 1) return parts[0];
+  const buffer = createSampleBuffer(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    buffer.times.set(part.times, offset);
+    buffer.channels.forEach((values, c) => values.set(part.channels[c], offset));
+    buffer.flags.set(part.flags, offset);
+    offset += part.length;
+  }
+  return buffer;
+}
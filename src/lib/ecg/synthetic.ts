@@ -0,0 +1,418 @@
+/**
+ * FILE: src/lib/ecg/synthetic.ts
+ *
+ * Deterministic three-lead ECG for demos, tests and load testing. The
+ * signal is template based: each beat is a sum of Gaussian P, Q, R, S and
+ * T waves (the waveform of McSharry's dynamical model, placed on a beat
+ * schedule instead of integrated), on top of baseline wander and white
+ * noise.
+ *
+ * The beat schedule is drawn once from the seed: heart rate with
+ * respiratory sinus arrhythmia and random RR jitter (hrvMs), plus the
+ * injected episodes — pauses, bradycardia and tachycardia runs, atrial
+ * fibrillation (irregular RR, no P waves, fibrillatory baseline) and
+ * PVCs (premature wide beats followed by a compensatory pause). Noise is
+ * hashed from the seed and sample index, so any sample can be computed on
+ * its own and a window reads the same however it is requested.
+ *
+ * Leads I and II are projections of the same beat; lead III is II - I,
+ * as it is on a pod. Lead-off intervals zero a channel and clear its
+ * lead-on and quality flags; quality dropouts clear quality and raise the
+ * noise.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import type { ECGSampleRow } from '@/types/domain/ecg';
+import type { DownsampleECGResponse } from './dataSource/types';
+import type { ECGChannel } from './beatDetection';
+import { RAW_SAMPLE_RATE } from './downsampling';
+
+export type SyntheticEpisodeType = 'pause' | 'bradycardia' | 'tachycardia' | 'atrial_fibrillation' | 'pvc';
+
+export interface SyntheticEpisode {
+  type: SyntheticEpisodeType;
+  /** Epoch milliseconds */
+  start: number;
+  /** Epoch milliseconds; unused for pause and pvc, which happen once at start */
+  end?: number;
+  /** Rate of a bradycardia / tachycardia run; defaults to 40 / 150 bpm */
+  heartRate?: number;
+  /** Length of a pause; defaults to 3000 ms */
+  pauseMs?: number;
+}
+
+export interface SyntheticInterval {
+  /** Epoch milliseconds */
+  start: number;
+  end: number;
+  /** Affected channels; all three when omitted */
+  channels?: ECGChannel[];
+}
+
+export interface SyntheticECGOptions {
+  /** Epoch milliseconds of the first sample */
+  start: number;
+  durationMs: number;
+  seed?: number;
+  samplingRate?: number;
+  heartRate?: number;
+  /** Standard deviation of the random RR jitter, ms */
+  hrvMs?: number;
+  /** Standard deviation of white noise, µV */
+  noiseUv?: number;
+  /** Amplitude of baseline wander, µV */
+  baselineWanderUv?: number;
+  leadOff?: SyntheticInterval[];
+  dropouts?: SyntheticInterval[];
+  arrhythmias?: SyntheticEpisode[];
+}
+
+export type SyntheticBeatKind = 'normal' | 'pvc' | 'af';
+
+export interface SyntheticBeat {
+  /** Epoch milliseconds of the R peak */
+  time: number;
+  kind: SyntheticBeatKind;
+}
+
+export interface SyntheticECG {
+  start: number;
+  end: number;
+  samplingRate: number;
+  sampleCount: number;
+  /** One sample by index from the start */
+  sampleAt(index: number): ECGSample;
+  /** Samples with index in [from, to), every step-th */
+  samples(from: number, to: number, step?: number): ECGSample[];
+  /** Ground truth: beats with R peaks in [start, end) */
+  beatsBetween(start: number, end: number): SyntheticBeat[];
+  /**
+   * Share (0..1) of [start, end) a channel spends lead-off or in a dropout;
+   * with channel null, only intervals that affect every channel count
+   */
+  coverage(channel: ECGChannel | null, start: number, end: number): { leadOff: number; dropout: number };
+}
+
+/**
+ * mulberry32: small, fast, good enough for test signals
+ */
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Stable 32-bit seed from a string, e.g. a pod id */
+export function hashSeed(value: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+}
+
+// Uniform (0, 1) from the seed, a sample index and a stream number
+function hashUniform(seed: number, index: number, stream: number): number {
+  let h = (seed ^ Math.imul(index, 0x9e3779b1) ^ Math.imul(stream + 1, 0x85ebca6b)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  h ^= h >>> 16;
+  return ((h >>> 0) + 0.5) / 4294967296;
+}
+
+function gaussian(u1: number, u2: number): number {
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// Waves of one beat in lead II: offset from the R peak (s), amplitude (mV), width (s)
+type Wave = [number, number, number];
+
+const TEMPLATES: Record<SyntheticBeatKind, { waves: Wave[]; leadIGain: number }> = {
+  normal: {
+    waves: [[-0.2, 0.15, 0.025], [-0.035, -0.12, 0.01], [0, 1.1, 0.011], [0.035, -0.25, 0.011], [0.28, 0.3, 0.05]],
+    leadIGain: 0.6
+  },
+  // No P wave; the fibrillatory baseline is added separately
+  af: {
+    waves: [[-0.035, -0.12, 0.01], [0, 1.1, 0.011], [0.035, -0.25, 0.011], [0.28, 0.3, 0.05]],
+    leadIGain: 0.6
+  },
+  // Wide QRS with a discordant T wave, on a different axis
+  pvc: {
+    waves: [[0, 1.5, 0.03], [0.08, -0.5, 0.03], [0.32, -0.4, 0.06]],
+    leadIGain: -0.4
+  }
+};
+
+/** Beat waveform in lead II, mV, at dt seconds from the R peak */
+function beatAmplitude(kind: SyntheticBeatKind, dt: number): number {
+  let sum = 0;
+  for (const [at, amp, width] of TEMPLATES[kind].waves) {
+    const x = dt - at;
+    sum += amp * Math.exp(-(x * x) / (2 * width * width));
+  }
+  return sum;
+}
+
+const DEFAULT_RUN_RATE = { bradycardia: 40, tachycardia: 150 } as const;
+// Beats further than this from a sample contribute nothing visible
+const BEAT_REACH_BEFORE_MS = 500;
+const BEAT_REACH_AFTER_MS = 700;
+
+function inside(intervals: SyntheticInterval[], time: number, channel: ECGChannel): boolean {
+  return intervals.some(iv => time >= iv.start && time < iv.end && (!iv.channels || iv.channels.includes(channel)));
+}
+
+function coveredMs(intervals: SyntheticInterval[], channel: ECGChannel | null, start: number, end: number): number {
+  const spans = intervals
+    .filter(iv => !iv.channels || (channel === null ? iv.channels.length === 3 : iv.channels.includes(channel)))
+    .map(iv => [Math.max(start, iv.start), Math.min(end, iv.end)] as [number, number])
+    .filter(([a, b]) => b > a)
+    .sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let reached = start;
+  for (const [a, b] of spans) {
+    if (b <= reached) continue;
+    total += b - Math.max(a, reached);
+    reached = b;
+  }
+  return total;
+}
+
+export function createSyntheticECG({
+  start,
+  durationMs,
+  seed = 1,
+  samplingRate = RAW_SAMPLE_RATE,
+  heartRate = 70,
+  hrvMs = 30,
+  noiseUv = 15,
+  baselineWanderUv = 80,
+  leadOff = [],
+  dropouts = [],
+  arrhythmias = []
+}: SyntheticECGOptions): SyntheticECG {
+  const end = start + durationMs;
+  const sampleCount = Math.floor((durationMs * samplingRate) / 1000);
+  const random = createRandom(seed);
+  const noiseSeed = Math.floor(random() * 4294967296);
+  const wanderPhases = [random(), random(), random(), random()].map(p => p * 2 * Math.PI);
+  const afPhase = random() * 2 * Math.PI;
+
+  const runs = arrhythmias.filter(e => e.type !== 'pause' && e.type !== 'pvc' && e.end !== undefined);
+  const singles = arrhythmias
+    .filter(e => e.type === 'pause' || e.type === 'pvc')
+    .sort((a, b) => a.start - b.start);
+  const afRuns = runs.filter(e => e.type === 'atrial_fibrillation');
+  const runAt = (time: number) => runs.find(e => time >= e.start && time < (e.end as number));
+
+  // Beat schedule, drawn once; starts a beat early so the first samples have a full waveform
+  const beatTimes: number[] = [];
+  const beatKinds: SyntheticBeatKind[] = [];
+  let nextSingle = 0;
+  let t = start - (60000 / heartRate) * (1 + random());
+  while (t < end + BEAT_REACH_BEFORE_MS) {
+    const run = runAt(t);
+    const rate = run?.type === 'bradycardia' || run?.type === 'tachycardia'
+      ? run.heartRate ?? DEFAULT_RUN_RATE[run.type]
+      : heartRate;
+    let rr = 60000 / rate;
+    let kind: SyntheticBeatKind = 'normal';
+
+    if (run?.type === 'atrial_fibrillation') {
+      // Irregularly irregular: RR spread over ±45% of a faster ventricular rate
+      rr = (60000 / ((run.heartRate ?? heartRate) * 1.2)) * (0.55 + 0.9 * random());
+      kind = 'af';
+    } else {
+      // Respiratory sinus arrhythmia at 0.25 Hz plus random jitter
+      rr += hrvMs * (Math.sin((2 * Math.PI * t) / 4000) + gaussian(random() || 1e-9, random()) * 0.7);
+    }
+    beatTimes.push(t);
+    beatKinds.push(kind);
+
+    const single = singles[nextSingle];
+    if (single && single.start < t + rr) {
+      nextSingle++;
+      if (single.type === 'pause') {
+        rr = single.pauseMs ?? 3000;
+      } else {
+        // PVC at 60% of the cycle, then a compensatory pause to the next sinus beat
+        beatTimes.push(t + rr * 0.6);
+        beatKinds.push('pvc');
+        rr *= 2;
+      }
+    }
+    t += Math.max(250, rr);
+  }
+
+  // First beat index with time >= value
+  const firstBeatFrom = (value: number) => {
+    let lo = 0;
+    let hi = beatTimes.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (beatTimes[mid] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const sampleAt = (index: number): ECGSample => {
+    const time = start + (index * 1000) / samplingRate;
+    const seconds = (time - start) / 1000;
+
+    // Electrode signals in µV; lead III is derived from them below
+    let leadII = 0;
+    let leadI = 0;
+    for (let b = firstBeatFrom(time - BEAT_REACH_AFTER_MS); b < beatTimes.length && beatTimes[b] <= time + BEAT_REACH_BEFORE_MS; b++) {
+      const kind = beatKinds[b];
+      const mv = beatAmplitude(kind, (time - beatTimes[b]) / 1000);
+      leadII += mv * 1000;
+      leadI += mv * TEMPLATES[kind].leadIGain * 1000;
+    }
+    if (afRuns.some(e => time >= e.start && time < (e.end as number))) {
+      const f = 50 * Math.sin(2 * Math.PI * 6 * seconds + afPhase);
+      leadII += f;
+      leadI += f * 0.5;
+    }
+
+    const wander = (c: number) =>
+      baselineWanderUv * (0.6 * Math.sin(2 * Math.PI * 0.15 * seconds + wanderPhases[c]) +
+        0.4 * Math.sin(2 * Math.PI * 0.31 * seconds + wanderPhases[c + 2]));
+    const noise = (c: number) =>
+      noiseUv * gaussian(hashUniform(noiseSeed, index, c), hashUniform(noiseSeed, index, c + 8)) *
+        (inside(dropouts, time, (c + 1) as ECGChannel) ? 6 : 1);
+
+    leadI += wander(0) + noise(0);
+    leadII += wander(1) + noise(1);
+    leadI = Math.round(leadI);
+    leadII = Math.round(leadII);
+    const values = [leadI, leadII, leadII - leadI];
+
+    const channels: [number, number, number] = [0, 0, 0];
+    const on: [boolean, boolean, boolean] = [true, true, true];
+    const quality: [boolean, boolean, boolean] = [true, true, true];
+    for (let c = 0; c < 3; c++) {
+      const channel = (c + 1) as ECGChannel;
+      if (inside(leadOff, time, channel)) {
+        on[c] = false;
+        quality[c] = false;
+      } else {
+        channels[c] = values[c];
+        quality[c] = !inside(dropouts, time, channel);
+      }
+    }
+
+    return {
+      time: new Date(time).toISOString(),
+      channels,
+      lead_on_p: [...on],
+      lead_on_n: [...on],
+      quality
+    };
+  };
+
+  return {
+    start,
+    end,
+    samplingRate,
+    sampleCount,
+    sampleAt,
+    samples(from, to, step = 1) {
+      const out: ECGSample[] = [];
+      const last = Math.min(sampleCount, to);
+      for (let i = Math.max(0, from); i < last; i += Math.max(1, step)) out.push(sampleAt(i));
+      return out;
+    },
+    beatsBetween(from, to) {
+      const beats: SyntheticBeat[] = [];
+      for (let b = firstBeatFrom(from); b < beatTimes.length && beatTimes[b] < to; b++) {
+        beats.push({ time: beatTimes[b], kind: beatKinds[b] });
+      }
+      return beats;
+    },
+    coverage(channel, from, to) {
+      const span = Math.max(1, to - from);
+      return {
+        leadOff: coveredMs(leadOff, channel, from, to) / span,
+        dropout: coveredMs(dropouts, channel, from, to) / span
+      };
+    }
+  };
+}
+
+/**
+ * Rows for ecg_sample, as the pod upload writes them
+ */
+export function toECGSampleRows(samples: ECGSample[], podId: string): ECGSampleRow[] {
+  return samples.map(s => ({
+    pod_id: podId,
+    time: s.time,
+    channel_1: s.channels[0],
+    channel_2: s.channels[1],
+    channel_3: s.channels[2],
+    lead_on_p_1: s.lead_on_p[0],
+    lead_on_p_2: s.lead_on_p[1],
+    lead_on_p_3: s.lead_on_p[2],
+    lead_on_n_1: s.lead_on_n[0],
+    lead_on_n_2: s.lead_on_n[1],
+    lead_on_n_3: s.lead_on_n[2],
+    quality_1: s.quality[0],
+    quality_2: s.quality[1],
+    quality_3: s.quality[2]
+  }));
+}
+
+/**
+ * The downsample-ecg JSON body for a set of samples
+ */
+export function toDownsampleResponse(samples: ECGSample[]): DownsampleECGResponse {
+  const column = <T>(pick: (s: ECGSample) => T) => samples.map(pick);
+  return {
+    timestamps: column(s => s.time),
+    channel_1: column(s => s.channels[0]),
+    channel_2: column(s => s.channels[1]),
+    channel_3: column(s => s.channels[2]),
+    lead_on_p_1: column(s => s.lead_on_p[0]),
+    lead_on_p_2: column(s => s.lead_on_p[1]),
+    lead_on_p_3: column(s => s.lead_on_p[2]),
+    lead_on_n_1: column(s => s.lead_on_n[0]),
+    lead_on_n_2: column(s => s.lead_on_n[1]),
+    lead_on_n_3: column(s => s.lead_on_n[2]),
+    quality_1: column(s => s.quality[0]),
+    quality_2: column(s => s.quality[1]),
+    quality_3: column(s => s.quality[2])
+  };
+}
+
+/**
+ * A recording with one of everything, for demo mode and the seed script:
+ * an hour of sinus rhythm, then PVCs, a pause, bradycardia and tachycardia
+ * runs, an AF episode, a lead-off interval and a noisy stretch, repeated
+ * every six hours.
+ */
+export function demoScenario(start: number, durationMs: number): Pick<SyntheticECGOptions, 'arrhythmias' | 'leadOff' | 'dropouts'> {
+  const arrhythmias: SyntheticEpisode[] = [];
+  const leadOff: SyntheticInterval[] = [];
+  const dropouts: SyntheticInterval[] = [];
+  const minute = 60 * 1000;
+
+  for (let block = start; block < start + durationMs; block += 6 * 60 * minute) {
+    const at = (minutes: number) => block + minutes * minute;
+    arrhythmias.push(
+      { type: 'pvc', start: at(60) },
+      { type: 'pvc', start: at(60.5) },
+      { type: 'pause', start: at(75), pauseMs: 3200 },
+      { type: 'bradycardia', start: at(90), end: at(92) },
+      { type: 'tachycardia', start: at(120), end: at(121) },
+      { type: 'atrial_fibrillation', start: at(150), end: at(160) }
+    );
+    leadOff.push({ start: at(200), end: at(203), channels: [1] });
+    dropouts.push({ start: at(240), end: at(245) });
+  }
+  return { arrhythmias, leadOff, dropouts };
+}
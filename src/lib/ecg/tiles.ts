@@ -0,0 +1,112 @@
+/**
+ * FILE: src/lib/ecg/tiles.ts
+ *
+ * Level-of-detail tiling for long-window ECG navigation.
+ *
+ * Time is cut into fixed-duration tiles aligned to the epoch, at several
+ * resolutions. A tile is identified by (pod_id, level, index) and never
+ * changes once its time range is fully recorded, so it can be cached
+ * indefinitely. Each level holds a similar number of points per tile; the
+ * viewport picks the coarsest level that still gives enough points per
+ * pixel and requests only the tiles it overlaps.
+ *
+ * The finest levels decimate on the server (factor 1-20). Coarser levels
+ * use peak_preserving with a fixed budget so zooming out to a full day is
+ * not limited by the decimation factor.
+ */
+import type { ECGSample } from '@/hooks/api/ecg/useECG';
+import type { DownsampleMethod } from './downsampling';
+import { POINTS_PER_PIXEL, RAW_SAMPLE_RATE } from './downsampling';
+
+export interface TileLevel {
+  id: string;
+  /** Duration covered by one tile */
+  tileMs: number;
+  method: DownsampleMethod;
+  /** Decimation factor for the decimate method */
+  factor: number;
+  /** Point budget per tile */
+  pointsPerTile: number;
+}
+
+export interface TileRef {
+  level: TileLevel;
+  index: number;
+  /** Epoch milliseconds, inclusive */
+  start: number;
+  /** Epoch milliseconds, exclusive */
+  end: number;
+}
+
+// Above PostgREST's max_rows (1000); downsample-ecg reads peak_preserving
+// through a json-returning RPC, so the whole budget comes back
+const TILE_POINTS = 4800;
+
+/** Finest first */
+export const TILE_LEVELS: TileLevel[] = [
+  { id: 'raw-10s', tileMs: 10 * 1000, method: 'decimate', factor: 1, pointsPerTile: 10 * RAW_SAMPLE_RATE },
+  { id: 'f4-1m', tileMs: 60 * 1000, method: 'decimate', factor: 4, pointsPerTile: (60 * RAW_SAMPLE_RATE) / 4 },
+  { id: 'f20-5m', tileMs: 5 * 60 * 1000, method: 'decimate', factor: 20, pointsPerTile: (300 * RAW_SAMPLE_RATE) / 20 },
+  { id: 'pp-30m', tileMs: 30 * 60 * 1000, method: 'peak_preserving', factor: 1, pointsPerTile: TILE_POINTS },
+  { id: 'pp-4h', tileMs: 4 * 60 * 60 * 1000, method: 'peak_preserving', factor: 1, pointsPerTile: TILE_POINTS }
+];
+
+/**
+ * Coarsest level that still delivers POINTS_PER_PIXEL points per pixel
+ * over the viewport; the finest level when none does.
+ */
+export function selectTileLevel(viewMs: number, pixelWidth: number, levels: TileLevel[] = TILE_LEVELS): TileLevel {
+  const needed = (Math.max(1, pixelWidth) * POINTS_PER_PIXEL) / Math.max(1, viewMs);
+  for (let i = levels.length - 1; i >= 0; i--) {
+    if (levels[i].pointsPerTile / levels[i].tileMs >= needed) return levels[i];
+  }
+  return levels[0];
+}
+
+export function tileAt(level: TileLevel, index: number): TileRef {
+  return {
+    level,
+    index,
+    start: index * level.tileMs,
+    end: (index + 1) * level.tileMs
+  };
+}
+
+/**
+ * Tiles overlapping [start, end), plus `margin` tiles either side for
+ * prefetching.
+ */
+export function tilesForRange(level: TileLevel, start: number, end: number, margin = 0): TileRef[] {
+  const first = Math.floor(start / level.tileMs) - margin;
+  const last = Math.ceil(end / level.tileMs) - 1 + margin;
+  const tiles: TileRef[] = [];
+  for (let index = first; index <= last; index++) tiles.push(tileAt(level, index));
+  return tiles;
+}
+
+/**
+ * A tile is complete when its whole range is older than `settleMs`; only
+ * complete tiles are cached without expiry, since recent data may still be
+ * uploading.
+ */
+export function isTileComplete(tile: TileRef, now = Date.now(), settleMs = 10 * 60 * 1000): boolean {
+  return tile.end <= now - settleMs;
+}
+
+/**
+ * Concatenate tile sample arrays in time order and clip to [start, end).
+ * Samples repeated on a shared tile boundary are dropped.
+ */
+export function mergeTileSamples(tiles: ECGSample[][], start: number, end: number): ECGSample[] {
+  const merged: ECGSample[] = [];
+  let last = -Infinity;
+  for (const samples of tiles) {
+    for (const sample of samples) {
+      const t = Date.parse(sample.time);
+      if (t < start || t >= end || t <= last) continue;
+      merged.push(sample);
+      last = t;
+    }
+  }
+  return merged;
+}
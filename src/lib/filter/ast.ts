@@ -0,0 +1,88 @@
+/**
+ * FILE: src/lib/filter/ast.ts
+ *
+ * The typed syntax tree of a filter expression. Predicates (FilterNode)
+ * and values (ValueNode) are kept apart, so `a AND 3` or `x > (y OR z)`
+ * cannot be built. Every node carries the span of source it came from.
+ */
+
+/** Character offsets into the source, end exclusive */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export type ValueType = 'string' | 'number' | 'boolean' | 'date';
+
+export const COMPARE_OPERATORS = ['=', '!=', '<', '<=', '>', '>=', 'contains', 'startsWith', 'endsWith'] as const;
+export type CompareOperator = typeof COMPARE_OPERATORS[number];
+
+/** String functions; contains / startsWith / endsWith are predicates, the rest values */
+export const FILTER_FUNCTIONS = {
+  lower: { args: ['string'], returns: 'string' },
+  upper: { args: ['string'], returns: 'string' },
+  trim: { args: ['string'], returns: 'string' },
+  length: { args: ['string'], returns: 'number' },
+  contains: { args: ['string', 'string'], returns: 'boolean' },
+  startsWith: { args: ['string', 'string'], returns: 'boolean' },
+  endsWith: { args: ['string', 'string'], returns: 'boolean' }
+} as const satisfies Record<string, { args: readonly ValueType[]; returns: ValueType }>;
+export type FilterFunctionName = keyof typeof FILTER_FUNCTIONS;
+
+export type RelativeUnit = 's' | 'm' | 'h' | 'd' | 'w';
+
+export type ValueNode =
+  | { kind: 'field'; name: string; span: Span }
+  | { kind: 'literal'; value: string | number | boolean | null; span: Span }
+  /** An absolute date or time, e.g. 2026-05-01 or 2026-05-01T08:30 */
+  | { kind: 'date'; iso: string; span: Span }
+  /** now or today, shifted by offsets like -7d +12h; resolved when evaluated */
+  | { kind: 'relativeDate'; anchor: 'now' | 'today'; offsetMs: number; span: Span }
+  | { kind: 'call'; name: FilterFunctionName; args: ValueNode[]; span: Span };
+
+export type FilterNode =
+  | { kind: 'and' | 'or'; operands: FilterNode[]; span: Span }
+  | { kind: 'not'; operand: FilterNode; span: Span }
+  | { kind: 'compare'; operator: CompareOperator; left: ValueNode; right: ValueNode; span: Span }
+  | { kind: 'in'; value: ValueNode; list: ValueNode[]; negated: boolean; span: Span }
+  | { kind: 'between'; value: ValueNode; low: ValueNode; high: ValueNode; negated: boolean; span: Span }
+  | { kind: 'isNull'; value: ValueNode; negated: boolean; span: Span }
+  /** A value standing alone as a predicate: a boolean field or contains(...) */
+  | { kind: 'test'; value: ValueNode; span: Span };
+
+/** The fields an expression refers to, in order of first use */
+export function referencedFields(node: FilterNode): string[] {
+  const names: string[] = [];
+  const visitValue = (value: ValueNode) => {
+    if (value.kind === 'field' && !names.includes(value.name)) names.push(value.name);
+    if (value.kind === 'call') value.args.forEach(visitValue);
+  };
+  const visit = (predicate: FilterNode) => {
+    switch (predicate.kind) {
+      case 'and':
+      case 'or':
+        predicate.operands.forEach(visit);
+        break;
+      case 'not':
+        visit(predicate.operand);
+        break;
+      case 'compare':
+        visitValue(predicate.left);
+        visitValue(predicate.right);
+        break;
+      case 'in':
+        visitValue(predicate.value);
+        predicate.list.forEach(visitValue);
+        break;
+      case 'between':
+        [predicate.value, predicate.low, predicate.high].forEach(visitValue);
+        break;
+      case 'isNull':
+      case 'test':
+        visitValue(predicate.value);
+        break;
+    }
+  };
+  visit(node);
+  return names;
+}
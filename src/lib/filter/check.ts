@@ -0,0 +1,135 @@
+/**
+ * FILE: src/lib/filter/check.ts
+ *
+ * Type checking of a parsed filter against the fields a table offers:
+ * every field must exist, compared values must have compatible types and
+ * a value standing alone must be boolean. A date field accepts dates,
+ * relative dates and strings that parse as dates. A uuid field accepts
+ * strings that are UUIDs and is only tested with =, IN and IS NULL, since
+ * the database has no text operators for the type.
+ */
+import type { FilterField } from '@/types/filter';
+import type { CompareOperator, FilterNode, ValueNode, ValueType } from './ast';
+import { FILTER_FUNCTIONS } from './ast';
+import { FilterError } from './errors';
+
+type CheckedType = ValueType | 'uuid' | 'null';
+
+const ORDERED_TYPES: ValueType[] = ['number', 'date', 'string'];
+const STRING_OPERATORS: CompareOperator[] = ['contains', 'startsWith', 'endsWith'];
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function typeError(message: string, node: { span: FilterNode['span'] }): FilterError {
+  return new FilterError(message, node.span, 'type');
+}
+
+function suggestion(name: string, fields: FilterField[]): string {
+  const lower = name.toLowerCase();
+  const close = fields.find(field => field.key.toLowerCase() === lower)
+    ?? fields.find(field => field.key.toLowerCase().startsWith(lower.slice(0, 3)));
+  return close ? `; did you mean ${close.key}?` : '';
+}
+
+function valueType(node: ValueNode, fields: FilterField[]): CheckedType {
+  switch (node.kind) {
+    case 'field': {
+      const field = fields.find(f => f.key === node.name);
+      if (!field) throw typeError(`Unknown field ${node.name}${suggestion(node.name, fields)}`, node);
+      return field.type;
+    }
+    case 'literal':
+      if (node.value === null) return 'null';
+      return typeof node.value as ValueType;
+    case 'date':
+    case 'relativeDate':
+      return 'date';
+    case 'call': {
+      const spec = FILTER_FUNCTIONS[node.name];
+      node.args.forEach((arg, index) => {
+        const type = valueType(arg, fields);
+        if (type !== spec.args[index]) {
+          throw typeError(`${node.name} expects a ${spec.args[index]}, not a ${type}`, arg);
+        }
+      });
+      return spec.returns;
+    }
+  }
+}
+
+/** Whether `value` can stand where a `target` is expected, e.g. '2026-05-01' for a date */
+function compatible(target: CheckedType, value: CheckedType, node: ValueNode): boolean {
+  if (target === value) return true;
+  if (target === 'date' && value === 'string' && node.kind === 'literal') {
+    return !isNaN(new Date(node.value as string).getTime());
+  }
+  if (target === 'uuid' && value === 'string' && node.kind === 'literal') {
+    return UUID_PATTERN.test(node.value as string);
+  }
+  return false;
+}
+
+function checkPair(left: ValueNode, right: ValueNode, fields: FilterField[]): CheckedType {
+  const leftType = valueType(left, fields);
+  const rightType = valueType(right, fields);
+  if (leftType === 'null' || rightType === 'null') {
+    throw typeError('Use IS NULL or IS NOT NULL to test for missing values', leftType === 'null' ? left : right);
+  }
+  if (compatible(leftType, rightType, right)) return leftType;
+  if (compatible(rightType, leftType, left)) return rightType;
+  const literal = leftType === 'uuid' ? right : rightType === 'uuid' ? left : null;
+  if (literal?.kind === 'literal' && typeof literal.value === 'string') {
+    throw typeError(`'${literal.value}' is not a valid ID`, literal);
+  }
+  throw typeError(`Cannot compare a ${leftType} with a ${rightType}`, right);
+}
+
+/** Throws a FilterError (kind 'type') when the filter does not fit the fields */
+export function checkFilter(node: FilterNode, fields: FilterField[]): void {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      node.operands.forEach(operand => checkFilter(operand, fields));
+      return;
+    case 'not':
+      checkFilter(node.operand, fields);
+      return;
+    case 'compare': {
+      const isUuid = [node.left, node.right].some(side => valueType(side, fields) === 'uuid');
+      if (isUuid && node.operator !== '=') {
+        throw typeError(`An ID can only be compared with = or IN, not ${node.operator}`, node);
+      }
+      const type = checkPair(node.left, node.right, fields);
+      if (STRING_OPERATORS.includes(node.operator) && type !== 'string') {
+        throw typeError(`${node.operator} needs text, not a ${type}`, node.left);
+      }
+      if (['<', '<=', '>', '>='].includes(node.operator) && !ORDERED_TYPES.includes(type as ValueType)) {
+        throw typeError(`${node.operator} cannot be used with a ${type}`, node);
+      }
+      return;
+    }
+    case 'in':
+      node.list.forEach(item => checkPair(node.value, item, fields));
+      return;
+    case 'between': {
+      const type = checkPair(node.value, node.low, fields);
+      checkPair(node.value, node.high, fields);
+      if (!ORDERED_TYPES.includes(type as ValueType)) throw typeError(`BETWEEN cannot be used with a ${type}`, node);
+      return;
+    }
+    case 'isNull':
+      valueType(node.value, fields);
+      return;
+    case 'test': {
+      const type = valueType(node.value, fields);
+      if (type !== 'boolean') {
+        throw typeError(
+          node.value.kind === 'field'
+            ? `${node.value.name} is a ${type}; compare it with a value, e.g. ${node.value.name} = ...`
+            : `Expected a condition, not a ${type}`,
+          node
+        );
+      }
+      return;
+    }
+  }
+}
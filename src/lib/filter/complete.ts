@@ -0,0 +1,321 @@
+/**
+ * FILE: src/lib/filter/complete.ts
+ *
+ * Context-aware completion for the expression editor. From the tokens
+ * before the cursor it works out what may come next:
+ *
+ *   |                      fields, NOT, (, functions, saved filters
+ *   qualityFraction |      operators valid for a number
+ *   status = |             the field's known values
+ *   created_at > |         now, today and relative dates
+ *   status = 'a' |         AND, OR
+ *
+ * and filters the candidates by the word being typed.
+ */
+import type { FilterField } from '@/types/filter';
+import { FILTER_FUNCTIONS } from './ast';
+import type { FilterKeyword, Token } from './tokenizer';
+import { tokenizePartial } from './tokenizer';
+
+export type CompletionKind = 'field' | 'operator' | 'keyword' | 'value' | 'function' | 'savedFilter';
+
+export interface Completion {
+  label: string;
+  /** Text that replaces from..to */
+  insert: string;
+  kind: CompletionKind;
+  /** Short annotation, e.g. the field's type */
+  detail?: string;
+  description?: string;
+}
+
+export interface CompletionResult {
+  /** The range of source the chosen completion replaces */
+  from: number;
+  to: number;
+  items: Completion[];
+}
+
+export interface CompleteOptions {
+  fields: FilterField[];
+  /** Saved filters, offered where a predicate can start */
+  savedFilters?: { name: string; expression: string; description?: string }[];
+}
+
+const OPERATORS_BY_TYPE: Record<FilterField['type'], string[]> = {
+  number: ['=', '!=', '<', '<=', '>', '>=', 'BETWEEN', 'NOT BETWEEN', 'IN [', 'NOT IN [', 'IS NULL', 'IS NOT NULL'],
+  date: ['<', '<=', '>', '>=', '=', '!=', 'BETWEEN', 'NOT BETWEEN', 'IS NULL', 'IS NOT NULL'],
+  string: ['=', '!=', 'contains', 'startsWith', 'endsWith', 'NOT contains', 'IN [', 'NOT IN [', 'IS NULL', 'IS NOT NULL'],
+  boolean: ['= true', '= false', 'IS NULL', 'IS NOT NULL', 'AND', 'OR'],
+  uuid: ['=', 'IN [', 'NOT IN [', 'IS NULL', 'IS NOT NULL']
+};
+
+const DATE_VALUES: [string, string][] = [
+  ['now', 'The current time'],
+  ['today', 'Midnight today'],
+  ['now-1h', 'An hour ago'],
+  ['now-1d', 'A day ago'],
+  ['now-7d', 'A week ago'],
+  ['today-30d', 'Midnight 30 days ago']
+];
+
+const CONNECTIVES: Completion[] = [
+  { label: 'AND', insert: 'AND ', kind: 'keyword', description: 'Both must hold' },
+  { label: 'OR', insert: 'OR ', kind: 'keyword', description: 'Either may hold' }
+];
+
+type Context =
+  | { kind: 'predicate' }
+  | { kind: 'operator'; field: FilterField }
+  | { kind: 'value'; field: FilterField | null; inList: boolean }
+  | { kind: 'is'; negated: boolean }
+  | { kind: 'negatedOperator'; field: FilterField }
+  | { kind: 'connective' }
+  | { kind: 'none' };
+
+function isKeyword(token: Token | undefined, ...keywords: FilterKeyword[]): boolean {
+  return token?.kind === 'keyword' && keywords.includes(token.keyword);
+}
+
+function isPunctuation(token: Token | undefined, ...texts: string[]): boolean {
+  return token?.kind === 'punctuation' && texts.includes(token.text);
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/[\\']/g, match => `\\${match}`)}'`;
+}
+
+class ContextReader {
+  constructor(private readonly tokens: Token[], private readonly fields: FilterField[]) {}
+
+  /** The known field whose identifier is at index, skipping back over a NOT */
+  private fieldAt(index: number): FilterField | null {
+    const token = isKeyword(this.tokens[index], 'not') ? this.tokens[index - 1] : this.tokens[index];
+    if (token?.kind !== 'identifier') return null;
+    return this.fields.find(field => field.key === token.text) ?? null;
+  }
+
+  /** Index of the unclosed ( or [ before index, or -1 */
+  private openerBefore(index: number): number {
+    let depth = 0;
+    for (let i = index; i >= 0; i--) {
+      const token = this.tokens[i];
+      if (isPunctuation(token, ')', ']')) depth++;
+      if (isPunctuation(token, '(', '[')) {
+        if (depth === 0) return i;
+        depth--;
+      }
+    }
+    return -1;
+  }
+
+  /** What may follow an open bracket or comma at index */
+  private listContext(opener: number): Context {
+    const before = this.tokens[opener - 1];
+    if (isKeyword(before, 'in')) return { kind: 'value', field: this.fieldAt(opener - 2), inList: true };
+    // The second argument of contains(field, ...) and friends
+    const isCall = before?.kind === 'identifier' || isKeyword(before, 'contains', 'startswith', 'endswith');
+    if (isCall && this.tokens[opener + 1]?.kind === 'identifier') {
+      return { kind: 'value', field: this.fieldAt(opener + 1), inList: true };
+    }
+    return { kind: 'none' };
+  }
+
+  read(): Context {
+    const last = this.tokens.length - 1;
+    const prev = this.tokens[last];
+    if (!prev || isPunctuation(prev, '&&', '||', '!') || isKeyword(prev, 'or')) return { kind: 'predicate' };
+
+    switch (prev.kind) {
+      case 'identifier': {
+        const field = this.fieldAt(last);
+        return field ? { kind: 'operator', field } : { kind: 'none' };
+      }
+      case 'operator':
+        return { kind: 'value', field: this.fieldAt(last - 1), inList: false };
+      case 'number':
+      case 'string':
+      case 'date':
+      case 'relativeDate':
+        return { kind: 'connective' };
+      case 'punctuation':
+        if (prev.text === ')' || prev.text === ']') return { kind: 'connective' };
+        if (prev.text === '(' || prev.text === '[') {
+          const list = this.listContext(last);
+          return list.kind === 'none' && prev.text === '(' ? { kind: 'predicate' } : list;
+        }
+        if (prev.text === ',') {
+          const opener = this.openerBefore(last - 1);
+          return opener === -1 ? { kind: 'none' } : this.listContext(opener);
+        }
+        return { kind: 'none' };
+      case 'keyword':
+        switch (prev.keyword) {
+          case 'and':
+            // The upper bound of BETWEEN ... AND, or a logical AND
+            if (isKeyword(this.tokens[last - 2], 'between')) {
+              return { kind: 'value', field: this.fieldAt(last - 3), inList: false };
+            }
+            return { kind: 'predicate' };
+          case 'not': {
+            if (isKeyword(this.tokens[last - 1], 'is')) return { kind: 'is', negated: true };
+            const field = this.fieldAt(last - 1);
+            return field ? { kind: 'negatedOperator', field } : { kind: 'predicate' };
+          }
+          case 'is':
+            return { kind: 'is', negated: false };
+          case 'between':
+          case 'contains':
+          case 'startswith':
+          case 'endswith':
+            return { kind: 'value', field: this.fieldAt(last - 1), inList: false };
+          case 'in':
+            return { kind: 'none' };
+          case 'true':
+          case 'false':
+          case 'null':
+            return { kind: 'connective' };
+        }
+    }
+    return { kind: 'none' };
+  }
+}
+
+function predicateItems(options: CompleteOptions): Completion[] {
+  return [
+    ...options.fields.map((field): Completion => ({
+      label: field.key,
+      insert: `${field.key} `,
+      kind: 'field',
+      detail: field.type,
+      description: field.description
+    })),
+    { label: 'NOT', insert: 'NOT ', kind: 'keyword', description: 'Negate what follows' },
+    { label: '(', insert: '(', kind: 'keyword', description: 'Group conditions' },
+    ...(Object.keys(FILTER_FUNCTIONS) as (keyof typeof FILTER_FUNCTIONS)[]).map((name): Completion => ({
+      label: `${name}(`,
+      insert: `${name}(`,
+      kind: 'function',
+      detail: FILTER_FUNCTIONS[name].returns,
+      description: `${name}(${FILTER_FUNCTIONS[name].args.join(', ')})`
+    })),
+    ...(options.savedFilters ?? []).map((saved): Completion => ({
+      label: saved.name,
+      insert: `(${saved.expression}) `,
+      kind: 'savedFilter',
+      detail: 'saved',
+      description: saved.description ?? saved.expression
+    }))
+  ];
+}
+
+function valueItems(field: FilterField | null, inList: boolean): Completion[] {
+  if (!field) return [];
+  const after = inList ? '' : ' ';
+  switch (field.type) {
+    case 'string':
+      return (field.values ?? []).map(value => ({
+        label: value,
+        insert: `${quote(value)}${after}`,
+        kind: 'value',
+        detail: field.key
+      }));
+    case 'boolean':
+      return ['true', 'false'].map(value => ({ label: value, insert: `${value}${after}`, kind: 'value', detail: field.key }));
+    case 'date':
+      return DATE_VALUES.map(([value, description]) => ({
+        label: value,
+        insert: `${value}${after}`,
+        kind: 'value',
+        detail: 'date',
+        description
+      }));
+    case 'number':
+    case 'uuid':
+      return [];
+  }
+}
+
+function itemsFor(context: Context, options: CompleteOptions): Completion[] {
+  switch (context.kind) {
+    case 'predicate':
+      return predicateItems(options);
+    case 'operator':
+      return OPERATORS_BY_TYPE[context.field.type].map(operator => ({
+        label: operator,
+        insert: operator.endsWith('[') ? operator : `${operator} `,
+        kind: operator === 'AND' || operator === 'OR' ? 'keyword' : 'operator',
+        detail: context.field.type
+      }));
+    case 'negatedOperator':
+      return OPERATORS_BY_TYPE[context.field.type]
+        .filter(operator => operator.startsWith('NOT '))
+        .map(operator => operator.slice(4))
+        .map(operator => ({
+          label: operator,
+          insert: operator.endsWith('[') ? operator : `${operator} `,
+          kind: 'operator',
+          detail: context.field.type
+        }));
+    case 'value':
+      return valueItems(context.field, context.inList);
+    case 'is':
+      return (context.negated ? ['NULL'] : ['NULL', 'NOT NULL']).map(label => ({ label, insert: `${label} `, kind: 'keyword' }));
+    case 'connective':
+      return CONNECTIVES;
+    case 'none':
+      return [];
+  }
+}
+
+/** Prefix matches first, then matches anywhere; case-insensitive */
+function rank(items: Completion[], typed: string): Completion[] {
+  if (!typed) return items;
+  const lower = typed.toLowerCase();
+  const starts = items.filter(item => item.label.toLowerCase().startsWith(lower));
+  const contains = items.filter(item => !starts.includes(item) && item.label.toLowerCase().includes(lower));
+  return [...starts, ...contains];
+}
+
+/** Candidates for the cursor position in source */
+export function completeFilter(source: string, cursor: number, options: CompleteOptions): CompletionResult {
+  let to = cursor;
+  while (to < source.length && /[A-Za-z0-9_]/.test(source[to])) to++;
+
+  const { tokens, error } = tokenizePartial(source.slice(0, cursor));
+
+  // Inside a string that isn't closed yet: complete the field's values
+  if (error) {
+    const start = error.span.start;
+    if (error.span.end !== cursor || (source[start] !== '"' && source[start] !== "'")) {
+      return { from: cursor, to, items: [] };
+    }
+    const context = new ContextReader(tokens, options.fields).read();
+    if (context.kind !== 'value') return { from: cursor, to, items: [] };
+    const typed = source.slice(start + 1, cursor);
+    return { from: start, to, items: rank(valueItems(context.field, context.inList), typed) };
+  }
+
+  const significant = tokens.filter(token => token.kind !== 'eof');
+  const last = significant[significant.length - 1];
+  const typingWord = (last?.kind === 'identifier' || last?.kind === 'keyword') && last.span.end === cursor;
+  const from = typingWord ? last.span.start : cursor;
+  const typed = typingWord ? last.text : '';
+  const context = new ContextReader(typingWord ? significant.slice(0, -1) : significant, options.fields).read();
+
+  // Keep the new word apart from a value typed right before the cursor, as in `5|`
+  const previous = typingWord ? significant[significant.length - 2] : last;
+  const glued = previous !== undefined && previous.span.end === from && !isPunctuation(previous, '(', '[', ',', '!');
+  const items = rank(itemsFor(context, options), typed).map(item =>
+    glued && /^[A-Za-z'(]/.test(item.insert) ? { ...item, insert: ` ${item.insert}` } : item
+  );
+  return { from, to, items };
+}
+
+/** The source with a completion applied, and where the cursor goes */
+export function applyCompletion(source: string, result: CompletionResult, item: Completion): { source: string; cursor: number } {
+  return {
+    source: source.slice(0, result.from) + item.insert + source.slice(result.to),
+    cursor: result.from + item.insert.length
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * FILE: src/lib/filter/errors.ts
+ *
+ * Errors from tokenizing, parsing and checking a filter expression, and
+ * from compiling it for the server. Each carries the character span it
+ * refers to, so an editor can underline it.
+ */
+import type { Span } from './ast';
+
+export type FilterErrorKind = 'syntax' | 'type' | 'server';
+
+export class FilterError extends Error {
+  constructor(
+    message: string,
+    public readonly span: Span,
+    public readonly kind: FilterErrorKind = 'syntax'
+  ) {
+    super(message);
+    this.name = 'FilterError';
+  }
+
+  /** 1-based column of the start of the span, for messages */
+  get column(): number {
+    return this.span.start + 1;
+  }
+}
+
+/** "message (column N)", the form shown under a filter input */
+export function describeFilterError(error: FilterError): string {
+  return `${error.message} (column ${error.column})`;
+}
@@ -0,0 +1,176 @@
+/**
+ * FILE: src/lib/filter/evaluate.ts
+ *
+ * Evaluation of a parsed filter against a row. Missing values follow SQL:
+ * a comparison with null or undefined is unknown, unknown propagates
+ * through AND / OR / NOT the three-valued way, and only rows where the
+ * whole filter is true match. The client-side result is then the same as
+ * the server's for the same filter.
+ *
+ * = and IN compare text exactly; contains / startsWith / endsWith ignore
+ * case, as ILIKE does. A comparison involving a date field, a date or a
+ * relative date compares instants.
+ */
+import type { FilterField } from '@/types/filter';
+import type { CompareOperator, FilterNode, ValueNode } from './ast';
+
+export interface EvaluateOptions {
+  /** Field types; date fields are compared as instants */
+  fields?: FilterField[];
+  /** The instant now / today are relative to; defaults to the current time */
+  now?: Date;
+}
+
+type Truth = boolean | null;
+type Value = string | number | boolean | null;
+
+interface Context {
+  row: Record<string, unknown>;
+  dateFields: Set<string>;
+  now: Date;
+}
+
+function startOfDay(date: Date): number {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+function isDateValued(node: ValueNode, context: Context): boolean {
+  return node.kind === 'date'
+    || node.kind === 'relativeDate'
+    || (node.kind === 'field' && context.dateFields.has(node.name));
+}
+
+function value(node: ValueNode, context: Context): Value {
+  switch (node.kind) {
+    case 'field': {
+      const raw = context.row[node.name];
+      if (raw === undefined || raw === null) return null;
+      if (raw instanceof Date) return raw.getTime();
+      return raw as Value;
+    }
+    case 'literal':
+      return node.value;
+    case 'date':
+      return new Date(node.iso).getTime();
+    case 'relativeDate':
+      return (node.anchor === 'today' ? startOfDay(context.now) : context.now.getTime()) + node.offsetMs;
+    case 'call': {
+      const args = node.args.map(arg => value(arg, context));
+      if (args.some(arg => arg === null)) return null;
+      const [text, other] = args.map(String);
+      switch (node.name) {
+        case 'lower': return text.toLowerCase();
+        case 'upper': return text.toUpperCase();
+        case 'trim': return text.trim();
+        case 'length': return text.length;
+        case 'contains': return text.toLowerCase().includes(other.toLowerCase());
+        case 'startsWith': return text.toLowerCase().startsWith(other.toLowerCase());
+        case 'endsWith': return text.toLowerCase().endsWith(other.toLowerCase());
+      }
+    }
+  }
+}
+
+function asTime(raw: Value): number | null {
+  if (raw === null || typeof raw === 'boolean') return null;
+  const time = typeof raw === 'number' ? raw : new Date(raw).getTime();
+  return isNaN(time) ? null : time;
+}
+
+function compare(operator: CompareOperator, left: Value, right: Value): Truth {
+  if (left === null || right === null) return null;
+  switch (operator) {
+    case '=': return left === right || String(left) === String(right);
+    case '!=': return !(left === right || String(left) === String(right));
+    case 'contains': return String(left).toLowerCase().includes(String(right).toLowerCase());
+    case 'startsWith': return String(left).toLowerCase().startsWith(String(right).toLowerCase());
+    case 'endsWith': return String(left).toLowerCase().endsWith(String(right).toLowerCase());
+  }
+  const ordered = typeof left === 'number' && typeof right === 'number'
+    ? left - right
+    : String(left).localeCompare(String(right));
+  switch (operator) {
+    case '<': return ordered < 0;
+    case '<=': return ordered <= 0;
+    case '>': return ordered > 0;
+    case '>=': return ordered >= 0;
+  }
+}
+
+/** Both sides of a comparison, as instants when either is date-valued */
+function operands(left: ValueNode, right: ValueNode, context: Context): [Value, Value] {
+  const a = value(left, context);
+  const b = value(right, context);
+  if (isDateValued(left, context) || isDateValued(right, context)) return [asTime(a), asTime(b)];
+  return [a, b];
+}
+
+function not(truth: Truth): Truth {
+  return truth === null ? null : !truth;
+}
+
+function truth(node: FilterNode, context: Context): Truth {
+  switch (node.kind) {
+    case 'and': {
+      let result: Truth = true;
+      for (const operand of node.operands) {
+        const t = truth(operand, context);
+        if (t === false) return false;
+        if (t === null) result = null;
+      }
+      return result;
+    }
+    case 'or': {
+      let result: Truth = false;
+      for (const operand of node.operands) {
+        const t = truth(operand, context);
+        if (t === true) return true;
+        if (t === null) result = null;
+      }
+      return result;
+    }
+    case 'not':
+      return not(truth(node.operand, context));
+    case 'compare':
+      return compare(node.operator, ...operands(node.left, node.right, context));
+    case 'in': {
+      let result: Truth = false;
+      for (const item of node.list) {
+        const t = compare('=', ...operands(node.value, item, context));
+        if (t === true) {
+          result = true;
+          break;
+        }
+        if (t === null) result = null;
+      }
+      return node.negated ? not(result) : result;
+    }
+    case 'between': {
+      const [v, low] = operands(node.value, node.low, context);
+      const [, high] = operands(node.value, node.high, context);
+      const above = compare('>=', v, low);
+      const below = compare('<=', v, high);
+      const result: Truth = above === false || below === false ? false : above === null || below === null ? null : true;
+      return node.negated ? not(result) : result;
+    }
+    case 'isNull': {
+      const missing = value(node.value, context) === null;
+      return node.negated ? !missing : missing;
+    }
+    case 'test': {
+      const v = value(node.value, context);
+      return v === null ? null : Boolean(v);
+    }
+  }
+}
+
+/** Whether the row matches; unknown counts as no match */
+export function evaluateFilter(node: FilterNode, row: object, options: EvaluateOptions = {}): boolean {
+  return truth(node, {
+    row: row as Record<string, unknown>,
+    dateFields: new Set((options.fields ?? []).filter(field => field.type === 'date').map(field => field.key)),
+    now: options.now ?? new Date()
+  }) === true;
+}
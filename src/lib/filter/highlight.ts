@@ -0,0 +1,113 @@
+/**
+ * FILE: src/lib/filter/highlight.ts
+ *
+ * Splits an expression into classified segments for syntax highlighting.
+ * It works on half-typed input: after a lexical error the rest is one
+ * 'invalid' segment. The segments covered by an error's span are flagged
+ * so the editor can underline exactly that part.
+ */
+import type { FilterField } from '@/types/filter';
+import { FILTER_FUNCTIONS } from './ast';
+import type { FilterError } from './errors';
+import type { Token } from './tokenizer';
+import { tokenizePartial } from './tokenizer';
+
+export type HighlightKind =
+  | 'field'
+  | 'unknownField'
+  | 'function'
+  | 'keyword'
+  | 'operator'
+  | 'punctuation'
+  | 'string'
+  | 'number'
+  | 'date'
+  | 'text'
+  | 'invalid';
+
+export interface HighlightSegment {
+  text: string;
+  start: number;
+  end: number;
+  kind: HighlightKind;
+  /** Inside the error span; an empty span yields an empty segment to mark the spot */
+  error: boolean;
+}
+
+const FUNCTION_NAMES = new Set(Object.keys(FILTER_FUNCTIONS).map(name => name.toLowerCase()));
+
+function classify(token: Token, next: Token | undefined, fieldKeys: Set<string>): HighlightKind {
+  switch (token.kind) {
+    case 'identifier':
+      if (next?.kind === 'punctuation' && next.text === '(' && FUNCTION_NAMES.has(token.text.toLowerCase())) return 'function';
+      return fieldKeys.has(token.text) ? 'field' : 'unknownField';
+    case 'keyword':
+      return ['contains', 'startswith', 'endswith'].includes(token.keyword) ? 'operator' : 'keyword';
+    case 'operator':
+      return 'operator';
+    case 'punctuation':
+      return ['&&', '||', '!'].includes(token.text) ? 'keyword' : 'punctuation';
+    case 'string':
+      return 'string';
+    case 'number':
+      return 'number';
+    case 'date':
+    case 'relativeDate':
+      return 'date';
+    case 'eof':
+      return 'text';
+  }
+}
+
+/** Cut segments at the error span's edges and flag the ones inside it */
+function markError(segments: HighlightSegment[], error: FilterError): HighlightSegment[] {
+  const { start, end } = error.span;
+  if (start === end) {
+    const at = segments.findIndex(segment => segment.start >= start);
+    const marker: HighlightSegment = { text: '', start, end, kind: 'text', error: true };
+    return at === -1 ? [...segments, marker] : [...segments.slice(0, at), marker, ...segments.slice(at)];
+  }
+  return segments.flatMap(segment => {
+    const cuts = [segment.start, Math.max(segment.start, Math.min(start, segment.end)), Math.max(segment.start, Math.min(end, segment.end)), segment.end];
+    const pieces: HighlightSegment[] = [];
+    for (let i = 0; i < 3; i++) {
+      if (cuts[i] === cuts[i + 1]) continue;
+      pieces.push({
+        ...segment,
+        text: segment.text.slice(cuts[i] - segment.start, cuts[i + 1] - segment.start),
+        start: cuts[i],
+        end: cuts[i + 1],
+        error: i === 1
+      });
+    }
+    return pieces;
+  });
+}
+
+/** Segments covering the whole source, in order */
+export function highlightFilter(source: string, fields: FilterField[], error?: FilterError | null): HighlightSegment[] {
+  const fieldKeys = new Set(fields.map(field => field.key));
+  const { tokens, error: lexicalError } = tokenizePartial(source);
+  const segments: HighlightSegment[] = [];
+  let at = 0;
+
+  const push = (start: number, end: number, kind: HighlightKind) => {
+    if (end > start) segments.push({ text: source.slice(start, end), start, end, kind, error: false });
+  };
+
+  tokens.forEach((token, index) => {
+    if (token.kind === 'eof') return;
+    push(at, token.span.start, 'text');
+    push(token.span.start, token.span.end, classify(token, tokens[index + 1], fieldKeys));
+    at = token.span.end;
+  });
+  if (lexicalError) {
+    push(at, lexicalError.span.start, 'text');
+    push(lexicalError.span.start, source.length, 'invalid');
+  } else {
+    push(at, source.length, 'text');
+  }
+
+  const shown = error ?? lexicalError;
+  return shown ? markError(segments, shown) : segments;
+}
@@ -0,0 +1,55 @@
+/**
+ * Filter expression language
+ * One grammar for every lab's advanced filter: tokenizer, parser, type
+ * checker against the table's fields, an evaluator for client-side
+ * filtering and a compiler to PostgREST filters for server-side filtering.
+ */
+import type { FilterField } from '@/types/filter';
+import type { FilterNode } from './ast';
+import { checkFilter } from './check';
+import { FilterError } from './errors';
+import { evaluateFilter } from './evaluate';
+import type { EvaluateOptions } from './evaluate';
+import { parseFilter } from './parser';
+
+export * from './ast';
+export * from './errors';
+export { tokenize, tokenizePartial, FILTER_KEYWORDS, RELATIVE_UNIT_MS } from './tokenizer';
+export type { Token, FilterKeyword } from './tokenizer';
+export { parseFilter } from './parser';
+export { checkFilter } from './check';
+export { evaluateFilter } from './evaluate';
+export type { EvaluateOptions } from './evaluate';
+export { toPostgrestFilter, postgrestColumn, quotePostgrestValue } from './postgrest';
+export type { ColumnMapping, FilterColumnMap, PostgrestFilterOptions } from './postgrest';
+export { highlightFilter } from './highlight';
+export type { HighlightKind, HighlightSegment } from './highlight';
+export { completeFilter, applyCompletion } from './complete';
+export type { Completion, CompletionKind, CompletionResult, CompleteOptions } from './complete';
+export { compileServerQuery, applyServerQuery, serverQueryParams, serverFilterError } from './serverQuery';
+export type { ServerQuery, ServerQueryInput, CompiledServerQuery, ServerQueryBuilder } from './serverQuery';
+
+export interface CompiledFilter {
+  /** null for an empty expression, which matches every row */
+  ast: FilterNode | null;
+  error: FilterError | null;
+}
+
+/** Parse and check an expression against the fields; errors are returned, not thrown */
+export function compileFilter(source: string, fields: FilterField[]): CompiledFilter {
+  try {
+    const ast = parseFilter(source);
+    if (ast) checkFilter(ast, fields);
+    return { ast, error: null };
+  } catch (err) {
+    if (err instanceof FilterError) return { ast: null, error: err };
+    throw err;
+  }
+}
+
+/** Rows matching a checked filter; all rows for an empty one */
+export function applyFilter<T extends object>(rows: T[], ast: FilterNode | null, options: EvaluateOptions = {}): T[] {
+  if (!ast) return rows;
+  const now = options.now ?? new Date();
+  return rows.filter(row => evaluateFilter(ast, row, { ...options, now }));
+}
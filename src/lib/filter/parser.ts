@@ -0,0 +1,278 @@
+/**
+ * FILE: src/lib/filter/parser.ts
+ *
+ * Recursive-descent parser for filter expressions. Precedence, loosest
+ * first: OR, AND, NOT, then a single predicate, i.e. a comparison,
+ * IN [...], BETWEEN ... AND ..., IS [NOT] NULL, a parenthesised
+ * expression, or a boolean value on its own:
+ *
+ *   qualityFraction < 0.8 AND NOT (status IN ['active', 'paused'] OR totalHours BETWEEN 24 AND 48)
+ *   created_at > now-7d AND lower(clinic_name) contains 'north'
+ *
+ * Errors are FilterErrors pointing at the offending token.
+ */
+import type { CompareOperator, FilterFunctionName, FilterNode, Span, ValueNode } from './ast';
+import { FILTER_FUNCTIONS } from './ast';
+import { FilterError } from './errors';
+import type { FilterKeyword, Token } from './tokenizer';
+import { tokenize } from './tokenizer';
+
+const INFIX_KEYWORDS: Partial<Record<FilterKeyword, CompareOperator>> = {
+  contains: 'contains',
+  startswith: 'startsWith',
+  endswith: 'endsWith'
+};
+
+const FUNCTION_NAMES = new Map(
+  (Object.keys(FILTER_FUNCTIONS) as FilterFunctionName[]).map(name => [name.toLowerCase(), name])
+);
+
+function join(first: Span, last: Span): Span {
+  return { start: first.start, end: last.end };
+}
+
+function describe(token: Token): string {
+  return token.kind === 'eof' ? 'the end of the expression' : `'${token.text}'`;
+}
+
+class Parser {
+  private at = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.at + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.at++;
+    return token;
+  }
+
+  private isKeyword(keyword: FilterKeyword, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'keyword' && token.keyword === keyword;
+  }
+
+  private isPunctuation(text: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'punctuation' && token.text === text;
+  }
+
+  private fail(expected: string, token = this.peek()): never {
+    throw new FilterError(`Expected ${expected} but found ${describe(token)}`, token.span);
+  }
+
+  private expectKeyword(keyword: FilterKeyword, context: string): Token {
+    if (!this.isKeyword(keyword)) this.fail(`${keyword.toUpperCase()} ${context}`);
+    return this.next();
+  }
+
+  parse(): FilterNode {
+    const node = this.parseOr();
+    const rest = this.peek();
+    if (rest.kind !== 'eof') {
+      const message = rest.kind === 'punctuation' && rest.text === ')'
+        ? "Unmatched ')'"
+        : `Expected AND, OR or the end of the expression but found ${describe(rest)}`;
+      throw new FilterError(message, rest.span);
+    }
+    return node;
+  }
+
+  private parseOr(): FilterNode {
+    const operands = [this.parseAnd()];
+    while (this.isKeyword('or') || this.isPunctuation('||')) {
+      this.next();
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1
+      ? operands[0]
+      : { kind: 'or', operands, span: join(operands[0].span, operands[operands.length - 1].span) };
+  }
+
+  private parseAnd(): FilterNode {
+    const operands = [this.parseNot()];
+    while (this.isKeyword('and') || this.isPunctuation('&&')) {
+      this.next();
+      operands.push(this.parseNot());
+    }
+    return operands.length === 1
+      ? operands[0]
+      : { kind: 'and', operands, span: join(operands[0].span, operands[operands.length - 1].span) };
+  }
+
+  private parseNot(): FilterNode {
+    if (this.isKeyword('not') || this.isPunctuation('!')) {
+      const keyword = this.next();
+      const operand = this.parseNot();
+      return { kind: 'not', operand, span: join(keyword.span, operand.span) };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): FilterNode {
+    if (this.isPunctuation('(')) {
+      const open = this.next();
+      const inner = this.parseOr();
+      if (!this.isPunctuation(')')) {
+        throw new FilterError(`Expected ')' to close the '(' at column ${open.span.start + 1}`, this.peek().span);
+      }
+      const close = this.next();
+      return { ...inner, span: join(open.span, close.span) };
+    }
+
+    const value = this.parseValue();
+    const token = this.peek();
+
+    if (token.kind === 'operator') {
+      this.next();
+      const right = this.parseValue(`a value after '${token.text}'`);
+      return { kind: 'compare', operator: token.operator, left: value, right, span: join(value.span, right.span) };
+    }
+
+    // NOT IN, NOT BETWEEN, NOT CONTAINS ...
+    const after = this.peek(1);
+    const negated = this.isKeyword('not') && after.kind === 'keyword'
+      && (after.keyword === 'in' || after.keyword === 'between' || INFIX_KEYWORDS[after.keyword] !== undefined);
+    if (negated) this.next();
+    const keyword = this.peek();
+
+    if (keyword.kind === 'keyword' && INFIX_KEYWORDS[keyword.keyword]) {
+      this.next();
+      const right = this.parseValue(`a value after ${keyword.text}`);
+      const compare: FilterNode = {
+        kind: 'compare',
+        operator: INFIX_KEYWORDS[keyword.keyword]!,
+        left: value,
+        right,
+        span: join(value.span, right.span)
+      };
+      return negated ? { kind: 'not', operand: compare, span: compare.span } : compare;
+    }
+
+    if (this.isKeyword('in')) {
+      this.next();
+      const { list, span } = this.parseList();
+      return { kind: 'in', value, list, negated, span: join(value.span, span) };
+    }
+
+    if (this.isKeyword('between')) {
+      this.next();
+      const low = this.parseValue('a lower bound after BETWEEN');
+      this.expectKeyword('and', 'between the bounds of BETWEEN');
+      const high = this.parseValue('an upper bound after AND');
+      return { kind: 'between', value, low, high, negated, span: join(value.span, high.span) };
+    }
+
+    if (this.isKeyword('is')) {
+      this.next();
+      const isNot = this.isKeyword('not');
+      if (isNot) this.next();
+      const end = this.expectKeyword('null', `after IS${isNot ? ' NOT' : ''}`);
+      return { kind: 'isNull', value, negated: isNot, span: join(value.span, end.span) };
+    }
+
+    return { kind: 'test', value, span: value.span };
+  }
+
+  private parseList(): { list: ValueNode[]; span: Span } {
+    const open = this.peek();
+    if (!this.isPunctuation('[') && !this.isPunctuation('(')) this.fail("a list like [1, 2] after IN");
+    this.next();
+    const close = open.kind === 'punctuation' && open.text === '(' ? ')' : ']';
+    const list: ValueNode[] = [];
+    if (this.isPunctuation(close)) {
+      throw new FilterError('IN needs at least one value', join(open.span, this.peek().span));
+    }
+    for (;;) {
+      list.push(this.parseValue('a value in the list'));
+      if (this.isPunctuation(',')) {
+        this.next();
+        continue;
+      }
+      if (!this.isPunctuation(close)) this.fail(`',' or '${close}' in the list`);
+      return { list, span: join(open.span, this.next().span) };
+    }
+  }
+
+  private parseCall(nameToken: Token): ValueNode {
+    const name = FUNCTION_NAMES.get(nameToken.text.toLowerCase());
+    if (!name) {
+      throw new FilterError(
+        `Unknown function ${nameToken.text}; available: ${Object.keys(FILTER_FUNCTIONS).join(', ')}`,
+        nameToken.span
+      );
+    }
+    this.next(); // (
+    const args: ValueNode[] = [];
+    if (!this.isPunctuation(')')) {
+      for (;;) {
+        args.push(this.parseValue(`an argument to ${name}`));
+        if (!this.isPunctuation(',')) break;
+        this.next();
+      }
+    }
+    if (!this.isPunctuation(')')) this.fail(`',' or ')' in the arguments to ${name}`);
+    const close = this.next();
+    const expected = FILTER_FUNCTIONS[name].args.length;
+    if (args.length !== expected) {
+      throw new FilterError(
+        `${name} takes ${expected} argument${expected === 1 ? '' : 's'}, not ${args.length}`,
+        join(nameToken.span, close.span)
+      );
+    }
+    return { kind: 'call', name, args, span: join(nameToken.span, close.span) };
+  }
+
+  private parseValue(expected = 'a field or value'): ValueNode {
+    const token = this.peek();
+    switch (token.kind) {
+      case 'identifier':
+        this.next();
+        if (this.isPunctuation('(')) return this.parseCall(token);
+        return { kind: 'field', name: token.text, span: token.span };
+      case 'number':
+        this.next();
+        return { kind: 'literal', value: token.value, span: token.span };
+      case 'string':
+        this.next();
+        return { kind: 'literal', value: token.value, span: token.span };
+      case 'date':
+        this.next();
+        return { kind: 'date', iso: token.iso, span: token.span };
+      case 'relativeDate':
+        this.next();
+        return { kind: 'relativeDate', anchor: token.anchor, offsetMs: token.offsetMs, span: token.span };
+      case 'keyword':
+        if (token.keyword === 'true' || token.keyword === 'false') {
+          this.next();
+          return { kind: 'literal', value: token.keyword === 'true', span: token.span };
+        }
+        if (token.keyword === 'null') {
+          this.next();
+          return { kind: 'literal', value: null, span: token.span };
+        }
+        if (INFIX_KEYWORDS[token.keyword] && this.isPunctuation('(', 1)) {
+          this.next();
+          return this.parseCall(token);
+        }
+        break;
+      case 'punctuation':
+        if (token.text === '-' && this.peek(1).kind === 'number') {
+          this.next();
+          const number = this.next() as Extract<Token, { kind: 'number' }>;
+          return { kind: 'literal', value: -number.value, span: join(token.span, number.span) };
+        }
+        break;
+    }
+    return this.fail(expected, token);
+  }
+}
+
+/** Parse a filter expression; null for an empty one. Throws FilterError. */
+export function parseFilter(source: string): FilterNode | null {
+  if (source.trim() === '') return null;
+  return new Parser(tokenize(source)).parse();
+}
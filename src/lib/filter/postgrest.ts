@@ -0,0 +1,184 @@
+/**
+ * FILE: src/lib/filter/postgrest.ts
+ *
+ * Compilation of a checked filter to a PostgREST logic tree, so filtering
+ * runs in the database instead of over the rows already fetched:
+ *
+ *   qualityFraction < 0.5 AND NOT status IN ['a', 'b']
+ *   -> and(quality_fraction.lt.0.5,status.not.in.(a,b))
+ *
+ * Only mapped fields reach the server; the column map doubles as the
+ * whitelist. A field computed in the browser can map onto a column with a
+ * scale (totalHours -> aggregated_total_minutes, scale 60). What SQL over
+ * plain columns cannot express (value functions, two fields compared, an
+ * unmapped field) is rejected with a FilterError pointing at it.
+ *
+ * NOT is pushed into the conditions, which PostgREST negates with SQL's
+ * NOT, so missing values behave as they do in evaluate.ts.
+ */
+import type { CompareOperator, FilterNode, ValueNode } from './ast';
+import { FilterError } from './errors';
+
+/** A column name, or a column holding the field's value times scale */
+export type ColumnMapping = string | { column: string; scale?: number };
+
+/** Expression field -> database column; fields left out stay client-only */
+export type FilterColumnMap = Record<string, ColumnMapping>;
+
+export interface PostgrestFilterOptions {
+  columns: FilterColumnMap;
+  /** The instant now / today resolve against; defaults to the current time */
+  now?: Date;
+}
+
+const OPERATORS: Record<CompareOperator, string> = {
+  '=': 'eq',
+  '!=': 'neq',
+  '<': 'lt',
+  '<=': 'lte',
+  '>': 'gt',
+  '>=': 'gte',
+  contains: 'ilike',
+  startsWith: 'ilike',
+  endsWith: 'ilike'
+};
+
+/** The operator that holds with the operands swapped, for `5 < x` */
+const MIRRORED: Partial<Record<CompareOperator, CompareOperator>> = {
+  '<': '>',
+  '<=': '>=',
+  '>': '<',
+  '>=': '<='
+};
+
+const PATTERN_OPERATORS: CompareOperator[] = ['contains', 'startsWith', 'endsWith'];
+
+/** Characters that make PostgREST split or misread a bare value */
+const NEEDS_QUOTES = /[,.:()"\\\s]/;
+
+type Literal = string | number | boolean;
+
+function unsupported(message: string, node: { span: FilterNode['span'] }): FilterError {
+  return new FilterError(message, node.span, 'server');
+}
+
+function mappingOf(columns: FilterColumnMap, field: string): { column: string; scale: number } | null {
+  const mapping = columns[field];
+  if (mapping === undefined) return null;
+  return typeof mapping === 'string'
+    ? { column: mapping, scale: 1 }
+    : { column: mapping.column, scale: mapping.scale ?? 1 };
+}
+
+/** A value as PostgREST reads it inside a logic tree */
+export function quotePostgrestValue(value: Literal): string {
+  const text = String(value);
+  if (typeof value !== 'string') return text;
+  return NEEDS_QUOTES.test(text) ? `"${text.replace(/["\\]/g, match => `\\${match}`)}"` : text;
+}
+
+class Compiler {
+  private readonly now: Date;
+
+  constructor(private readonly columns: FilterColumnMap, now?: Date) {
+    this.now = now ?? new Date();
+  }
+
+  private column(node: ValueNode): { column: string; scale: number } {
+    if (node.kind === 'call') {
+      throw unsupported(`${node.name}() can't be filtered on the server; contains, startsWith and endsWith already ignore case`, node);
+    }
+    if (node.kind !== 'field') throw unsupported('Expected a field here for a server-side filter', node);
+    const mapping = mappingOf(this.columns, node.name);
+    if (!mapping) throw unsupported(`${node.name} is computed in the browser and can't be filtered on the server`, node);
+    return mapping;
+  }
+
+  private literal(node: ValueNode, scale: number): Literal {
+    switch (node.kind) {
+      case 'literal':
+        if (node.value === null) throw unsupported('Use IS NULL to test for a missing value', node);
+        return typeof node.value === 'number' ? node.value * scale : node.value;
+      case 'date':
+        return new Date(node.iso).toISOString();
+      case 'relativeDate': {
+        const anchor = new Date(this.now);
+        if (node.anchor === 'today') anchor.setHours(0, 0, 0, 0);
+        return new Date(anchor.getTime() + node.offsetMs).toISOString();
+      }
+      case 'field':
+        throw unsupported('Comparing two fields is not supported on the server', node);
+      case 'call':
+        throw unsupported(`${node.name}() can't be filtered on the server`, node);
+    }
+  }
+
+  private condition(column: string, operator: string, value: string, negated: boolean): string {
+    return `${column}.${negated ? 'not.' : ''}${operator}.${value}`;
+  }
+
+  private compare(operator: CompareOperator, left: ValueNode, right: ValueNode, negated: boolean): string {
+    if (left.kind !== 'field' && left.kind !== 'call' && right.kind === 'field') {
+      const mirrored = operator === '=' || operator === '!=' ? operator : MIRRORED[operator];
+      if (!mirrored) throw unsupported(`${operator} needs the field on its left for a server-side filter`, left);
+      return this.compare(mirrored, right, left, negated);
+    }
+    const { column, scale } = this.column(left);
+    const value = this.literal(right, scale);
+    if (!PATTERN_OPERATORS.includes(operator)) {
+      return this.condition(column, OPERATORS[operator], quotePostgrestValue(value), negated);
+    }
+    const text = String(value);
+    if (text.includes('*')) throw unsupported(`'*' can't be searched for on the server`, right);
+    // * is PostgREST's wildcard; % and _ are escaped so they match themselves
+    const escaped = text.replace(/[\\%_]/g, match => `\\${match}`);
+    const pattern = operator === 'contains' ? `*${escaped}*` : operator === 'startsWith' ? `${escaped}*` : `*${escaped}`;
+    return this.condition(column, 'ilike', quotePostgrestValue(pattern), negated);
+  }
+
+  compile(node: FilterNode, negated = false): string {
+    switch (node.kind) {
+      case 'and':
+      case 'or':
+        return `${negated ? 'not.' : ''}${node.kind}(${node.operands.map(operand => this.compile(operand)).join(',')})`;
+      case 'not':
+        return this.compile(node.operand, !negated);
+      case 'compare':
+        return this.compare(node.operator, node.left, node.right, negated);
+      case 'in': {
+        const { column, scale } = this.column(node.value);
+        const list = node.list.map(item => quotePostgrestValue(this.literal(item, scale)));
+        return this.condition(column, 'in', `(${list.join(',')})`, negated !== node.negated);
+      }
+      case 'between': {
+        const { column, scale } = this.column(node.value);
+        const low = quotePostgrestValue(this.literal(node.low, scale));
+        const high = quotePostgrestValue(this.literal(node.high, scale));
+        return `${negated !== node.negated ? 'not.' : ''}and(${column}.gte.${low},${column}.lte.${high})`;
+      }
+      case 'isNull':
+        return this.condition(this.column(node.value).column, 'is', 'null', negated !== node.negated);
+      case 'test': {
+        const { value } = node;
+        if (value.kind === 'call' && PATTERN_OPERATORS.includes(value.name as CompareOperator)) {
+          return this.compare(value.name as CompareOperator, value.args[0], value.args[1], negated);
+        }
+        return this.condition(this.column(value).column, 'eq', 'true', negated);
+      }
+    }
+  }
+}
+
+/**
+ * The filter as one PostgREST logic-tree condition, e.g. for
+ * `query.or(condition)` or an `and=(condition)` query parameter.
+ * Throws a FilterError for what the server can't evaluate.
+ */
+export function toPostgrestFilter(node: FilterNode, options: PostgrestFilterOptions): string {
+  return new Compiler(options.columns, options.now).compile(node);
+}
+
+/** The column a field sorts by on the server, or null if it isn't mapped */
+export function postgrestColumn(field: string, columns: FilterColumnMap): string | null {
+  return mappingOf(columns, field)?.column ?? null;
+}
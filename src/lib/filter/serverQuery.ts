@@ -0,0 +1,138 @@
+/**
+ * FILE: src/lib/filter/serverQuery.ts
+ *
+ * A table's quick filter, expression, sort and page as one PostgREST
+ * request, so all four run in the database. The same query can be applied
+ * to a supabase-js builder or sent as URL parameters to an RPC endpoint.
+ */
+import type { FilterField } from '@/types/filter';
+import type { FilterColumnMap } from './postgrest';
+import { postgrestColumn, quotePostgrestValue, toPostgrestFilter } from './postgrest';
+import { checkFilter, UUID_PATTERN } from './check';
+import { FilterError } from './errors';
+import { parseFilter } from './parser';
+
+export interface ServerQuery {
+  /** One PostgREST logic-tree condition; null when nothing is filtered */
+  filter: string | null;
+  /** null when unsorted or sorted by a field the server doesn't have */
+  order: { column: string; ascending: boolean } | null;
+  /** Inclusive row range, as .range() takes it */
+  from: number;
+  to: number;
+}
+
+export interface ServerQueryInput {
+  expression?: string;
+  quickFilter?: string;
+  sort?: { key: string | null; direction: 'asc' | 'desc' };
+  /** 1-based, as DataGrid pages are */
+  page: number;
+  pageSize: number;
+  fields: FilterField[];
+  columns: FilterColumnMap;
+  now?: Date;
+}
+
+export interface CompiledServerQuery {
+  query: ServerQuery;
+  /** Why the expression was left out of query.filter */
+  error: FilterError | null;
+}
+
+/** The subset of a supabase-js filter builder a ServerQuery needs */
+export interface ServerQueryBuilder<Q> {
+  or(filters: string): Q;
+  order(column: string, options: { ascending: boolean }): Q;
+  range(from: number, to: number): Q;
+}
+
+/**
+ * Quick filter text as a case-insensitive match on any mapped text field,
+ * or, when the text is a whole UUID, an exact match on any mapped uuid
+ * field; the database has no text operators for uuids.
+ */
+function quickFilterCondition(text: string, fields: FilterField[], columns: FilterColumnMap): string | null {
+  const mapped = (type: FilterField['type']) => fields
+    .filter(field => field.type === type)
+    .map(field => postgrestColumn(field.key, columns))
+    .filter((column): column is string => column !== null);
+  const term = text.trim().replace(/[\\%_*]/g, '');
+  if (!term) return null;
+  const pattern = quotePostgrestValue(`*${term}*`);
+  const conditions = [
+    ...mapped('string').map(column => `${column}.ilike.${pattern}`),
+    ...(UUID_PATTERN.test(term) ? mapped('uuid').map(column => `${column}.eq.${term}`) : [])
+  ];
+  return conditions.length === 0 ? null : `or(${conditions.join(',')})`;
+}
+
+/** Why an expression can't run on the server, or null if it can */
+export function serverFilterError(expression: string, fields: FilterField[], columns: FilterColumnMap, now?: Date): FilterError | null {
+  try {
+    const ast = parseFilter(expression);
+    if (ast) {
+      checkFilter(ast, fields);
+      toPostgrestFilter(ast, { columns, now });
+    }
+    return null;
+  } catch (err) {
+    if (err instanceof FilterError) return err;
+    throw err;
+  }
+}
+
+/**
+ * Compile a table's state to a ServerQuery. An expression that doesn't
+ * parse, check or translate is reported in `error` and left out; the rest
+ * of the query still applies.
+ */
+export function compileServerQuery(input: ServerQueryInput): CompiledServerQuery {
+  const conditions: string[] = [];
+  let error: FilterError | null = null;
+
+  const quick = input.quickFilter ? quickFilterCondition(input.quickFilter, input.fields, input.columns) : null;
+  if (quick) conditions.push(quick);
+
+  try {
+    const ast = parseFilter(input.expression ?? '');
+    if (ast) {
+      checkFilter(ast, input.fields);
+      conditions.push(toPostgrestFilter(ast, { columns: input.columns, now: input.now }));
+    }
+  } catch (err) {
+    if (!(err instanceof FilterError)) throw err;
+    error = err;
+  }
+
+  const sortColumn = input.sort?.key ? postgrestColumn(input.sort.key, input.columns) : null;
+  const from = (Math.max(1, input.page) - 1) * input.pageSize;
+
+  return {
+    query: {
+      filter: conditions.length === 0 ? null : conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`,
+      order: sortColumn ? { column: sortColumn, ascending: input.sort?.direction !== 'desc' } : null,
+      from,
+      to: from + input.pageSize - 1
+    },
+    error
+  };
+}
+
+/** Apply a ServerQuery to a supabase-js builder, e.g. supabase.rpc(name, {}, { count: 'exact' }) */
+export function applyServerQuery<Q extends ServerQueryBuilder<Q>>(builder: Q, query: ServerQuery): Q {
+  let result = builder;
+  if (query.filter) result = result.or(query.filter);
+  if (query.order) result = result.order(query.order.column, { ascending: query.order.ascending });
+  return result.range(query.from, query.to);
+}
+
+/** A ServerQuery as PostgREST URL parameters, for endpoints called with fetch */
+export function serverQueryParams(query: ServerQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.filter) params.set('and', `(${query.filter})`);
+  if (query.order) params.set('order', `${query.order.column}.${query.order.ascending ? 'asc' : 'desc'}`);
+  params.set('offset', String(query.from));
+  params.set('limit', String(query.to - query.from + 1));
+  return params;
+}
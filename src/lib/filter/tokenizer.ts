@@ -0,0 +1,207 @@
+/**
+ * FILE: src/lib/filter/tokenizer.ts
+ *
+ * Splits a filter expression into tokens. Keywords are case-insensitive;
+ * `&&`, `||` and `!` are accepted for AND, OR and NOT, as older saved
+ * filters use them. Dates are written bare (2026-05-01, 2026-05-01T08:30)
+ * and relative dates as now or today with offsets (now-7d, today+12h).
+ */
+import type { RelativeUnit, Span } from './ast';
+import { FilterError } from './errors';
+
+export const FILTER_KEYWORDS = [
+  'and', 'or', 'not', 'in', 'between', 'is', 'null', 'true', 'false', 'contains', 'startswith', 'endswith'
+] as const;
+export type FilterKeyword = typeof FILTER_KEYWORDS[number];
+
+export type Token =
+  | { kind: 'identifier'; text: string; span: Span }
+  | { kind: 'keyword'; keyword: FilterKeyword; text: string; span: Span }
+  | { kind: 'number'; value: number; text: string; span: Span }
+  | { kind: 'string'; value: string; text: string; span: Span }
+  | { kind: 'date'; iso: string; text: string; span: Span }
+  | { kind: 'relativeDate'; anchor: 'now' | 'today'; offsetMs: number; text: string; span: Span }
+  | { kind: 'operator'; operator: '=' | '!=' | '<' | '<=' | '>' | '>='; text: string; span: Span }
+  | { kind: 'punctuation'; text: '(' | ')' | '[' | ']' | ',' | '-' | '&&' | '||' | '!'; span: Span }
+  | { kind: 'eof'; text: ''; span: Span };
+
+export const RELATIVE_UNIT_MS: Record<RelativeUnit, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+const WHITESPACE = /\s+/y;
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER = /\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const DATE = /\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/y;
+const RELATIVE_ANCHOR = /(now|today)(?![A-Za-z0-9_])/iy;
+const RELATIVE_SIGN = /\s*([+-])/y;
+const RELATIVE_OFFSET = /\s*(\d+(?:\.\d+)?)([smhdw])(?![A-Za-z0-9_])/y;
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '=', '<', '>', '!', '(', ')', '[', ']', ',', '-'] as const;
+
+function matchAt(pattern: RegExp, source: string, at: number): RegExpExecArray | null {
+  pattern.lastIndex = at;
+  return pattern.exec(source);
+}
+
+function readString(source: string, start: number): { value: string; end: number } {
+  const quote = source[start];
+  let value = '';
+  let at = start + 1;
+  while (at < source.length) {
+    const char = source[at];
+    if (char === quote) return { value, end: at + 1 };
+    if (char === '\\' && at + 1 < source.length) {
+      const next = source[at + 1];
+      value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+      at += 2;
+      continue;
+    }
+    value += char;
+    at++;
+  }
+  throw new FilterError('Unterminated string', { start, end: source.length });
+}
+
+function readRelativeDate(source: string, start: number, anchorText: string): Token {
+  let at = start + anchorText.length;
+  let offsetMs = 0;
+  for (;;) {
+    const sign = matchAt(RELATIVE_SIGN, source, at);
+    if (!sign) break;
+    const offset = matchAt(RELATIVE_OFFSET, source, at + sign[0].length);
+    if (!offset) {
+      const from = at + sign[0].length - 1;
+      throw new FilterError(
+        `Expected an offset like 7d after ${anchorText}${sign[1]} (units: s, m, h, d, w)`,
+        { start: from, end: Math.min(source.length, from + 1) }
+      );
+    }
+    const amount = Number(offset[1]) * RELATIVE_UNIT_MS[offset[2] as RelativeUnit];
+    offsetMs += sign[1] === '-' ? -amount : amount;
+    at += sign[0].length + offset[0].length;
+  }
+  return {
+    kind: 'relativeDate',
+    anchor: anchorText.toLowerCase() as 'now' | 'today',
+    offsetMs,
+    text: source.slice(start, at),
+    span: { start, end: at }
+  };
+}
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  readTokens(source, tokens);
+  return tokens;
+}
+
+/**
+ * The tokens up to the first lexical error, and that error, for an editor
+ * that highlights and completes expressions while they are being typed.
+ * There is no eof token after an error.
+ */
+export function tokenizePartial(source: string): { tokens: Token[]; error: FilterError | null } {
+  const tokens: Token[] = [];
+  try {
+    readTokens(source, tokens);
+    return { tokens, error: null };
+  } catch (err) {
+    if (err instanceof FilterError) return { tokens, error: err };
+    throw err;
+  }
+}
+
+function readTokens(source: string, tokens: Token[]): void {
+  let at = 0;
+
+  while (at < source.length) {
+    const space = matchAt(WHITESPACE, source, at);
+    if (space) {
+      at += space[0].length;
+      continue;
+    }
+    const start = at;
+    const char = source[at];
+
+    if (char === '"' || char === "'") {
+      const { value, end } = readString(source, start);
+      tokens.push({ kind: 'string', value, text: source.slice(start, end), span: { start, end } });
+      at = end;
+      continue;
+    }
+
+    const date = matchAt(DATE, source, at);
+    if (date) {
+      const end = start + date[0].length;
+      if (isNaN(new Date(date[0]).getTime())) {
+        throw new FilterError(`Invalid date ${date[0]}`, { start, end });
+      }
+      tokens.push({ kind: 'date', iso: date[0], text: date[0], span: { start, end } });
+      at = end;
+      continue;
+    }
+
+    const number = matchAt(NUMBER, source, at);
+    if (number) {
+      const end = start + number[0].length;
+      tokens.push({ kind: 'number', value: Number(number[0]), text: number[0], span: { start, end } });
+      at = end;
+      continue;
+    }
+
+    const anchor = matchAt(RELATIVE_ANCHOR, source, at);
+    if (anchor) {
+      const token = readRelativeDate(source, start, anchor[1]);
+      tokens.push(token);
+      at = token.span.end;
+      continue;
+    }
+
+    const identifier = matchAt(IDENTIFIER, source, at);
+    if (identifier) {
+      const text = identifier[0];
+      const end = start + text.length;
+      const lower = text.toLowerCase();
+      if ((FILTER_KEYWORDS as readonly string[]).includes(lower)) {
+        tokens.push({ kind: 'keyword', keyword: lower as FilterKeyword, text, span: { start, end } });
+      } else {
+        tokens.push({ kind: 'identifier', text, span: { start, end } });
+      }
+      at = end;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, at));
+    if (operator) {
+      const span = { start, end: start + operator.length };
+      switch (operator) {
+        case '==':
+          tokens.push({ kind: 'operator', operator: '=', text: operator, span });
+          break;
+        case '<>':
+          tokens.push({ kind: 'operator', operator: '!=', text: operator, span });
+          break;
+        case '=':
+        case '!=':
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          tokens.push({ kind: 'operator', operator, text: operator, span });
+          break;
+        default:
+          tokens.push({ kind: 'punctuation', text: operator, span });
+      }
+      at = span.end;
+      continue;
+    }
+
+    throw new FilterError(`Unexpected character '${char}'`, { start, end: start + 1 });
+  }
+
+  tokens.push({ kind: 'eof', text: '', span: { start: source.length, end: source.length } });
+}
@@ -6,4 +6,4 @@
 export * from './logger';
 export * from './api';
 export * from './utils';
-
+export * from './ecg';
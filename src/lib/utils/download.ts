@@ -0,0 +1,25 @@
+/**
+ * Browser download helpers
+ */
+
+/**
+ * Trigger a browser download for in-memory content
+ * @param content - Text or binary payload
+ * @param filename - Suggested file name
+ * @param mimeType - MIME type of the payload
+ */
+export function downloadBlob(
+  content: BlobPart | BlobPart[],
+  filename: string,
+  mimeType = 'text/plain'
+): void {
+  const blob = new Blob(Array.isArray(content) ? content : [content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -3,6 +3,8 @@
  * Exports all ECG-related hooks for convenient importing
  */
 
-export * from './ExpressionParser';
-
+export * from './download';
+export * from './zip';
 
+export * from './indexedDBCache';
+export * from './tableUrlState';
@@ -0,0 +1,117 @@
+/**
+ * Small persistent key/value cache on top of IndexedDB
+ */
+
+export interface IndexedDBCache<T> {
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+}
+
+interface IndexedDBCacheOptions {
+  /** Oldest entries beyond this count are evicted after writes */
+  maxEntries?: number;
+}
+
+/**
+ * Create a cache backed by one IndexedDB object store. Every operation
+ * resolves (null / no-op) instead of rejecting when IndexedDB is missing or
+ * blocked, so callers can always fall back to the network.
+ * @param dbName - Database name
+ * @param storeName - Object store name
+ */
+export function createIndexedDBCache<T>(
+  dbName: string,
+  storeName: string,
+  { maxEntries = 5000 }: IndexedDBCacheOptions = {}
+): IndexedDBCache<T> {
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+  let writesSincePrune = 0;
+
+  const open = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(storeName, { keyPath: 'key' });
+          store.createIndex('storedAt', 'storedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+    return dbPromise;
+  };
+
+  const run = async <R>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => { readonly result: R } | void,
+    fallback: R
+  ): Promise<R> => {
+    const db = await open();
+    if (!db) return fallback;
+    return new Promise(resolve => {
+      try {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request ? request.result : fallback);
+        tx.onerror = () => resolve(fallback);
+        tx.onabort = () => resolve(fallback);
+      } catch {
+        resolve(fallback);
+      }
+    });
+  };
+
+  const prune = () =>
+    run('readwrite', store => {
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - maxEntries;
+        if (excess <= 0) return;
+        const cursorRequest = store.index('storedAt').openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || excess <= 0) return;
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        };
+      };
+    }, undefined);
+
+  return {
+    async get(key) {
+      const entry = await run<CacheEntry<T> | undefined>('readonly', store => store.get(key), undefined);
+      return entry ? entry.value : null;
+    },
+
+    async set(key, value) {
+      const entry: CacheEntry<T> = { key, value, storedAt: Date.now() };
+      await run<unknown>('readwrite', store => store.put(entry), undefined);
+      // Counting on every write is wasteful; prune in batches
+      if (++writesSincePrune >= 50) {
+        writesSincePrune = 0;
+        await prune();
+      }
+    },
+
+    async clear() {
+      await run('readwrite', store => store.clear(), undefined);
+    }
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Table view state in URL search params, so a lab view survives a reload
+ * and can be sent as a link:
+ *
+ *   ?page=3&size=50&sort=-qualityFraction&q=north&expr=qualityFraction+%3C+0.5&cols=study_id,status
+ *
+ * `sort` is a column key, prefixed with - when descending; `cols` lists the
+ * visible columns in display order. Values equal to the defaults are left
+ * out to keep links short, and params owned by someone else are kept.
+ */
+
+export interface TableUrlSort {
+  key: string | null;
+  direction: 'asc' | 'desc';
+}
+
+export interface TableUrlState {
+  page: number;
+  pageSize: number;
+  sort: TableUrlSort;
+  quickFilter: string;
+  expression: string;
+  /** Visible columns in display order; null shows every column as defined */
+  columns: string[] | null;
+  /** Lab-specific values, e.g. HolterLab's quick filter chip; the defaults name the params */
+  extras: Record<string, string>;
+}
+
+export const TABLE_URL_PARAMS = {
+  page: 'page',
+  pageSize: 'size',
+  sort: 'sort',
+  quickFilter: 'q',
+  expression: 'expr',
+  columns: 'cols'
+} as const;
+
+export function encodeSort(sort: TableUrlSort): string | null {
+  if (sort.key === null) return null;
+  return sort.direction === 'desc' ? `-${sort.key}` : sort.key;
+}
+
+export function decodeSort(value: string | null, fallback: TableUrlSort): TableUrlSort {
+  if (!value || value === '-') return fallback;
+  return value.startsWith('-')
+    ? { key: value.slice(1), direction: 'desc' }
+    : { key: value, direction: 'asc' };
+}
+
+function positiveInteger(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  const number = Number(value);
+  return number >= 1 ? number : null;
+}
+
+/**
+ * The state a URL describes. Anything missing or malformed falls back to
+ * the default; a page size outside pageSizes (when given) is ignored.
+ */
+export function readTableUrlState(
+  params: URLSearchParams,
+  defaults: TableUrlState,
+  pageSizes?: readonly number[]
+): TableUrlState {
+  const pageSize = positiveInteger(params.get(TABLE_URL_PARAMS.pageSize));
+  const columns = params.get(TABLE_URL_PARAMS.columns);
+  return {
+    page: positiveInteger(params.get(TABLE_URL_PARAMS.page)) ?? defaults.page,
+    pageSize: pageSize !== null && (!pageSizes || pageSizes.includes(pageSize)) ? pageSize : defaults.pageSize,
+    sort: decodeSort(params.get(TABLE_URL_PARAMS.sort), defaults.sort),
+    quickFilter: params.get(TABLE_URL_PARAMS.quickFilter) ?? defaults.quickFilter,
+    expression: params.get(TABLE_URL_PARAMS.expression) ?? defaults.expression,
+    columns: columns !== null ? columns.split(',').filter(Boolean) : defaults.columns,
+    extras: Object.fromEntries(
+      Object.entries(defaults.extras).map(([name, fallback]) => [name, params.get(name) ?? fallback])
+    )
+  };
+}
+
+/** params with state written over the table's own params; defaults are removed */
+export function writeTableUrlState(
+  params: URLSearchParams,
+  state: TableUrlState,
+  defaults: TableUrlState
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const put = (name: string, value: string | null, fallback: string | null) => {
+    if (value === null || value === fallback) next.delete(name);
+    else next.set(name, value);
+  };
+
+  put(TABLE_URL_PARAMS.page, String(state.page), String(defaults.page));
+  put(TABLE_URL_PARAMS.pageSize, String(state.pageSize), String(defaults.pageSize));
+  put(TABLE_URL_PARAMS.sort, encodeSort(state.sort), encodeSort(defaults.sort));
+  put(TABLE_URL_PARAMS.quickFilter, state.quickFilter, defaults.quickFilter);
+  put(TABLE_URL_PARAMS.expression, state.expression, defaults.expression);
+  put(TABLE_URL_PARAMS.columns, state.columns?.join(',') ?? null, defaults.columns?.join(',') ?? null);
+  for (const [name, fallback] of Object.entries(defaults.extras)) {
+    put(name, state.extras[name] ?? fallback, fallback);
+  }
+  return next;
+}
+
+/**
+ * Whether b only changes what is being typed. Such changes replace the
+ * current history entry instead of adding one per keystroke.
+ */
+export function isTypingChange(a: TableUrlState, b: TableUrlState): boolean {
+  return encodeSort(a.sort) === encodeSort(b.sort)
+    && a.pageSize === b.pageSize
+    && a.columns?.join(',') === b.columns?.join(',')
+    && Object.keys(a.extras).every(name => a.extras[name] === b.extras[name])
+    && (a.quickFilter !== b.quickFilter || a.expression !== b.expression);
+}
@@ -0,0 +1,101 @@
+/**
+ * Minimal zip writer
+ *
+ * Stores files uncompressed (method 0), which every unzip tool reads and
+ * which keeps exports byte-exact. Sizes are limited to the classic 4 GB
+ * zip fields; there is no ZIP64 support.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  /** Modification time written to the entry; defaults to now */
+  modified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (IEEE) of a byte array, as used by zip and gzip
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Build a zip archive; returns the parts in order, ready for a Blob
+ * @param entries - Files to store, with '/'-separated names
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array[] {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    if (entry.data.length > 0xffffffff) {
+      throw new Error(`${entry.name} is too large for a zip without ZIP64`);
+    }
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const stamp = dosDateTime(entry.modified ?? new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true);
+    local.setUint16(10, stamp.time, true);
+    local.setUint16(12, stamp.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const record = new DataView(new ArrayBuffer(46));
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(4, 20, true);
+    record.setUint16(6, 20, true);
+    record.setUint16(8, 0x0800, true);
+    record.setUint16(10, 0, true);
+    record.setUint16(12, stamp.time, true);
+    record.setUint16(14, stamp.date, true);
+    record.setUint32(16, crc, true);
+    record.setUint32(20, entry.data.length, true);
+    record.setUint32(24, entry.data.length, true);
+    record.setUint16(28, name.length, true);
+    record.setUint32(42, offset, true);
+    central.push(new Uint8Array(record.buffer), name);
+
+    offset += 30 + name.length + entry.data.length;
+  });
+
+  const centralSize = central.reduce((n, p) => n + p.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return [...parts, ...central, new Uint8Array(end.buffer)];
+}
@@ -10,6 +10,7 @@ import { createRoot } from 'react-dom/client';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { logger } from '@/lib/logger';
+import { EcgDataSourceProvider } from '@/context/EcgDataSourceContext';
 import App from './App';
 import './index.css'; // Tailwind + global styles
 
@@ -36,7 +37,9 @@ if (!rootElement) {
 createRoot(rootElement).render(
   <StrictMode>
     <QueryClientProvider client={queryClient}>
-      <App />
+      <EcgDataSourceProvider>
+        <App />
+      </EcgDataSourceProvider>
       {import.meta.env.DEV && <ReactQueryDevtools />}
     </QueryClientProvider>
   </StrictMode>
@@ -27,8 +27,10 @@ const PodLab = lazyLoad(() => import('@/components/labs/PodLab'));
 // const PodDetail = lazyLoad(() => import('@/components/labs/PodLab/PodDetail'));
 const DataLab = lazyLoad(() => import('@/components/labs/DataLab'));
 const ECGViewerPage = lazyLoad(() => import('@/components/shared/ecg/ECGViewerPage'));
+const LocalRecordingPage = lazyLoad(() => import('@/components/shared/ecg/LocalRecordingPage'));
 const LoginPage = lazyLoad(() => import('@/components/auth/LoginPage'));
 const ErrorPage = lazyLoad(() => import('@/components/shared/ErrorPage'));
+const ECGRendererBenchmark = lazyLoad(() => import('@/components/test/ECGRendererBenchmark'));
 
 // Wrap component in suspense and auth
 const wrapComponent = (Component: React.ReactNode, requiresAuth = true) => {
@@ -115,6 +117,13 @@ const labRoutes: AppRoute[] = [
     label: 'Data',
   },
   
+  // Files opened from disk, reviewed in the browser only
+  {
+    path: '/local',
+    element: wrapComponent(<LocalRecordingPage />),
+    label: 'Local Recordings',
+  },
+  
   // Legacy ECG Viewer
   {
     path: '/ecg/:studyId',
@@ -126,6 +135,16 @@ const labRoutes: AppRoute[] = [
   },
 ];
 
+// Development-only tools
+const devRoutes: AppRoute[] = import.meta.env.DEV
+  ? [
+      {
+        path: '/dev/ecg-renderer-benchmark',
+        element: wrapComponent(<ECGRendererBenchmark />, false),
+      }
+    ]
+  : [];
+
 // Create and export the router
 export const router = createBrowserRouter([
   {
@@ -134,7 +153,8 @@ export const router = createBrowserRouter([
     errorElement: <GenericErrorBoundary><ErrorPage /></GenericErrorBoundary>,
     children: [
       ...authRoutes,
-      ...labRoutes
+      ...labRoutes,
+      ...devRoutes
     ],
   },
 ]);
@@ -0,0 +1,58 @@
+/**
+ * A local stand-in for the Supabase auth server in edge function tests:
+ * signs tokens with an HS256 secret or an ES256 key pair and serves the
+ * public key as a JWKS through a fetch stand-in, so verification runs
+ * without a network.
+ */
+import type { JwtClaims, JwtConfig } from '../../../supabase/functions/_shared/auth.ts'
+
+export interface LocalJwtIssuer {
+  /** Verification settings that trust this issuer */
+  config: JwtConfig
+  sign(claims: JwtClaims, options?: { alg?: 'HS256' | 'ES256'; kid?: string; expiresIn?: number }): Promise<string>
+}
+
+let issuers = 0
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const encodeJson = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)))
+
+export async function createLocalJwtIssuer({ now = Date.now }: { now?: () => number } = {}): Promise<LocalJwtIssuer> {
+  // A URL of its own, so verifiers never share a cached JWKS between issuers
+  const issuer = `http://auth.local/${++issuers}/auth/v1`
+  const jwksUrl = `${issuer}/.well-known/jwks.json`
+  const secret = `local-secret-${issuers}-${Math.random().toString(36).slice(2)}`
+  const kid = `local-key-${issuers}`
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])
+  const publicJwk = { ...(await crypto.subtle.exportKey('jwk', keyPair.publicKey)), kid, alg: 'ES256', use: 'sig' }
+  const hmacKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+
+  return {
+    config: {
+      secret,
+      jwksUrl,
+      issuer,
+      audience: 'authenticated',
+      now,
+      fetch: (async (input: RequestInfo | URL) => String(input) === jwksUrl
+        ? new Response(JSON.stringify({ keys: [publicJwk] }), { headers: { 'Content-Type': 'application/json' } })
+        : new Response('Not found', { status: 404 })) as typeof fetch
+    },
+
+    async sign(claims, { alg = 'ES256', kid: keyId = kid, expiresIn = 3600 } = {}) {
+      const issuedAt = Math.floor(now() / 1000)
+      const header = encodeJson({ alg, typ: 'JWT', ...(alg === 'ES256' ? { kid: keyId } : {}) })
+      const payload = encodeJson({ iss: issuer, aud: 'authenticated', iat: issuedAt, exp: issuedAt + expiresIn, ...claims })
+      const data = new TextEncoder().encode(`${header}.${payload}`)
+      const signature = alg === 'HS256'
+        ? await crypto.subtle.sign('HMAC', hmacKey, data)
+        : await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keyPair.privateKey, data)
+      return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`
+    }
+  }
+}
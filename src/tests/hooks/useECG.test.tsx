@@ -2,37 +2,20 @@ import { renderHook, waitFor } from '@testing-library/react'
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { useECG } from '@/hooks/api/ecg'
+import { createSyntheticECG, toDownsampleResponse } from '@/lib/ecg/synthetic'
+import { ECG_BINARY_CONTENT_TYPE, encodeECGBinary } from '@/lib/ecg/dataSource/binary'
+import { ECG_STREAM_CONTENT_TYPE } from '@/lib/ecg/dataSource/stream'
+import { sampleBufferFromSamples } from '@/lib/ecg/sampleBuffer'
 import type { ReactNode } from 'react'
 
 // Mock fetch
 const originalFetch = global.fetch;
 global.fetch = vi.fn();
 
-// Mock data
-const mockParallelData = {
-  timestamps: ['2023-01-01T00:00:00Z'],
-  channel_1: [1],
-  channel_2: [2],
-  channel_3: [3],
-  lead_on_p_1: [true],
-  lead_on_p_2: [true],
-  lead_on_p_3: [true],
-  lead_on_n_1: [true],
-  lead_on_n_2: [true],
-  lead_on_n_3: [true],
-  quality_1: [true],
-  quality_2: [true],
-  quality_3: [true]
-};
-
-// Expected transformed sample
-const expectedSample = {
-  time: '2023-01-01T00:00:00Z',
-  channels: [1, 2, 3],
-  lead_on_p: [true, true, true],
-  lead_on_n: [true, true, true],
-  quality: [true, true, true]
-};
+// Mock data: a second of generated ECG at the factor-4 rate, as downsample-ecg returns it
+const fixtureSamples = createSyntheticECG({ start: Date.parse('2023-01-01T00:00:00Z'), durationMs: 1000 }).samples(0, 320, 4)
+const mockParallelData = toDownsampleResponse(fixtureSamples)
+const jsonHeaders = new Headers({ 'Content-Type': 'application/json' })
 
 // Test wrapper setup
 const createWrapper = () => {
@@ -63,6 +46,7 @@ describe('useECG', () => {
     // Mock successful response
     vi.mocked(global.fetch).mockResolvedValueOnce({
       ok: true,
+      headers: jsonHeaders,
       json: async () => mockParallelData
     } as unknown as Response);
 
@@ -88,8 +72,8 @@ describe('useECG', () => {
     })
 
     // Verify data
-    expect(result.current.samples).toHaveLength(1)
-    expect(result.current.samples[0]).toEqual(expectedSample)
+    expect(result.current.samples).toHaveLength(80)
+    expect(result.current.samples).toEqual(fixtureSamples)
     expect(result.current.error).toBeNull()
 
     // Verify fetch was called with correct parameters
@@ -97,16 +81,117 @@ describe('useECG', () => {
       expect.stringContaining('/functions/v1/downsample-ecg'),
       expect.objectContaining({
         method: 'POST',
+        headers: expect.objectContaining({ Accept: expect.stringContaining(ECG_STREAM_CONTENT_TYPE) }),
+        // One hour in eight chunks
         body: JSON.stringify({
           pod_id: 'test-pod',
           time_start: '2023-01-01T00:00:00Z',
           time_end: '2023-01-01T01:00:00Z',
-          factor: 4
+          factor: 4,
+          chunk_seconds: 450
         })
       })
     )
   })
 
+  it('decodes the binary wire format', async () => {
+    const expected = sampleBufferFromSamples(fixtureSamples)
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      headers: new Headers({ 'Content-Type': ECG_BINARY_CONTENT_TYPE }),
+      arrayBuffer: async () => encodeECGBinary(expected)
+    } as unknown as Response);
+
+    const { result } = renderHook(
+      () =>
+        useECG({
+          pod_id: 'test-pod',
+          time_start: '2023-01-01T00:00:00Z',
+          time_end: '2023-01-01T01:00:00Z',
+          factor: 4
+        }),
+      {
+        wrapper: createWrapper()
+      }
+    )
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    // Times come back on the fitted grid, within the millisecond the ISO strings lost
+    const { buffer, samples } = result.current
+    expect(buffer.length).toBe(80)
+    buffer.times.forEach((t, i) => expect(Math.abs(t - expected.times[i])).toBeLessThan(1))
+    buffer.channels.forEach((values, c) => expect(values.every((v, i) => v === expected.channels[c][i])).toBe(true))
+    expect(buffer.flags).toEqual(expected.flags)
+    expect(samples).toHaveLength(80)
+  })
+
+  it('draws streamed chunks as they arrive and can be cancelled', async () => {
+    const payload = new Uint8Array(encodeECGBinary(sampleBufferFromSamples(fixtureSamples)))
+    const frame = (index: number) => {
+      const out = new Uint8Array(8 + payload.length)
+      new DataView(out.buffer).setUint32(0, index, true)
+      new DataView(out.buffer).setUint32(4, payload.length, true)
+      out.set(payload, 8)
+      return out
+    }
+    // Two of eight chunks arrive, then the stream stalls
+    let stream!: ReadableStreamDefaultController<Uint8Array>
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        stream = controller
+        controller.enqueue(frame(0))
+      }
+    })
+    let signal: AbortSignal | undefined
+    vi.mocked(global.fetch).mockImplementationOnce(async (_url, init) => {
+      signal = init?.signal ?? undefined
+      return {
+        ok: true,
+        headers: new Headers({ 'Content-Type': ECG_STREAM_CONTENT_TYPE }),
+        body
+      } as unknown as Response
+    });
+
+    const { result } = renderHook(
+      () =>
+        useECG({
+          pod_id: 'test-pod',
+          time_start: '2023-01-01T00:00:00Z',
+          time_end: '2023-01-01T01:00:00Z',
+          factor: 4
+        }),
+      {
+        wrapper: createWrapper()
+      }
+    )
+
+    await waitFor(() => {
+      expect(result.current.samples).toHaveLength(80)
+    })
+    expect(result.current.isLoading).toBe(false)
+    expect(result.current.isStreaming).toBe(true)
+    expect(result.current.progress).toEqual({ loaded: 1, total: 8 })
+
+    stream.enqueue(frame(1))
+    await waitFor(() => {
+      expect(result.current.samples).toHaveLength(160)
+    })
+    expect(result.current.progress).toEqual({ loaded: 2, total: 8 })
+
+    // Cancelling aborts the request and keeps what was drawn
+    await result.current.cancel()
+    await waitFor(() => {
+      expect(result.current.isCancelled).toBe(true)
+    })
+    expect(signal?.aborted).toBe(true)
+    expect(result.current.samples).toHaveLength(160)
+    expect(result.current.isStreaming).toBe(false)
+    expect(result.current.error).toBeNull()
+  })
+
   it('handles errors gracefully', async () => {
     // Mock error response
     vi.mocked(global.fetch).mockResolvedValueOnce({
@@ -138,6 +223,7 @@ describe('useECG', () => {
   it('respects the factor parameter', async () => {
     vi.mocked(global.fetch).mockResolvedValueOnce({
       ok: true,
+      headers: jsonHeaders,
       json: async () => mockParallelData
     } as unknown as Response);
 
@@ -154,17 +240,54 @@ describe('useECG', () => {
       }
     )
 
-    expect(global.fetch).toHaveBeenCalledWith(
-      expect.any(String),
-      expect.objectContaining({
-        body: expect.stringContaining('"factor":8')
-      })
+    // The request goes out once the session token is read
+    await waitFor(() => {
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          body: expect.stringContaining('"factor":8')
+        })
+      )
+    })
+  })
+
+  it('picks a downsample method from the canvas width', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      headers: jsonHeaders,
+      json: async () => mockParallelData
+    } as unknown as Response);
+
+    // One hour at 80 Hz is 288000 points for a 1000 px canvas
+    renderHook(
+      () =>
+        useECG({
+          pod_id: 'test-pod',
+          time_start: '2023-01-01T00:00:00Z',
+          time_end: '2023-01-01T01:00:00Z',
+          factor: 4,
+          pixelWidth: 1000
+        }),
+      {
+        wrapper: createWrapper()
+      }
     )
+
+    // The request goes out once the session token is read
+    await waitFor(() => {
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          body: expect.stringContaining('"method":"peak_preserving","max_points":2000')
+        })
+      )
+    })
   })
 
   it('handles empty response correctly', async () => {
     vi.mocked(global.fetch).mockResolvedValueOnce({
       ok: true,
+      headers: jsonHeaders,
       json: async () => ({
         timestamps: [],
         channel_1: [],
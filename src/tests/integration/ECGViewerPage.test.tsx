@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import { MemoryRouter, Route, Routes } from 'react-router-dom'
+import ECGViewerPage from '@/components/shared/ecg/ECGViewerPage'
+import { useHRV } from '@/hooks/api/ecg/useHRV'
+
+const STUDY = {
+  study_id: 'study-1',
+  pod_id: 'pod-1',
+  study_start: '2026-05-01T00:00:00Z',
+  study_completed: null
+}
+
+let timeRange: { start: string; end: string } | null = null
+
+// The viewer modal and aggregator are not opened here
+vi.mock('@/components/shared/ecg/MainECGViewer', () => ({ default: () => null }))
+vi.mock('@/components/shared/ecg/EcgAggregatorView', () => ({ EcgAggregatorView: () => null }))
+vi.mock('@/types/supabase', () => ({ supabase: {} }))
+vi.mock('@/context/TimeRangeContext', () => ({
+  useTimeRange: () => ({
+    selectedDay: new Date('2026-05-01T00:00:00Z'),
+    timeRange,
+    selectedPreset: 15,
+    setSelectedDay: vi.fn(),
+    setTimeRange: vi.fn(),
+    setSelectedPreset: vi.fn(),
+    updateTimeRangeForDay: vi.fn()
+  })
+}))
+vi.mock('@/context/EcgDataSourceContext', () => ({ useEcgDataSource: () => ({}) }))
+vi.mock('@/hooks/api/study/useStudyDetails', () => ({
+  useStudyDetails: () => ({ data: STUDY, isLoading: false, error: null })
+}))
+vi.mock('@/hooks/api/ecg/useLatestECGTimestamp', () => ({
+  useLatestECGTimestamp: () => ({ data: null, isLoading: false })
+}))
+vi.mock('@/hooks/api/pod/usePodDays', () => ({ usePodDays: () => ({ data: [], isLoading: false }) }))
+vi.mock('@/hooks/api/ecg/useECGExport', () => ({
+  useECGExport: () => ({ exportRange: vi.fn(), cancel: vi.fn(), isExporting: false, progress: 0 })
+}))
+vi.mock('@/hooks/api/study/useStudyAnnotations', () => ({ useStudyAnnotations: () => ({ annotations: [] }) }))
+vi.mock('@/hooks/api/ecg/useHRV', () => ({
+  useHRV: vi.fn(() => ({ hrv: null, beatDetection: { channel: 1 }, isLoading: false, error: null }))
+}))
+
+const page = () => (
+  <MemoryRouter initialEntries={['/ecg/study-1']}>
+    <Routes>
+      <Route path="/ecg/:studyId" element={<ECGViewerPage />} />
+    </Routes>
+  </MemoryRouter>
+)
+
+function renderPage() {
+  return render(page())
+}
+
+function lastHRVRequest() {
+  return vi.mocked(useHRV).mock.lastCall?.[0]
+}
+
+describe('ECGViewerPage HRV panel', () => {
+  beforeEach(() => {
+    timeRange = { start: '2026-05-01T08:00:00.000Z', end: '2026-05-01T08:15:00.000Z' }
+    vi.mocked(useHRV).mockClear()
+  })
+
+  afterEach(cleanup)
+
+  it('is not shown until a range is selected', () => {
+    timeRange = null
+    renderPage()
+    expect(screen.queryByText('Heart Rate Variability')).toBeNull()
+  })
+
+  it('analyzes the range selected in the time range context on request', () => {
+    renderPage()
+    expect(screen.getByText('Heart Rate Variability')).toBeTruthy()
+    expect(lastHRVRequest()).toMatchObject({ pod_id: 'pod-1', time_start: timeRange!.start, time_end: timeRange!.end, enabled: false })
+
+    fireEvent.click(screen.getByText('Analyze window'))
+    expect(lastHRVRequest()).toMatchObject({ time_start: timeRange!.start, time_end: timeRange!.end, enabled: true })
+  })
+
+  it('follows a new selection and waits to be asked again', () => {
+    const { rerender } = renderPage()
+    fireEvent.click(screen.getByText('Analyze window'))
+
+    timeRange = { start: '2026-05-01T09:00:00.000Z', end: '2026-05-01T09:05:00.000Z' }
+    rerender(page())
+    expect(lastHRVRequest()).toMatchObject({ time_start: timeRange.start, time_end: timeRange.end, enabled: false })
+  })
+})
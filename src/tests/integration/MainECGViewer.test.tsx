@@ -5,6 +5,7 @@ import { render, screen, waitFor, fireEvent } from '@testing-library/react'
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import MainECGViewer from '@/components/shared/ecg/MainECGViewer'
+import { createSyntheticECG } from '@/lib/ecg/synthetic'
 import { supabase } from '@/hooks/api/study/supabase'
 import type { ReactNode } from 'react'
 
@@ -19,15 +20,7 @@ vi.mock('@/hooks/api/supabase', () => ({
 const mockChunk = {
   chunk_start: '2023-01-01T00:00:00Z',
   chunk_end: '2023-01-01T00:05:00Z',
-  samples: [
-    {
-      time: '2023-01-01T00:00:00Z',
-      channels: [1, 2, 3],
-      lead_on_p: [true, true, true],
-      lead_on_n: [true, true, true],
-      quality: [true, true, true]
-    }
-  ]
+  samples: createSyntheticECG({ start: Date.parse('2023-01-01T00:00:00Z'), durationMs: 1000 }).samples(0, 1)
 }
 
 // Test wrapper setup
@@ -112,13 +105,7 @@ describe('MainECGViewer Integration', () => {
     const largeChunk = {
       chunk_start: '2023-01-01T00:00:00Z',
       chunk_end: '2023-01-01T00:05:00Z',
-      samples: Array(10000).fill(null).map((_, i) => ({
-        time: new Date(Date.parse('2023-01-01T00:00:00Z') + i * 1000).toISOString(),
-        channels: [Math.sin(i * 0.1), Math.cos(i * 0.1), Math.sin(i * 0.2)],
-        lead_on_p: [true, true, true],
-        lead_on_n: [true, true, true],
-        quality: [true, true, true]
-      }))
+      samples: createSyntheticECG({ start: Date.parse('2023-01-01T00:00:00Z'), durationMs: 5 * 60 * 1000 }).samples(0, 80000, 8)
     }
 
     // Mock initial load with large dataset
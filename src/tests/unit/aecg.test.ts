@@ -0,0 +1,153 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest'
+import { validateXML } from 'xmllint-wasm'
+import schemaSource from '../fixtures/aecg.xsd?raw'
+import {
+  AECG_NAMESPACE,
+  AECG_POD_ID_ROOT,
+  AECG_STUDY_ID_ROOT,
+  AECG_SUBJECT_ID_ROOT,
+  contiguousRuns,
+  formatHL7Time,
+  serializeAECG
+} from '@/lib/ecg/formats/aecg'
+import type { ECGSample } from '@/hooks/api/ecg/useECG'
+
+const DOCUMENT_ID = '0f8fad5b-d9cb-469f-a165-70867728950e'
+const START = Date.parse('2026-03-04T05:06:07.250Z')
+
+function makeSamples(count: number, rate: number, startMs = START): ECGSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    time: new Date(startMs + (i * 1000) / rate).toISOString(),
+    channels: [i * 10, -i * 10, 5] as [number, number, number],
+    lead_on_p: [true, true, true] as [boolean, boolean, boolean],
+    lead_on_n: [true, true, true] as [boolean, boolean, boolean],
+    quality: [true, true, true] as [boolean, boolean, boolean]
+  }))
+}
+
+const parseXml = (source: string) => new DOMParser().parseFromString(source, 'application/xml')
+
+/** xmllint's messages for a document checked against the bundled schema subset (see fixtures/aecg.xsd) */
+async function validate(xml: string): Promise<string[]> {
+  const result = await validateXML({
+    xml: { fileName: 'document.xml', contents: xml },
+    schema: { fileName: 'aecg.xsd', contents: schemaSource }
+  })
+  return result.errors.map(error => error.message)
+}
+
+describe('HL7 aECG serializer', () => {
+  const annotations = [
+    {
+      id: '1b4e28ba-2fa1-11d2-883f-0016d3cca427',
+      label: 'pvc',
+      start_time: new Date(START + 500).toISOString(),
+      end_time: new Date(START + 700).toISOString(),
+      channel: 2,
+      note: 'Couplet <R-on-T> & fusion'
+    },
+    {
+      id: '1b4e28ba-2fa1-11d2-883f-0016d3cca428',
+      label: 'af',
+      start_time: new Date(START + 60000).toISOString(),
+      end_time: new Date(START + 90000).toISOString(),
+      channel: null,
+      note: null
+    }
+  ]
+
+  it('writes a document that matches the bundled schema subset', async () => {
+    const { xml, seriesCount } = serializeAECG({
+      documentId: DOCUMENT_ID,
+      studyId: 'study-9',
+      podId: 'pod-1',
+      subjectId: 'patient-3',
+      samplingRate: 10,
+      strips: [
+        { start: START, end: START + 2000, channels: [2, 1], samples: makeSamples(20, 10) },
+        { start: START + 60000, end: START + 61000, channels: [3], samples: makeSamples(10, 10, START + 60000) }
+      ],
+      annotations
+    })
+
+    expect(seriesCount).toBe(2)
+    expect(await validate(xml)).toEqual([])
+  })
+
+  it('reports schema violations', async () => {
+    const { xml } = serializeAECG({
+      documentId: DOCUMENT_ID,
+      studyId: 'study-9',
+      podId: 'pod-1',
+      samplingRate: 10,
+      strips: [{ start: START, end: START + 1000, channels: [1], samples: makeSamples(10, 10) }]
+    })
+    expect(await validate(xml.replace('<code code="RHYTHM"', '<code'))).toEqual([
+      "Schemas validity error : Element '{urn:hl7-org:v3}code': The attribute 'code' is required but missing."
+    ])
+    expect((await validate(xml.replace('xsi:type="SLIST_PQ"', '')))[0]).toMatch(/type definition is abstract/)
+    expect((await validate(xml.replace('<digits>0 ', '<digits>x ')))[0]).toMatch(/digits.*not accepted by the pattern/)
+  })
+
+  it('carries metadata, lead sequences and overlapping annotations', () => {
+    const { xml } = serializeAECG({
+      documentId: DOCUMENT_ID,
+      studyId: 'study-9',
+      podId: 'pod-1',
+      subjectId: 'patient-3',
+      samplingRate: 10,
+      strips: [{ start: START, end: START + 2000, channels: [2, 1], samples: makeSamples(30, 10) }],
+      annotations
+    })
+    const doc = parseXml(xml)
+    const byTag = (tag: string) => Array.from(doc.getElementsByTagNameNS(AECG_NAMESPACE, tag))
+
+    const idOf = (tag: string) => {
+      const id = byTag(tag)[0].querySelector('id')!
+      return { root: id.getAttribute('root'), extension: id.getAttribute('extension') }
+    }
+    expect(idOf('trialSubject')).toEqual({ root: AECG_SUBJECT_ID_ROOT, extension: 'patient-3' })
+    expect(idOf('clinicalTrial')).toEqual({ root: AECG_STUDY_ID_ROOT, extension: 'study-9' })
+    expect(idOf('manufacturedSeriesDevice')).toEqual({ root: AECG_POD_ID_ROOT, extension: 'pod-1' })
+
+    const sequenceCodes = byTag('sequence').map(s => s.querySelector('code')!.getAttribute('code'))
+    expect(sequenceCodes).toEqual(['TIME_ABSOLUTE', 'MDC_ECG_LEAD_I', 'MDC_ECG_LEAD_II'])
+    // Samples outside the strip range are dropped
+    const digits = byTag('digits').map(d => d.textContent!.split(' ').map(Number))
+    expect(digits[0]).toEqual(Array.from({ length: 21 }, (_, i) => i * 10))
+    expect(digits[1][1]).toBe(-10)
+    expect(byTag('head')[0].getAttribute('value')).toBe('20260304050607.250+0000')
+    expect(byTag('increment')[0].getAttribute('value')).toBe('0.1')
+
+    // Only the PVC overlaps the strip
+    const annotationCodes = byTag('annotation').map(a => a.querySelector('code')!.getAttribute('code'))
+    expect(annotationCodes).toEqual(['pvc'])
+    expect(byTag('annotation')[0].querySelector('value')!.textContent).toBe('Couplet <R-on-T> & fusion')
+    expect(byTag('boundary').map(b => b.querySelector('code')!.getAttribute('code'))).toEqual(['TIME_ABSOLUTE', 'MDC_ECG_LEAD_II'])
+  })
+
+  it('splits strips with gaps into one series per contiguous run', async () => {
+    const samples = [...makeSamples(10, 10), ...makeSamples(10, 10, START + 1500)]
+    expect(contiguousRuns([...samples, samples[samples.length - 1]], 10).map(r => r.length)).toEqual([10, 10])
+
+    const result = serializeAECG({
+      documentId: DOCUMENT_ID,
+      studyId: 'study-9',
+      podId: 'pod-1',
+      samplingRate: 10,
+      strips: [
+        { start: START, end: START + 3000, channels: [1, 2, 3], samples },
+        { start: START + 100000, end: START + 101000, channels: [1], samples: [] }
+      ]
+    })
+    expect(result.seriesCount).toBe(2)
+    expect(result.splitStrips).toBe(1)
+    expect(result.emptyStrips).toBe(1)
+    expect(await validate(result.xml)).toEqual([])
+  })
+
+  it('formats HL7 timestamps in UTC', () => {
+    expect(formatHL7Time(Date.parse('2026-12-31T23:59:59.005Z'))).toBe('20261231235959.005+0000')
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_ANNOTATION_TAXONOMY,
+  EMPTY_ANNOTATION_FILTER,
+  annotationSpanX,
+  filterAnnotations,
+  findAnnotationLabel,
+  timeToIndex
+} from '@/lib/ecg/annotations'
+import type { CaliperGeometry } from '@/lib/ecg/calipers'
+
+const geometry: CaliperGeometry = { width: 1000, height: 200, scaleX: 1, translateX: 0, yMin: -1, yMax: 1 }
+
+const annotation = (label: string, channel: number | null, note: string | null, author: string | null = null) => ({
+  label,
+  channel,
+  note,
+  author_email: author
+})
+
+describe('ECG annotations', () => {
+  it('ships the reviewer taxonomy and resolves labels that left it', () => {
+    expect(DEFAULT_ANNOTATION_TAXONOMY.map(l => l.id)).toEqual([
+      'artifact', 'pvc', 'pac', 'af', 'pause', 'noise', 'patient_event'
+    ])
+    expect(findAnnotationLabel('pvc').name).toBe('PVC')
+
+    const retired = findAnnotationLabel('bigeminy')
+    expect(retired.name).toBe('bigeminy')
+    expect(retired.color).toBeTruthy()
+  })
+
+  it('places times between samples and clamps outside the trace', () => {
+    const times = [0, 100, 200, 400]
+    expect(timeToIndex(times, 150)).toBeCloseTo(1.5)
+    expect(timeToIndex(times, 300)).toBeCloseTo(2.5)
+    expect(timeToIndex(times, -50)).toBe(0)
+    expect(timeToIndex(times, 1000)).toBe(3)
+    expect(timeToIndex([], 10)).toBe(0)
+  })
+
+  it('maps an annotation onto the plot and skips ranges outside it', () => {
+    const times = Array.from({ length: 100 }, (_, i) => i * 10)
+
+    const span = annotationSpanX(100, 200, times, geometry)
+    expect(span?.x1).toBeCloseTo(100)
+    expect(span?.x2).toBeCloseTo(200)
+
+    const zoomed = annotationSpanX(100, 200, times, { ...geometry, scaleX: 2, translateX: -100 })
+    expect(zoomed?.x1).toBeCloseTo(100)
+    expect(zoomed?.x2).toBeCloseTo(300)
+
+    expect(annotationSpanX(2000, 3000, times, geometry)).toBeNull()
+  })
+
+  it('filters by label, lead and note or author text', () => {
+    const rows = [
+      annotation('pvc', 2, 'Couplet after exercise', 'a@clinic.org'),
+      annotation('artifact', null, 'Patient moving'),
+      annotation('pause', 1, null, 'b@clinic.org')
+    ]
+
+    expect(filterAnnotations(rows, EMPTY_ANNOTATION_FILTER)).toHaveLength(3)
+    expect(filterAnnotations(rows, { ...EMPTY_ANNOTATION_FILTER, labels: ['pvc', 'pause'] })).toHaveLength(2)
+    // All-lead annotations match any lead filter
+    expect(filterAnnotations(rows, { ...EMPTY_ANNOTATION_FILTER, channel: 2 }).map(r => r.label))
+      .toEqual(['pvc', 'artifact'])
+    expect(filterAnnotations(rows, { ...EMPTY_ANNOTATION_FILTER, search: 'COUPLET' })).toHaveLength(1)
+    expect(filterAnnotations(rows, { ...EMPTY_ANNOTATION_FILTER, search: 'b@clinic' })[0].label).toBe('pause')
+  })
+})
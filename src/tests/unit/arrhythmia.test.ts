@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  detectArrhythmias,
+  scanArrhythmias,
+  thresholdsForStudyType,
+  DEFAULT_ARRHYTHMIA_THRESHOLDS
+} from '@/lib/ecg/arrhythmia'
+import type { DetectedBeat } from '@/lib/ecg/beatDetection'
+import { createSyntheticECG } from '@/lib/ecg/synthetic'
+
+const START = Date.parse('2023-01-01T00:00:00Z')
+
+// Build beats from an RR series; null entries become excluded intervals
+function makeBeats(rrSeries: Array<number | null>): DetectedBeat[] {
+  let time = START
+  const beats: DetectedBeat[] = [{ index: 0, time, amplitude: 1, rrMs: null, heartRate: null }]
+  rrSeries.forEach((rr, i) => {
+    time += rr ?? 1000
+    beats.push({ index: i + 1, time, amplitude: 1, rrMs: rr, heartRate: rr ? 60000 / rr : null })
+  })
+  return beats
+}
+
+// Deterministic pseudo-random sequence so the AF test is reproducible
+function lcg(seed: number) {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+describe('arrhythmia', () => {
+  it('reports a pause between two clean beats', () => {
+    const events = detectArrhythmias(makeBeats([800, 800, 3200, 800, 800]), 2)
+
+    expect(events).toHaveLength(1)
+    expect(events[0].type).toBe('pause')
+    expect(events[0].end - events[0].start).toBe(3200)
+    expect(events[0].channel).toBe(2)
+  })
+
+  it('does not report a lead-off gap as a pause', () => {
+    const beats = makeBeats([800, 800, null, 800, 800])
+    // Widen the gap well past the pause threshold
+    beats.slice(3).forEach(b => { b.time += 10000 })
+
+    expect(detectArrhythmias(beats, 2)).toEqual([])
+  })
+
+  it('detects bradycardia and tachycardia runs of the minimum length', () => {
+    const rr = [800, 800, 1400, 1400, 1400, 800, 800, 400, 400, 400, 400, 800]
+    const events = detectArrhythmias(makeBeats(rr), 2)
+
+    expect(events.map(e => e.type)).toEqual(['bradycardia', 'tachycardia'])
+    expect(events[0].beatCount).toBe(4)
+    expect(events[1].maxHeartRate).toBeCloseTo(150, 5)
+  })
+
+  it('flags an irregularly irregular rhythm as AF but not sinus rhythm', () => {
+    const random = lcg(42)
+    const af = Array.from({ length: 120 }, () => 400 + random() * 600)
+    const sinus = Array.from({ length: 120 }, (_, i) => 800 + 20 * Math.sin(i / 4))
+
+    const afEvents = detectArrhythmias(makeBeats(af), 2).filter(e => e.type === 'atrial_fibrillation')
+    expect(afEvents).toHaveLength(1)
+    expect(afEvents[0].end - afEvents[0].start).toBeGreaterThanOrEqual(DEFAULT_ARRHYTHMIA_THRESHOLDS.afMinDurationMs)
+    expect(afEvents[0].confidence).toBeGreaterThan(0.5)
+
+    expect(detectArrhythmias(makeBeats(sinus), 2)).toEqual([])
+  })
+
+  it('applies study-type thresholds', () => {
+    const pediatric = thresholdsForStudyType('Pediatric')
+    expect(pediatric.bradycardiaBpm).toBe(60)
+    expect(thresholdsForStudyType('unknown')).toEqual(DEFAULT_ARRHYTHMIA_THRESHOLDS)
+  })
+
+  it('finds a pause that straddles a chunk boundary, once', async () => {
+    const chunkMs = 60000
+    const ecg = createSyntheticECG({
+      start: START,
+      durationMs: 2 * chunkMs,
+      noiseUv: 5,
+      // From 1.5 s before the boundary to 1.7 s after it
+      arrhythmias: [{ type: 'pause', start: START + chunkMs - 1500, pauseMs: 3200 }]
+    })
+    const fetchSamples = async (from: number, to: number) => ecg.samples(
+      Math.round(((from - START) * ecg.samplingRate) / 1000),
+      Math.round(((to - START) * ecg.samplingRate) / 1000)
+    )
+    const pauses = (events: Awaited<ReturnType<typeof scanArrhythmias>>) => events.filter(e => e.type === 'pause')
+
+    const scanned = pauses(await scanArrhythmias(fetchSamples, START, START + 2 * chunkMs, chunkMs))
+    expect(scanned).toHaveLength(1)
+    expect(scanned[0].start).toBeLessThan(START + chunkMs)
+    expect(scanned[0].end).toBeGreaterThan(START + chunkMs)
+
+    // Without the lead-in the interval across the boundary is never measured
+    expect(pauses(await scanArrhythmias(fetchSamples, START, START + 2 * chunkMs, chunkMs, undefined, 0))).toEqual([])
+  })
+})
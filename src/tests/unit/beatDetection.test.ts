@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { detectBeats, estimateSamplingRate, selectDetectionChannel } from '@/lib/ecg/beatDetection'
+import type { ECGSample } from '@/hooks/api/ecg/useECG'
+
+const FS = 80
+const START = Date.parse('2023-01-01T00:00:00Z')
+
+// Gaussian "QRS" spikes on a flat baseline at a fixed heart rate
+function makeSamples(
+  seconds: number,
+  bpm: number,
+  usable: (i: number, channel: number) => boolean = () => true
+): ECGSample[] {
+  const rrSamples = (60 / bpm) * FS
+  const samples: ECGSample[] = []
+  for (let i = 0; i < seconds * FS; i++) {
+    const phase = (i % rrSamples) - rrSamples / 2
+    const qrs = 100 * Math.exp(-(phase * phase) / 2)
+    const wander = 5 * Math.sin((2 * Math.PI * i) / (FS * 4))
+    const value = qrs + wander
+    samples.push({
+      time: new Date(START + (i * 1000) / FS).toISOString(),
+      channels: [value, value, value],
+      lead_on_p: [usable(i, 1), usable(i, 2), usable(i, 3)],
+      lead_on_n: [true, true, true],
+      quality: [true, true, true]
+    })
+  }
+  return samples
+}
+
+describe('beatDetection', () => {
+  it('estimates the sampling rate from timestamps', () => {
+    expect(estimateSamplingRate(makeSamples(5, 60))).toBeCloseTo(FS, 0)
+  })
+
+  it('detects one beat per cycle and reports heart rate', () => {
+    const result = detectBeats(makeSamples(20, 75))
+
+    expect(result.channel).toBe(2)
+    expect(result.fellBack).toBe(false)
+    // 20s at 75 bpm => 25 beats
+    expect(result.beats.length).toBeGreaterThanOrEqual(24)
+    expect(result.beats.length).toBeLessThanOrEqual(25)
+    expect(result.heartRate).not.toBeNull()
+    expect(result.heartRate!.mean).toBeCloseTo(75, 0)
+  })
+
+  it('falls back to another channel when the preferred one is lead-off', () => {
+    const samples = makeSamples(10, 60, (_i, channel) => channel !== 2)
+    const result = detectBeats(samples)
+
+    expect(result.fellBack).toBe(true)
+    expect(result.channel).not.toBe(2)
+    expect(result.beats.length).toBeGreaterThan(0)
+  })
+
+  it('returns no channel when nothing is usable', () => {
+    const samples = makeSamples(5, 60, () => false)
+    const selection = selectDetectionChannel(samples)
+
+    expect(selection.channel).toBeNull()
+    expect(detectBeats(samples).beats).toHaveLength(0)
+  })
+
+  it('does not report RR intervals across a lead-off gap', () => {
+    const samples = makeSamples(20, 60, (i) => i < 8 * FS || i > 11 * FS)
+    const result = detectBeats(samples, { minUsableFraction: 0.5 })
+
+    const gapBeat = result.beats.find(b => b.index > 11 * FS)
+    expect(gapBeat?.rrMs).toBeNull()
+    expect(result.beats.every(b => b.rrMs === null || b.rrMs < 1500)).toBe(true)
+  })
+})
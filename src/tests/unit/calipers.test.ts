@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  indexToX,
+  xToIndex,
+  measureCaliper,
+  marchOutIndices,
+  formatMeasurement,
+  formatMeasurementsCsv
+} from '@/lib/ecg/calipers'
+import type { Caliper, CaliperGeometry } from '@/lib/ecg/calipers'
+import type { ECGMeasurementRow } from '@/types/domain/ecg'
+
+const geometry: CaliperGeometry = { width: 1000, height: 200, scaleX: 1, translateX: 0, yMin: -1000, yMax: 1000 }
+
+const caliper = (overrides: Partial<Caliper>): Caliper => ({
+  id: 'c1',
+  kind: 'time',
+  label: 'RR',
+  startIndex: 0,
+  endIndex: 0,
+  marchOut: false,
+  ...overrides
+})
+
+describe('ECG calipers', () => {
+  it('snaps a pointer position to the nearest sample and clamps to the trace', () => {
+    // 100 samples over 1000 px: one sample every 10 px
+    expect(xToIndex(44, 100, geometry)).toBe(4)
+    expect(xToIndex(46, 100, geometry)).toBe(5)
+    expect(xToIndex(-50, 100, geometry)).toBe(0)
+    expect(xToIndex(5000, 100, geometry)).toBe(99)
+
+    const zoomed = { ...geometry, scaleX: 2, translateX: -500 }
+    expect(xToIndex(indexToX(37, 100, zoomed), 100, zoomed)).toBe(37)
+  })
+
+  it('measures duration, amplitude and RR rate between sample times', () => {
+    const start = Date.parse('2026-01-01T00:00:00.000Z')
+    const times = Array.from({ length: 10 }, (_, i) => start + i * 100)
+    const values = [0, 100, 200, 300, 400, 500, 600, 700, 800, 900]
+
+    const rr = measureCaliper(caliper({ startIndex: 8, endIndex: 2 }), 2, times, values)
+    expect(rr?.durationMs).toBe(600)
+    expect(rr?.rateBpm).toBe(100)
+    expect(rr?.startTime).toBe('2026-01-01T00:00:00.200Z')
+    expect(rr?.channel).toBe(2)
+
+    const qrs = measureCaliper(caliper({ label: 'QRS', startIndex: 1, endIndex: 2 }), 1, times, values)
+    expect(qrs?.rateBpm).toBeNull()
+
+    const amp = measureCaliper(caliper({ kind: 'amplitude', label: 'amplitude', startIndex: 1, endIndex: 6 }), 1, times, values)
+    expect(amp?.amplitudeMv).toBeCloseTo(0.5)
+    expect(amp?.rateBpm).toBeNull()
+
+    expect(measureCaliper(caliper({ endIndex: 20 }), 1, times, values)).toBeNull()
+  })
+
+  it('marches an interval out across the whole trace', () => {
+    expect(marchOutIndices(5, 8, 20)).toEqual([2, 5, 8, 11, 14, 17])
+    expect(marchOutIndices(4, 4, 20)).toEqual([])
+  })
+
+  it('formats measurements for display and CSV export', () => {
+    expect(formatMeasurement({ kind: 'time', label: 'RR', durationMs: 800, amplitudeMv: 0, rateBpm: 75 }))
+      .toBe('RR 800 ms · 75 bpm')
+    expect(formatMeasurement({ kind: 'amplitude', label: 'amplitude', durationMs: 0, amplitudeMv: 1.234, rateBpm: null }))
+      .toBe('1.23 mV')
+
+    const row: ECGMeasurementRow = {
+      id: 'm1',
+      study_id: 's1',
+      pod_id: 'p1',
+      channel: 2,
+      kind: 'time',
+      label: 'QT',
+      start_time: '2026-01-01T00:00:00.000Z',
+      end_time: '2026-01-01T00:00:00.400Z',
+      duration_ms: 400,
+      amplitude_mv: 0.1,
+      rate_bpm: null,
+      note: 'long, "borderline"',
+      created_by: null,
+      created_at: '2026-01-01T00:00:00.000Z'
+    }
+    const lines = formatMeasurementsCsv([row], { study_id: 's1' }).trim().split('\n')
+    expect(lines[0]).toBe('# study_id,s1')
+    expect(lines[1]).toBe('label,kind,lead,start_time,end_time,duration_ms,amplitude_mv,rate_bpm,note')
+    expect(lines[2]).toBe('QT,time,2,2026-01-01T00:00:00.000Z,2026-01-01T00:00:00.400Z,400.0,0.100,,"long, ""borderline"""')
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import { chooseDownsampleMethod } from '@/lib/ecg/downsampling'
+import {
+  lttbIndices,
+  minMaxIndices,
+  downsampleParallel,
+  rowsToParallel
+} from '../../../supabase/functions/downsample-ecg/methods.ts'
+import type { ParallelECGData } from '../../../supabase/functions/downsample-ecg/methods.ts'
+import { downsampleWindow, SOURCE_PAGE_POINTS } from '../../../supabase/functions/downsample-ecg/window.ts'
+import type { EcgRpc } from '../../../supabase/functions/downsample-ecg/window.ts'
+
+const START = Date.parse('2023-01-01T00:00:00Z')
+
+// 80 Hz trace with one-sample-wide spikes every second, like a QRS at low rate
+function makeSpikyData(seconds: number): ParallelECGData {
+  const n = seconds * 80
+  const range = Array.from({ length: n }, (_, i) => i)
+  const wave = range.map(i => (i % 80 === 43 ? 100 : Math.sin(i / 10)))
+  const flags = range.map(() => true)
+  return {
+    timestamps: range.map(i => new Date(START + i * 12.5).toISOString()),
+    channel_1: wave,
+    channel_2: wave.map(v => v * 2),
+    channel_3: wave.map(v => -v),
+    lead_on_p_1: flags, lead_on_p_2: flags, lead_on_p_3: flags,
+    lead_on_n_1: flags, lead_on_n_2: flags, lead_on_n_3: flags,
+    quality_1: flags, quality_2: flags, quality_3: flags
+  }
+}
+
+describe('downsampling', () => {
+  it('chooses the method from samples per pixel', () => {
+    const window = (minutes: number) => ({
+      time_start: new Date(START).toISOString(),
+      time_end: new Date(START + minutes * 60000).toISOString(),
+      factor: 4,
+      pixelWidth: 1000
+    })
+
+    // 80 Hz: 10 s = 800 pts, 40 s = 3200, 10 min = 48000, 1 h = 288000 for 2000 budget
+    expect(chooseDownsampleMethod(window(10 / 60)).method).toBe('decimate')
+    expect(chooseDownsampleMethod(window(40 / 60)).method).toBe('lttb')
+    expect(chooseDownsampleMethod(window(10)).method).toBe('minmax')
+    expect(chooseDownsampleMethod(window(60)).method).toBe('peak_preserving')
+    expect(chooseDownsampleMethod({ ...window(60), maxPoints: 500 }).max_points).toBe(500)
+  })
+
+  it('keeps every spike with minmax where decimation drops them', () => {
+    const data = makeSpikyData(60)
+    const indices = minMaxIndices(data, 360)
+
+    expect(indices.length).toBeLessThanOrEqual(360)
+    const kept = indices.filter(i => data.channel_1[i] === 100).length
+    expect(kept).toBe(60)
+
+    // Every 8th sample misses the spikes entirely
+    const decimated = data.channel_1.filter((_, i) => i % 8 === 0)
+    expect(decimated.some(v => v === 100)).toBe(false)
+  })
+
+  it('returns exactly the LTTB budget with first and last samples kept', () => {
+    const data = makeSpikyData(30)
+    const indices = lttbIndices(data, 500)
+
+    expect(indices).toHaveLength(500)
+    expect(indices[0]).toBe(0)
+    expect(indices[indices.length - 1]).toBe(data.timestamps.length - 1)
+    expect(indices.every((v, i) => i === 0 || v > indices[i - 1])).toBe(true)
+    expect(indices.filter(i => data.channel_1[i] === 100).length).toBeGreaterThan(25)
+  })
+
+  it('keeps parallel arrays aligned and leaves small payloads alone', () => {
+    const data = makeSpikyData(10)
+    const reduced = downsampleParallel(data, 'lttb', 100)
+
+    expect(reduced.timestamps).toHaveLength(100)
+    expect(reduced.channel_3).toHaveLength(100)
+    expect(reduced.channel_2[10]).toBe(-2 * reduced.channel_3[10])
+    expect(downsampleParallel(data, 'minmax', 5000)).toBe(data)
+
+    const parallel = rowsToParallel([{
+      sample_time: data.timestamps[0],
+      downsampled_channel_1: 1, downsampled_channel_2: 2, downsampled_channel_3: 3,
+      lead_on_p_1: true, lead_on_p_2: true, lead_on_p_3: false,
+      lead_on_n_1: true, lead_on_n_2: true, lead_on_n_3: true,
+      quality_1: true, quality_2: false, quality_3: true
+    }])
+    expect(parallel.channel_3).toEqual([3])
+    expect(parallel.lead_on_p_3).toEqual([false])
+  })
+
+  it('returns more than 1000 peak-preserving points in one call', async () => {
+    const calls: string[] = []
+    // The json wrapper hands back the whole array, whatever max_rows is
+    const rpc: EcgRpc = async (functionName, args) => {
+      calls.push(functionName)
+      const rows = Array.from({ length: args.p_max_pts as number }, (_, i) => ({
+        sample_time: new Date(START + i * 12.5).toISOString(),
+        downsampled_channel_1: i, downsampled_channel_2: i, downsampled_channel_3: i,
+        lead_on_p_1: true, lead_on_p_2: true, lead_on_p_3: true,
+        lead_on_n_1: true, lead_on_n_2: true, lead_on_n_3: true,
+        quality_1: true, quality_2: true, quality_3: true
+      }))
+      return { data: rows, error: null }
+    }
+
+    const result = await downsampleWindow(rpc, {
+      pod_id: 'pod-1',
+      time_start: new Date(START).toISOString(),
+      time_end: new Date(START + 3600000).toISOString(),
+      method: 'peak_preserving',
+      max_points: 5000
+    })
+
+    expect(calls).toEqual(['peak_preserving_downsample_ecg_json'])
+    expect(result.data?.timestamps).toHaveLength(5000)
+  })
+
+  it('pages the minmax source and keeps to the budget', async () => {
+    const pageSizes: number[] = []
+    const rpc: EcgRpc = async (_functionName, args) => {
+      const from = Date.parse(args.p_time_start as string)
+      const to = Date.parse(args.p_time_end as string)
+      const stepMs = (1000 / 320) * (args.p_factor as number)
+      const n = Math.floor((to - from) / stepMs)
+      pageSizes.push(n)
+      const values = Array.from({ length: n }, (_, i) => Math.sin(i / 10))
+      const flags = values.map(() => true)
+      return {
+        data: {
+          timestamps: values.map((_, i) => new Date(from + i * stepMs).toISOString()),
+          channel_1: values, channel_2: values, channel_3: values,
+          lead_on_p_1: flags, lead_on_p_2: flags, lead_on_p_3: flags,
+          lead_on_n_1: flags, lead_on_n_2: flags, lead_on_n_3: flags,
+          quality_1: flags, quality_2: flags, quality_3: flags
+        },
+        error: null
+      }
+    }
+
+    const result = await downsampleWindow(rpc, {
+      pod_id: 'pod-1',
+      time_start: new Date(START).toISOString(),
+      time_end: new Date(START + 2 * 3600000).toISOString(),
+      method: 'minmax',
+      max_points: 4000
+    })
+
+    expect(pageSizes.length).toBeGreaterThan(1)
+    expect(pageSizes.every(n => n <= SOURCE_PAGE_POINTS)).toBe(true)
+    expect(result.data!.timestamps.length).toBeLessThanOrEqual(4000)
+    expect(result.data!.timestamps.length).toBeGreaterThan(1000)
+    expect(result.data!.channel_1).toHaveLength(result.data!.timestamps.length)
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decodeECGBinary,
+  encodeECGBinary,
+  ECGBinaryFormatError,
+  ECG_BINARY_VERSION
+} from '@/lib/ecg/dataSource/binary'
+import {
+  createSampleBuffer,
+  hasQuality,
+  isLeadOn,
+  sampleBufferFromSamples,
+  sampleBufferToSamples,
+  withChannelValues,
+  ALL_SAMPLE_FLAGS
+} from '@/lib/ecg/sampleBuffer'
+import { createSyntheticECG, toDownsampleResponse } from '@/lib/ecg/synthetic'
+
+const START = Date.parse('2026-05-01T00:00:00Z')
+
+// Ten seconds at 80 Hz with lead I off for a second and a noisy stretch
+const ecg = createSyntheticECG({
+  start: START,
+  durationMs: 10000,
+  leadOff: [{ start: START + 2000, end: START + 3000, channels: [1] }],
+  dropouts: [{ start: START + 6000, end: START + 7000 }]
+})
+const samples = ecg.samples(0, ecg.sampleCount, 4)
+
+describe('sample buffer', () => {
+  it('round-trips samples through columns', () => {
+    const buffer = sampleBufferFromSamples(samples)
+
+    expect(buffer.length).toBe(800)
+    expect(buffer.times[2] - buffer.times[0]).toBe(25)
+    expect(sampleBufferToSamples(buffer)).toEqual(samples)
+    // Converted once per buffer
+    expect(sampleBufferToSamples(buffer)).toBe(sampleBufferToSamples(buffer))
+
+    const off = 2500 / 12.5
+    expect(isLeadOn(buffer, off, 1)).toBe(false)
+    expect(isLeadOn(buffer, off, 2)).toBe(true)
+    expect(hasQuality(buffer, 6500 / 12.5, 3)).toBe(false)
+    expect(buffer.flags[0]).toBe(ALL_SAMPLE_FLAGS)
+  })
+
+  it('replaces one channel and shares the rest', () => {
+    const buffer = sampleBufferFromSamples(samples)
+    const filtered = withChannelValues(buffer, 2, new Float32Array(buffer.length))
+
+    expect(filtered.channels[1][100]).toBe(0)
+    expect(filtered.channels[0]).toBe(buffer.channels[0])
+    expect(filtered.times).toBe(buffer.times)
+  })
+})
+
+describe('ECG binary wire format', () => {
+  it('encodes evenly spaced integer samples compactly', () => {
+    const buffer = sampleBufferFromSamples(samples)
+    const payload = encodeECGBinary(buffer)
+
+    // Header, three Int16 channels and nine flag planes; no per-sample times
+    expect(payload.byteLength).toBe(32 + 3 * 800 * 2 + 9 * 100)
+    expect(new Uint8Array(payload)[4]).toBe(ECG_BINARY_VERSION)
+    // Millisecond-rounded times go back on the exact grid
+    const decoded = decodeECGBinary(payload)
+    const original = sampleBufferFromSamples(samples)
+    expect(decoded.times[3] - decoded.times[0]).toBeCloseTo(37.5, 3)
+    decoded.times.forEach((t, i) => expect(Math.abs(t - original.times[i])).toBeLessThan(1))
+    decoded.channels.forEach((values, c) => expect(values.every((v, i) => v === original.channels[c][i])).toBe(true))
+    expect(decoded.flags).toEqual(original.flags)
+
+    // Far smaller than the JSON it replaces
+    expect(payload.byteLength * 10).toBeLessThan(JSON.stringify(toDownsampleResponse(samples)).length)
+  })
+
+  it('carries per-sample times and Float32 values when needed', () => {
+    const buffer = createSampleBuffer(5)
+    buffer.times.set([START, START + 3, START + 10, START + 11.5, START + 40])
+    buffer.channels[0].set([0.5, -1.25, 2, 40000, 0])
+    buffer.flags.set([ALL_SAMPLE_FLAGS, 0, 1, 2, 4])
+
+    const payload = encodeECGBinary(buffer)
+    expect(payload.byteLength).toBe(32 + 5 * 8 + 3 * 5 * 4 + 9)
+
+    const decoded = decodeECGBinary(payload)
+    expect(Array.from(decoded.times)).toEqual(Array.from(buffer.times))
+    expect(Array.from(decoded.channels[0])).toEqual([0.5, -1.25, 2, 40000, 0])
+    expect(Array.from(decoded.flags)).toEqual([ALL_SAMPLE_FLAGS, 0, 1, 2, 4])
+  })
+
+  it('handles an empty window', () => {
+    const decoded = decodeECGBinary(encodeECGBinary(createSampleBuffer(0)))
+    expect(decoded.length).toBe(0)
+  })
+
+  it('rejects payloads that are not ECG binary or are cut short', () => {
+    expect(() => decodeECGBinary(new TextEncoder().encode('{"timestamps":[]} and then some').buffer as ArrayBuffer))
+      .toThrow(ECGBinaryFormatError)
+
+    const payload = encodeECGBinary(sampleBufferFromSamples(samples))
+    expect(() => decodeECGBinary(payload.slice(0, payload.byteLength - 1))).toThrow(/truncated/)
+
+    const future = payload.slice(0)
+    new Uint8Array(future)[4] = 99
+    expect(() => decodeECGBinary(future)).toThrow(/version 99/)
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { createSyntheticDataSource } from '@/lib/ecg/dataSource/synthetic'
+import { createMemoryDataSource } from '@/lib/ecg/dataSource/memory'
+import { addLocalRecording, listLocalRecordings, removeLocalRecording } from '@/lib/ecg/localRecordings'
+import { detectBeats } from '@/lib/ecg/beatDetection'
+import type { ISHNERecording } from '@/lib/ecg/formats/ishne'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const START = new Date('2026-05-01T00:00:00Z')
+
+const iso = (ms: number) => new Date(ms).toISOString()
+
+describe('synthetic data source', () => {
+  // Clean sinus rhythm so the waveform checks are exact
+  const source = createSyntheticDataSource({
+    start: START, durationMs: 2 * DAY_MS, heartRate: 75, hrvMs: 0, noiseUv: 0, baselineWanderUv: 0, demo: false
+  })
+
+  it('returns the same samples for a window on every read', async () => {
+    const request = { pod_id: 'any-pod', time_start: iso(START.getTime() + 1000), time_end: iso(START.getTime() + 3000), factor: 4 }
+    const first = await source.getRange(request)
+    const second = await source.getRange(request)
+    const otherPod = await source.getRange({ ...request, pod_id: 'another-pod' })
+
+    // 2 s at 320 Hz / 4
+    expect(first).toHaveLength(160)
+    expect(second).toEqual(first)
+    expect(otherPod).not.toEqual(first)
+    expect(Date.parse(first[159].time) - Date.parse(first[0].time)).toBeCloseTo(159 * 12.5, -1)
+  })
+
+  it('derives lead III from leads I and II', async () => {
+    const samples = await source.getRange({ pod_id: 'p', time_start: iso(START.getTime()), time_end: iso(START.getTime() + 2000), factor: 1 })
+    samples.forEach(s => expect(s.channels[2]).toBe(s.channels[1] - s.channels[0]))
+    expect(Math.max(...samples.map(s => s.channels[1]))).toBeGreaterThan(900)
+  })
+
+  it('beats at the configured heart rate', async () => {
+    const samples = await source.getRange({ pod_id: 'p', time_start: iso(START.getTime()), time_end: iso(START.getTime() + 20000), factor: 1 })
+    const { beats } = detectBeats(samples)
+    const rr = (beats[beats.length - 1].time - beats[1].time) / (beats.length - 2)
+    expect(rr).toBeCloseTo(800, -1)
+  })
+
+  it('clips windows to the recording and honours max_points', async () => {
+    const beforeStart = await source.getRange({ pod_id: 'p', time_start: iso(START.getTime() - 5000), time_end: iso(START.getTime() - 1000) })
+    expect(beforeStart).toEqual([])
+
+    const capped = await source.getRange({ pod_id: 'p', time_start: iso(START.getTime()), time_end: iso(START.getTime() + 60000), factor: 1, max_points: 500 })
+    expect(capped.length).toBeLessThanOrEqual(500)
+  })
+
+  it('reports days, bounds and clean diagnostics', async () => {
+    expect((await source.getDays('p')).map(d => d.toISOString().slice(0, 10))).toEqual(['2026-05-01', '2026-05-02'])
+    expect(await source.getEarliestLatest('p')).toEqual({ earliest_time: START, latest_time: new Date(START.getTime() + 2 * DAY_MS) })
+
+    const metrics = await source.getDiagnostics({ pod_id: 'p', time_start: iso(START.getTime()), time_end: iso(START.getTime() + 10000) })
+    expect(metrics.connection_stats.total_samples).toBe(3200)
+    expect(metrics.signal_quality.quality_scores.channel_2).toBe(100)
+  })
+
+  it('reports the demo scenario lead-off and noisy stretches in diagnostics', async () => {
+    const demo = createSyntheticDataSource({ start: START, durationMs: DAY_MS })
+    const minute = 60 * 1000
+    // Lead I is off from 200 to 203 minutes; everything is noisy from 240 to 245
+    const leadOff = await demo.getDiagnostics({ pod_id: 'p', time_start: iso(START.getTime() + 200 * minute), time_end: iso(START.getTime() + 203 * minute) })
+    expect(leadOff.signal_quality.quality_scores.channel_1).toBe(0)
+    expect(leadOff.signal_quality.quality_scores.channel_2).toBe(100)
+
+    const noisy = await demo.getDiagnostics({ pod_id: 'p', time_start: iso(START.getTime() + 240 * minute), time_end: iso(START.getTime() + 245 * minute) })
+    expect(noisy.signal_quality.noise_levels.channel_3).toBe(100)
+    expect(noisy.signal_quality.quality_scores.channel_3).toBe(0)
+  })
+
+  it('aggregates lead-on and quality per bucket, aligned like time_bucket', async () => {
+    const clean = await source.getAggregates({
+      pod_id: 'p', time_start: iso(START.getTime() + 30 * 60 * 1000), time_end: iso(START.getTime() + 3 * 60 * 60 * 1000), bucket_seconds: 3600
+    })
+    expect(clean.map(row => row.time_bucket)).toEqual([iso(START.getTime()), iso(START.getTime() + 3600000), iso(START.getTime() + 7200000)])
+    expect(clean.every(row => row.quality_1_percent === 100 && row.lead_on_p_3 === 100)).toBe(true)
+
+    const demo = createSyntheticDataSource({ start: START, durationMs: DAY_MS })
+    const minute = 60 * 1000
+    const [leadOff] = await demo.getAggregates({
+      pod_id: 'p', time_start: iso(START.getTime() + 201 * minute), time_end: iso(START.getTime() + 202 * minute), bucket_seconds: 60
+    })
+    expect(leadOff.lead_on_p_1).toBe(0)
+    expect(leadOff.lead_on_p_2).toBe(100)
+  })
+})
+
+describe('memory data source', () => {
+  afterEach(() => listLocalRecordings().forEach(r => removeLocalRecording(r.id)))
+
+  // One lead of a ramp at 100 Hz, 30 hours
+  function recording(): ISHNERecording {
+    const sampleCount = 30 * 60 * 60 * 100
+    return {
+      header: {
+        fileVersion: 1, subjectId: '', sex: 'Unknown', recorder: '', startTime: null,
+        samplingRate: 100, sampleCount, pacemaker: 0, variableBlock: ''
+      },
+      leads: [{ spec: 5, name: 'I', quality: 0, resolutionNv: 1000 }],
+      data: [Int16Array.from({ length: sampleCount }, (_, i) => i % 1000)],
+      channelLeads: [0, null, null],
+      crcValid: true
+    }
+  }
+
+  it('serves local recordings by id', async () => {
+    const source = createMemoryDataSource()
+    const start = START.getTime() + 20 * 60 * 60 * 1000
+    const local = addLocalRecording('ramp.ecg', recording(), start)
+
+    expect(source.persistent).toBe(false)
+    // 20:00 on the 1st to 02:00 on the 3rd
+    expect((await source.getDays(local.id)).map(d => d.toISOString().slice(0, 10))).toEqual(['2026-05-01', '2026-05-02', '2026-05-03'])
+    expect(await source.getEarliestLatest(local.id)).toEqual({
+      earliest_time: new Date(start),
+      latest_time: new Date(start + 30 * 60 * 60 * 1000)
+    })
+
+    const samples = await source.getRange({ pod_id: local.id, time_start: iso(start), time_end: iso(start + 1000), factor: 3.2 })
+    expect(samples.map(s => s.channels[0]).slice(0, 3)).toEqual([0, 1, 2])
+
+    const metrics = await source.getDiagnostics({ pod_id: local.id, time_start: iso(start), time_end: iso(start + 1000) })
+    expect(metrics.connection_stats.total_samples).toBe(100)
+  })
+
+  it('aggregates a local recording without a database', async () => {
+    const source = createMemoryDataSource()
+    const start = START.getTime() + 20 * 60 * 60 * 1000
+    const local = addLocalRecording('ramp.ecg', recording(), start)
+    const rows = await source.getAggregates({ pod_id: local.id, time_start: iso(start), time_end: iso(start + 24 * 60 * 60 * 1000), bucket_seconds: 3600 })
+    expect(rows).toHaveLength(24)
+    expect(rows[0].time_bucket).toBe(iso(start))
+  })
+
+  it('has no days or bounds for an unknown recording', async () => {
+    const source = createMemoryDataSource()
+    expect(await source.getDays('local:missing')).toEqual([])
+    expect(await source.getEarliestLatest('local:missing')).toEqual({ earliest_time: null, latest_time: null })
+  })
+})
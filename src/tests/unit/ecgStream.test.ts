@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  chunkMaxPoints,
+  chunkWindows,
+  MAX_CHUNK_SECONDS,
+  readBinaryFrames,
+  readNDJSON,
+  STREAM_ERROR_INDEX,
+  streamChunkSeconds,
+  streamWindows
+} from '@/lib/ecg/dataSource/stream'
+import { decodeECGBinary, encodeECGBinary } from '@/lib/ecg/dataSource/binary'
+import { createSupabaseDataSource } from '@/lib/ecg/dataSource/supabase'
+import { createSyntheticDataSource } from '@/lib/ecg/dataSource/synthetic'
+import type { EcgStreamChunk } from '@/lib/ecg/dataSource/types'
+import { concatSampleBuffers, sampleBufferFromSamples } from '@/lib/ecg/sampleBuffer'
+import { createSyntheticECG } from '@/lib/ecg/synthetic'
+
+vi.mock('@/types/supabase', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: { access_token: 'token' } } }) } }
+}))
+
+const START = Date.parse('2026-05-01T00:00:00Z')
+const iso = (offsetMs: number) => new Date(START + offsetMs).toISOString()
+
+// A body delivered in pieces of `size` bytes, whatever the frame boundaries
+function bodyOf(bytes: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (let at = 0; at < bytes.length; at += size) controller.enqueue(bytes.slice(at, at + size))
+      controller.close()
+    }
+  })
+}
+
+function frame(index: number, payload: ArrayBuffer): Uint8Array {
+  const out = new Uint8Array(8 + payload.byteLength)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, index, true)
+  view.setUint32(4, payload.byteLength, true)
+  out.set(new Uint8Array(payload), 8)
+  return out
+}
+
+function join(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let at = 0
+  for (const part of parts) {
+    out.set(part, at)
+    at += part.length
+  }
+  return out
+}
+
+async function collect<T>(values: AsyncGenerator<T>): Promise<T[]> {
+  const out: T[] = []
+  for await (const value of values) out.push(value)
+  return out
+}
+
+describe('chunk windows', () => {
+  it('splits a window into consecutive chunks with a short last one', () => {
+    expect(chunkWindows(iso(0), iso(150000), 60)).toEqual([
+      { time_start: iso(0), time_end: iso(60000) },
+      { time_start: iso(60000), time_end: iso(120000) },
+      { time_start: iso(120000), time_end: iso(150000) }
+    ])
+  })
+
+  it('aims for a handful of chunks and keeps short windows whole', () => {
+    expect(streamChunkSeconds(iso(0), iso(20000))).toBe(30)
+    expect(chunkWindows(iso(0), iso(20000), streamChunkSeconds(iso(0), iso(20000)))).toHaveLength(1)
+    expect(chunkWindows(iso(0), iso(3600000), streamChunkSeconds(iso(0), iso(3600000)))).toHaveLength(8)
+  })
+
+  it('caps chunks at an hour so a day arrives in 24 of them', () => {
+    const day = 24 * 3600000
+    expect(streamChunkSeconds(iso(0), iso(day))).toBe(MAX_CHUNK_SECONDS)
+    expect(chunkWindows(iso(0), iso(day), streamChunkSeconds(iso(0), iso(day)))).toHaveLength(24)
+  })
+
+  it('shares the point budget out by span', () => {
+    const request = { pod_id: 'p', time_start: iso(0), time_end: iso(150000), max_points: 1000 }
+    const [first, , last] = chunkWindows(request.time_start, request.time_end, 60)
+    expect(chunkMaxPoints(request, first)).toBe(400)
+    expect(chunkMaxPoints(request, last)).toBe(200)
+    expect(chunkMaxPoints({ ...request, max_points: undefined }, first)).toBeUndefined()
+  })
+})
+
+describe('stream readers', () => {
+  const ecg = createSyntheticECG({ start: START, durationMs: 4000 })
+  const parts = [0, 1, 2, 3].map(second => sampleBufferFromSamples(ecg.samples(second * 320, (second + 1) * 320, 4)))
+
+  it('reads binary frames split at any byte', async () => {
+    const bytes = join(parts.map((part, index) => frame(index, encodeECGBinary(part))))
+    for (const size of [1, 7, 64, bytes.length]) {
+      const frames = await collect(readBinaryFrames(bodyOf(bytes, size)))
+      expect(frames.map(f => f.index)).toEqual([0, 1, 2, 3])
+      expect(decodeECGBinary(frames[2].payload).length).toBe(80)
+    }
+  })
+
+  it('throws an in-band error after the chunks before it', async () => {
+    const error = new TextEncoder().encode(JSON.stringify({ error: 'RPC timed out' }))
+    const bytes = join([frame(0, encodeECGBinary(parts[0])), frame(STREAM_ERROR_INDEX, error.buffer as ArrayBuffer)])
+    const seen: number[] = []
+    await expect(async () => {
+      for await (const f of readBinaryFrames(bodyOf(bytes, 16))) seen.push(f.index)
+    }).rejects.toThrow('RPC timed out')
+    expect(seen).toEqual([0])
+
+    await expect(collect(readBinaryFrames(bodyOf(bytes.slice(0, 20), 8)))).rejects.toThrow(/inside a frame/)
+  })
+
+  it('reads NDJSON lines split mid-line', async () => {
+    const text = '{"index":0,"total":2}\n\n{"index":1,"total":2}\n{"error":"gone"}'
+    const bytes = new TextEncoder().encode(text)
+    const seen: unknown[] = []
+    await expect(async () => {
+      for await (const line of readNDJSON(bodyOf(bytes, 5))) seen.push(line)
+    }).rejects.toThrow('gone')
+    expect(seen).toEqual([{ index: 0, total: 2 }, { index: 1, total: 2 }])
+  })
+})
+
+describe('streamWindows', () => {
+  const source = createSyntheticDataSource({ start: new Date(START), durationMs: 10 * 60 * 1000, demo: false })
+  const request = { pod_id: 'pod-1', time_start: iso(0), time_end: iso(150000), factor: 4 }
+
+  it('delivers the window chunk by chunk, matching a single read', async () => {
+    const chunks: EcgStreamChunk[] = []
+    await source.streamRange({ ...request, chunk_seconds: 60 }, chunk => chunks.push(chunk))
+
+    expect(chunks.map(c => `${c.index}/${c.total}`)).toEqual(['0/3', '1/3', '2/3'])
+    expect(chunks[1].chunk_start).toBe(iso(60000))
+    const whole = await source.getRangeBuffer(request)
+    const streamed = concatSampleBuffers(chunks.map(c => c.buffer))
+    expect(streamed.length).toBe(whole.length)
+    expect(Array.from(streamed.times)).toEqual(Array.from(whole.times))
+  })
+
+  it('stops between chunks when aborted', async () => {
+    const controller = new AbortController()
+    const seen: number[] = []
+    await expect(streamWindows(
+      source.getRangeBuffer,
+      { ...request, chunk_seconds: 30 },
+      chunk => {
+        seen.push(chunk.index)
+        if (chunk.index === 1) controller.abort()
+      },
+      controller.signal
+    )).rejects.toThrow(/cancelled/)
+    expect(seen).toEqual([0, 1])
+  })
+})
+
+describe('supabase streamRange', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const parallel = {
+    timestamps: [iso(0)],
+    channel_1: [1], channel_2: [2], channel_3: [3],
+    lead_on_p_1: [true], lead_on_p_2: [true], lead_on_p_3: [true],
+    lead_on_n_1: [true], lead_on_n_2: [true], lead_on_n_3: [true],
+    quality_1: [true], quality_2: [true], quality_3: [true]
+  }
+
+  function respondWith(lines: object[]) {
+    const body = new TextEncoder().encode(lines.map(line => JSON.stringify(line)).join('\n'))
+    vi.stubGlobal('fetch', async () => new Response(bodyOf(body, 64), {
+      status: 200,
+      headers: { 'Content-Type': 'application/x-ndjson' }
+    }))
+  }
+
+  const request = { pod_id: 'pod-1', time_start: iso(0), time_end: iso(120000), chunk_seconds: 60 }
+
+  it('fails when the stream ends before every chunk arrived', async () => {
+    respondWith([{ index: 0, total: 2, data: parallel }])
+    const seen: number[] = []
+
+    await expect(createSupabaseDataSource().streamRange(request, chunk => seen.push(chunk.index)))
+      .rejects.toThrow('ECG stream ended after 1 of 2 chunks')
+    expect(seen).toEqual([0])
+  })
+
+  it('resolves once every chunk arrived', async () => {
+    respondWith([{ index: 0, total: 2, data: parallel }, { index: 1, total: 2, data: parallel }])
+    const seen: number[] = []
+
+    await createSupabaseDataSource().streamRange(request, chunk => seen.push(chunk.index))
+    expect(seen).toEqual([0, 1])
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import { createEDFWriter, formatEDFSeconds, formatTAL } from '@/lib/ecg/formats/edf'
+import type { ECGSample } from '@/hooks/api/ecg/useECG'
+
+const START = Date.parse('2026-03-04T05:06:07.250Z')
+
+function makeSamples(count: number, rate: number, startMs = START, value = (i: number) => i): ECGSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    time: new Date(startMs + (i * 1000) / rate).toISOString(),
+    channels: [value(i), -value(i), 0] as [number, number, number],
+    lead_on_p: [true, true, true] as [boolean, boolean, boolean],
+    lead_on_n: [true, true, true] as [boolean, boolean, boolean],
+    quality: [true, true, true] as [boolean, boolean, boolean]
+  }))
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  parts.forEach(p => {
+    out.set(p, offset)
+    offset += p.length
+  })
+  return out
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length)).trim()
+
+// Field offsets of the fixed 256-byte header
+function readHeader(bytes: Uint8Array) {
+  const ns = Number(ascii(bytes, 252, 4))
+  const signalField = (offset: number, width: number, i: number) => ascii(bytes, 256 + offset * ns + i * width, width)
+  return {
+    patient: ascii(bytes, 8, 80),
+    recording: ascii(bytes, 88, 80),
+    startDate: ascii(bytes, 168, 8),
+    startTime: ascii(bytes, 176, 8),
+    headerBytes: Number(ascii(bytes, 184, 8)),
+    reserved: ascii(bytes, 192, 44),
+    records: Number(ascii(bytes, 236, 8)),
+    duration: ascii(bytes, 244, 8),
+    ns,
+    label: (i: number) => signalField(0, 16, i),
+    physMin: (i: number) => Number(signalField(16 + 80 + 8, 8, i)),
+    physMax: (i: number) => Number(signalField(16 + 80 + 8 + 8, 8, i)),
+    digMin: (i: number) => Number(signalField(16 + 80 + 8 + 16, 8, i)),
+    digMax: (i: number) => Number(signalField(16 + 80 + 8 + 24, 8, i)),
+    samples: (i: number) => Number(signalField(16 + 80 + 8 + 32 + 80, 8, i))
+  }
+}
+
+describe('EDF+ writer', () => {
+  it('writes a header with ids, start time and signal ranges', () => {
+    const writer = createEDFWriter({ podId: 'pod-1', studyId: 'study-9', samplingRate: 10 })
+    writer.addSamples(makeSamples(25, 10))
+    const result = writer.finish()
+    const bytes = concat(result.parts)
+    const h = readHeader(bytes)
+
+    expect(h.patient).toBe('study-9 X X X')
+    expect(h.recording).toBe('Startdate 04-MAR-2026 X X pod-1')
+    expect(h.startDate).toBe('04.03.26')
+    expect(h.startTime).toBe('05.06.07')
+    expect(h.headerBytes).toBe(256 * 5)
+    expect(h.reserved).toBe('EDF+C')
+    expect(h.duration).toBe('1')
+    expect(h.ns).toBe(4)
+    expect([0, 1, 2, 3].map(h.label)).toEqual(['ECG I', 'ECG II', 'ECG III', 'EDF Annotations'])
+    expect(h.physMin(0)).toBe(-10000)
+    expect(h.physMax(0)).toBe(10000)
+    expect(h.digMin(0)).toBe(-32768)
+    expect(h.digMax(0)).toBe(32767)
+    expect(h.samples(0)).toBe(10)
+
+    // 25 samples at 10 Hz fill three one-second records
+    expect(h.records).toBe(3)
+    const recordBytes = (3 * 10 + h.samples(3)) * 2
+    expect(bytes.length).toBe(h.headerBytes + h.records * recordBytes)
+  })
+
+  it('maps physical values onto the digital range and keeps the sub-second start', () => {
+    const writer = createEDFWriter({ podId: 'p', samplingRate: 4, physicalMin: -1000, physicalMax: 1000 })
+    writer.addSamples(makeSamples(4, 4, START, i => i * 500 - 1000))
+    const bytes = concat(writer.finish().parts)
+    const h = readHeader(bytes)
+    const view = new DataView(bytes.buffer, h.headerBytes)
+
+    const lead1 = [0, 1, 2, 3].map(i => view.getInt16(i * 2, true))
+    const physical = lead1.map(d => ((d + 32768) / 65535) * 2000 - 1000)
+    physical.forEach((p, i) => expect(p).toBeCloseTo(i * 500 - 1000, 0))
+
+    // First record's timekeeping TAL holds the .25 s after the header start
+    const annotations = new TextDecoder().decode(bytes.subarray(h.headerBytes + 3 * 4 * 2, h.headerBytes + (3 * 4 + h.samples(3)) * 2))
+    expect(annotations.startsWith('+0.25\x14\x14\x00')).toBe(true)
+  })
+
+  it('annotates lead-off and quality runs and counts clipped samples', () => {
+    const samples = makeSamples(20, 10)
+    for (let i = 5; i < 8; i++) samples[i].lead_on_n[1] = false
+    for (let i = 12; i < 14; i++) samples[i].quality[2] = false
+    samples[3].channels[0] = 50000
+
+    const writer = createEDFWriter({ podId: 'p', samplingRate: 10 })
+    writer.addSamples(samples.slice(0, 10))
+    writer.addSamples(samples.slice(10))
+    const result = writer.finish()
+    const text = new TextDecoder().decode(concat(result.parts))
+
+    expect(result.clippedSamples).toBe(1)
+    expect(text).toContain('+0.75\x150.3\x14Lead II off\x14\x00')
+    expect(text).toContain('+1.45\x150.2\x14Lead III poor quality\x14\x00')
+  })
+
+  it('fills short gaps, and starts a discontinuous record after long ones', () => {
+    const first = makeSamples(10, 10)
+    const afterShortGap = makeSamples(10, 10, START + 1500)
+    const afterLongGap = makeSamples(10, 10, START + 60000)
+
+    const writer = createEDFWriter({ podId: 'p', samplingRate: 10 })
+    writer.addSamples([...first, ...afterShortGap, ...afterLongGap])
+    // Overlapping chunk boundaries repeat the last sample
+    writer.addSamples(afterLongGap.slice(-1))
+    const result = writer.finish()
+    const bytes = concat(result.parts)
+    const text = new TextDecoder().decode(bytes)
+
+    expect(result.discontinuous).toBe(true)
+    expect(readHeader(bytes).reserved).toBe('EDF+D')
+    expect(text).toContain('+1.25\x150.5\x14No data\x14\x00')
+    expect(text).toContain('+60.25\x14\x14\x00')
+  })
+
+  it('formats seconds and TALs', () => {
+    expect(formatEDFSeconds(1500)).toBe('1.5')
+    expect(formatEDFSeconds(2000)).toBe('2')
+    expect(formatTAL('3', null, 'a\x14b')).toBe('+3\x14a b\x14\x00')
+  })
+})
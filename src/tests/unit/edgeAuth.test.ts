@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import {
+  AuthError,
+  authorizePodRequest,
+  canAccessPodRange,
+  supabaseAccessStore,
+  verifyJwt
+} from '../../../supabase/functions/_shared/auth.ts'
+import type { AccessQueryClient, AccessStore } from '../../../supabase/functions/_shared/auth.ts'
+import { createLocalJwtIssuer } from '../fixtures/jwtIssuer'
+import type { LocalJwtIssuer } from '../fixtures/jwtIssuer'
+
+const NOW = Date.parse('2026-05-10T12:00:00Z')
+
+// One pod worn in two studies for two clinics, and a study at a third
+const tables: Record<string, Record<string, unknown>[]> = {
+  clinic_memberships: [
+    { user_id: 'alice', clinic_id: 'clinic-a' },
+    { user_id: 'bob', clinic_id: 'clinic-b' }
+  ],
+  study_access_grants: [
+    { user_id: 'carol', study_id: 'study-a1', expires_at: null },
+    { user_id: 'dave', study_id: 'study-a1', expires_at: '2026-05-01T00:00:00Z' }
+  ],
+  study: [
+    { study_id: 'study-a1', pod_id: 'pod-1', clinic_id: 'clinic-a', start_timestamp: '2026-05-01T00:00:00Z', end_timestamp: '2026-05-08T00:00:00Z' },
+    { study_id: 'study-b1', pod_id: 'pod-1', clinic_id: 'clinic-b', start_timestamp: '2026-05-08T00:00:00Z', end_timestamp: null },
+    { study_id: 'study-c1', pod_id: 'pod-2', clinic_id: 'clinic-c', start_timestamp: '2026-05-01T00:00:00Z', end_timestamp: null }
+  ]
+}
+
+// Enough of the supabase-js query builder for the store
+const client: AccessQueryClient = {
+  from: table => ({
+    select: () => ({
+      eq: async (column, value) => ({ data: (tables[table] ?? []).filter(row => row[column] === value), error: null })
+    })
+  })
+}
+const store: AccessStore = supabaseAccessStore(client, () => NOW)
+
+const inStudyA = { pod_id: 'pod-1', time_start: '2026-05-02T00:00:00Z', time_end: '2026-05-02T01:00:00Z' }
+const inStudyB = { pod_id: 'pod-1', time_start: '2026-05-09T00:00:00Z', time_end: '2026-05-09T01:00:00Z' }
+const acrossBoth = { pod_id: 'pod-1', time_start: '2026-05-07T23:30:00Z', time_end: '2026-05-08T00:30:00Z' }
+
+function request(token?: string): Request {
+  return new Request('http://localhost/functions/v1/downsample-ecg', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  })
+}
+
+async function rejection(promise: Promise<unknown>): Promise<AuthError> {
+  try {
+    await promise
+  } catch (err) {
+    if (err instanceof AuthError) return err
+    throw err
+  }
+  throw new Error('Expected an AuthError')
+}
+
+let issuer: LocalJwtIssuer
+
+beforeAll(async () => {
+  issuer = await createLocalJwtIssuer({ now: () => NOW })
+})
+
+describe('JWT verification', () => {
+  it('accepts tokens signed with the secret or a published key', async () => {
+    const es256 = await verifyJwt(await issuer.sign({ sub: 'alice' }), issuer.config)
+    const hs256 = await verifyJwt(await issuer.sign({ sub: 'alice' }, { alg: 'HS256' }), issuer.config)
+
+    expect(es256.sub).toBe('alice')
+    expect(hs256.sub).toBe('alice')
+  })
+
+  it('rejects forged, expired and foreign tokens', async () => {
+    const token = await issuer.sign({ sub: 'alice' })
+    const [header, , signature] = token.split('.')
+    const forgedPayload = btoa(JSON.stringify({ sub: 'admin', aud: 'authenticated', app_metadata: { role: 'admin' } }))
+      .replace(/=+$/, '')
+    expect((await rejection(verifyJwt(`${header}.${forgedPayload}.${signature}`, issuer.config))).message).toMatch(/signature/)
+
+    const expired = await issuer.sign({ sub: 'alice' }, { expiresIn: -3600 })
+    expect((await rejection(verifyJwt(expired, issuer.config))).message).toMatch(/expired/)
+
+    const other = await createLocalJwtIssuer({ now: () => NOW })
+    expect((await rejection(verifyJwt(await other.sign({ sub: 'alice' }, { alg: 'HS256' }), issuer.config))).status).toBe(401)
+    expect((await rejection(verifyJwt(await issuer.sign({ sub: 'alice' }, { kid: 'rotated-away' }), issuer.config))).message)
+      .toMatch(/key is unknown/)
+
+    const unsigned = `${btoa(JSON.stringify({ alg: 'none' })).replace(/=+$/, '')}.${token.split('.')[1]}.`
+    expect((await rejection(verifyJwt(unsigned, issuer.config))).message).toMatch(/not accepted/)
+
+    const wrongAudience = await issuer.sign({ sub: 'alice', aud: 'other-app' })
+    expect((await rejection(verifyJwt(wrongAudience, issuer.config))).message).toMatch(/audience/)
+  })
+
+  it('rejects tokens without an expiry', async () => {
+    const token = await issuer.sign({ sub: 'alice', exp: undefined })
+    const error = await rejection(verifyJwt(token, issuer.config))
+    expect(error.message).toMatch(/no expiry/)
+    expect(error.status).toBe(401)
+  })
+
+  it('answers 401 when WebCrypto refuses the published key', async () => {
+    const jwksUrl = 'http://auth.local/broken/auth/v1/.well-known/jwks.json'
+    const config = {
+      ...issuer.config,
+      jwksUrl,
+      fetch: (async () => new Response(JSON.stringify({
+        keys: [{ kty: 'EC', crv: 'P-256', x: 'AA', y: 'AA', kid: 'broken' }]
+      }))) as typeof fetch
+    }
+    const error = await rejection(verifyJwt(await issuer.sign({ sub: 'alice' }, { kid: 'broken' }), config))
+    expect(error.message).toBe('Token signature is invalid')
+    expect(error.status).toBe(401)
+  })
+})
+
+describe('pod authorization', () => {
+  const authorize = async (claims: Record<string, unknown> | null, range = inStudyA) =>
+    authorizePodRequest(request(claims ? await issuer.sign(claims) : undefined), range, { jwt: issuer.config, store })
+
+  it('lets clinic members read their studies', async () => {
+    await expect(authorize({ sub: 'alice' })).resolves.toMatchObject({ userId: 'alice' })
+    await expect(authorize({ sub: 'bob' }, inStudyB)).resolves.toMatchObject({ userId: 'bob' })
+  })
+
+  it('refuses other clinics with 403, including a range reaching into their study', async () => {
+    expect((await rejection(authorize({ sub: 'bob' }))).status).toBe(403)
+    expect((await rejection(authorize({ sub: 'alice' }, acrossBoth))).status).toBe(403)
+    expect((await rejection(authorize({ sub: 'alice' }, { ...inStudyA, pod_id: 'pod-2' }))).status).toBe(403)
+    // Before any study on the pod
+    expect((await rejection(authorize({ sub: 'alice' }, {
+      pod_id: 'pod-1', time_start: '2026-04-01T00:00:00Z', time_end: '2026-04-01T01:00:00Z'
+    }))).status).toBe(403)
+  })
+
+  it('honours per-study grants until they expire', async () => {
+    await expect(authorize({ sub: 'carol' })).resolves.toMatchObject({ userId: 'carol' })
+    expect((await rejection(authorize({ sub: 'carol' }, inStudyB))).status).toBe(403)
+    expect((await rejection(authorize({ sub: 'dave' }))).status).toBe(403)
+  })
+
+  it('lets admins and the service role through unscoped', async () => {
+    await expect(authorize({ sub: 'erin', app_metadata: { role: 'admin' } }, acrossBoth)).resolves.toMatchObject({ userId: 'erin' })
+    await expect(authorize({ role: 'service_role', aud: undefined }, acrossBoth)).resolves.toMatchObject({ userId: null })
+  })
+
+  it('requires a signed-in user', async () => {
+    expect((await rejection(authorize(null))).status).toBe(401)
+    expect((await rejection(authorize({ role: 'anon' }))).message).toMatch(/Sign in/)
+  })
+
+  it('checks the overlap of the range with each study', () => {
+    const grants = { clinicIds: ['clinic-a'], studyIds: [] }
+    const studies = tables.study.filter(s => s.pod_id === 'pod-1') as never[]
+    // Ends exactly where study B starts
+    expect(canAccessPodRange(grants, studies, { pod_id: 'pod-1', time_start: '2026-05-07T23:00:00Z', time_end: '2026-05-08T00:00:00Z' })).toBe(true)
+    expect(canAccessPodRange(grants, studies, acrossBoth)).toBe(false)
+  })
+})
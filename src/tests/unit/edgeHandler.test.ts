@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AuthError } from '../../../supabase/functions/_shared/auth.ts'
+import { errorStatus, HttpError } from '../../../supabase/functions/_shared/errors.ts'
+import { createHandler } from '../../../supabase/functions/_shared/handler.ts'
+import type { StatsClient, StatsRow } from '../../../supabase/functions/_shared/telemetry.ts'
+import {
+  defineSchema,
+  isoTime,
+  number,
+  oneOf,
+  optional,
+  string,
+  timeOrder,
+  validate
+} from '../../../supabase/functions/_shared/validation.ts'
+
+const schema = defineSchema({
+  pod_id: string(),
+  time_start: isoTime(),
+  time_end: isoTime(),
+  factor: optional(number({ min: 1, max: 20, integer: true })),
+  method: optional(oneOf(['decimate', 'lttb'] as const))
+}, timeOrder('time_start', 'time_end'))
+
+const valid = { pod_id: 'pod-1', time_start: '2026-05-01T00:00:00Z', time_end: '2026-05-01T01:00:00Z' }
+
+let rows: StatsRow[]
+const telemetry: StatsClient = {
+  from: () => ({
+    insert: async row => {
+      rows.push(row)
+      return { error: null }
+    }
+  })
+}
+
+function post(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/functions/v1/test', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  })
+}
+
+beforeEach(() => {
+  rows = []
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('validate', () => {
+  it('returns the known fields of a valid body', () => {
+    expect(validate(schema, { ...valid, factor: 4, extra: true })).toEqual({ ...valid, factor: 4 })
+  })
+
+  it('reports every invalid field, then rules across fields', () => {
+    try {
+      validate(schema, { time_start: 'yesterday', time_end: valid.time_end, factor: 2.5, method: 'fft' })
+      expect.unreachable()
+    } catch (err) {
+      expect(errorStatus(err)).toBe(400)
+      expect((err as HttpError).message).toBe('Missing required parameter: pod_id')
+      expect((err as { issues: unknown[] }).issues).toEqual([
+        { field: 'pod_id', message: 'Missing required parameter: pod_id' },
+        { field: 'time_start', message: 'time_start must be an ISO 8601 time' },
+        { field: 'factor', message: 'factor must be an integer' },
+        { field: 'method', message: 'method must be one of: decimate, lttb' }
+      ])
+    }
+
+    expect(() => validate(schema, { ...valid, time_end: valid.time_start })).toThrow('time_end must be after time_start')
+    expect(() => validate(schema, [valid])).toThrow('must be a JSON object')
+  })
+})
+
+describe('createHandler', () => {
+  const handler = createHandler({
+    name: 'test-function',
+    statsName: 'test_rpc',
+    schema,
+    exposeHeaders: ['x-source-factor'],
+    telemetry,
+    handle: async ({ params, json, stats }) => {
+      if (params.pod_id === 'forbidden') throw new AuthError('Not authorized for this pod and time range', 403)
+      if (params.pod_id === 'slow') throw { message: 'canceling statement due to statement timeout', code: '57014' }
+      if (params.pod_id === 'broken') throw new Error('Something broke')
+      stats.functionName = 'test_rpc_fast'
+      return json({ pod: params.pod_id, factor: params.factor ?? 4 }, { headers: { 'x-source-factor': '4' } })
+    }
+  })
+
+  it('answers preflight with CORS headers', async () => {
+    const response = await handler(new Request('http://localhost/functions/v1/test', { method: 'OPTIONS' }))
+    expect(response.status).toBe(204)
+    expect(response.headers.get('Access-Control-Allow-Headers')).toContain('x-request-id')
+    expect(response.headers.get('Access-Control-Expose-Headers')).toBe('x-request-id, x-source-factor')
+    expect(rows).toEqual([])
+  })
+
+  it('runs the handler with typed params and records the call', async () => {
+    const response = await handler(post(valid, { 'x-request-id': 'req-123' }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ pod: 'pod-1', factor: 4 })
+    expect(response.headers.get('x-request-id')).toBe('req-123')
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*')
+    expect(rows).toEqual([expect.objectContaining({
+      function_name: 'test_rpc_fast',
+      success: true,
+      error_message: null,
+      request_id: 'req-123',
+      execution_duration: expect.stringMatching(/^\d+ milliseconds$/)
+    })])
+  })
+
+  it('maps each kind of failure to its status, with the request ID in the body', async () => {
+    const cases: [Request, number, string][] = [
+      [post('{not json'), 400, 'invalid_request'],
+      [post({ ...valid, factor: 40 }), 400, 'invalid_request'],
+      [new Request('http://localhost/functions/v1/test', { method: 'GET' }), 405, 'method_not_allowed'],
+      [post({ ...valid, pod_id: 'forbidden' }), 403, 'forbidden'],
+      [post({ ...valid, pod_id: 'slow' }), 504, '57014'],
+      [post({ ...valid, pod_id: 'broken' }), 500, 'internal_error']
+    ]
+    for (const [request, status, code] of cases) {
+      const response = await handler(request)
+      const body = await response.json()
+      expect(response.status).toBe(status)
+      expect(body).toMatchObject({ code, request_id: response.headers.get('x-request-id') })
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*')
+    }
+    expect(rows.map(row => [row.function_name, row.success])).toEqual(cases.map(() => ['test_rpc', false]))
+    expect(rows[4].error_message).toBe('canceling statement due to statement timeout')
+  })
+
+  it('generates a request ID when the caller sends none or a malformed one', async () => {
+    const first = await handler(post(valid))
+    const second = await handler(post(valid, { 'x-request-id': 'has spaces and <tags>' }))
+    expect(first.headers.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/)
+    expect(second.headers.get('x-request-id')).not.toBe('has spaces and <tags>')
+    expect(first.headers.get('x-request-id')).not.toBe(second.headers.get('x-request-id'))
+  })
+
+  it('records a streamed response when the stream ends', async () => {
+    let finish: ((error?: unknown) => Promise<void>) | undefined
+    const streaming = createHandler({
+      name: 'test-stream',
+      schema,
+      telemetry,
+      handle: async ({ headers, deferStats }) => {
+        finish = deferStats()
+        return new Response('partial', { headers })
+      }
+    })
+
+    const response = await streaming(post(valid))
+    expect(response.status).toBe(200)
+    expect(rows).toEqual([])
+
+    await finish!(new Error('Cancelled after 2 of 5 chunks'))
+    await finish!()
+    expect(rows).toEqual([expect.objectContaining({
+      function_name: 'test-stream',
+      success: false,
+      error_message: 'Cancelled after 2 of 5 chunks'
+    })])
+  })
+
+  it('never fails a request because the stats insert failed', async () => {
+    const failing = createHandler({
+      name: 'test-function',
+      schema,
+      telemetry: { from: () => ({ insert: async () => ({ error: { message: 'column "user_id" does not exist' } }) }) },
+      handle: async ({ json }) => json({ ok: true })
+    })
+    const response = await failing(post(valid))
+    expect(response.status).toBe(200)
+    expect(console.warn).toHaveBeenCalled()
+  })
+})
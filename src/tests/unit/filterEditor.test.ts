@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { applyCompletion, completeFilter, compileFilter, highlightFilter } from '@/lib/filter'
+import type { CompleteOptions } from '@/lib/filter'
+import type { FilterField } from '@/types/filter'
+
+const FIELDS: FilterField[] = [
+  { key: 'qualityFraction', type: 'number', description: 'Quality as fraction 0-1' },
+  { key: 'status', type: 'string', description: 'Computed status', values: ['critical', 'warning', 'good'] },
+  { key: 'created_at', type: 'date', description: 'Created' },
+  { key: 'archived', type: 'boolean', description: 'Archived' }
+]
+
+const OPTIONS: CompleteOptions = {
+  fields: FIELDS,
+  savedFilters: [{ name: 'Poor quality', expression: 'qualityFraction < 0.5', description: 'Below half' }]
+}
+
+function labels(source: string, cursor = source.length): string[] {
+  return completeFilter(source, cursor, OPTIONS).items.map(item => item.label)
+}
+
+describe('completeFilter', () => {
+  it('offers fields with their types, functions and saved filters where a condition starts', () => {
+    const { items } = completeFilter('', 0, OPTIONS)
+    expect(items.find(item => item.label === 'qualityFraction')).toMatchObject({ kind: 'field', detail: 'number' })
+    expect(items.find(item => item.label === 'Poor quality')).toMatchObject({ kind: 'savedFilter', insert: '(qualityFraction < 0.5) ' })
+    expect(labels('')).toContain('lower(')
+    expect(labels('status = "good" AND ')).toContain('status')
+    expect(labels('(')).toContain('NOT')
+  })
+
+  it('narrows by the word being typed, prefix matches first', () => {
+    expect(labels('st')).toEqual(['status', 'startsWith('])
+    expect(completeFilter('stat', 2, OPTIONS)).toMatchObject({ from: 0, to: 4 })
+    expect(labels('ar')).toEqual(['archived', 'startsWith('])
+  })
+
+  it('offers only operators valid for the field type', () => {
+    expect(labels('qualityFraction ')).toContain('BETWEEN')
+    expect(labels('qualityFraction ')).not.toContain('contains')
+    expect(labels('status ')).toContain('contains')
+    expect(labels('archived ')).toEqual(['= true', '= false', 'IS NULL', 'IS NOT NULL', 'AND', 'OR'])
+    expect(labels('status NOT ')).toEqual(['contains', 'IN ['])
+    expect(labels('status IS ')).toEqual(['NULL', 'NOT NULL'])
+  })
+
+  it('offers values after an operator, inside strings and in lists', () => {
+    expect(labels('status = ')).toEqual(['critical', 'warning', 'good'])
+    expect(labels("status = 'w")).toEqual(['warning'])
+    expect(completeFilter("status = 'w", 11, OPTIONS)).toMatchObject({ from: 9 })
+    expect(labels("status IN ['good', ")).toEqual(['critical', 'warning', 'good'])
+    expect(labels('created_at > ')).toContain('now-7d')
+    expect(labels('created_at BETWEEN now-7d AND ')).toContain('today')
+    expect(labels("contains(status, ")).toEqual(['critical', 'warning', 'good'])
+  })
+
+  it('offers AND and OR after a complete condition', () => {
+    expect(labels('qualityFraction > 0.5 ')).toEqual(['AND', 'OR'])
+    expect(labels('(archived = true) ')).toEqual(['AND', 'OR'])
+    expect(labels('qualityFraction > 0.5 a')).toEqual(['AND'])
+  })
+
+  it('keeps the inserted word apart from a value right before it', () => {
+    const result = completeFilter('qualityFraction > 0.5', 21, OPTIONS)
+    expect(result.items[0].insert).toBe(' AND ')
+  })
+})
+
+describe('applyCompletion', () => {
+  it('replaces the typed word and places the cursor after the insertion', () => {
+    const source = 'qual > 1'
+    const result = completeFilter(source, 2, OPTIONS)
+    expect(applyCompletion(source, result, result.items[0])).toEqual({ source: 'qualityFraction  > 1', cursor: 16 })
+  })
+
+  it('builds a valid expression step by step', () => {
+    let source = ''
+    for (const label of ['status', '=', 'critical', 'AND', 'archived', '= true']) {
+      const result = completeFilter(source, source.length, OPTIONS)
+      const item = result.items.find(candidate => candidate.label === label)!
+      source = applyCompletion(source, result, item).source
+    }
+    expect(source).toBe("status = 'critical' AND archived = true ")
+    expect(compileFilter(source, FIELDS).error).toBeNull()
+  })
+})
+
+describe('highlightFilter', () => {
+  it('covers the whole source with classified segments', () => {
+    const source = "status = 'good' AND lower(nope) > 1"
+    const segments = highlightFilter(source, FIELDS)
+    expect(segments.map(segment => segment.text).join('')).toBe(source)
+    expect(segments.filter(segment => segment.kind !== 'text').map(segment => [segment.text, segment.kind])).toEqual([
+      ['status', 'field'],
+      ['=', 'operator'],
+      ["'good'", 'string'],
+      ['AND', 'keyword'],
+      ['lower', 'function'],
+      ['(', 'punctuation'],
+      ['nope', 'unknownField'],
+      [')', 'punctuation'],
+      ['>', 'operator'],
+      ['1', 'number']
+    ])
+  })
+
+  it('marks the rest as invalid after a lexical error', () => {
+    const segments = highlightFilter("status = 'goo", FIELDS)
+    expect(segments[segments.length - 1]).toMatchObject({ text: "'goo", kind: 'invalid', error: true })
+  })
+
+  it('flags exactly the error span, splitting segments at its edges', () => {
+    const source = 'qualityFraction > "x"'
+    const { error } = compileFilter(source, FIELDS)
+    const flagged = highlightFilter(source, FIELDS, error).filter(segment => segment.error)
+    expect(flagged.map(segment => source.slice(segment.start, segment.end)).join('')).toBe(source.slice(error!.span.start, error!.span.end))
+
+    const partial = highlightFilter('qualityFraction', FIELDS, { message: 'x', kind: 'syntax', span: { start: 3, end: 7 } } as never)
+    expect(partial.map(segment => [segment.text, segment.error])).toEqual([['qua', false], ['lity', true], ['Fraction', false]])
+  })
+
+  it('inserts an empty marker for an error at a point', () => {
+    const source = 'qualityFraction >'
+    const { error } = compileFilter(source, FIELDS)
+    const segments = highlightFilter(source, FIELDS, error)
+    expect(segments[segments.length - 1]).toMatchObject({ text: '', start: source.length, error: true })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyFilter,
+  compileFilter,
+  evaluateFilter,
+  FilterError,
+  parseFilter,
+  referencedFields,
+  tokenize
+} from '@/lib/filter'
+import type { FilterNode } from '@/lib/filter'
+import type { FilterField } from '@/types/filter'
+
+const FIELDS: FilterField[] = [
+  { key: 'qualityFraction', type: 'number', description: 'Quality as fraction 0-1' },
+  { key: 'daysRemaining', type: 'number', description: 'Days left in study' },
+  { key: 'status', type: 'string', description: 'Study status' },
+  { key: 'clinic_name', type: 'string', description: 'Clinic' },
+  { key: 'created_at', type: 'date', description: 'Created' },
+  { key: 'archived', type: 'boolean', description: 'Archived' }
+]
+
+const NOW = new Date('2026-05-10T12:00:00Z')
+
+const rows = [
+  { id: 1, qualityFraction: 0.95, daysRemaining: 1, status: 'active', clinic_name: 'North Clinic', created_at: '2026-05-09T08:00:00Z', archived: false },
+  { id: 2, qualityFraction: 0.6, daysRemaining: 10, status: 'paused', clinic_name: 'South Clinic', created_at: '2026-04-01T08:00:00Z', archived: false },
+  { id: 3, qualityFraction: 0.85, daysRemaining: 4, status: 'completed', clinic_name: 'northgate', created_at: '2026-05-05T08:00:00Z', archived: true },
+  { id: 4, qualityFraction: null, daysRemaining: 7, status: 'active', clinic_name: null, created_at: null, archived: false }
+]
+
+function ids(source: string): number[] {
+  const { ast, error } = compileFilter(source, FIELDS)
+  if (error) throw error
+  return applyFilter(rows, ast, { fields: FIELDS, now: NOW }).map(row => row.id)
+}
+
+function errorOf(source: string): FilterError {
+  const { error } = compileFilter(source, FIELDS)
+  if (!error) throw new Error(`Expected ${source} to be rejected`)
+  return error
+}
+
+describe('tokenize', () => {
+  it('reads dates, relative dates, keywords and legacy operators', () => {
+    const tokens = tokenize("created_at >= 2026-05-01T08:30 && status != 'a\\'b' OR created_at < now - 7d+12h")
+    expect(tokens.map(t => t.kind)).toEqual([
+      'identifier', 'operator', 'date', 'punctuation', 'identifier', 'operator', 'string',
+      'keyword', 'identifier', 'operator', 'relativeDate', 'eof'
+    ])
+    expect(tokens[6]).toMatchObject({ value: "a'b" })
+    expect(tokens[10]).toMatchObject({ anchor: 'now', offsetMs: -7 * 86400000 + 12 * 3600000, span: { start: 67, end: 79 } })
+  })
+})
+
+describe('parseFilter', () => {
+  it('binds AND tighter than OR and NOT tighter than AND', () => {
+    const ast = parseFilter('a = 1 OR NOT b = 2 AND c = 3') as Extract<FilterNode, { operands: FilterNode[] }>
+    expect(ast.kind).toBe('or')
+    expect(ast.operands.map(o => o.kind)).toEqual(['compare', 'and'])
+    const and = ast.operands[1] as Extract<FilterNode, { operands: FilterNode[] }>
+    expect(and.operands.map(o => o.kind)).toEqual(['not', 'compare'])
+  })
+
+  it('parses IN, BETWEEN, IS NULL, functions and their negations', () => {
+    const ast = parseFilter("status NOT IN ['a', 'b'] AND x BETWEEN -1 AND 2 AND y IS NOT NULL AND lower(n) NOT CONTAINS 'q'")
+    expect(ast).toMatchObject({
+      kind: 'and',
+      operands: [
+        { kind: 'in', negated: true, list: [{ value: 'a' }, { value: 'b' }] },
+        { kind: 'between', negated: false, low: { value: -1 }, high: { value: 2 } },
+        { kind: 'isNull', negated: true },
+        { kind: 'not', operand: { kind: 'compare', operator: 'contains', left: { kind: 'call', name: 'lower' } } }
+      ]
+    })
+    expect(referencedFields(ast!)).toEqual(['status', 'x', 'y', 'n'])
+    expect(parseFilter('   ')).toBeNull()
+  })
+
+  it('reports errors with the position of the offending token', () => {
+    const cases: [string, RegExp, number][] = [
+      ['qualityFraction >', /Expected a value after '>' but found the end/, 17],
+      ['(a = 1 OR b = 2', /Expected '\)' to close the '\(' at column 1/, 15],
+      ['a = 1)', /Unmatched '\)'/, 5],
+      ["status = 'open", /Unterminated string/, 9],
+      ['a = 1 b = 2', /Expected AND, OR or the end of the expression but found 'b'/, 6],
+      ['x IN []', /IN needs at least one value/, 5],
+      ['created_at > now-7', /Expected an offset like 7d after now-/, 16],
+      ['soundex(a) = 1', /Unknown function soundex/, 0],
+      ['a # 1', /Unexpected character '#'/, 2],
+      ['x BETWEEN 1 OR 2', /Expected AND between the bounds of BETWEEN/, 12]
+    ]
+    for (const [source, message, start] of cases) {
+      const error = errorOf(source)
+      expect(error).toBeInstanceOf(FilterError)
+      expect(error.message).toMatch(message)
+      expect(error.span.start).toBe(start)
+    }
+  })
+})
+
+describe('checkFilter', () => {
+  it('rejects unknown fields and mismatched types, pointing at them', () => {
+    expect(errorOf('qualityfraction > 0.8')).toMatchObject({ kind: 'type', message: expect.stringMatching(/did you mean qualityFraction/) })
+    expect(errorOf("daysRemaining > 'soon'")).toMatchObject({ message: 'Cannot compare a number with a string', span: { start: 16, end: 22 } })
+    expect(errorOf('status contains 3').message).toBe('Cannot compare a string with a number')
+    expect(errorOf('daysRemaining contains 3').message).toBe('contains needs text, not a number')
+    expect(errorOf('daysRemaining').message).toMatch(/is a number; compare it/)
+    expect(errorOf('status = null').message).toMatch(/IS NULL/)
+    expect(errorOf("created_at > 'not a date'").message).toBe('Cannot compare a date with a string')
+    expect(compileFilter("created_at > '2026-05-01'", FIELDS).error).toBeNull()
+  })
+})
+
+describe('evaluateFilter', () => {
+  it('filters with precedence and parentheses', () => {
+    expect(ids('qualityFraction > 0.8 AND daysRemaining < 5 OR status = "paused"')).toEqual([1, 2, 3])
+    expect(ids('qualityFraction > 0.8 AND (daysRemaining < 5 OR status = "paused")')).toEqual([1, 3])
+    expect(ids('qualityFraction > 0.8 && daysRemaining < 5')).toEqual([1, 3])
+    expect(ids('NOT archived')).toEqual([1, 2, 4])
+  })
+
+  it('handles IN, BETWEEN and string functions', () => {
+    expect(ids("status IN ['active', 'completed']")).toEqual([1, 3, 4])
+    expect(ids('daysRemaining BETWEEN 4 AND 7')).toEqual([3, 4])
+    expect(ids('daysRemaining NOT BETWEEN 4 AND 7')).toEqual([1, 2])
+    expect(ids("clinic_name startsWith 'NORTH'")).toEqual([1, 3])
+    expect(ids("upper(clinic_name) = 'SOUTH CLINIC'")).toEqual([2])
+    expect(ids('length(status) > 6')).toEqual([3])
+    expect(ids("endsWith(clinic_name, 'gate')")).toEqual([3])
+  })
+
+  it('compares dates and relative dates as instants', () => {
+    expect(ids('created_at > now-7d')).toEqual([1, 3])
+    expect(ids('created_at >= today-1d')).toEqual([1])
+    expect(ids('created_at BETWEEN 2026-04-01 AND 2026-05-06')).toEqual([2, 3])
+    expect(ids("created_at < '2026-05-01'")).toEqual([2])
+  })
+
+  it('treats missing values as unknown, as SQL does', () => {
+    expect(ids('qualityFraction < 0.9')).toEqual([2, 3])
+    expect(ids('NOT qualityFraction < 0.9')).toEqual([1])
+    expect(ids('qualityFraction < 0.9 OR daysRemaining = 7')).toEqual([2, 3, 4])
+    expect(ids("clinic_name NOT IN ['South Clinic']")).toEqual([1, 3])
+    expect(ids('created_at IS NULL')).toEqual([4])
+    expect(evaluateFilter(parseFilter('x = 1')!, {})).toBe(false)
+  })
+
+  it('matches every row for an empty filter', () => {
+    expect(ids('')).toEqual([1, 2, 3, 4])
+  })
+})
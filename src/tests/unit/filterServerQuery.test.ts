@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyServerQuery,
+  compileServerQuery,
+  parseFilter,
+  serverFilterError,
+  serverQueryParams,
+  toPostgrestFilter
+} from '@/lib/filter'
+import type { FilterColumnMap, ServerQueryBuilder } from '@/lib/filter'
+import type { FilterField } from '@/types/filter'
+import { HOLTER_FILTER_COLUMNS, HOLTER_FILTER_FIELDS, HOLTER_FILTER_PLACEHOLDER } from '@/hooks/api/study/useHolterFilters'
+
+const FIELDS: FilterField[] = [
+  { key: 'qualityFraction', type: 'number', description: 'Quality as fraction 0-1' },
+  { key: 'totalHours', type: 'number', description: 'Total hours' },
+  { key: 'status', type: 'string', description: 'Computed status' },
+  { key: 'clinic_name', type: 'string', description: 'Clinic' },
+  { key: 'study_id', type: 'uuid', description: 'Study' },
+  { key: 'created_at', type: 'date', description: 'Created' },
+  { key: 'archived', type: 'boolean', description: 'Archived' }
+]
+
+const COLUMNS: FilterColumnMap = {
+  qualityFraction: 'quality_fraction',
+  totalHours: { column: 'aggregated_total_minutes', scale: 60 },
+  clinic_name: 'clinic_name',
+  study_id: 'study_id',
+  created_at: 'created_at',
+  archived: 'archived'
+}
+
+const NOW = new Date('2026-05-10T12:00:00Z')
+
+function compile(source: string): string {
+  return toPostgrestFilter(parseFilter(source)!, { columns: COLUMNS, now: NOW })
+}
+
+describe('toPostgrestFilter', () => {
+  it('maps fields onto columns, scaling computed ones', () => {
+    expect(compile('qualityFraction < 0.5')).toBe('quality_fraction.lt.0.5')
+    expect(compile('totalHours >= 24')).toBe('aggregated_total_minutes.gte.1440')
+    expect(compile('0.5 < qualityFraction')).toBe('quality_fraction.gt.0.5')
+  })
+
+  it('keeps precedence as nested logic trees and pushes NOT into conditions', () => {
+    expect(compile("qualityFraction < 0.5 OR clinic_name = 'North' AND NOT archived"))
+      .toBe('or(quality_fraction.lt.0.5,and(clinic_name.eq.North,archived.not.eq.true))')
+    expect(compile('NOT (qualityFraction < 0.5 OR totalHours > 1)'))
+      .toBe('not.or(quality_fraction.lt.0.5,aggregated_total_minutes.gt.60)')
+    expect(compile('NOT NOT qualityFraction = 1')).toBe('quality_fraction.eq.1')
+  })
+
+  it('translates IN, BETWEEN, IS NULL and text matches', () => {
+    expect(compile("study_id NOT IN ['a', 'b,c']")).toBe('study_id.not.in.(a,"b,c")')
+    expect(compile('totalHours NOT BETWEEN 1 AND 2')).toBe('not.and(aggregated_total_minutes.gte.60,aggregated_total_minutes.lte.120)')
+    expect(compile('clinic_name IS NOT NULL')).toBe('clinic_name.not.is.null')
+    expect(compile("clinic_name contains 'St. Mary'")).toBe('clinic_name.ilike."*St. Mary*"')
+    expect(compile("startsWith(clinic_name, '50%_')")).toBe('clinic_name.ilike."50\\\\%\\\\_*"')
+  })
+
+  it('resolves dates and relative dates to instants', () => {
+    expect(compile('created_at > now-7d')).toBe('created_at.gt."2026-05-03T12:00:00.000Z"')
+    expect(compile('created_at BETWEEN 2026-05-01T00:00Z AND 2026-05-02T00:00Z'))
+      .toBe('and(created_at.gte."2026-05-01T00:00:00.000Z",created_at.lte."2026-05-02T00:00:00.000Z")')
+  })
+
+  it('rejects what the server cannot evaluate, pointing at it', () => {
+    const cases: [string, RegExp, number][] = [
+      ["status = 'critical'", /status is computed in the browser/, 0],
+      ["lower(clinic_name) = 'x'", /lower\(\) can't be filtered on the server/, 0],
+      ['qualityFraction > totalHours', /Comparing two fields/, 18],
+      ["clinic_name contains 'a*b'", /'\*' can't be searched for/, 21]
+    ]
+    for (const [source, message, start] of cases) {
+      const error = serverFilterError(source, FIELDS, COLUMNS)
+      expect(error?.kind).toBe('server')
+      expect(error?.message).toMatch(message)
+      expect(error?.span.start).toBe(start)
+    }
+    expect(serverFilterError('qualityFraction >', FIELDS, COLUMNS)?.kind).toBe('syntax')
+    expect(serverFilterError('qualityFraction > 0.8', FIELDS, COLUMNS)).toBeNull()
+  })
+
+  it('matches uuid fields with = and IN only, and only against UUIDs', () => {
+    const id = '0b5c4f2e-8d7a-4c1e-9f3b-2a6d8e4c1b70'
+    expect(serverFilterError(`study_id = '${id}'`, FIELDS, COLUMNS)).toBeNull()
+    expect(compile(`study_id = '${id}'`)).toBe(`study_id.eq.${id}`)
+    expect(serverFilterError(`study_id IN ['${id}']`, FIELDS, COLUMNS)).toBeNull()
+    expect(compile(`study_id IN ['${id}']`)).toBe(`study_id.in.(${id})`)
+    expect(serverFilterError('study_id IS NULL', FIELDS, COLUMNS)).toBeNull()
+
+    expect(serverFilterError("study_id contains 'nor'", FIELDS, COLUMNS)?.message).toMatch(/only be compared with = or IN/)
+    expect(serverFilterError(`study_id != '${id}'`, FIELDS, COLUMNS)?.message).toMatch(/only be compared with = or IN/)
+    expect(serverFilterError("study_id = 'nor'", FIELDS, COLUMNS)?.message).toBe("'nor' is not a valid ID")
+    expect(serverFilterError("lower(study_id) = 'x'", FIELDS, COLUMNS)?.kind).toBe('type')
+  })
+
+  it('accepts the example the Holter lab shows in its filter input', () => {
+    expect(serverFilterError(HOLTER_FILTER_PLACEHOLDER, HOLTER_FILTER_FIELDS, HOLTER_FILTER_COLUMNS)).toBeNull()
+  })
+})
+
+describe('compileServerQuery', () => {
+  it('combines quick filter, expression, sort and page', () => {
+    const { query, error } = compileServerQuery({
+      expression: 'qualityFraction < 0.5',
+      quickFilter: ' nor ',
+      sort: { key: 'totalHours', direction: 'desc' },
+      page: 3,
+      pageSize: 25,
+      fields: FIELDS,
+      columns: COLUMNS
+    })
+    expect(error).toBeNull()
+    expect(query).toEqual({
+      filter: 'and(or(clinic_name.ilike.*nor*),quality_fraction.lt.0.5)',
+      order: { column: 'aggregated_total_minutes', ascending: false },
+      from: 50,
+      to: 74
+    })
+    expect(Object.fromEntries(serverQueryParams(query))).toEqual({
+      and: '(and(or(clinic_name.ilike.*nor*),quality_fraction.lt.0.5))',
+      order: 'aggregated_total_minutes.desc',
+      offset: '50',
+      limit: '25'
+    })
+  })
+
+  it('matches a whole UUID in the quick filter against id fields exactly', () => {
+    const id = '3f2b8c1e-5d4a-4b6f-9e21-7c0a1d2e3f40'
+    const quick = (quickFilter: string) =>
+      compileServerQuery({ quickFilter, page: 1, pageSize: 10, fields: FIELDS, columns: COLUMNS }).query.filter
+
+    expect(quick(` ${id} `)).toBe(`or(clinic_name.ilike.*${id}*,study_id.eq.${id})`)
+    expect(quick('3f2b8c1e')).toBe('or(clinic_name.ilike.*3f2b8c1e*)')
+    expect(compileServerQuery({
+      quickFilter: id, page: 1, pageSize: 10, fields: FIELDS.filter(field => field.type === 'uuid'), columns: COLUMNS
+    }).query.filter).toBe(`or(study_id.eq.${id})`)
+  })
+
+  it('leaves out an expression the server cannot run and reports why', () => {
+    const { query, error } = compileServerQuery({
+      expression: "status = 'critical'",
+      sort: { key: 'status', direction: 'asc' },
+      page: 1,
+      pageSize: 10,
+      fields: FIELDS,
+      columns: COLUMNS
+    })
+    expect(error?.message).toMatch(/status is computed in the browser/)
+    expect(query).toEqual({ filter: null, order: null, from: 0, to: 9 })
+  })
+
+  it('applies to a query builder', () => {
+    interface Builder extends ServerQueryBuilder<Builder> {}
+    const calls: string[] = []
+    const builder: Builder = {
+      or: filters => (calls.push(`or ${filters}`), builder),
+      order: (column, { ascending }) => (calls.push(`order ${column} ${ascending}`), builder),
+      range: (from, to) => (calls.push(`range ${from} ${to}`), builder)
+    }
+    applyServerQuery(builder, { filter: 'quality_fraction.lt.0.5', order: { column: 'study_id', ascending: true }, from: 0, to: 24 })
+    expect(calls).toEqual(['or quality_fraction.lt.0.5', 'order study_id true', 'range 0 24'])
+  })
+})
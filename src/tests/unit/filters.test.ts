@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import {
+  aliasedFrequency,
+  applyFilterChain,
+  describeFilterSettings,
+  filterSamples,
+  DEFAULT_FILTER_SETTINGS,
+  type ECGFilterSettings
+} from '@/lib/ecg/filters'
+import type { ECGSample } from '@/hooks/api/ecg/useECG'
+
+const FS = 320
+
+const OFF: ECGFilterSettings = {
+  highPass: { enabled: false, cutoffHz: 0.5 },
+  notch: { enabled: false, frequencyHz: 60, q: 30 },
+  lowPass: { enabled: false, cutoffHz: 40 },
+  movingMedian: { enabled: false, windowMs: 40 }
+}
+
+function tone(frequencyHz: number, seconds: number, fs = FS): number[] {
+  return Array.from({ length: seconds * fs }, (_, i) => Math.sin((2 * Math.PI * frequencyHz * i) / fs))
+}
+
+// RMS over the middle half, away from edge effects
+function rms(x: number[]): number {
+  const mid = x.slice(Math.floor(x.length / 4), Math.floor((3 * x.length) / 4))
+  return Math.sqrt(mid.reduce((s, v) => s + v * v, 0) / mid.length)
+}
+
+describe('ECG filters', () => {
+  it('removes powerline hum with the notch', () => {
+    const out = applyFilterChain(tone(60, 4), FS, { ...OFF, notch: { enabled: true, frequencyHz: 60, q: 30 } })
+    expect(rms(out)).toBeLessThan(0.05)
+  })
+
+  it('leaves in-band content alone', () => {
+    const out = applyFilterChain(tone(10, 4), FS, { ...OFF, notch: { enabled: true, frequencyHz: 60, q: 30 } })
+    expect(rms(out)).toBeCloseTo(Math.SQRT1_2, 1)
+  })
+
+  it('removes baseline wander with the high-pass', () => {
+    const wander = tone(0.1, 40).map(v => v * 10)
+    const out = applyFilterChain(wander, FS, { ...OFF, highPass: { enabled: true, cutoffHz: 0.5 } })
+    expect(rms(out)).toBeLessThan(0.5)
+  })
+
+  it('is zero-phase: a symmetric spike keeps its position', () => {
+    const x = new Array(FS * 2).fill(0)
+    x[FS] = 1
+    const out = applyFilterChain(x, FS, { ...OFF, lowPass: { enabled: true, cutoffHz: 20 } })
+    const peak = out.indexOf(Math.max(...out))
+    expect(peak).toBe(FS)
+  })
+
+  it('notches the aliased frequency on decimated data', () => {
+    expect(aliasedFrequency(60, 80)).toBe(20)
+    expect(aliasedFrequency(50, 80)).toBe(30)
+    const out = applyFilterChain(tone(20, 8, 80), 80, { ...OFF, notch: { enabled: true, frequencyHz: 60, q: 30 } })
+    expect(rms(out)).toBeLessThan(0.05)
+  })
+
+  it('only filters the selected channels', () => {
+    const samples: ECGSample[] = tone(60, 1).map((v, i) => ({
+      time: new Date(i * (1000 / FS)).toISOString(),
+      channels: [v, v, v],
+      lead_on_p: [true, true, true],
+      lead_on_n: [true, true, true],
+      quality: [true, true, true]
+    }))
+    const out = filterSamples(samples, FS, DEFAULT_FILTER_SETTINGS, { 1: false, 2: true, 3: false })
+    expect(out[100].channels[0]).toBe(samples[100].channels[0])
+    expect(out[100].channels[1]).not.toBe(samples[100].channels[1])
+  })
+
+  it('records settings for export metadata', () => {
+    const meta = describeFilterSettings(DEFAULT_FILTER_SETTINGS, { 1: true, 2: false, 3: true }, 80, 80 * 60)
+    expect(meta.filter_channels).toBe('1 3')
+    expect(meta.filter_highpass_hz).toBe('0.5')
+    expect(meta.filter_notch_hz).toContain('applied at 20.00')
+    expect(meta.filter_lowpass_hz).toContain('skipped')
+  })
+
+  it('skips the high-pass on a record too short for it and says so', () => {
+    const short = tone(10, 2)
+    const out = applyFilterChain(short, FS, { ...OFF, highPass: { enabled: true, cutoffHz: 0.5 } })
+    expect(out).toBe(short)
+    const meta = describeFilterSettings(DEFAULT_FILTER_SETTINGS, { 1: true, 2: false, 3: false }, FS, short.length)
+    expect(meta.filter_highpass_hz).toBe('0.5 (skipped, record shorter than 4.0 s)')
+  })
+
+  it('skips the high-pass when the sample rate is too low for its corner', () => {
+    const settings = { ...OFF, highPass: { enabled: true, cutoffHz: 5 } }
+    const slow = tone(1, 60, 8)
+    expect(applyFilterChain(slow, 8, settings)).toBe(slow)
+    expect(describeFilterSettings(settings, { 1: true, 2: false, 3: false }, 8, slow.length).filter_highpass_hz)
+      .toBe('5 (skipped, at or above Nyquist)')
+  })
+})
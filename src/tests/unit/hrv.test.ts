@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { computeHRV, extractRRIntervals, formatHRVCsv } from '@/lib/ecg/hrv'
+import type { DetectedBeat } from '@/lib/ecg/beatDetection'
+
+const START = Date.parse('2023-01-01T00:00:00Z')
+
+// Build beats from an RR series; null entries become excluded intervals
+function makeBeats(rrSeries: Array<number | null>): DetectedBeat[] {
+  let time = START
+  const beats: DetectedBeat[] = [{ index: 0, time, amplitude: 1, rrMs: null, heartRate: null }]
+  rrSeries.forEach((rr, i) => {
+    time += rr ?? 1000
+    beats.push({ index: i + 1, time, amplitude: 1, rrMs: rr, heartRate: rr ? 60000 / rr : null })
+  })
+  return beats
+}
+
+describe('hrv', () => {
+  it('computes time-domain metrics for a known series', () => {
+    const result = computeHRV(makeBeats([800, 850, 800, 850, 800]))
+
+    expect(result.timeDomain).not.toBeNull()
+    expect(result.timeDomain!.meanRR).toBeCloseTo(820, 5)
+    expect(result.timeDomain!.rmssd).toBeCloseTo(50, 5)
+    // |diff| of exactly 50 does not count towards NN50
+    expect(result.timeDomain!.nn50).toBe(0)
+  })
+
+  it('does not form successive differences across excluded intervals', () => {
+    const { intervals, excludedCount } = extractRRIntervals(makeBeats([800, 800, null, 1200, 1200]))
+
+    expect(excludedCount).toBe(1)
+    expect(intervals.map(i => i.followsPrevious)).toEqual([false, true, false, true])
+    expect(computeHRV(makeBeats([800, 800, null, 1200, 1200])).timeDomain!.rmssd).toBe(0)
+  })
+
+  it('puts respiratory sinus arrhythmia power in the HF band', () => {
+    // 5 minutes of RR modulated at 0.25 Hz, amplitude 50 ms => 1250 ms² of power
+    const rr: number[] = []
+    let t = 0
+    while (t < 5 * 60 * 1000) {
+      const value = 1000 + 50 * Math.sin(2 * Math.PI * 0.25 * (t / 1000))
+      rr.push(value)
+      t += value
+    }
+    const fd = computeHRV(makeBeats(rr)).frequencyDomain
+
+    expect(fd).not.toBeNull()
+    expect(fd!.hf).toBeGreaterThan(1250 * 0.7)
+    expect(fd!.hf).toBeLessThan(1250 * 1.3)
+    expect(fd!.lfHfRatio!).toBeLessThan(0.1)
+  })
+
+  it('skips the spectrum for short windows', () => {
+    expect(computeHRV(makeBeats(new Array(30).fill(1000))).frequencyDomain).toBeNull()
+  })
+
+  it('exports metrics and the RR series as CSV', () => {
+    const csv = formatHRVCsv(computeHRV(makeBeats([800, 850, 800])), { pod_id: 'pod-1' })
+
+    expect(csv).toContain('# pod_id,pod-1')
+    expect(csv).toContain('rmssd,50.000,ms')
+    expect(csv.split('\n').filter(l => l.startsWith('2023-01-01'))).toHaveLength(3)
+  })
+})
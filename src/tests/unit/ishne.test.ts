@@ -0,0 +1,197 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  crcCCITT,
+  ISHNE_HEADER_OFFSET,
+  ISHNE_HEADER_SIZE,
+  ISHNE_INVALID_SAMPLE,
+  ISHNEParseError,
+  parseISHNE
+} from '@/lib/ecg/formats/ishne'
+import {
+  addLocalRecording,
+  isLocalRecordingId,
+  listLocalRecordings,
+  localDiagnostics,
+  readLocalSamples,
+  removeLocalRecording
+} from '@/lib/ecg/localRecordings'
+
+interface FileOptions {
+  magic?: string
+  leadSpecs?: number[]
+  resolutionNv?: number[]
+  samplingRate?: number
+  /** Samples per lead */
+  data?: number[][]
+  note?: string
+  corruptCrc?: boolean
+}
+
+/** Build an ISHNE 1.0 file the way a recorder would write it */
+function buildISHNE({
+  magic = 'ISHNE1.0',
+  leadSpecs = [6, 5, 11],
+  resolutionNv = [2500, 2500, 2500],
+  samplingRate = 200,
+  data = leadSpecs.map((_, l) => Array.from({ length: 400 }, (_, i) => (l + 1) * 100 + (i % 10))),
+  note = 'external holter',
+  corruptCrc = false
+}: FileOptions = {}): ArrayBuffer {
+  const h = ISHNE_HEADER_OFFSET
+  const noteBytes = new TextEncoder().encode(note)
+  const ecgOffset = h + ISHNE_HEADER_SIZE + noteBytes.length
+  const count = data[0].length
+  const buffer = new ArrayBuffer(ecgOffset + count * leadSpecs.length * 2)
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+  const text = (offset: number, value: string) => bytes.set(new TextEncoder().encode(value), offset)
+
+  text(0, magic)
+  view.setInt32(h, noteBytes.length, true)
+  view.setInt32(h + 4, count, true)
+  view.setInt32(h + 8, h + ISHNE_HEADER_SIZE, true)
+  view.setInt32(h + 12, ecgOffset, true)
+  view.setInt16(h + 16, 1, true)
+  text(h + 98, 'SUBJ-42')
+  view.setInt16(h + 118, 2, true)
+  // Recording date 2026-03-04 09:30:15
+  view.setInt16(h + 128, 4, true)
+  view.setInt16(h + 130, 3, true)
+  view.setInt16(h + 132, 2026, true)
+  view.setInt16(h + 140, 9, true)
+  view.setInt16(h + 142, 30, true)
+  view.setInt16(h + 144, 15, true)
+  view.setInt16(h + 146, leadSpecs.length, true)
+  leadSpecs.forEach((spec, i) => {
+    view.setInt16(h + 148 + i * 2, spec, true)
+    view.setInt16(h + 196 + i * 2, resolutionNv[i], true)
+  })
+  text(h + 222, 'Vendor X')
+  view.setInt16(h + 262, samplingRate, true)
+  bytes.set(noteBytes, h + ISHNE_HEADER_SIZE)
+
+  for (let i = 0; i < count; i++) {
+    data.forEach((lead, l) => view.setInt16(ecgOffset + (i * leadSpecs.length + l) * 2, lead[i], true))
+  }
+
+  const crc = crcCCITT(bytes.subarray(h, ecgOffset))
+  view.setUint16(8, corruptCrc ? crc ^ 0xffff : crc, true)
+  return buffer
+}
+
+describe('ISHNE parser', () => {
+  it('reads the header and maps leads I, II and III by spec', () => {
+    const rec = parseISHNE(buildISHNE())
+
+    expect(rec.crcValid).toBe(true)
+    expect(rec.header).toMatchObject({
+      subjectId: 'SUBJ-42',
+      sex: 'Female',
+      recorder: 'Vendor X',
+      samplingRate: 200,
+      sampleCount: 400,
+      variableBlock: 'external holter'
+    })
+    expect(rec.header.startTime).toBe(new Date(2026, 2, 4, 9, 30, 15).getTime())
+    expect(rec.leads.map(l => l.name)).toEqual(['II', 'I', 'V1'])
+    // Channel 1 is lead I (file lead 1), channel 2 lead II; no lead III, so V1 fills channel 3
+    expect(rec.channelLeads).toEqual([1, 0, 2])
+  })
+
+  it('scales samples to µV and reports invalid samples as lead-off', () => {
+    const data = [[400, ISHNE_INVALID_SAMPLE], [-200, 40]]
+    const rec = parseISHNE(buildISHNE({ leadSpecs: [1, 1], resolutionNv: [2500, 5000], data }))
+    const local = addLocalRecording('two-lead.ecg', rec, 0)
+    try {
+      const [first, second] = readLocalSamples({
+        pod_id: local.id,
+        time_start: new Date(0).toISOString(),
+        time_end: new Date(10).toISOString(),
+        factor: 1
+      })
+      expect(first.channels).toEqual([1000, -1000, 0])
+      expect(first.lead_on_p).toEqual([true, true, false])
+      expect(second.channels).toEqual([0, 200, 0])
+      expect(second.lead_on_n).toEqual([false, true, false])
+      expect(second.time).toBe(new Date(5).toISOString())
+    } finally {
+      removeLocalRecording(local.id)
+    }
+  })
+
+  it('flags a header CRC mismatch without rejecting the file', () => {
+    expect(parseISHNE(buildISHNE({ corruptCrc: true })).crcValid).toBe(false)
+  })
+
+  it('rejects files that are not ISHNE ECG data', () => {
+    expect(() => parseISHNE(buildISHNE({ magic: 'ANN  1.0' }))).toThrow(/annotation file/)
+    expect(() => parseISHNE(buildISHNE({ magic: 'MIT-BIH ' }))).toThrow(ISHNEParseError)
+    expect(() => parseISHNE(new ArrayBuffer(100))).toThrow(/too short/)
+  })
+
+  it('keeps only the samples present when the header claims more', () => {
+    const buffer = buildISHNE()
+    const rec = parseISHNE(buffer.slice(0, buffer.byteLength - 3 * 2 * 50))
+    expect(rec.header.sampleCount).toBe(350)
+  })
+})
+
+describe('local recordings', () => {
+  afterEach(() => listLocalRecordings().forEach(r => removeLocalRecording(r.id)))
+
+  it('reads a time range at the pod output rate', () => {
+    // 640 Hz file: factor 4 gives 80 Hz output, as it would for a 320 Hz pod
+    const data = [Array.from({ length: 640 }, (_, i) => i)]
+    const local = addLocalRecording('fast.ecg', parseISHNE(buildISHNE({ leadSpecs: [5], resolutionNv: [1000], samplingRate: 640, data })), 0)
+
+    expect(isLocalRecordingId(local.id)).toBe(true)
+    expect(isLocalRecordingId('pod-1')).toBe(false)
+    expect(local.endTime).toBe(1000)
+
+    const samples = readLocalSamples({
+      pod_id: local.id,
+      time_start: new Date(250).toISOString(),
+      time_end: new Date(500).toISOString(),
+      factor: 4
+    })
+    expect(samples).toHaveLength(20)
+    expect(samples[0].channels[0]).toBe(160)
+    expect(samples[1].channels[0]).toBe(168)
+
+    const bounded = readLocalSamples({
+      pod_id: local.id,
+      time_start: new Date(0).toISOString(),
+      time_end: new Date(1000).toISOString(),
+      method: 'minmax',
+      max_points: 60
+    })
+    expect(bounded.length).toBeLessThanOrEqual(60)
+    expect(bounded.map(s => s.channels[0])).toContain(639)
+  })
+
+  it('summarises valid, saturated and dropped samples', () => {
+    const lead = Array.from({ length: 100 }, (_, i) => (i >= 10 && i < 20 ? ISHNE_INVALID_SAMPLE : i === 50 ? 32767 : 0))
+    const local = addLocalRecording('drops.ecg', parseISHNE(buildISHNE({ leadSpecs: [5, 6], data: [lead, lead] })), 0)
+
+    const metrics = localDiagnostics({
+      pod_id: local.id,
+      time_start: new Date(0).toISOString(),
+      time_end: new Date(500).toISOString()
+    })
+    expect(metrics.connection_stats).toEqual({
+      total_samples: 100,
+      missing_samples: 10,
+      connection_drops: 1,
+      sampling_frequency: 200
+    })
+    expect(metrics.signal_quality.quality_scores).toEqual({ channel_1: 90, channel_2: 90, channel_3: 0 })
+    expect(metrics.signal_quality.noise_levels.channel_1).toBe(1)
+  })
+
+  it('fails reads once a recording is closed', () => {
+    const local = addLocalRecording('closed.ecg', parseISHNE(buildISHNE()), 0)
+    removeLocalRecording(local.id)
+    expect(() => readLocalSamples({ pod_id: local.id, time_start: new Date(0).toISOString(), time_end: new Date(10).toISOString() }))
+      .toThrow(/no longer loaded/)
+  })
+})
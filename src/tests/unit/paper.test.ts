@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ECG_UNITS_PER_MV,
+  paperLayout,
+  paperScaleX,
+  paperGridLines,
+  pxPerMmFromReference,
+  calibrationPulsePath
+} from '@/lib/ecg/paper'
+
+describe('ECG paper', () => {
+  it('maps speed and gain to pixels through the screen calibration', () => {
+    const layout = paperLayout(800, 200, { speed: 25, gain: 10, pxPerMm: 4 })
+
+    expect(layout.pxPerSecond).toBe(100)
+    expect(layout.pxPerMv).toBe(40)
+    expect(layout.visibleSeconds).toBe(8)
+    // 200 px tall at 40 px/mV, baseline on the 100 px major line
+    expect(layout.yMax).toBeCloseTo(2.5 * ECG_UNITS_PER_MV)
+    expect(layout.yMin).toBeCloseTo(-2.5 * ECG_UNITS_PER_MV)
+    // Pulse is 1 mV by 200 ms
+    expect(layout.pulse.heightPx).toBe(40)
+    expect(layout.pulse.widthPx).toBe(20)
+  })
+
+  it('puts the baseline on a major line even when the height is not a multiple of 5 mm', () => {
+    const layout = paperLayout(800, 130, { speed: 25, gain: 10, pxPerMm: 4 })
+
+    expect(layout.grid.originY % 20).toBe(0)
+    expect(layout.yMax / ECG_UNITS_PER_MV).toBeCloseTo(layout.grid.originY / layout.pxPerMv)
+  })
+
+  it('scales a trace so its duration spans speed × duration pixels', () => {
+    // 10 s at 100 px/s over an 800 px plot
+    expect(paperScaleX(10, 800, 100)).toBe(1.25)
+    expect(paperScaleX(0, 800, 100)).toBe(1)
+  })
+
+  it('snaps grid lines to device pixel centres and marks every fifth as major', () => {
+    const lines = paperGridLines(20, 0, 3.78, 2)
+
+    expect(lines.major).toEqual([0.25, 18.75])
+    expect(lines.minor).toHaveLength(4)
+    lines.minor.concat(lines.major).forEach(x => {
+      expect((x * 2) % 1).toBeCloseTo(0.5)
+    })
+  })
+
+  it('keeps grid phase when the origin is panned off-screen', () => {
+    const lines = paperGridLines(50, -12, 4, 1)
+
+    // Major lines at -12 + 20k => 8, 28, 48
+    expect(lines.major).toEqual([8.5, 28.5, 48.5])
+  })
+
+  it('derives px/mm from a card measurement and outlines the pulse', () => {
+    expect(pxPerMmFromReference(342.4)).toBeCloseTo(4)
+
+    const path = calibrationPulsePath({ x: 8, baselineY: 100, widthPx: 20, heightPx: 40 })
+    expect(path[2]).toEqual([18, 60])
+    expect(path[3]).toEqual([38, 60])
+  })
+})
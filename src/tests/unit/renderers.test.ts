@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import {
+  TRACE_FLAG,
+  buildECGTrace,
+  createECGRenderer,
+  createWebGLRenderer,
+  flaggedRuns,
+  visibleIndexRange,
+  parseColor,
+  summarizeFrameTimes,
+  benchmarkRenderer,
+  makeSyntheticTrace
+} from '@/lib/ecg/renderers'
+import type { ECGRenderer, ECGViewState } from '@/lib/ecg/renderers'
+import { sampleBufferFromSamples } from '@/lib/ecg/sampleBuffer'
+import type { ECGSample } from '@/hooks/api/ecg/useECG'
+
+// Every WebGL call is a no-op that records its name; shaders compile
+// unless told otherwise
+function fakeGL(compiles = true) {
+  const calls: string[] = []
+  const gl = new Proxy({} as Record<string, unknown>, {
+    get: (_target, name: string) => {
+      if (name === 'getShaderParameter' || name === 'getProgramParameter') return () => compiles
+      if (name === 'getAttribLocation') return () => 0
+      if (name === 'getExtension') return () => null
+      return (..._args: unknown[]) => {
+        calls.push(name)
+        return {}
+      }
+    }
+  })
+  return { gl, calls }
+}
+
+function fakeCanvas(contexts: { webgl?: unknown; '2d'?: unknown }) {
+  const requested: string[] = []
+  const listeners = new Map<string, (e: Event) => void>()
+  const canvas = {
+    width: 100,
+    height: 50,
+    getContext: (type: 'webgl' | '2d') => {
+      requested.push(type)
+      return contexts[type] ?? null
+    },
+    addEventListener: (type: string, listener: (e: Event) => void) => listeners.set(type, listener),
+    removeEventListener: (type: string) => listeners.delete(type)
+  }
+  return { canvas: canvas as unknown as HTMLCanvasElement, requested, listeners }
+}
+
+const VIEW: ECGViewState = {
+  width: 100,
+  height: 50,
+  scaleX: 1,
+  translateX: 0,
+  yMin: -1,
+  yMax: 1,
+  waveColor: 'rgb(0,0,0)',
+  beatColor: 'rgb(255,0,0)'
+}
+
+function row(value: number, leadOn = true, quality = true): ECGSample {
+  return {
+    time: '2023-01-01T00:00:00Z',
+    channels: [value, value * 2, value * 3],
+    lead_on_p: [leadOn, true, true],
+    lead_on_n: [true, true, true],
+    quality: [quality, true, true]
+  }
+}
+
+describe('ECG renderers', () => {
+  it('flattens a channel into values and lead-off/quality flags', () => {
+    const buffer = sampleBufferFromSamples([row(1), row(2, false), row(3, true, false), row(4)])
+    const trace = buildECGTrace(buffer, 1)
+
+    expect(Array.from(trace.values)).toEqual([1, 2, 3, 4])
+    expect(Array.from(trace.flags)).toEqual([
+      TRACE_FLAG.good,
+      TRACE_FLAG.leadOff,
+      TRACE_FLAG.lowQuality,
+      TRACE_FLAG.good
+    ])
+    // Other channels are unaffected by channel 1's lead state
+    expect(Array.from(buildECGTrace(sampleBufferFromSamples([row(1), row(2, false)]), 2).flags)).toEqual([0, 0])
+    // Values are the buffer's channel, not a copy
+    expect(trace.values).toBe(buffer.channels[0])
+  })
+
+  it('groups flagged samples into runs', () => {
+    const flags = Uint8Array.from([0, 1, 1, 0, 2, 2, 2, 1])
+
+    expect(flaggedRuns(flags)).toEqual([
+      { start: 1, end: 3, flag: TRACE_FLAG.lowQuality },
+      { start: 4, end: 7, flag: TRACE_FLAG.leadOff },
+      { start: 7, end: 8, flag: TRACE_FLAG.lowQuality }
+    ])
+  })
+
+  it('only walks the samples inside the viewport', () => {
+    expect(visibleIndexRange(1000, { width: 100, scaleX: 1, translateX: 0 })).toEqual([0, 1000])
+    // Zoomed 4x and panned to the second quarter
+    expect(visibleIndexRange(1000, { width: 100, scaleX: 4, translateX: -100 })).toEqual([249, 501])
+  })
+
+  it('parses the colour formats used by the plots', () => {
+    expect(parseColor('rgba(255, 0, 51, 0.5)')).toEqual([1, 0, 0.2, 0.5])
+    expect(parseColor('rgb(0,255,0)')).toEqual([0, 1, 0, 1])
+    expect(parseColor('#0000ff')).toEqual([0, 0, 1, 1])
+  })
+
+  it('summarizes frame times and drives renderers through pan/zoom frames', () => {
+    const stats = summarizeFrameTimes([4, 1, 3, 2])
+    expect(stats).toMatchObject({ frames: 4, meanMs: 2.5, p50Ms: 3, maxMs: 4, fps: 400 })
+
+    const views: ECGViewState[] = []
+    let uploaded = 0
+    const fake: ECGRenderer = {
+      kind: 'canvas2d',
+      setTrace: trace => { uploaded = trace.values.length },
+      render: view => { views.push(view) },
+      dispose: () => {}
+    }
+    const result = benchmarkRenderer(fake, makeSyntheticTrace(3200), { frames: 10 })
+
+    expect(uploaded).toBe(3200)
+    expect(result.frames).toBe(10)
+    expect(views).toHaveLength(10)
+    expect(new Set(views.map(v => v.scaleX)).size).toBeGreaterThan(1)
+  })
+
+  it("falls back to Canvas2D in 'auto' when the shaders fail to compile", () => {
+    const probe = fakeCanvas({ webgl: fakeGL(false).gl })
+    const target = fakeCanvas({ webgl: fakeGL().gl, '2d': {} })
+
+    const renderer = createECGRenderer(target.canvas, 'auto', probe.canvas)
+
+    expect(renderer?.kind).toBe('canvas2d')
+    // The real canvas never handed out a WebGL context, so 2D was still possible
+    expect(target.requested).toEqual(['2d'])
+    expect(createECGRenderer(fakeCanvas({ webgl: fakeGL().gl }).canvas, 'auto', fakeCanvas({ webgl: fakeGL().gl }).canvas)?.kind).toBe('webgl')
+  })
+
+  it('rebuilds and redraws after the WebGL context is restored', () => {
+    const { gl, calls } = fakeGL()
+    const { canvas, listeners } = fakeCanvas({ webgl: gl })
+    const renderer = createWebGLRenderer(canvas)!
+    renderer.setTrace(makeSyntheticTrace(100))
+
+    let prevented = false
+    listeners.get('webglcontextlost')!({ preventDefault: () => { prevented = true } } as Event)
+    expect(prevented).toBe(true)
+    calls.length = 0
+    renderer.render(VIEW)
+    expect(calls).toEqual([])
+
+    listeners.get('webglcontextrestored')!({} as Event)
+    expect(calls.filter(name => name === 'linkProgram')).toHaveLength(3)
+    expect(calls.filter(name => name === 'bufferData').length).toBeGreaterThan(0)
+    expect(calls).toContain('drawArrays')
+
+    renderer.dispose()
+    expect(listeners.size).toBe(0)
+  })
+})
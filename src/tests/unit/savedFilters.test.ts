@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest'
+import { toSavedFilter } from '@/hooks/api/filters/useSavedFilters'
+import { holterFilterExpression, knownQuickFilter, quickFilterExpression } from '@/hooks/api/study/useHolterFilters'
+import type { FilterColumnMap } from '@/lib/filter'
+import type { Database } from '@/types/database.types'
+import type { FilterField, SavedFilter } from '@/types/filter'
+
+vi.mock('@/types/supabase', () => ({ supabase: {} }))
+
+type Row = Database['public']['Tables']['saved_filters']['Row']
+
+const FIELDS: FilterField[] = [
+  { key: 'qualityFraction', type: 'number', description: 'Quality as fraction 0-1' },
+  { key: 'status', type: 'string', description: 'Computed status' },
+  { key: 'clinic_name', type: 'string', description: 'Clinic' }
+]
+
+const COLUMNS: FilterColumnMap = { qualityFraction: 'quality_fraction', clinic_name: 'clinic_name' }
+
+function row(filter_expression: string): Row {
+  return {
+    id: 'f1',
+    name: 'Triage',
+    filter_expression,
+    description: null,
+    lab: 'holter',
+    scope: 'clinic',
+    clinic_id: 'c1',
+    user_id: 'u1',
+    owner_email: 'owner@example.com',
+    version: 3,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-02T00:00:00Z'
+  }
+}
+
+describe('toSavedFilter', () => {
+  it('maps a row and accepts an expression that fits the fields', () => {
+    expect(toSavedFilter(row('qualityFraction < 0.5'), true, FIELDS)).toEqual({
+      id: 'f1',
+      name: 'Triage',
+      expression: 'qualityFraction < 0.5',
+      description: undefined,
+      lab: 'holter',
+      scope: 'clinic',
+      clinicId: 'c1',
+      ownerId: 'u1',
+      ownerEmail: 'owner@example.com',
+      version: 3,
+      updatedAt: '2026-10-02T00:00:00Z',
+      pinned: true,
+      error: null
+    })
+  })
+
+  it('flags a filter on a field that was removed or retyped', () => {
+    const removed = toSavedFilter(row('interruptions > 2'), false, FIELDS)
+    expect(removed.error?.kind).toBe('type')
+    expect(removed.error?.span).toEqual({ start: 0, end: 13 })
+    expect(toSavedFilter(row("qualityFraction = 'high'"), false, FIELDS).error).not.toBeNull()
+  })
+
+  it('flags a filter the server cannot run when the lab filters in the database', () => {
+    const source = "status = 'critical'"
+    expect(toSavedFilter(row(source), false, FIELDS).error).toBeNull()
+    expect(toSavedFilter(row(source), false, FIELDS, COLUMNS).error?.kind).toBe('server')
+  })
+})
+
+describe('quickFilterExpression', () => {
+  const saved = [
+    toSavedFilter(row('qualityFraction < 0.5'), true, FIELDS),
+    { ...toSavedFilter(row('interruptions > 2'), true, FIELDS), id: 'stale' }
+  ] satisfies SavedFilter[]
+
+  it('resolves built-in chips and saved filters, never a stale one', () => {
+    expect(quickFilterExpression('recent', saved)).toBe('created_at >= now-7d')
+    expect(quickFilterExpression('f1', saved)).toBe('qualityFraction < 0.5')
+    expect(quickFilterExpression('stale', saved)).toBe('')
+    expect(quickFilterExpression('deleted', saved)).toBe('')
+  })
+
+  it('ignores a chip from the URL that names no filter, prototype keys included', () => {
+    for (const chip of ['constructor', 'toString', '__proto__', 'deleted']) {
+      expect(quickFilterExpression(chip, saved)).toBe('')
+      expect(knownQuickFilter(chip, saved)).toBe('all')
+    }
+    expect(knownQuickFilter('recent', saved)).toBe('recent')
+    expect(knownQuickFilter('f1', saved)).toBe('f1')
+  })
+
+  it('combines with the advanced filter', () => {
+    expect(holterFilterExpression(quickFilterExpression('f1', saved), "clinic_name = 'North'"))
+      .toBe("(qualityFraction < 0.5) AND (clinic_name = 'North')")
+    expect(holterFilterExpression('', ' ')).toBe('')
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import { createSyntheticECG, demoScenario, toDownsampleResponse, toECGSampleRows } from '@/lib/ecg/synthetic'
+import type { SyntheticECGOptions } from '@/lib/ecg/synthetic'
+import { detectBeats, summarizeHeartRate } from '@/lib/ecg/beatDetection'
+import { detectArrhythmias } from '@/lib/ecg/arrhythmia'
+import { computeHRV } from '@/lib/ecg/hrv'
+
+const START = Date.parse('2026-05-01T00:00:00Z')
+const MINUTE = 60 * 1000
+
+function generate(options: Partial<SyntheticECGOptions> & { durationMs: number }) {
+  const ecg = createSyntheticECG({ start: START, ...options })
+  return { ecg, samples: ecg.samples(0, ecg.sampleCount) }
+}
+
+describe('createSyntheticECG', () => {
+  it('is reproducible from the seed', () => {
+    const a = createSyntheticECG({ start: START, durationMs: 5000, seed: 7 })
+    const b = createSyntheticECG({ start: START, durationMs: 5000, seed: 7 })
+    const c = createSyntheticECG({ start: START, durationMs: 5000, seed: 8 })
+
+    expect(a.samples(0, 1600)).toEqual(b.samples(0, 1600))
+    expect(a.samples(0, 1600)).not.toEqual(c.samples(0, 1600))
+    // A window reads the same however it is requested
+    expect(a.samples(400, 800)).toEqual(a.samples(0, 1600).slice(400, 800))
+    expect(a.sampleAt(1234)).toEqual(b.sampleAt(1234))
+  })
+
+  it('beats at the configured rate with lead III = II - I', () => {
+    const { ecg, samples } = generate({ durationMs: MINUTE, heartRate: 90 })
+    const { beats } = detectBeats(samples)
+
+    expect(ecg.sampleCount).toBe(19200)
+    expect(summarizeHeartRate(beats)?.mean).toBeCloseTo(90, -1)
+    expect(Math.abs(beats.length - ecg.beatsBetween(START, START + MINUTE).length)).toBeLessThanOrEqual(1)
+    samples.forEach(s => expect(s.channels[2]).toBe(s.channels[1] - s.channels[0]))
+  })
+
+  it('scales RR variability with hrvMs', () => {
+    const sdnn = (hrvMs: number) => {
+      const { samples } = generate({ durationMs: 2 * MINUTE, hrvMs, noiseUv: 5 })
+      return computeHRV(detectBeats(samples).beats).timeDomain?.sdnn ?? 0
+    }
+    const steady = sdnn(0)
+    const variable = sdnn(60)
+
+    expect(steady).toBeLessThan(variable)
+    expect(variable).toBeGreaterThan(30)
+  })
+
+  it('flags lead-off and dropout intervals', () => {
+    const { ecg, samples } = generate({
+      durationMs: 10000,
+      leadOff: [{ start: START + 2000, end: START + 4000, channels: [1] }],
+      dropouts: [{ start: START + 6000, end: START + 8000 }]
+    })
+    const at = (ms: number) => samples[Math.round((ms * ecg.samplingRate) / 1000)]
+
+    expect(at(3000).channels[0]).toBe(0)
+    expect(at(3000).lead_on_p).toEqual([false, true, true])
+    expect(at(3000).quality).toEqual([false, true, true])
+    expect(at(7000).lead_on_p).toEqual([true, true, true])
+    expect(at(7000).quality).toEqual([false, false, false])
+    expect(at(9000).quality).toEqual([true, true, true])
+
+    expect(ecg.coverage(1, START, START + 10000)).toEqual({ leadOff: 0.2, dropout: 0.2 })
+    expect(ecg.coverage(null, START, START + 10000)).toEqual({ leadOff: 0, dropout: 0.2 })
+  })
+
+  it('injects arrhythmias the detector finds', () => {
+    const { ecg, samples } = generate({
+      durationMs: 6 * MINUTE,
+      noiseUv: 5,
+      arrhythmias: [
+        { type: 'pause', start: START + 20000, pauseMs: 3200 },
+        { type: 'bradycardia', start: START + MINUTE, end: START + 1.5 * MINUTE },
+        { type: 'tachycardia', start: START + 2 * MINUTE, end: START + 2.5 * MINUTE },
+        { type: 'atrial_fibrillation', start: START + 3 * MINUTE, end: START + 5 * MINUTE },
+        { type: 'pvc', start: START + 5.5 * MINUTE }
+      ]
+    })
+    const events = detectArrhythmias(detectBeats(samples).beats, 2)
+    const found = (type: string, from: number, to: number) =>
+      events.some(e => e.type === type && e.start < START + to && e.end > START + from)
+
+    expect(found('pause', 19000, 25000)).toBe(true)
+    expect(found('bradycardia', MINUTE, 1.5 * MINUTE)).toBe(true)
+    expect(found('tachycardia', 2 * MINUTE, 2.5 * MINUTE)).toBe(true)
+    expect(found('atrial_fibrillation', 3 * MINUTE, 5 * MINUTE)).toBe(true)
+    // The 32-beat AF windows may reach a little before onset, but not into sinus rhythm
+    expect(found('atrial_fibrillation', 0, 2.5 * MINUTE)).toBe(false)
+
+    // The PVC lands in the cardiac cycle that contains its start time
+    const kinds = ecg.beatsBetween(START + 5.5 * MINUTE - 2000, START + 6 * MINUTE).map(b => b.kind)
+    expect(kinds.filter(k => k === 'pvc')).toHaveLength(1)
+  })
+
+  it('repeats the demo scenario every six hours', () => {
+    const { arrhythmias = [], leadOff = [], dropouts = [] } = demoScenario(START, 24 * 60 * MINUTE)
+    expect(arrhythmias).toHaveLength(24)
+    expect(leadOff).toHaveLength(4)
+    expect(dropouts).toHaveLength(4)
+    expect(leadOff[1].start - leadOff[0].start).toBe(6 * 60 * MINUTE)
+  })
+})
+
+describe('synthetic output shapes', () => {
+  const samples = createSyntheticECG({ start: START, durationMs: 100 }).samples(0, 32)
+
+  it('maps samples to ecg_sample rows', () => {
+    const rows = toECGSampleRows(samples, 'pod-1')
+    expect(rows).toHaveLength(32)
+    expect(rows[5]).toEqual({
+      pod_id: 'pod-1',
+      time: samples[5].time,
+      channel_1: samples[5].channels[0],
+      channel_2: samples[5].channels[1],
+      channel_3: samples[5].channels[2],
+      lead_on_p_1: true, lead_on_p_2: true, lead_on_p_3: true,
+      lead_on_n_1: true, lead_on_n_2: true, lead_on_n_3: true,
+      quality_1: true, quality_2: true, quality_3: true
+    })
+  })
+
+  it('maps samples to the downsample-ecg parallel arrays', () => {
+    const response = toDownsampleResponse(samples)
+    expect(response.timestamps).toEqual(samples.map(s => s.time))
+    expect(response.channel_2).toEqual(samples.map(s => s.channels[1]))
+    expect(response.lead_on_n_3).toHaveLength(32)
+    expect(response.quality_1?.every(Boolean)).toBe(true)
+  })
+})
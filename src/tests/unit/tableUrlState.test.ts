@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decodeSort,
+  encodeSort,
+  isTypingChange,
+  readTableUrlState,
+  writeTableUrlState
+} from '@/lib/utils/tableUrlState'
+import type { TableUrlState } from '@/lib/utils/tableUrlState'
+
+const DEFAULTS: TableUrlState = {
+  page: 1,
+  pageSize: 25,
+  sort: { key: null, direction: 'asc' },
+  quickFilter: '',
+  expression: '',
+  columns: null,
+  extras: { chip: 'all' }
+}
+
+describe('sort encoding', () => {
+  it('prefixes descending keys with -', () => {
+    expect(encodeSort({ key: 'status', direction: 'asc' })).toBe('status')
+    expect(encodeSort({ key: 'qualityFraction', direction: 'desc' })).toBe('-qualityFraction')
+    expect(encodeSort({ key: null, direction: 'desc' })).toBeNull()
+  })
+
+  it('decodes what it encodes and falls back on nothing', () => {
+    expect(decodeSort('-qualityFraction', DEFAULTS.sort)).toEqual({ key: 'qualityFraction', direction: 'desc' })
+    expect(decodeSort('status', DEFAULTS.sort)).toEqual({ key: 'status', direction: 'asc' })
+    expect(decodeSort('-', DEFAULTS.sort)).toBe(DEFAULTS.sort)
+    expect(decodeSort(null, DEFAULTS.sort)).toBe(DEFAULTS.sort)
+  })
+})
+
+describe('readTableUrlState', () => {
+  it('reads every param', () => {
+    const params = new URLSearchParams('page=3&size=50&sort=-qualityFraction&q=north&expr=qualityFraction+%3C+0.5&cols=study_id,status&chip=recent')
+    expect(readTableUrlState(params, DEFAULTS)).toEqual({
+      page: 3,
+      pageSize: 50,
+      sort: { key: 'qualityFraction', direction: 'desc' },
+      quickFilter: 'north',
+      expression: 'qualityFraction < 0.5',
+      columns: ['study_id', 'status'],
+      extras: { chip: 'recent' }
+    })
+  })
+
+  it('falls back to the defaults for missing or malformed values', () => {
+    expect(readTableUrlState(new URLSearchParams(), DEFAULTS)).toEqual(DEFAULTS)
+    const state = readTableUrlState(new URLSearchParams('page=0&size=abc'), DEFAULTS)
+    expect(state.page).toBe(1)
+    expect(state.pageSize).toBe(25)
+    expect(readTableUrlState(new URLSearchParams('page=-2'), DEFAULTS).page).toBe(1)
+  })
+
+  it('ignores a page size the lab does not offer', () => {
+    expect(readTableUrlState(new URLSearchParams('size=1000'), DEFAULTS, [10, 25, 50]).pageSize).toBe(25)
+    expect(readTableUrlState(new URLSearchParams('size=50'), DEFAULTS, [10, 25, 50]).pageSize).toBe(50)
+  })
+})
+
+describe('writeTableUrlState', () => {
+  it('leaves defaults out of the URL', () => {
+    expect(writeTableUrlState(new URLSearchParams(), DEFAULTS, DEFAULTS).toString()).toBe('')
+  })
+
+  it('round-trips a state and keeps params it does not own', () => {
+    const state: TableUrlState = {
+      page: 2,
+      pageSize: 50,
+      sort: { key: 'status', direction: 'desc' },
+      quickFilter: 'north',
+      expression: "status = 'critical'",
+      columns: ['status', 'study_id'],
+      extras: { chip: 'recent' }
+    }
+    const params = writeTableUrlState(new URLSearchParams('tab=charts&page=9'), state, DEFAULTS)
+    expect(params.get('tab')).toBe('charts')
+    expect(params.get('sort')).toBe('-status')
+    expect(readTableUrlState(params, DEFAULTS)).toEqual(state)
+  })
+
+  it('removes a value set back to its default', () => {
+    const params = writeTableUrlState(new URLSearchParams('q=north&chip=recent'), DEFAULTS, DEFAULTS)
+    expect(params.toString()).toBe('')
+  })
+})
+
+describe('isTypingChange', () => {
+  it('is true when only the typed filters change, whatever the page', () => {
+    expect(isTypingChange(DEFAULTS, { ...DEFAULTS, quickFilter: 'n', page: 1 })).toBe(true)
+    expect(isTypingChange({ ...DEFAULTS, page: 4 }, { ...DEFAULTS, expression: 'status', page: 1 })).toBe(true)
+  })
+
+  it('is false for navigation and for no change at all', () => {
+    expect(isTypingChange(DEFAULTS, DEFAULTS)).toBe(false)
+    expect(isTypingChange(DEFAULTS, { ...DEFAULTS, quickFilter: 'n', sort: { key: 'status', direction: 'asc' } })).toBe(false)
+    expect(isTypingChange(DEFAULTS, { ...DEFAULTS, quickFilter: 'n', extras: { chip: 'recent' } })).toBe(false)
+    expect(isTypingChange(DEFAULTS, { ...DEFAULTS, page: 2 })).toBe(false)
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import {
+  TILE_LEVELS,
+  selectTileLevel,
+  tilesForRange,
+  isTileComplete,
+  mergeTileSamples
+} from '@/lib/ecg/tiles'
+import type { ECGSample } from '@/hooks/api/ecg/useECG'
+
+const HOUR = 60 * 60 * 1000
+const DAY_START = Date.parse('2023-01-01T00:00:00Z')
+
+function sample(t: number): ECGSample {
+  return {
+    time: new Date(t).toISOString(),
+    channels: [0, 0, 0],
+    lead_on_p: [true, true, true],
+    lead_on_n: [true, true, true],
+    quality: [true, true, true]
+  }
+}
+
+describe('tiles', () => {
+  it('picks coarser levels as the viewport widens', () => {
+    const ids = [10 * 1000, 60 * 1000, 10 * 60 * 1000, HOUR, 24 * HOUR]
+      .map(viewMs => selectTileLevel(viewMs, 1000).id)
+
+    expect(ids).toEqual(['raw-10s', 'f4-1m', 'f20-5m', 'pp-30m', 'pp-4h'])
+    // Nothing is fine enough for a 1 s window; fall back to raw
+    expect(selectTileLevel(1000, 1000)).toBe(TILE_LEVELS[0])
+  })
+
+  it('keeps a 24 hour viewport to a handful of epoch-aligned tiles', () => {
+    const level = selectTileLevel(24 * HOUR, 1000)
+    const tiles = tilesForRange(level, DAY_START, DAY_START + 24 * HOUR)
+
+    expect(tiles).toHaveLength(6)
+    expect(tiles[0].start).toBe(DAY_START)
+    expect(tiles[5].end).toBe(DAY_START + 24 * HOUR)
+    expect(tilesForRange(level, DAY_START, DAY_START + 24 * HOUR, 1)).toHaveLength(8)
+  })
+
+  it('only treats settled tiles as complete', () => {
+    const [tile] = tilesForRange(TILE_LEVELS[1], DAY_START, DAY_START + 1)
+
+    expect(isTileComplete(tile, tile.end + HOUR)).toBe(true)
+    expect(isTileComplete(tile, tile.end + 1000)).toBe(false)
+  })
+
+  it('merges tiles in order, clips to the viewport and drops boundary duplicates', () => {
+    const a = [0, 1000, 2000].map(t => sample(DAY_START + t))
+    const b = [2000, 3000, 4000].map(t => sample(DAY_START + t))
+    const merged = mergeTileSamples([a, b], DAY_START + 500, DAY_START + 4000)
+
+    expect(merged.map(s => Date.parse(s.time) - DAY_START)).toEqual([1000, 2000, 3000])
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createWFDBWriter,
+  decodeWFDBAnnotations,
+  decodeWFDBSignals,
+  encodeWFDBAnnotations,
+  parseWFDBHeader,
+  wfdbAnnotationsFor,
+  WFDB_ANNOTATION_CODES
+} from '@/lib/ecg/formats/wfdb'
+import { createZip, crc32 } from '@/lib/utils/zip'
+import type { ECGSample } from '@/hooks/api/ecg/useECG'
+import type { ECGAnnotationRow } from '@/types/domain/ecg'
+
+const START = Date.parse('2026-03-04T05:06:07.250Z')
+
+function makeSamples(count: number, rate: number, startMs = START, value = (i: number) => i * 10): ECGSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    time: new Date(startMs + (i * 1000) / rate).toISOString(),
+    channels: [value(i), -value(i), 0] as [number, number, number],
+    lead_on_p: [true, true, true] as [boolean, boolean, boolean],
+    lead_on_n: [true, true, true] as [boolean, boolean, boolean],
+    quality: [true, true, true] as [boolean, boolean, boolean]
+  }))
+}
+
+function annotation(label: string, start: number, end: number, extra: Partial<ECGAnnotationRow> = {}) {
+  return {
+    label,
+    start_time: new Date(start).toISOString(),
+    end_time: new Date(end).toISOString(),
+    channel: null,
+    note: null,
+    ...extra
+  }
+}
+
+describe('WFDB writer', () => {
+  it.each([212, 16] as const)('round-trips a record in format %i', format => {
+    const writer = createWFDBWriter({ recordName: 'ECG study-9', samplingRate: 10, format, podId: 'pod-1', studyId: 'study-9' })
+    const samples = makeSamples(25, 10)
+    writer.addSamples(samples.slice(0, 13))
+    // Overlapping chunk boundaries repeat samples
+    writer.addSamples(samples.slice(12))
+    const result = writer.finish()
+
+    const header = parseWFDBHeader(result.header)
+    expect(header.recordName).toBe('ECG_study_9')
+    expect(header.signalCount).toBe(3)
+    expect(header.samplingRate).toBe(10)
+    expect(header.sampleCount).toBe(25)
+    expect(header.baseTime).toBe('05:06:07.250')
+    expect(header.baseDate).toBe('04/03/2026')
+    expect(header.signals.map(s => s.description)).toEqual(['ECG I', 'ECG II', 'ECG III'])
+    expect(header.signals[0].file).toBe('ECG_study_9.dat')
+    expect(header.signals[0].format).toBe(format)
+    expect(header.comments).toContain('pod_id pod-1')
+    expect(header.comments).toContain('study_id study-9')
+
+    const gain = header.signals[0].gain
+    const signals = decodeWFDBSignals(result.dat, format, 3, header.sampleCount)
+    const expected = samples.map(s => Math.round((s.channels[0] * gain) / 1000))
+    expect(Array.from(signals[0])).toEqual(expected)
+    expect(Array.from(signals[1])).toEqual(expected.map(v => -v || 0))
+
+    // Header checksums and initial values match the data
+    header.signals.forEach((spec, s) => {
+      const sum = signals[s].reduce((n, v) => (n + v) & 0xffff, 0)
+      expect(spec.checksum).toBe(sum > 0x7fff ? sum - 0x10000 : sum)
+      expect(spec.initValue).toBe(signals[s][0])
+    })
+  })
+
+  it('writes gaps as invalid samples and clips out-of-range values', () => {
+    const writer = createWFDBWriter({ recordName: 'r', samplingRate: 10, format: 212 })
+    const samples = [...makeSamples(5, 10), ...makeSamples(5, 10, START + 800)]
+    samples[1].channels[0] = 50000
+    writer.addSamples(samples)
+    const result = writer.finish()
+
+    expect(result.sampleCount).toBe(13)
+    expect(result.gapSamples).toBe(3)
+    expect(result.clippedSamples).toBe(1)
+    const [lead1] = decodeWFDBSignals(result.dat, 212, 3, result.sampleCount)
+    expect(lead1[1]).toBe(2047)
+    expect(Array.from(lead1.slice(5, 8))).toEqual([-2048, -2048, -2048])
+  })
+
+  it('encodes annotations with long intervals, channels and aux text', () => {
+    const annotations = [
+      { sample: 5, code: WFDB_ANNOTATION_CODES.NORMAL },
+      { sample: 5000, code: WFDB_ANNOTATION_CODES.PVC, channel: 1 },
+      { sample: 5001, code: WFDB_ANNOTATION_CODES.NOTE, channel: 1, aux: 'Patient event: dizzy' },
+      { sample: 5100, code: WFDB_ANNOTATION_CODES.RHYTHM, channel: 0, aux: '(AFIB' }
+    ]
+    expect(decodeWFDBAnnotations(encodeWFDBAnnotations(annotations))).toEqual([
+      { sample: 5, code: 1, channel: 0 },
+      { sample: 5000, code: 5, channel: 1 },
+      { sample: 5001, code: 22, channel: 1, aux: 'Patient event: dizzy' },
+      { sample: 5100, code: 28, channel: 0, aux: '(AFIB' }
+    ])
+  })
+
+  it('labels detected beats from study annotations', () => {
+    const beats = [0, 1000, 2000, 3000].map(offset => ({ time: START + offset, channel: 2 as const }))
+    const mapped = wfdbAnnotationsFor(beats, [
+      annotation('pvc', START + 900, START + 1100),
+      annotation('af', START + 1500, START + 3500),
+      annotation('patient_event', START + 2500, START + 2500, { note: 'dizzy', channel: 3 })
+    ])
+
+    expect(mapped.map(a => [a.timeMs - START, a.code, a.channel, a.aux])).toEqual([
+      [0, WFDB_ANNOTATION_CODES.NORMAL, 1, undefined],
+      [1000, WFDB_ANNOTATION_CODES.PVC, 1, undefined],
+      [1500, WFDB_ANNOTATION_CODES.RHYTHM, 0, '(AFIB'],
+      [2000, WFDB_ANNOTATION_CODES.NORMAL, 1, undefined],
+      [2500, WFDB_ANNOTATION_CODES.NOTE, 2, 'Patient event: dizzy'],
+      [3000, WFDB_ANNOTATION_CODES.NORMAL, 1, undefined],
+      [3500, WFDB_ANNOTATION_CODES.RHYTHM, 0, '(N']
+    ])
+
+    const writer = createWFDBWriter({ recordName: 'r', samplingRate: 100 })
+    writer.addSamples(makeSamples(400, 100))
+    mapped.forEach(a => writer.addAnnotation(a.timeMs, a.code, { channel: a.channel, aux: a.aux }))
+    const atr = writer.finish().atr
+    expect(atr).not.toBeNull()
+    const decoded = decodeWFDBAnnotations(atr!)
+    expect(decoded.map(a => a.sample)).toEqual([0, 100, 150, 200, 250, 300, 350])
+    expect(decoded[4].aux).toBe('Patient event: dizzy')
+  })
+})
+
+describe('zip writer', () => {
+  it('stores entries with CRCs and a central directory', () => {
+    const data = new TextEncoder().encode('123456789')
+    expect(crc32(data)).toBe(0xcbf43926)
+
+    const parts = createZip([{ name: 'a.hea', data, modified: new Date(2026, 2, 4, 5, 6, 8) }])
+    const bytes = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+    let offset = 0
+    parts.forEach(p => {
+      bytes.set(p, offset)
+      offset += p.length
+    })
+    const view = new DataView(bytes.buffer)
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50)
+    expect(view.getUint32(14, true)).toBe(0xcbf43926)
+    expect(new TextDecoder().decode(bytes.subarray(30, 35))).toBe('a.hea')
+    expect(new TextDecoder().decode(bytes.subarray(35, 44))).toBe('123456789')
+
+    const end = bytes.length - 22
+    expect(view.getUint32(end, true)).toBe(0x06054b50)
+    expect(view.getUint16(end + 10, true)).toBe(1)
+    const centralOffset = view.getUint32(end + 16, true)
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50)
+    expect(view.getUint32(centralOffset + 42, true)).toBe(0)
+  })
+})
@@ -9,6 +9,35 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      clinic_memberships: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clinic_memberships_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clinics: {
         Row: {
           id: string
@@ -63,6 +92,118 @@ export type Database = {
         }
         Relationships: []
       }
+      ecg_annotations: {
+        Row: {
+          author_email: string | null
+          channel: number | null
+          created_at: string
+          created_by: string | null
+          end_time: string
+          id: string
+          label: string
+          note: string | null
+          pod_id: string
+          start_time: string
+          study_id: string
+          updated_at: string
+        }
+        Insert: {
+          author_email?: string | null
+          channel?: number | null
+          created_at?: string
+          created_by?: string | null
+          end_time: string
+          id?: string
+          label: string
+          note?: string | null
+          pod_id: string
+          start_time: string
+          study_id: string
+          updated_at?: string
+        }
+        Update: {
+          author_email?: string | null
+          channel?: number | null
+          created_at?: string
+          created_by?: string | null
+          end_time?: string
+          id?: string
+          label?: string
+          note?: string | null
+          pod_id?: string
+          start_time?: string
+          study_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ecg_annotations_study_id_fkey"
+            columns: ["study_id"]
+            isOneToOne: false
+            referencedRelation: "study"
+            referencedColumns: ["study_id"]
+          },
+        ]
+      }
+      ecg_measurements: {
+        Row: {
+          amplitude_mv: number | null
+          channel: number
+          created_at: string
+          created_by: string | null
+          duration_ms: number | null
+          end_time: string
+          id: string
+          kind: string
+          label: string
+          note: string | null
+          pod_id: string
+          rate_bpm: number | null
+          start_time: string
+          study_id: string
+        }
+        Insert: {
+          amplitude_mv?: number | null
+          channel: number
+          created_at?: string
+          created_by?: string | null
+          duration_ms?: number | null
+          end_time: string
+          id?: string
+          kind: string
+          label: string
+          note?: string | null
+          pod_id: string
+          rate_bpm?: number | null
+          start_time: string
+          study_id: string
+        }
+        Update: {
+          amplitude_mv?: number | null
+          channel?: number
+          created_at?: string
+          created_by?: string | null
+          duration_ms?: number | null
+          end_time?: string
+          id?: string
+          kind?: string
+          label?: string
+          note?: string | null
+          pod_id?: string
+          rate_bpm?: number | null
+          start_time?: string
+          study_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ecg_measurements_study_id_fkey"
+            columns: ["study_id"]
+            isOneToOne: false
+            referencedRelation: "study"
+            referencedColumns: ["study_id"]
+          },
+        ]
+      }
       ecg_sample: {
         Row: {
           channel_1: number | null
@@ -140,6 +281,53 @@ export type Database = {
         }
         Relationships: []
       }
+      ecg_strip_bookmarks: {
+        Row: {
+          author_email: string | null
+          channels: number[]
+          created_at: string
+          created_by: string | null
+          end_time: string
+          id: string
+          label: string | null
+          pod_id: string
+          start_time: string
+          study_id: string
+        }
+        Insert: {
+          author_email?: string | null
+          channels?: number[]
+          created_at?: string
+          created_by?: string | null
+          end_time: string
+          id?: string
+          label?: string | null
+          pod_id: string
+          start_time: string
+          study_id: string
+        }
+        Update: {
+          author_email?: string | null
+          channels?: number[]
+          created_at?: string
+          created_by?: string | null
+          end_time?: string
+          id?: string
+          label?: string | null
+          pod_id?: string
+          start_time?: string
+          study_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ecg_strip_bookmarks_study_id_fkey"
+            columns: ["study_id"]
+            isOneToOne: false
+            referencedRelation: "study"
+            referencedColumns: ["study_id"]
+          },
+        ]
+      }
       edge_function_stats: {
         Row: {
           cpu_time: unknown | null
@@ -241,29 +429,125 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_filter_pins: {
+        Row: {
+          created_at: string
+          filter_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filter_id: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          filter_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_filter_pins_filter_id_fkey"
+            columns: ["filter_id"]
+            isOneToOne: false
+            referencedRelation: "saved_filters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_filter_versions: {
+        Row: {
+          created_at: string
+          description: string | null
+          edited_by: string | null
+          editor_email: string | null
+          filter_expression: string
+          filter_id: string
+          name: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          edited_by?: string | null
+          editor_email?: string | null
+          filter_expression: string
+          filter_id: string
+          name: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          edited_by?: string | null
+          editor_email?: string | null
+          filter_expression?: string
+          filter_id?: string
+          name?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_filter_versions_filter_id_fkey"
+            columns: ["filter_id"]
+            isOneToOne: false
+            referencedRelation: "saved_filters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       saved_filters: {
         Row: {
+          clinic_id: string | null
           created_at: string | null
+          description: string | null
           filter_expression: string
           id: string
+          lab: string
           name: string
+          owner_email: string | null
+          scope: string
+          updated_at: string
           user_id: string
+          version: number
         }
         Insert: {
+          clinic_id?: string | null
           created_at?: string | null
+          description?: string | null
           filter_expression: string
           id?: string
+          lab?: string
           name: string
-          user_id: string
+          owner_email?: string | null
+          scope?: string
+          updated_at?: string
+          user_id?: string
+          version?: number
         }
         Update: {
+          clinic_id?: string | null
           created_at?: string | null
+          description?: string | null
           filter_expression?: string
           id?: string
+          lab?: string
           name?: string
+          owner_email?: string | null
+          scope?: string
+          updated_at?: string
           user_id?: string
+          version?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "saved_filters_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       study: {
         Row: {
@@ -331,6 +615,38 @@ export type Database = {
           },
         ]
       }
+      study_access_grants: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          granted_by: string | null
+          study_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          granted_by?: string | null
+          study_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          granted_by?: string | null
+          study_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_access_grants_study_id_fkey"
+            columns: ["study_id"]
+            isOneToOne: false
+            referencedRelation: "study"
+            referencedColumns: ["study_id"]
+          },
+        ]
+      }
       study_readings: {
         Row: {
           battery_level: number | null
@@ -566,6 +882,12 @@ export type Database = {
         }
         Returns: unknown
       }
+      can_access_study: {
+        Args: {
+          p_study_id: string
+        }
+        Returns: boolean
+      }
       chunk_compression_stats: {
         Args: {
           hypertable: unknown
@@ -1368,6 +1690,15 @@ export type Database = {
           quality_3: boolean
         }[]
       }
+      peak_preserving_downsample_ecg_json: {
+        Args: {
+          p_pod_id: string
+          p_time_start: string
+          p_time_end: string
+          p_max_pts: number
+        }
+        Returns: Json
+      }
       remove_compression_policy: {
         Args: {
           hypertable: unknown
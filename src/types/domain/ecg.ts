@@ -8,6 +8,13 @@ import type { TypeGuard, Transform } from '../utils';
 
 // Raw database type from generated types
 export type ECGSampleRow = Database['public']['Tables']['ecg_sample']['Row'];
+export type ECGMeasurementRow = Database['public']['Tables']['ecg_measurements']['Row'];
+export type ECGMeasurementInsert = Database['public']['Tables']['ecg_measurements']['Insert'];
+export type ECGAnnotationRow = Database['public']['Tables']['ecg_annotations']['Row'];
+export type ECGAnnotationInsert = Database['public']['Tables']['ecg_annotations']['Insert'];
+export type ECGAnnotationUpdate = Database['public']['Tables']['ecg_annotations']['Update'];
+export type ECGStripBookmarkRow = Database['public']['Tables']['ecg_strip_bookmarks']['Row'];
+export type ECGStripBookmarkInsert = Database['public']['Tables']['ecg_strip_bookmarks']['Insert'];
 
 /**
  * ECG data types for visualization and analysis.
@@ -1,19 +1,17 @@
 /**
  * Shared types for advanced filtering functionality
  */
+import type { FilterError, FilterNode } from '@/lib/filter';
 
 export type FilterOperator = '=' | '!=' | '>' | '<' | '>=' | '<=' | 'contains' | 'startsWith' | 'endsWith';
 
 export interface FilterField {
   key: string;
-  type: 'string' | 'number' | 'boolean' | 'date';
+  /** A uuid field is matched with = or IN only and left out of quick filters */
+  type: 'string' | 'number' | 'boolean' | 'date' | 'uuid';
   description: string;
-}
-
-export interface FilterExpression {
-  field: string;
-  operator: FilterOperator;
-  value: unknown;
+  /** Known values of a string field, offered by the expression editor */
+  values?: string[];
 }
 
 export interface FilterPreset {
@@ -23,9 +21,40 @@ export interface FilterPreset {
   description?: string;
 }
 
+/** The lab a saved filter was written for; each has its own fields */
+export type FilterLab = 'holter' | 'pod' | 'data' | 'clinic';
+
+/** Who can see a saved filter: its owner, one clinic's members, or everyone signed in */
+export type SavedFilterScope = 'private' | 'clinic' | 'organization';
+
+/** A saved filter, checked against its lab's current fields when loaded */
+export interface SavedFilter extends FilterPreset {
+  lab: FilterLab;
+  scope: SavedFilterScope;
+  /** Set when scope is 'clinic' */
+  clinicId: string | null;
+  ownerId: string;
+  ownerEmail: string | null;
+  version: number;
+  updatedAt: string;
+  /** Shown as a quick filter chip for the current user */
+  pinned: boolean;
+  /** Why the expression no longer fits the fields; a stale filter is flagged, never applied */
+  error: FilterError | null;
+}
+
+export interface SavedFilterVersion {
+  version: number;
+  name: string;
+  expression: string;
+  description?: string;
+  editorEmail: string | null;
+  createdAt: string;
+}
+
 export interface FilterConfig<T> {
+  /** The fields expressions may use (see src/lib/filter) */
   fields: FilterField[];
-  parseExpression: (expression: string) => FilterExpression | null;
   placeholder?: string;
   example?: string;
   presets?: FilterPreset[];
@@ -33,15 +62,17 @@ export interface FilterConfig<T> {
 
 export interface FilterState<T> {
   quickFilter: string;
-  expression: FilterExpression | null;
-  error: string | null;
+  /** The expression as typed */
+  expression: string;
+  /** Its parsed form; null when empty or invalid */
+  ast: FilterNode | null;
+  error: FilterError | null;
   setQuickFilter: (value: string) => void;
   setExpression: (value: string) => void;
-  setError: (value: string | null) => void;
   applyFilter: (items: T[]) => T[];
 }
 
-export type FilterFieldType = 'string' | 'number' | 'boolean' | 'date';
+export type FilterFieldType = 'string' | 'number' | 'boolean' | 'date' | 'uuid';
 
 export interface FilterCondition {
   field: string;
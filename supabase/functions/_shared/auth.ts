@@ -0,0 +1,300 @@
+/**
+PHASE: Edge Function
+FILE: _shared/auth.ts
+
+Caller verification and pod scoping shared by the ECG edge functions.
+Both functions read ecg_sample with the service-role key, so row level
+security does not protect the data; every request goes through
+authorizePodRequest first:
+
+1. The bearer token is verified: HS256 against the project's JWT secret,
+   or RS256 / ES256 against the auth server's JWKS, then exp (required) /
+   nbf, and iss / aud when configured. Failures, including keys WebCrypto
+   refuses, are 401.
+2. The caller must be a signed-in user (a sub claim); the anon key alone
+   is not enough. Admins (app_metadata.role = 'admin') and the service
+   role skip the scoping below.
+3. The pod's studies overlapping the requested range must all belong to a
+   clinic the user is a member of (clinic_memberships) or be granted to
+   them (study_access_grants). A pod is reused across studies and clinics,
+   so a range reaching into another clinic's study is refused too. A
+   refusal is 403.
+
+No Deno or npm imports, so the module also runs under the web app's test
+runner.
+*/
+import { HttpError } from './errors.ts';
+
+export class AuthError extends HttpError {
+    constructor(message: string, public override readonly status: 401 | 403) {
+        super(status, message, status === 401 ? 'unauthorized' : 'forbidden');
+        this.name = 'AuthError';
+    }
+}
+
+export interface JwtClaims {
+    sub?: string;
+    role?: string;
+    email?: string;
+    aud?: string | string[];
+    iss?: string;
+    exp?: number;
+    nbf?: number;
+    app_metadata?: { role?: string; [key: string]: unknown };
+    [key: string]: unknown;
+}
+
+export interface JwtConfig {
+    /** HS256 secret; tokens signed with a key pair are checked against jwksUrl */
+    secret?: string;
+    jwksUrl?: string;
+    issuer?: string;
+    audience?: string;
+    /** Allowed clock skew for exp / nbf */
+    leewaySeconds?: number;
+    /** For tests: a stand-in for fetch when loading the JWKS, and the clock */
+    fetch?: typeof fetch;
+    now?: () => number;
+}
+
+interface Jwk extends JsonWebKey {
+    kid?: string;
+}
+
+const encoder = new TextEncoder();
+
+function base64UrlDecode(value: string): Uint8Array {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+function decodeJson<T>(segment: string): T {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+}
+
+// Keys per JWKS URL; reloaded when a token names a kid we have not seen
+const jwksCache = new Map<string, { keys: Jwk[]; loadedAt: number }>();
+const JWKS_RELOAD_MS = 60 * 1000;
+
+async function jwksKey(config: JwtConfig, kid: string | undefined, now: number): Promise<Jwk | null> {
+    const url = config.jwksUrl!;
+    const find = (keys: Jwk[]) => keys.find(key => kid === undefined || key.kid === kid) ?? null;
+    const cached = jwksCache.get(url);
+    if (cached) {
+        const key = find(cached.keys);
+        if (key || now - cached.loadedAt < JWKS_RELOAD_MS) return key;
+    }
+    const response = await (config.fetch ?? fetch)(url);
+    if (!response.ok) throw new Error(`JWKS request failed with status ${response.status}`);
+    const { keys = [] } = await response.json() as { keys?: Jwk[] };
+    jwksCache.set(url, { keys, loadedAt: now });
+    return find(keys);
+}
+
+// A key or signature WebCrypto refuses (malformed JWK, wrong length) makes
+// the token invalid; it must not surface as a 500
+async function cryptoVerify(verify: () => Promise<boolean>): Promise<boolean> {
+    try {
+        return await verify();
+    } catch {
+        throw new AuthError('Token signature is invalid', 401);
+    }
+}
+
+async function verifySignature(alg: string, kid: string | undefined, data: Uint8Array, signature: Uint8Array, config: JwtConfig, now: number): Promise<boolean> {
+    if (alg === 'HS256') {
+        if (!config.secret) throw new AuthError('Token algorithm not accepted', 401);
+        const secret = config.secret;
+        return cryptoVerify(async () => {
+            const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+            return crypto.subtle.verify('HMAC', key, signature, data);
+        });
+    }
+    if (alg !== 'RS256' && alg !== 'ES256') throw new AuthError('Token algorithm not accepted', 401);
+    if (!config.jwksUrl) throw new AuthError('Token algorithm not accepted', 401);
+    const jwk = await jwksKey(config, kid, now);
+    if (!jwk) throw new AuthError('Token signing key is unknown', 401);
+    if (alg === 'RS256') {
+        return cryptoVerify(async () => {
+            const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+            return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data);
+        });
+    }
+    return cryptoVerify(async () => {
+        const key = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+        return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, signature, data);
+    });
+}
+
+/** Verified claims of a compact JWS, or an AuthError (401) */
+export async function verifyJwt(token: string, config: JwtConfig): Promise<JwtClaims> {
+    const parts = token.split('.');
+    if (parts.length !== 3) throw new AuthError('Malformed token', 401);
+    let header: { alg?: string; kid?: string };
+    let claims: JwtClaims;
+    try {
+        header = decodeJson(parts[0]);
+        claims = decodeJson(parts[1]);
+    } catch {
+        throw new AuthError('Malformed token', 401);
+    }
+
+    const nowMs = (config.now ?? Date.now)();
+    const valid = await verifySignature(
+        header.alg ?? '',
+        header.kid,
+        encoder.encode(`${parts[0]}.${parts[1]}`),
+        base64UrlDecode(parts[2]),
+        config,
+        nowMs
+    );
+    if (!valid) throw new AuthError('Token signature is invalid', 401);
+
+    const now = nowMs / 1000;
+    const leeway = config.leewaySeconds ?? 30;
+    // A token without an expiry would be valid forever
+    if (typeof claims.exp !== 'number') throw new AuthError('Token has no expiry', 401);
+    if (now > claims.exp + leeway) throw new AuthError('Token has expired', 401);
+    if (typeof claims.nbf === 'number' && now < claims.nbf - leeway) throw new AuthError('Token is not valid yet', 401);
+    if (config.issuer && claims.iss !== config.issuer) throw new AuthError('Token issuer is not accepted', 401);
+    // The service-role key carries no audience
+    if (config.audience && claims.role !== 'service_role') {
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.includes(config.audience)) throw new AuthError('Token audience is not accepted', 401);
+    }
+    return claims;
+}
+
+/**
+ * Verification settings from the function's environment: JWT_SECRET or
+ * SUPABASE_JWT_SECRET for HS256, and the project's JWKS for key pairs
+ * (JWT_JWKS_URL, by default the auth server's well-known endpoint).
+ * JWT_ISSUER, when set, pins the iss claim.
+ */
+export function jwtConfigFromEnv(env: (name: string) => string | undefined): JwtConfig {
+    const supabaseUrl = env('SUPABASE_URL');
+    return {
+        secret: env('JWT_SECRET') ?? env('SUPABASE_JWT_SECRET'),
+        jwksUrl: env('JWT_JWKS_URL') ?? (supabaseUrl ? `${supabaseUrl}/auth/v1/.well-known/jwks.json` : undefined),
+        issuer: env('JWT_ISSUER'),
+        audience: env('JWT_AUDIENCE') ?? 'authenticated'
+    };
+}
+
+export function bearerToken(req: Request): string | null {
+    const match = (req.headers.get('Authorization') ?? '').match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+}
+
+export interface StudyScope {
+    study_id: string;
+    clinic_id: string | null;
+    start_timestamp: string | null;
+    end_timestamp: string | null;
+}
+
+export interface AccessGrants {
+    clinicIds: string[];
+    studyIds: string[];
+}
+
+/** Where the clinic and study mapping is read from; Supabase in production */
+export interface AccessStore {
+    grantsFor(userId: string): Promise<AccessGrants>;
+    studiesForPod(podId: string): Promise<StudyScope[]>;
+}
+
+export interface PodRange {
+    pod_id: string;
+    time_start: string;
+    time_end: string;
+}
+
+export interface AuthContext {
+    userId: string | null;
+    claims: JwtClaims;
+}
+
+export function isUnscoped(claims: JwtClaims): boolean {
+    return claims.role === 'service_role' || claims.app_metadata?.role === 'admin';
+}
+
+/**
+ * Whether the grants cover every study of the pod that overlaps the range.
+ * A range overlapping no study at all is refused: its samples cannot be
+ * attributed to a clinic.
+ */
+export function canAccessPodRange(grants: AccessGrants, studies: StudyScope[], range: PodRange): boolean {
+    const start = new Date(range.time_start).getTime();
+    const end = new Date(range.time_end).getTime();
+    const overlapping = studies.filter(study => {
+        const studyStart = study.start_timestamp ? new Date(study.start_timestamp).getTime() : -Infinity;
+        const studyEnd = study.end_timestamp ? new Date(study.end_timestamp).getTime() : Infinity;
+        return studyStart < end && start < studyEnd;
+    });
+    return overlapping.length > 0 && overlapping.every(study =>
+        grants.studyIds.includes(study.study_id)
+        || (study.clinic_id !== null && grants.clinicIds.includes(study.clinic_id))
+    );
+}
+
+/** Verify the caller and check they may read the pod over the range; throws AuthError */
+export async function authorizePodRequest(
+    req: Request,
+    range: PodRange,
+    { jwt, store }: { jwt: JwtConfig; store: AccessStore }
+): Promise<AuthContext> {
+    const token = bearerToken(req);
+    if (!token) throw new AuthError('Missing bearer token', 401);
+    const claims = await verifyJwt(token, jwt);
+    if (isUnscoped(claims)) return { userId: claims.sub ?? null, claims };
+    if (!claims.sub) throw new AuthError('Sign in to view ECG data', 401);
+
+    const [grants, studies] = await Promise.all([store.grantsFor(claims.sub), store.studiesForPod(range.pod_id)]);
+    if (!canAccessPodRange(grants, studies, range)) {
+        throw new AuthError('Not authorized for this pod and time range', 403);
+    }
+    return { userId: claims.sub, claims };
+}
+
+// The part of the supabase-js client the store uses
+interface QueryResult {
+    data: unknown[] | null;
+    error: { message: string } | null;
+}
+interface TableQuery {
+    select(columns: string): { eq(column: string, value: string): PromiseLike<QueryResult> };
+}
+export interface AccessQueryClient {
+    from(table: string): TableQuery;
+}
+
+function rowsOf<T>({ data, error }: QueryResult, table: string): T[] {
+    if (error) throw new Error(`Failed to read ${table}: ${error.message}`);
+    return (data ?? []) as T[];
+}
+
+/** AccessStore over the clinic_memberships / study_access_grants tables */
+export function supabaseAccessStore(client: AccessQueryClient, now: () => number = Date.now): AccessStore {
+    return {
+        async grantsFor(userId) {
+            const [memberships, grants] = await Promise.all([
+                client.from('clinic_memberships').select('clinic_id').eq('user_id', userId),
+                client.from('study_access_grants').select('study_id, expires_at').eq('user_id', userId)
+            ]);
+            return {
+                clinicIds: rowsOf<{ clinic_id: string }>(memberships, 'clinic_memberships').map(row => row.clinic_id),
+                studyIds: rowsOf<{ study_id: string; expires_at: string | null }>(grants, 'study_access_grants')
+                    .filter(row => !row.expires_at || new Date(row.expires_at).getTime() > now())
+                    .map(row => row.study_id)
+            };
+        },
+        async studiesForPod(podId) {
+            const result = await client.from('study').select('study_id, clinic_id, start_timestamp, end_timestamp').eq('pod_id', podId);
+            return rowsOf<StudyScope>(result, 'study');
+        }
+    };
+}
@@ -0,0 +1,33 @@
+/**
+PHASE: Edge Function
+FILE: _shared/cors.ts
+
+CORS headers for the browser app. Every response carries them, errors
+included, or the browser hides the status and body from the client.
+*/
+
+const ALLOWED_HEADERS = [
+    'authorization',
+    'x-client-info',
+    'apikey',
+    'content-type',
+    'accept',
+    'x-application-name',
+    'x-supabase-client',
+    'x-request-id'
+];
+
+/** CORS headers, exposing x-request-id plus any function-specific response headers */
+export function corsHeaders(exposeHeaders: string[] = []): Record<string, string> {
+    return {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': ALLOWED_HEADERS.join(', '),
+        'Access-Control-Max-Age': '86400',
+        'Access-Control-Expose-Headers': ['x-request-id', ...exposeHeaders].join(', ')
+    };
+}
+
+export function preflightResponse(headers: Record<string, string>): Response {
+    return new Response(null, { status: 204, headers });
+}
@@ -0,0 +1,113 @@
+/**
+PHASE: Edge Function
+FILE: _shared/errors.ts
+
+Typed errors and the one mapping from an error to a status code and body
+used by every function. Throw an HttpError (or a subclass) for anything
+the caller got wrong; database errors are mapped by their Postgres /
+PostgREST code, and anything else is a 500.
+
+Error bodies are always { error, code, request_id, details? }; clients
+read `error` as the message.
+*/
+
+export interface Issue {
+    /** The request field at fault; absent for rules spanning several fields */
+    field?: string;
+    message: string;
+}
+
+export class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string,
+        public readonly code: string,
+        public readonly details?: unknown
+    ) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/** A request body that does not match the function's schema; every issue is reported */
+export class ValidationError extends HttpError {
+    constructor(public readonly issues: Issue[]) {
+        super(400, issues[0]?.message ?? 'Invalid request', 'invalid_request', { issues });
+        this.name = 'ValidationError';
+    }
+}
+
+export class MethodNotAllowedError extends HttpError {
+    constructor(method: string) {
+        super(405, `Method ${method} not allowed`, 'method_not_allowed');
+        this.name = 'MethodNotAllowedError';
+    }
+}
+
+export interface ErrorBody {
+    error: string;
+    code?: string;
+    request_id: string;
+    details?: unknown;
+}
+
+// supabase-js returns PostgREST errors as plain objects, not Error instances
+interface DatabaseError {
+    message: string;
+    code: string;
+    details?: string | null;
+    hint?: string | null;
+}
+
+function isDatabaseError(err: unknown): err is DatabaseError {
+    return typeof err === 'object' && err !== null
+        && typeof (err as DatabaseError).message === 'string'
+        && typeof (err as DatabaseError).code === 'string';
+}
+
+function databaseStatus(code: string): number {
+    // statement_timeout / query_canceled
+    if (code === '57014') return 504;
+    // Data exceptions: a value the caller passed could not be used, e.g. a malformed uuid
+    if (code.startsWith('22')) return 400;
+    if (code === '42501') return 403;
+    // PostgREST itself refused the call (missing function, schema cache, ...)
+    if (code.startsWith('PGRST')) return 502;
+    return 500;
+}
+
+export function errorStatus(err: unknown): number {
+    if (err instanceof HttpError) return err.status;
+    if (isDatabaseError(err)) return databaseStatus(err.code);
+    return 500;
+}
+
+export function errorBody(err: unknown, requestId: string): ErrorBody {
+    if (err instanceof HttpError) {
+        return {
+            error: err.message,
+            code: err.code,
+            request_id: requestId,
+            ...(err.details !== undefined ? { details: err.details } : {})
+        };
+    }
+    if (isDatabaseError(err)) {
+        return {
+            error: err.message,
+            code: err.code,
+            request_id: requestId,
+            ...(err.details || err.hint ? { details: { details: err.details, hint: err.hint } } : {})
+        };
+    }
+    return {
+        error: err instanceof Error ? err.message : 'Unknown error',
+        code: 'internal_error',
+        request_id: requestId
+    };
+}
+
+/** The message to log or record for any thrown value */
+export function errorMessage(err: unknown): string {
+    if (err instanceof Error || isDatabaseError(err)) return err.message;
+    return 'Unknown error';
+}
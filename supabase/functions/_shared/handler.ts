@@ -0,0 +1,142 @@
+/**
+PHASE: Edge Function
+FILE: _shared/handler.ts
+
+The request pipeline every function runs through:
+
+1. CORS preflight is answered.
+2. A request ID is taken from x-request-id (when the caller sent a sane
+   one) or generated, and returned in the x-request-id header, in error
+   bodies, in log lines and in the stats row.
+3. The method is checked and the JSON body validated against the
+   function's schema.
+4. The handler runs with the typed params.
+5. Any error becomes a response with the status and body from errors.ts.
+6. One edge_function_stats row is written with the duration and outcome.
+   A streamed response defers it until the stream ends (deferStats).
+
+A function is then its schema and the work itself:
+
+    Deno.serve(createHandler({
+        name: 'my-function',
+        schema,
+        telemetry: supabase,
+        handle: async ({ params, json }) => json(await doTheWork(params))
+    }));
+
+No Deno or npm imports, so the module also runs under the web app's test
+runner.
+*/
+import { corsHeaders, preflightResponse } from './cors.ts';
+import { errorBody, errorMessage, errorStatus, MethodNotAllowedError, ValidationError } from './errors.ts';
+import { durationInterval, recordStats } from './telemetry.ts';
+import type { StatsClient } from './telemetry.ts';
+import { validate } from './validation.ts';
+import type { Schema } from './validation.ts';
+
+export interface HandlerContext<P> {
+    req: Request;
+    params: P;
+    requestId: string;
+    /** CORS and request ID headers; spread into every response */
+    headers: Record<string, string>;
+    /** Recorded in the stats row, e.g. the RPC that did the work */
+    stats: { functionName: string };
+    log(message: string, ...details: unknown[]): void;
+    json(body: unknown, init?: { status?: number; headers?: Record<string, string> }): Response;
+    /**
+     * For responses that keep working after the handler returns: the stats
+     * row is written when the returned callback is called, not on return.
+     */
+    deferStats(): (error?: unknown) => Promise<void>;
+}
+
+export interface HandlerOptions<P> {
+    /** Used in log lines */
+    name: string;
+    /** The function_name of stats rows until the handler changes it; defaults to name */
+    statsName?: string;
+    schema: Schema<P>;
+    methods?: string[];
+    /** Function-specific response headers the browser may read */
+    exposeHeaders?: string[];
+    /** Where stats rows are written; omitted, nothing is recorded */
+    telemetry?: StatsClient;
+    handle(context: HandlerContext<P>): Promise<Response>;
+}
+
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export function requestIdFrom(req: Request): string {
+    const sent = req.headers.get('x-request-id');
+    return sent && REQUEST_ID.test(sent) ? sent : crypto.randomUUID();
+}
+
+async function readJson(req: Request): Promise<unknown> {
+    try {
+        return await req.json();
+    } catch {
+        throw new ValidationError([{ message: 'Request body must be valid JSON' }]);
+    }
+}
+
+export function createHandler<P>(options: HandlerOptions<P>): (req: Request) => Promise<Response> {
+    const methods = options.methods ?? ['POST'];
+    const cors = corsHeaders(options.exposeHeaders);
+
+    return async (req: Request) => {
+        const requestId = requestIdFrom(req);
+        const headers = { ...cors, 'x-request-id': requestId };
+        if (req.method === 'OPTIONS') return preflightResponse(headers);
+
+        const startTime = Date.now();
+        const stats = { functionName: options.statsName ?? options.name };
+        const log = (message: string, ...details: unknown[]) =>
+            console.log(`[${options.name}] [${requestId}] ${message}`, ...details);
+        const json = (body: unknown, init: { status?: number; headers?: Record<string, string> } = {}) =>
+            new Response(JSON.stringify(body), {
+                status: init.status ?? 200,
+                headers: { ...headers, 'Content-Type': 'application/json', ...init.headers }
+            });
+
+        let recorded = false;
+        const record = async (error?: unknown) => {
+            if (recorded || !options.telemetry) return;
+            recorded = true;
+            await recordStats(options.telemetry, {
+                function_name: stats.functionName,
+                execution_duration: durationInterval(Date.now() - startTime),
+                success: error === undefined,
+                error_message: error === undefined ? null : errorMessage(error),
+                request_id: requestId
+            });
+        };
+        let deferred = false;
+
+        try {
+            if (!methods.includes(req.method)) throw new MethodNotAllowedError(req.method);
+            const params = validate(options.schema, await readJson(req));
+            const response = await options.handle({
+                req,
+                params,
+                requestId,
+                headers,
+                stats,
+                log,
+                json,
+                deferStats: () => {
+                    deferred = true;
+                    return record;
+                }
+            });
+            if (!deferred) await record();
+            return response;
+        } catch (err) {
+            const status = errorStatus(err);
+            if (status >= 500) console.error(`[${options.name}] [${requestId}] Error:`, err);
+            else console.warn(`[${options.name}] [${requestId}] ${status}: ${errorMessage(err)}`);
+            await record(err);
+            return json(errorBody(err, requestId), { status });
+        }
+    };
+}
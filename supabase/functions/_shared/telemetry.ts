@@ -0,0 +1,37 @@
+/**
+PHASE: Edge Function
+FILE: _shared/telemetry.ts
+
+One edge_function_stats row per call, read by the diagnostics page
+(get_edge_function_stats). Writing the row never fails the request: a
+failed insert is logged and dropped.
+*/
+
+export interface StatsRow {
+    function_name: string;
+    /** A Postgres interval; a bare number would be read as seconds */
+    execution_duration: string;
+    success: boolean;
+    error_message: string | null;
+    request_id: string;
+}
+
+// The part of the supabase-js client the stats use
+export interface StatsClient {
+    from(table: 'edge_function_stats'): {
+        insert(row: StatsRow): PromiseLike<{ error: { message: string } | null }>;
+    };
+}
+
+export function durationInterval(ms: number): string {
+    return `${Math.max(0, Math.round(ms))} milliseconds`;
+}
+
+export async function recordStats(client: StatsClient, row: StatsRow): Promise<void> {
+    try {
+        const { error } = await client.from('edge_function_stats').insert(row);
+        if (error) console.warn(`[telemetry] Failed to record ${row.function_name}:`, error.message);
+    } catch (err) {
+        console.warn(`[telemetry] Failed to record ${row.function_name}:`, err);
+    }
+}
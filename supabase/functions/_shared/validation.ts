@@ -0,0 +1,129 @@
+/**
+PHASE: Edge Function
+FILE: _shared/validation.ts
+
+Declarative request validation. A schema lists the body's fields and
+any rules spanning several of them; validate() checks a parsed body
+against it and returns it typed, or throws a ValidationError listing
+every problem found.
+
+    const schema = defineSchema({
+        pod_id: string(),
+        time_start: isoTime(),
+        time_end: isoTime(),
+        factor: optional(number({ min: 1, max: 20 }))
+    }, timeOrder('time_start', 'time_end'));
+
+Values are not coerced: the body is JSON, so a number sent as a string
+is an error rather than a guess.
+*/
+import { ValidationError } from './errors.ts';
+import type { Issue } from './errors.ts';
+
+export interface Field<T> {
+    readonly required: boolean;
+    /** null when the value is acceptable, else the rest of "<field> ..." */
+    check(value: unknown): string | null;
+    /** Type only; never set */
+    readonly __type?: T;
+}
+
+type FieldType<F> = F extends Field<infer T> ? T : never;
+type Fields = Record<string, Field<unknown>>;
+
+/** The validated body: optional fields become optional properties */
+export type Infer<F extends Fields> = {
+    [K in keyof F as undefined extends FieldType<F[K]> ? never : K]: FieldType<F[K]>
+} & {
+    [K in keyof F as undefined extends FieldType<F[K]> ? K : never]?: FieldType<F[K]>
+};
+
+/** A check over the whole body, run once every field is valid */
+export type Rule<T> = (params: T) => Issue | string | null;
+
+export interface Schema<T> {
+    fields: Fields;
+    rules: Rule<T>[];
+}
+
+function field<T>(check: (value: unknown) => string | null): Field<T> {
+    return { required: true, check };
+}
+
+export function optional<T>(inner: Field<T>): Field<T | undefined> {
+    return { required: false, check: inner.check };
+}
+
+export function string({ maxLength = 256 }: { maxLength?: number } = {}): Field<string> {
+    return field(value => {
+        if (typeof value !== 'string' || value.trim() === '') return 'must be a non-empty string';
+        if (value.length > maxLength) return `must be at most ${maxLength} characters`;
+        return null;
+    });
+}
+
+export function isoTime(): Field<string> {
+    return field(value =>
+        typeof value === 'string' && !isNaN(new Date(value).getTime()) ? null : 'must be an ISO 8601 time'
+    );
+}
+
+export function number({ min, max, integer = false }: { min?: number; max?: number; integer?: boolean } = {}): Field<number> {
+    return field(value => {
+        if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+        if (integer && !Number.isInteger(value)) return 'must be an integer';
+        if (min !== undefined && max !== undefined && (value < min || value > max)) return `must be between ${min} and ${max}`;
+        if (min !== undefined && value < min) return `must be at least ${min}`;
+        if (max !== undefined && value > max) return `must be at most ${max}`;
+        return null;
+    });
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Field<T> {
+    return field(value =>
+        typeof value === 'string' && (values as readonly string[]).includes(value) ? null : `must be one of: ${values.join(', ')}`
+    );
+}
+
+export function defineSchema<F extends Fields>(fields: F, ...rules: Rule<Infer<F>>[]): Schema<Infer<F>> {
+    return { fields, rules };
+}
+
+/** Rule: `endField` must be later than `startField` */
+export function timeOrder<T>(startField: keyof T & string, endField: keyof T & string): Rule<T> {
+    return params => new Date(params[endField] as string) > new Date(params[startField] as string)
+        ? null
+        : { field: endField, message: `${endField} must be after ${startField}` };
+}
+
+export function validate<T>(schema: Schema<T>, body: unknown): T {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new ValidationError([{ message: 'Request body must be a JSON object' }]);
+    }
+    const values = body as Record<string, unknown>;
+
+    const issues: Issue[] = [];
+    for (const [name, spec] of Object.entries(schema.fields)) {
+        const value = values[name];
+        if (value === undefined || value === null) {
+            if (spec.required) issues.push({ field: name, message: `Missing required parameter: ${name}` });
+            continue;
+        }
+        const problem = spec.check(value);
+        if (problem) issues.push({ field: name, message: `${name} ${problem}` });
+    }
+    if (issues.length > 0) throw new ValidationError(issues);
+
+    // Unknown fields are dropped, so handlers only see what the schema allows
+    const params: Record<string, unknown> = {};
+    for (const name of Object.keys(schema.fields)) {
+        if (values[name] !== undefined && values[name] !== null) params[name] = values[name];
+    }
+
+    for (const rule of schema.rules) {
+        const issue = rule(params as T);
+        if (issue) issues.push(typeof issue === 'string' ? { message: issue } : issue);
+    }
+    if (issues.length > 0) throw new ValidationError(issues);
+    return params as T;
+}
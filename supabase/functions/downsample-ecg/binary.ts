@@ -0,0 +1,110 @@
+/**
+PHASE: Edge Function
+FILE: downsample-ecg/binary.ts
+
+Binary encoding of the parallel-array payload, sent instead of JSON when
+the request's Accept header names ECG_BINARY_CONTENT_TYPE. The layout is
+documented with the client decoder (src/lib/ecg/dataSource/binary.ts):
+a 32-byte header with the start time and sample interval, per-sample
+time offsets only when the samples are not evenly spaced, Int16 channels
+(Float32 when a value is fractional or out of range) and bit-packed
+lead-on / quality flags.
+*/
+import type { ParallelECGData } from './methods.ts';
+
+export const ECG_BINARY_CONTENT_TYPE = 'application/vnd.ecg-lab.samples';
+
+const VERSION = 1;
+const HEADER_SIZE = 32;
+const FLAG_TIMES = 1;
+const FLAG_FLOAT32 = 2;
+// Below a pod interval (3.125 ms) and above ISO millisecond rounding
+const GRID_TOLERANCE_MS = 1;
+
+const FLAG_KEYS: (keyof ParallelECGData)[] = [
+    'lead_on_p_1', 'lead_on_p_2', 'lead_on_p_3',
+    'lead_on_n_1', 'lead_on_n_2', 'lead_on_n_3',
+    'quality_1', 'quality_2', 'quality_3'
+];
+
+export function acceptsBinary(req: Request): boolean {
+    return (req.headers.get('Accept') ?? '').includes(ECG_BINARY_CONTENT_TYPE);
+}
+
+/**
+ * Epoch ms with the sub-millisecond digits Postgres sends
+ * ("2025-01-01 00:00:00.003125+00"), which Date.parse drops.
+ */
+export function parseTimestampMs(value: string): number {
+    const match = value.match(/\.(\d+)/);
+    if (!match) return Date.parse(value);
+    const digits = match[1];
+    const ms = Date.parse(value.replace(match[0], `.${digits.slice(0, 3).padEnd(3, '0')}`));
+    return digits.length > 3 ? ms + Number(`0.${digits.slice(3)}`) : ms;
+}
+
+// Least-squares slope of time against index, so millisecond rounding of
+// the last sample does not skew the interval
+function evenInterval(times: number[]): number | null {
+    const n = times.length;
+    if (n < 2) return 0;
+    const meanIndex = (n - 1) / 2;
+    let meanTime = 0;
+    for (let k = 0; k < n; k++) meanTime += (times[k] - times[0]) / n;
+    let num = 0;
+    let den = 0;
+    for (let k = 0; k < n; k++) {
+        num += (k - meanIndex) * (times[k] - times[0] - meanTime);
+        den += (k - meanIndex) * (k - meanIndex);
+    }
+    const interval = num / den;
+    if (!(interval > 0)) return null;
+    for (let k = 1; k < n; k++) {
+        if (Math.abs(times[k] - (times[0] + k * interval)) >= GRID_TOLERANCE_MS) return null;
+    }
+    return interval;
+}
+
+export function encodeBinary(data: ParallelECGData): Uint8Array {
+    const times = (data.timestamps ?? []).map(parseTimestampMs);
+    const n = times.length;
+    const channels = [data.channel_1 ?? [], data.channel_2 ?? [], data.channel_3 ?? []];
+    const interval = evenInterval(times);
+    const withTimes = interval === null;
+    const float32 = channels.some(values =>
+        values.some(v => !Number.isInteger(v) || v < -32768 || v > 32767)
+    );
+    const valueSize = float32 ? 4 : 2;
+    const planeSize = Math.ceil(n / 8);
+
+    const channelsOffset = HEADER_SIZE + (withTimes ? n * 8 : 0);
+    const flagsOffset = channelsOffset + 3 * n * valueSize;
+    const out = new ArrayBuffer(flagsOffset + FLAG_KEYS.length * planeSize);
+    const view = new DataView(out);
+
+    'ECGB'.split('').forEach((ch, i) => view.setUint8(i, ch.charCodeAt(0)));
+    view.setUint8(4, VERSION);
+    view.setUint8(5, (withTimes ? FLAG_TIMES : 0) | (float32 ? FLAG_FLOAT32 : 0));
+    view.setUint32(8, n, true);
+    const start = n ? times[0] : 0;
+    view.setFloat64(16, start, true);
+    view.setFloat64(24, interval ?? 0, true);
+
+    if (withTimes) {
+        const offsets = new Float64Array(out, HEADER_SIZE, n);
+        times.forEach((t, i) => { offsets[i] = t - start; });
+    }
+    channels.forEach((values, c) => {
+        const at = channelsOffset + c * n * valueSize;
+        const target = float32 ? new Float32Array(out, at, n) : new Int16Array(out, at, n);
+        for (let i = 0; i < n; i++) target[i] = values[i] ?? 0;
+    });
+    const bytes = new Uint8Array(out, flagsOffset);
+    FLAG_KEYS.forEach((key, p) => {
+        const flags = (data[key] ?? []) as boolean[];
+        for (let i = 0; i < n; i++) {
+            if (flags[i]) bytes[p * planeSize + (i >> 3)] |= 1 << (i & 7);
+        }
+    });
+    return new Uint8Array(out);
+}
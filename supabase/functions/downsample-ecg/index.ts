@@ -3,6 +3,27 @@ PHASE: Edge Function
 FILE: downsample-ecg/index.ts
 */
 import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { authorizePodRequest, jwtConfigFromEnv, supabaseAccessStore } from '@shared/auth.ts';
+import { errorBody } from '@shared/errors.ts';
+import { createHandler } from '@shared/handler.ts';
+import { defineSchema, isoTime, number, oneOf, optional, string, timeOrder } from '@shared/validation.ts';
+import { DOWNSAMPLE_METHODS, rowsToParallel } from './methods.ts';
+import type { DownsampleMethod } from './methods.ts';
+import { downsampleWindow, MIN_POINTS } from './window.ts';
+import type { DownsampleWindowParams, EcgRpc } from './window.ts';
+import { acceptsBinary, ECG_BINARY_CONTENT_TYPE, encodeBinary } from './binary.ts';
+import {
+    chunkWindows,
+    ECG_STREAM_CONTENT_TYPE,
+    encodeChunk,
+    encodeStreamError,
+    MAX_CHUNK_SECONDS,
+    MAX_CHUNKS,
+    MIN_CHUNK_SECONDS,
+    NDJSON_CONTENT_TYPE,
+    streamFormat
+} from './stream.ts';
+import type { StreamFormat } from './stream.ts';
 
 // Create a Supabase client using service role key and anon key for authorization
 const supabase = createClient(
@@ -18,134 +39,155 @@ const supabase = createClient(
     }
 );
 
-const corsHeaders = {
-    'Content-Type': 'application/json',
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-application-name, x-supabase-client',
-    'Access-Control-Max-Age': '86400'
-}
-interface DownsampleParams {
-    pod_id: string;
-    time_start: string;
-    time_end: string;
-    factor?: number;
-}
+// Callers are verified and scoped to their clinics' studies (see _shared/auth.ts)
+const jwtConfig = jwtConfigFromEnv(name => Deno.env.get(name));
+const accessStore = supabaseAccessStore(supabase);
 
-function extractUserIdFromToken(authHeader: string | null): string | null {
-    if (!authHeader) return null;
-    const match = authHeader.match(/^Bearer\s+(.+)$/i);
-    if (!match || !match[1]) return null;
-    const token = match[1];
-    try {
-        const parts = token.split('.');
-        if (parts.length !== 3) return null;
-        const payload = JSON.parse(atob(parts[1]));
-        return payload.sub || null;
-    } catch (error) {
-        console.error("[downsample-ecg] Error extracting user ID from token:", error);
-        return null;
-    }
+interface DownsampleParams extends DownsampleWindowParams {
+    /** Stream the window in chunks of this many seconds (see stream.ts) */
+    chunk_seconds?: number;
 }
 
-function validateParams(params: DownsampleParams): string | null {
-    if (!params.pod_id) return "Missing required parameter: pod_id";
-    if (!params.time_start) return "Missing required parameter: time_start";
-    if (!params.time_end) return "Missing required parameter: time_end";
-    const start = new Date(params.time_start);
-    const end = new Date(params.time_end);
-    if (isNaN(start.getTime())) return "Invalid time_start format";
-    if (isNaN(end.getTime())) return "Invalid time_end format";
-    if (end <= start) return "time_end must be after time_start";
-    if (params.factor !== undefined) {
-        if (typeof params.factor !== 'number') return "factor must be a number";
-        if (params.factor < 1 || params.factor > 20) return "factor must be between 1 and 20";
-    }
-    return null;
-}
+const MAX_POINTS = 500000;
 
-Deno.serve(async (req: Request) => {
-    // Handle CORS preflight requests
-    if (req.method === "OPTIONS") {
-        return new Response(null, {
-            status: 204,
-            headers: corsHeaders
-        });
-    }
-    
-    const startTime = Date.now();
-    const functionName = "downsample_ecg"; // Always use downsample_ecg
-    let userId = extractUserIdFromToken(req.headers.get('Authorization'));
-    
-    try {
-        if (req.method !== "POST") {
-            throw new Error("Method not allowed");
+const rpc: EcgRpc = async (functionName, args) => {
+    const { data, error } = await supabase.rpc(functionName, args);
+    return { data, error };
+};
+
+const schema = defineSchema({
+    pod_id: string(),
+    time_start: isoTime(),
+    time_end: isoTime(),
+    factor: optional(number({ min: 1, max: 20 })),
+    method: optional(oneOf(DOWNSAMPLE_METHODS)),
+    max_points: optional(number({ min: MIN_POINTS, max: MAX_POINTS, integer: true })),
+    chunk_seconds: optional(number({ min: MIN_CHUNK_SECONDS, max: MAX_CHUNK_SECONDS }))
+},
+timeOrder('time_start', 'time_end'),
+params => params.max_points === undefined && (params.method === 'minmax' || params.method === 'lttb' || params.method === 'peak_preserving')
+    ? { field: 'max_points', message: `Missing required parameter: max_points (required for method ${params.method})` }
+    : null,
+params => {
+    if (params.chunk_seconds === undefined) return null;
+    const spanSeconds = (new Date(params.time_end).getTime() - new Date(params.time_start).getTime()) / 1000;
+    return spanSeconds / params.chunk_seconds > MAX_CHUNKS
+        ? { field: 'chunk_seconds', message: `chunk_seconds is too small for the range (at most ${MAX_CHUNKS} chunks)` }
+        : null;
+});
+
+/**
+ * The window as a stream of chunks, each downsampled and written before
+ * the next is read, so the client can draw the start of a long range
+ * while the rest is still being fetched. Stops when the client goes away.
+ * Each call is logged once, when the stream ends.
+ */
+function streamWindow(
+    params: DownsampleParams,
+    format: StreamFormat,
+    headers: Record<string, string>,
+    requestId: string,
+    logCall: (functionName: string, error?: unknown) => Promise<void>
+): Response {
+    const windows = chunkWindows(params.time_start, params.time_end, params.chunk_seconds!);
+    const spanMs = new Date(params.time_end).getTime() - new Date(params.time_start).getTime();
+
+    let index = 0;
+    let functionName = "downsample_ecg";
+
+    // One chunk per pull, so nothing is fetched ahead of a slow client
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (index >= windows.length) {
+                await logCall(functionName);
+                controller.close();
+                return;
+            }
+            const window = windows[index];
+            const share = (new Date(window.time_end).getTime() - new Date(window.time_start).getTime()) / spanMs;
+            try {
+                const result = await downsampleWindow(rpc, {
+                    ...params,
+                    ...window,
+                    max_points: params.max_points === undefined
+                        ? undefined
+                        : Math.max(MIN_POINTS, Math.ceil(params.max_points * share))
+                });
+                functionName = result.functionName;
+                controller.enqueue(encodeChunk(format, index, windows.length, window, result.data ?? rowsToParallel([])));
+                index++;
+            } catch (err) {
+                console.error(`[downsample-ecg] [${requestId}] Stream error:`, err);
+                await logCall(functionName, err);
+                controller.enqueue(encodeStreamError(format, errorBody(err, requestId)));
+                controller.close();
+            }
+        },
+        // The client aborted, e.g. moved to another window
+        async cancel() {
+            await logCall(functionName, new Error(`Cancelled after ${index} of ${windows.length} chunks`));
         }
-        
-        const params: DownsampleParams = await req.json();
-        const validationError = validateParams(params);
-        if (validationError) {
-            throw new Error(validationError);
+    });
+
+    return new Response(body, {
+        status: 200,
+        headers: {
+            ...headers,
+            'Content-Type': format === 'binary' ? ECG_STREAM_CONTENT_TYPE : NDJSON_CONTENT_TYPE
         }
-        
-        const factor = params.factor ?? 4;
-        console.log("[downsample-ecg] Request:", {
+    });
+}
+
+Deno.serve(createHandler({
+    name: "downsample-ecg",
+    statsName: "downsample_ecg",
+    schema,
+    exposeHeaders: ['x-downsample-method', 'x-source-factor'],
+    telemetry: supabase,
+    handle: async ({ req, params, requestId, headers, stats, log, json, deferStats }) => {
+        await authorizePodRequest(req, params, { jwt: jwtConfig, store: accessStore });
+
+        const method: DownsampleMethod = params.method ?? 'decimate';
+        log("Request:", {
             pod_id: params.pod_id,
             time_start: params.time_start,
             time_end: params.time_end,
-            factor: factor
-        });
-        
-        // Always use downsample_ecg function
-        const { data, error } = await supabase.rpc(functionName, {
-            p_pod_id: params.pod_id,
-            p_time_start: params.time_start,
-            p_time_end: params.time_end,
-            p_factor: factor
+            factor: params.factor ?? 4,
+            method,
+            max_points: params.max_points,
+            chunk_seconds: params.chunk_seconds
         });
-        
-        // Log the function call
-        await supabase
-            .from('edge_function_stats')
-            .insert({
-                function_name: functionName,
-                execution_duration: Date.now() - startTime,
-                success: !error,
-                user_id: userId
+
+        const format = params.chunk_seconds !== undefined ? streamFormat(req) : null;
+        if (format) {
+            const finish = deferStats();
+            // Per-chunk factors can differ, so only the method is reported
+            return streamWindow(params, format, {
+                ...headers,
+                'Vary': 'Accept',
+                'x-downsample-method': method
+            }, requestId, (functionName, err) => {
+                stats.functionName = functionName;
+                return finish(err);
             });
-            
-        if (error) {
-            console.error(`[downsample-ecg] RPC error (${functionName}):`, error);
-            throw error;
         }
-        
-        return new Response(
-            JSON.stringify(data),
-            {
+
+        const result = await downsampleWindow(rpc, params);
+        stats.functionName = result.functionName;
+        const { data, factor } = result;
+
+        const responseHeaders = {
+            'Vary': 'Accept',
+            'x-downsample-method': method,
+            'x-source-factor': String(factor)
+        };
+        // Binary when asked for; errors stay JSON either way
+        if (acceptsBinary(req)) {
+            return new Response(encodeBinary(data ?? rowsToParallel([])), {
                 status: 200,
-                headers: corsHeaders
-            }
-        );
-    } catch (err) {
-        console.error("[downsample-ecg] Error:", err);
-        await supabase
-            .from('edge_function_stats')
-            .insert({
-                function_name: functionName,
-                execution_duration: Date.now() - startTime,
-                success: false,
-                error_message: err instanceof Error ? err.message : "Unknown error",
-                user_id: userId
+                headers: { ...headers, ...responseHeaders, 'Content-Type': ECG_BINARY_CONTENT_TYPE }
             });
-        return new Response(
-            JSON.stringify({
-                error: err instanceof Error ? err.message : "Unknown error",
-                code: err instanceof Error && 'code' in err ? err.code : undefined
-            }),
-            {
-                status: err instanceof Error && err.message.includes("Missing") ? 400 : 500,
-                headers: corsHeaders
-            }
-        );
+        }
+        return json(data, { headers: responseHeaders });
     }
-});
+}));
@@ -0,0 +1,204 @@
+/**
+PHASE: Edge Function
+FILE: downsample-ecg/methods.ts
+
+Point-budget downsampling over the parallel-array payload returned by the
+downsample_ecg RPC. All three channels share one timestamp array, so every
+method picks a single set of sample indices that is applied to all arrays.
+*/
+
+export type DownsampleMethod = 'decimate' | 'minmax' | 'lttb' | 'peak_preserving';
+
+export const DOWNSAMPLE_METHODS: DownsampleMethod[] = ['decimate', 'minmax', 'lttb', 'peak_preserving'];
+
+export interface ParallelECGData {
+    timestamps: string[];
+    channel_1: number[];
+    channel_2: number[];
+    channel_3: number[];
+    lead_on_p_1: boolean[];
+    lead_on_p_2: boolean[];
+    lead_on_p_3: boolean[];
+    lead_on_n_1: boolean[];
+    lead_on_n_2: boolean[];
+    lead_on_n_3: boolean[];
+    quality_1: boolean[];
+    quality_2: boolean[];
+    quality_3: boolean[];
+}
+
+// Row shape returned by peak_preserving_downsample_ecg
+export interface DownsampledECGRow {
+    sample_time: string;
+    downsampled_channel_1: number;
+    downsampled_channel_2: number;
+    downsampled_channel_3: number;
+    lead_on_p_1: boolean;
+    lead_on_p_2: boolean;
+    lead_on_p_3: boolean;
+    lead_on_n_1: boolean;
+    lead_on_n_2: boolean;
+    lead_on_n_3: boolean;
+    quality_1: boolean;
+    quality_2: boolean;
+    quality_3: boolean;
+}
+
+const PARALLEL_KEYS: (keyof ParallelECGData)[] = [
+    'timestamps',
+    'channel_1', 'channel_2', 'channel_3',
+    'lead_on_p_1', 'lead_on_p_2', 'lead_on_p_3',
+    'lead_on_n_1', 'lead_on_n_2', 'lead_on_n_3',
+    'quality_1', 'quality_2', 'quality_3'
+];
+
+function channels(data: ParallelECGData): number[][] {
+    return [data.channel_1 ?? [], data.channel_2 ?? [], data.channel_3 ?? []];
+}
+
+/**
+ * Keep only the given (ascending) sample indices in every array.
+ */
+export function selectIndices(data: ParallelECGData, indices: number[]): ParallelECGData {
+    const result = {} as ParallelECGData;
+    for (const key of PARALLEL_KEYS) {
+        const source = (data[key] ?? []) as unknown[];
+        (result as unknown as Record<string, unknown[]>)[key] = indices.map(i => source[i]);
+    }
+    return result;
+}
+
+/**
+ * Per bucket, keep the samples holding the minimum and maximum of each
+ * channel. Up to six points per bucket, so the bucket count is sized to
+ * stay inside maxPoints.
+ */
+export function minMaxIndices(data: ParallelECGData, maxPoints: number): number[] {
+    const n = data.timestamps?.length ?? 0;
+    if (n <= maxPoints) return Array.from({ length: n }, (_, i) => i);
+
+    const series = channels(data);
+    const buckets = Math.max(1, Math.floor(maxPoints / 6));
+    const bucketSize = n / buckets;
+    const indices: number[] = [];
+
+    for (let b = 0; b < buckets; b++) {
+        const lo = Math.floor(b * bucketSize);
+        const hi = Math.min(n, Math.floor((b + 1) * bucketSize));
+        const picked = new Set<number>();
+        for (const values of series) {
+            if (!values.length) continue;
+            let min = lo;
+            let max = lo;
+            for (let i = lo + 1; i < hi; i++) {
+                if (values[i] < values[min]) min = i;
+                if (values[i] > values[max]) max = i;
+            }
+            picked.add(min);
+            picked.add(max);
+        }
+        indices.push(...[...picked].sort((a, c) => a - c));
+    }
+
+    return indices;
+}
+
+/**
+ * Largest-Triangle-Three-Buckets. The triangle area is summed over the
+ * three channels so one shared index set preserves the shape of all leads.
+ */
+export function lttbIndices(data: ParallelECGData, maxPoints: number): number[] {
+    const n = data.timestamps?.length ?? 0;
+    if (n <= maxPoints || maxPoints < 3) return Array.from({ length: n }, (_, i) => i);
+
+    const series = channels(data).filter(values => values.length === n);
+    const x = data.timestamps.map(t => Date.parse(t));
+    const bucketSize = (n - 2) / (maxPoints - 2);
+    const indices: number[] = [0];
+    let a = 0;
+
+    for (let b = 0; b < maxPoints - 2; b++) {
+        const lo = Math.floor(b * bucketSize) + 1;
+        const hi = Math.min(n - 1, Math.floor((b + 1) * bucketSize) + 1);
+
+        // Average of the next bucket is the third triangle vertex
+        const nextLo = hi;
+        const nextHi = Math.min(n, Math.floor((b + 2) * bucketSize) + 1);
+        const count = Math.max(1, nextHi - nextLo);
+        let avgX = 0;
+        const avgY = series.map(() => 0);
+        for (let i = nextLo; i < nextHi; i++) {
+            avgX += x[i];
+            series.forEach((values, c) => { avgY[c] += values[i]; });
+        }
+        avgX /= count;
+        for (let c = 0; c < avgY.length; c++) avgY[c] /= count;
+
+        let best = lo;
+        let bestArea = -1;
+        for (let i = lo; i < hi; i++) {
+            let area = 0;
+            series.forEach((values, c) => {
+                area += Math.abs(
+                    (x[a] - avgX) * (values[i] - values[a]) -
+                    (x[a] - x[i]) * (avgY[c] - values[a])
+                );
+            });
+            if (area > bestArea) {
+                bestArea = area;
+                best = i;
+            }
+        }
+        indices.push(best);
+        a = best;
+    }
+
+    indices.push(n - 1);
+    return indices;
+}
+
+/**
+ * Apply a client-side method to a full-resolution payload.
+ */
+export function downsampleParallel(
+    data: ParallelECGData,
+    method: 'minmax' | 'lttb',
+    maxPoints: number
+): ParallelECGData {
+    const indices = method === 'minmax' ? minMaxIndices(data, maxPoints) : lttbIndices(data, maxPoints);
+    if (indices.length === (data.timestamps?.length ?? 0)) return data;
+    return selectIndices(data, indices);
+}
+
+/**
+ * Join payloads read one after another, e.g. the pages of a long source.
+ */
+export function concatParallel(parts: ParallelECGData[]): ParallelECGData {
+    const out = {} as Record<keyof ParallelECGData, unknown[]>;
+    PARALLEL_KEYS.forEach(key => {
+        out[key] = parts.flatMap(part => (part[key] ?? []) as unknown[]);
+    });
+    return out as unknown as ParallelECGData;
+}
+
+/**
+ * Convert the row result of peak_preserving_downsample_ecg into the same
+ * parallel-array shape downsample_ecg returns, so clients see one format.
+ */
+export function rowsToParallel(rows: DownsampledECGRow[]): ParallelECGData {
+    return {
+        timestamps: rows.map(r => r.sample_time),
+        channel_1: rows.map(r => r.downsampled_channel_1),
+        channel_2: rows.map(r => r.downsampled_channel_2),
+        channel_3: rows.map(r => r.downsampled_channel_3),
+        lead_on_p_1: rows.map(r => r.lead_on_p_1),
+        lead_on_p_2: rows.map(r => r.lead_on_p_2),
+        lead_on_p_3: rows.map(r => r.lead_on_p_3),
+        lead_on_n_1: rows.map(r => r.lead_on_n_1),
+        lead_on_n_2: rows.map(r => r.lead_on_n_2),
+        lead_on_n_3: rows.map(r => r.lead_on_n_3),
+        quality_1: rows.map(r => r.quality_1),
+        quality_2: rows.map(r => r.quality_2),
+        quality_3: rows.map(r => r.quality_3)
+    };
+}
@@ -0,0 +1,87 @@
+/**
+PHASE: Edge Function
+FILE: downsample-ecg/stream.ts
+
+Streamed responses for requests carrying chunk_seconds. The window is
+split into consecutive chunks that are downsampled and written one after
+another, either as length-prefixed binary frames (uint32 chunk index,
+uint32 payload length, little-endian, then the binary.ts payload) or as
+NDJSON lines. The client splits the window the same way
+(src/lib/ecg/dataSource/stream.ts), so a frame needs only its index.
+Errors after the first byte arrive in-band: a frame with index
+STREAM_ERROR_INDEX carrying the JSON error body, or an NDJSON line with
+an error field.
+*/
+import type { ErrorBody } from '@shared/errors.ts';
+import type { ParallelECGData } from './methods.ts';
+import { encodeBinary } from './binary.ts';
+
+export const ECG_STREAM_CONTENT_TYPE = 'application/vnd.ecg-lab.samples-stream';
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+export const STREAM_ERROR_INDEX = 0xffffffff;
+
+export const MIN_CHUNK_SECONDS = 1;
+export const MAX_CHUNK_SECONDS = 3600;
+export const MAX_CHUNKS = 1000;
+
+export type StreamFormat = 'binary' | 'ndjson';
+
+export interface ChunkWindow {
+    time_start: string;
+    time_end: string;
+}
+
+/** Binary frames when named in Accept, else NDJSON when named, else no streaming */
+export function streamFormat(req: Request): StreamFormat | null {
+    const accept = req.headers.get('Accept') ?? '';
+    if (accept.includes(ECG_STREAM_CONTENT_TYPE)) return 'binary';
+    if (accept.includes(NDJSON_CONTENT_TYPE)) return 'ndjson';
+    return null;
+}
+
+export function chunkWindows(time_start: string, time_end: string, chunk_seconds: number): ChunkWindow[] {
+    const start = new Date(time_start).getTime();
+    const end = new Date(time_end).getTime();
+    const chunkMs = chunk_seconds * 1000;
+    const windows: ChunkWindow[] = [];
+    for (let from = start; from < end; from += chunkMs) {
+        windows.push({
+            time_start: new Date(from).toISOString(),
+            time_end: new Date(Math.min(end, from + chunkMs)).toISOString()
+        });
+    }
+    return windows;
+}
+
+const encoder = new TextEncoder();
+
+function frame(index: number, payload: Uint8Array): Uint8Array {
+    const out = new Uint8Array(8 + payload.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, index, true);
+    view.setUint32(4, payload.length, true);
+    out.set(payload, 8);
+    return out;
+}
+
+export function encodeChunk(
+    format: StreamFormat,
+    index: number,
+    total: number,
+    window: ChunkWindow,
+    data: ParallelECGData
+): Uint8Array {
+    if (format === 'binary') return frame(index, encodeBinary(data));
+    return encoder.encode(JSON.stringify({
+        index,
+        total,
+        chunk_start: window.time_start,
+        chunk_end: window.time_end,
+        data
+    }) + '\n');
+}
+
+export function encodeStreamError(format: StreamFormat, body: ErrorBody): Uint8Array {
+    if (format === 'binary') return frame(STREAM_ERROR_INDEX, encoder.encode(JSON.stringify(body)));
+    return encoder.encode(JSON.stringify(body) + '\n');
+}
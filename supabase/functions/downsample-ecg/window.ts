@@ -0,0 +1,130 @@
+/**
+PHASE: Edge Function
+FILE: downsample-ecg/window.ts
+
+One window downsampled with the requested method. The database is reached
+through an injected rpc function, so the index handler passes the
+supabase client and tests pass a fake.
+
+Two limits shape the reads:
+- PostgREST cuts set-returning RPCs at max_rows (1000), so peak-preserving
+  results come from peak_preserving_downsample_ecg_json, which returns a
+  single json array.
+- minmax and lttb need a fine source, which for a long window is far more
+  than one RPC call should return. The source is read in pages of at most
+  SOURCE_PAGE_POINTS and each page is reduced to its share of max_points
+  before the next one is read.
+*/
+import { concatParallel, downsampleParallel, rowsToParallel } from './methods.ts';
+import type { DownsampleMethod, DownsampledECGRow, ParallelECGData } from './methods.ts';
+
+export interface RpcError {
+    message: string;
+    code?: string;
+}
+
+export type EcgRpc = (
+    functionName: string,
+    args: Record<string, unknown>
+) => Promise<{ data: unknown; error: RpcError | null }>;
+
+export interface DownsampleWindowParams {
+    pod_id: string;
+    time_start: string;
+    time_end: string;
+    factor?: number;
+    method?: DownsampleMethod;
+    max_points?: number;
+}
+
+export interface WindowResult {
+    data: ParallelECGData | null;
+    functionName: string;
+    method: DownsampleMethod;
+    factor: number;
+}
+
+// Pod sampling rate before any decimation
+export const RAW_SAMPLE_RATE = 320;
+export const MIN_POINTS = 10;
+// minmax / lttb run here on a decimated source; cap how fine it gets
+export const MAX_SOURCE_POINTS = 200000;
+// Most source samples read by one downsample_ecg call
+export const SOURCE_PAGE_POINTS = 50000;
+
+function rawPointCount(params: DownsampleWindowParams): number {
+    const spanMs = new Date(params.time_end).getTime() - new Date(params.time_start).getTime();
+    return Math.ceil((spanMs / 1000) * RAW_SAMPLE_RATE);
+}
+
+/**
+ * Smallest decimation factor (1-20) that keeps `points` raw samples under
+ * the budget, but never finer than the requested factor.
+ */
+export function factorForBudget(points: number, budget: number, minFactor: number): number {
+    return Math.min(20, Math.max(minFactor, Math.ceil(points / budget)));
+}
+
+/** A page's share of max_points, by its span */
+export function pageBudget(maxPoints: number, pageMs: number, spanMs: number): number {
+    return Math.max(MIN_POINTS, Math.floor(maxPoints * (pageMs / spanMs)));
+}
+
+async function call(rpc: EcgRpc, functionName: string, args: Record<string, unknown>): Promise<unknown> {
+    const { data, error } = await rpc(functionName, args);
+    if (error) {
+        console.error(`[downsample-ecg] RPC error (${functionName}):`, error);
+        throw error;
+    }
+    return data;
+}
+
+/**
+ * Downsample one window with the requested method. Streamed requests call
+ * this once per chunk with the chunk's share of max_points.
+ */
+export async function downsampleWindow(rpc: EcgRpc, params: DownsampleWindowParams): Promise<WindowResult> {
+    const method: DownsampleMethod = params.method ?? 'decimate';
+    const rawPoints = rawPointCount(params);
+    const window = { p_pod_id: params.pod_id, p_time_start: params.time_start, p_time_end: params.time_end };
+
+    if (method === 'peak_preserving') {
+        const functionName = "peak_preserving_downsample_ecg_json";
+        const rows = await call(rpc, functionName, { ...window, p_max_pts: params.max_points });
+        return {
+            data: rows ? rowsToParallel(rows as DownsampledECGRow[]) : null,
+            functionName,
+            method,
+            factor: params.factor ?? 4
+        };
+    }
+
+    const functionName = "downsample_ecg";
+    if (method === 'decimate') {
+        // Coarsen the stride when the budget would otherwise be exceeded
+        const factor = params.max_points === undefined
+            ? params.factor ?? 4
+            : factorForBudget(rawPoints, params.max_points, params.factor ?? 4);
+        const data = await call(rpc, functionName, { ...window, p_factor: factor });
+        return { data: data as ParallelECGData | null, functionName, method, factor };
+    }
+
+    // Bucketing needs the finest source we can afford, not the requested factor
+    const factor = factorForBudget(rawPoints, MAX_SOURCE_POINTS, 1);
+    const pageMs = (SOURCE_PAGE_POINTS * factor * 1000) / RAW_SAMPLE_RATE;
+    const start = new Date(params.time_start).getTime();
+    const end = new Date(params.time_end).getTime();
+    const pages: ParallelECGData[] = [];
+    for (let pageStart = start; pageStart < end; pageStart += pageMs) {
+        const pageEnd = Math.min(end, pageStart + pageMs);
+        const data = await call(rpc, functionName, {
+            p_pod_id: params.pod_id,
+            p_time_start: new Date(pageStart).toISOString(),
+            p_time_end: new Date(pageEnd).toISOString(),
+            p_factor: factor
+        }) as ParallelECGData | null;
+        if (!data) continue;
+        pages.push(downsampleParallel(data, method, pageBudget(params.max_points!, pageEnd - pageStart, end - start)));
+    }
+    return { data: concatParallel(pages), functionName, method, factor };
+}
@@ -0,0 +1,38 @@
+-- Caliper measurements taken on ECG traces, linked to a study and time range
+create table if not exists public.ecg_measurements (
+  id uuid primary key default gen_random_uuid(),
+  study_id uuid not null references public.study (study_id) on delete cascade,
+  pod_id uuid not null,
+  channel smallint not null check (channel between 1 and 3),
+  kind text not null check (kind in ('time', 'amplitude')),
+  label text not null,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  duration_ms double precision,
+  amplitude_mv double precision,
+  rate_bpm double precision,
+  note text,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  check (end_time >= start_time)
+);
+
+create index if not exists ecg_measurements_study_time_idx
+  on public.ecg_measurements (study_id, start_time);
+
+alter table public.ecg_measurements enable row level security;
+
+create policy "Authenticated users can read measurements"
+  on public.ecg_measurements for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add measurements"
+  on public.ecg_measurements for insert
+  to authenticated
+  with check (created_by = auth.uid());
+
+create policy "Authors can delete their measurements"
+  on public.ecg_measurements for delete
+  to authenticated
+  using (created_by = auth.uid());
@@ -0,0 +1,79 @@
+-- Reviewer annotations on ECG strips: a labelled time range on one lead
+-- (or all leads when channel is null), with a free-text note.
+-- Labels come from the client-side taxonomy and are not constrained here,
+-- so the taxonomy can grow without a migration. The author's email is
+-- taken from the JWT by a trigger, never from the client, and an edit
+-- keeps the original author.
+create table if not exists public.ecg_annotations (
+  id uuid primary key default gen_random_uuid(),
+  study_id uuid not null references public.study (study_id) on delete cascade,
+  pod_id uuid not null,
+  channel smallint check (channel between 1 and 3),
+  label text not null,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  note text,
+  created_by uuid default auth.uid(),
+  author_email text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_time >= start_time)
+);
+
+create index if not exists ecg_annotations_study_time_idx
+  on public.ecg_annotations (study_id, start_time);
+
+create or replace function public.ecg_annotations_set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger ecg_annotations_updated_at
+  before update on public.ecg_annotations
+  for each row execute function public.ecg_annotations_set_updated_at();
+
+create or replace function public.ecg_annotations_set_author_email()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.author_email := auth.jwt() ->> 'email';
+  else
+    new.author_email := old.author_email;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger ecg_annotations_author_email
+  before insert or update on public.ecg_annotations
+  for each row execute function public.ecg_annotations_set_author_email();
+
+alter table public.ecg_annotations enable row level security;
+
+create policy "Authenticated users can read annotations"
+  on public.ecg_annotations for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add annotations"
+  on public.ecg_annotations for insert
+  to authenticated
+  with check (created_by = auth.uid());
+
+create policy "Authors can edit their annotations"
+  on public.ecg_annotations for update
+  to authenticated
+  using (created_by = auth.uid())
+  with check (created_by = auth.uid());
+
+create policy "Authors can delete their annotations"
+  on public.ecg_annotations for delete
+  to authenticated
+  using (created_by = auth.uid());
@@ -0,0 +1,37 @@
+-- Bookmarked ECG strips: a time range and the leads to include, kept on
+-- the study so reviewers can collect strips for a report or a sponsor
+-- export (HL7 aECG) over several sessions.
+create table if not exists public.ecg_strip_bookmarks (
+  id uuid primary key default gen_random_uuid(),
+  study_id uuid not null references public.study (study_id) on delete cascade,
+  pod_id uuid not null,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  channels smallint[] not null default '{1,2,3}'
+    check (cardinality(channels) > 0 and channels <@ '{1,2,3}'::smallint[]),
+  label text,
+  created_by uuid default auth.uid(),
+  author_email text default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now(),
+  check (end_time > start_time)
+);
+
+create index if not exists ecg_strip_bookmarks_study_time_idx
+  on public.ecg_strip_bookmarks (study_id, start_time);
+
+alter table public.ecg_strip_bookmarks enable row level security;
+
+create policy "Authenticated users can read strip bookmarks"
+  on public.ecg_strip_bookmarks for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add strip bookmarks"
+  on public.ecg_strip_bookmarks for insert
+  to authenticated
+  with check (created_by = auth.uid());
+
+create policy "Authors can delete their strip bookmarks"
+  on public.ecg_strip_bookmarks for delete
+  to authenticated
+  using (created_by = auth.uid());
@@ -0,0 +1,44 @@
+-- Who may see which ECG data. The edge functions run with the service-role
+-- key, so they check these tables themselves (functions/_shared/auth.ts)
+-- before reading ecg_sample for a pod: a user sees the studies of the
+-- clinics they belong to, plus studies granted to them one by one (e.g. an
+-- external over-reader). Users with app_metadata.role = 'admin' see all.
+create table if not exists public.clinic_memberships (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  clinic_id uuid not null references public.clinics (id) on delete cascade,
+  role text not null default 'viewer' check (role in ('viewer', 'editor', 'manager')),
+  created_at timestamptz not null default now(),
+  primary key (user_id, clinic_id)
+);
+
+create index if not exists clinic_memberships_clinic_idx
+  on public.clinic_memberships (clinic_id);
+
+create table if not exists public.study_access_grants (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  study_id uuid not null references public.study (study_id) on delete cascade,
+  granted_by uuid default auth.uid(),
+  expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (user_id, study_id)
+);
+
+create index if not exists study_access_grants_study_idx
+  on public.study_access_grants (study_id);
+
+-- Pod lookups by the authorization check
+create index if not exists study_pod_idx
+  on public.study (pod_id);
+
+alter table public.clinic_memberships enable row level security;
+alter table public.study_access_grants enable row level security;
+
+create policy "Users can read their own clinic memberships"
+  on public.clinic_memberships for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can read their own study grants"
+  on public.study_access_grants for select
+  to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,179 @@
+-- Saved filters shared beyond their owner. A filter belongs to one lab
+-- (its fields differ per lab) and has a scope: private to the owner, shared
+-- with one clinic's members, or with the whole organization (everyone
+-- signed in). Every change to the name, expression or description is kept
+-- in saved_filter_versions so a shared filter can be restored. Pins are per
+-- user and show the filter as a quick filter chip in its lab. The owner's
+-- and each editor's email are taken from the JWT, never from the client.
+-- Every statement can be run again.
+alter table public.saved_filters
+  add column if not exists description text,
+  add column if not exists lab text not null default 'holter'
+    check (lab in ('holter', 'pod', 'data', 'clinic')),
+  add column if not exists scope text not null default 'private'
+    check (scope in ('private', 'clinic', 'organization')),
+  add column if not exists clinic_id uuid references public.clinics (id) on delete cascade,
+  add column if not exists owner_email text,
+  add column if not exists version integer not null default 1,
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.saved_filters
+  alter column user_id set default auth.uid(),
+  drop constraint if exists saved_filters_clinic_scope_check,
+  add constraint saved_filters_clinic_scope_check
+    check ((scope = 'clinic') = (clinic_id is not null));
+
+create index if not exists saved_filters_lab_idx
+  on public.saved_filters (lab, scope);
+
+create table if not exists public.saved_filter_versions (
+  filter_id uuid not null references public.saved_filters (id) on delete cascade,
+  version integer not null,
+  name text not null,
+  filter_expression text not null,
+  description text,
+  edited_by uuid,
+  editor_email text,
+  created_at timestamptz not null default now(),
+  primary key (filter_id, version)
+);
+
+create table if not exists public.saved_filter_pins (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  filter_id uuid not null references public.saved_filters (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, filter_id)
+);
+
+-- Sets the owner's email on insert and keeps it on every update
+create or replace function public.saved_filters_set_owner_email()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.owner_email := auth.jwt() ->> 'email';
+  else
+    new.owner_email := old.owner_email;
+  end if;
+  return new;
+end;
+$$;
+
+-- Bumps the version when the filter's content changes ...
+create or replace function public.saved_filters_bump_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.name is distinct from old.name
+    or new.filter_expression is distinct from old.filter_expression
+    or new.description is distinct from old.description then
+    new.version := old.version + 1;
+  else
+    new.version := old.version;
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+-- ... and records each version once the row is written. Versions have no
+-- insert policy, so this is the only writer and the editor is the caller.
+create or replace function public.saved_filters_record_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.version <> old.version then
+    insert into public.saved_filter_versions
+      (filter_id, version, name, filter_expression, description, edited_by, editor_email)
+    values
+      (new.id, new.version, new.name, new.filter_expression, new.description, auth.uid(), auth.jwt() ->> 'email')
+    on conflict (filter_id, version) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists saved_filters_set_owner_email on public.saved_filters;
+create trigger saved_filters_set_owner_email
+  before insert or update on public.saved_filters
+  for each row execute function public.saved_filters_set_owner_email();
+
+drop trigger if exists saved_filters_bump_version on public.saved_filters;
+create trigger saved_filters_bump_version
+  before update on public.saved_filters
+  for each row execute function public.saved_filters_bump_version();
+
+drop trigger if exists saved_filters_record_version on public.saved_filters;
+create trigger saved_filters_record_version
+  after insert or update on public.saved_filters
+  for each row execute function public.saved_filters_record_version();
+
+-- Existing filters start their history at version 1
+insert into public.saved_filter_versions (filter_id, version, name, filter_expression, created_at)
+select id, version, name, filter_expression, coalesce(created_at, now())
+from public.saved_filters
+on conflict (filter_id, version) do nothing;
+
+alter table public.saved_filters enable row level security;
+alter table public.saved_filter_versions enable row level security;
+alter table public.saved_filter_pins enable row level security;
+
+drop policy if exists "Users can read saved filters shared with them" on public.saved_filters;
+create policy "Users can read saved filters shared with them"
+  on public.saved_filters for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or scope = 'organization'
+    or (scope = 'clinic' and clinic_id in (
+      select clinic_id from public.clinic_memberships where user_id = auth.uid()
+    ))
+  );
+
+drop policy if exists "Users can save filters for themselves and their clinics" on public.saved_filters;
+create policy "Users can save filters for themselves and their clinics"
+  on public.saved_filters for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and (scope <> 'clinic' or clinic_id in (
+      select clinic_id from public.clinic_memberships where user_id = auth.uid()
+    ))
+  );
+
+drop policy if exists "Owners can edit their saved filters" on public.saved_filters;
+create policy "Owners can edit their saved filters"
+  on public.saved_filters for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and (scope <> 'clinic' or clinic_id in (
+      select clinic_id from public.clinic_memberships where user_id = auth.uid()
+    ))
+  );
+
+drop policy if exists "Owners can delete their saved filters" on public.saved_filters;
+create policy "Owners can delete their saved filters"
+  on public.saved_filters for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Visible with the filter itself; written only by the trigger
+drop policy if exists "Users can read versions of filters they can see" on public.saved_filter_versions;
+create policy "Users can read versions of filters they can see"
+  on public.saved_filter_versions for select
+  to authenticated
+  using (exists (select 1 from public.saved_filters f where f.id = filter_id));
+
+drop policy if exists "Users manage their own pins" on public.saved_filter_pins;
+create policy "Users manage their own pins"
+  on public.saved_filter_pins for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
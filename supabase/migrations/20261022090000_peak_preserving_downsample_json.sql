@@ -0,0 +1,18 @@
+-- peak_preserving_downsample_ecg returns a set of rows, and PostgREST cuts
+-- every set-returning RPC at max_rows (1000, see supabase/config.toml), so a
+-- window asked for more points came back as only its first 1000 samples.
+-- This wrapper returns the whole result as one json array, which is a
+-- single value and is never truncated. downsample-ecg calls this one.
+create or replace function public.peak_preserving_downsample_ecg_json(
+  p_pod_id uuid,
+  p_time_start timestamptz,
+  p_time_end timestamptz,
+  p_max_pts integer
+)
+returns json
+language sql
+stable
+as $$
+  select coalesce(json_agg(samples order by samples.sample_time), '[]'::json)
+  from public.peak_preserving_downsample_ecg(p_pod_id, p_time_start, p_time_end, p_max_pts) as samples;
+$$;
@@ -0,0 +1,43 @@
+-- Measurements were readable by every signed-in user. Scope them to the
+-- studies the user can see, by the same rule the edge functions apply
+-- (functions/_shared/auth.ts): admins see every study, everyone else the
+-- studies of their clinics plus those granted to them and not expired.
+-- Security definer so the check reads study and the access tables whatever
+-- their own policies allow the caller.
+create or replace function public.can_access_study(p_study_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin'
+    or exists (
+      select 1
+      from public.study s
+      join public.clinic_memberships m on m.clinic_id = s.clinic_id
+      where s.study_id = p_study_id
+        and m.user_id = auth.uid()
+    )
+    or exists (
+      select 1
+      from public.study_access_grants g
+      where g.study_id = p_study_id
+        and g.user_id = auth.uid()
+        and (g.expires_at is null or g.expires_at > now())
+    );
+$$;
+
+drop policy if exists "Authenticated users can read measurements" on public.ecg_measurements;
+drop policy if exists "Users can read measurements on studies they can access" on public.ecg_measurements;
+create policy "Users can read measurements on studies they can access"
+  on public.ecg_measurements for select
+  to authenticated
+  using (public.can_access_study(study_id));
+
+drop policy if exists "Authenticated users can add measurements" on public.ecg_measurements;
+drop policy if exists "Users can add measurements on studies they can access" on public.ecg_measurements;
+create policy "Users can add measurements on studies they can access"
+  on public.ecg_measurements for insert
+  to authenticated
+  with check (created_by = auth.uid() and public.can_access_study(study_id));
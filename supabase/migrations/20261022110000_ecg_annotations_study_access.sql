@@ -0,0 +1,15 @@
+-- Annotations were readable by every signed-in user. Reads and inserts
+-- are now scoped to the studies the user can access (see can_access_study).
+drop policy if exists "Authenticated users can read annotations" on public.ecg_annotations;
+drop policy if exists "Users can read annotations on studies they can access" on public.ecg_annotations;
+create policy "Users can read annotations on studies they can access"
+  on public.ecg_annotations for select
+  to authenticated
+  using (public.can_access_study(study_id));
+
+drop policy if exists "Authenticated users can add annotations" on public.ecg_annotations;
+drop policy if exists "Users can add annotations on studies they can access" on public.ecg_annotations;
+create policy "Users can add annotations on studies they can access"
+  on public.ecg_annotations for insert
+  to authenticated
+  with check (created_by = auth.uid() and public.can_access_study(study_id));
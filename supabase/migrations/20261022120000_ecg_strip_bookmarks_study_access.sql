@@ -0,0 +1,37 @@
+-- Strip bookmarks were readable by every signed-in user, and author_email
+-- was only a column default that a client could overwrite. Reads and
+-- inserts are now scoped to the studies the user can access (see
+-- can_access_study), and the author's email is taken from the JWT by a
+-- trigger.
+create or replace function public.ecg_strip_bookmarks_set_author_email()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.author_email := auth.jwt() ->> 'email';
+  else
+    new.author_email := old.author_email;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists ecg_strip_bookmarks_author_email on public.ecg_strip_bookmarks;
+create trigger ecg_strip_bookmarks_author_email
+  before insert or update on public.ecg_strip_bookmarks
+  for each row execute function public.ecg_strip_bookmarks_set_author_email();
+
+drop policy if exists "Authenticated users can read strip bookmarks" on public.ecg_strip_bookmarks;
+drop policy if exists "Users can read strip bookmarks on studies they can access" on public.ecg_strip_bookmarks;
+create policy "Users can read strip bookmarks on studies they can access"
+  on public.ecg_strip_bookmarks for select
+  to authenticated
+  using (public.can_access_study(study_id));
+
+drop policy if exists "Authenticated users can add strip bookmarks" on public.ecg_strip_bookmarks;
+drop policy if exists "Users can add strip bookmarks on studies they can access" on public.ecg_strip_bookmarks;
+create policy "Users can add strip bookmarks on studies they can access"
+  on public.ecg_strip_bookmarks for insert
+  to authenticated
+  with check (created_by = auth.uid() and public.can_access_study(study_id));